@@ -6,26 +6,56 @@ import { WrappedFlow } from './components/WrappedFlow'
 import { ResultsView, VisualizationView } from './components/views'
 import { useTravelData, useProcessingResult } from './hooks/useTravelData'
 import { useStorageQuota } from './hooks/useStorageQuota'
-import type { ProcessingResult, EnhancedProcessingResult } from './types/travel'
+import { EnrichmentJobService } from './services/enrichmentJobs'
+import { TimelineParser } from './services/parser'
+import { TravelCalculations } from './services/calculations'
+import type { StoredEnrichmentJob } from './services/storage'
+import type { ProcessingResult, EnhancedProcessingResult, HomeWorkLocations } from './types/travel'
 
 function App() {
   const [currentPage, setCurrentPage] = useState<'home' | 'wrapped'>('home')
   const [currentView, setCurrentView] = useState<'input' | 'results' | 'visualization' | 'wrapped'>('input')
-  const { travelData, isLoading, error, clearCurrentData } = useTravelData()
+  const { travelData, isLoading, error, clearCurrentData, loadTravelData, updateTravelData } = useTravelData()
   const { saveProcessingResult } = useProcessingResult()
   const { quotaInfo, isLowStorage, isCriticalStorage } = useStorageQuota(60000) // Check every minute
   const [showError, setShowError] = useState(false)
+  const [resumableJob, setResumableJob] = useState<StoredEnrichmentJob | null>(null)
 
-  const handleDataProcessed = useCallback(async (result: ProcessingResult | EnhancedProcessingResult, fileName?: string, fileSize?: number) => {
+  const handleDataProcessed = useCallback(async (
+    result: ProcessingResult | EnhancedProcessingResult,
+    fileName?: string,
+    fileSize?: number,
+    storageId?: string
+  ) => {
     try {
-      await saveProcessingResult(result, fileName, fileSize)
+      // Enrichment jobs save their results as they go
+      if (storageId) {
+        await loadTravelData(storageId)
+      } else {
+        await saveProcessingResult(result, fileName, fileSize)
+      }
+      setResumableJob(null)
       // Automatically start wrapped story instead of going to results
       setCurrentView('wrapped')
     } catch (err) {
       console.error('Failed to save processing result:', err)
       setCurrentView('input') // Stay on input view if save fails
     }
-  }, [saveProcessingResult])
+  }, [saveProcessingResult, loadTravelData])
+
+  // Statistics depend on home and work, so they are recalculated when the user changes them
+  const handleHomeWorkChange = useCallback(async (homeWork: HomeWorkLocations) => {
+    if (!travelData) return
+    try {
+      await updateTravelData({
+        homeWork,
+        basicStats: TimelineParser.calculateStats(travelData.basicTrips, homeWork),
+        enhancedStats: travelData.enhancedTrips && TravelCalculations.calculateEnhancedStats(travelData.enhancedTrips, homeWork)
+      })
+    } catch (err) {
+      console.error('Failed to save home and work locations:', err)
+    }
+  }, [travelData, updateTravelData])
 
   const handleContinueToVisualization = useCallback(() => {
     setCurrentView('visualization')
@@ -60,6 +90,13 @@ function App() {
     setCurrentView('input')
   }, [])
 
+  // Enrichment interrupted by closing the tab can be resumed from the input view
+  useEffect(() => {
+    EnrichmentJobService.getResumableJob()
+      .then(setResumableJob)
+      .catch(err => console.warn('Failed to check for unfinished enrichment:', err))
+  }, [])
+
   // Show storage warnings
   useEffect(() => {
     if (isCriticalStorage && quotaInfo) {
@@ -94,7 +131,10 @@ function App() {
         totalSegments: travelData.totalSegments,
         processedSegments: travelData.processedSegments,
         apiEnrichmentProgress: travelData.apiEnrichmentProgress,
-        errors: travelData.errors
+        errors: travelData.errors,
+        sources: travelData.sources,
+        importReport: travelData.importReport,
+        homeWork: travelData.homeWork
       } as EnhancedProcessingResult;
     } else {
       // Basic result format
@@ -103,7 +143,10 @@ function App() {
         stats: travelData.basicStats,
         totalSegments: travelData.totalSegments,
         processedSegments: travelData.processedSegments,
-        errors: travelData.errors
+        errors: travelData.errors,
+        sources: travelData.sources,
+        importReport: travelData.importReport,
+        homeWork: travelData.homeWork
       } as ProcessingResult;
     }
   }, [travelData]);
@@ -132,6 +175,7 @@ function App() {
         onViewWrapped={handleViewWrapped}
         onContinueToVisualization={handleContinueToVisualization}
         onBackToInput={handleBackToInput}
+        onHomeWorkChange={handleHomeWorkChange}
       />
     );
   };
@@ -190,6 +234,28 @@ function App() {
         </div>
       )}
 
+      {/* Unfinished enrichment */}
+      {resumableJob && currentPage === 'home' && (
+        <div className="bg-blue-100 border-l-4 border-blue-500 text-blue-700 p-4">
+          <div className="flex items-center justify-between">
+            <div className="ml-3">
+              <p className="text-sm font-bold">
+                Enrichment of {resumableJob.fileName || 'your last upload'} stopped after {resumableJob.enrichedTrips} of {resumableJob.totalTrips} trips
+              </p>
+              <p className="text-sm">
+                Your progress was saved. Pick up where it left off from the upload page.
+              </p>
+            </div>
+            <button
+              onClick={handleGetStarted}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Continue
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Main Content */}
       {currentPage === 'home' && (
         <HomePage onGetStarted={handleGetStarted} />
@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { TripSegmentation } from '../../services/calculations';
+import { getLocalStartTime, toLocalTime } from '../../utils/time';
+import type { AwayTrip, AwayTripSettings, EnhancedTrip, HomeWorkLocations, ProcessedTrip } from '../../types/travel';
+
+interface AwayTripsPanelProps {
+  trips: ProcessedTrip[] | EnhancedTrip[];
+  homeWork: HomeWorkLocations;
+  onChange: (homeWork: HomeWorkLocations) => void;
+}
+
+const RADIUS_OPTIONS = [25, 50, 100, 200];
+const DURATION_OPTIONS = [
+  { hours: 4, label: '4 hours' },
+  { hours: 8, label: '8 hours' },
+  { hours: 24, label: '1 day' },
+  { hours: 48, label: '2 days' }
+];
+const COLLAPSED_TRIPS = 5;
+
+const formatDates = (trip: AwayTrip): string => {
+  const start = format(getLocalStartTime(trip), 'MMM d, yyyy');
+  const end = format(toLocalTime(trip.endTime, trip.endUtcOffsetMinutes), 'MMM d, yyyy');
+  return start === end ? start : `${start} → ${end}`;
+};
+
+/**
+ * Lists the trips away from home, newest first, with the radius and minimum
+ * duration that define them. Statistics are recalculated by the caller on change.
+ */
+export const AwayTripsPanel: React.FC<AwayTripsPanelProps> = ({ trips, homeWork, onChange }) => {
+  const [showAll, setShowAll] = useState(false);
+  const settings = homeWork.awayTripSettings || TripSegmentation.DEFAULT_SETTINGS;
+
+  const awayTrips = useMemo(
+    () => TripSegmentation.segmentTrips(trips, homeWork).reverse(),
+    [trips, homeWork]
+  );
+  const nightsAway = awayTrips.reduce((sum, trip) => sum + trip.nightsAway, 0);
+  const visibleTrips = showAll ? awayTrips : awayTrips.slice(0, COLLAPSED_TRIPS);
+
+  const setSettings = (changes: Partial<AwayTripSettings>) => {
+    onChange({ ...homeWork, awayTripSettings: { ...settings, ...changes } });
+  };
+
+  return (
+    <div className="mt-6 bg-white rounded-lg p-4 border border-gray-200">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gray-800 flex items-center">
+          <span className="text-xl mr-2">🧳</span>
+          Trips Away
+        </h3>
+        {homeWork.home && (
+          <span className="text-sm text-gray-600">
+            {awayTrips.length} trips • {nightsAway} nights away
+          </span>
+        )}
+      </div>
+
+      {!homeWork.home ? (
+        <p className="text-sm text-gray-500">Set a home location to group your timeline into trips away from home.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-4 mb-3 text-sm">
+            <label className="flex items-center gap-2 text-gray-700">
+              Farther than
+              <select
+                value={settings.radiusKm}
+                onChange={(event) => setSettings({ radiusKm: Number(event.target.value) })}
+                className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+              >
+                {RADIUS_OPTIONS.map(radius => (
+                  <option key={radius} value={radius}>{radius} km</option>
+                ))}
+              </select>
+              from home
+            </label>
+            <label className="flex items-center gap-2 text-gray-700">
+              For at least
+              <select
+                value={settings.minDurationHours}
+                onChange={(event) => setSettings({ minDurationHours: Number(event.target.value) })}
+                className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+              >
+                {DURATION_OPTIONS.map(({ hours, label }) => (
+                  <option key={hours} value={hours}>{label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {awayTrips.length === 0 ? (
+            <p className="text-sm text-gray-500">No trips away from home with these settings.</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {visibleTrips.map(trip => (
+                <li key={trip.id} className="bg-gray-50 rounded-lg p-3 flex items-center justify-between">
+                  <div>
+                    <div className="font-medium text-gray-800">
+                      {trip.destination}
+                      {trip.countries.length > 0 && <span className="text-gray-500 font-normal"> • {trip.countries.join(', ')}</span>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {formatDates(trip)}
+                      {trip.places.length > 1 && ` • ${trip.places.length} places`}
+                      {!trip.returnedHome && ' • not back yet'}
+                    </div>
+                  </div>
+                  <div className="text-right text-xs text-gray-600">
+                    <div>{trip.nightsAway} nights</div>
+                    <div>{trip.distanceKm.toFixed(0)} km</div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {awayTrips.length > COLLAPSED_TRIPS && (
+            <button
+              onClick={() => setShowAll(!showAll)}
+              className="mt-3 text-sm font-medium text-blue-600 hover:text-blue-800"
+            >
+              {showAll ? 'Show fewer' : `Show all ${awayTrips.length} trips`}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
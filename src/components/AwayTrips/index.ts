@@ -0,0 +1 @@
+export { AwayTripsPanel } from './AwayTripsPanel';
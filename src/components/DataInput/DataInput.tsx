@@ -1,26 +1,54 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { FileUpload } from '../FileUpload';
 import { ManualEntry } from '../ManualEntry';
 import { ProgressIndicator, StepProgress } from '../ProgressIndicator';
+import { DateAssignmentDialog } from '../DateAssignment';
+import { FieldMappingDialog } from '../FieldMapping';
 import { TimelineParser } from '../../services/parser';
+import { useProcessingWorker } from '../../hooks/useProcessingWorker';
+import { ImporterRegistry } from '../../services/importers';
+import { manualTripsToProcessed } from '../../services/formats/manual';
+import { mergeImportResults } from '../../services/formats/merge';
+import { applyCalendarEvents } from '../../services/formats/calendarLabels';
+import { EnrichmentJobService } from '../../services/enrichmentJobs';
+import type { StoredEnrichmentJob } from '../../services/storage';
+import type { TripImporter, ImportContext } from '../../services/importers';
 import type { 
   UploadState, 
   ManualTrip, 
   ProcessingResult,
   EnhancedProcessingResult,
-  ProcessedTrip 
+  ImportResult,
+  UndatedFeature,
+  DateAssignment,
+  FieldMapping,
+  FieldMappingRequest
 } from '../../types/travel';
 import { 
-  validateTimelineJson, 
   validateManualTrip, 
   validateFileSize, 
   validateFileType 
 } from '../../utils/validation';
 import { AppErrorHandler } from '../../utils/errorHandling';
+import { isAbortError, ProcessingCancelledError, throwIfAborted } from '../../utils/abort';
 
 interface DataInputProps {
-  onDataProcessed: (result: ProcessingResult | EnhancedProcessingResult, fileName?: string, fileSize?: number) => void;
+  /** storageId is set when the result has already been saved (enrichment jobs save as they go) */
+  onDataProcessed: (
+    result: ProcessingResult | EnhancedProcessingResult,
+    fileName?: string,
+    fileSize?: number,
+    storageId?: string
+  ) => void;
+}
+
+// A saved upload whose trips are being enriched
+interface EnrichmentUpload {
+  jobId: string;
+  travelDataId: string;
+  fileName?: string;
+  fileSize?: number;
 }
 
 export const DataInput: React.FC<DataInputProps> = ({ onDataProcessed }) => {
@@ -34,6 +62,30 @@ export const DataInput: React.FC<DataInputProps> = ({ onDataProcessed }) => {
   const [currentError, setCurrentError] = useState<string | null>(null);
   const [enhancedProcessing, setEnhancedProcessing] = useState(true);
   const [processingStage, setProcessingStage] = useState<string>('');
+  const [enrichedTripCount, setEnrichedTripCount] = useState(0);
+  const { importFiles, runEnrichmentJob } = useProcessingWorker();
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [cancelledUpload, setCancelledUpload] = useState<{
+    result: EnhancedProcessingResult;
+    upload: EnrichmentUpload;
+  } | null>(null);
+  const [resumableJob, setResumableJob] = useState<StoredEnrichmentJob | null>(null);
+  const [dateAssignmentRequest, setDateAssignmentRequest] = useState<{
+    features: UndatedFeature[];
+    resolve: (assignments: DateAssignment[]) => void;
+  } | null>(null);
+  const [fieldMappingRequest, setFieldMappingRequest] = useState<{
+    request: FieldMappingRequest;
+    resolve: (mapping: FieldMapping | null) => void;
+  } | null>(null);
+
+  // Offer to finish enrichment interrupted by a reload or a cancel
+  useEffect(() => {
+    EnrichmentJobService.getResumableJob()
+      .then(setResumableJob)
+      .catch(error => console.warn('Failed to check for unfinished enrichment:', error));
+  }, []);
 
   const getProcessingSteps = (): Array<{label: string; status: 'pending' | 'active' | 'completed' | 'error'}> => [
     { 
@@ -61,83 +113,298 @@ export const DataInput: React.FC<DataInputProps> = ({ onDataProcessed }) => {
     }
   ];
 
-  const handleFileSelect = async (file: File) => {
+  const startProcessing = (): AbortSignal => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     setCurrentError(null);
-    setUploadState({ status: 'uploading', progress: 0, fileName: file.name, fileSize: file.size });
+    setCancelledUpload(null);
+    setResumableJob(null);
+    setIsCancelling(false);
+    return controller.signal;
+  };
+
+  const handleFilesSelect = async (files: File[]) => {
+    const signal = startProcessing();
+    let upload: EnrichmentUpload | null = null;
+
+    setUploadState({
+      status: 'uploading',
+      progress: 0,
+      fileName: files.length === 1 ? files[0].name : `${files.length} files`,
+      fileSize: files.reduce((sum, file) => sum + file.size, 0)
+    });
+
+    // Prefix messages with the file name when several files are imported
+    const forFile = (file: File, message: string) => files.length > 1 ? `${file.name}: ${message}` : message;
 
     try {
-      // Validate file
-      const fileSizeErrors = validateFileSize(file, 50);
-      const fileTypeErrors = validateFileType(file, ['.json']);
-      
-      if (fileSizeErrors.length > 0 || fileTypeErrors.length > 0) {
-        const allErrors = [...fileSizeErrors, ...fileTypeErrors];
-        throw new Error(allErrors[0]);
+      // Find the importer that understands each file
+      const importers: TripImporter[] = [];
+      for (const file of files) {
+        const importer = await ImporterRegistry.detectImporter(file);
+        if (!importer) {
+          throw new Error(forFile(file, validateFileType(file, ImporterRegistry.getAcceptedExtensions())[0] || 'Unsupported file type'));
+        }
+        importers.push(importer);
       }
 
+      setUploadState(prev => ({
+        ...prev,
+        importerName: Array.from(new Set(importers.map(importer => importer.name))).join(', ')
+      }));
+
+      // Validate files
+      files.forEach((file, index) => {
+        const fileSizeErrors = validateFileSize(file, importers[index].maxFileSizeMB);
+        if (fileSizeErrors.length > 0) {
+          throw new Error(forFile(file, fileSizeErrors[0]));
+        }
+      });
+
       // Update progress to show upload complete
       setUploadState(prev => ({ ...prev, progress: 10 }));
 
-      // Read and validate file content
-      const fileContent = await readFileAsText(file);
-      const validation = validateTimelineJson(fileContent);
-      
-      if (!validation.isValid) {
-        throw new Error(validation.errors[0] || 'Invalid timeline format');
+      // Validate file content
+      for (let i = 0; i < files.length; i++) {
+        throwIfAborted(signal);
+        const validationErrors = await importers[i].validate(files[i]);
+        if (validationErrors.length > 0) {
+          throw new Error(forFile(files[i], validationErrors[0]));
+        }
       }
 
       setUploadState(prev => ({ ...prev, status: 'processing', progress: 25 }));
 
-      // Parse timeline data - use enhanced processing if enabled
-      let result: ProcessingResult | EnhancedProcessingResult;
-      
-      if (enhancedProcessing) {
-        result = await TimelineParser.parseTimelineFileEnhanced(file, (progress, stage) => {
-          setProcessingStage(stage);
-          setUploadState(prev => ({ 
-            ...prev, 
-            progress: 25 + Math.floor(progress * 0.75) // 25% to 100%
-          }));
-        });
-      } else {
-        result = await TimelineParser.parseTimelineFile(file, (progress) => {
-          setUploadState(prev => ({ 
-            ...prev, 
-            progress: 25 + Math.floor(progress * 0.75) // 25% to 100%
-          }));
-        });
+      // Files of formats read as a batch (e.g. a folder of photos) are imported together
+      const units: Array<{ importer: TripImporter; files: File[]; name: string }> = [];
+      files.forEach((file, index) => {
+        const importer = importers[index];
+        const batch = importer.convertBatch && units.find(unit => unit.importer === importer);
+        if (batch) {
+          batch.files.push(file);
+          batch.name = `${batch.files.length} ${importer.name.toLowerCase()}`;
+        } else {
+          units.push({ importer, files: [file], name: file.name });
+        }
+      });
+
+      // Convert each file to trips
+      const importShare = enhancedProcessing ? 30 : 75;
+      const results: ImportResult[] = [];
+
+      for (let i = 0; i < units.length; i++) {
+        const { importer, files: unitFiles, name } = units[i];
+        const context: ImportContext = {
+          onProgress: (progress) => {
+            setProcessingStage(`Importing ${importer.name} data...`);
+            setUploadState(prev => ({ 
+              ...prev, 
+              progress: 25 + Math.floor(((i + progress / 100) / units.length) * importShare)
+            }));
+          },
+          requestDateAssignment: (features) => new Promise(resolve => {
+            setProcessingStage('Waiting for dates...');
+            setDateAssignmentRequest({ features, resolve });
+          }),
+          requestFieldMapping: (request) => new Promise(resolve => {
+            setProcessingStage('Waiting for field mapping...');
+            setFieldMappingRequest({ request, resolve });
+          }),
+          signal
+        };
+        const imported = await importFiles(importer, unitFiles, context);
+
+        if (units.length > 1) {
+          // Trip ids are only unique within one import
+          imported.trips = imported.trips.map(trip => ({ ...trip, id: `${i}-${trip.id}`, source: name }));
+          imported.calendarEvents = imported.calendarEvents?.map(event => ({ ...event, source: name }));
+          imported.errors = imported.errors.map(error => unitFiles.length > 1 ? error : forFile(unitFiles[0], error));
+        }
+        results.push(imported);
+      }
+
+      // Combine overlapping exports into one timeline
+      let imported: ImportResult = results[0];
+      if (units.length > 1) {
+        setProcessingStage('Merging files and removing duplicates...');
+        const merged = mergeImportResults(results);
+
+        merged.sources = units.flatMap(({ importer, name }, index) => results[index].sources || [{
+          fileName: name,
+          format: importer.name,
+          status: 'imported' as const,
+          tripCount: merged.trips.filter(trip => trip.source === name).length,
+          note: [
+            merged.duplicatesRemoved[name] && `${merged.duplicatesRemoved[name]} duplicate segments removed`,
+            merged.mergedIntoVisits[name] && `${merged.mergedIntoVisits[name]} added to matching visits`
+          ].filter(Boolean).join(', ') || undefined
+        }]);
+        imported = merged;
       }
 
       // Include manual trips if any
       if (manualTrips.length > 0) {
-        const convertedManualTrips = convertManualTripsToProcessed(manualTrips);
-        
-        if ('enhancedTrips' in result) {
-          result.basicTrips = [...result.basicTrips, ...convertedManualTrips];
-        } else {
-          result.trips = [...result.trips, ...convertedManualTrips];
-        }
-        
-        // Update totals
-        result.totalSegments += manualTrips.length;
-        result.processedSegments += manualTrips.length;
+        imported = {
+          ...imported,
+          trips: [...imported.trips, ...manualTripsToProcessed(manualTrips)],
+          totalSegments: imported.totalSegments + manualTrips.length,
+          processedSegments: imported.processedSegments + manualTrips.length
+        };
       }
 
-      setUploadState(prev => ({ ...prev, status: 'success', progress: 100 }));
-      onDataProcessed(result, uploadState.fileName, uploadState.fileSize);
+      // Label trips with the calendar events they overlap; events elsewhere become trips
+      if (imported.calendarEvents && imported.calendarEvents.length > 0) {
+        setProcessingStage('Labelling trips with calendar events...');
+        const { eventTrips, ...labelled } = await applyCalendarEvents(imported, signal);
+        imported = {
+          ...labelled,
+          sources: labelled.sources?.map(source => eventTrips[source.fileName]
+            ? { ...source, tripCount: source.tripCount + eventTrips[source.fileName] }
+            : source)
+        };
+      }
+
+      const result = TimelineParser.buildProcessingResult(imported);
+      const fileName = files.map(file => file.name).join(', ');
+      const fileSize = files.reduce((sum, file) => sum + file.size, 0);
+
+      if (!enhancedProcessing) {
+        completeProcessing(result, fileName, fileSize);
+        return;
+      }
+
+      // Saved before enrichment starts, so it can be resumed if the tab closes
+      setProcessingStage('Saving timeline...');
+      const job = await EnrichmentJobService.createJob(result, { fileName, fileSize });
+      upload = { ...job, fileName, fileSize };
+
+      await enrichUpload(upload, signal);
 
     } catch (error) {
-      console.error('File processing error:', error);
-      const appError = AppErrorHandler.fromError(error);
-      setCurrentError(appError.userMessage);
-      setUploadState(prev => ({ 
-        ...prev, 
-        status: 'error', 
-        error: appError.userMessage 
-      }));
+      handleProcessingError(error, upload);
+    } finally {
+      finishProcessing();
+    }
+  };
+
+  const enrichUpload = async (upload: EnrichmentUpload, signal: AbortSignal) => {
+    setEnrichedTripCount(0);
+    const result = await runEnrichmentJob(
+      upload.jobId,
+      (progress, stage) => {
+        setProcessingStage(stage);
+        setUploadState(prev => ({ 
+          ...prev, 
+          progress: 55 + Math.floor(progress * 0.45) // 55% to 100%
+        }));
+      },
+      (trips) => setEnrichedTripCount(count => count + trips.length),
+      signal
+    );
+
+    completeProcessing(result, upload.fileName, upload.fileSize, upload.travelDataId);
+  };
+
+  const resumeEnrichment = async (job: StoredEnrichmentJob) => {
+    const signal = startProcessing();
+    const upload: EnrichmentUpload = { jobId: job.id, travelDataId: job.travelDataId, fileName: job.fileName };
+
+    setUploadState({
+      status: 'processing',
+      progress: 55 + Math.floor((job.enrichedTrips / Math.max(job.totalTrips, 1)) * 45),
+      fileName: job.fileName
+    });
+
+    try {
+      await enrichUpload(upload, signal);
+    } catch (error) {
+      handleProcessingError(error, upload);
+    } finally {
+      finishProcessing();
+    }
+  };
+
+  const handleProcessingError = (error: unknown, upload: EnrichmentUpload | null) => {
+    if (isAbortError(error)) {
+      const partialResult = error instanceof ProcessingCancelledError ? error.partialResult : undefined;
+      if (partialResult && upload) {
+        setCancelledUpload({ result: partialResult, upload });
+      } else if (upload) {
+        // Nothing was enriched, so the saved upload has nothing worth resuming
+        EnrichmentJobService.discardJob({ id: upload.jobId, travelDataId: upload.travelDataId }, true);
+      }
+      setUploadState({ status: 'idle', progress: 0 });
+      return;
+    }
+
+    console.error('File processing error:', error);
+    const appError = AppErrorHandler.fromError(error);
+    setCurrentError(appError.userMessage);
+    setUploadState(prev => ({ 
+      ...prev, 
+      status: 'error', 
+      error: appError.userMessage 
+    }));
+  };
+
+  const finishProcessing = () => {
+    abortControllerRef.current = null;
+    setIsCancelling(false);
+    setProcessingStage('');
+  };
+
+  const completeProcessing = (
+    result: ProcessingResult | EnhancedProcessingResult,
+    fileName?: string,
+    fileSize?: number,
+    storageId?: string
+  ) => {
+    setUploadState(prev => ({ ...prev, status: 'success', progress: 100 }));
+    onDataProcessed(result, fileName, fileSize, storageId);
+  };
+
+  const handleCancel = () => {
+    setIsCancelling(true);
+    setProcessingStage('Cancelling...');
+    abortControllerRef.current?.abort();
+  };
+
+  const keepPartialResults = async () => {
+    if (!cancelledUpload) return;
+    const { result, upload } = cancelledUpload;
+    setCancelledUpload(null);
+
+    try {
+      await EnrichmentJobService.keepPartialResult(upload.travelDataId, result);
+      completeProcessing(result, upload.fileName, upload.fileSize, upload.travelDataId);
+    } catch (error) {
+      handleProcessingError(error, null);
     }
   };
 
+  const discardPartialResults = () => {
+    if (!cancelledUpload) return;
+    const { upload } = cancelledUpload;
+    setCancelledUpload(null);
+    EnrichmentJobService.discardJob({ id: upload.jobId, travelDataId: upload.travelDataId }, true);
+  };
+
+  // The job is kept, so it can still be resumed after the next reload
+  const hideResumableJob = () => {
+    setResumableJob(null);
+  };
+
+  const resolveDateAssignment = (assignments: DateAssignment[]) => {
+    dateAssignmentRequest?.resolve(assignments);
+    setDateAssignmentRequest(null);
+  };
+
+  const resolveFieldMapping = (mapping: FieldMapping | null) => {
+    fieldMappingRequest?.resolve(mapping);
+    setFieldMappingRequest(null);
+  };
+
   const handleManualTripAdd = (trip: ManualTrip) => {
     const errors = validateManualTrip(trip);
     if (errors.length > 0) {
@@ -155,37 +422,6 @@ export const DataInput: React.FC<DataInputProps> = ({ onDataProcessed }) => {
     setManualTrips(prev => prev.filter((_, i) => i !== index));
   };
 
-  const convertManualTripsToProcessed = (trips: ManualTrip[]): ProcessedTrip[] => {
-    return trips.map((trip, index) => ({
-      id: `manual-${index}`,
-      startTime: new Date(trip.startDate),
-      endTime: trip.endDate ? new Date(trip.endDate) : new Date(trip.startDate),
-      startLocation: trip.coordinates || { latitude: 0, longitude: 0 },
-      endLocation: trip.coordinates || { latitude: 0, longitude: 0 },
-      placeName: trip.city,
-      address: trip.country ? `${trip.city}, ${trip.country}` : trip.city,
-      city: trip.city,
-      country: trip.country,
-      activityType: 'MANUAL_ENTRY',
-      confidence: 1.0
-    }));
-  };
-
-  const readFileAsText = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        if (event.target?.result) {
-          resolve(event.target.result as string);
-        } else {
-          reject(new Error('Failed to read file'));
-        }
-      };
-      reader.onerror = () => reject(new Error('File reading error'));
-      reader.readAsText(file);
-    });
-  };
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
       <div className="max-w-6xl mx-auto p-6">
@@ -235,6 +471,80 @@ export const DataInput: React.FC<DataInputProps> = ({ onDataProcessed }) => {
           )}
         </AnimatePresence>
 
+        {/* Cancelled processing with results worth keeping */}
+        <AnimatePresence>
+          {cancelledUpload && (
+            <motion.div 
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="mb-8 bg-yellow-50 border border-yellow-200 rounded-xl p-4 shadow-sm"
+            >
+              <div className="flex items-start space-x-3">
+                <div className="text-yellow-500 text-xl">⏸️</div>
+                <div className="flex-1">
+                  <p className="text-yellow-900 font-medium">Processing cancelled</p>
+                  <p className="text-yellow-800 text-sm mt-1">
+                    {cancelledUpload.result.enhancedTrips.length} trips were enriched before you cancelled.
+                    You can view them now and finish enrichment later, or discard this upload and start over.
+                  </p>
+                  <div className="flex space-x-3 mt-3">
+                    <button
+                      onClick={keepPartialResults}
+                      className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+                    >
+                      Keep partial results
+                    </button>
+                    <button
+                      onClick={discardPartialResults}
+                      className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Enrichment interrupted by a reload or a cancel */}
+        <AnimatePresence>
+          {resumableJob && uploadState.status === 'idle' && !cancelledUpload && (
+            <motion.div 
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="mb-8 bg-blue-50 border border-blue-200 rounded-xl p-4 shadow-sm"
+            >
+              <div className="flex items-start space-x-3">
+                <div className="text-blue-500 text-xl">🔄</div>
+                <div className="flex-1">
+                  <p className="text-blue-900 font-medium">Unfinished enrichment</p>
+                  <p className="text-blue-800 text-sm mt-1">
+                    {resumableJob.fileName || 'Your last upload'} stopped after {resumableJob.enrichedTrips} of {resumableJob.totalTrips} trips.
+                    Continue where it left off?
+                  </p>
+                  <div className="flex space-x-3 mt-3">
+                    <button
+                      onClick={() => resumeEnrichment(resumableJob)}
+                      className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+                    >
+                      Resume enrichment
+                    </button>
+                    <button
+                      onClick={hideResumableJob}
+                      className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                    >
+                      Not now
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
         {/* Processing Steps */}
         <AnimatePresence>
           {uploadState.status !== 'idle' && (
@@ -263,7 +573,14 @@ export const DataInput: React.FC<DataInputProps> = ({ onDataProcessed }) => {
                     }
                     size="medium"
                     color="blue"
+                    onCancel={handleCancel}
+                    isCancelling={isCancelling}
                   />
+                  {enrichedTripCount > 0 && uploadState.progress >= 55 && (
+                    <p className="text-xs text-gray-500 text-center mt-2">
+                      {enrichedTripCount} trips enriched so far
+                    </p>
+                  )}
                 </motion.div>
               )}
             </motion.div>
@@ -293,9 +610,10 @@ export const DataInput: React.FC<DataInputProps> = ({ onDataProcessed }) => {
                 </div>
                 
                 <FileUpload
-                  onFileSelect={handleFileSelect}
+                  onFilesSelect={handleFilesSelect}
                   uploadState={uploadState}
-                  maxFileSizeMB={50}
+                  acceptedFileTypes={ImporterRegistry.getAcceptedExtensions()}
+                  maxFileSizeMB={Math.max(...ImporterRegistry.getImporters().map(importer => importer.maxFileSizeMB ?? 50))}
                 />
                 
                 {/* Enhanced Processing Toggle */}
@@ -342,7 +660,7 @@ export const DataInput: React.FC<DataInputProps> = ({ onDataProcessed }) => {
                     <li>Visit <a href="https://takeout.google.com" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800 font-medium underline">Google Takeout</a></li>
                     <li>Select "Timeline" from the list</li>
                     <li>Choose JSON format and download</li>
-                    <li>Extract and upload the Timeline.json file</li>
+                    <li>Upload the downloaded .zip archive as-is, or extract and upload the Timeline.json file (or Records.json from older Location History exports)</li>
                   </ol>
                 </motion.div>
               </div>
@@ -464,6 +782,24 @@ export const DataInput: React.FC<DataInputProps> = ({ onDataProcessed }) => {
           </div>
         )}
       </div>
+
+      {/* Date assignment for undated places in the imported file */}
+      {dateAssignmentRequest && (
+        <DateAssignmentDialog
+          features={dateAssignmentRequest.features}
+          onConfirm={resolveDateAssignment}
+          onSkip={() => resolveDateAssignment([])}
+        />
+      )}
+
+      {/* Mapping for files with non-standard property or column names */}
+      {fieldMappingRequest && (
+        <FieldMappingDialog
+          request={fieldMappingRequest.request}
+          onConfirm={resolveFieldMapping}
+          onCancel={() => resolveFieldMapping(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
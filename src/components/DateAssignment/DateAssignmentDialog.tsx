@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import type { DateAssignment, UndatedFeature } from '../../types/travel';
+
+interface DateAssignmentDialogProps {
+  features: UndatedFeature[];
+  onConfirm: (assignments: DateAssignment[]) => void;
+  onSkip: () => void;
+}
+
+type DateRange = { startDate: string; endDate: string };
+
+export const DateAssignmentDialog: React.FC<DateAssignmentDialogProps> = ({
+  features,
+  onConfirm,
+  onSkip
+}) => {
+  const [dates, setDates] = useState<Record<string, DateRange>>({});
+  const [bulkDate, setBulkDate] = useState('');
+
+  const updateDate = (featureId: string, field: keyof DateRange, value: string) => {
+    setDates(prev => ({
+      ...prev,
+      [featureId]: { ...(prev[featureId] || { startDate: '', endDate: '' }), [field]: value }
+    }));
+  };
+
+  // Fill every feature that has no date yet
+  const applyBulkDate = () => {
+    if (!bulkDate) return;
+    setDates(prev => {
+      const next = { ...prev };
+      features.forEach(feature => {
+        if (!next[feature.id]?.startDate) {
+          next[feature.id] = { startDate: bulkDate, endDate: next[feature.id]?.endDate || '' };
+        }
+      });
+      return next;
+    });
+  };
+
+  const hasInvalidRange = Object.values(dates).some(
+    range => range.startDate && range.endDate && range.endDate < range.startDate
+  );
+
+  const assignments: DateAssignment[] = features
+    .filter(feature => dates[feature.id]?.startDate)
+    .map(feature => ({
+      featureId: feature.id,
+      startDate: dates[feature.id].startDate,
+      endDate: dates[feature.id].endDate || undefined
+    }));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-xl shadow-lg w-full max-w-2xl max-h-[90vh] flex flex-col border border-gray-100"
+      >
+        <div className="p-6 border-b border-gray-100">
+          <h2 className="text-xl font-bold text-gray-900">Add Dates to Places</h2>
+          <p className="text-gray-600 text-sm mt-1">
+            {features.length} place{features.length === 1 ? '' : 's'} in this file {features.length === 1 ? 'has' : 'have'} no
+            date. Assign dates to include them in your travel story, or skip them.
+          </p>
+
+          <div className="flex items-center space-x-2 mt-4">
+            <input
+              type="date"
+              value={bulkDate}
+              onChange={(e) => setBulkDate(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="button"
+              onClick={applyBulkDate}
+              disabled={!bulkDate}
+              className="px-3 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 disabled:opacity-50 transition-colors"
+            >
+              Apply to all undated
+            </button>
+          </div>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto divide-y divide-gray-100">
+          {features.map(feature => {
+            const range = dates[feature.id];
+            const invalid = range?.startDate && range.endDate && range.endDate < range.startDate;
+
+            return (
+              <li key={feature.id} className="px-6 py-4">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="font-medium text-gray-900 flex items-center">
+                    <span className="mr-2">{feature.type === 'STAY' ? '📍' : '🛣️'}</span>
+                    {feature.name}
+                  </div>
+                  <span className="text-xs text-gray-500">
+                    {feature.locations[0].latitude.toFixed(3)}, {feature.locations[0].longitude.toFixed(3)}
+                  </span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="date"
+                    aria-label={`Start date for ${feature.name}`}
+                    value={range?.startDate || ''}
+                    onChange={(e) => updateDate(feature.id, 'startDate', e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <span className="text-gray-400 text-sm">to</span>
+                  <input
+                    type="date"
+                    aria-label={`End date for ${feature.name}`}
+                    value={range?.endDate || ''}
+                    min={range?.startDate}
+                    onChange={(e) => updateDate(feature.id, 'endDate', e.target.value)}
+                    className={`px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                      invalid ? 'border-red-300 bg-red-50' : 'border-gray-300'
+                    }`}
+                  />
+                </div>
+                {invalid && (
+                  <p className="text-red-500 text-xs mt-1">End date must be after start date</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="p-6 border-t border-gray-100 flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={onSkip}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Skip undated places
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm(assignments)}
+            disabled={hasInvalidRange}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            Import {assignments.length} dated place{assignments.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { DateAssignmentDialog } from './DateAssignmentDialog';
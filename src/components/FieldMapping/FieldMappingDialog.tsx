@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import type { FieldMapping, FieldMappingRequest } from '../../types/travel';
+
+interface FieldMappingDialogProps {
+  request: FieldMappingRequest;
+  onConfirm: (mapping: FieldMapping) => void;
+  onCancel: () => void;
+}
+
+export const FieldMappingDialog: React.FC<FieldMappingDialogProps> = ({
+  request,
+  onConfirm,
+  onCancel
+}) => {
+  const [mapping, setMapping] = useState<FieldMapping>(request.suggested);
+
+  const missingRequired = request.fields.filter(field => field.required && !mapping[field.key]);
+
+  // Show a sample value so the user can tell similar-looking properties apart
+  const previewValue = (sourceField: string | undefined): string => {
+    if (!sourceField) return '';
+    const sample = request.samples.find(row => row[sourceField] !== undefined && row[sourceField] !== null)?.[sourceField];
+    if (sample === undefined) return '';
+    const text = typeof sample === 'object' ? JSON.stringify(sample) : String(sample);
+    return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-xl shadow-lg w-full max-w-xl max-h-[90vh] flex flex-col border border-gray-100"
+      >
+        <div className="p-6 border-b border-gray-100">
+          <h2 className="text-xl font-bold text-gray-900">{request.title}</h2>
+          <p className="text-gray-600 text-sm mt-1">
+            {request.description || "We couldn't recognize all the fields in this file. Choose which one holds each value."}
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {request.fields.map(field => (
+            <div key={field.key}>
+              <label htmlFor={`mapping-${field.key}`} className="block text-sm font-semibold text-gray-700">
+                {field.label}{field.required && ' *'}
+              </label>
+              {field.description && (
+                <p className="text-xs text-gray-500 mb-1">{field.description}</p>
+              )}
+              <select
+                id={`mapping-${field.key}`}
+                value={mapping[field.key] || ''}
+                onChange={(e) => setMapping(prev => ({ ...prev, [field.key]: e.target.value || undefined }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Not in this file</option>
+                {request.sourceFields.map(sourceField => (
+                  <option key={sourceField} value={sourceField}>{sourceField}</option>
+                ))}
+              </select>
+              {previewValue(mapping[field.key]) && (
+                <p className="text-xs text-gray-500 mt-1">
+                  e.g. <span className="font-mono">{previewValue(mapping[field.key])}</span>
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="p-6 border-t border-gray-100 flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Cancel import
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm(mapping)}
+            disabled={missingRequired.length > 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            Continue
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
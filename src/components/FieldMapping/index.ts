@@ -0,0 +1 @@
+export { FieldMappingDialog } from './FieldMappingDialog';
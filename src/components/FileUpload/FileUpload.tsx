@@ -1,22 +1,49 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import type { UploadState } from '../../types/travel';
 
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
+  onFilesSelect: (files: File[]) => void;
   uploadState: UploadState;
   acceptedFileTypes?: string[];
   maxFileSizeMB?: number;
 }
 
+/**
+ * Files of a dropped directory entry, including its subfolders
+ */
+const readEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return new Promise((resolve, reject) => (entry as FileSystemFileEntry).file(file => resolve([file]), reject));
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  // readEntries returns the entries in batches until it returns an empty one
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    children.push(...batch);
+  }
+
+  const files = await Promise.all(children.map(readEntryFiles));
+  return files.flat();
+};
+
 export const FileUpload: React.FC<FileUploadProps> = ({
-  onFileSelect,
+  onFilesSelect,
   uploadState,
   acceptedFileTypes = ['.json'],
   maxFileSizeMB = 50
 }) => {
   const [dragActive, setDragActive] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // Not in React's input attribute types
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
 
   const handleDragEnter = (e: React.DragEvent) => {
     e.preventDefault();
@@ -35,42 +62,53 @@ export const FileUpload: React.FC<FileUploadProps> = ({
     e.stopPropagation();
   };
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
 
-    const files = Array.from(e.dataTransfer.files);
-    if (files.length > 0) {
-      validateAndProcessFile(files[0]);
+    // Entries must be taken before the handler yields, the drop data is cleared afterwards
+    const entries = Array.from(e.dataTransfer.items)
+      .map(item => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => !!entry);
+
+    if (!entries.some(entry => entry.isDirectory)) {
+      validateAndProcessFiles(Array.from(e.dataTransfer.files));
+      return;
     }
+
+    // Dropped folders (e.g. of photos) are read with their subfolders
+    const files = await Promise.all(entries.map(readEntryFiles));
+    validateAndProcessFiles(files.flat());
   };
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (files && files.length > 0) {
-      validateAndProcessFile(files[0]);
-    }
+    validateAndProcessFiles(Array.from(e.target.files || []));
+    // Allow selecting the same files again after an error
+    e.target.value = '';
   };
 
-  const validateAndProcessFile = (file: File) => {
-    const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase();
-    if (!acceptedFileTypes.includes(fileExtension)) {
-      return;
-    }
+  const validateAndProcessFiles = (files: File[]) => {
+    const validFiles = files.filter(file => {
+      const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase();
+      const fileSizeMB = file.size / (1024 * 1024);
+      return acceptedFileTypes.includes(fileExtension) && fileSizeMB <= maxFileSizeMB;
+    });
 
-    const fileSizeMB = file.size / (1024 * 1024);
-    if (fileSizeMB > maxFileSizeMB) {
-      return;
+    if (validFiles.length > 0) {
+      onFilesSelect(validFiles);
     }
-
-    onFileSelect(file);
   };
 
   const handleClick = () => {
     fileInputRef.current?.click();
   };
 
+  const handleFolderClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    folderInputRef.current?.click();
+  };
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -110,9 +148,18 @@ export const FileUpload: React.FC<FileUploadProps> = ({
           type="file"
           className="hidden"
           accept={acceptedFileTypes.join(',')}
+          multiple
           onChange={handleFileInput}
           disabled={isProcessing}
         />
+        <input
+          ref={folderInputRef}
+          type="file"
+          className="hidden"
+          onChange={handleFileInput}
+          onClick={(e) => e.stopPropagation()}
+          disabled={isProcessing}
+        />
 
         <AnimatePresence mode="wait">
           {uploadState.status === 'idle' && (
@@ -137,10 +184,17 @@ export const FileUpload: React.FC<FileUploadProps> = ({
 
               <div>
                 <p className="text-xl font-semibold text-gray-700 mb-2">
-                  {dragActive ? 'Drop your file here' : 'Drop your Timeline.json file here'}
+                  {dragActive ? 'Drop your files here' : 'Drop your Timeline files here'}
                 </p>
                 <p className="text-gray-500">
                   or <span className="text-blue-600 font-medium">click to browse</span>
+                  {' '}or{' '}
+                  <button type="button" onClick={handleFolderClick} className="text-blue-600 font-medium hover:underline">
+                    choose a folder
+                  </button>
+                </p>
+                <p className="text-xs text-gray-400 mt-1">
+                  Select several files to combine overlapping exports into one timeline, or add a folder of geotagged photos
                 </p>
               </div>
               
@@ -155,7 +209,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({
                   <svg className="w-4 h-4 mr-1" fill="currentColor" viewBox="0 0 20 20">
                     <path fillRule="evenodd" d="M4 4a2 2 0 00-2 2v8a2 2 0 002 2h12a2 2 0 002-2V6a2 2 0 00-2-2H4zm2 6a2 2 0 104 0 2 2 0 00-4 0zm8-2a2 2 0 11-4 0 2 2 0 014 0z" clipRule="evenodd" />
                   </svg>
-                  JSON format
+                  {acceptedFileTypes.map(type => type.replace('.', '').toUpperCase()).join(', ')} format
                 </span>
               </div>
             </motion.div>
@@ -186,6 +240,11 @@ export const FileUpload: React.FC<FileUploadProps> = ({
                 <p className="text-xl font-semibold text-blue-600 mb-2">
                   {uploadState.status === 'uploading' ? 'Uploading...' : 'Processing your travel data...'}
                 </p>
+                {uploadState.importerName && (
+                  <p className="text-sm text-blue-500 mb-2">
+                    Detected format: <span className="font-medium">{uploadState.importerName}</span>
+                  </p>
+                )}
                 <div className="w-full bg-gray-200 rounded-full h-3 mb-2 overflow-hidden">
                   <motion.div 
                     initial={{ width: 0 }}
@@ -227,6 +286,11 @@ export const FileUpload: React.FC<FileUploadProps> = ({
                   {uploadState.fileName} 
                   {uploadState.fileSize && ` (${formatFileSize(uploadState.fileSize)})`}
                 </p>
+                {uploadState.importerName && (
+                  <p className="text-xs text-green-600 mt-1">
+                    Imported as {uploadState.importerName}
+                  </p>
+                )}
                 <p className="text-xs text-green-500 mt-2">
                   Your travel data is ready for processing
                 </p>
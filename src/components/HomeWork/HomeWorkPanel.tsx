@@ -0,0 +1,82 @@
+import React from 'react';
+import { HomeWorkInference } from '../../services/calculations';
+import type { FrequentPlace, HomeWorkLocations } from '../../types/travel';
+
+interface HomeWorkPanelProps {
+  homeWork: HomeWorkLocations;
+  onChange: (homeWork: HomeWorkLocations) => void;
+}
+
+type PlaceKind = 'home' | 'work';
+
+const PLACE_KINDS: Array<{ kind: PlaceKind; label: string; icon: string }> = [
+  { kind: 'home', label: 'Home', icon: '🏠' },
+  { kind: 'work', label: 'Work', icon: '💼' }
+];
+
+const describeDwell = (kind: PlaceKind, place: FrequentPlace): string =>
+  kind === 'home' ? `${place.nights} nights` : `${place.workdays} weekdays`;
+
+/**
+ * Shows the inferred home and work locations and lets the user confirm or
+ * change them. Statistics are recalculated by the caller on change.
+ */
+export const HomeWorkPanel: React.FC<HomeWorkPanelProps> = ({ homeWork, onChange }) => {
+  const setPlace = (kind: PlaceKind, placeId: string) => {
+    const place = homeWork.candidates.find(candidate => candidate.id === placeId);
+    onChange({ ...homeWork, [kind]: place, confirmed: true });
+  };
+
+  return (
+    <div className="mt-6 bg-white rounded-lg p-4 border border-gray-200">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gray-800 flex items-center">
+          <span className="text-xl mr-2">📍</span>
+          Home &amp; Work
+        </h3>
+        {homeWork.confirmed ? (
+          <span className="bg-green-100 text-green-800 px-2 py-1 rounded-full text-xs font-medium">Confirmed</span>
+        ) : (
+          <button
+            onClick={() => onChange({ ...homeWork, confirmed: true })}
+            className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Looks right
+          </button>
+        )}
+      </div>
+      {!homeWork.confirmed && (
+        <p className="text-xs text-gray-500 mb-3">
+          Inferred from where you spend your nights and weekday working hours. Visits there are left out of
+          your most visited place, and journeys between them count as commutes.
+        </p>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-4 text-sm">
+        {PLACE_KINDS.map(({ kind, label, icon }) => {
+          const place = homeWork[kind];
+          return (
+            <div key={kind} className="bg-gray-50 rounded-lg p-3">
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-medium text-gray-700">{icon} {label}</span>
+                {place && <span className="text-xs text-gray-500">{describeDwell(kind, place)}</span>}
+              </div>
+              <select
+                value={place?.id || ''}
+                onChange={(event) => setPlace(kind, event.target.value)}
+                className="w-full border border-gray-300 rounded-md px-2 py-1 text-sm"
+              >
+                <option value="">{`No ${label.toLowerCase()} location`}</option>
+                {homeWork.candidates.map(candidate => (
+                  <option key={candidate.id} value={candidate.id}>
+                    {HomeWorkInference.getPlaceLabel(candidate)} ({describeDwell(kind, candidate)})
+                  </option>
+                ))}
+              </select>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
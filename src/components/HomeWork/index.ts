@@ -0,0 +1 @@
+export { HomeWorkPanel } from './HomeWorkPanel';
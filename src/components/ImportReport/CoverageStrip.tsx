@@ -0,0 +1,67 @@
+import React from 'react';
+import { format, getDay, parseISO } from 'date-fns';
+import type { Coverage, CoveragePeriod } from '../../types/travel';
+
+interface CoverageStripProps {
+  coverage: Coverage;
+}
+
+const getCellColor = (coverage: number): string => {
+  if (coverage === 0) return 'bg-red-200';
+  if (coverage < 0.25) return 'bg-yellow-200';
+  if (coverage < 0.5) return 'bg-yellow-300';
+  if (coverage < 0.75) return 'bg-green-300';
+  return 'bg-green-500';
+};
+
+const formatShare = (coverage: number): string => `${Math.round(coverage * 100)}%`;
+
+/**
+ * Calendar strip of how much of each day the data accounts for, one small
+ * month grid after another
+ */
+export const CoverageStrip: React.FC<CoverageStripProps> = ({ coverage }) => {
+  const daysByMonth = coverage.days.reduce((groups, day) => {
+    const month = day.period.slice(0, 7);
+    groups.set(month, [...(groups.get(month) || []), day]);
+    return groups;
+  }, new Map<string, CoveragePeriod[]>());
+
+  return (
+    <div>
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {coverage.months.map(month => {
+          const days = daysByMonth.get(month.period) || [];
+          // Monday-first grid, so the first day of the data starts in its own weekday column
+          const offset = days.length > 0 ? (getDay(parseISO(days[0].period)) + 6) % 7 : 0;
+
+          return (
+            <div key={month.period} className="flex-shrink-0">
+              <div className="text-xs text-gray-600 mb-1 flex justify-between gap-2">
+                <span className="font-medium">{format(parseISO(`${month.period}-01`), 'MMM yyyy')}</span>
+                <span>{formatShare(month.coverage)}</span>
+              </div>
+              <div className="grid grid-cols-7 gap-0.5">
+                {Array.from({ length: offset }, (_, index) => (
+                  <div key={`blank-${index}`} className="w-3 h-3" />
+                ))}
+                {days.map(day => (
+                  <div
+                    key={day.period}
+                    className={`w-3 h-3 rounded-sm ${getCellColor(day.coverage)}`}
+                    title={`${day.period}: ${formatShare(day.coverage)} covered`}
+                  />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex items-center gap-3 mt-2 text-xs text-gray-500">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-red-200 inline-block" /> No data</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-yellow-300 inline-block" /> Partial</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-green-500 inline-block" /> Mostly covered</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import React from 'react';
+import { CoverageStrip } from './CoverageStrip';
+import type { ImportReport, SegmentSkipReason } from '../../types/travel';
+
+interface ImportReportPanelProps {
+  report: ImportReport;
+}
+
+const SKIP_REASON_LABELS: Record<SegmentSkipReason, string> = {
+  noLocation: 'No location',
+  tooShort: 'Movement under 100 m',
+  badTimestamp: 'Missing or invalid timestamps',
+  invalid: 'Unreadable entries'
+};
+
+const formatGap = (hours: number): string =>
+  hours >= 48 ? `${Math.round(hours / 24)} days` : `${hours} hours`;
+
+/**
+ * Explains how an import was read: what the segments became, what was cleaned
+ * away, where the data has holes and which trips are uncertain
+ */
+export const ImportReportPanel: React.FC<ImportReportPanelProps> = ({ report }) => {
+  const { segments, coverage, cleaning, timeGaps, lowConfidenceCount, lowConfidenceTrips } = report;
+  const skipReasons = segments
+    ? (Object.entries(segments.skipReasons) as Array<[SegmentSkipReason, number]>).filter(([, count]) => count > 0)
+    : [];
+
+  return (
+    <div className="mt-6 bg-white rounded-lg p-4 border border-gray-200">
+      <h3 className="text-lg font-semibold text-gray-800 mb-3 flex items-center">
+        <span className="text-xl mr-2">🩺</span>
+        Import Report
+      </h3>
+
+      {/* What the segments became */}
+      {segments && (
+        <div className="mb-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div className="text-center">
+              <div className="text-lg font-bold text-gray-700">{segments.visit}</div>
+              <div className="text-gray-600">Visits</div>
+            </div>
+            <div className="text-center">
+              <div className="text-lg font-bold text-gray-700">{segments.activity}</div>
+              <div className="text-gray-600">Activities</div>
+            </div>
+            <div className="text-center">
+              <div className="text-lg font-bold text-gray-700">{segments.path}</div>
+              <div className="text-gray-600">Paths</div>
+            </div>
+            <div className="text-center">
+              <div className="text-lg font-bold text-gray-700">{segments.skipped}</div>
+              <div className="text-gray-600">Skipped</div>
+            </div>
+          </div>
+          {skipReasons.length > 0 && (
+            <ul className="mt-3 text-xs text-gray-600 space-y-1">
+              {skipReasons.map(([reason, count]) => (
+                <li key={reason} className="flex justify-between">
+                  <span>{SKIP_REASON_LABELS[reason]}</span>
+                  <span className="font-medium">{count} skipped</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* GPS noise */}
+      {(cleaning.pointsRemoved > 0 || cleaning.tripsRemoved > 0) && (
+        <div className="mb-4 text-sm text-gray-700">
+          <span className="font-medium">GPS cleanup:</span> {cleaning.pointsRemoved} of {cleaning.pointsChecked} route
+          points and {cleaning.tripsRemoved} implausible movements removed,
+          taking {cleaning.distanceRemovedKm.toLocaleString()} km off the total
+          <div className="text-xs text-gray-500 mt-1">
+            {cleaning.removedByAccuracy} too coarse • {cleaning.removedBySpeed} impossible jumps • {cleaning.removedByAngle} out-and-back spikes
+          </div>
+        </div>
+      )}
+
+      {/* How much of the time the data accounts for */}
+      {coverage && coverage.days.length > 0 && (
+        <div className="mb-4">
+          <div className="text-sm font-medium text-gray-700 mb-2">
+            Coverage: {Math.round(coverage.overall * 100)}% of the time between your first and last trip
+          </div>
+          <CoverageStrip coverage={coverage} />
+        </div>
+      )}
+
+      {/* Holes in the data */}
+      {timeGaps.length > 0 && (
+        <div className="mb-4">
+          <div className="text-sm font-medium text-gray-700 mb-1">Gaps in your data</div>
+          <ul className="text-xs text-gray-600 space-y-1">
+            {timeGaps.slice(0, 5).map(gap => (
+              <li key={gap.start.getTime()} className="flex justify-between">
+                <span>{gap.start.toDateString()} → {gap.end.toDateString()}</span>
+                <span className="font-medium">{formatGap(gap.hours)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Uncertain trips */}
+      {lowConfidenceCount > 0 && (
+        <div>
+          <div className="text-sm font-medium text-gray-700 mb-1">
+            {lowConfidenceCount} low-confidence {lowConfidenceCount === 1 ? 'trip' : 'trips'}
+          </div>
+          <ul className="text-xs text-gray-600 space-y-1">
+            {lowConfidenceTrips.slice(0, 5).map(trip => (
+              <li key={trip.id} className="flex justify-between">
+                <span>{trip.startTime.toDateString()} • {trip.activityType || 'Unknown activity'}</span>
+                <span className="font-medium">{Math.round(trip.confidence * 100)}% confidence</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {!segments && timeGaps.length === 0 && lowConfidenceCount === 0 && cleaning.pointsRemoved === 0 && cleaning.tripsRemoved === 0 && (
+        <p className="text-sm text-gray-500">Nothing unusual was found in this import.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,2 @@
+export { ImportReportPanel } from './ImportReportPanel';
+export { CoverageStrip } from './CoverageStrip';
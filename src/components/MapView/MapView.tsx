@@ -3,6 +3,7 @@ import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap } from 'react-
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import './MapView.css';
+import { getLocalStartTime } from '../../utils/time';
 import type { ProcessedTrip, EnhancedTrip, LatLng } from '../../types/travel';
 
 // Fix for default markers in React Leaflet
@@ -99,9 +100,10 @@ export const MapView: React.FC<MapViewProps> = ({ trips, className = '' }) => {
           }
           locationMap.get(endKey)!.trips.push(trip);
           
-          // Add to polyline
-          polylinePoints.push([trip.startLocation.latitude, trip.startLocation.longitude]);
-          polylinePoints.push([trip.endLocation.latitude, trip.endLocation.longitude]);
+          // Add to polyline, following the recorded route when there is one
+          (trip.path || [trip.startLocation, trip.endLocation]).forEach(point => {
+            polylinePoints.push([point.latitude, point.longitude]);
+          });
         }
       }
       // For EnhancedTrip, use location and endLocation
@@ -119,9 +121,11 @@ export const MapView: React.FC<MapViewProps> = ({ trips, className = '' }) => {
           }
           locationMap.get(endKey)!.trips.push(trip);
           
-          // Add to polyline
-          polylinePoints.push([trip.location.latitude, trip.location.longitude]);
-          polylinePoints.push([trip.endLocation.latitude, trip.endLocation.longitude]);
+          // Add to polyline, following the routes of its segments when recorded
+          const route = trip.segments.flatMap(segment => segment.path || []);
+          (route.length >= 2 ? route : [trip.location, trip.endLocation]).forEach(point => {
+            polylinePoints.push([point.latitude, point.longitude]);
+          });
         }
       }
     });
@@ -261,6 +265,7 @@ export const MapView: React.FC<MapViewProps> = ({ trips, className = '' }) => {
                     const placeName = 'placeName' in trip ? trip.placeName : 
                                    'city' in trip ? trip.city : 'Unknown Location';
                     const country = 'country' in trip ? trip.country : '';
+                    const flight = 'segments' in trip ? trip.segments.find(segment => segment.flight)?.flight : trip.flight;
                     
                     return (
                       <div key={`${trip.id}-${tripIndex}`} className="text-xs">
@@ -268,14 +273,38 @@ export const MapView: React.FC<MapViewProps> = ({ trips, className = '' }) => {
                           {placeName || 'Unknown Location'}
                           {country && ` (${country})`}
                         </div>
+                        {trip.placeCategory && (
+                          <div className="text-gray-500">{trip.placeCategory}</div>
+                        )}
+                        {trip.labels && (
+                          <div className="text-gray-500">🗓️ {trip.labels.join(' • ')}</div>
+                        )}
                         <div className="text-gray-500">
-                          {trip.startTime.toLocaleDateString()}
+                          {getLocalStartTime(trip).toLocaleDateString()}
                           {'weather' in trip && trip.weather && (
                             <span className="ml-1">
                               {trip.weather.temperature}°C {trip.weather.icon}
                             </span>
                           )}
                         </div>
+                        {flight && (
+                          <div className="text-gray-500">
+                            ✈️ {[flight.flightNumber, `${flight.from} → ${flight.to}`, flight.aircraft].filter(Boolean).join(' • ')}
+                          </div>
+                        )}
+                        {trip.photos && trip.photos.some(photo => photo.thumbnail) && (
+                          <div className="flex gap-1 mt-1">
+                            {trip.photos.filter(photo => photo.thumbnail).slice(0, 3).map(photo => (
+                              <img
+                                key={photo.fileName}
+                                src={photo.thumbnail}
+                                alt={photo.fileName}
+                                title={`${photo.fileName}, ${photo.takenAt.toLocaleString()}`}
+                                className="w-12 h-12 object-cover rounded"
+                              />
+                            ))}
+                          </div>
+                        )}
                       </div>
                     );
                   })}
@@ -6,6 +6,8 @@ interface ProgressIndicatorProps {
   showPercentage?: boolean;
   size?: 'small' | 'medium' | 'large';
   color?: 'blue' | 'green' | 'orange' | 'red';
+  onCancel?: () => void; // Shows a Cancel button when provided
+  isCancelling?: boolean;
 }
 
 export const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({
@@ -13,7 +15,9 @@ export const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({
   message,
   showPercentage = true,
   size = 'medium',
-  color = 'blue'
+  color = 'blue',
+  onCancel,
+  isCancelling = false
 }) => {
   const sizeClasses = {
     small: 'h-2',
@@ -41,9 +45,21 @@ export const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({
     <div className="w-full">
       <div className={`flex justify-between items-center mb-2 ${textSizeClasses[size]}`}>
         <span className="text-gray-700 font-medium">{message}</span>
-        {showPercentage && (
-          <span className="text-gray-600 text-sm">{Math.round(normalizedProgress)}%</span>
-        )}
+        <div className="flex items-center space-x-3">
+          {showPercentage && (
+            <span className="text-gray-600 text-sm">{Math.round(normalizedProgress)}%</span>
+          )}
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={isCancelling}
+              className="px-3 py-1 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+            >
+              {isCancelling ? 'Cancelling...' : 'Cancel'}
+            </button>
+          )}
+        </div>
       </div>
       
       <div className="w-full bg-gray-200 rounded-full overflow-hidden">
@@ -105,6 +105,11 @@ export const StatsCards: React.FC<StatsCardsProps> = ({ stats, isEnhanced = fals
           <div className="mt-2 text-xs text-blue-500">
             {(stats.totalDistanceKm / 40075 * 100).toFixed(1)}% around Earth
           </div>
+          {stats.straightLineDistanceKm > 0 && (
+            <div className="text-xs text-blue-500">
+              {stats.straightLineDistanceKm.toLocaleString()} km as the crow flies
+            </div>
+          )}
         </div>
 
         {/* Countries Visited */}
@@ -129,15 +134,30 @@ export const StatsCards: React.FC<StatsCardsProps> = ({ stats, isEnhanced = fals
           </div>
         </div>
 
-        {/* Total Trips */}
+        {/* Total Trips, or trips away from home once home is known */}
         <div className="bg-gradient-to-br from-red-50 to-rose-100 rounded-lg p-4 border border-red-200 hover:shadow-lg transition-shadow">
           <div className="text-2xl mb-2">✈️</div>
-          <h4 className="text-lg font-semibold text-red-800 mb-1">Total Trips</h4>
-          <p className="text-2xl font-bold text-red-700">{stats.totalTrips}</p>
-          <p className="text-sm text-red-600">adventures completed</p>
-          <div className="mt-2 text-xs text-red-500">
-            {(stats.totalDistanceKm / stats.totalTrips).toFixed(0)} km average
-          </div>
+          {stats.awayTrips !== undefined ? (
+            <>
+              <h4 className="text-lg font-semibold text-red-800 mb-1">Trips Away</h4>
+              <p className="text-2xl font-bold text-red-700">{stats.awayTrips}</p>
+              <p className="text-sm text-red-600">{stats.nightsAway} nights away from home</p>
+              <div className="mt-2 text-xs text-red-500">
+                {stats.longestAwayTrip
+                  ? `Longest: ${stats.longestAwayTrip.destination}, ${stats.longestAwayTrip.nights} nights`
+                  : `${stats.totalTrips} stays and journeys`}
+              </div>
+            </>
+          ) : (
+            <>
+              <h4 className="text-lg font-semibold text-red-800 mb-1">Total Trips</h4>
+              <p className="text-2xl font-bold text-red-700">{stats.totalTrips}</p>
+              <p className="text-sm text-red-600">adventures completed</p>
+              <div className="mt-2 text-xs text-red-500">
+                {(stats.totalDistanceKm / stats.totalTrips).toFixed(0)} km average
+              </div>
+            </>
+          )}
         </div>
       </div>
 
@@ -361,6 +381,11 @@ export const StatsCards: React.FC<StatsCardsProps> = ({ stats, isEnhanced = fals
                     <p className="text-lg font-bold text-teal-700">{stats.longestTravelStreak.daysCount} days</p>
                     <p className="text-sm text-teal-600">{stats.longestTravelStreak.tripsCount} trips</p>
                     <p className="text-xs text-teal-500">{stats.longestTravelStreak.countriesVisited} countries visited</p>
+                    {stats.longestTravelStreak.crossesDataGap && (
+                      <p className="text-xs text-amber-600 mt-1" title="Location history was off for part of this streak, so some trips may be missing">
+                        ⚠️ Includes {stats.longestTravelStreak.dataGapDays} {stats.longestTravelStreak.dataGapDays === 1 ? 'day' : 'days'} without location data
+                      </p>
+                    )}
                   </div>
                 )}
               </div>
@@ -1,5 +1,6 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { format, parseISO } from 'date-fns';
 import type { ProcessedTrip, EnhancedTrip, TravelStats, EnhancedTravelStats } from '../../types/travel';
 import { 
   calculateAchievements, 
@@ -22,7 +23,10 @@ interface Slide {
   background: string;
 }
 
+const MAX_SLIDE_PHOTOS = 6;
+
 export const WrappedFlow: React.FC<WrappedFlowProps> = ({ 
+  trips,
   stats, 
   isEnhanced = false, 
   onComplete 
@@ -36,6 +40,17 @@ export const WrappedFlow: React.FC<WrappedFlowProps> = ({
   const travelLevel = getTravelLevel(stats.totalDistanceKm);
   const personality = getTravelPersonality(stats);
 
+  // A few photos spread over the period, with the place they were taken
+  const photoMoments = useMemo(() => {
+    const moments = (trips as Array<ProcessedTrip | EnhancedTrip>).flatMap(trip =>
+      (trip.photos || [])
+        .filter(photo => photo.thumbnail)
+        .map(photo => ({ photo, place: trip.city || trip.placeName }))
+    );
+    const count = Math.min(moments.length, MAX_SLIDE_PHOTOS);
+    return Array.from({ length: count }, (_, i) => moments[Math.floor(i * moments.length / count)]);
+  }, [trips]);
+
   const createSlides = useCallback((): Slide[] => {
     const slides: Slide[] = [
       {
@@ -334,6 +349,156 @@ export const WrappedFlow: React.FC<WrappedFlowProps> = ({
       });
     }
 
+    // Add home base slide when home is known
+    if (stats.homeLocation) {
+      slides.push({
+        id: 'home-base',
+        title: 'Home Base',
+        autoAdvanceDelay: 5000,
+        background: 'from-emerald-600 via-teal-500 to-sky-500',
+        component: (
+          <div className="text-center text-white">
+            <motion.div
+              className="text-7xl mb-8"
+              initial={{ opacity: 0, scale: 0 }}
+              animate={{ opacity: 1, scale: 1 }}
+              transition={{ duration: 0.8, type: "spring", bounce: 0.5 }}
+            >
+              🏠
+            </motion.div>
+            <motion.h2 
+              className="text-4xl font-bold mb-4"
+              initial={{ opacity: 0, y: 50 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.3, duration: 0.8 }}
+            >
+              Home is {stats.homeLocation}
+            </motion.h2>
+            {stats.nightsAtHome !== undefined && (
+              <motion.p 
+                className="text-2xl opacity-90 mb-8"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 0.6, duration: 0.8 }}
+              >
+                where you spent {stats.nightsAtHome} nights
+              </motion.p>
+            )}
+            <motion.div 
+              className="grid md:grid-cols-2 gap-4 max-w-2xl mx-auto"
+              initial={{ opacity: 0, y: 50 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 1, duration: 0.8 }}
+            >
+              {stats.workLocation && (
+                <div className="bg-white/20 backdrop-blur-sm rounded-2xl p-6">
+                  <div className="text-3xl mb-2">💼</div>
+                  <div className="text-xl font-bold">{stats.workLocation}</div>
+                  {stats.commuteDistanceKm !== undefined && stats.commuteDistanceKm > 0 && (
+                    <div className="text-sm opacity-90 mt-1">{stats.commuteDistanceKm.toLocaleString()} km of commuting</div>
+                  )}
+                </div>
+              )}
+              {stats.mostVisitedLocation !== 'Unknown' && (
+                <div className="bg-white/20 backdrop-blur-sm rounded-2xl p-6">
+                  <div className="text-3xl mb-2">⭐</div>
+                  <div className="text-xl font-bold">{stats.mostVisitedLocation}</div>
+                  <div className="text-sm opacity-90 mt-1">
+                    Your favourite place away from {stats.workLocation ? 'home and work' : 'home'}
+                  </div>
+                </div>
+              )}
+            </motion.div>
+          </div>
+        )
+      });
+    }
+
+    // Add trips away slide when the timeline could be split into trips from home
+    if (stats.awayTrips) {
+      slides.push({
+        id: 'trips-away',
+        title: 'Trips Away',
+        autoAdvanceDelay: 5000,
+        background: 'from-amber-500 via-orange-500 to-rose-500',
+        component: (
+          <div className="text-center text-white">
+            <motion.div
+              className="text-7xl mb-8"
+              initial={{ opacity: 0, scale: 0 }}
+              animate={{ opacity: 1, scale: 1 }}
+              transition={{ duration: 0.8, type: "spring", bounce: 0.5 }}
+            >
+              🧳
+            </motion.div>
+            <motion.h2 
+              className="text-4xl font-bold mb-4"
+              initial={{ opacity: 0, y: 50 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.3, duration: 0.8 }}
+            >
+              {stats.awayTrips} {stats.awayTrips === 1 ? 'trip' : 'trips'}, {stats.nightsAway} nights away
+            </motion.h2>
+            {stats.longestAwayTrip && stats.longestAwayTrip.nights > 0 && (
+              <motion.div 
+                className="bg-white/20 backdrop-blur-sm rounded-2xl p-6 max-w-md mx-auto"
+                initial={{ opacity: 0, y: 50 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.8, duration: 0.8 }}
+              >
+                <div className="text-sm opacity-90 mb-1">Your longest trip</div>
+                <div className="text-2xl font-bold">{stats.longestAwayTrip.destination}</div>
+                <div className="text-sm opacity-90 mt-1">
+                  {stats.longestAwayTrip.nights} nights from {format(parseISO(stats.longestAwayTrip.date), 'MMMM d')}
+                </div>
+              </motion.div>
+            )}
+          </div>
+        )
+      });
+    }
+
+    // Add photo slide when geotagged photos were imported
+    if (photoMoments.length > 0) {
+      slides.push({
+        id: 'photos',
+        title: 'Snapshots',
+        autoAdvanceDelay: 5000,
+        background: 'from-fuchsia-600 via-pink-500 to-orange-400',
+        component: (
+          <div className="text-center text-white">
+            <motion.h2 
+              className="text-4xl font-bold mb-8"
+              initial={{ opacity: 0, y: 50 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.8 }}
+            >
+              📸 Moments you captured
+            </motion.h2>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4 max-w-3xl mx-auto">
+              {photoMoments.map(({ photo, place }, index) => (
+                <motion.div
+                  key={`${photo.fileName}-${index}`}
+                  className="bg-white/20 backdrop-blur-sm rounded-2xl p-2 border border-white/20"
+                  initial={{ opacity: 0, scale: 0.8, rotate: index % 2 === 0 ? -4 : 4 }}
+                  animate={{ opacity: 1, scale: 1, rotate: 0 }}
+                  transition={{ delay: 0.3 + index * 0.2, type: "spring", bounce: 0.4 }}
+                >
+                  <img
+                    src={photo.thumbnail}
+                    alt={place || photo.fileName}
+                    className="w-full h-32 object-cover rounded-xl"
+                  />
+                  <div className="text-sm font-medium mt-2 truncate">{place || photo.fileName}</div>
+                  <div className="text-xs opacity-80">{photo.takenAt.toLocaleDateString()}</div>
+                </motion.div>
+              ))}
+            </div>
+          </div>
+        )
+      });
+    }
+
     // Add enhanced weather slide if available
     if (isEnhanced && 'hottestTrip' in stats && (stats.hottestTrip || stats.coldestTrip)) {
       slides.push({
@@ -424,7 +589,7 @@ export const WrappedFlow: React.FC<WrappedFlowProps> = ({
             <div className="text-2xl font-semibold mb-4">Your Journey Summary</div>
             <div className="grid grid-cols-3 gap-4 text-center">
               <div>
-                <div className="text-2xl font-bold">{stats.totalTrips}</div>
+                <div className="text-2xl font-bold">{stats.awayTrips ?? stats.totalTrips}</div>
                 <div className="text-sm opacity-80">trips</div>
               </div>
               <div>
@@ -453,7 +618,7 @@ export const WrappedFlow: React.FC<WrappedFlowProps> = ({
     });
 
     return slides;
-  }, [stats, isEnhanced, unlockedAchievements, travelLevel, personality, onComplete]);
+  }, [stats, isEnhanced, unlockedAchievements, travelLevel, personality, photoMoments, onComplete]);
 
   const slides = createSlides();
   const currentSlide = slides[currentSlideIndex];
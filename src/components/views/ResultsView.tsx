@@ -1,6 +1,9 @@
 import React from 'react';
 import { StatsCards } from '../StatsCards';
-import type { ProcessingResult, EnhancedProcessingResult, TravelStats, EnhancedTravelStats, ProcessedTrip, EnhancedTrip } from '../../types/travel';
+import { ImportReportPanel } from '../ImportReport';
+import { HomeWorkPanel } from '../HomeWork';
+import { AwayTripsPanel } from '../AwayTrips';
+import type { ProcessingResult, EnhancedProcessingResult, TravelStats, EnhancedTravelStats, ProcessedTrip, EnhancedTrip, HomeWorkLocations } from '../../types/travel';
 
 interface ResultsViewProps {
   displayData: ProcessingResult | EnhancedProcessingResult;
@@ -10,6 +13,7 @@ interface ResultsViewProps {
   onViewWrapped: () => void;
   onContinueToVisualization: () => void;
   onBackToInput: () => void;
+  onHomeWorkChange?: (homeWork: HomeWorkLocations) => void;
 }
 
 // Helper function to check if stats have enhanced properties
@@ -22,7 +26,8 @@ export const ResultsView: React.FC<ResultsViewProps> = ({
   trips,
   onViewWrapped,
   onContinueToVisualization,
-  onBackToInput
+  onBackToInput,
+  onHomeWorkChange
 }) => {
   return (
     <div className="max-w-6xl mx-auto p-6">
@@ -74,6 +79,49 @@ export const ResultsView: React.FC<ResultsViewProps> = ({
           </div>
         </div>
 
+        {/* Where the user lives and works, to confirm or change */}
+        {displayData.homeWork && onHomeWorkChange && (
+          <HomeWorkPanel homeWork={displayData.homeWork} onChange={onHomeWorkChange} />
+        )}
+
+        {/* Contiguous periods away from home */}
+        {displayData.homeWork && onHomeWorkChange && (
+          <AwayTripsPanel trips={trips} homeWork={displayData.homeWork} onChange={onHomeWorkChange} />
+        )}
+
+        {/* Why the numbers look the way they do */}
+        {displayData.importReport && <ImportReportPanel report={displayData.importReport} />}
+
+        {/* Files read from an archive */}
+        {displayData.sources && displayData.sources.length > 0 && (
+          <div className="mt-6 bg-white rounded-lg p-4 border border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-800 mb-3 flex items-center">
+              <span className="text-xl mr-2">🗂️</span>
+              Imported Files
+            </h3>
+            <ul className="divide-y divide-gray-100 text-sm">
+              {displayData.sources.map(source => (
+                <li key={source.fileName} className="py-2 flex items-center justify-between">
+                  <div>
+                    <div className="font-medium text-gray-700">{source.fileName}</div>
+                    {source.note && <div className="text-xs text-gray-500">{source.note}</div>}
+                  </div>
+                  <div className="text-right">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                      source.status === 'imported' ? 'bg-green-100 text-green-800' :
+                      source.status === 'skipped' ? 'bg-gray-100 text-gray-700' :
+                      'bg-red-100 text-red-800'
+                    }`}>
+                      {source.status === 'imported' ? `${source.tripCount} trips` : source.status}
+                    </span>
+                    {source.format && <div className="text-xs text-gray-500 mt-1">{source.format}</div>}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Top Destinations (Enhanced only) */}
         {isEnhanced && (() => {
           const enhancedStats = getEnhancedStats(stats);
@@ -0,0 +1,169 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { EnrichmentJobService } from '../services/enrichmentJobs';
+import { ProcessingCancelledError } from '../utils/abort';
+import type { TripImporter, ImportContext } from '../services/importers';
+import type {
+  EnhancedProcessingResult,
+  EnhancedTrip,
+  ImportResult
+} from '../types/travel';
+import type { ProcessingWorkerRequest, ProcessingWorkerResponse } from '../workers/protocol';
+
+type WorkerRequestBody =
+  | Omit<Extract<ProcessingWorkerRequest, { type: 'import' }>, 'requestId'>
+  | Omit<Extract<ProcessingWorkerRequest, { type: 'enhance' }>, 'requestId'>;
+
+interface RequestHandlers {
+  onProgress?: (progress: number, stage?: string) => void;
+  onPartial?: (trips: EnhancedTrip[]) => void;
+  signal?: AbortSignal;
+}
+
+interface PendingRequest extends Omit<RequestHandlers, 'signal'> {
+  resolve: (result: ImportResult | EnhancedProcessingResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface UseProcessingWorkerReturn {
+  isSupported: boolean;
+  importFiles: (importer: TripImporter, files: File[], context: ImportContext) => Promise<ImportResult>;
+  runEnrichmentJob: (
+    jobId: string,
+    onProgress?: (progress: number, stage: string) => void,
+    onPartial?: (trips: EnhancedTrip[]) => void,
+    signal?: AbortSignal
+  ) => Promise<EnhancedProcessingResult>;
+}
+
+/**
+ * Runs imports and enrichment jobs in a Web Worker, falling back to the main
+ * thread when workers are unavailable or the importer needs the DOM or user input
+ */
+export const useProcessingWorker = (): UseProcessingWorkerReturn => {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef(new Map<number, PendingRequest>());
+  const nextIdRef = useRef(1);
+  const isSupported = typeof Worker !== 'undefined';
+
+  const handleMessage = useCallback((event: MessageEvent<ProcessingWorkerResponse>) => {
+    const message = event.data;
+    const pending = pendingRef.current.get(message.requestId);
+    if (!pending) return;
+
+    switch (message.type) {
+      case 'progress':
+        pending.onProgress?.(message.progress, message.stage);
+        break;
+      case 'partial':
+        pending.onPartial?.(message.trips);
+        break;
+      case 'imported':
+      case 'enhanced':
+        pendingRef.current.delete(message.requestId);
+        pending.resolve(message.result);
+        break;
+      case 'cancelled':
+        pendingRef.current.delete(message.requestId);
+        pending.reject(new ProcessingCancelledError(message.partialResult));
+        break;
+      case 'error':
+        pendingRef.current.delete(message.requestId);
+        pending.reject(new Error(message.message));
+        break;
+    }
+  }, []);
+
+  const getWorker = useCallback((): Worker => {
+    if (!workerRef.current) {
+      const worker = new Worker(new URL('../workers/processing.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = handleMessage;
+      worker.onerror = (event) => {
+        // A crashed worker fails every request in flight
+        pendingRef.current.forEach(pending => pending.reject(new Error(event.message || 'Processing worker failed')));
+        pendingRef.current.clear();
+        worker.terminate();
+        workerRef.current = null;
+      };
+      workerRef.current = worker;
+    }
+    return workerRef.current;
+  }, [handleMessage]);
+
+  const send = useCallback(<T extends ImportResult | EnhancedProcessingResult>(
+    body: WorkerRequestBody,
+    { signal, ...handlers }: RequestHandlers
+  ): Promise<T> => {
+    const requestId = nextIdRef.current++;
+
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new ProcessingCancelledError());
+        return;
+      }
+
+      // The worker answers a cancel with whatever it gathered so far
+      const onAbort = () => workerRef.current?.postMessage({ type: 'cancel', requestId } as ProcessingWorkerRequest);
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const settle = () => signal?.removeEventListener('abort', onAbort);
+      pendingRef.current.set(requestId, {
+        ...handlers,
+        resolve: (result) => {
+          settle();
+          resolve(result as T);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        }
+      });
+      getWorker().postMessage({ ...body, requestId } as ProcessingWorkerRequest);
+    });
+  }, [getWorker]);
+
+  /**
+   * Import one file, or a batch of files for importers with convertBatch (e.g. photos)
+   */
+  const importFiles = useCallback(async (importer: TripImporter, files: File[], context: ImportContext) => {
+    if (!isSupported || !importer.runsInWorker) {
+      return importer.convertBatch && files.length > 1
+        ? importer.convertBatch(files, context)
+        : importer.convert(files[0], context);
+    }
+
+    return send<ImportResult>(
+      { type: 'import', importerId: importer.id, files },
+      { onProgress: (progress) => context.onProgress?.(progress), signal: context.signal }
+    );
+  }, [isSupported, send]);
+
+  const runEnrichmentJob = useCallback(async (
+    jobId: string,
+    onProgress?: (progress: number, stage: string) => void,
+    onPartial?: (trips: EnhancedTrip[]) => void,
+    signal?: AbortSignal
+  ) => {
+    if (!isSupported) {
+      return EnrichmentJobService.runJob(jobId, onProgress, onPartial, signal);
+    }
+
+    return send<EnhancedProcessingResult>(
+      { type: 'enhance', jobId },
+      { onProgress: (progress, stage) => onProgress?.(progress, stage || ''), onPartial, signal }
+    );
+  }, [isSupported, send]);
+
+  // Stop the worker when the component using it unmounts
+  useEffect(() => {
+    const pending = pendingRef.current;
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      // Callers awaiting a request settle as if it had been cancelled
+      pending.forEach(request => request.reject(new ProcessingCancelledError()));
+      pending.clear();
+    };
+  }, []);
+
+  return { isSupported, importFiles, runEnrichmentJob };
+};
@@ -7,7 +7,10 @@ import type {
   EnhancedTravelStats,
   ProcessingResult,
   EnhancedProcessingResult,
-  ManualTrip
+  ManualTrip,
+  ImportSource,
+  ImportReport,
+  HomeWorkLocations
 } from '../types/travel';
 
 interface AppTravelData {
@@ -20,6 +23,9 @@ interface AppTravelData {
   totalSegments: number;
   processedSegments: number;
   apiEnrichmentProgress?: number;
+  sources?: ImportSource[];
+  importReport?: ImportReport;
+  homeWork?: HomeWorkLocations;
   fileName?: string;
   fileSize?: number;
   storageId?: string;
@@ -56,6 +62,9 @@ export const useTravelData = (): UseTravelDataReturn => {
     totalSegments: stored.totalSegments,
     processedSegments: stored.processedSegments,
     apiEnrichmentProgress: stored.apiEnrichmentProgress,
+    sources: stored.sources,
+    importReport: stored.importReport,
+    homeWork: stored.homeWork,
     fileName: stored.fileName,
     fileSize: stored.fileSize,
     storageId: stored.id,
@@ -87,6 +96,9 @@ export const useTravelData = (): UseTravelDataReturn => {
         totalSegments: data.totalSegments,
         processedSegments: data.processedSegments,
         apiEnrichmentProgress: data.apiEnrichmentProgress,
+        sources: data.sources,
+        importReport: data.importReport,
+        homeWork: data.homeWork,
         fileName: data.fileName,
         fileSize: data.fileSize
       });
@@ -156,6 +168,9 @@ export const useTravelData = (): UseTravelDataReturn => {
       if (updates.totalSegments !== undefined) storageUpdates.totalSegments = updates.totalSegments;
       if (updates.processedSegments !== undefined) storageUpdates.processedSegments = updates.processedSegments;
       if (updates.apiEnrichmentProgress !== undefined) storageUpdates.apiEnrichmentProgress = updates.apiEnrichmentProgress;
+      if (updates.sources !== undefined) storageUpdates.sources = updates.sources;
+      if (updates.importReport !== undefined) storageUpdates.importReport = updates.importReport;
+      if (updates.homeWork !== undefined) storageUpdates.homeWork = updates.homeWork;
       if (updates.fileName !== undefined) storageUpdates.fileName = updates.fileName;
       if (updates.fileSize !== undefined) storageUpdates.fileSize = updates.fileSize;
 
@@ -256,6 +271,9 @@ export const useProcessingResult = () => {
         totalSegments: result.totalSegments,
         processedSegments: result.processedSegments,
         apiEnrichmentProgress: result.apiEnrichmentProgress,
+        sources: result.sources,
+        importReport: result.importReport,
+        homeWork: result.homeWork,
         fileName,
         fileSize
       });
@@ -268,6 +286,9 @@ export const useProcessingResult = () => {
         errors: result.errors,
         totalSegments: result.totalSegments,
         processedSegments: result.processedSegments,
+        sources: result.sources,
+        importReport: result.importReport,
+        homeWork: result.homeWork,
         fileName,
         fileSize
       });
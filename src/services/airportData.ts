@@ -0,0 +1,6077 @@
+// Airports with an IATA code, from the OpenFlights airport database (https://openflights.org/data),
+// available under the Open Database License. One airport per line:
+// IATA|ICAO|name|city|country|latitude|longitude|IANA time zone|standard UTC offset in hours
+export const AIRPORT_DATA = `
+GKA|AYGA|Goroka Airport|Goroka|Papua New Guinea|-6.0817|145.392|Pacific/Port_Moresby|10
+MAG|AYMD|Madang Airport|Madang|Papua New Guinea|-5.2071|145.789|Pacific/Port_Moresby|10
+HGU|AYMH|Mount Hagen Kagamuga Airport|Mount Hagen|Papua New Guinea|-5.8268|144.296|Pacific/Port_Moresby|10
+LAE|AYNZ|Nadzab Airport|Nadzab|Papua New Guinea|-6.5698|146.726|Pacific/Port_Moresby|10
+POM|AYPY|Port Moresby Jacksons International Airport|Port Moresby|Papua New Guinea|-9.4434|147.22|Pacific/Port_Moresby|10
+WWK|AYWK|Wewak International Airport|Wewak|Papua New Guinea|-3.5838|143.669|Pacific/Port_Moresby|10
+UAK|BGBW|Narsarsuaq Airport|Narssarssuaq|Greenland|61.1605|-45.426|America/Godthab|-3
+GOH|BGGH|Godthaab / Nuuk Airport|Godthaab|Greenland|64.1909|-51.6781|America/Godthab|-3
+SFJ|BGSF|Kangerlussuaq Airport|Sondrestrom|Greenland|67.0122|-50.7116|America/Godthab|-3
+THU|BGTL|Thule Air Base|Thule|Greenland|76.5312|-68.7032|America/Thule|-4
+AEY|BIAR|Akureyri Airport|Akureyri|Iceland|65.66|-18.0727|Atlantic/Reykjavik|0
+EGS|BIEG|Egilsstaðir Airport|Egilsstadir|Iceland|65.2833|-14.4014|Atlantic/Reykjavik|0
+HFN|BIHN|Hornafjörður Airport|Hofn|Iceland|64.2956|-15.2272|Atlantic/Reykjavik|0
+HZK|BIHU|Húsavík Airport|Husavik|Iceland|65.9523|-17.426|Atlantic/Reykjavik|0
+IFJ|BIIS|Ísafjörður Airport|Isafjordur|Iceland|66.0581|-23.1353|Atlantic/Reykjavik|0
+KEF|BIKF|Keflavik International Airport|Keflavik|Iceland|63.985|-22.6056|Atlantic/Reykjavik|0
+PFJ|BIPA|Patreksfjörður Airport|Patreksfjordur|Iceland|65.5558|-23.965|Atlantic/Reykjavik|0
+RKV|BIRK|Reykjavik Airport|Reykjavik|Iceland|64.13|-21.9406|Atlantic/Reykjavik|0
+SIJ|BISI|Siglufjörður Airport|Siglufjordur|Iceland|66.1333|-18.9167|Atlantic/Reykjavik|0
+VEY|BIVM|Vestmannaeyjar Airport|Vestmannaeyjar|Iceland|63.4243|-20.2789|Atlantic/Reykjavik|0
+YAM|CYAM|Sault Ste Marie Airport|Sault Sainte Marie|Canada|46.485|-84.5094|America/Toronto|-5
+YAY|CYAY|St. Anthony Airport|St. Anthony|Canada|51.3919|-56.0831|America/St_Johns|-3.5
+YAZ|CYAZ|Tofino / Long Beach Airport|Tofino|Canada|49.0798|-125.7756|America/Vancouver|-8
+YBB|CYBB|Kugaaruk Airport|Pelly Bay|Canada|68.5344|-89.8081|America/Edmonton|-7
+YBC|CYBC|Baie Comeau Airport|Baie Comeau|Canada|49.1325|-68.2044|America/Toronto|-5
+YBG|CYBG|CFB Bagotville|Bagotville|Canada|48.3306|-70.9964|America/Toronto|-5
+YBK|CYBK|Baker Lake Airport|Baker Lake|Canada|64.2989|-96.0778|America/Winnipeg|-6
+YBL|CYBL|Campbell River Airport|Campbell River|Canada|49.9508|-125.271|America/Vancouver|-8
+YBR|CYBR|Brandon Municipal Airport|Brandon|Canada|49.91|-99.9519|America/Winnipeg|-6
+YCB|CYCB|Cambridge Bay Airport|Cambridge Bay|Canada|69.1081|-105.138|America/Edmonton|-7
+YCD|CYCD|Nanaimo Airport|Nanaimo|Canada|49.055|-123.8699|America/Vancouver|-8
+YCG|CYCG|Castlegar/West Kootenay Regional Airport|Castlegar|Canada|49.2964|-117.632|America/Vancouver|-8
+YCH|CYCH|Miramichi Airport|Chatham|Canada|47.0078|-65.4492|America/Halifax|-4
+YCL|CYCL|Charlo Airport|Charlo|Canada|47.9908|-66.3303|America/Halifax|-4
+YCO|CYCO|Kugluktuk Airport|Coppermine|Canada|67.8167|-115.144|America/Edmonton|-7
+YCT|CYCT|Coronation Airport|Coronation|Canada|52.075|-111.445|America/Edmonton|-7
+YCW|CYCW|Chilliwack Airport|Chilliwack|Canada|49.1528|-121.939|America/Vancouver|-8
+YCY|CYCY|Clyde River Airport|Clyde River|Canada|70.4861|-68.5167|America/Toronto|-5
+YZS|CYZS|Coral Harbour Airport|Coral Harbour|Canada|64.1933|-83.3594|America/Coral_Harbour|-5
+YDA|CYDA|Dawson City Airport|Dawson|Canada|64.0431|-139.128|America/Vancouver|-8
+YDB|CYDB|Burwash Airport|Burwash|Canada|61.3711|-139.041|America/Vancouver|-8
+YDF|CYDF|Deer Lake Airport|Deer Lake|Canada|49.2108|-57.3914|America/St_Johns|-3.5
+YDL|CYDL|Dease Lake Airport|Dease Lake|Canada|58.4222|-130.032|America/Vancouver|-8
+YDN|CYDN|Dauphin Barker Airport|Dauphin|Canada|51.1008|-100.052|America/Winnipeg|-6
+YDQ|CYDQ|Dawson Creek Airport|Dawson Creek|Canada|55.7423|-120.183|America/Dawson_Creek|-7
+YEG|CYEG|Edmonton International Airport|Edmonton|Canada|53.3097|-113.58|America/Edmonton|-7
+YEK|CYEK|Arviat Airport|Eskimo Point|Canada|61.0942|-94.0708|America/Winnipeg|-6
+YEN|CYEN|Estevan Airport|Estevan|Canada|49.2103|-102.966|America/Regina|-6
+YET|CYET|Edson Airport|Edson|Canada|53.5789|-116.465|America/Edmonton|-7
+YEU|CYEU|Eureka Airport|Eureka|Canada|79.9947|-85.8142|America/Winnipeg|-6
+YEV|CYEV|Inuvik Mike Zubko Airport|Inuvik|Canada|68.3042|-133.483|America/Edmonton|-7
+YFB|CYFB|Iqaluit Airport|Iqaluit|Canada|63.7564|-68.5558|America/Toronto|-5
+YFC|CYFC|Fredericton Airport|Fredericton|Canada|45.8689|-66.5372|America/Halifax|-4
+YFE|CYFE|Forestville Airport|Forestville|Canada|48.7461|-69.0972|America/Toronto|-5
+YFO|CYFO|Flin Flon Airport|Flin Flon|Canada|54.6781|-101.682|America/Winnipeg|-6
+YFR|CYFR|Fort Resolution Airport|Fort Resolution|Canada|61.1808|-113.69|America/Edmonton|-7
+YFS|CYFS|Fort Simpson Airport|Fort Simpson|Canada|61.7602|-121.237|America/Edmonton|-7
+YGK|CYGK|Kingston Norman Rogers Airport|Kingston|Canada|44.2253|-76.5969|America/Toronto|-5
+YGL|CYGL|La Grande Rivière Airport|La Grande Riviere|Canada|53.6253|-77.7042|America/Toronto|-5
+YGP|CYGP|Gaspé (Michel-Pouliot) Airport|Gaspe|Canada|48.7753|-64.4786|America/Toronto|-5
+YGQ|CYGQ|Geraldton Greenstone Regional Airport|Geraldton|Canada|49.7783|-86.9394|America/Toronto|-5
+YGR|CYGR|Îles-de-la-Madeleine Airport|Iles De La Madeleine|Canada|47.4247|-61.7781|America/Toronto|-5
+YHB|CYHB|Hudson Bay Airport|Hudson Bay|Canada|52.8167|-102.311|America/Regina|-6
+YHD|CYHD|Dryden Regional Airport|Dryden|Canada|49.8317|-92.7442|America/Winnipeg|-6
+YHI|CYHI|Ulukhaktok Holman Airport|Holman Island|Canada|70.7628|-117.806|America/Edmonton|-7
+YHK|CYHK|Gjoa Haven Airport|Gjoa Haven|Canada|68.6356|-95.8497|America/Edmonton|-7
+YHM|CYHM|John C. Munro Hamilton International Airport|Hamilton|Canada|43.1736|-79.935|America/Toronto|-5
+YHU|CYHU|Montréal / Saint-Hubert Airport|Montreal|Canada|45.5175|-73.4169|America/Toronto|-5
+YHY|CYHY|Hay River / Merlyn Carter Airport|Hay River|Canada|60.8397|-115.783|America/Edmonton|-7
+YHZ|CYHZ|Halifax / Stanfield International Airport|Halifax|Canada|44.8808|-63.5086|America/Halifax|-4
+YIB|CYIB|Atikokan Municipal Airport|Atikokan|Canada|48.7739|-91.6386|America/Coral_Harbour|-5
+YIO|CYIO|Pond Inlet Airport|Pond Inlet|Canada|72.6833|-77.9667|America/Toronto|-5
+YJN|CYJN|St Jean Airport|St. Jean|Canada|45.2944|-73.2811|America/Toronto|-5
+YJT|CYJT|Stephenville Airport|Stephenville|Canada|48.5442|-58.55|America/St_Johns|-3.5
+YKA|CYKA|Kamloops Airport|Kamloops|Canada|50.7022|-120.444|America/Vancouver|-8
+YKF|CYKF|Waterloo Airport|Waterloo|Canada|43.4608|-80.3786|America/Toronto|-5
+YKL|CYKL|Schefferville Airport|Schefferville|Canada|54.8053|-66.8053|America/Toronto|-5
+YKY|CYKY|Kindersley Airport|Kindersley|Canada|51.5175|-109.181|America/Regina|-6
+YKZ|CYKZ|Buttonville Municipal Airport|Toronto|Canada|43.8622|-79.37|America/Toronto|-5
+YLD|CYLD|Chapleau Airport|Chapleau|Canada|47.82|-83.3467|America/Toronto|-5
+YLJ|CYLJ|Meadow Lake Airport|Meadow Lake|Canada|54.1253|-108.523|America/Regina|-6
+YLL|CYLL|Lloydminster Airport|Lloydminster|Canada|53.3092|-110.073|America/Edmonton|-7
+YLT|CYLT|Alert Airport|Alert|Canada|82.5178|-62.2806|America/Toronto|-5
+YLW|CYLW|Kelowna International Airport|Kelowna|Canada|49.9561|-119.378|America/Vancouver|-8
+YMA|CYMA|Mayo Airport|Mayo|Canada|63.6164|-135.868|America/Vancouver|-8
+YMJ|CYMJ|Moose Jaw Air Vice Marshal C. M. McEwen Airport|Moose Jaw|Canada|50.3303|-105.559|America/Regina|-6
+YMM|CYMM|Fort McMurray Airport|Fort Mcmurray|Canada|56.6533|-111.222|America/Edmonton|-7
+YMO|CYMO|Moosonee Airport|Moosonee|Canada|51.2911|-80.6078|America/Toronto|-5
+YMW|CYMW|Maniwaki Airport|Maniwaki|Canada|46.2728|-75.9906|America/Toronto|-5
+YMX|CYMX|Montreal International (Mirabel) Airport|Montreal|Canada|45.6795|-74.0387|America/Toronto|-5
+YNA|CYNA|Natashquan Airport|Natashquan|Canada|50.19|-61.7892|America/Toronto|-5
+YND|CYND|Ottawa / Gatineau Airport|Gatineau|Canada|45.5217|-75.5636|America/Toronto|-5
+YNM|CYNM|Matagami Airport|Matagami|Canada|49.7617|-77.8028|America/Toronto|-5
+YOC|CYOC|Old Crow Airport|Old Crow|Canada|67.5706|-139.839|America/Vancouver|-8
+YOD|CYOD|CFB Cold Lake|Cold Lake|Canada|54.405|-110.279|America/Edmonton|-7
+YOJ|CYOJ|High Level Airport|High Level|Canada|58.6214|-117.165|America/Edmonton|-7
+YOW|CYOW|Ottawa Macdonald-Cartier International Airport|Ottawa|Canada|45.3225|-75.6692|America/Toronto|-5
+YPA|CYPA|Prince Albert Glass Field|Prince Albert|Canada|53.2142|-105.673|America/Regina|-6
+YPE|CYPE|Peace River Airport|Peace River|Canada|56.2269|-117.447|America/Edmonton|-7
+YPG|CYPG|Southport Airport|Portage-la-prairie|Canada|49.9031|-98.2738|America/Winnipeg|-6
+YPL|CYPL|Pickle Lake Airport|Pickle Lake|Canada|51.4464|-90.2142|America/Coral_Harbour|-5
+YPN|CYPN|Port Menier Airport|Port Menier|Canada|49.8364|-64.2886|America/Toronto|-5
+YPQ|CYPQ|Peterborough Airport|Peterborough|Canada|44.23|-78.3633|America/Toronto|-5
+YPR|CYPR|Prince Rupert Airport|Prince Pupert|Canada|54.2861|-130.445|America/Vancouver|-8
+YPY|CYPY|Fort Chipewyan Airport|Fort Chipewyan|Canada|58.7672|-111.117|America/Edmonton|-7
+YQA|CYQA|Muskoka Airport|Muskoka|Canada|44.9747|-79.3033|America/Toronto|-5
+YQB|CYQB|Quebec Jean Lesage International Airport|Quebec|Canada|46.7911|-71.3933|America/Toronto|-5
+YQF|CYQF|Red Deer Regional Airport|Red Deer Industrial|Canada|52.1822|-113.894|America/Edmonton|-7
+YQG|CYQG|Windsor Airport|Windsor|Canada|42.2756|-82.9556|America/Toronto|-5
+YQH|CYQH|Watson Lake Airport|Watson Lake|Canada|60.1164|-128.822|America/Vancouver|-8
+YQK|CYQK|Kenora Airport|Kenora|Canada|49.7883|-94.3631|America/Winnipeg|-6
+YQL|CYQL|Lethbridge County Airport|Lethbridge|Canada|49.6303|-112.8|America/Edmonton|-7
+YQM|CYQM|Greater Moncton International Airport|Moncton|Canada|46.1122|-64.6786|America/Halifax|-4
+YQQ|CYQQ|Comox Airport|Comox|Canada|49.7108|-124.887|America/Vancouver|-8
+YQR|CYQR|Regina International Airport|Regina|Canada|50.4319|-104.666|America/Regina|-6
+YQT|CYQT|Thunder Bay Airport|Thunder Bay|Canada|48.3719|-89.3239|America/Toronto|-5
+YQU|CYQU|Grande Prairie Airport|Grande Prairie|Canada|55.1797|-118.885|America/Edmonton|-7
+YQV|CYQV|Yorkton Municipal Airport|Yorkton|Canada|51.2647|-102.462|America/Regina|-6
+YQW|CYQW|North Battleford Airport|North Battleford|Canada|52.7692|-108.244|America/Regina|-6
+YQX|CYQX|Gander International Airport|Gander|Canada|48.9369|-54.5681|America/St_Johns|-3.5
+YQY|CYQY|Sydney / J.A. Douglas McCurdy Airport|Sydney|Canada|46.1614|-60.0478|America/Halifax|-4
+YQZ|CYQZ|Quesnel Airport|Quesnel|Canada|53.0261|-122.51|America/Vancouver|-8
+YRB|CYRB|Resolute Bay Airport|Resolute|Canada|74.7169|-94.9694|America/Winnipeg|-6
+YRI|CYRI|Rivière-du-Loup Airport|Riviere Du Loup|Canada|47.7644|-69.5847|America/Toronto|-5
+YRJ|CYRJ|Roberval Airport|Roberval|Canada|48.52|-72.2656|America/Toronto|-5
+YRM|CYRM|Rocky Mountain House Airport|Rocky Mountain House|Canada|52.4297|-114.904|America/Edmonton|-7
+YRT|CYRT|Rankin Inlet Airport|Rankin Inlet|Canada|62.8114|-92.1158|America/Winnipeg|-6
+YSB|CYSB|Sudbury Airport|Sudbury|Canada|46.625|-80.7989|America/Toronto|-5
+YSC|CYSC|Sherbrooke Airport|Sherbrooke|Canada|45.4386|-71.6914|America/Toronto|-5
+YSJ|CYSJ|Saint John Airport|St. John|Canada|45.3161|-65.8903|America/Halifax|-4
+YSM|CYSM|Fort Smith Airport|Fort Smith|Canada|60.0203|-111.962|America/Edmonton|-7
+YSR|CYSR|Nanisivik Airport|Nanisivik|Canada|72.9822|-84.6136|America/Toronto|-5
+YSU|CYSU|Summerside Airport|Summerside|Canada|46.4406|-63.8336|America/Halifax|-4
+YSY|CYSY|Sachs Harbour (David Nasogaluak Jr. Saaryuaq) Airport|Sachs Harbour|Canada|71.9939|-125.243|America/Edmonton|-7
+YTE|CYTE|Cape Dorset Airport|Cape Dorset|Canada|64.23|-76.5267|America/Toronto|-5
+YTH|CYTH|Thompson Airport|Thompson|Canada|55.8011|-97.8642|America/Winnipeg|-6
+YTR|CYTR|CFB Trenton|Trenton|Canada|44.1189|-77.5281|America/Toronto|-5
+YTS|CYTS|Timmins/Victor M. Power|Timmins|Canada|48.5697|-81.3767|America/Toronto|-5
+YTZ|CYTZ|Billy Bishop Toronto City Centre Airport|Toronto|Canada|43.6275|-79.3962|America/Toronto|-5
+YUB|CYUB|Tuktoyaktuk Airport|Tuktoyaktuk|Canada|69.4333|-133.026|America/Edmonton|-7
+YUL|CYUL|Montreal / Pierre Elliott Trudeau International Airport|Montreal|Canada|45.4706|-73.7408|America/Toronto|-5
+YUT|CYUT|Repulse Bay Airport|Repulse Bay|Canada|66.5214|-86.2247|America/Winnipeg|-6
+YUX|CYUX|Hall Beach Airport|Hall Beach|Canada|68.7761|-81.2425|America/Toronto|-5
+YUY|CYUY|Rouyn Noranda Airport|Rouyn|Canada|48.2061|-78.8356|America/Toronto|-5
+YVC|CYVC|La Ronge Airport|La Ronge|Canada|55.1514|-105.262|America/Regina|-6
+YVG|CYVG|Vermilion Airport|Vermillion|Canada|53.3558|-110.824|America/Edmonton|-7
+YVM|CYVM|Qikiqtarjuaq Airport|Broughton Island|Canada|67.5458|-64.0314|America/Toronto|-5
+YVO|CYVO|Val-d'Or Airport|Val D'or|Canada|48.0533|-77.7828|America/Toronto|-5
+YVP|CYVP|Kuujjuaq Airport|Quujjuaq|Canada|58.0961|-68.4269|America/Toronto|-5
+YVQ|CYVQ|Norman Wells Airport|Norman Wells|Canada|65.2816|-126.798|America/Edmonton|-7
+YVR|CYVR|Vancouver International Airport|Vancouver|Canada|49.1939|-123.184|America/Vancouver|-8
+YVT|CYVT|Buffalo Narrows Airport|Buffalo Narrows|Canada|55.8419|-108.418|America/Regina|-6
+YVV|CYVV|Wiarton Airport|Wiarton|Canada|44.7458|-81.1072|America/Toronto|-5
+YWA|CYWA|Petawawa Airport|Petawawa|Canada|45.9522|-77.3192|America/Toronto|-5
+YWG|CYWG|Winnipeg / James Armstrong Richardson International Airport|Winnipeg|Canada|49.91|-97.2399|America/Winnipeg|-6
+YWK|CYWK|Wabush Airport|Wabush|Canada|52.9219|-66.8644|America/Halifax|-4
+YWL|CYWL|Williams Lake Airport|Williams Lake|Canada|52.1831|-122.054|America/Vancouver|-8
+YWY|CYWY|Wrigley Airport|Wrigley|Canada|63.2094|-123.437|America/Edmonton|-7
+YXC|CYXC|Cranbrook/Canadian Rockies International Airport|Cranbrook|Canada|49.6108|-115.782|America/Edmonton|-7
+YXD|CYXD|Edmonton City Centre (Blatchford Field) Airport|Edmonton|Canada|53.5725|-113.521|America/Edmonton|-7
+YXE|CYXE|Saskatoon John G. Diefenbaker International Airport|Saskatoon|Canada|52.1708|-106.7|America/Regina|-6
+YXH|CYXH|Medicine Hat Airport|Medicine Hat|Canada|50.0189|-110.721|America/Edmonton|-7
+YXJ|CYXJ|Fort St John Airport|Fort Saint John|Canada|56.2381|-120.74|America/Dawson_Creek|-7
+YXL|CYXL|Sioux Lookout Airport|Sioux Lookout|Canada|50.1139|-91.9053|America/Winnipeg|-6
+YXP|CYXP|Pangnirtung Airport|Pangnirtung|Canada|66.145|-65.7136|America/Toronto|-5
+YXR|CYXR|Earlton (Timiskaming Regional) Airport|Earlton|Canada|47.6974|-79.8473|America/Toronto|-5
+YXS|CYXS|Prince George Airport|Prince George|Canada|53.8894|-122.679|America/Vancouver|-8
+YXT|CYXT|Northwest Regional Airport Terrace-Kitimat|Terrace|Canada|54.4685|-128.576|America/Vancouver|-8
+YXU|CYXU|London Airport|London|Canada|43.0356|-81.1539|America/Toronto|-5
+YXX|CYXX|Abbotsford Airport|Abbotsford|Canada|49.0253|-122.361|America/Vancouver|-8
+YXY|CYXY|Whitehorse / Erik Nielsen International Airport|Whitehorse|Canada|60.7096|-135.067|America/Vancouver|-8
+YYB|CYYB|North Bay Jack Garland Airport|North Bay|Canada|46.3636|-79.4228|America/Toronto|-5
+YYC|CYYC|Calgary International Airport|Calgary|Canada|51.1139|-114.02|America/Edmonton|-7
+YYD|CYYD|Smithers Airport|Smithers|Canada|54.8247|-127.183|America/Vancouver|-8
+YYE|CYYE|Fort Nelson Airport|Fort Nelson|Canada|58.8364|-122.597|America/Vancouver|-8
+YYF|CYYF|Penticton Airport|Penticton|Canada|49.4631|-119.602|America/Vancouver|-8
+YYG|CYYG|Charlottetown Airport|Charlottetown|Canada|46.29|-63.1211|America/Halifax|-4
+YYH|CYYH|Taloyoak Airport|Spence Bay|Canada|69.5467|-93.5767|America/Edmonton|-7
+YYJ|CYYJ|Victoria International Airport|Victoria|Canada|48.6469|-123.426|America/Vancouver|-8
+YYL|CYYL|Lynn Lake Airport|Lynn Lake|Canada|56.8639|-101.076|America/Winnipeg|-6
+YYN|CYYN|Swift Current Airport|Swift Current|Canada|50.2919|-107.691|America/Regina|-6
+YYQ|CYYQ|Churchill Airport|Churchill|Canada|58.7392|-94.065|America/Winnipeg|-6
+YYR|CYYR|Goose Bay Airport|Goose Bay|Canada|53.3192|-60.4258|America/Halifax|-4
+YYT|CYYT|St. John's International Airport|St. John's|Canada|47.6186|-52.7519|America/St_Johns|-3.5
+YYU|CYYU|Kapuskasing Airport|Kapuskasing|Canada|49.4139|-82.4675|America/Toronto|-5
+YYW|CYYW|Armstrong Airport|Armstrong|Canada|50.2903|-88.9097|America/Toronto|-5
+YYY|CYYY|Mont Joli Airport|Mont Joli|Canada|48.6086|-68.2081|America/Toronto|-5
+YYZ|CYYZ|Lester B. Pearson International Airport|Toronto|Canada|43.6772|-79.6306|America/Toronto|-5
+YZD|CYZD|Downsview Airport|Toronto|Canada|43.7425|-79.4656|America/Toronto|-5
+YZE|CYZE|Gore Bay Manitoulin Airport|Gore Bay|Canada|45.8853|-82.5678|America/Toronto|-5
+YZF|CYZF|Yellowknife Airport|Yellowknife|Canada|62.4628|-114.44|America/Edmonton|-7
+YZH|CYZH|Slave Lake Airport|Slave Lake|Canada|55.2931|-114.777|America/Edmonton|-7
+YZP|CYZP|Sandspit Airport|Sandspit|Canada|53.2543|-131.814|America/Vancouver|-8
+YZR|CYZR|Chris Hadfield Airport|Sarnia|Canada|42.9994|-82.3089|America/Toronto|-5
+YZT|CYZT|Port Hardy Airport|Port Hardy|Canada|50.6806|-127.367|America/Vancouver|-8
+YZU|CYZU|Whitecourt Airport|Whitecourt|Canada|54.1439|-115.787|America/Edmonton|-7
+YZV|CYZV|Sept-Îles Airport|Sept-iles|Canada|50.2233|-66.2656|America/Toronto|-5
+YZW|CYZW|Teslin Airport|Teslin|Canada|60.1728|-132.743|America/Vancouver|-8
+YZX|CYZX|CFB Greenwood|Greenwood|Canada|44.9844|-64.9169|America/Halifax|-4
+ZFA|CZFA|Faro Airport|Faro|Canada|62.2075|-133.376|America/Vancouver|-8
+ZFM|CZFM|Fort Mcpherson Airport|Fort Mcpherson|Canada|67.4075|-134.861|America/Edmonton|-7
+QLD|DAAB|Blida Airport|Blida|Algeria|36.5036|2.8142|Africa/Algiers|1
+BUJ|DAAD|Bou Saada Airport|Bou Saada|Algeria|35.3325|4.2064|Africa/Algiers|1
+BJA|DAAE|Soummam Airport|Bejaja|Algeria|36.712|5.0699|Africa/Algiers|1
+ALG|DAAG|Houari Boumediene Airport|Algier|Algeria|36.691|3.2154|Africa/Algiers|1
+DJG|DAAJ|Djanet Inedbirene Airport|Djanet|Algeria|24.2928|9.4524|Africa/Algiers|1
+VVZ|DAAP|Illizi Takhamalt Airport|Illizi|Algeria|26.7235|8.6227|Africa/Algiers|1
+TMR|DAAT|Aguenar – Hadj Bey Akhamok Airport|Tamanrasset|Algeria|22.8115|5.4511|Africa/Algiers|1
+GJL|DAAV|Jijel Ferhat Abbas Airport|Jijel|Algeria|36.7951|5.8736|Africa/Algiers|1
+MZW|DAAY|Mecheria Airport|Mecheria|Algeria|33.5359|-0.2424|Africa/Algiers|1
+AAE|DABB|Rabah Bitat Airport|Annaba|Algeria|36.8222|7.8092|Africa/Algiers|1
+CZL|DABC|Mohamed Boudiaf International Airport|Constantine|Algeria|36.276|6.6204|Africa/Algiers|1
+TEE|DABS|Cheikh Larbi Tébessi Airport|Tebessa|Algeria|35.4316|8.1207|Africa/Algiers|1
+HRM|DAFH|Hassi R'Mel Airport|Tilrempt|Algeria|32.9304|3.3115|Africa/Algiers|1
+TID|DAOB|Bou Chekif Airport|Tiaret|Algeria|35.3411|1.4632|Africa/Algiers|1
+TIN|DAOF|Tindouf Airport|Tindouf|Algeria|27.7004|-8.1671|Africa/Algiers|1
+CFK|DAOI|Ech Cheliff Airport|Ech-cheliff|Algeria|36.2127|1.3318|Africa/Algiers|1
+TAF|DAOL|Tafaraoui Airport|Oran|Algeria|35.5424|-0.5323|Africa/Algiers|1
+TLM|DAON|Zenata – Messali El Hadj Airport|Tlemcen|Algeria|35.0167|-1.45|Africa/Algiers|1
+ORN|DAOO|Es Senia Airport|Oran|Algeria|35.6239|-0.6212|Africa/Algiers|1
+BFW|DAOS|Sidi Bel Abbes Airport|Sidi Bel Abbes|Algeria|35.1718|-0.5933|Africa/Algiers|1
+MUW|DAOV|Ghriss Airport|Ghriss|Algeria|35.2077|0.1471|Africa/Algiers|1
+AZR|DAUA|Touat Cheikh Sidi Mohamed Belkebir Airport|Adrar|Algeria|27.8376|-0.1864|Africa/Algiers|1
+BSK|DAUB|Biskra Airport|Biskra|Algeria|34.7933|5.7382|Africa/Algiers|1
+ELG|DAUE|El Golea Airport|El Golea|Algeria|30.5713|2.8596|Africa/Algiers|1
+GHA|DAUG|Noumérat - Moufdi Zakaria Airport|Ghardaia|Algeria|32.3841|3.7941|Africa/Algiers|1
+HME|DAUH|Oued Irara Airport|Hassi Messaoud|Algeria|31.673|6.1404|Africa/Algiers|1
+INZ|DAUI|In Salah Airport|In Salah|Algeria|27.251|2.512|Africa/Algiers|1
+TGR|DAUK|Touggourt Sidi Madhi Airport|Touggourt|Algeria|33.0678|6.0887|Africa/Algiers|1
+LOO|DAUL|Laghouat Airport|Laghouat|Algeria|33.7644|2.9283|Africa/Algiers|1
+TMX|DAUT|Timimoun Airport|Timimoun|Algeria|29.2371|0.276|Africa/Algiers|1
+OGX|DAUU|Ain el Beida Airport|Ouargla|Algeria|31.9172|5.4128|Africa/Algiers|1
+IAM|DAUZ|In Aménas Airport|Zarzaitine|Algeria|28.0515|9.6429|Africa/Algiers|1
+COO|DBBB|Cadjehoun Airport|Cotonou|Benin|6.3572|2.3844|Africa/Porto-Novo|1
+OUA|DFFD|Ouagadougou Airport|Ouagadougou|Burkina Faso|12.3532|-1.5124|Africa/Ouagadougou|0
+BOY|DFOO|Bobo Dioulasso Airport|Bobo-dioulasso|Burkina Faso|11.1601|-4.331|Africa/Ouagadougou|0
+ACC|DGAA|Kotoka International Airport|Accra|Ghana|5.6052|-0.1668|Africa/Accra|0
+TML|DGLE|Tamale Airport|Tamale|Ghana|9.5572|-0.8632|Africa/Accra|0
+NYI|DGSN|Sunyani Airport|Sunyani|Ghana|7.3618|-2.3288|Africa/Accra|0
+TKD|DGTK|Takoradi Airport|Takoradi|Ghana|4.8961|-1.7748|Africa/Accra|0
+ABJ|DIAP|Port Bouet Airport|Abidjan|Cote d'Ivoire|5.2614|-3.9263|Africa/Abidjan|0
+BYK|DIBK|Bouaké Airport|Bouake|Cote d'Ivoire|7.7388|-5.0737|Africa/Abidjan|0
+DJO|DIDL|Daloa Airport|Daloa|Cote d'Ivoire|6.7928|-6.4732|Africa/Abidjan|0
+HGO|DIKO|Korhogo Airport|Korhogo|Cote d'Ivoire|9.3872|-5.5567|Africa/Abidjan|0
+MJC|DIMN|Man Airport|Man|Cote d'Ivoire|7.2721|-7.5874|Africa/Abidjan|0
+SPY|DISP|San Pedro Airport|San Pedro|Cote d'Ivoire|4.7467|-6.6608|Africa/Abidjan|0
+ASK|DIYO|Yamoussoukro Airport|Yamoussoukro|Cote d'Ivoire|6.9032|-5.3656|Africa/Abidjan|0
+ABV|DNAA|Nnamdi Azikiwe International Airport|Abuja|Nigeria|9.0068|7.2632|Africa/Lagos|1
+AKR|DNAK|Akure Airport|Akure|Nigeria|7.2467|5.301|Africa/Lagos|1
+BNI|DNBE|Benin Airport|Benin|Nigeria|6.317|5.5995|Africa/Lagos|1
+CBQ|DNCA|Margaret Ekpo International Airport|Calabar|Nigeria|4.976|8.3472|Africa/Lagos|1
+ENU|DNEN|Akanu Ibiam International Airport|Enugu|Nigeria|6.4743|7.562|Africa/Lagos|1
+IBA|DNIB|Ibadan Airport|Ibadan|Nigeria|7.3625|3.9783|Africa/Lagos|1
+ILR|DNIL|Ilorin International Airport|Ilorin|Nigeria|8.4402|4.4939|Africa/Lagos|1
+JOS|DNJO|Yakubu Gowon Airport|Jos|Nigeria|9.6398|8.8691|Africa/Lagos|1
+KAD|DNKA|Kaduna Airport|Kaduna|Nigeria|10.696|7.3201|Africa/Lagos|1
+KAN|DNKN|Mallam Aminu International Airport|Kano|Nigeria|12.0476|8.5246|Africa/Lagos|1
+MIU|DNMA|Maiduguri International Airport|Maiduguri|Nigeria|11.8553|13.0809|Africa/Lagos|1
+MDI|DNMK|Makurdi Airport|Makurdi|Nigeria|7.7039|8.6139|Africa/Lagos|1
+LOS|DNMM|Murtala Muhammed International Airport|Lagos|Nigeria|6.5774|3.3212|Africa/Lagos|1
+MXJ|DNMN|Minna Airport|Minna|Nigeria|9.6522|6.4623|Africa/Lagos|1
+PHC|DNPO|Port Harcourt International Airport|Port Hartcourt|Nigeria|5.0155|6.9496|Africa/Lagos|1
+SKO|DNSO|Sadiq Abubakar III International Airport|Sokoto|Nigeria|12.9163|5.2072|Africa/Lagos|1
+YOL|DNYO|Yola Airport|Yola|Nigeria|9.2576|12.4304|Africa/Lagos|1
+ZAR|DNZA|Zaria Airport|Zaria|Nigeria|11.1302|7.6858|Africa/Lagos|1
+MFQ|DRRM|Maradi Airport|Maradi|Niger|13.5025|7.1267|Africa/Niamey|1
+NIM|DRRN|Diori Hamani International Airport|Niamey|Niger|13.4815|2.1836|Africa/Niamey|1
+THZ|DRRT|Tahoua Airport|Tahoua|Niger|14.8757|5.2654|Africa/Niamey|1
+AJY|DRZA|Mano Dayak International Airport|Agadez|Niger|16.966|8.0001|Africa/Niamey|1
+ZND|DRZR|Zinder Airport|Zinder|Niger|13.779|8.9838|Africa/Niamey|1
+MIR|DTMB|Monastir Habib Bourguiba International Airport|Monastir|Tunisia|35.7581|10.7547|Africa/Tunis|1
+TUN|DTTA|Tunis Carthage International Airport|Tunis|Tunisia|36.851|10.2272|Africa/Tunis|1
+GAF|DTTF|Gafsa Ksar International Airport|Gafsa|Tunisia|34.422|8.8225|Africa/Tunis|1
+GAE|DTTG|Gabès Matmata International Airport|Gabes|Tunisia|33.8769|10.1033|Africa/Tunis|1
+DJE|DTTJ|Djerba Zarzis International Airport|Djerba|Tunisia|33.875|10.7755|Africa/Tunis|1
+EBM|DTTR|El Borma Airport|El Borma|Tunisia|31.7043|9.2546|Africa/Tunis|1
+SFA|DTTX|Sfax Thyna International Airport|Sfax|Tunisia|34.718|10.691|Africa/Tunis|1
+TOE|DTTZ|Tozeur Nefta International Airport|Tozeur|Tunisia|33.9397|8.1106|Africa/Tunis|1
+LRL|DXNG|Niamtougou International Airport|Niatougou|Togo|9.7673|1.0912|Africa/Lome|0
+LFW|DXXX|Lomé-Tokoin Airport|Lome|Togo|6.1656|1.2545|Africa/Lome|0
+ANR|EBAW|Antwerp International Airport (Deurne)|Antwerp|Belgium|51.1894|4.4603|Europe/Brussels|1
+BRU|EBBR|Brussels Airport|Brussels|Belgium|50.9014|4.4844|Europe/Brussels|1
+CRL|EBCI|Brussels South Charleroi Airport|Charleroi|Belgium|50.4592|4.4538|Europe/Brussels|1
+KJK|EBKT|Wevelgem Airport|Kortrijk-vevelgem|Belgium|50.8172|3.2047|Europe/Brussels|1
+LGG|EBLG|Liège Airport|Liege|Belgium|50.6374|5.4432|Europe/Brussels|1
+OST|EBOS|Ostend-Bruges International Airport|Ostend|Belgium|51.1989|2.8622|Europe/Brussels|1
+OBL|EBZR|Zoersel (Oostmalle) Airfield|Zoersel|Belgium|51.2647|4.7533|Europe/Brussels|1
+AOC|EDAC|Altenburg-Nobitz Airport|Altenburg|Germany|50.9819|12.5064|Europe/Berlin|1
+IES|EDAU|Riesa-Göhlis Airport|Riesa|Germany|51.2936|13.3561|Europe/Berlin|1
+REB|EDAX|Rechlin-Lärz Airport|Rechlin-laerz|Germany|53.3064|12.7522|Europe/Berlin|1
+QXH|EDAZ|Schönhagen Airport|Schoenhagen|Germany|52.2036|13.1564|Europe/Berlin|1
+BBH|EDBH|Barth Airport|Barth|Germany|54.3383|12.7105|Europe/Berlin|1
+ZMG|EDBM|Magdeburg "City" Airport|Magdeburg|Germany|52.0736|11.6264|Europe/Berlin|1
+CBU|EDCD|Cottbus-Drewitz Airport|Cottbus|Germany|51.8894|14.5319|Europe/Berlin|1
+SXF|EDDB|Berlin-Schönefeld Airport|Berlin|Germany|52.38|13.5225|Europe/Berlin|1
+DRS|EDDC|Dresden Airport|Dresden|Germany|51.1328|13.7672|Europe/Berlin|1
+ERF|EDDE|Erfurt Airport|Erfurt|Germany|50.9798|10.9581|Europe/Berlin|1
+FRA|EDDF|Frankfurt am Main Airport|Frankfurt|Germany|50.0333|8.5706|Europe/Berlin|1
+FMO|EDDG|Münster Osnabrück Airport|Munster|Germany|52.1346|7.6848|Europe/Berlin|1
+HAM|EDDH|Hamburg Airport|Hamburg|Germany|53.6304|9.9882|Europe/Berlin|1
+THF|EDDI|Berlin-Tempelhof International Airport|Berlin|Germany|52.473|13.4039|Europe/Berlin|1
+CGN|EDDK|Cologne Bonn Airport|Cologne|Germany|50.8659|7.1427|Europe/Berlin|1
+DUS|EDDL|Düsseldorf Airport|Duesseldorf|Germany|51.2895|6.7668|Europe/Berlin|1
+MUC|EDDM|Munich Airport|Munich|Germany|48.3538|11.7861|Europe/Berlin|1
+NUE|EDDN|Nuremberg Airport|Nuernberg|Germany|49.4987|11.0781|Europe/Berlin|1
+LEJ|EDDP|Leipzig/Halle Airport|Leipzig|Germany|51.4239|12.2364|Europe/Berlin|1
+SCN|EDDR|Saarbrücken Airport|Saarbruecken|Germany|49.2146|7.1095|Europe/Berlin|1
+STR|EDDS|Stuttgart Airport|Stuttgart|Germany|48.6899|9.222|Europe/Berlin|1
+TXL|EDDT|Berlin-Tegel Airport|Berlin|Germany|52.5597|13.2877|Europe/Berlin|1
+HAJ|EDDV|Hannover Airport|Hannover|Germany|52.4611|9.6851|Europe/Berlin|1
+BRE|EDDW|Bremen Airport|Bremen|Germany|53.0475|8.7867|Europe/Berlin|1
+QEF|EDFE|Frankfurt-Egelsbach Airport|Egelsbach|Germany|49.96|8.6458|Europe/Berlin|1
+HHN|EDFH|Frankfurt-Hahn Airport|Hahn|Germany|49.9487|7.2639|Europe/Berlin|1
+MHG|EDFM|Mannheim-City Airport|Mannheim|Germany|49.4731|8.5142|Europe/Berlin|1
+EIB|EDGE|Eisenach-Kindel Airport|Eisenach|Germany|50.9916|10.4797|Europe/Berlin|1
+SGE|EDGS|Siegerland Airport|Siegerland|Germany|50.7077|8.083|Europe/Berlin|1
+XFW|EDHI|Hamburg-Finkenwerder Airport|Hamburg|Germany|53.5353|9.8356|Europe/Berlin|1
+KEL|EDHK|Kiel-Holtenau Airport|Kiel|Germany|54.3794|10.1453|Europe/Berlin|1
+LBC|EDHL|Lübeck Blankensee Airport|Luebeck|Germany|53.8054|10.7192|Europe/Berlin|1
+ESS|EDLE|Essen Mulheim Airport|Essen|Germany|51.4023|6.9373|Europe/Berlin|1
+BFE|EDLI|Bielefeld Airport|Bielefeld|Germany|51.9647|8.5444|Europe/Berlin|1
+MGL|EDLN|Mönchengladbach Airport|Moenchengladbach|Germany|51.2303|6.5044|Europe/Berlin|1
+PAD|EDLP|Paderborn Lippstadt Airport|Paderborn|Germany|51.6141|8.6163|Europe/Berlin|1
+DTM|EDLW|Dortmund Airport|Dortmund|Germany|51.5183|7.6122|Europe/Berlin|1
+AGB|EDMA|Augsburg Airport|Augsburg|Germany|48.4253|10.9317|Europe/Berlin|1
+OBF|EDMO|Oberpfaffenhofen Airport|Oberpfaffenhofen|Germany|48.0814|11.2831|Europe/Berlin|1
+RBM|EDMS|Straubing Airport|Straubing|Germany|48.9008|12.5167|Europe/Berlin|1
+FDH|EDNY|Friedrichshafen Airport|Friedrichshafen|Germany|47.6713|9.5115|Europe/Berlin|1
+SZW|EDOP|Schwerin Parchim Airport|Parchim|Germany|53.427|11.7834|Europe/Berlin|1
+BYU|EDQD|Bayreuth Airport|Bayreuth|Germany|49.985|11.64|Europe/Berlin|1
+URD|EDQE|Burg Feuerstein Airport|Burg Feuerstein|Germany|49.7942|11.1336|Europe/Berlin|1
+HOQ|EDQM|Hof-Plauen Airport|Hof|Germany|50.2886|11.8564|Europe/Berlin|1
+ZQW|EDRZ|Zweibrücken Airport|Zweibruecken|Germany|49.2094|7.4006|Europe/Berlin|1
+ZQL|EDTD|Donaueschingen-Villingen Airport|Donaueschingen|Germany|47.9733|8.5222|Europe/Berlin|1
+BWE|EDVE|Braunschweig-Wolfsburg Airport|Braunschweig|Germany|52.3192|10.5561|Europe/Berlin|1
+KSF|EDVK|Kassel-Calden Airport|Kassel|Germany|51.4173|9.385|Europe/Berlin|1
+BRV|EDWB|Bremerhaven Airport|Bremerhaven|Germany|53.5069|8.5728|Europe/Berlin|1
+EME|EDWE|Emden Airport|Emden|Germany|53.3911|7.2275|Europe/Berlin|1
+WVN|EDWI|Wilhelmshaven-Mariensiel Airport|Wilhelmshaven|Germany|53.5022|8.0522|Europe/Berlin|1
+BMK|EDWR|Borkum Airport|Borkum|Germany|53.5964|6.7092|Europe/Berlin|1
+NRD|EDWY|Norderney Airport|Norderney|Germany|53.7069|7.23|Europe/Berlin|1
+FLF|EDXF|Flensburg-Schäferhaus Airport|Flensburg|Germany|54.7733|9.3789|Europe/Berlin|1
+GWT|EDXW|Westerland Sylt Airport|Westerland|Germany|54.9132|8.3405|Europe/Berlin|1
+KDL|EEKA|Kärdla Airport|Kardla|Estonia|58.9908|22.8307|Europe/Tallinn|2
+URE|EEKE|Kuressaare Airport|Kuressaare|Estonia|58.2299|22.5095|Europe/Tallinn|2
+EPU|EEPU|Pärnu Airport|Parnu|Estonia|58.419|24.4728|Europe/Tallinn|2
+TLL|EETN|Lennart Meri Tallinn Airport|Tallinn-ulemiste International|Estonia|59.4133|24.8328|Europe/Tallinn|2
+TAY|EETU|Tartu Airport|Tartu|Estonia|58.3075|26.6904|Europe/Tallinn|2
+ENF|EFET|Enontekio Airport|Enontekio|Finland|68.3626|23.4243|Europe/Helsinki|2
+KEV|EFHA|Halli Airport|Halli|Finland|61.856|24.7867|Europe/Helsinki|2
+HEM|EFHF|Helsinki Malmi Airport|Helsinki|Finland|60.2546|25.0428|Europe/Helsinki|2
+HEL|EFHK|Helsinki Vantaa Airport|Helsinki|Finland|60.3172|24.9633|Europe/Helsinki|2
+HYV|EFHV|Hyvinkää Airfield|Hyvinkaa|Finland|60.6544|24.8811|Europe/Helsinki|2
+KTQ|EFIT|Kitee Airport|Kitee|Finland|62.1661|30.0736|Europe/Helsinki|2
+IVL|EFIV|Ivalo Airport|Ivalo|Finland|68.6073|27.4053|Europe/Helsinki|2
+JOE|EFJO|Joensuu Airport|Joensuu|Finland|62.6629|29.6075|Europe/Helsinki|2
+JYV|EFJY|Jyvaskyla Airport|Jyvaskyla|Finland|62.3995|25.6783|Europe/Helsinki|2
+KAU|EFKA|Kauhava Airport|Kauhava|Finland|63.1271|23.0514|Europe/Helsinki|2
+KEM|EFKE|Kemi-Tornio Airport|Kemi|Finland|65.7787|24.5821|Europe/Helsinki|2
+KAJ|EFKI|Kajaani Airport|Kajaani|Finland|64.2855|27.6924|Europe/Helsinki|2
+KHJ|EFKJ|Kauhajoki Airport|Kauhajoki|Finland|62.4625|22.3931|Europe/Helsinki|2
+KOK|EFKK|Kokkola-Pietarsaari Airport|Kruunupyy|Finland|63.7212|23.1431|Europe/Helsinki|2
+KAO|EFKS|Kuusamo Airport|Kuusamo|Finland|65.9876|29.2394|Europe/Helsinki|2
+KTT|EFKT|Kittilä Airport|Kittila|Finland|67.701|24.8468|Europe/Helsinki|2
+KUO|EFKU|Kuopio Airport|Kuopio|Finland|63.0071|27.7978|Europe/Helsinki|2
+QLF|EFLA|Lahti Vesivehmaa Airport|Vesivehmaa|Finland|61.1442|25.6935|Europe/Helsinki|2
+LPP|EFLP|Lappeenranta Airport|Lappeenranta|Finland|61.0446|28.1447|Europe/Helsinki|2
+MHQ|EFMA|Mariehamn Airport|Mariehamn|Finland|60.1222|19.8982|Europe/Mariehamn|2
+MIK|EFMI|Mikkeli Airport|Mikkeli|Finland|61.6866|27.2018|Europe/Helsinki|2
+OUL|EFOU|Oulu Airport|Oulu|Finland|64.9301|25.3546|Europe/Helsinki|2
+POR|EFPO|Pori Airport|Pori|Finland|61.4617|21.8|Europe/Helsinki|2
+RVN|EFRO|Rovaniemi Airport|Rovaniemi|Finland|66.5648|25.8304|Europe/Helsinki|2
+SVL|EFSA|Savonlinna Airport|Savonlinna|Finland|61.9431|28.9451|Europe/Helsinki|2
+SOT|EFSO|Sodankyla Airport|Sodankyla|Finland|67.395|26.6191|Europe/Helsinki|2
+TMP|EFTP|Tampere-Pirkkala Airport|Tampere|Finland|61.4141|23.6044|Europe/Helsinki|2
+TKU|EFTU|Turku Airport|Turku|Finland|60.5141|22.2628|Europe/Helsinki|2
+UTI|EFUT|Utti Air Base|Utti|Finland|60.8964|26.9384|Europe/Helsinki|2
+VAA|EFVA|Vaasa Airport|Vaasa|Finland|63.0507|21.7622|Europe/Helsinki|2
+VRK|EFVR|Varkaus Airport|Varkaus|Finland|62.1711|27.8686|Europe/Helsinki|2
+YLI|EFYL|Ylivieska Airfield|Ylivieska-raudaskyla|Finland|64.0547|24.7253|Europe/Helsinki|2
+BFS|EGAA|Belfast International Airport|Belfast|United Kingdom|54.6575|-6.2158|Europe/London|0
+ENK|EGAB|St Angelo Airport|Enniskillen|United Kingdom|54.3989|-7.6517|Europe/London|0
+BHD|EGAC|George Best Belfast City Airport|Belfast|United Kingdom|54.6181|-5.8725|Europe/London|0
+LDY|EGAE|City of Derry Airport|Londonderry|United Kingdom|55.0428|-7.1611|Europe/London|0
+BHX|EGBB|Birmingham International Airport|Birmingham|United Kingdom|52.4539|-1.748|Europe/London|0
+CVT|EGBE|Coventry Airport|Coventry|United Kingdom|52.3697|-1.4797|Europe/London|0
+GLO|EGBJ|Gloucestershire Airport|Golouchestershire|United Kingdom|51.8942|-2.1672|Europe/London|0
+GBA|EGBP|Cotswold Airport|Pailton|United Kingdom|51.6681|-2.0569|Europe/London|0
+MAN|EGCC|Manchester Airport|Manchester|United Kingdom|53.3537|-2.275|Europe/London|0
+NQY|EGHQ|Newquay Cornwall Airport|Newquai|United Kingdom|50.4406|-4.9954|Europe/London|0
+LYE|EGDL|RAF Lyneham|Lyneham|United Kingdom|51.5051|-1.9934|Europe/London|0
+YEO|EGDY|RNAS Yeovilton|Yeovilton|United Kingdom|51.0094|-2.6388|Europe/London|0
+HAW|EGFE|Haverfordwest Airport|Haverfordwest|United Kingdom|51.8331|-4.9611|Europe/London|0
+CWL|EGFF|Cardiff International Airport|Cardiff|United Kingdom|51.3967|-3.3433|Europe/London|0
+SWS|EGFH|Swansea Airport|Swansea|United Kingdom|51.6053|-4.0678|Europe/London|0
+BRS|EGGD|Bristol Airport|Bristol|United Kingdom|51.3827|-2.7191|Europe/London|0
+LPL|EGGP|Liverpool John Lennon Airport|Liverpool|United Kingdom|53.3336|-2.8497|Europe/London|0
+LTN|EGGW|London Luton Airport|London|United Kingdom|51.8747|-0.3683|Europe/London|0
+PLH|EGHD|Plymouth City Airport|Plymouth|United Kingdom|50.4228|-4.1058|Europe/London|0
+BOH|EGHH|Bournemouth Airport|Bournemouth|United Kingdom|50.78|-1.8425|Europe/London|0
+SOU|EGHI|Southampton Airport|Southampton|United Kingdom|50.9503|-1.3568|Europe/London|0
+QLA|EGHL|Lasham Airport|Lasham|United Kingdom|51.1872|-1.0335|Europe/London|0
+ACI|EGJA|Alderney Airport|Alderney|Guernsey|49.7061|-2.2147|Europe/Guernsey|0
+GCI|EGJB|Guernsey Airport|Guernsey|Guernsey|49.435|-2.602|Europe/Guernsey|0
+JER|EGJJ|Jersey Airport|Jersey|Jersey|49.2079|-2.1955|Europe/Jersey|0
+ESH|EGKA|Shoreham Airport|Shoreham By Sea|United Kingdom|50.8356|-0.2972|Europe/London|0
+BQH|EGKB|London Biggin Hill Airport|Biggin Hill|United Kingdom|51.3308|0.0325|Europe/London|0
+LGW|EGKK|London Gatwick Airport|London|United Kingdom|51.1481|-0.1903|Europe/London|0
+LCY|EGLC|London City Airport|London|United Kingdom|51.5053|0.0553|Europe/London|0
+FAB|EGLF|Farnborough Airport|Farnborough|United Kingdom|51.2758|-0.7763|Europe/London|0
+BBS|EGLK|Blackbushe Airport|Blackbushe|United Kingdom|51.3239|-0.8475|Europe/London|0
+LHR|EGLL|London Heathrow Airport|London|United Kingdom|51.4706|-0.4619|Europe/London|0
+SEN|EGMC|Southend Airport|Southend|United Kingdom|51.5714|0.6956|Europe/London|0
+LYX|EGMD|Lydd Airport|Lydd|United Kingdom|50.9561|0.9392|Europe/London|0
+MSE|EGMH|Kent International Airport|Manston|United Kingdom|51.3422|1.3461|Europe/London|0
+CAX|EGNC|Carlisle Airport|Carlisle|United Kingdom|54.9375|-2.8092|Europe/London|0
+BLK|EGNH|Blackpool International Airport|Blackpool|United Kingdom|53.7717|-3.0286|Europe/London|0
+HUY|EGNJ|Humberside Airport|Humberside|United Kingdom|53.5744|-0.3508|Europe/London|0
+BWF|EGNL|Barrow Walney Island Airport|Barrow Island|United Kingdom|54.1286|-3.2675|Europe/London|0
+LBA|EGNM|Leeds Bradford Airport|Leeds|United Kingdom|53.8659|-1.6606|Europe/London|0
+WRT|EGNO|Warton Airport|Warton|United Kingdom|53.7451|-2.8831|Europe/London|0
+CEG|EGNR|Hawarden Airport|Hawarden|United Kingdom|53.1781|-2.9778|Europe/London|0
+IOM|EGNS|Isle of Man Airport|Isle Of Man|Isle of Man|54.0833|-4.6239|Europe/Isle_of_Man|0
+NCL|EGNT|Newcastle Airport|Newcastle|United Kingdom|55.0375|-1.6917|Europe/London|0
+MME|EGNV|Durham Tees Valley Airport|Teesside|United Kingdom|54.5092|-1.4294|Europe/London|0
+EMA|EGNX|East Midlands Airport|East Midlands|United Kingdom|52.8311|-1.3281|Europe/London|0
+KOI|EGPA|Kirkwall Airport|Kirkwall|United Kingdom|58.9578|-2.905|Europe/London|0
+LSI|EGPB|Sumburgh Airport|Sumburgh|United Kingdom|59.8789|-1.2956|Europe/London|0
+WIC|EGPC|Wick Airport|Wick|United Kingdom|58.4589|-3.0931|Europe/London|0
+ABZ|EGPD|Aberdeen Dyce Airport|Aberdeen|United Kingdom|57.2019|-2.1978|Europe/London|0
+INV|EGPE|Inverness Airport|Inverness|United Kingdom|57.5425|-4.0475|Europe/London|0
+GLA|EGPF|Glasgow International Airport|Glasgow|United Kingdom|55.8719|-4.4331|Europe/London|0
+EDI|EGPH|Edinburgh Airport|Edinburgh|United Kingdom|55.95|-3.3725|Europe/London|0
+ILY|EGPI|Islay Airport|Islay|United Kingdom|55.6819|-6.2567|Europe/London|0
+PIK|EGPK|Glasgow Prestwick Airport|Prestwick|United Kingdom|55.5094|-4.5867|Europe/London|0
+BEB|EGPL|Benbecula Airport|Benbecula|United Kingdom|57.4811|-7.3628|Europe/London|0
+SCS|EGPM|Scatsta Airport|Scatsta|United Kingdom|60.4328|-1.2961|Europe/London|0
+DND|EGPN|Dundee Airport|Dundee|United Kingdom|56.4525|-3.0258|Europe/London|0
+SYY|EGPO|Stornoway Airport|Stornoway|United Kingdom|58.2156|-6.3311|Europe/London|0
+TRE|EGPU|Tiree Airport|Tiree|United Kingdom|56.4992|-6.8692|Europe/London|0
+ADX|EGQL|RAF Leuchars|Leuchars|United Kingdom|56.3729|-2.8684|Europe/London|0
+LMO|EGQS|RAF Lossiemouth|Lossiemouth|United Kingdom|57.7052|-3.3392|Europe/London|0
+CBG|EGSC|Cambridge Airport|Cambridge|United Kingdom|52.205|0.175|Europe/London|0
+NWI|EGSH|Norwich International Airport|Norwich|United Kingdom|52.6758|1.2828|Europe/London|0
+STN|EGSS|London Stansted Airport|London|United Kingdom|51.885|0.235|Europe/London|0
+EXT|EGTE|Exeter International Airport|Exeter|United Kingdom|50.7344|-3.4139|Europe/London|0
+FZO|EGTG|Bristol Filton Airport|Bristol|United Kingdom|51.5194|-2.5908|Europe/London|0
+OXF|EGTK|Oxford (Kidlington) Airport|Oxford|United Kingdom|51.8369|-1.32|Europe/London|0
+BEX|EGUB|RAF Benson|Benson|United Kingdom|51.6164|-1.0958|Europe/London|0
+LKZ|EGUL|RAF Lakenheath|Lakenheath|United Kingdom|52.4093|0.561|Europe/London|0
+MHZ|EGUN|RAF Mildenhall|Mildenhall|United Kingdom|52.3619|0.4864|Europe/London|0
+QUY|EGUY|RAF Wyton|Wyton|United Kingdom|52.3572|-0.1078|Europe/London|0
+FFD|EGVA|RAF Fairford|Fairford|United Kingdom|51.6822|-1.79|Europe/London|0
+BZZ|EGVN|RAF Brize Norton|Brize Norton|United Kingdom|51.75|-1.5836|Europe/London|0
+ODH|EGVO|RAF Odiham|Odiham|United Kingdom|51.2341|-0.9428|Europe/London|0
+NHT|EGWU|RAF Northolt|Northolt|United Kingdom|51.553|-0.4182|Europe/London|0
+QCY|EGXC|RAF Coningsby|Coningsby|United Kingdom|53.093|-0.166|Europe/London|0
+BEQ|EGXH|RAF Honington|Honington|United Kingdom|52.3426|0.7729|Europe/London|0
+SQZ|EGXP|RAF Scampton|Scampton|United Kingdom|53.3078|-0.5508|Europe/London|0
+HRT|EGXU|RAF Linton-On-Ouse|Linton-on-ouse|United Kingdom|54.0489|-1.2528|Europe/London|0
+WTN|EGXW|RAF Waddington|Waddington|United Kingdom|53.1662|-0.5238|Europe/London|0
+KNF|EGYM|RAF Marham|Marham|United Kingdom|52.6484|0.5507|Europe/London|0
+MPN|EGYP|Mount Pleasant Airport|Mount Pleasant|Falkland Islands|-51.8228|-58.4472|Atlantic/Stanley|-3
+AMS|EHAM|Amsterdam Airport Schiphol|Amsterdam|Netherlands|52.3086|4.7639|Europe/Amsterdam|1
+MST|EHBK|Maastricht Aachen Airport|Maastricht|Netherlands|50.9117|5.7701|Europe/Amsterdam|1
+EIN|EHEH|Eindhoven Airport|Eindhoven|Netherlands|51.4501|5.3745|Europe/Amsterdam|1
+GRQ|EHGG|Eelde Airport|Groningen|Netherlands|53.1197|6.5794|Europe/Amsterdam|1
+GLZ|EHGR|Gilze Rijen Air Base|Gilze-rijen|Netherlands|51.5674|4.9318|Europe/Amsterdam|1
+DHR|EHKD|De Kooy Airport|De Kooy|Netherlands|52.9234|4.7806|Europe/Amsterdam|1
+LEY|EHLE|Lelystad Airport|Lelystad|Netherlands|52.4603|5.5272|Europe/Amsterdam|1
+LWR|EHLW|Leeuwarden Air Base|Leeuwarden|Netherlands|53.2286|5.7606|Europe/Amsterdam|1
+RTM|EHRD|Rotterdam The Hague Airport|Rotterdam|Netherlands|51.9569|4.4372|Europe/Amsterdam|1
+UTC|EHSB|Soesterberg Air Base|Soesterberg|Netherlands|52.1273|5.2762|Europe/Amsterdam|1
+ENS|EHTW|Twente Airport|Enschede|Netherlands|52.2758|6.8892|Europe/Amsterdam|1
+LID|EHVB|Valkenburg Naval Air Base|Valkenburg|Netherlands|52.1661|4.4179|Europe/Amsterdam|1
+WOE|EHWO|Woensdrecht Air Base|Woensdrecht|Netherlands|51.4491|4.342|Europe/Amsterdam|1
+ORK|EICK|Cork Airport|Cork|Ireland|51.8413|-8.4911|Europe/Dublin|0
+GWY|EICM|Galway Airport|Galway|Ireland|53.3002|-8.9416|Europe/Dublin|0
+DUB|EIDW|Dublin Airport|Dublin|Ireland|53.4213|-6.2701|Europe/Dublin|0
+NOC|EIKN|Ireland West Knock Airport|Connaught|Ireland|53.9103|-8.8185|Europe/Dublin|0
+KIR|EIKY|Kerry Airport|Kerry|Ireland|52.1809|-9.5238|Europe/Dublin|0
+SNN|EINN|Shannon Airport|Shannon|Ireland|52.702|-8.9248|Europe/Dublin|0
+SXL|EISG|Sligo Airport|Sligo|Ireland|54.2802|-8.5992|Europe/Dublin|0
+WAT|EIWF|Waterford Airport|Waterford|Ireland|52.1872|-7.087|Europe/Dublin|0
+AAR|EKAH|Aarhus Airport|Aarhus|Denmark|56.3|10.619|Europe/Copenhagen|1
+BLL|EKBI|Billund Airport|Billund|Denmark|55.7403|9.1518|Europe/Copenhagen|1
+CPH|EKCH|Copenhagen Kastrup Airport|Copenhagen|Denmark|55.6179|12.656|Europe/Copenhagen|1
+EBJ|EKEB|Esbjerg Airport|Esbjerg|Denmark|55.5259|8.5534|Europe/Copenhagen|1
+KRP|EKKA|Karup Airport|Karup|Denmark|56.2975|9.1246|Europe/Copenhagen|1
+BYR|EKLS|Læsø Airport|Laeso|Denmark|57.2772|11.0001|Europe/Copenhagen|1
+MRW|EKMB|Lolland Falster Maribo Airport|Maribo|Denmark|54.6993|11.4401|Europe/Copenhagen|1
+ODE|EKOD|Odense Airport|Odense|Denmark|55.4767|10.3309|Europe/Copenhagen|1
+RKE|EKRK|Copenhagen Roskilde Airport|Copenhagen|Denmark|55.5856|12.1314|Europe/Copenhagen|1
+RNN|EKRN|Bornholm Airport|Ronne|Denmark|55.0633|14.7596|Europe/Copenhagen|1
+SGD|EKSB|Sønderborg Airport|Soenderborg|Denmark|54.9644|9.7917|Europe/Copenhagen|1
+SKS|EKSP|Skrydstrup Air Base|Skrydstrup|Denmark|55.221|9.267|Europe/Copenhagen|1
+SQW|EKSV|Skive Airport|Skive|Denmark|56.5502|9.173|Europe/Copenhagen|1
+TED|EKTS|Thisted Airport|Thisted|Denmark|57.0688|8.7052|Europe/Copenhagen|1
+FAE|EKVG|Vagar Airport|Vagar|Faroe Islands|62.0636|-7.2772|Atlantic/Faeroe|0
+STA|EKVJ|Stauning Airport|Stauning|Denmark|55.9901|8.3539|Europe/Copenhagen|1
+AAL|EKYT|Aalborg Airport|Aalborg|Denmark|57.0928|9.8492|Europe/Copenhagen|1
+LUX|ELLX|Luxembourg-Findel International Airport|Luxemburg|Luxembourg|49.6233|6.2044|Europe/Luxembourg|1
+AES|ENAL|Ålesund Airport|Alesund|Norway|62.5625|6.1197|Europe/Oslo|1
+ANX|ENAN|Andøya Airport|Andoya|Norway|69.2925|16.1442|Europe/Oslo|1
+ALF|ENAT|Alta Airport|Alta|Norway|69.9761|23.3717|Europe/Oslo|1
+BNN|ENBN|Brønnøysund Airport|Bronnoysund|Norway|65.4611|12.2175|Europe/Oslo|1
+BOO|ENBO|Bodø Airport|Bodo|Norway|67.2692|14.3653|Europe/Oslo|1
+BGO|ENBR|Bergen Airport Flesland|Bergen|Norway|60.2934|5.2181|Europe/Oslo|1
+BJF|ENBS|Båtsfjord Airport|Batsfjord|Norway|70.6005|29.6914|Europe/Oslo|1
+KRS|ENCN|Kristiansand Airport|Kristiansand|Norway|58.2042|8.0854|Europe/Oslo|1
+DLD|ENDI|Geilo Airport Dagali|Geilo|Norway|60.4173|8.5183|Europe/Oslo|1
+BDU|ENDU|Bardufoss Airport|Bardufoss|Norway|69.0558|18.5404|Europe/Oslo|1
+EVE|ENEV|Harstad/Narvik Airport, Evenes|Harstad/Narvik|Norway|68.4913|16.6781|Europe/Oslo|1
+VDB|ENFG|Leirin Airport|Fagernes|Norway|61.0156|9.2881|Europe/Oslo|1
+FRO|ENFL|Florø Airport|Floro|Norway|61.5836|5.0247|Europe/Oslo|1
+OSL|ENGM|Oslo Lufthavn|Oslo|Norway|60.121|11.0502|Europe/Oslo|1
+HAU|ENHD|Haugesund Airport|Haugesund|Norway|59.3453|5.2084|Europe/Oslo|1
+HAA|ENHK|Hasvik Airport|Hasvik|Norway|70.4867|22.1397|Europe/Oslo|1
+KSU|ENKB|Kristiansund Airport (Kvernberget)|Kristiansund|Norway|63.1118|7.8245|Europe/Oslo|1
+KKN|ENKR|Kirkenes Airport (Høybuktmoen)|Kirkenes|Norway|69.7258|29.8913|Europe/Oslo|1
+FAN|ENLI|Lista Airport|Farsund|Norway|58.0995|6.626|Europe/Oslo|1
+MOL|ENML|Molde Airport|Molde|Norway|62.7447|7.2625|Europe/Oslo|1
+MJF|ENMS|Mosjøen Airport (Kjærstad)|Mosjoen|Norway|65.784|13.2149|Europe/Oslo|1
+LKL|ENNA|Banak Airport|Lakselv|Norway|70.0688|24.9735|Europe/Oslo|1
+NTB|ENNO|Notodden Airport|Notodden|Norway|59.5657|9.2122|Europe/Oslo|1
+OLA|ENOL|Ørland Airport|Orland|Norway|63.6989|9.604|Europe/Oslo|1
+RRS|ENRO|Røros Airport|Roros|Norway|62.5784|11.3423|Europe/Oslo|1
+RYG|ENRY|Moss Airport, Rygge|Rygge|Norway|59.3788|10.7854|Europe/Oslo|1
+LYR|ENSB|Svalbard Airport, Longyear|Svalbard|Norway|78.2461|15.4656|Arctic/Longyearbyen|1
+SKE|ENSN|Skien Airport|Skien|Norway|59.185|9.5669|Europe/Oslo|1
+SRP|ENSO|Stord Airport|Stord|Norway|59.7919|5.3408|Europe/Oslo|1
+SSJ|ENST|Sandnessjøen Airport (Stokka)|Sandnessjoen|Norway|65.9568|12.4689|Europe/Oslo|1
+TOS|ENTC|Tromsø Airport,|Tromso|Norway|69.6833|18.9189|Europe/Oslo|1
+TRF|ENTO|Sandefjord Airport, Torp|Sandefjord|Norway|59.1867|10.2586|Europe/Oslo|1
+TRD|ENVA|Trondheim Airport Værnes|Trondheim|Norway|63.4578|10.924|Europe/Oslo|1
+SVG|ENZV|Stavanger Airport Sola|Stavanger|Norway|58.8767|5.6378|Europe/Oslo|1
+GDN|EPGD|Gdańsk Lech Wałęsa Airport|Gdansk|Poland|54.3776|18.4662|Europe/Warsaw|1
+KRK|EPKK|Kraków John Paul II International Airport|Krakow|Poland|50.0777|19.7848|Europe/Warsaw|1
+KTW|EPKT|Katowice International Airport|Katowice|Poland|50.4743|19.08|Europe/Warsaw|1
+POZ|EPPO|Poznań-Ławica Airport|Poznan|Poland|52.421|16.8263|Europe/Warsaw|1
+RZE|EPRZ|Rzeszów-Jasionka Airport|Rzeszow|Poland|50.11|22.019|Europe/Warsaw|1
+SZZ|EPSC|Szczecin-Goleniów "Solidarność" Airport|Szczecin|Poland|53.5847|14.9022|Europe/Warsaw|1
+OSP|EPSK|Redzikowo Air Base|Slupsk|Poland|54.4789|17.1075|Europe/Warsaw|1
+WAW|EPWA|Warsaw Chopin Airport|Warsaw|Poland|52.1657|20.9671|Europe/Warsaw|1
+WRO|EPWR|Copernicus Wrocław Airport|Wroclaw|Poland|51.1027|16.8858|Europe/Warsaw|1
+IEG|EPZG|Zielona Góra-Babimost Airport|Zielona Gora|Poland|52.1385|15.7986|Europe/Warsaw|1
+RNB|ESDF|Ronneby Airport|Ronneby|Sweden|56.2667|15.265|Europe/Stockholm|1
+GOT|ESGG|Gothenburg-Landvetter Airport|Gothenborg|Sweden|57.6628|12.2798|Europe/Stockholm|1
+JKG|ESGJ|Jönköping Airport|Joenkoeping|Sweden|57.7576|14.0687|Europe/Stockholm|1
+LDK|ESGL|Lidköping-Hovby Airport|Lidkoping|Sweden|58.4655|13.1744|Europe/Stockholm|1
+GSE|ESGP|Gothenburg City Airport|Gothenborg|Sweden|57.7747|11.8704|Europe/Stockholm|1
+KVB|ESGR|Skövde Airport|Skovde|Sweden|58.4564|13.9727|Europe/Stockholm|1
+THN|ESGT|Trollhättan-Vänersborg Airport|Trollhattan|Sweden|58.3181|12.345|Europe/Stockholm|1
+KSK|ESKK|Karlskoga Airport|Karlskoga|Sweden|59.3459|14.4959|Europe/Stockholm|1
+MXX|ESKM|Mora Airport|Mora|Sweden|60.9579|14.5114|Europe/Stockholm|1
+NYO|ESKN|Stockholm Skavsta Airport|Stockholm|Sweden|58.7886|16.9122|Europe/Stockholm|1
+KID|ESMK|Kristianstad Airport|Kristianstad|Sweden|55.9217|14.0855|Europe/Stockholm|1
+OSK|ESMO|Oskarshamn Airport|Oskarshamn|Sweden|57.3505|16.498|Europe/Stockholm|1
+KLR|ESMQ|Kalmar Airport|Kalkmar|Sweden|56.6855|16.2876|Europe/Stockholm|1
+MMX|ESMS|Malmö Sturup Airport|Malmoe|Sweden|55.5363|13.3762|Europe/Stockholm|1
+HAD|ESMT|Halmstad Airport|Halmstad|Sweden|56.6911|12.8202|Europe/Stockholm|1
+VXO|ESMX|Växjö Kronoberg Airport|Vaxjo|Sweden|56.9291|14.728|Europe/Stockholm|1
+EVG|ESND|Sveg Airport|Sveg|Sweden|62.0478|14.4229|Europe/Stockholm|1
+GEV|ESNG|Gällivare Airport|Gallivare|Sweden|67.1324|20.8146|Europe/Stockholm|1
+HUV|ESNH|Hudiksvall Airport|Hudiksvall|Sweden|61.7681|17.0807|Europe/Stockholm|1
+KRF|ESNK|Kramfors Sollefteå Airport|Kramfors|Sweden|63.0486|17.7689|Europe/Stockholm|1
+LYC|ESNL|Lycksele Airport|Lycksele|Sweden|64.5483|18.7162|Europe/Stockholm|1
+SDL|ESNN|Sundsvall-Härnösand Airport|Sundsvall|Sweden|62.5281|17.4439|Europe/Stockholm|1
+OER|ESNO|Örnsköldsvik Airport|Ornskoldsvik|Sweden|63.4083|18.99|Europe/Stockholm|1
+KRN|ESNQ|Kiruna Airport|Kiruna|Sweden|67.822|20.3368|Europe/Stockholm|1
+SFT|ESNS|Skellefteå Airport|Skelleftea|Sweden|64.6248|21.0769|Europe/Stockholm|1
+UME|ESNU|Umeå Airport|Umea|Sweden|63.7918|20.2828|Europe/Stockholm|1
+VHM|ESNV|Vilhelmina Airport|Vilhelmina|Sweden|64.5791|16.8336|Europe/Stockholm|1
+AJR|ESNX|Arvidsjaur Airport|Arvidsjaur|Sweden|65.5903|19.2819|Europe/Stockholm|1
+ORB|ESOE|Örebro Airport|Orebro|Sweden|59.2237|15.038|Europe/Stockholm|1
+VST|ESOW|Stockholm Västerås Airport|Vasteras|Sweden|59.5894|16.6336|Europe/Stockholm|1
+LLA|ESPA|Luleå Airport|Lulea|Sweden|65.5438|22.122|Europe/Stockholm|1
+ARN|ESSA|Stockholm-Arlanda Airport|Stockholm|Sweden|59.6519|17.9186|Europe/Stockholm|1
+BMA|ESSB|Stockholm-Bromma Airport|Stockholm|Sweden|59.3544|17.9417|Europe/Stockholm|1
+BLE|ESSD|Borlange Airport|Borlange|Sweden|60.422|15.5152|Europe/Stockholm|1
+HLF|ESSF|Hultsfred Airport|Hultsfred|Sweden|57.5258|15.8233|Europe/Stockholm|1
+GVX|ESSK|Gävle Sandviken Airport|Gavle|Sweden|60.5933|16.9514|Europe/Stockholm|1
+LPI|ESSL|Linköping City Airport|Linkoeping|Sweden|58.4062|15.6805|Europe/Stockholm|1
+NRK|ESSP|Norrköping Airport|Norrkoeping|Sweden|58.5863|16.2506|Europe/Stockholm|1
+EKT|ESSU|Eskilstuna Airport|Eskilstuna|Sweden|59.3511|16.7084|Europe/Stockholm|1
+VBY|ESSV|Visby Airport|Visby|Sweden|57.6628|18.3462|Europe/Stockholm|1
+SPM|ETAD|Spangdahlem Air Base|Spangdahlem|Germany|49.9727|6.6925|Europe/Berlin|1
+RMS|ETAR|Ramstein Air Base|Ramstein|Germany|49.4369|7.6003|Europe/Berlin|1
+GHF|ETEU|[Duplicate] Giebelstadt Army Air Field|Giebelstadt|Germany|49.6481|9.9665|Europe/Berlin|1
+ZCN|ETHC|Celle Airport|Celle|Germany|52.5912|10.0221|Europe/Berlin|1
+FRZ|ETHF|Fritzlar Airport|Fritzlar|Germany|51.1146|9.286|Europe/Berlin|1
+ZNF|ETID|Hanau Army Air Field|Hanau|Germany|50.1692|8.9616|Europe/Berlin|1
+KZG|ETIN|Flugplatz Kitzingen|Kitzingen|Germany|49.7431|10.2006|Europe/Berlin|1
+FCN|ETMN|Nordholz Naval Airbase|Nordholz|Germany|53.7677|8.6585|Europe/Berlin|1
+GKE|ETNG|Geilenkirchen Air Base|Geilenkirchen|Germany|50.9608|6.0424|Europe/Berlin|1
+RLG|ETNL|Rostock-Laage Airport|Laage|Germany|53.9182|12.2783|Europe/Berlin|1
+WBG|ETNS|Schleswig Air Base|Schleswig|Germany|54.4593|9.5163|Europe/Berlin|1
+WIE|ETOU|Wiesbaden Army Airfield|Wiesbaden|Germany|50.0498|8.3254|Europe/Berlin|1
+FEL|ETSF|Fürstenfeldbruck Air Base|Fuerstenfeldbruck|Germany|48.2056|11.2669|Europe/Berlin|1
+IGS|ETSI|Ingolstadt Manching Airport|Ingolstadt|Germany|48.7157|11.534|Europe/Berlin|1
+GUT|ETUO|Gütersloh Air Base|Guetersloh|Germany|51.9228|8.3063|Europe/Berlin|1
+ALJ|FAAB|Alexander Bay Airport|Alexander Bay|South Africa|-28.575|16.5333|Africa/Johannesburg|2
+AGZ|FAAG|Aggeneys Airport|Aggeneys|South Africa|-29.2818|18.8139|Africa/Johannesburg|2
+BIY|FABE|Bisho Airport|Bisho|South Africa|-32.8971|27.2791|Africa/Johannesburg|2
+BFN|FABL|Bram Fischer International Airport|Bloemfontein|South Africa|-29.0927|26.3024|Africa/Johannesburg|2
+CPT|FACT|Cape Town International Airport|Cape Town|South Africa|-33.9648|18.6017|Africa/Johannesburg|2
+DUR|FALE|King Shaka International Airport|Durban|South Africa|-29.6144|31.1197|Africa/Johannesburg|2
+ELS|FAEL|Ben Schoeman Airport|East London|South Africa|-33.0356|27.8259|Africa/Johannesburg|2
+FCB|FAFB|Ficksburg Sentraoes Airport|Ficksburg|South Africa|-28.8231|27.9089|Africa/Johannesburg|2
+GCJ|FAGC|Grand Central Airport|Johannesburg|South Africa|-25.9863|28.1401|Africa/Johannesburg|2
+GRJ|FAGG|George Airport|George|South Africa|-34.0056|22.3789|Africa/Johannesburg|2
+HRS|FAHR|Harrismith Airport|Harrismith|South Africa|-28.2351|29.1062|Africa/Johannesburg|2
+HDS|FAHS|Hoedspruit Air Force Base Airport|Hoedspruit|South Africa|-24.3686|31.0487|Africa/Johannesburg|2
+JNB|FAOR|OR Tambo International Airport|Johannesburg|South Africa|-26.1392|28.246|Africa/Johannesburg|2
+KXE|FAKD|P C Pelser Airport|Klerksdorp|South Africa|-26.8711|26.718|Africa/Johannesburg|2
+KIM|FAKM|Kimberley Airport|Kimberley|South Africa|-28.8028|24.7652|Africa/Johannesburg|2
+KMH|FAKU|Johan Pienaar Airport|Kuruman|South Africa|-27.4567|23.4114|Africa/Johannesburg|2
+KLZ|FAKZ|Kleinsee Airport|Kleinsee|South Africa|-29.6884|17.094|Africa/Johannesburg|2
+HLA|FALA|Lanseria Airport|Johannesburg|South Africa|-25.9385|27.9261|Africa/Johannesburg|2
+SDB|FALW|Langebaanweg Airport|Langebaanweg|South Africa|-32.9689|18.1603|Africa/Johannesburg|2
+LAY|FALY|Ladysmith Airport|Ladysmith|South Africa|-28.5817|29.7497|Africa/Johannesburg|2
+MGH|FAMG|Margate Airport|Margate|South Africa|-30.8574|30.343|Africa/Johannesburg|2
+LLE|FAMN|Riverside Airport|Malalane|South Africa|-25.43|31.5767|Africa/Johannesburg|2
+MZQ|FAMU|Mkuze Airport|Mkuze|South Africa|-27.6261|32.0443|Africa/Johannesburg|2
+NCS|FANC|Newcastle Airport|Newcastle|South Africa|-27.7706|29.9769|Africa/Johannesburg|2
+OVG|FAOB|Overberg Airport|Overberg|South Africa|-34.5549|20.2507|Africa/Johannesburg|2
+OUH|FAOH|Oudtshoorn Airport|Oudtshoorn|South Africa|-33.607|22.189|Africa/Johannesburg|2
+PLZ|FAPE|Port Elizabeth Airport|Port Elizabeth|South Africa|-33.9849|25.6173|Africa/Johannesburg|2
+PBZ|FAPG|Plettenberg Bay Airport|Plettenberg Bay|South Africa|-34.0882|23.3287|Africa/Johannesburg|2
+PHW|FAPH|Hendrik Van Eck Airport|Phalaborwa|South Africa|-23.9372|31.1554|Africa/Johannesburg|2
+JOH|FAPJ|Port St Johns Airport|Port Saint Johns|South Africa|-31.6059|29.5198|Africa/Johannesburg|2
+PZB|FAPM|Pietermaritzburg Airport|Pietermaritzburg|South Africa|-29.649|30.3987|Africa/Johannesburg|2
+NTY|FAPN|Pilanesberg International Airport|Pilanesberg|South Africa|-25.3338|27.1734|Africa/Johannesburg|2
+PTG|FAPP|Polokwane International Airport|Potgietersrus|South Africa|-23.8453|29.4586|Africa/Johannesburg|2
+PCF|FAPS|Potchefstroom Airport|Potchefstroom|South Africa|-26.671|27.0819|Africa/Johannesburg|2
+UTW|FAQT|Queenstown Airport|Queenstown|South Africa|-31.9202|26.8822|Africa/Johannesburg|2
+RCB|FARB|Richards Bay Airport|Richard's Bay|South Africa|-28.741|32.0921|Africa/Johannesburg|2
+ROD|FARS|Robertson Airport|Robertson|South Africa|-33.8122|19.9028|Africa/Johannesburg|2
+SBU|FASB|Springbok Airport|Springbok|South Africa|-29.6893|17.9396|Africa/Johannesburg|2
+ZEC|FASC|Secunda Airport|Secunda|South Africa|-26.5241|29.1701|Africa/Johannesburg|2
+SIS|FASS|Sishen Airport|Sishen|South Africa|-27.6486|22.9993|Africa/Johannesburg|2
+SZK|FASZ|Skukuza Airport|Skukuza|South Africa|-24.9609|31.5887|Africa/Johannesburg|2
+LTA|FATZ|Tzaneen Airport|Tzaneen|South Africa|-23.8244|30.3293|Africa/Johannesburg|2
+ULD|FAUL|Prince Mangosuthu Buthelezi Airport|Ulundi|South Africa|-28.3206|31.4165|Africa/Johannesburg|2
+UTN|FAUP|Pierre Van Ryneveld Airport|Upington|South Africa|-28.3991|21.2602|Africa/Johannesburg|2
+UTT|FAUT|K. D. Matanzima Airport|Umtata|South Africa|-31.5464|28.6734|Africa/Johannesburg|2
+VRU|FAVB|Vryburg Airport|Vryburg|South Africa|-26.9824|24.7288|Africa/Johannesburg|2
+VIR|FAVG|Virginia Airport|Durban|South Africa|-29.7706|31.0584|Africa/Johannesburg|2
+VRE|FAVR|Vredendal Airport|Vredendal|South Africa|-31.641|18.5448|Africa/Johannesburg|2
+PRY|FAWB|Wonderboom Airport|Pretoria|South Africa|-25.6539|28.2242|Africa/Johannesburg|2
+WKF|FAWK|Waterkloof Air Force Base|Waterkloof|South Africa|-25.83|28.2225|Africa/Johannesburg|2
+FRW|FBFT|Francistown Airport|Francistown|Botswana|-21.1596|27.4745|Africa/Gaborone|2
+JWA|FBJW|Jwaneng Airport|Jwaneng|Botswana|-24.6023|24.691|Africa/Gaborone|2
+BBK|FBKE|Kasane Airport|Kasane|Botswana|-17.8329|25.1624|Africa/Gaborone|2
+MUB|FBMN|Maun Airport|Maun|Botswana|-19.9726|23.4311|Africa/Gaborone|2
+GBE|FBSK|Sir Seretse Khama International Airport|Gaberone|Botswana|-24.5552|25.9182|Africa/Gaborone|2
+PKW|FBSP|Selebi Phikwe Airport|Selebi-phikwe|Botswana|-22.0583|27.8288|Africa/Gaborone|2
+BZV|FCBB|Maya-Maya Airport|Brazzaville|Congo (Brazzaville)|-4.2517|15.253|Africa/Brazzaville|1
+FTX|FCOO|Owando Airport|Owando|Congo (Kinshasa)|-0.5314|15.9501|Africa/Brazzaville|1
+OUE|FCOU|Ouesso Airport|Ouesso|Congo (Kinshasa)|1.616|16.0379|Africa/Brazzaville|1
+PNR|FCPP|Pointe Noire Airport|Pointe-noire|Congo (Brazzaville)|-4.816|11.8866|Africa/Brazzaville|1
+MTS|FDMS|Matsapha Airport|Manzini|Swaziland|-26.529|31.3075|Africa/Mbabane|2
+BGF|FEFF|Bangui M'Poko International Airport|Bangui|Central African Republic|4.3985|18.5188|Africa/Bangui|1
+BBT|FEFT|Berbérati Airport|Berberati|Central African Republic|4.2216|15.7864|Africa/Bangui|1
+BSG|FGBT|Bata Airport|Bata|Equatorial Guinea|1.9055|9.8057|Africa/Malabo|1
+SSG|FGSL|Malabo Airport|Malabo|Equatorial Guinea|3.7553|8.7087|Africa/Malabo|1
+ASI|FHAW|RAF Ascension Island|Wide Awake|Saint Helena|-7.9696|-14.3937|Atlantic/St_Helena|0
+MRU|FIMP|Sir Seewoosagur Ramgoolam International Airport|Plaisance|Mauritius|-20.4302|57.6836|Indian/Mauritius|4
+RRG|FIMR|Sir Charles Gaetan Duval Airport|Rodriguez Island|Mauritius|-19.7577|63.361|Indian/Mauritius|4
+NKW|FJDG|Diego Garcia Naval Support Facility|Diego Garcia Island|British Indian Ocean Territory|-7.3133|72.4111|Indian/Chagos|6
+TKC|FKKC|Tiko Airport|Tiko|Cameroon|4.0892|9.3605|Africa/Douala|1
+DLA|FKKD|Douala International Airport|Douala|Cameroon|4.0061|9.7195|Africa/Douala|1
+MVR|FKKL|Salak Airport|Maroua|Cameroon|10.4514|14.2574|Africa/Douala|1
+FOM|FKKM|Foumban Nkounja Airport|Foumban|Cameroon|5.6369|10.7508|Africa/Douala|1
+NGE|FKKN|N'Gaoundéré Airport|N'gaoundere|Cameroon|7.357|13.5592|Africa/Douala|1
+GOU|FKKR|Garoua International Airport|Garoua|Cameroon|9.3359|13.3701|Africa/Douala|1
+BFX|FKKU|Bafoussam Airport|Bafoussam|Cameroon|5.5369|10.3546|Africa/Douala|1
+BPC|FKKV|Bamenda Airport|Bamenda|Cameroon|6.0392|10.1226|Africa/Douala|1
+YAO|FKKY|Yaoundé Airport|Yaounde|Cameroon|3.836|11.5235|Africa/Douala|1
+CGJ|FLKE|Kasompe Airport|Kasompe|Zambia|-12.5728|27.8939|Africa/Lusaka|2
+LVI|FLLI|Livingstone Airport|Livingstone|Zambia|-17.8218|25.8227|Africa/Lusaka|2
+LUN|FLLS|Kenneth Kaunda International Airport Lusaka|Lusaka|Zambia|-15.3308|28.4526|Africa/Lusaka|2
+MFU|FLMF|Mfuwe Airport|Mfuwe|Zambia|-13.2589|31.9366|Africa/Lusaka|2
+MNR|FLMG|Mongu Airport|Mongu|Zambia|-15.2545|23.1623|Africa/Lusaka|2
+NLA|FLND|Simon Mwansa Kapwepwe International Airport|Ndola|Zambia|-12.9981|28.6649|Africa/Lusaka|2
+KIW|FLSO|Southdowns Airport|Southdowns|Zambia|-12.9005|28.1499|Africa/Lusaka|2
+HAH|FMCH|Prince Said Ibrahim International Airport|Moroni|Comoros|-11.5337|43.2719|Indian/Comoro|3
+NWA|FMCI|Mohéli Bandar Es Eslam Airport|Moheli|Comoros|-12.2981|43.7664|Indian/Comoro|3
+AJN|FMCV|Ouani Airport|Anjouan|Comoros|-12.1317|44.4303|Indian/Comoro|3
+DZA|FMCZ|Dzaoudzi Pamandzi International Airport|Dzaoudzi|Mayotte|-12.8047|45.2811|Indian/Mayotte|3
+RUN|FMEE|Roland Garros Airport|St.-denis|Reunion|-20.8871|55.5103|Indian/Reunion|4
+ZSE|FMEP|Pierrefonds Airport|St.-pierre|Reunion|-21.3209|55.425|Indian/Reunion|4
+TNR|FMMI|Ivato Airport|Antananarivo|Madagascar|-18.7969|47.4788|Indian/Antananarivo|3
+ZVA|FMMN|Miandrivazo Airport|Miandrivazo|Madagascar|-19.5628|45.4508|Indian/Antananarivo|3
+SMS|FMMS|Sainte Marie Airport|Sainte Marie|Madagascar|-17.0939|49.8158|Indian/Antananarivo|3
+TMM|FMMT|Toamasina Airport|Toamasina|Madagascar|-18.1095|49.3925|Indian/Antananarivo|3
+MOQ|FMMV|Morondava Airport|Morondava|Madagascar|-20.2847|44.3176|Indian/Antananarivo|3
+DIE|FMNA|Arrachart Airport|Antsiranana|Madagascar|-12.3494|49.2917|Indian/Antananarivo|3
+WMR|FMNC|Mananara Nord Airport|Mananara|Madagascar|-16.1639|49.7738|Indian/Antananarivo|3
+ZWA|FMND|Andapa Airport|Andapa|Madagascar|-14.6517|49.6206|Indian/Antananarivo|3
+AMB|FMNE|Ambilobe Airport|Ambilobe|Madagascar|-13.1884|48.988|Indian/Antananarivo|3
+ANM|FMNH|Antsirabato Airport|Antalaha|Madagascar|-14.9994|50.3202|Indian/Antananarivo|3
+HVA|FMNL|Analalava Airport|Analalava|Madagascar|-14.6297|47.7638|Indian/Antananarivo|3
+MJN|FMNM|Amborovy Airport|Mahajanga|Madagascar|-15.6668|46.3512|Indian/Antananarivo|3
+NOS|FMNN|Fascene Airport|Nosy-be|Madagascar|-13.3121|48.3148|Indian/Antananarivo|3
+BPY|FMNQ|Besalampy Airport|Besalampy|Madagascar|-16.7445|44.4825|Indian/Antananarivo|3
+WMN|FMNR|Maroantsetra Airport|Maroantsetra|Madagascar|-15.4367|49.6883|Indian/Antananarivo|3
+SVB|FMNS|Sambava Airport|Sambava|Madagascar|-14.2786|50.1747|Indian/Antananarivo|3
+VOH|FMNV|Vohimarina Airport|Vohemar|Madagascar|-13.3758|50.0028|Indian/Antananarivo|3
+WAI|FMNW|Ambalabe Airport|Antsohihy|Madagascar|-14.8988|47.9939|Indian/Antananarivo|3
+IVA|FMNZ|Ampampamena Airport|Ampampamena|Madagascar|-13.4848|48.6327|Indian/Antananarivo|3
+FTU|FMSD|Tôlanaro Airport|Tolagnaro|Madagascar|-25.0381|46.9561|Indian/Antananarivo|3
+WFI|FMSF|Fianarantsoa Airport|Fianarantsoa|Madagascar|-21.4416|47.1117|Indian/Antananarivo|3
+RVA|FMSG|Farafangana Airport|Farafangana|Madagascar|-22.8053|47.8206|Indian/Antananarivo|3
+WVK|FMSK|Manakara Airport|Manakara|Madagascar|-22.1197|48.0217|Indian/Antananarivo|3
+MNJ|FMSM|Mananjary Airport|Mananjary|Madagascar|-21.2018|48.3583|Indian/Antananarivo|3
+MXM|FMSR|Morombe Airport|Morombe|Madagascar|-21.7539|43.3755|Indian/Antananarivo|3
+TLE|FMST|Toliara Airport|Toliara|Madagascar|-23.3834|43.7285|Indian/Antananarivo|3
+SSY|FNBC|Mbanza Congo Airport|M'banza-congo|Angola|-6.2699|14.247|Africa/Luanda|1
+BUG|FNBG|Benguela Airport|Benguela|Angola|-12.609|13.4037|Africa/Luanda|1
+CAB|FNCA|Cabinda Airport|Cabinda|Angola|-5.597|12.1884|Africa/Luanda|1
+NOV|FNHU|Nova Lisboa Airport|Huambo|Angola|-12.8089|15.7605|Africa/Luanda|1
+SVP|FNKU|Kuito Airport|Kuito|Angola|-12.4046|16.9474|Africa/Luanda|1
+LAD|FNLU|Quatro de Fevereiro Airport|Luanda|Angola|-8.8584|13.2312|Africa/Luanda|1
+MEG|FNMA|Malanje Airport|Malanje|Angola|-9.5251|16.3124|Africa/Luanda|1
+SPP|FNME|Menongue Airport|Menongue|Angola|-14.6576|17.7198|Africa/Luanda|1
+GXG|FNNG|Negage Airport|Negage|Angola|-7.7545|15.2877|Africa/Luanda|1
+PBN|FNPA|Porto Amboim Airport|Porto Amboim|Angola|-10.722|13.7655|Africa/Luanda|1
+VHC|FNSA|Saurimo Airport|Saurimo|Angola|-9.6891|20.4319|Africa/Luanda|1
+SZA|FNSO|Soyo Airport|Soyo|Angola|-6.1411|12.3718|Africa/Luanda|1
+SDD|FNUB|Lubango Airport|Lubango|Angola|-14.9247|13.575|Africa/Luanda|1
+LUO|FNUE|Luena Airport|Luena|Angola|-11.7681|19.8977|Africa/Luanda|1
+UGO|FNUG|Uige Airport|Uige|Angola|-7.6031|15.0278|Africa/Luanda|1
+XGN|FNXA|Xangongo Airport|Xangongo|Angola|-16.7554|14.9653|Africa/Luanda|1
+OYE|FOGO|Oyem Airport|Oyem|Gabon|1.5431|11.5814|Africa/Libreville|1
+OKN|FOGQ|Okondja Airport|Okondja|Gabon|-0.6652|13.6731|Africa/Libreville|1
+LBQ|FOGR|Lambarene Airport|Lambarene|Gabon|-0.7044|10.2457|Africa/Libreville|1
+BMM|FOOB|Bitam Airport|Bitam|Gabon|2.0756|11.4932|Africa/Libreville|1
+POG|FOOG|Port Gentil Airport|Port Gentil|Gabon|-0.7117|8.7544|Africa/Libreville|1
+OMB|FOOH|Omboue Hopital Airport|Omboue Hospial|Gabon|-1.5747|9.2627|Africa/Libreville|1
+MKU|FOOK|Makokou Airport|Makokou|Gabon|0.5792|12.8909|Africa/Libreville|1
+LBV|FOOL|Libreville Leon M'ba International Airport|Libreville|Gabon|0.4586|9.4123|Africa/Libreville|1
+MVB|FOON|M'Vengue El Hadj Omar Bongo Ondimba International Airport|Franceville|Gabon|-1.6562|13.438|Africa/Libreville|1
+PCP|FPPR|Principe Airport|Principe|Sao Tome and Principe|1.6629|7.4117|Africa/Sao_Tome|0
+TMS|FPST|São Tomé International Airport|Sao Tome|Sao Tome and Principe|0.3782|6.7122|Africa/Sao_Tome|0
+BEW|FQBR|Beira Airport|Beira|Mozambique|-19.7964|34.9076|Africa/Maputo|2
+INH|FQIN|Inhambane Airport|Inhambane|Mozambique|-23.8764|35.4085|Africa/Maputo|2
+VXC|FQLC|Lichinga Airport|Lichinga|Mozambique|-13.274|35.2663|Africa/Maputo|2
+LFB|FQLU|Lumbo Airport|Lumbo|Mozambique|-15.0331|40.6717|Africa/Maputo|2
+MPM|FQMA|Maputo Airport|Maputo|Mozambique|-25.9208|32.5726|Africa/Maputo|2
+MUD|FQMD|Mueda Airport|Mueda|Mozambique|-11.6729|39.5631|Africa/Maputo|2
+MZB|FQMP|Mocímboa da Praia Airport|Mocimboa Da Praia|Mozambique|-11.3618|40.3549|Africa/Maputo|2
+MNC|FQNC|Nacala Airport|Nacala|Mozambique|-14.4882|40.7122|Africa/Maputo|2
+APL|FQNP|Nampula Airport|Nampula|Mozambique|-15.1056|39.2818|Africa/Maputo|2
+POL|FQPB|Pemba Airport|Pemba|Mozambique|-12.9918|40.524|Africa/Maputo|2
+UEL|FQQL|Quelimane Airport|Quelimane|Mozambique|-17.8555|36.8691|Africa/Maputo|2
+TET|FQTT|Chingozi Airport|Tete|Mozambique|-16.1048|33.6402|Africa/Maputo|2
+VNX|FQVL|Vilankulo Airport|Vilankulu|Mozambique|-22.0184|35.3133|Africa/Maputo|2
+DES|FSDR|Desroches Airport|Desroches|Seychelles|-5.6967|53.6558|Indian/Mahe|4
+SEZ|FSIA|Seychelles International Airport|Mahe|Seychelles|-4.6743|55.5218|Indian/Mahe|4
+PRI|FSPP|Praslin Airport|Praslin|Seychelles|-4.3193|55.6914|Indian/Mahe|4
+AEH|FTTC|Abeche Airport|Abeche|Chad|13.847|20.8443|Africa/Ndjamena|1
+MQQ|FTTD|Moundou Airport|Moundou|Chad|8.6244|16.0714|Africa/Ndjamena|1
+NDJ|FTTJ|N'Djamena International Airport|N'djamena|Chad|12.1337|15.034|Africa/Ndjamena|1
+FYT|FTTY|Faya Largeau Airport|Faya-largeau|Chad|17.9171|19.1111|Africa/Ndjamena|1
+BUQ|FVBU|Joshua Mqabuko Nkomo International Airport|Bulawayo|Zimbabwe|-20.0174|28.6179|Africa/Harare|2
+BFO|FVCZ|Buffalo Range Airport|Chiredzi|Zimbabwe|-21.0081|31.5786|Africa/Harare|2
+VFA|FVFA|Victoria Falls International Airport|Victoria Falls|Zimbabwe|-18.0959|25.839|Africa/Harare|2
+HRE|FVHA|Robert Gabriel Mugabe International Airport|Harare|Zimbabwe|-17.9318|31.0928|Africa/Harare|2
+KAB|FVKB|Kariba International Airport|Kariba|Zimbabwe|-16.5198|28.885|Africa/Harare|2
+UTA|FVMU|Mutare Airport|Mutare|Zimbabwe|-18.9975|32.6272|Africa/Harare|2
+MVZ|FVMV|Masvingo International Airport|Masvingo|Zimbabwe|-20.0553|30.8591|Africa/Harare|2
+GWE|FVTL|Thornhill Air Base|Gwert|Zimbabwe|-19.4364|29.8619|Africa/Harare|2
+HWN|FVWN|Hwange National Park Airport|Hwange National Park|Zimbabwe|-18.6299|27.021|Africa/Harare|2
+BLZ|FWCL|Chileka International Airport|Blantyre|Malawi|-15.6791|34.974|Africa/Blantyre|2
+KGJ|FWKA|Karonga Airport|Karonga|Malawi|-9.9536|33.893|Africa/Blantyre|2
+KBQ|FWKG|Kasungu Airport|Kasungu|Malawi|-13.0146|33.4686|Africa/Blantyre|2
+LLW|FWKI|Lilongwe International Airport|Lilongwe|Malawi|-13.7894|33.781|Africa/Blantyre|2
+ZZU|FWUU|Mzuzu Airport|Mzuzu|Malawi|-11.4447|34.0118|Africa/Blantyre|2
+MSU|FXMM|Moshoeshoe I International Airport|Maseru|Lesotho|-29.4623|27.5525|Africa/Maseru|2
+FIH|FZAA|Ndjili International Airport|Kinshasa|Congo (Kinshasa)|-4.3857|15.4446|Africa/Kinshasa|1
+NLO|FZAB|Ndolo Airport|Kinshasa|Congo (Kinshasa)|-4.3267|15.3275|Africa/Kinshasa|1
+MNB|FZAG|Muanda Airport|Muanda|Congo (Kinshasa)|-5.9309|12.3518|Africa/Kinshasa|1
+FDU|FZBO|Bandundu Airport|Bandoundu|Congo (Kinshasa)|-3.3113|17.3817|Africa/Kinshasa|1
+KKW|FZCA|Kikwit Airport|Kikwit|Congo (Kinshasa)|-5.0358|18.7856|Africa/Kinshasa|1
+MDK|FZEA|Mbandaka Airport|Mbandaka|Congo (Kinshasa)|0.0226|18.2887|Africa/Kinshasa|1
+BDT|FZFD|Gbadolite Airport|Gbadolite|Congo (Kinshasa)|4.2532|20.9753|Africa/Kinshasa|1
+GMA|FZFK|Gemena Airport|Gemena|Congo (Kinshasa)|3.2354|19.7713|Africa/Kinshasa|1
+KLI|FZFP|Kotakoli Airport|Kotakoli|Congo (Kinshasa)|4.1576|21.6509|Africa/Kinshasa|1
+LIQ|FZGA|Lisala Airport|Lisala|Congo (Kinshasa)|2.1707|21.4969|Africa/Kinshasa|1
+FKI|FZIC|Bangoka International Airport|Kisangani|Congo (Kinshasa)|0.4816|25.338|Africa/Lubumbashi|2
+IRP|FZJH|Matari Airport|Isiro|Congo (Kinshasa)|2.8276|27.5883|Africa/Lubumbashi|2
+BUX|FZKA|Bunia Airport|Bunia|Congo (Kinshasa)|1.5657|30.2208|Africa/Lubumbashi|2
+BZU|FZKJ|Buta Zega Airport|Buta Zega|Congo (Kinshasa)|2.8184|24.7937|Africa/Lubumbashi|2
+BKY|FZMA|Bukavu Kavumu Airport|Bukavu/kavumu|Congo (Kinshasa)|-2.309|28.8088|Africa/Lubumbashi|2
+GOM|FZNA|Goma International Airport|Goma|Congo (Kinshasa)|-1.6708|29.2385|Africa/Kigali|2
+KND|FZOA|Kindu Airport|Kindu|Congo (Kinshasa)|-2.9192|25.9154|Africa/Lubumbashi|2
+FBM|FZQA|Lubumbashi International Airport|Lubumashi|Congo (Kinshasa)|-11.5913|27.5309|Africa/Lubumbashi|2
+KWZ|FZQM|Kolwezi Airport|Kolwezi|Congo (Kinshasa)|-10.7659|25.5057|Africa/Lubumbashi|2
+FMI|FZRF|Kalemie Airport|Kalemie|Congo (Kinshasa)|-5.8756|29.25|Africa/Lubumbashi|2
+KMN|FZSA|Kamina Base Airport|Kamina Base|Congo (Kinshasa)|-8.642|25.2529|Africa/Lubumbashi|2
+KGA|FZUA|Kananga Airport|Kananga|Congo (Kinshasa)|-5.9001|22.4692|Africa/Lubumbashi|2
+MJM|FZWA|Mbuji Mayi Airport|Mbuji-mayi|Congo (Kinshasa)|-6.1212|23.569|Africa/Lubumbashi|2
+BKO|GABS|Modibo Keita International Airport|Bamako|Mali|12.5335|-7.9499|Africa/Bamako|0
+GAQ|GAGO|Gao Airport|Gao|Mali|16.2484|-0.0055|Africa/Bamako|0
+KYS|GAKY|Kayes Dag Dag Airport|Kayes|Mali|14.4812|-11.4044|Africa/Bamako|0
+MZI|GAMB|Mopti Airport|Mopti|Mali|14.5128|-4.0796|Africa/Bamako|0
+TOM|GATB|Timbuktu Airport|Tombouctou|Mali|16.7305|-3.0076|Africa/Bamako|0
+BJL|GBYD|Banjul International Airport|Banjul|Gambia|13.338|-16.6522|Africa/Banjul|0
+FUE|GCFV|Fuerteventura Airport|Fuerteventura|Spain|28.4527|-13.8638|Atlantic/Canary|0
+VDE|GCHI|Hierro Airport|Hierro|Spain|27.8148|-17.8871|Atlantic/Canary|0
+SPC|GCLA|La Palma Airport|Santa Cruz De La Palma|Spain|28.6265|-17.7556|Atlantic/Canary|0
+LPA|GCLP|Gran Canaria Airport|Gran Canaria|Spain|27.9319|-15.3866|Atlantic/Canary|0
+ACE|GCRR|Lanzarote Airport|Arrecife|Spain|28.9455|-13.6052|Atlantic/Canary|0
+TFS|GCTS|Tenerife South Airport|Tenerife|Spain|28.0445|-16.5725|Atlantic/Canary|0
+TFN|GCXO|Tenerife Norte Airport|Tenerife|Spain|28.4827|-16.3415|Atlantic/Canary|0
+MLN|GEML|Melilla Airport|Melilla|Spain|35.2798|-2.9563|Europe/Madrid|1
+FNA|GFLL|Lungi International Airport|Freetown|Sierra Leone|8.6164|-13.1955|Africa/Freetown|0
+MLW|GLMR|Spriggs Payne Airport|Monrovia|Liberia|6.2891|-10.7587|Africa/Monrovia|0
+ROB|GLRB|Roberts International Airport|Monrovia|Liberia|6.2338|-10.3623|Africa/Monrovia|0
+AGA|GMAD|Al Massira Airport|Agadir|Morocco|30.325|-9.4131|Africa/Casablanca|0
+TTA|GMAT|Tan Tan Airport|Tan Tan|Morocco|28.4482|-11.1613|Africa/Casablanca|0
+FEZ|GMFF|Saïss Airport|Fes|Morocco|33.9273|-4.978|Africa/Casablanca|0
+ERH|GMFK|Moulay Ali Cherif Airport|Er-rachidia|Morocco|31.9475|-4.3983|Africa/Casablanca|0
+MEK|GMFM|Bassatine Airport|Meknes|Morocco|33.8791|-5.5151|Africa/Casablanca|0
+OUD|GMFO|Angads Airport|Oujda|Morocco|34.7872|-1.924|Africa/Casablanca|0
+GMD|GMMB|Ben Slimane Airport|Ben Slimane|Morocco|33.6554|-7.2214|Africa/Casablanca|0
+RBA|GMME|Rabat-Salé Airport|Rabat|Morocco|34.0515|-6.7515|Africa/Casablanca|0
+CMN|GMMN|Mohammed V International Airport|Casablanca|Morocco|33.3675|-7.59|Africa/Casablanca|0
+RAK|GMMX|Menara Airport|Marrakech|Morocco|31.6069|-8.0363|Africa/Casablanca|0
+NNA|GMMY|Kenitra Airport|Kentira|Morocco|34.2989|-6.5959|Africa/Casablanca|0
+OZZ|GMMZ|Ouarzazate Airport|Ouarzazate|Morocco|30.9391|-6.9094|Africa/Casablanca|0
+AHU|GMTA|Cherif Al Idrissi Airport|Al Hociema|Morocco|35.1771|-3.8395|Africa/Casablanca|0
+TTU|GMTN|Saniat R'mel Airport|Tetouan|Morocco|35.5943|-5.32|Africa/Casablanca|0
+TNG|GMTT|Ibn Batouta Airport|Tanger|Morocco|35.7269|-5.9169|Africa/Casablanca|0
+ZIG|GOGG|Ziguinchor Airport|Ziguinchor|Senegal|12.5556|-16.2818|Africa/Dakar|0
+CSK|GOGS|Cap Skirring Airport|Cap Skiring|Senegal|12.3953|-16.748|Africa/Dakar|0
+KLC|GOOK|Kaolack Airport|Kaolack|Senegal|14.1469|-16.0513|Africa/Dakar|0
+DKR|GOOY|Léopold Sédar Senghor International Airport|Dakar|Senegal|14.7397|-17.4902|Africa/Dakar|0
+XLS|GOSS|Saint Louis Airport|St. Louis|Senegal|16.0508|-16.4632|Africa/Dakar|0
+BXE|GOTB|Bakel Airport|Bakel|Senegal|14.8473|-12.4683|Africa/Dakar|0
+KGG|GOTK|Kédougou Airport|Kedougou|Senegal|12.5723|-12.2203|Africa/Dakar|0
+TUD|GOTT|Tambacounda Airport|Tambacounda|Senegal|13.7368|-13.6531|Africa/Dakar|0
+AEO|GQNA|Aioun el Atrouss Airport|Aioun El Atrouss|Mauritania|16.7113|-9.6379|Africa/Nouakchott|0
+TIY|GQND|Tidjikja Airport|Tidjikja|Mauritania|18.5701|-11.4235|Africa/Nouakchott|0
+KFA|GQNF|Kiffa Airport|Kiffa|Mauritania|16.59|-11.4062|Africa/Nouakchott|0
+EMN|GQNI|Néma Airport|Nema|Mauritania|16.622|-7.3166|Africa/Nouakchott|0
+KED|GQNK|Kaédi Airport|Kaedi|Mauritania|16.1595|-13.5076|Africa/Nouakchott|0
+NKC|GQNO|Nouakchott–Oumtounsy International Airport|Nouakschott|Mauritania|18.31|-15.9697|Africa/Nouakchott|0
+SEY|GQNS|Sélibaby Airport|Selibabi|Mauritania|15.1797|-12.2073|Africa/Nouakchott|0
+ATR|GQPA|Atar International Airport|Atar|Mauritania|20.5068|-13.0432|Africa/Nouakchott|0
+NDB|GQPP|Nouadhibou International Airport|Nouadhibou|Mauritania|20.9331|-17.03|Africa/Nouakchott|0
+FIG|GUFA|Fria Airport|Fira|Guinea|10.3506|-13.5692|Africa/Conakry|0
+FAA|GUFH|Faranah Airport|Faranah|Guinea|10.0355|-10.7698|Africa/Conakry|0
+LEK|GULB|Tata Airport|Labe|Guinea|11.3261|-12.2868|Africa/Conakry|0
+SID|GVAC|Amílcar Cabral International Airport|Amilcar Cabral|Cape Verde|16.7414|-22.9494|Atlantic/Cape_Verde|-1
+BVC|GVBA|Rabil Airport|Boa Vista|Cape Verde|16.1365|-22.8889|Atlantic/Cape_Verde|-1
+MMO|GVMA|Maio Airport|Maio|Cape Verde|15.1559|-23.2137|Atlantic/Cape_Verde|-1
+SNE|GVSN|Preguiça Airport|Sao Nocolau Island|Cape Verde|16.5884|-24.2847|Atlantic/Cape_Verde|-1
+VXE|GVSV|São Pedro Airport|Sao Vicente Island|Cape Verde|16.8332|-25.0553|Atlantic/Cape_Verde|-1
+ADD|HAAB|Addis Ababa Bole International Airport|Addis Ababa|Ethiopia|8.9779|38.7993|Africa/Addis_Ababa|3
+AMH|HAAM|Arba Minch Airport|Arba Minch|Ethiopia|6.0394|37.5905|Africa/Addis_Ababa|3
+AXU|HAAX|Axum Airport|Axum|Ethiopia|14.1468|38.7728|Africa/Addis_Ababa|3
+BJR|HABD|Bahir Dar Airport|Bahar Dar|Ethiopia|11.6081|37.3216|Africa/Addis_Ababa|3
+DIR|HADR|Aba Tenna Dejazmach Yilma International Airport|Dire Dawa|Ethiopia|9.6247|41.8542|Africa/Addis_Ababa|3
+GMB|HAGM|Gambella Airport|Gambella|Ethiopia|8.1288|34.5631|Africa/Addis_Ababa|3
+GDQ|HAGN|Gonder Airport|Gondar|Ethiopia|12.5199|37.434|Africa/Addis_Ababa|3
+JIM|HAJM|Jimma Airport|Jimma|Ethiopia|7.6661|36.8166|Africa/Addis_Ababa|3
+LLI|HALL|Lalibella Airport|Lalibella|Ethiopia|11.975|38.98|Africa/Addis_Ababa|3
+MQX|HAMK|Mekele Airport|Makale|Ethiopia|13.4674|39.5335|Africa/Addis_Ababa|3
+ASO|HASO|Asosa Airport|Asosa|Ethiopia|10.0185|34.5863|Africa/Addis_Ababa|3
+BJM|HBBA|Bujumbura International Airport|Bujumbura|Burundi|-3.324|29.3185|Africa/Bujumbura|2
+HGA|HCMH|Egal International Airport|Hargeisa|Somalia|9.5182|44.0888|Africa/Mogadishu|3
+BBO|HCMI|Berbera Airport|Berbera|Somalia|10.3892|44.9411|Africa/Mogadishu|3
+KMU|HCMK|Kisimayu Airport|Kismayu|Somalia|-0.3774|42.4592|Africa/Mogadishu|3
+ALY|HEAX|El Nouzha Airport|Alexandria|Egypt|31.1839|29.9489|Africa/Cairo|2
+ABS|HEBL|Abu Simbel Airport|Abu Simbel|Egypt|22.376|31.6117|Africa/Cairo|2
+CAI|HECA|Cairo International Airport|Cairo|Egypt|30.1219|31.4056|Africa/Cairo|2
+CWE|HECW|Cairo West Airport|Cairo|Egypt|30.1164|30.9154|Africa/Cairo|2
+HRG|HEGN|Hurghada International Airport|Hurghada|Egypt|27.1783|33.7994|Africa/Cairo|2
+EGH|HEGR|El Gora Airport|El Gorah|Egypt|31.0686|34.1296|Africa/Cairo|2
+LXR|HELX|Luxor International Airport|Luxor|Egypt|25.671|32.7066|Africa/Cairo|2
+MUH|HEMM|Mersa Matruh Airport|Mersa-matruh|Egypt|31.3254|27.2217|Africa/Cairo|2
+PSD|HEPS|Port Said Airport|Port Said|Egypt|31.2794|32.24|Africa/Cairo|2
+SKV|HESC|St Catherine International Airport|St. Catherine|Egypt|28.6853|34.0625|Africa/Cairo|2
+ASW|HESN|Aswan International Airport|Aswan|Egypt|23.9644|32.82|Africa/Cairo|2
+ELT|HETR|El Tor Airport|El-tor|Egypt|28.209|33.6455|Africa/Cairo|2
+EDL|HKEL|Eldoret International Airport|Eldoret|Kenya|0.4045|35.2389|Africa/Nairobi|3
+GGM|HKKG|Kakamega Airport|Kakamega|Kenya|0.2713|34.7873|Africa/Nairobi|3
+KIS|HKKI|Kisumu Airport|Kisumu|Kenya|-0.0861|34.7289|Africa/Nairobi|3
+KTL|HKKT|Kitale Airport|Kitale|Kenya|0.972|34.9586|Africa/Nairobi|3
+LOK|HKLO|Lodwar Airport|Lodwar|Kenya|3.122|35.6087|Africa/Nairobi|3
+LAU|HKLU|Manda Airstrip|Lamu|Kenya|-2.2524|40.9131|Africa/Nairobi|3
+MBA|HKMO|Mombasa Moi International Airport|Mombasa|Kenya|-4.0348|39.5942|Africa/Nairobi|3
+WIL|HKNW|Nairobi Wilson Airport|Nairobi|Kenya|-1.3217|36.8148|Africa/Nairobi|3
+WJR|HKWJ|Wajir Airport|Wajir|Kenya|1.7332|40.0916|Africa/Nairobi|3
+GHT|HLGT|Ghat Airport|Ghat|Libya|25.1456|10.1426|Africa/Tripoli|2
+AKF|HLKF|Kufra Airport|Kufra|Libya|24.1787|23.314|Africa/Tripoli|2
+BEN|HLLB|Benina International Airport|Benghazi|Libya|32.0968|20.2695|Africa/Tripoli|2
+SEB|HLLS|Sabha Airport|Sebha|Libya|26.987|14.4725|Africa/Tripoli|2
+TIP|HLLT|Tripoli International Airport|Tripoli|Libya|32.6635|13.159|Africa/Tripoli|2
+LMQ|HLMB|Marsa Brega Airport|Marsa Brega|Libya|30.3781|19.5764|Africa/Tripoli|2
+HUQ|HLON|Hon Airport|Hon|Libya|29.1101|15.9656|Africa/Tripoli|2
+LTD|HLTD|Ghadames East Airport|Ghadames|Libya|30.1517|9.7153|Africa/Tripoli|2
+GYI|HRYG|Gisenyi Airport|Gisenyi|Rwanda|-1.6772|29.2589|Africa/Kigali|2
+KGL|HRYR|Kigali International Airport|Kigali|Rwanda|-1.9686|30.1395|Africa/Kigali|2
+KME|HRZA|Kamembe Airport|Kamembe|Rwanda|-2.4622|28.9079|Africa/Kigali|2
+DOG|HSDN|Dongola Airport|Dongola|Sudan|19.1539|30.4301|Africa/Khartoum|3
+RSS|HSDZ|Damazin Airport|Damazin|Sudan|11.7859|34.3367|Africa/Khartoum|3
+ELF|HSFS|El Fasher Airport|El Fasher|Sudan|13.6149|25.3246|Africa/Khartoum|3
+KSL|HSKA|Kassala Airport|Kassala|Sudan|15.3875|36.3288|Africa/Khartoum|3
+KDX|HSLI|Kadugli Airport|Kadugli|Sudan|11.138|29.7011|Africa/Khartoum|3
+EBD|HSOB|El Obeid Airport|El Obeid|Sudan|13.1532|30.2327|Africa/Khartoum|3
+JUB|HSSJ|Juba International Airport|Juba|South Sudan|4.872|31.6011|Africa/Juba|3
+MAK|HSSM|Malakal Airport|Malakal|Sudan|9.559|31.6522|Africa/Juba|3
+KRT|HSSS|Khartoum International Airport|Khartoum|Sudan|15.5895|32.5532|Africa/Khartoum|3
+ARK|HTAR|Arusha Airport|Arusha|Tanzania|-3.3678|36.6333|Africa/Dar_es_Salaam|3
+DAR|HTDA|Julius Nyerere International Airport|Dar Es Salaam|Tanzania|-6.8781|39.2026|Africa/Dar_es_Salaam|3
+DOD|HTDO|Dodoma Airport|Dodoma|Tanzania|-6.1704|35.7526|Africa/Dar_es_Salaam|3
+IRI|HTIR|Iringa Airport|Iringa|Tanzania|-7.6686|35.7521|Africa/Dar_es_Salaam|3
+JRO|HTKJ|Kilimanjaro International Airport|Kilimanjaro|Tanzania|-3.4294|37.0745|Africa/Dar_es_Salaam|3
+LKY|HTLM|Lake Manyara Airport|Lake Manyara|Tanzania|-3.3763|35.8183|Africa/Dar_es_Salaam|3
+MYW|HTMT|Mtwara Airport|Mtwara|Tanzania|-10.3391|40.1818|Africa/Dar_es_Salaam|3
+MWZ|HTMW|Mwanza Airport|Mwanza|Tanzania|-2.4445|32.9327|Africa/Dar_es_Salaam|3
+PMA|HTPE|Pemba Airport|Pemba|Tanzania|-5.2573|39.8114|Africa/Dar_es_Salaam|3
+TGT|HTTG|Tanga Airport|Tanga|Tanzania|-5.0924|39.0712|Africa/Dar_es_Salaam|3
+ZNZ|HTZA|Abeid Amani Karume International Airport|Zanzibar|Tanzania|-6.222|39.2249|Africa/Dar_es_Salaam|3
+EBB|HUEN|Entebbe International Airport|Entebbe|Uganda|0.0424|32.4435|Africa/Kampala|3
+SRT|HUSO|Soroti Airport|Soroti|Uganda|1.7277|33.6228|Africa/Kampala|3
+TIA|LATI|Tirana International Airport Mother Teresa|Tirana|Albania|41.4147|19.7206|Europe/Tirane|1
+BOJ|LBBG|Burgas Airport|Bourgas|Bulgaria|42.5696|27.5152|Europe/Sofia|2
+GOZ|LBGO|Gorna Oryahovitsa Airport|Gorna Orechovica|Bulgaria|43.1514|25.7129|Europe/Sofia|2
+PDV|LBPD|Plovdiv International Airport|Plovdiv|Bulgaria|42.0678|24.8508|Europe/Sofia|2
+SOF|LBSF|Sofia Airport|Sofia|Bulgaria|42.6967|23.4114|Europe/Sofia|2
+SZR|LBSZ|Stara Zagora Airport|Stara Zagora|Bulgaria|42.3767|25.655|Europe/Sofia|2
+VAR|LBWN|Varna Airport|Varna|Bulgaria|43.2321|27.8251|Europe/Sofia|2
+LCA|LCLK|Larnaca International Airport|Larnaca|Cyprus|34.8751|33.6249|Asia/Nicosia|2
+PFO|LCPH|Paphos International Airport|Paphos|Cyprus|34.718|32.4857|Asia/Nicosia|2
+AKT|LCRA|RAF Akrotiri|Akrotiri|Cyprus|34.5904|32.9879|Europe/London|0
+DBV|LDDU|Dubrovnik Airport|Dubrovnik|Croatia|42.5614|18.2682|Europe/Zagreb|1
+OSI|LDOS|Osijek Airport|Osijek|Croatia|45.4627|18.8102|Europe/Zagreb|1
+PUY|LDPL|Pula Airport|Pula|Croatia|44.8935|13.9222|Europe/Zagreb|1
+RJK|LDRI|Rijeka Airport|Rijeka|Croatia|45.2169|14.5703|Europe/Zagreb|1
+SPU|LDSP|Split Airport|Split|Croatia|43.5389|16.298|Europe/Zagreb|1
+ZAG|LDZA|Zagreb Airport|Zagreb|Croatia|45.7429|16.0688|Europe/Zagreb|1
+ZAD|LDZD|Zadar Airport|Zadar|Croatia|44.1083|15.3467|Europe/Zagreb|1
+ABC|LEAB|Albacete-Los Llanos Airport|Albacete|Spain|38.9485|-1.8635|Europe/Madrid|1
+ALC|LEAL|Alicante International Airport|Alicante|Spain|38.2822|-0.5582|Europe/Madrid|1
+LEI|LEAM|Almería International Airport|Almeria|Spain|36.8439|-2.3701|Europe/Madrid|1
+OVD|LEAS|Asturias Airport|Aviles|Spain|43.5636|-6.0346|Europe/Madrid|1
+ODB|LEBA|Córdoba Airport|Cordoba|Spain|37.842|-4.8489|Europe/Madrid|1
+BIO|LEBB|Bilbao Airport|Bilbao|Spain|43.3011|-2.9106|Europe/Madrid|1
+BCN|LEBL|Barcelona International Airport|Barcelona|Spain|41.2971|2.0785|Europe/Madrid|1
+BJZ|LEBZ|Badajoz Airport|Badajoz|Spain|38.8913|-6.8213|Europe/Madrid|1
+LCG|LECO|A Coruña Airport|La Coruna|Spain|43.3021|-8.3773|Europe/Madrid|1
+GRO|LEGE|Girona Airport|Gerona|Spain|41.901|2.7606|Europe/Madrid|1
+GRX|LEGR|Federico Garcia Lorca Airport|Granada|Spain|37.1887|-3.7774|Europe/Madrid|1
+IBZ|LEIB|Ibiza Airport|Ibiza|Spain|38.8729|1.3731|Europe/Madrid|1
+XRY|LEJR|Jerez Airport|Jerez|Spain|36.7446|-6.0601|Europe/Madrid|1
+MJV|LELC|San Javier Airport|Murcia|Spain|37.775|-0.8124|Europe/Madrid|1
+MAD|LEMD|Adolfo Suárez Madrid–Barajas Airport|Madrid|Spain|40.4719|-3.5626|Europe/Madrid|1
+AGP|LEMG|Málaga Airport|Malaga|Spain|36.6749|-4.4991|Europe/Madrid|1
+MAH|LEMH|Menorca Airport|Menorca|Spain|39.8626|4.2186|Europe/Madrid|1
+OZP|LEMO|Moron Air Base|Sevilla|Spain|37.1749|-5.6159|Europe/Madrid|1
+PNA|LEPP|Pamplona Airport|Pamplona|Spain|42.77|-1.6463|Europe/Madrid|1
+REU|LERS|Reus Air Base|Reus|Spain|41.1474|1.1672|Europe/Madrid|1
+ROZ|LERT|Rota Naval Station Airport|Rota|Spain|36.6452|-6.3495|Europe/Madrid|1
+SLM|LESA|Salamanca Airport|Salamanca|Spain|40.9521|-5.502|Europe/Madrid|1
+EAS|LESO|San Sebastian Airport|San Sebastian|Spain|43.3565|-1.7906|Europe/Madrid|1
+SCQ|LEST|Santiago de Compostela Airport|Santiago|Spain|42.8963|-8.4151|Europe/Madrid|1
+LEU|LESU|Pirineus - la Seu d'Urgel Airport|Seo De Urgel|Spain|42.3386|1.4092|Europe/Madrid|1
+TOJ|LETO|Torrejón Airport|Madrid|Spain|40.4967|-3.4459|Europe/Madrid|1
+VLC|LEVC|Valencia Airport|Valencia|Spain|39.4893|-0.4816|Europe/Madrid|1
+VLL|LEVD|Valladolid Airport|Valladolid|Spain|41.7061|-4.8519|Europe/Madrid|1
+VIT|LEVT|Vitoria/Foronda Airport|Vitoria|Spain|42.8828|-2.7245|Europe/Madrid|1
+VGO|LEVX|Vigo Airport|Vigo|Spain|42.2318|-8.6268|Europe/Madrid|1
+SDR|LEXJ|Santander Airport|Santander|Spain|43.4271|-3.82|Europe/Madrid|1
+ZAZ|LEZG|Zaragoza Air Base|Zaragoza|Spain|41.6662|-1.0416|Europe/Madrid|1
+SVQ|LEZL|Sevilla Airport|Sevilla|Spain|37.418|-5.8931|Europe/Madrid|1
+CQF|LFAC|Calais-Dunkerque Airport|Calais|France|50.9621|1.9548|Europe/Paris|1
+BYF|LFAQ|Albert-Bray Airport|Albert|France|49.9715|2.6977|Europe/Paris|1
+LTQ|LFAT|Le Touquet-Côte d'Opale Airport|Le Tourquet|France|50.5174|1.6206|Europe/Paris|1
+XVS|LFAV|Valenciennes-Denain Airport|Valenciennes|France|50.3258|3.4613|Europe/Paris|1
+AGF|LFBA|Agen-La Garenne Airport|Agen|France|44.1747|0.5906|Europe/Paris|1
+BOD|LFBD|Bordeaux-Mérignac Airport|Bordeaux|France|44.8283|-0.7156|Europe/Paris|1
+EGC|LFBE|Bergerac-Roumanière Airport|Bergerac|France|44.8253|0.5186|Europe/Paris|1
+CNG|LFBG|Cognac-Châteaubernard (BA 709) Air Base|Cognac|France|45.6583|-0.3175|Europe/Paris|1
+PIS|LFBI|Poitiers-Biard Airport|Poitiers|France|46.5877|0.3067|Europe/Paris|1
+MCU|LFBK|Montluçon-Guéret Airport|Montlucon-gueret|France|46.2226|2.364|Europe/Paris|1
+LIG|LFBL|Limoges Airport|Limoges|France|45.8628|1.1794|Europe/Paris|1
+NIT|LFBN|Niort-Souché Airport|Niort|France|46.3135|-0.3945|Europe/Paris|1
+TLS|LFBO|Toulouse-Blagnac Airport|Toulouse|France|43.6291|1.3638|Europe/Paris|1
+PUF|LFBP|Pau Pyrénées Airport|Pau|France|43.38|-0.4186|Europe/Paris|1
+LDE|LFBT|Tarbes-Lourdes-Pyrénées Airport|Tarbes|France|43.1787|-0.0064|Europe/Paris|1
+ANG|LFBU|Angoulême-Brie-Champniers Airport|Angouleme|France|45.7292|0.2215|Europe/Paris|1
+BVE|LFSL|Brive Souillac Airport|Brive|France|45.0397|1.4856|Europe/Paris|1
+PGX|LFBX|Périgueux-Bassillac Airport|Perigueux|France|45.1981|0.8156|Europe/Paris|1
+BIQ|LFBZ|Biarritz-Anglet-Bayonne Airport|Biarritz-bayonne|France|43.4683|-1.5311|Europe/Paris|1
+ZAO|LFCC|Cahors-Lalbenque Airport|Cahors|France|44.3514|1.4753|Europe/Paris|1
+LBI|LFCI|Albi-Le Séquestre Airport|Albi|France|43.9139|2.1131|Europe/Paris|1
+DCM|LFCK|Castres-Mazamet Airport|Castres|France|43.5563|2.2892|Europe/Paris|1
+RDZ|LFCR|Rodez-Marcillac Airport|Rodez|France|44.4079|2.4827|Europe/Paris|1
+RYN|LFCY|Royan-Médis Airport|Royan|France|45.6281|-0.9725|Europe/Paris|1
+XMW|LFDB|Montauban Airport|Montauban|France|44.0257|1.378|Europe/Paris|1
+RCO|LFDN|Rochefort-Saint-Agnant (BA 721) Airport|Rochefort|France|45.8878|-0.9831|Europe/Paris|1
+CMR|LFGA|Colmar-Houssen Airport|Colmar|France|48.1099|7.359|Europe/Paris|1
+DLE|LFGJ|Dole-Tavaux Airport|Dole|France|47.0427|5.4351|Europe/Paris|1
+OBS|LFHO|Aubenas-Ardèche Méridional Airport|Aubenas-vals-lanas|France|44.5442|4.3722|Europe/Paris|1
+LPY|LFHP|Le Puy-Loudes Airport|Le Puy|France|45.0807|3.7629|Europe/Paris|1
+ETZ|LFJL|Metz-Nancy-Lorraine Airport|Metz|France|48.9821|6.2513|Europe/Paris|1
+BIA|LFKB|Bastia-Poretta Airport|Bastia|France|42.5527|9.4837|Europe/Paris|1
+CLY|LFKC|Calvi-Sainte-Catherine Airport|Calvi|France|42.5244|8.7931|Europe/Paris|1
+FSC|LFKF|Figari Sud-Corse Airport|Figari|France|41.5006|9.0978|Europe/Paris|1
+AJA|LFKJ|Ajaccio-Napoléon Bonaparte Airport|Ajaccio|France|41.9236|8.8029|Europe/Paris|1
+PRP|LFKO|Propriano Airport|Propriano|France|41.6606|8.8897|Europe/Paris|1
+SOZ|LFKS|Solenzara (BA 126) Air Base|Solenzara|France|41.9244|9.406|Europe/Paris|1
+AUF|LFLA|Auxerre-Branches Airport|Auxerre|France|47.8502|3.4971|Europe/Paris|1
+CMF|LFLB|Chambéry-Savoie Airport|Chambery|France|45.6381|5.8802|Europe/Paris|1
+CFE|LFLC|Clermont-Ferrand Auvergne Airport|Clermont-Ferrand|France|45.7867|3.1692|Europe/Paris|1
+BOU|LFLD|Bourges Airport|Bourges|France|47.0581|2.3703|Europe/Paris|1
+QNJ|LFLI|Annemasse Airport|Annemasse|France|46.192|6.2684|Europe/Paris|1
+LYS|LFLL|Lyon Saint-Exupéry Airport|Lyon|France|45.7256|5.0811|Europe/Paris|1
+SYT|LFLN|Saint-Yan Airport|St.-yan|France|46.4125|4.0133|Europe/Paris|1
+RNE|LFLO|Roanne-Renaison Airport|Roanne|France|46.0583|4.0014|Europe/Paris|1
+NCY|LFLP|Annecy-Haute-Savoie-Mont Blanc Airport|Annecy|France|45.9308|6.1064|Europe/Paris|1
+GNB|LFLS|Grenoble-Isère Airport|Grenoble|France|45.3629|5.3294|Europe/Paris|1
+VAF|LFLU|Valence-Chabeuil Airport|Valence|France|44.9216|4.9699|Europe/Paris|1
+VHY|LFLV|Vichy-Charmeil Airport|Vichy|France|46.1697|3.4037|Europe/Paris|1
+AUR|LFLW|Aurillac Airport|Aurillac|France|44.8914|2.4219|Europe/Paris|1
+CHR|LFLX|Châteauroux-Déols "Marcel Dassault" Airport|Chateauroux|France|46.8603|1.7211|Europe/Paris|1
+LYN|LFLY|Lyon-Bron Airport|Lyon|France|45.7272|4.9443|Europe/Paris|1
+CEQ|LFMD|Cannes-Mandelieu Airport|Cannes|France|43.542|6.9535|Europe/Paris|1
+EBU|LFMH|Saint-Étienne-Bouthéon Airport|St-Etienne|France|45.5406|4.2964|Europe/Paris|1
+CCF|LFMK|Carcassonne Airport|Carcassonne|France|43.216|2.3063|Europe/Paris|1
+MRS|LFML|Marseille Provence Airport|Marseille|France|43.4393|5.2214|Europe/Paris|1
+NCE|LFMN|Nice-Côte d'Azur Airport|Nice|France|43.6584|7.2159|Europe/Paris|1
+XOG|LFMO|Orange-Caritat (BA 115) Air Base|Orange|France|44.1405|4.8667|Europe/Paris|1
+PGF|LFMP|Perpignan-Rivesaltes (Llabanère) Airport|Perpignan|France|42.7404|2.8707|Europe/Paris|1
+CTT|LFMQ|Le Castellet Airport|Le Castellet|France|43.2525|5.7852|Europe/Paris|1
+MPL|LFMT|Montpellier-Méditerranée Airport|Montpellier|France|43.5762|3.963|Europe/Paris|1
+BZR|LFMU|Béziers-Vias Airport|Beziers|France|43.3235|3.3539|Europe/Paris|1
+AVN|LFMV|Avignon-Caumont Airport|Avignon|France|43.9073|4.9018|Europe/Paris|1
+MEN|LFNB|Mende-Brenoux Airfield|Mende|France|44.5021|3.5328|Europe/Paris|1
+BVA|LFOB|Paris Beauvais Tillé Airport|Beauvais|France|49.4544|2.1128|Europe/Paris|1
+EVX|LFOE|Évreux-Fauville (BA 105) Air Base|Evreux|France|49.0287|1.2199|Europe/Paris|1
+LEH|LFOH|Le Havre Octeville Airport|Le Havre|France|49.5339|0.0881|Europe/Paris|1
+XAB|LFOI|Abbeville|Abbeville|France|50.1435|1.8319|Europe/Paris|1
+ORE|LFOJ|Orléans-Bricy (BA 123) Air Base|Orleans|France|47.9878|1.7606|Europe/Paris|1
+XCR|LFOK|Châlons-Vatry Airport|Chalons|France|48.7733|4.2061|Europe/Paris|1
+URO|LFOP|Rouen Airport|Rouen|France|49.3842|1.1748|Europe/Paris|1
+TUF|LFOT|Tours-Val-de-Loire Airport|Tours|France|47.4322|0.7276|Europe/Paris|1
+CET|LFOU|Cholet Le Pontreau Airport|Cholet|France|47.0821|-0.8771|Europe/Paris|1
+LVA|LFOV|Laval-Entrammes Airport|Laval|France|48.0314|-0.743|Europe/Paris|1
+LBG|LFPB|Paris-Le Bourget Airport|Paris|France|48.9694|2.4414|Europe/Paris|1
+CSF|LFPC|Creil Air Base|Creil|France|49.2535|2.5191|Europe/Paris|1
+CDG|LFPG|Charles de Gaulle International Airport|Paris|France|49.0128|2.55|Europe/Paris|1
+TNF|LFPN|Toussus-le-Noble Airport|Toussous-le-noble|France|48.7519|2.1062|Europe/Paris|1
+ORY|LFPO|Paris-Orly Airport|Paris|France|48.7233|2.3794|Europe/Paris|1
+POX|LFPT|Pontoise - Cormeilles-en-Vexin Airport|Pontoise|France|49.0967|2.0408|Europe/Paris|1
+VIY|LFPV|Villacoublay-Vélizy (BA 107) Air Base|Villacoublay|France|48.7742|2.1917|Europe/Paris|1
+NVS|LFQG|Nevers-Fourchambault Airport|Nevers|France|47.0026|3.1133|Europe/Paris|1
+XME|LFQJ|Maubeuge-Élesmes Airport|Maubeuge|France|50.3105|4.0331|Europe/Paris|1
+LIL|LFQQ|Lille-Lesquin Airport|Lille|France|50.5633|3.0869|Europe/Paris|1
+HZB|LFQT|Merville-Calonne Airport|Merville|France|50.6184|2.6422|Europe/Paris|1
+XCZ|LFQV|Charleville-Mézières Airport|Charleville|France|49.7839|4.6471|Europe/Paris|1
+BES|LFRB|Brest Bretagne Airport|Brest|France|48.4479|-4.4185|Europe/Paris|1
+CER|LFRC|Cherbourg-Maupertus Airport|Cherbourg|France|49.6501|-1.4703|Europe/Paris|1
+DNR|LFRD|Dinard-Pleurtuit-Saint-Malo Airport|Dinard|France|48.5877|-2.08|Europe/Paris|1
+LBY|LFRE|La Baule-Escoublac Airport|La Baule|France|47.2894|-2.3464|Europe/Paris|1
+GFR|LFRF|Granville Airport|Granville|France|48.8831|-1.5642|Europe/Paris|1
+DOL|LFRG|Deauville-Saint-Gatien Airport|Deauville|France|49.3653|0.1543|Europe/Paris|1
+LRT|LFRH|Lorient South Brittany (Bretagne Sud) Airport|Lorient|France|47.7606|-3.44|Europe/Paris|1
+EDM|LFRI|La Roche-sur-Yon Airport|La Roche-sur-yon|France|46.7019|-1.3786|Europe/Paris|1
+LDV|LFRJ|Landivisiau Air Base|Landivisiau|France|48.5303|-4.1516|Europe/Paris|1
+CFR|LFRK|Caen-Carpiquet Airport|Caen|France|49.1733|-0.45|Europe/Paris|1
+LME|LFRM|Le Mans-Arnage Airport|Le Mans|France|47.9486|0.2017|Europe/Paris|1
+RNS|LFRN|Rennes-Saint-Jacques Airport|Rennes|France|48.0695|-1.7348|Europe/Paris|1
+LAI|LFRO|Lannion-Côte de Granit Airport|Lannion|France|48.7544|-3.4717|Europe/Paris|1
+UIP|LFRQ|Quimper-Cornouaille Airport|Quimper|France|47.975|-4.1678|Europe/Paris|1
+NTE|LFRS|Nantes Atlantique Airport|Nantes|France|47.1532|-1.6107|Europe/Paris|1
+SBK|LFRT|Saint-Brieuc-Armor Airport|St.-brieuc Armor|France|48.5378|-2.8544|Europe/Paris|1
+MXN|LFRU|Morlaix-Ploujean Airport|Morlaix|France|48.6032|-3.8158|Europe/Paris|1
+VNE|LFRV|Vannes-Meucon Airport|Vannes|France|47.7233|-2.7186|Europe/Paris|1
+SNR|LFRZ|Saint-Nazaire-Montoir Airport|St.-nazaire|France|47.3106|-2.1567|Europe/Paris|1
+BSL|LFSB|EuroAirport Basel-Mulhouse-Freiburg Airport|Mulhouse|France|47.59|7.5292|Europe/Paris|1
+DIJ|LFSD|Dijon-Bourgogne Airport|Dijon|France|47.2689|5.09|Europe/Paris|1
+MZM|LFSF|Metz-Frescaty (BA 128) Air Base|Metz|France|49.0717|6.1317|Europe/Paris|1
+EPL|LFSG|Épinal-Mirecourt Airport|Epinal|France|48.325|6.07|Europe/Paris|1
+ENC|LFSN|Nancy-Essey Airport|Nancy|France|48.6921|6.2305|Europe/Paris|1
+RHE|LFSR|Reims-Champagne (BA 112) Air Base|Reims|France|49.31|4.05|Europe/Paris|1
+SXB|LFST|Strasbourg Airport|Strasbourg|France|48.5383|7.6282|Europe/Paris|1
+TLN|LFTH|Toulon-Hyères Airport|Hyeres|France|43.0973|6.146|Europe/Paris|1
+FNI|LFTW|Nîmes-Arles-Camargue Airport|Nimes|France|43.7574|4.4163|Europe/Paris|1
+MQC|LFVM|Miquelon Airport|Miquelon|Saint Pierre and Miquelon|47.0955|-56.3803|America/Miquelon|-3
+FSP|LFVP|St Pierre Airport|St.-pierre|Saint Pierre and Miquelon|46.7629|-56.1731|America/Miquelon|-3
+PYR|LGAD|Andravida Air Base|Andravida|Greece|37.9207|21.2926|Europe/Athens|2
+AGQ|LGAG|Agrinion Air Base|Agrinion|Greece|38.602|21.3512|Europe/Athens|2
+AXD|LGAL|Dimokritos Airport|Alexandroupolis|Greece|40.8559|25.9563|Europe/Athens|2
+VOL|LGBL|Nea Anchialos Airport|Nea Anghialos|Greece|39.2196|22.7943|Europe/Athens|2
+JKH|LGHI|Chios Island National Airport|Chios|Greece|38.3432|26.1406|Europe/Athens|2
+IOA|LGIO|Ioannina Airport|Ioannina|Greece|39.6964|20.8225|Europe/Athens|2
+HER|LGIR|Heraklion International Nikos Kazantzakis Airport|Heraklion|Greece|35.3397|25.1803|Europe/Athens|2
+KSO|LGKA|Kastoria National Airport|Kastoria|Greece|40.4463|21.2822|Europe/Athens|2
+KIT|LGKC|Kithira Airport|Kithira|Greece|36.2743|23.017|Europe/Athens|2
+EFL|LGKF|Kefallinia Airport|Keffallinia|Greece|38.1201|20.5005|Europe/Athens|2
+KLX|LGKL|Kalamata Airport|Kalamata|Greece|37.0683|22.0255|Europe/Athens|2
+KGS|LGKO|Kos Airport|Kos|Greece|36.7933|27.0917|Europe/Athens|2
+AOK|LGKP|Karpathos Airport|Karpathos|Greece|35.4214|27.146|Europe/Athens|2
+CFU|LGKR|Ioannis Kapodistrias International Airport|Kerkyra/corfu|Greece|39.6019|19.9117|Europe/Athens|2
+KSJ|LGKS|Kasos Airport|Kasos|Greece|35.4214|26.91|Europe/Athens|2
+KVA|LGKV|Alexander the Great International Airport|Kavala|Greece|40.9133|24.6192|Europe/Athens|2
+KZI|LGKZ|Filippos Airport|Kozani|Greece|40.2861|21.8408|Europe/Athens|2
+LRS|LGLE|Leros Airport|Leros|Greece|37.1849|26.8003|Europe/Athens|2
+LXS|LGLM|Limnos Airport|Limnos|Greece|39.9171|25.2363|Europe/Athens|2
+LRA|LGLR|Larisa Airport|Larissa|Greece|39.6503|22.4655|Europe/Athens|2
+JMK|LGMK|Mikonos Airport|Mykonos|Greece|37.4351|25.3481|Europe/Athens|2
+MJT|LGMT|Mytilene International Airport|Mytilini|Greece|39.0567|26.5983|Europe/Athens|2
+PVK|LGPZ|Aktion National Airport|Preveza|Greece|38.9255|20.7653|Europe/Athens|2
+RHO|LGRP|Diagoras Airport|Rhodos|Greece|36.4054|28.0862|Europe/Athens|2
+GPA|LGRX|Araxos Airport|Patras|Greece|38.1511|21.4256|Europe/Athens|2
+CHQ|LGSA|Chania International Airport|Chania|Greece|35.5317|24.1497|Europe/Athens|2
+JSI|LGSK|Skiathos Island National Airport|Skiathos|Greece|39.1771|23.5037|Europe/Athens|2
+SMI|LGSM|Samos Airport|Samos|Greece|37.69|26.9117|Europe/Athens|2
+SPJ|LGSP|Sparti Airport|Sparti|Greece|36.9739|22.5263|Europe/Athens|2
+JTR|LGSR|Santorini Airport|Thira|Greece|36.3992|25.4793|Europe/Athens|2
+JSH|LGST|Sitia Airport|Sitia|Greece|35.2161|26.1013|Europe/Athens|2
+SKU|LGSY|Skiros Airport|Skiros|Greece|38.9676|24.4872|Europe/Athens|2
+SKG|LGTS|Thessaloniki Macedonia International Airport|Thessaloniki|Greece|40.5197|22.9709|Europe/Athens|2
+ZTH|LGZA|Zakynthos International Airport "Dionysios Solomos"|Zakynthos|Greece|37.7509|20.8843|Europe/Athens|2
+BUD|LHBP|Budapest Liszt Ferenc International Airport|Budapest|Hungary|47.4298|19.2611|Europe/Budapest|1
+DEB|LHDC|Debrecen International Airport|Debrecen|Hungary|47.4889|21.6153|Europe/Budapest|1
+CRV|LIBC|Crotone Airport|Crotone|Italy|38.9972|17.0802|Europe/Rome|1
+BRI|LIBD|Bari Karol Wojtyła Airport|Bari|Italy|41.1389|16.7606|Europe/Rome|1
+FOG|LIBF|Foggia "Gino Lisa" Airport|Foggia|Italy|41.4329|15.535|Europe/Rome|1
+TAR|LIBG|Taranto-Grottaglie "Marcello Arlotta" Airport|Grottaglie|Italy|40.5175|17.4032|Europe/Rome|1
+LCC|LIBN|Lecce Galatina Air Base|Lecce|Italy|40.2392|18.1333|Europe/Rome|1
+PSR|LIBP|Pescara International Airport|Pescara|Italy|42.4317|14.1811|Europe/Rome|1
+BDS|LIBR|Brindisi – Salento Airport|Brindisi|Italy|40.6576|17.947|Europe/Rome|1
+SUF|LICA|Lamezia Terme Airport|Lamezia|Italy|38.9054|16.2423|Europe/Rome|1
+CTA|LICC|Catania-Fontanarossa Airport|Catania|Italy|37.4668|15.0664|Europe/Rome|1
+LMP|LICD|Lampedusa Airport|Lampedusa|Italy|35.4979|12.6181|Europe/Rome|1
+PNL|LICG|Pantelleria Airport|Pantelleria|Italy|36.8165|11.9689|Europe/Rome|1
+PMO|LICJ|Falcone–Borsellino Airport|Palermo|Italy|38.176|13.091|Europe/Rome|1
+REG|LICR|Reggio Calabria Airport|Reggio Calabria|Italy|38.0712|15.6516|Europe/Rome|1
+TPS|LICT|Vincenzo Florio Airport Trapani-Birgi|Trapani|Italy|37.9114|12.488|Europe/Rome|1
+NSY|LICZ|Sigonella Navy Air Base|Sigonella|Italy|37.4017|14.9224|Europe/Rome|1
+AHO|LIEA|Alghero-Fertilia Airport|Alghero|Italy|40.6321|8.2908|Europe/Rome|1
+DCI|LIED|Decimomannu Air Base|Decimomannu|Italy|39.3542|8.9725|Europe/Rome|1
+CAG|LIEE|Cagliari Elmas Airport|Cagliari|Italy|39.2515|9.0543|Europe/Rome|1
+OLB|LIEO|Olbia Costa Smeralda Airport|Olbia|Italy|40.8987|9.5176|Europe/Rome|1
+TTB|LIET|Tortolì Airport|Tortoli|Italy|39.9188|9.683|Europe/Rome|1
+MXP|LIMC|Malpensa International Airport|Milano|Italy|45.6306|8.7281|Europe/Rome|1
+BGY|LIME|Il Caravaggio International Airport|Bergamo|Italy|45.6739|9.7042|Europe/Rome|1
+TRN|LIMF|Turin Airport|Torino|Italy|45.2008|7.6496|Europe/Rome|1
+ALL|LIMG|Villanova D'Albenga International Airport|Albenga|Italy|44.0506|8.1274|Europe/Rome|1
+GOA|LIMJ|Genoa Cristoforo Colombo Airport|Genoa|Italy|44.4133|8.8375|Europe/Rome|1
+LIN|LIML|Milano Linate Airport|Milan|Italy|45.4451|9.2767|Europe/Rome|1
+PMF|LIMP|Parma Airport|Parma|Italy|44.8245|10.2964|Europe/Rome|1
+CUF|LIMZ|Cuneo International Airport|Cuneo|Italy|44.547|7.6232|Europe/Rome|1
+AVB|LIPA|Aviano Air Base|Aviano|Italy|46.0319|12.5965|Europe/Rome|1
+BZO|LIPB|Bolzano Airport|Bolzano|Italy|46.4602|11.3264|Europe/Rome|1
+BLQ|LIPE|Bologna Guglielmo Marconi Airport|Bologna|Italy|44.5354|11.2887|Europe/Rome|1
+TSF|LIPH|Treviso-Sant'Angelo Airport|Treviso|Italy|45.6484|12.1944|Europe/Rome|1
+FRL|LIPK|Forlì Airport|Forli|Italy|44.1948|12.0701|Europe/Rome|1
+VBS|LIPO|Brescia Airport|Brescia|Italy|45.4289|10.3306|Europe/Rome|1
+TRS|LIPQ|Trieste–Friuli Venezia Giulia Airport|Ronchi De Legionari|Italy|45.8275|13.4722|Europe/Rome|1
+RMI|LIPR|Federico Fellini International Airport|Rimini|Italy|44.0203|12.6117|Europe/Rome|1
+VIC|LIPT|Vicenza Airport|Vicenza|Italy|45.5734|11.5295|Europe/Rome|1
+QPA|LIPU|Padova Airport|Padova|Italy|45.3958|11.8479|Europe/Rome|1
+VRN|LIPX|Verona Villafranca Airport|Villafranca|Italy|45.3957|10.8885|Europe/Rome|1
+VCE|LIPZ|Venice Marco Polo Airport|Venice|Italy|45.5053|12.3519|Europe/Rome|1
+SAY|LIQS|Siena-Ampugnano Airport|Siena|Italy|43.2563|11.255|Europe/Rome|1
+CIA|LIRA|Ciampino–G. B. Pastine International Airport|Rome|Italy|41.7994|12.5949|Europe/Rome|1
+FCO|LIRF|Leonardo da Vinci–Fiumicino Airport|Rome|Italy|41.8003|12.2389|Europe/Rome|1
+EBA|LIRJ|Marina Di Campo Airport|Marina Di Campo|Italy|42.7603|10.2394|Europe/Rome|1
+QLT|LIRL|Latina Air Base|Latina|Italy|41.5424|12.909|Europe/Rome|1
+NAP|LIRN|Naples International Airport|Naples|Italy|40.886|14.2908|Europe/Rome|1
+PSA|LIRP|Pisa International Airport|Pisa|Italy|43.6839|10.3927|Europe/Rome|1
+FLR|LIRQ|Peretola Airport|Florence|Italy|43.81|11.2051|Europe/Rome|1
+GRS|LIRS|Grosseto Air Base|Grosseto|Italy|42.7597|11.0719|Europe/Rome|1
+PEG|LIRZ|Perugia San Francesco d'Assisi – Umbria International Airport|Perugia|Italy|43.0959|12.5132|Europe/Rome|1
+LJU|LJLJ|Ljubljana Jože Pučnik Airport|Ljubljana|Slovenia|46.2237|14.4576|Europe/Ljubljana|1
+MBX|LJMB|Maribor Airport|Maribor|Slovenia|46.4799|15.6861|Europe/Ljubljana|1
+POW|LJPZ|Portoroz Airport|Portoroz|Slovenia|45.4734|13.615|Europe/Ljubljana|1
+UHE|LKKU|Kunovice Airport|Kunovice|Czech Republic|49.0294|17.4397|Europe/Prague|1
+KLV|LKKV|Karlovy Vary International Airport|Karlovy Vary|Czech Republic|50.203|12.915|Europe/Prague|1
+OSR|LKMT|Ostrava Leos Janáček Airport|Ostrava|Czech Republic|49.6963|18.1111|Europe/Prague|1
+PED|LKPD|Pardubice Airport|Pardubice|Czech Republic|50.0134|15.7386|Europe/Prague|1
+PRV|LKPO|Přerov Air Base|Prerov|Czech Republic|49.4258|17.4047|Europe/Prague|1
+PRG|LKPR|Václav Havel Airport Prague|Prague|Czech Republic|50.1008|14.26|Europe/Prague|1
+BRQ|LKTB|Brno-Tuřany Airport|Brno|Czech Republic|49.1513|16.6944|Europe/Prague|1
+VOD|LKVO|Vodochody Airport|Vodochody|Czech Republic|50.2166|14.3958|Europe/Prague|1
+TLV|LLBG|Ben Gurion International Airport|Tel-aviv|Israel|32.0114|34.8867|Asia/Jerusalem|2
+BEV|LLBS|Beersheba (Teyman) Airport|Beer-sheba|Israel|31.287|34.723|Asia/Jerusalem|2
+ETH|LLET|Eilat Airport|Elat|Israel|29.5613|34.9601|Asia/Jerusalem|2
+EIY|LLEY|Ein Yahav Airfield|Eyn-yahav|Israel|30.6217|35.2033|Asia/Jerusalem|2
+HFA|LLHA|Haifa International Airport|Haifa|Israel|32.8094|35.0431|Asia/Jerusalem|2
+RPN|LLIB|Ben Ya'akov Airport|Rosh Pina|Israel|32.981|35.5719|Asia/Jerusalem|2
+MTZ|LLMZ|Bar Yehuda Airfield|Metzada|Israel|31.3282|35.3886|Asia/Jerusalem|2
+VTM|LLNV|Nevatim Air Base|Nevatim|Israel|31.2083|35.0123|Asia/Jerusalem|2
+VDA|LLOV|Ovda International Airport|Ovda|Israel|29.9403|34.9358|Asia/Jerusalem|2
+MIP|LLRM|Ramon Air Base|Ramon|Israel|30.7761|34.6667|Asia/Jerusalem|2
+SDV|LLSD|Sde Dov Airport|Tel-aviv|Israel|32.1147|34.7822|Asia/Jerusalem|2
+MLA|LMML|Malta International Airport|Malta|Malta|35.8575|14.4775|Europe/Malta|1
+GRZ|LOWG|Graz Airport|Graz|Austria|46.9911|15.4396|Europe/Vienna|1
+INN|LOWI|Innsbruck Airport|Innsbruck|Austria|47.2602|11.344|Europe/Vienna|1
+LNZ|LOWL|Linz Hörsching Airport|Linz|Austria|48.2332|14.1875|Europe/Vienna|1
+SZG|LOWS|Salzburg Airport|Salzburg|Austria|47.7933|13.0043|Europe/Vienna|1
+VIE|LOWW|Vienna International Airport|Vienna|Austria|48.1103|16.5697|Europe/Vienna|1
+AVR|LPAR|Alverca Air Base|Alverca|Portugal|38.8833|-9.0301|Europe/Lisbon|0
+SMA|LPAZ|Santa Maria Airport|Santa Maria (island)|Portugal|36.9714|-25.1706|Atlantic/Azores|-1
+BGC|LPBG|Bragança Airport|Braganca|Portugal|41.8578|-6.7071|Europe/Lisbon|0
+BYJ|LPBJ|Beja Airport / Airbase|Beja (madeira)|Portugal|38.0789|-7.9324|Europe/Lisbon|0
+BGZ|LPBR|Braga Municipal Aerodrome|Braga|Portugal|41.5871|-8.4451|Europe/Lisbon|0
+CAT|LPCS|Cascais Airport|Cascais|Portugal|38.725|-9.3552|Europe/Lisbon|0
+FLW|LPFL|Flores Airport|Flores|Portugal|39.4553|-31.1314|Atlantic/Azores|-1
+FAO|LPFR|Faro Airport|Faro|Portugal|37.0144|-7.9659|Europe/Lisbon|0
+GRW|LPGR|Graciosa Airport|Graciosa Island|Portugal|39.0922|-28.0298|Atlantic/Azores|-1
+HOR|LPHR|Horta Airport|Horta|Portugal|38.5199|-28.7159|Atlantic/Azores|-1
+TER|LPLA|Lajes Airport|Lajes (terceira Island)|Portugal|38.7618|-27.0908|Atlantic/Azores|-1
+QLR|LPMR|Monte Real Air Base|Monte Real|Portugal|39.8283|-8.8875|Europe/Lisbon|0
+PDL|LPPD|João Paulo II Airport|Ponta Delgada|Portugal|37.7412|-25.6979|Atlantic/Azores|-1
+PIX|LPPI|Pico Airport|Pico|Portugal|38.5543|-28.4413|Atlantic/Azores|-1
+PRM|LPPM|Portimão Airport|Portimao|Portugal|37.1493|-8.584|Europe/Lisbon|0
+OPO|LPPR|Francisco de Sá Carneiro Airport|Porto|Portugal|41.2481|-8.6814|Europe/Lisbon|0
+PXO|LPPS|Porto Santo Airport|Porto Santo|Portugal|33.0734|-16.35|Europe/Lisbon|0
+LIS|LPPT|Humberto Delgado Airport (Lisbon Portela Airport)|Lisbon|Portugal|38.7813|-9.1359|Europe/Lisbon|0
+SJZ|LPSJ|São Jorge Airport|Sao Jorge Island|Portugal|38.6655|-28.1758|Atlantic/Azores|-1
+VRL|LPVR|Vila Real Airport|Vila Real|Portugal|41.2743|-7.7205|Europe/Lisbon|0
+VSE|LPVZ|Aerodromo Goncalves Lobato (Viseu Airport)|Viseu|Portugal|40.7255|-7.889|Europe/Lisbon|0
+OMO|LQMO|Mostar International Airport|Mostar|Bosnia and Herzegovina|43.2829|17.8459|Europe/Sarajevo|1
+SJJ|LQSA|Sarajevo International Airport|Sarajevo|Bosnia and Herzegovina|43.8246|18.3315|Europe/Sarajevo|1
+ARW|LRAR|Arad International Airport|Arad|Romania|46.1766|21.262|Europe/Bucharest|2
+BCM|LRBC|Bacău Airport|Bacau|Romania|46.5219|26.9103|Europe/Bucharest|2
+BAY|LRBM|Tautii Magheraus Airport|Baia Mare|Romania|47.6584|23.47|Europe/Bucharest|2
+BBU|LRBS|Băneasa International Airport|Bucharest|Romania|44.5032|26.1021|Europe/Bucharest|2
+CND|LRCK|Mihail Kogălniceanu International Airport|Constanta|Romania|44.3622|28.4883|Europe/Bucharest|2
+CLJ|LRCL|Cluj-Napoca International Airport|Cluj-napoca|Romania|46.7852|23.6862|Europe/Bucharest|2
+CSB|LRCS|Caransebeş Airport|Caransebes|Romania|45.42|22.2533|Europe/Bucharest|2
+CRA|LRCV|Craiova Airport|Craiova|Romania|44.3181|23.8886|Europe/Bucharest|2
+IAS|LRIA|Iaşi Airport|Iasi|Romania|47.1785|27.6206|Europe/Bucharest|2
+OMR|LROD|Oradea International Airport|Oradea|Romania|47.0253|21.9025|Europe/Bucharest|2
+OTP|LROP|Henri Coandă International Airport|Bucharest|Romania|44.5711|26.085|Europe/Bucharest|2
+SBZ|LRSB|Sibiu International Airport|Sibiu|Romania|45.7856|24.0913|Europe/Bucharest|2
+SUJ|LRSM|Satu Mare Airport|Satu Mare|Romania|47.7033|22.8857|Europe/Bucharest|2
+SCV|LRSV|Suceava Stefan cel Mare Airport|Suceava|Romania|47.6875|26.3541|Europe/Bucharest|2
+TCE|LRTC|Tulcea Airport|Tulcea|Romania|45.0625|28.7143|Europe/Bucharest|2
+TGM|LRTM|Transilvania Târgu Mureş International Airport|Tirgu Mures|Romania|46.4677|24.4125|Europe/Bucharest|2
+TSR|LRTR|Timişoara Traian Vuia Airport|Timisoara|Romania|45.8099|21.3379|Europe/Bucharest|2
+GVA|LSGG|Geneva Cointrin International Airport|Geneva|Switzerland|46.2381|6.109|Europe/Paris|1
+SIR|LSGS|Sion Airport|Sion|Switzerland|46.2196|7.3268|Europe/Zurich|1
+EML|LSME|Emmen Air Base|Emmen|Switzerland|47.0924|8.3052|Europe/Zurich|1
+LUG|LSZA|Lugano Airport|Lugano|Switzerland|46.0043|8.9106|Europe/Zurich|1
+BRN|LSZB|Bern Belp Airport|Bern|Switzerland|46.9141|7.4971|Europe/Zurich|1
+ZHI|LSZG|Grenchen Airport|Grenchen|Switzerland|47.1816|7.4172|Europe/Zurich|1
+ZRH|LSZH|Zürich Airport|Zurich|Switzerland|47.4647|8.5492|Europe/Zurich|1
+ACH|LSZR|St Gallen Altenrhein Airport|Altenrhein|Switzerland|47.485|9.5608|Europe/Zurich|1
+SMV|LSZS|Samedan Airport|Samedan|Switzerland|46.5341|9.8841|Europe/Zurich|1
+ESB|LTAC|Esenboğa International Airport|Ankara|Turkey|40.1281|32.9951|Europe/Istanbul|3
+ANK|LTAD|Etimesgut Air Base|Ankara|Turkey|39.9498|32.6886|Europe/Istanbul|3
+ADA|LTAF|Adana Airport|Adana|Turkey|36.9822|35.2804|Europe/Istanbul|3
+UAB|LTAG|İncirlik Air Base|Adana|Turkey|37.0021|35.4259|Europe/Istanbul|3
+AFY|LTAH|Afyon Airport|Afyon|Turkey|38.7264|30.6011|Europe/Istanbul|3
+AYT|LTAI|Antalya International Airport|Antalya|Turkey|36.8987|30.8005|Europe/Istanbul|3
+GZT|LTAJ|Gaziantep International Airport|Gaziantep|Turkey|36.9472|37.4787|Europe/Istanbul|3
+KYA|LTAN|Konya Airport|Konya|Turkey|37.979|32.5619|Europe/Istanbul|3
+MZH|LTAP|Amasya Merzifon Airport|Merzifon|Turkey|40.8294|35.522|Europe/Istanbul|3
+VAS|LTAR|Sivas Nuri Demirağ Airport|Sivas|Turkey|39.8138|36.9035|Europe/Istanbul|3
+MLX|LTAT|Malatya Erhaç Airport|Malatya|Turkey|38.4353|38.091|Europe/Istanbul|3
+ASR|LTAU|Kayseri Erkilet Airport|Kayseri|Turkey|38.7704|35.4954|Europe/Istanbul|3
+TJK|LTAW|Tokat Airport|Tokat|Turkey|40.3074|36.3674|Europe/Istanbul|3
+DNZ|LTAY|Çardak Airport|Denizli|Turkey|37.7856|29.7013|Europe/Istanbul|3
+ISL|LTBA|Atatürk International Airport|Istanbul|Turkey|40.9769|28.8146|Europe/Istanbul|3
+BZI|LTBF|Balıkesir Merkez Airport|Balikesir|Turkey|39.6193|27.926|Europe/Istanbul|3
+BDM|LTBG|Bandırma Airport|Bandirma|Turkey|40.318|27.9777|Europe/Istanbul|3
+ESK|LTBI|Eskişehir Air Base|Eskisehir|Turkey|39.7841|30.5821|Europe/Istanbul|3
+ADB|LTBJ|Adnan Menderes International Airport|Izmir|Turkey|38.2924|27.157|Europe/Istanbul|3
+IGL|LTBL|Çiğli Airport|Izmir|Turkey|38.513|27.0101|Europe/Istanbul|3
+KCO|LTBQ|Cengiz Topel Airport|Topel|Turkey|40.735|30.0833|Europe/Istanbul|3
+DLM|LTBS|Dalaman International Airport|Dalaman|Turkey|36.7131|28.7925|Europe/Istanbul|3
+BXN|LTBV|Imsık Airport|Bodrum|Turkey|37.1401|27.6697|Europe/Istanbul|3
+EZS|LTCA|Elazığ Airport|Elazig|Turkey|38.6069|39.2914|Europe/Istanbul|3
+DIY|LTCC|Diyarbakir Airport|Diyabakir|Turkey|37.8939|40.201|Europe/Istanbul|3
+ERC|LTCD|Erzincan Airport|Erzincan|Turkey|39.7102|39.527|Europe/Istanbul|3
+ERZ|LTCE|Erzurum International Airport|Erzurum|Turkey|39.9565|41.1702|Europe/Istanbul|3
+TZX|LTCG|Trabzon International Airport|Trabzon|Turkey|40.9951|39.7897|Europe/Istanbul|3
+VAN|LTCI|Van Ferit Melen Airport|Van|Turkey|38.4682|43.3323|Europe/Istanbul|3
+BAL|LTCJ|Batman Airport|Batman|Turkey|37.929|41.1166|Europe/Istanbul|3
+SXZ|LTCL|Siirt Airport|Siirt|Turkey|37.9789|41.8404|Europe/Istanbul|3
+BZY|LUBL|Bălți International Airport|Saltsy|Moldova|47.8431|27.7772|Europe/Chisinau|2
+KIV|LUKK|Chişinău International Airport|Chisinau|Moldova|46.9277|28.931|Europe/Chisinau|2
+OHD|LWOH|Ohrid St. Paul the Apostle Airport|Ohrid|Macedonia|41.18|20.7423|Europe/Skopje|1
+SKP|LWSK|Skopje Alexander the Great Airport|Skopje|Macedonia|41.9616|21.6214|Europe/Skopje|1
+GIB|LXGB|Gibraltar Airport|Gibraltar|Gibraltar|36.1512|-5.3497|Europe/Gibraltar|1
+BEG|LYBE|Belgrade Nikola Tesla Airport|Belgrade|Serbia|44.8184|20.3091|Europe/Belgrade|1
+INI|LYNI|Nis Airport|Nis|Serbia|43.3373|21.8537|Europe/Belgrade|1
+TGD|LYPG|Podgorica Airport|Podgorica|Montenegro|42.3594|19.2519|Europe/Podgorica|1
+PRN|BKPR|Priština International Airport|Pristina|Serbia|42.5728|21.0358|Europe/Belgrade|1
+TIV|LYTV|Tivat Airport|Tivat|Montenegro|42.4047|18.7233|Europe/Podgorica|1
+BTS|LZIB|M. R. Štefánik Airport|Bratislava|Slovakia|48.1702|17.2127|Europe/Bratislava|1
+KSC|LZKZ|Košice Airport|Kosice|Slovakia|48.6631|21.2411|Europe/Bratislava|1
+PZY|LZPP|Piešťany Airport|Piestany|Slovakia|48.6252|17.8284|Europe/Bratislava|1
+SLD|LZSL|Sliač Airport|Sliac|Slovakia|48.6378|19.1341|Europe/Bratislava|1
+TAT|LZTT|Poprad-Tatry Airport|Poprad|Slovakia|49.0736|20.2411|Europe/Bratislava|1
+NCA|MBNC|North Caicos Airport|North Caicos|Turks and Caicos Islands|21.9175|-71.9396|America/Grand_Turk|-4
+PLS|MBPV|Providenciales Airport|Providenciales|Turks and Caicos Islands|21.7736|-72.2659|America/Grand_Turk|-4
+XSC|MBSC|South Caicos Airport|South Caicos|Turks and Caicos Islands|21.5157|-71.5285|America/Grand_Turk|-4
+BRX|MDBH|Maria Montez International Airport|Barahona|Dominican Republic|18.2515|-71.1204|America/Santo_Domingo|-4
+CBJ|MDCR|Cabo Rojo Airport|Cabo Rojo|Dominican Republic|17.929|-71.6448|America/Santo_Domingo|-4
+LRM|MDLR|Casa De Campo International Airport|La Romana|Dominican Republic|18.4507|-68.9118|America/Santo_Domingo|-4
+PUJ|MDPC|Punta Cana International Airport|Punta Cana|Dominican Republic|18.5674|-68.3634|America/Santo_Domingo|-4
+POP|MDPP|Gregorio Luperon International Airport|Puerto Plata|Dominican Republic|19.7579|-70.57|America/Santo_Domingo|-4
+SDQ|MDSD|Las Américas International Airport|Santo Domingo|Dominican Republic|18.4297|-69.6689|America/Santo_Domingo|-4
+STI|MDST|Cibao International Airport|Santiago|Dominican Republic|19.4061|-70.6047|America/Santo_Domingo|-4
+CBV|MGCB|Coban Airport|Coban|Guatemala|15.469|-90.4067|America/Guatemala|-6
+GUA|MGGT|La Aurora Airport|Guatemala City|Guatemala|14.5833|-90.5275|America/Guatemala|-6
+RER|MGRT|Retalhuleu Airport|Retalhuleu|Guatemala|14.521|-91.6973|America/Guatemala|-6
+GSJ|MGSJ|San José Airport|San Jose|Guatemala|13.9362|-90.8358|America/Guatemala|-6
+LCE|MHLC|Goloson International Airport|La Ceiba|Honduras|15.7425|-86.853|America/Tegucigalpa|-6
+SAP|MHLM|Ramón Villeda Morales International Airport|San Pedro Sula|Honduras|15.4526|-87.9236|America/Tegucigalpa|-6
+GJA|MHNJ|La Laguna Airport|Guanaja|Honduras|16.4454|-85.9066|America/Tegucigalpa|-6
+RTB|MHRO|Juan Manuel Galvez International Airport|Roatan|Honduras|16.3168|-86.523|America/Tegucigalpa|-6
+TEA|MHTE|Tela Airport|Tela|Honduras|15.7759|-87.4758|America/Tegucigalpa|-6
+TGU|MHTG|Toncontín International Airport|Tegucigalpa|Honduras|14.0609|-87.2172|America/Tegucigalpa|-6
+TJI|MHTJ|Trujillo Airport|Trujillo|Honduras|15.9268|-85.9382|America/Tegucigalpa|-6
+OCJ|MKBS|Boscobel Aerodrome|Ocho Rios|Jamaica|18.4042|-76.969|America/Jamaica|-5
+KIN|MKJP|Norman Manley International Airport|Kingston|Jamaica|17.9357|-76.7875|America/Jamaica|-5
+MBJ|MKJS|Sangster International Airport|Montego Bay|Jamaica|18.5037|-77.9134|America/Jamaica|-5
+POT|MKKJ|Ken Jones Airport|Port Antonio|Jamaica|18.1988|-76.5345|America/Jamaica|-5
+KTP|MKTP|Tinson Pen Airport|Kingston|Jamaica|17.9886|-76.8238|America/Jamaica|-5
+ACA|MMAA|General Juan N Alvarez International Airport|Acapulco|Mexico|16.7571|-99.754|America/Mexico_City|-6
+NTR|MMAN|Del Norte International Airport|Monterrey|Mexico|25.8656|-100.237|America/Mexico_City|-6
+AGU|MMAS|Jesús Terán Paredo International Airport|Aguascalientes|Mexico|21.7056|-102.318|America/Mexico_City|-6
+HUX|MMBT|Bahías de Huatulco International Airport|Huatulco|Mexico|15.7753|-96.2626|America/Mexico_City|-6
+CVJ|MMCB|General Mariano Matamoros Airport|Cuernavaca|Mexico|18.8348|-99.2613|America/Mexico_City|-6
+ACN|MMCC|Ciudad Acuña New International Airport|Ciudad Acuna|Mexico|29.3329|-101.099|America/Mexico_City|-6
+CME|MMCE|Ciudad del Carmen International Airport|Ciudad Del Carmen|Mexico|18.6537|-91.799|America/Mexico_City|-6
+NCG|MMCG|Nuevo Casas Grandes Airport|Nuevo Casas Grandes|Mexico|30.3974|-107.875|America/Mazatlan|-7
+CUL|MMCL|Bachigualato Federal International Airport|Culiacan|Mexico|24.7645|-107.475|America/Mazatlan|-7
+CTM|MMCM|Chetumal International Airport|Chetumal|Mexico|18.5047|-88.3268|America/Cancun|-5
+CEN|MMCN|Ciudad Obregón International Airport|Ciudad Obregon|Mexico|27.3926|-109.833|America/Hermosillo|-7
+CPE|MMCP|Ingeniero Alberto Acuña Ongay International Airport|Campeche|Mexico|19.8168|-90.5003|America/Mexico_City|-6
+CJS|MMCS|Abraham González International Airport|Ciudad Juarez|Mexico|31.6361|-106.429|America/Mazatlan|-7
+CUU|MMCU|General Roberto Fierro Villalobos International Airport|Chihuahua|Mexico|28.7029|-105.965|America/Mazatlan|-7
+CVM|MMCV|General Pedro Jose Mendez International Airport|Ciudad Victoria|Mexico|23.7033|-98.9565|America/Mexico_City|-6
+CZM|MMCZ|Cozumel International Airport|Cozumel|Mexico|20.5224|-86.9256|America/Cancun|-5
+DGO|MMDO|General Guadalupe Victoria International Airport|Durango|Mexico|24.1242|-104.528|America/Mexico_City|-6
+TPQ|MMEP|Amado Nervo National Airport|Tepic|Mexico|21.4195|-104.843|America/Mazatlan|-7
+ESE|MMES|Ensenada International Airport|Ensenada|Mexico|31.7953|-116.603|America/Tijuana|-8
+GDL|MMGL|Don Miguel Hidalgo Y Costilla International Airport|Guadalajara|Mexico|20.5218|-103.311|America/Mexico_City|-6
+GYM|MMGM|General José María Yáñez International Airport|Guaymas|Mexico|27.969|-110.925|America/Hermosillo|-7
+TCN|MMHC|Tehuacan Airport|Tehuacan|Mexico|18.4972|-97.4199|America/Mexico_City|-6
+HMO|MMHO|General Ignacio P. Garcia International Airport|Hermosillo|Mexico|29.0959|-111.048|America/Hermosillo|-7
+CLQ|MMIA|Licenciado Miguel de la Madrid Airport|Colima|Mexico|19.277|-103.577|America/Mexico_City|-6
+ISJ|MMIM|Isla Mujeres Airport|Isla Mujeres|Mexico|21.245|-86.74|America/Cancun|-5
+SLW|MMIO|Plan De Guadalupe International Airport|Saltillo|Mexico|25.5495|-100.929|America/Mexico_City|-6
+IZT|MMIT|Ixtepec Airport|Iztepec|Mexico|16.4493|-95.0937|America/Mexico_City|-6
+LZC|MMLC|Lázaro Cárdenas Airport|Lazard Cardenas|Mexico|18.0017|-102.221|America/Mexico_City|-6
+LMM|MMLM|Valle del Fuerte International Airport|Los Mochis|Mexico|25.6852|-109.081|America/Mazatlan|-7
+BJX|MMLO|Del Bajío International Airport|Del Bajio|Mexico|20.9935|-101.481|America/Mexico_City|-6
+LAP|MMLP|Manuel Márquez de León International Airport|La Paz|Mexico|24.0727|-110.362|America/Mazatlan|-7
+LTO|MMLT|Loreto International Airport|Loreto|Mexico|25.9892|-111.348|America/Mazatlan|-7
+MAM|MMMA|General Servando Canales International Airport|Matamoros|Mexico|25.7699|-97.5253|America/Mexico_City|-6
+MID|MMMD|Licenciado Manuel Crescencio Rejon Int Airport|Merida|Mexico|20.937|-89.6577|America/Mexico_City|-6
+MXL|MMML|General Rodolfo Sánchez Taboada International Airport|Mexicali|Mexico|32.6306|-115.242|America/Tijuana|-8
+MLM|MMMM|General Francisco J. Mujica International Airport|Morelia|Mexico|19.8499|-101.025|America/Mexico_City|-6
+MTT|MMMT|Minatitlán/Coatzacoalcos National Airport|Minatitlan|Mexico|18.1034|-94.5807|America/Mexico_City|-6
+LOV|MMMV|Monclova International Airport|Monclova|Mexico|26.9557|-101.47|America/Mexico_City|-6
+MEX|MMMX|Licenciado Benito Juarez International Airport|Mexico City|Mexico|19.4363|-99.0721|America/Mexico_City|-6
+MTY|MMMY|General Mariano Escobedo International Airport|Monterrey|Mexico|25.7785|-100.107|America/Mexico_City|-6
+MZT|MMMZ|General Rafael Buelna International Airport|Mazatlan|Mexico|23.1614|-106.266|America/Mazatlan|-7
+NOG|MMNG|Nogales International Airport|Nogales|Mexico|31.2261|-110.976|America/Hermosillo|-7
+NLD|MMNL|Quetzalcóatl International Airport|Nuevo Laredo|Mexico|27.4439|-99.5705|America/Mexico_City|-6
+OAX|MMOX|Xoxocotlán International Airport|Oaxaca|Mexico|16.9999|-96.7266|America/Mexico_City|-6
+PAZ|MMPA|El Tajín National Airport|Poza Rico|Mexico|20.6027|-97.4608|America/Mexico_City|-6
+PBC|MMPB|Hermanos Serdán International Airport|Puebla|Mexico|19.1581|-98.3714|America/Mexico_City|-6
+PPE|MMPE|Mar de Cortés International Airport|Punta Penasco|Mexico|31.352|-113.3052|America/Hermosillo|-7
+PDS|MMPG|Piedras Negras International Airport|Piedras Negras|Mexico|28.6274|-100.535|America/Mexico_City|-6
+UPN|MMPN|Licenciado y General Ignacio Lopez Rayon Airport|Uruapan|Mexico|19.3967|-102.039|America/Mexico_City|-6
+PVR|MMPR|Licenciado Gustavo Díaz Ordaz International Airport|Puerto Vallarta|Mexico|20.6801|-105.254|America/Mexico_City|-6
+PXM|MMPS|Puerto Escondido International Airport|Puerto Escondido|Mexico|15.8769|-97.0891|America/Mexico_City|-6
+QRO|MMQT|Querétaro Intercontinental Airport|Queretaro|Mexico|20.6173|-100.186|America/Mexico_City|-6
+REX|MMRX|General Lucio Blanco International Airport|Reynosa|Mexico|26.0089|-98.2285|America/Mexico_City|-6
+SJD|MMSD|Los Cabos International Airport|San Jose Del Cabo|Mexico|23.1518|-109.721|America/Mazatlan|-7
+SFH|MMSF|San Felipe International Airport|San Filipe|Mexico|30.9302|-114.809|America/Tijuana|-8
+SLP|MMSP|Ponciano Arriaga International Airport|San Luis Potosi|Mexico|22.2543|-100.931|America/Mexico_City|-6
+TRC|MMTC|Francisco Sarabia International Airport|Torreon|Mexico|25.5683|-103.411|America/Mexico_City|-6
+TGZ|MMTG|Angel Albino Corzo International Airport|Tuxtla Gutierrez|Mexico|16.5636|-93.0225|America/Mexico_City|-6
+TIJ|MMTJ|General Abelardo L. Rodríguez International Airport|Tijuana|Mexico|32.5411|-116.97|America/Tijuana|-8
+TAM|MMTM|General Francisco Javier Mina International Airport|Tampico|Mexico|22.2964|-97.8659|America/Mexico_City|-6
+TSL|MMTN|Tamuin Airport|Tamuin|Mexico|22.0383|-98.8065|America/Mexico_City|-6
+TLC|MMTO|Licenciado Adolfo Lopez Mateos International Airport|Toluca|Mexico|19.3371|-99.566|America/Mexico_City|-6
+TAP|MMTP|Tapachula International Airport|Tapachula|Mexico|14.7943|-92.37|America/Mexico_City|-6
+CUN|MMUN|Cancún International Airport|Cancun|Mexico|21.0365|-86.8771|America/Cancun|-5
+VSA|MMVA|Carlos Rovirosa Pérez International Airport|Villahermosa|Mexico|17.997|-92.8174|America/Mexico_City|-6
+VER|MMVR|General Heriberto Jara International Airport|Vera Cruz|Mexico|19.1459|-96.1873|America/Mexico_City|-6
+ZCL|MMZC|General Leobardo C. Ruiz International Airport|Zacatecas|Mexico|22.8971|-102.687|America/Mexico_City|-6
+ZIH|MMZH|Ixtapa Zihuatanejo International Airport|Zihuatanejo|Mexico|17.6016|-101.461|America/Mexico_City|-6
+ZMM|MMZM|Zamora Airport|Zamora|Mexico|20.045|-102.276|America/Mexico_City|-6
+ZLO|MMZO|Playa De Oro International Airport|Manzanillo|Mexico|19.1448|-104.559|America/Mexico_City|-6
+BEF|MNBL|Bluefields Airport|Bluefields|Nicaragua|11.991|-83.7741|America/Managua|-6
+MGA|MNMG|Augusto C. Sandino (Managua) International Airport|Managua|Nicaragua|12.1415|-86.1682|America/Managua|-6
+PUZ|MNPC|Puerto Cabezas Airport|Puerto Cabezas|Nicaragua|14.0472|-83.3867|America/Managua|-6
+BOC|MPBO|Bocas Del Toro International Airport|Bocas Del Toro|Panama|9.3408|-82.2508|America/Panama|-5
+CHX|MPCH|Cap Manuel Niño International Airport|Changuinola|Panama|9.459|-82.5151|America/Panama|-5
+DAV|MPDA|Enrique Malek International Airport|David|Panama|8.391|-82.435|America/Panama|-5
+BLB|MPHO|Panama Pacific International Airport|Howard|Panama|8.9148|-79.5996|America/Panama|-5
+PAC|MPMG|Marcos A. Gelabert International Airport|Panama|Panama|8.9733|-79.5556|America/Panama|-5
+SYP|MPSA|Ruben Cantu Airport|Santiago|Panama|8.0856|-80.9453|America/Panama|-5
+PTY|MPTO|Tocumen International Airport|Panama City|Panama|9.0714|-79.3835|America/Panama|-5
+BAI|MRBA|Buenos Aires Airport|Buenos Aires|Costa Rica|9.1639|-83.3302|America/Costa_Rica|-6
+OTR|MRCC|Coto 47 Airport|Coto 47|Costa Rica|8.6016|-82.9686|America/Costa_Rica|-6
+JAP|MRCH|Chacarita Airport|Chacarita|Costa Rica|9.9814|-84.7727|America/Costa_Rica|-6
+GLF|MRGF|Golfito Airport|Golfito|Costa Rica|8.654|-83.1822|America/Costa_Rica|-6
+GPL|MRGP|Guapiles Airport|Guapiles|Costa Rica|10.2172|-83.797|America/Costa_Rica|-6
+LIR|MRLB|Daniel Oduber Quiros International Airport|Liberia|Costa Rica|10.5933|-85.5444|America/Costa_Rica|-6
+LSL|MRLC|Los Chiles Airport|Los Chiles|Costa Rica|11.0353|-84.7061|America/Costa_Rica|-6
+LIO|MRLM|Limon International Airport|Limon|Costa Rica|9.958|-83.022|America/Costa_Rica|-6
+NOB|MRNS|Nosara Airport|Nosara Beach|Costa Rica|9.9765|-85.653|America/Costa_Rica|-6
+SJO|MROC|Juan Santamaria International Airport|San Jose|Costa Rica|9.9939|-84.2088|America/Costa_Rica|-6
+PMZ|MRPM|Palmar Sur Airport|Palmar Sur|Costa Rica|8.951|-83.4686|America/Costa_Rica|-6
+XQP|MRQP|Quepos Managua Airport|Quepos|Costa Rica|9.4432|-84.1298|America/Costa_Rica|-6
+TOO|MRSV|San Vito De Java Airport|San Vito De Jaba|Costa Rica|8.8261|-82.9589|America/Costa_Rica|-6
+SAL|MSLP|Monseñor Óscar Arnulfo Romero International Airport|San Salvador|El Salvador|13.4409|-89.0557|America/El_Salvador|-6
+CYA|MTCA|Les Cayes Airport|Cayes|Haiti|18.2711|-73.7883|America/Port-au-Prince|-5
+CAP|MTCH|Cap Haitien International Airport|Cap Haitien|Haiti|19.733|-72.1947|America/Port-au-Prince|-5
+JAK|MTJA|Jacmel Airport|Jacmel|Haiti|18.2411|-72.5185|America/Port-au-Prince|-5
+PAP|MTPP|Toussaint Louverture International Airport|Port-au-prince|Haiti|18.58|-72.2925|America/Port-au-Prince|-5
+BCA|MUBA|Gustavo Rizo Airport|Baracoa Playa|Cuba|20.3653|-74.5062|America/Havana|-5
+BYM|MUBY|Carlos Manuel de Cespedes Airport|Bayamo|Cuba|20.3964|-76.6214|America/Havana|-5
+AVI|MUCA|Maximo Gomez Airport|Ciego De Avila|Cuba|22.0271|-78.7896|America/Havana|-5
+CCC|MUCC|Jardines Del Rey Airport|Cunagua|Cuba|22.461|-78.3284|America/Havana|-5
+CFG|MUCF|Jaime Gonzalez Airport|Cienfuegos|Cuba|22.15|-80.4142|America/Havana|-5
+CYO|MUCL|Vilo Acuña International Airport|Cayo Largo del Sur|Cuba|21.6165|-81.546|America/Havana|-5
+CMW|MUCM|Ignacio Agramonte International Airport|Camaguey|Cuba|21.4203|-77.8475|America/Havana|-5
+SCU|MUCU|Antonio Maceo International Airport|Santiago De Cuba|Cuba|19.9698|-75.8354|America/Havana|-5
+NBW|MUGM|Leeward Point Field|Guantanamo|Cuba|19.9065|-75.2071||-5
+GAO|MUGT|Mariana Grajales Airport|Guantanamo|Cuba|20.0853|-75.1583|America/Havana|-5
+HAV|MUHA|José Martí International Airport|Havana|Cuba|22.9892|-82.4091|America/Havana|-5
+HOG|MUHG|Frank Pais International Airport|Holguin|Cuba|20.7856|-76.3151|America/Havana|-5
+LCL|MULM|La Coloma Airport|La Coloma|Cuba|22.3361|-83.6419|America/Havana|-5
+MOA|MUMO|Orestes Acosta Airport|Moa|Cuba|20.6539|-74.9222|America/Havana|-5
+MZO|MUMZ|Sierra Maestra Airport|Manzanillo|Cuba|20.2881|-77.0892|America/Havana|-5
+GER|MUNG|Rafael Cabrera Airport|Nueva Gerona|Cuba|21.8347|-82.7838|America/Havana|-5
+UPB|MUPB|Playa Baracoa Airport|Baracoa Playa|Cuba|23.0328|-82.5794|America/Havana|-5
+QPD|MUPR|Pinar Del Rio Airport|Pinar Del Rio Norte|Cuba|22.4214|-83.6784|America/Havana|-5
+SNU|MUSC|Abel Santamaria Airport|Santa Clara|Cuba|22.4922|-79.9436|America/Havana|-5
+SZJ|MUSN|Siguanea Airport|Siguanea|Cuba|21.6425|-82.9551|America/Havana|-5
+USS|MUSS|Sancti Spiritus Airport|Sancti Spiritus|Cuba|21.9704|-79.4427|America/Havana|-5
+VRA|MUVR|Juan Gualberto Gomez International Airport|Varadero|Cuba|23.0344|-81.4353|America/Havana|-5
+VTU|MUVT|Hermanos Ameijeiras Airport|Las Tunas|Cuba|20.9876|-76.9358|America/Havana|-5
+CYB|MWCB|Gerrard Smith International Airport|Cayman Brac|Cayman Islands|19.687|-79.8828|America/Cayman|-5
+GCM|MWCR|Owen Roberts International Airport|Georgetown|Cayman Islands|19.2928|-81.3577|America/Cayman|-5
+MAY|MYAB|Clarence A. Bain Airport|Clarence Bain|Bahamas|24.2877|-77.6846|America/Nassau|-5
+ASD|MYAF|Andros Town Airport|Andros Town|Bahamas|24.6979|-77.7956|America/Nassau|-5
+MHH|MYAM|Leonard M Thompson International Airport|Marsh Harbor|Bahamas|26.5114|-77.0835|America/Nassau|-5
+SAQ|MYAN|San Andros Airport|San Andros|Bahamas|25.0538|-78.049|America/Nassau|-5
+AXP|MYAP|Spring Point Airport|Spring Point|Bahamas|22.4418|-73.9709|America/Nassau|-5
+TCB|MYAT|Treasure Cay Airport|Treasure Cay|Bahamas|26.7453|-77.3913|America/Nassau|-5
+CCZ|MYBC|Chub Cay Airport|Chub Cay|Bahamas|25.4171|-77.8809|America/Nassau|-5
+GHC|MYBG|Great Harbour Cay Airport|Bullocks Harbour|Bahamas|25.7383|-77.8401|America/Nassau|-5
+BIM|MYBS|South Bimini Airport|Alice Town|Bahamas|25.6999|-79.2647|America/Nassau|-5
+GGT|MYEF|Exuma International Airport|Great Exuma|Bahamas|23.5626|-75.878|America/Nassau|-5
+ELH|MYEH|North Eleuthera Airport|North Eleuthera|Bahamas|25.4749|-76.6835|America/Nassau|-5
+GHB|MYEM|Governor's Harbour Airport|Governor's Harbor|Bahamas|25.2847|-76.331|America/Nassau|-5
+NMC|MYEN|Normans Cay Airport|Norman's Cay|Bahamas|24.5943|-76.8202|America/Nassau|-5
+RSD|MYER|Rock Sound Airport|Rock Sound|Bahamas|24.8951|-76.1769|America/Nassau|-5
+TYM|MYES|Staniel Cay Airport|Staniel Cay|Bahamas|24.1691|-76.4391|America/Nassau|-5
+FPO|MYGF|Grand Bahama International Airport|Freeport|Bahamas|26.5587|-78.6956|America/Nassau|-5
+IGA|MYIG|Inagua Airport|Matthew Town|Bahamas|20.975|-73.6669|America/Nassau|-5
+LGI|MYLD|Deadman's Cay Airport|Dead Man's Cay|Bahamas|23.179|-75.0936|America/Nassau|-5
+SML|MYLS|Stella Maris Airport|Stella Maris|Bahamas|23.5823|-75.2686|America/Nassau|-5
+MYG|MYMM|Mayaguana Airport|Mayaguana|Bahamas|22.3795|-73.0135|America/Nassau|-5
+NAS|MYNN|Lynden Pindling International Airport|Nassau|Bahamas|25.039|-77.4662|America/Nassau|-5
+DCT|MYRD|Duncan Town Airport|Duncan Town|Bahamas|22.1818|-75.7295|America/Nassau|-5
+RCY|MYRP|Rum Cay Airport|Port Nelson|Bahamas|23.6844|-74.8362|America/Nassau|-5
+ZSA|MYSM|San Salvador Airport|Cockburn Town|Bahamas|24.0633|-74.524|America/Nassau|-5
+BZE|MZBZ|Philip S. W. Goldson International Airport|Belize City|Belize|17.5391|-88.3082|America/Belize|-6
+AIT|NCAI|Aitutaki Airport|Aitutaki|Cook Islands|-18.8309|-159.764|Pacific/Rarotonga|-10
+RAR|NCRG|Rarotonga International Airport|Avarua|Cook Islands|-21.2027|-159.806|Pacific/Rarotonga|-10
+NAN|NFFN|Nadi International Airport|Nandi|Fiji|-17.7554|177.443|Pacific/Fiji|12
+SUV|NFNA|Nausori International Airport|Nausori|Fiji|-18.0433|178.559|Pacific/Fiji|12
+TBU|NFTF|Fua'amotu International Airport|Tongatapu|Tonga|-21.2412|-175.15|Pacific/Tongatapu|13
+VAV|NFTV|Vava'u International Airport|Vava'u|Tonga|-18.5853|-173.962|Pacific/Tongatapu|13
+TRW|NGTA|Bonriki International Airport|Tarawa|Kiribati|1.3816|173.147|Pacific/Tarawa|12
+TBF|NGTE|Tabiteuea North Airport|Tabiteuea North|Kiribati|-1.2245|174.776||12
+WLS|NLWW|Hihifo Airport|Wallis|Wallis and Futuna|-13.2383|-176.199|Pacific/Wallis|12
+APW|NSFA|Faleolo International Airport|Faleolo|Samoa|-13.83|-172.008|Pacific/Apia|13
+PPG|NSTU|Pago Pago International Airport|Pago Pago|American Samoa|-14.331|-170.71|Pacific/Pago_Pago|-11
+RUR|NTAR|Rurutu Airport|Rurutu|French Polynesia|-22.4341|-151.361||-10
+TUB|NTAT|Tubuai Airport|Tubuai|French Polynesia|-23.3654|-149.524|Pacific/Tahiti|-10
+AAA|NTGA|Anaa Airport|Anaa|French Polynesia|-17.3526|-145.51|Pacific/Tahiti|-10
+FGU|NTGB|Fangatau Airport|Fangatau|French Polynesia|-15.8199|-140.887|Pacific/Tahiti|-10
+TIH|NTGC|Tikehau Airport|Tikehau|French Polynesia|-15.1196|-148.231|Pacific/Tahiti|-10
+REA|NTGE|Reao Airport|Reao|French Polynesia|-18.4659|-136.44||-10
+FAV|NTGF|Fakarava Airport|Fakarava|French Polynesia|-16.0541|-145.657|Pacific/Tahiti|-10
+XMH|NTGI|Manihi Airport|Manihi|French Polynesia|-14.4368|-146.07|Pacific/Tahiti|-10
+GMR|NTGJ|Totegegie Airport|Totegegie|French Polynesia|-23.0799|-134.89|Pacific/Gambier|-9
+KKR|NTGK|Kaukura Airport|Kaukura Atoll|French Polynesia|-15.6633|-146.885|Pacific/Tahiti|-10
+MKP|NTGM|Makemo Airport|Makemo|French Polynesia|-16.5839|-143.658|Pacific/Tahiti|-10
+PKP|NTGP|Puka Puka Airport|Puka Puka|French Polynesia|-14.8095|-138.813|Pacific/Tahiti|-10
+TKP|NTGT|Takapoto Airport|Takapoto|French Polynesia|-14.7095|-145.246|Pacific/Tahiti|-10
+AXR|NTGU|Arutua Airport|Arutua|French Polynesia|-15.2483|-146.617|Pacific/Tahiti|-10
+MVT|NTGV|Mataiva Airport|Mataiva|French Polynesia|-14.8681|-148.717|Pacific/Tahiti|-10
+TKX|NTKR|Takaroa Airport|Takaroa|French Polynesia|-14.4558|-145.025|Pacific/Tahiti|-10
+NHV|NTMD|Nuku Hiva Airport|Nuku Hiva|French Polynesia|-8.7956|-140.229|Pacific/Marquesas|-9.5
+BOB|NTTB|Bora Bora Airport|Bora Bora|French Polynesia|-16.4444|-151.751|Pacific/Tahiti|-10
+RGI|NTTG|Rangiroa Airport|Rangiroa|French Polynesia|-14.9543|-147.661|Pacific/Tahiti|-10
+HUH|NTTH|Huahine-Fare Airport|Huahine Island|French Polynesia|-16.6872|-151.022|Pacific/Tahiti|-10
+MOZ|NTTM|Moorea Airport|Moorea|French Polynesia|-17.49|-149.762|Pacific/Tahiti|-10
+HOI|NTTO|Hao Airport|Hao Island|French Polynesia|-18.0748|-140.946||-10
+MAU|NTTP|Maupiti Airport|Maupiti|French Polynesia|-16.4265|-152.244|Pacific/Tahiti|-10
+RFP|NTTR|Raiatea Airport|Raiatea Island|French Polynesia|-16.7229|-151.466|Pacific/Tahiti|-10
+VLI|NVVV|Bauerfield International Airport|Port-vila|Vanuatu|-17.6993|168.32|Pacific/Efate|11
+KNQ|NWWD|Koné Airport|Kone|New Caledonia|-21.0543|164.837|Pacific/Noumea|11
+KOC|NWWK|Koumac Airport|Koumac|New Caledonia|-20.5463|164.256|Pacific/Noumea|11
+LIF|NWWL|Lifou Airport|Lifou|New Caledonia|-20.7748|167.24|Pacific/Noumea|11
+GEA|NWWM|Nouméa Magenta Airport|Noumea|New Caledonia|-22.2583|166.473|Pacific/Noumea|11
+MEE|NWWR|Maré Airport|Mare|New Caledonia|-21.4817|168.038|Pacific/Noumea|11
+TOU|NWWU|Touho Airport|Touho|New Caledonia|-20.79|165.259|Pacific/Noumea|11
+UVE|NWWV|Ouvéa Airport|Ouvea|New Caledonia|-20.6406|166.573|Pacific/Noumea|11
+NOU|NWWW|La Tontouta International Airport|Noumea|New Caledonia|-22.0146|166.213|Pacific/Noumea|11
+AKL|NZAA|Auckland International Airport|Auckland|New Zealand|-37.0081|174.792|Pacific/Auckland|12
+TUO|NZAP|Taupo Airport|Taupo|New Zealand|-38.7397|176.084|Pacific/Auckland|12
+AMZ|NZAR|Ardmore Airport|Ardmore|New Zealand|-37.0297|174.973|Pacific/Auckland|12
+CHC|NZCH|Christchurch International Airport|Christchurch|New Zealand|-43.4894|172.532|Pacific/Auckland|12
+CHT|NZCI|Chatham Islands-Tuuta Airport|Chatham Island|New Zealand|-43.81|-176.457|Pacific/Chatham|12.75
+DUD|NZDN|Dunedin Airport|Dunedin|New Zealand|-45.9281|170.198|Pacific/Auckland|12
+GIS|NZGS|Gisborne Airport|Gisborne|New Zealand|-38.6633|177.978|Pacific/Auckland|12
+GTN|NZGT|Glentanner Airport|Glentanner|New Zealand|-43.9067|170.128|Pacific/Auckland|12
+HKK|NZHK|Hokitika Airfield|Hokitika|New Zealand|-42.7136|170.985|Pacific/Auckland|12
+HLZ|NZHN|Hamilton International Airport|Hamilton|New Zealand|-37.8667|175.332|Pacific/Auckland|12
+KKE|NZKK|Kerikeri Airport|Kerikeri|New Zealand|-35.2628|173.912|Pacific/Auckland|12
+KAT|NZKT|Kaitaia Airport|Kaitaia|New Zealand|-35.07|173.285|Pacific/Auckland|12
+ALR|NZLX|Alexandra Airport|Alexandra|New Zealand|-45.2117|169.373|Pacific/Auckland|12
+MON|NZMC|Mount Cook Airport|Mount Cook|New Zealand|-43.765|170.133|Pacific/Auckland|12
+TEU|NZMO|Manapouri Airport|Manapouri|New Zealand|-45.5331|167.65|Pacific/Auckland|12
+MRO|NZMS|Hood Airport|Masterton|New Zealand|-40.9733|175.634|Pacific/Auckland|12
+NPL|NZNP|New Plymouth Airport|New Plymouth|New Zealand|-39.0086|174.179|Pacific/Auckland|12
+NSN|NZNS|Nelson Airport|Nelson|New Zealand|-41.2983|173.221|Pacific/Auckland|12
+IVC|NZNV|Invercargill Airport|Invercargill|New Zealand|-46.4124|168.313|Pacific/Auckland|12
+OHA|NZOH|RNZAF Base Ohakea|Ohakea|New Zealand|-40.206|175.388|Pacific/Auckland|12
+OAM|NZOU|Oamaru Airport|Oamaru|New Zealand|-44.97|171.082|Pacific/Auckland|12
+PMR|NZPM|Palmerston North Airport|Palmerston North|New Zealand|-40.3206|175.617|Pacific/Auckland|12
+PPQ|NZPP|Paraparaumu Airport|Paraparaumu|New Zealand|-40.9047|174.989|Pacific/Auckland|12
+ZQN|NZQN|Queenstown International Airport|Queenstown International|New Zealand|-45.0211|168.739|Pacific/Auckland|12
+ROT|NZRO|Rotorua Regional Airport|Rotorua|New Zealand|-38.1092|176.317|Pacific/Auckland|12
+TRG|NZTG|Tauranga Airport|Tauranga|New Zealand|-37.6719|176.196|Pacific/Auckland|12
+TIU|NZTU|Timaru Airport|Timaru|New Zealand|-44.3028|171.225|Pacific/Auckland|12
+TWZ|NZUK|Pukaki Airport|Pukaki|New Zealand|-44.235|170.118|Pacific/Auckland|12
+BHE|NZWB|Woodbourne Airport|Woodbourne|New Zealand|-41.5183|173.87|Pacific/Auckland|12
+WKA|NZWF|Wanaka Airport|Wanaka|New Zealand|-44.7222|169.246|Pacific/Auckland|12
+WHK|NZWK|Whakatane Airport|Whakatane|New Zealand|-37.9206|176.914|Pacific/Auckland|12
+WLG|NZWN|Wellington International Airport|Wellington|New Zealand|-41.3272|174.805|Pacific/Auckland|12
+WIR|NZWO|Wairoa Airport|Wairoa|New Zealand|-39.0069|177.407|Pacific/Auckland|12
+WRE|NZWR|Whangarei Airport|Whangarei|New Zealand|-35.7683|174.365|Pacific/Auckland|12
+WSZ|NZWS|Westport Airport|Westport|New Zealand|-41.7381|171.581|Pacific/Auckland|12
+WAG|NZWU|Wanganui Airport|Wanganui|New Zealand|-39.9622|175.025|Pacific/Auckland|12
+HEA|OAHR|Herat Airport|Herat|Afghanistan|34.21|62.2283|Asia/Kabul|4.5
+JAA|OAJL|Jalalabad Airport|Jalalabad|Afghanistan|34.3998|70.4986|Asia/Kabul|4.5
+KBL|OAKB|Hamid Karzai International Airport|Kabul|Afghanistan|34.5659|69.2123|Asia/Kabul|4.5
+KDH|OAKN|Kandahar Airport|Kandahar|Afghanistan|31.5058|65.8478|Asia/Kabul|4.5
+MMZ|OAMN|Maimana Airport|Maimama|Afghanistan|35.9308|64.7609|Asia/Kabul|4.5
+MZR|OAMS|Mazar I Sharif Airport|Mazar-i-sharif|Afghanistan|36.7069|67.2097|Asia/Kabul|4.5
+OAH|OASD|Shindand Airport|Shindand|Afghanistan|33.3913|62.261|Asia/Kabul|4.5
+UND|OAUZ|Konduz Airport|Kunduz|Afghanistan|36.6651|68.9108|Asia/Kabul|4.5
+BAH|OBBI|Bahrain International Airport|Bahrain|Bahrain|26.2708|50.6336|Asia/Bahrain|3
+AHB|OEAB|Abha Regional Airport|Abha|Saudi Arabia|18.2404|42.6566|Asia/Riyadh|3
+HOF|OEAH|Al Ahsa Airport|Al-ahsa|Saudi Arabia|25.2853|49.4852|Asia/Riyadh|3
+ABT|OEBA|Al Baha Airport|El-baha|Saudi Arabia|20.2961|41.6343|Asia/Riyadh|3
+BHH|OEBH|Bisha Airport|Bisha|Saudi Arabia|19.9844|42.6209|Asia/Riyadh|3
+DMM|OEDF|King Fahd International Airport|Dammam|Saudi Arabia|26.4712|49.7979|Asia/Riyadh|3
+DHA|OEDR|King Abdulaziz Air Base|Dhahran|Saudi Arabia|26.2654|50.152|Asia/Riyadh|3
+GIZ|OEGN|Jizan Regional Airport|Gizan|Saudi Arabia|16.9011|42.5858|Asia/Riyadh|3
+ELQ|OEGS|Gassim Airport|Gassim|Saudi Arabia|26.3028|43.7744|Asia/Riyadh|3
+URY|OEGT|Gurayat Domestic Airport|Guriat|Saudi Arabia|31.4124|37.2789|Asia/Riyadh|3
+HAS|OEHL|Ha'il Airport|Hail|Saudi Arabia|27.4379|41.6863|Asia/Riyadh|3
+QJB|OEJB|Jubail Airport|Jubail|Saudi Arabia|27.039|49.4051|Asia/Riyadh|3
+JED|OEJN|King Abdulaziz International Airport|Jeddah|Saudi Arabia|21.6796|39.1565|Asia/Riyadh|3
+KMC|OEKK|King Khaled Military City Airport|King Khalid Mil.city|Saudi Arabia|27.9009|45.5282|Asia/Riyadh|3
+MED|OEMA|Prince Mohammad Bin Abdulaziz Airport|Madinah|Saudi Arabia|24.5534|39.7051|Asia/Riyadh|3
+EAM|OENG|Nejran Airport|Nejran|Saudi Arabia|17.6114|44.4192|Asia/Riyadh|3
+AQI|OEPA|Al Qaisumah/Hafr Al Batin Airport|Hafr Al-batin|Saudi Arabia|28.3352|46.1251|Asia/Riyadh|3
+RAH|OERF|Rafha Domestic Airport|Rafha|Saudi Arabia|29.6264|43.4906|Asia/Riyadh|3
+RUH|OERK|King Khaled International Airport|Riyadh|Saudi Arabia|24.9576|46.6988|Asia/Riyadh|3
+RAE|OERR|Arar Domestic Airport|Arar|Saudi Arabia|30.9066|41.1382|Asia/Riyadh|3
+SHW|OESH|Sharurah Airport|Sharurah|Saudi Arabia|17.4669|47.1214|Asia/Riyadh|3
+SLF|OESL|Sulayel Airport|Sulayel|Saudi Arabia|20.4647|45.6196|Asia/Riyadh|3
+TUU|OETB|Tabuk Airport|Tabuk|Saudi Arabia|28.3654|36.6189|Asia/Riyadh|3
+TIF|OETF|Ta’if Regional Airport|Taif|Saudi Arabia|21.483|40.5434|Asia/Riyadh|3
+TUI|OETR|Turaif Domestic Airport|Turaif|Saudi Arabia|31.6922|38.7315|Asia/Riyadh|3
+EJH|OEWJ|Al Wajh Domestic Airport|Wejh|Saudi Arabia|26.1986|36.4764|Asia/Riyadh|3
+YNB|OEYN|Prince Abdulmohsin Bin Abdulaziz Airport|Yenbo|Saudi Arabia|24.1442|38.0634|Asia/Riyadh|3
+ABD|OIAA|Abadan Airport|Abadan|Iran|30.3711|48.2283|Asia/Tehran|3.5
+DEF|OIAD|Dezful Airport|Dezful|Iran|32.4344|48.3976|Asia/Tehran|3.5
+AKW|OIAG|Aghajari Airport|Aghajari|Iran|30.7444|49.6772|Asia/Tehran|3.5
+GCH|OIAH|Gachsaran Airport|Gachsaran|Iran|30.3376|50.828|Asia/Tehran|3.5
+OMI|OIAJ|Omidiyeh Airport|Omidyeh|Iran|30.8352|49.5349|Asia/Tehran|3.5
+MRX|OIAM|Mahshahr Airport|Bandar Mahshahr|Iran|30.5562|49.1519|Asia/Tehran|3.5
+AWZ|OIAW|Ahwaz Airport|Ahwaz|Iran|31.3374|48.762|Asia/Tehran|3.5
+AEU|OIBA|Abu Musa Island Airport|Abumusa I.|Iran|25.8757|55.033|Asia/Tehran|3.5
+BUZ|OIBB|Bushehr Airport|Bushehr|Iran|28.9448|50.8346|Asia/Tehran|3.5
+KIH|OIBK|Kish International Airport|Kish Island|Iran|26.5262|53.9802|Asia/Tehran|3.5
+BDH|OIBL|Bandar Lengeh Airport|Bandar Lengeh|Iran|26.532|54.8248|Asia/Tehran|3.5
+KHK|OIBQ|Khark Island Airport|Khark Island|Iran|29.2603|50.3239|Asia/Tehran|3.5
+SXI|OIBS|Sirri Island Airport|Siri Island|Iran|25.9089|54.5394|Asia/Tehran|3.5
+LVP|OIBV|Lavan Island Airport|Lavan Island|Iran|26.8103|53.3563|Asia/Tehran|3.5
+KSH|OICC|Shahid Ashrafi Esfahani Airport|Bakhtaran|Iran|34.3459|47.1581|Asia/Tehran|3.5
+SDG|OICS|Sanandaj Airport|Sanandaj|Iran|35.2459|47.0092|Asia/Tehran|3.5
+IFH|OIFE|Hesa Airport|Daran|Iran|32.9289|51.5611|Asia/Tehran|3.5
+KKS|OIFK|Kashan Airport|Kashan|Iran|33.8953|51.577|Asia/Tehran|3.5
+IFN|OIFM|Esfahan Shahid Beheshti International Airport|Esfahan|Iran|32.7508|51.8613|Asia/Tehran|3.5
+RAS|OIGG|Sardar-e-Jangal Airport|Rasht|Iran|37.3233|49.6178|Asia/Tehran|3.5
+AJK|OIHR|Arak Airport|Arak|Iran|34.1381|49.8473|Asia/Tehran|3.5
+THR|OIII|Mehrabad International Airport|Teheran|Iran|35.6892|51.3134|Asia/Tehran|3.5
+GZW|OIIK|Qazvin Airport|Ghazvin|Iran|36.2401|50.0471|Asia/Tehran|3.5
+BND|OIKB|Bandar Abbas International Airport|Bandar Abbas|Iran|27.2183|56.3778|Asia/Tehran|3.5
+JYR|OIKJ|Jiroft Airport|Jiroft|Iran|28.7269|57.6703|Asia/Tehran|3.5
+KER|OIKK|Kerman Airport|Kerman|Iran|30.2744|56.9511|Asia/Tehran|3.5
+HDR|OIKP|Havadarya Airport|Bandar Abbas|Iran|27.1583|56.1725|Asia/Tehran|3.5
+SYJ|OIKY|Sirjan Airport|Sirjan|Iran|29.5509|55.6727|Asia/Tehran|3.5
+XBJ|OIMB|Birjand Airport|Birjand|Iran|32.8981|59.2661|Asia/Tehran|3.5
+CKT|OIMC|Sarakhs Airport|Sarakhs|Iran|36.5012|61.0649|Asia/Tehran|3.5
+RUD|OIMJ|Shahroud Airport|Emam Shahr|Iran|36.4253|55.1042|Asia/Tehran|3.5
+TCX|OIMT|Tabas Airport|Tabas|Iran|33.6678|56.8927|Asia/Tehran|3.5
+KLM|OINE|Kalaleh Airport|Kalaleh|Iran|37.3833|55.452|Asia/Tehran|3.5
+RZR|OINR|Ramsar Airport|Ramsar|Iran|36.9099|50.6796|Asia/Tehran|3.5
+FAZ|OISF|Fasa Airport|Fasa|Iran|28.8918|53.7233|Asia/Tehran|3.5
+JAR|OISJ|Jahrom Airport|Jahrom|Iran|28.5867|53.5791|Asia/Tehran|3.5
+LFM|OISR|Lamerd Airport|Lamerd|Iran|27.3727|53.1888|Asia/Tehran|3.5
+SYZ|OISS|Shiraz Shahid Dastghaib International Airport|Shiraz|Iran|29.5392|52.5898|Asia/Tehran|3.5
+KHY|OITK|Khoy Airport|Khoy|Iran|38.4275|44.9736|Asia/Tehran|3.5
+TBZ|OITT|Tabriz International Airport|Tabriz|Iran|38.1339|46.235|Asia/Tehran|3.5
+JWN|OITZ|Zanjan Airport|Zanjan|Iran|36.7737|48.3594|Asia/Tehran|3.5
+AZD|OIYY|Shahid Sadooghi Airport|Yazd|Iran|31.9049|54.2765|Asia/Tehran|3.5
+ACZ|OIZB|Zabol Airport|Zabol|Iran|31.0983|61.5439|Asia/Tehran|3.5
+ZBR|OIZC|Konarak Airport|Chah Bahar|Iran|25.4433|60.3821|Asia/Tehran|3.5
+ZAH|OIZH|Zahedan International Airport|Zahedan|Iran|29.4757|60.9062|Asia/Tehran|3.5
+IHR|OIZI|Iran Shahr Airport|Iran Shahr|Iran|27.2361|60.72|Asia/Tehran|3.5
+AMM|OJAI|Queen Alia International Airport|Amman|Jordan|31.7226|35.9932|Asia/Amman|2
+ADJ|OJAM|Amman-Marka International Airport|Amman|Jordan|31.9727|35.9916|Asia/Amman|2
+AQJ|OJAQ|Aqaba King Hussein International Airport|Aqaba|Jordan|29.6116|35.0181|Asia/Amman|2
+OMF|OJMF|King Hussein Air College|Mafraq|Jordan|32.3564|36.2592|Asia/Amman|2
+KWI|OKBK|Kuwait International Airport|Kuwait|Kuwait|29.2266|47.9689|Asia/Kuwait|3
+BEY|OLBA|Beirut Rafic Hariri International Airport|Beirut|Lebanon|33.8209|35.4884|Asia/Beirut|2
+KYE|OLKA|Rene Mouawad Air Base|Kleiat|Lebanon|34.5893|36.0113|Asia/Beirut|2
+AUH|OMAA|Abu Dhabi International Airport|Abu Dhabi|United Arab Emirates|24.433|54.6511|Asia/Dubai|4
+AZI|OMAD|Bateen Airport|Abu Dhabi|United Arab Emirates|24.4283|54.4581|Asia/Dubai|4
+DHF|OMAM|Al Dhafra Air Base|Abu Dhabi|United Arab Emirates|24.2482|54.5477|Asia/Dubai|4
+DXB|OMDB|Dubai International Airport|Dubai|United Arab Emirates|25.2528|55.3644|Asia/Dubai|4
+FJR|OMFJ|Fujairah International Airport|Fujeirah|United Arab Emirates|25.1122|56.324|Asia/Dubai|4
+RKT|OMRK|Ras Al Khaimah International Airport|Ras Al Khaimah|United Arab Emirates|25.6135|55.9388|Asia/Dubai|4
+SHJ|OMSJ|Sharjah International Airport|Sharjah|United Arab Emirates|25.3286|55.5172|Asia/Dubai|4
+KHS|OOKB|Khasab Air Base|Khasab|Oman|26.171|56.2406|Asia/Muscat|4
+MSH|OOMA|Masirah Air Base|Masirah|Oman|20.6754|58.8905|Asia/Muscat|4
+MCT|OOMS|Muscat International Airport|Muscat|Oman|23.5933|58.2844|Asia/Muscat|4
+SLL|OOSA|Salalah Airport|Salalah|Oman|17.0387|54.0913|Asia/Muscat|4
+TTH|OOTH|Thumrait Air Base|Thumrait|Oman|17.666|54.0246|Asia/Muscat|4
+BHW|OPBG|Bhagatanwala Airport|Bhagtanwala|Pakistan|32.0561|72.9484|Asia/Karachi|5
+LYP|OPFA|Faisalabad International Airport|Faisalabad|Pakistan|31.365|72.9948|Asia/Karachi|5
+GWD|OPGD|Gwadar International Airport|Gwadar|Pakistan|25.2333|62.3295|Asia/Karachi|5
+GIL|OPGT|Gilgit Airport|Gilgit|Pakistan|35.9188|74.3336|Asia/Karachi|5
+JAG|OPJA|Shahbaz Air Base|Jacobsbad|Pakistan|28.2842|68.4497|Asia/Karachi|5
+KHI|OPKC|Jinnah International Airport|Karachi|Pakistan|24.9065|67.1608|Asia/Karachi|5
+LHE|OPLA|Alama Iqbal International Airport|Lahore|Pakistan|31.5216|74.4036|Asia/Karachi|5
+XJM|OPMA|Mangla Airport|Mangla|Pakistan|33.0501|73.6384|Asia/Karachi|5
+MFG|OPMF|Muzaffarabad Airport|Muzaffarabad|Pakistan|34.339|73.5086|Asia/Karachi|5
+MWD|OPMI|Mianwali Air Base|Mianwali|Pakistan|32.5631|71.5707|Asia/Karachi|5
+MJD|OPMJ|Moenjodaro Airport|Moenjodaro|Pakistan|27.3352|68.1431|Asia/Karachi|5
+MUX|OPMT|Multan International Airport|Multan|Pakistan|30.2032|71.4191|Asia/Karachi|5
+WNS|OPNH|Shaheed Benazirabad Airport|Nawabshah|Pakistan|26.2194|68.3901|Asia/Karachi|5
+PJG|OPPG|Panjgur Airport|Panjgur|Pakistan|26.9545|64.1325|Asia/Karachi|5
+PSI|OPPI|Pasni Airport|Pasni|Pakistan|25.2905|63.3451|Asia/Karachi|5
+PEW|OPPS|Peshawar International Airport|Peshawar|Pakistan|33.9939|71.5146|Asia/Karachi|5
+UET|OPQT|Quetta International Airport|Quetta|Pakistan|30.2514|66.9378|Asia/Karachi|5
+RYK|OPRK|Shaikh Zaid Airport|Rahim Yar Khan|Pakistan|28.3839|70.2796|Asia/Karachi|5
+RAZ|OPRT|Rawalakot Airport|Rawala Kot|Pakistan|33.8497|73.7981|Asia/Karachi|5
+SKZ|OPSK|Sukkur Airport|Sukkur|Pakistan|27.722|68.7917|Asia/Karachi|5
+SDT|OPSS|Saidu Sharif Airport|Saidu Sharif|Pakistan|34.8136|72.3528|Asia/Karachi|5
+SUL|OPSU|Sui Airport|Sui|Pakistan|28.6451|69.1769|Asia/Karachi|5
+BDN|OPTH|Talhar Airport|Talhar|Pakistan|24.8415|68.8384|Asia/Karachi|5
+WAF|OPWN|Wana Airport|Wana|Pakistan|32.3047|69.5704|Asia/Karachi|5
+PZH|OPZB|Zhob Airport|Zhob|Pakistan|31.3584|69.4636|Asia/Karachi|5
+BSR|ORMM|Basrah International Airport|Basrah|Iraq|30.5491|47.6621|Asia/Baghdad|3
+ALP|OSAP|Aleppo International Airport|Aleppo|Syria|36.1807|37.2244|Asia/Damascus|2
+DAM|OSDI|Damascus International Airport|Damascus|Syria|33.4115|36.5156|Asia/Damascus|2
+DEZ|OSDZ|Deir ez-Zor Air Base|Deire Zor|Syria|35.2854|40.176|Asia/Damascus|2
+LTK|OSLK|Bassel Al-Assad International Airport|Latakia|Syria|35.4011|35.9487|Asia/Damascus|2
+PMS|OSPR|Palmyra Airport|Palmyra|Syria|34.5574|38.3169|Asia/Damascus|2
+DIA|OTBD|Doha International Airport|Doha|Qatar|25.2611|51.5651|Asia/Qatar|3
+CIS|PCIS|Canton Island Airport|Canton Island|Kiribati|-2.7681|-171.71|Pacific/Enderbury|13
+ROP|PGRO|Rota International Airport|Rota|Northern Mariana Islands|14.1743|145.243|Pacific/Saipan|10
+SPN|PGSN|Saipan International Airport|Saipan|Northern Mariana Islands|15.119|145.729|Pacific/Saipan|10
+UAM|PGUA|Andersen Air Force Base|Andersen|Guam|13.584|144.93|Pacific/Guam|10
+GUM|PGUM|Antonio B. Won Pat International Airport|Agana|Guam|13.4834|144.796|Pacific/Guam|10
+TIQ|PGWT|Tinian International Airport|West Tinian|Northern Mariana Islands|14.9992|145.619|Pacific/Saipan|10
+MAJ|PKMJ|Marshall Islands International Airport|Majuro|Marshall Islands|7.0648|171.272|Pacific/Majuro|12
+KWA|PKWA|Bucholz Army Air Field|Kwajalein|Marshall Islands|8.7201|167.732|Pacific/Majuro|12
+CXI|PLCH|Cassidy International Airport|Kiritimati|Kiribati|1.9862|-157.35||-12
+MDY|PMDY|Henderson Field|Midway|Midway Islands|28.2017|-177.381|Pacific/Midway|-11
+TKK|PTKK|Chuuk International Airport|Chuuk|Micronesia|7.4619|151.843|Pacific/Truk|10
+PNI|PTPN|Pohnpei International Airport|Pohnpei|Micronesia|6.9851|158.209|Pacific/Ponape|11
+ROR|PTRO|Babelthuap Airport|Babelthuap|Palau|7.3673|134.5442|Pacific/Palau|9
+KSA|PTSA|Kosrae International Airport|Kosrae|Micronesia|5.357|162.958|Pacific/Kosrae|11
+YAP|PTYA|Yap International Airport|Yap|Micronesia|9.4989|138.083|Pacific/Truk|10
+KNH|RCBS|Kinmen Airport|Kinmen|Taiwan|24.4279|118.359|Asia/Taipei|8
+TTT|RCFN|Taitung Airport|Fengnin|Taiwan|22.755|121.102|Asia/Taipei|8
+GNI|RCGI|Lyudao Airport|Green Island|Taiwan|22.6739|121.466|Asia/Taipei|8
+KHH|RCKH|Kaohsiung International Airport|Kaohsiung|Taiwan|22.5771|120.35|Asia/Taipei|8
+CYI|RCKU|Chiayi Airport|Chiayi|Taiwan|23.4618|120.393|Asia/Taipei|8
+KYD|RCLY|Lanyu Airport|Lanyu|Taiwan|22.027|121.535|Asia/Taipei|8
+RMQ|RCMQ|Taichung Ching Chuang Kang Airport|Taichung|Taiwan|24.2647|120.621|Asia/Taipei|8
+TNN|RCNN|Tainan Airport|Tainan|Taiwan|22.9504|120.206|Asia/Taipei|8
+HSZ|RCPO|Hsinchu Air Base|Hsinchu|Taiwan|24.818|120.939|Asia/Taipei|8
+MZG|RCQC|Makung Airport|Makung|Taiwan|23.5687|119.628|Asia/Taipei|8
+PIF|RCSQ|Pingtung North Airport|Pingtung|Taiwan|22.7002|120.482|Asia/Taipei|8
+TSA|RCSS|Taipei Songshan Airport|Taipei|Taiwan|25.0694|121.552|Asia/Taipei|8
+TPE|RCTP|Taiwan Taoyuan International Airport|Taipei|Taiwan|25.0777|121.233|Asia/Taipei|8
+WOT|RCWA|Wang-an Airport|Wang An|Taiwan|23.3674|119.5028|Asia/Taipei|8
+HUN|RCYU|Hualien Airport|Hualien|Taiwan|24.0231|121.618|Asia/Taipei|8
+NRT|RJAA|Narita International Airport|Tokyo|Japan|35.7647|140.386|Asia/Tokyo|9
+MMJ|RJAF|Matsumoto Airport|Matsumoto|Japan|36.1668|137.923|Asia/Tokyo|9
+IBR|RJAH|Hyakuri Airport|Ibaraki|Japan|36.1811|140.415|Asia/Tokyo|9
+MUS|RJAM|Minami Torishima Airport|Minami Tori Shima|Japan|24.2897|153.979|Asia/Tokyo|9
+IWO|RJAW|Iwo Jima Airport|Iwojima|Japan|24.784|141.323|Asia/Tokyo|9
+SHM|RJBD|Nanki Shirahama Airport|Nanki-shirahama|Japan|33.6622|135.364|Asia/Tokyo|9
+OBO|RJCB|Tokachi-Obihiro Airport|Obihiro|Japan|42.7333|143.217|Asia/Tokyo|9
+CTS|RJCC|New Chitose Airport|Sapporo|Japan|42.7752|141.692|Asia/Tokyo|9
+HKD|RJCH|Hakodate Airport|Hakodate|Japan|41.77|140.822|Asia/Tokyo|9
+MMB|RJCM|Memanbetsu Airport|Memanbetsu|Japan|43.8806|144.164|Asia/Tokyo|9
+SHB|RJCN|Nakashibetsu Airport|Nakashibetsu|Japan|43.5775|144.96|Asia/Tokyo|9
+WKJ|RJCW|Wakkanai Airport|Wakkanai|Japan|45.4042|141.801|Asia/Tokyo|9
+IKI|RJDB|Iki Airport|Iki|Japan|33.749|129.785|Asia/Tokyo|9
+UBJ|RJDC|Yamaguchi Ube Airport|Yamaguchi|Japan|33.93|131.279|Asia/Tokyo|9
+TSJ|RJDT|Tsushima Airport|Tsushima|Japan|34.2849|129.331|Asia/Tokyo|9
+MBE|RJEB|Monbetsu Airport|Monbetsu|Japan|44.3039|143.404|Asia/Tokyo|9
+AKJ|RJEC|Asahikawa Airport|Asahikawa|Japan|43.6708|142.447|Asia/Tokyo|9
+OIR|RJEO|Okushiri Airport|Okushiri|Japan|42.0717|139.433|Asia/Tokyo|9
+RIS|RJER|Rishiri Airport|Rishiri Island|Japan|45.242|141.186|Asia/Tokyo|9
+KUM|RJFC|Yakushima Airport|Yakushima|Japan|30.3856|130.659|Asia/Tokyo|9
+FUJ|RJFE|Fukue Airport|Fukue|Japan|32.6663|128.833|Asia/Tokyo|9
+FUK|RJFF|Fukuoka Airport|Fukuoka|Japan|33.5859|130.451|Asia/Tokyo|9
+TNE|RJFG|New Tanegashima Airport|Tanegashima|Japan|30.6051|130.991|Asia/Tokyo|9
+KOJ|RJFK|Kagoshima Airport|Kagoshima|Japan|31.8034|130.719|Asia/Tokyo|9
+KMI|RJFM|Miyazaki Airport|Miyazaki|Japan|31.8772|131.449|Asia/Tokyo|9
+OIT|RJFO|Oita Airport|Oita|Japan|33.4794|131.737|Asia/Tokyo|9
+KKJ|RJFR|Kitakyūshū Airport|Kitakyushu|Japan|33.8459|131.035|Asia/Tokyo|9
+KMJ|RJFT|Kumamoto Airport|Kumamoto|Japan|32.8373|130.855|Asia/Tokyo|9
+NGS|RJFU|Nagasaki Airport|Nagasaki|Japan|32.9169|129.914|Asia/Tokyo|9
+ASJ|RJKA|Amami Airport|Amami|Japan|28.4306|129.713|Asia/Tokyo|9
+OKE|RJKB|Okierabu Airport|Okierabu|Japan|27.4255|128.701|Asia/Tokyo|9
+TKN|RJKN|Tokunoshima Airport|Tokunoshima|Japan|27.8364|128.881|Asia/Tokyo|9
+FKJ|RJNF|Fukui Airport|Fukui|Japan|36.1428|136.224|Asia/Tokyo|9
+QGU|RJNG|Gifu Airport|Gifu|Japan|35.3941|136.87|Asia/Tokyo|9
+KMQ|RJNK|Komatsu Airport|Kanazawa|Japan|36.3946|136.407|Asia/Tokyo|9
+OKI|RJNO|Oki Airport|Oki Island|Japan|36.1811|133.325|Asia/Tokyo|9
+TOY|RJNT|Toyama Airport|Toyama|Japan|36.6483|137.188|Asia/Tokyo|9
+HIJ|RJOA|Hiroshima Airport|Hiroshima|Japan|34.4361|132.919|Asia/Tokyo|9
+OKJ|RJOB|Okayama Airport|Okayama|Japan|34.7569|133.855|Asia/Tokyo|9
+IZO|RJOC|Izumo Airport|Izumo|Japan|35.4136|132.89|Asia/Tokyo|9
+YGJ|RJOH|Miho Yonago Airport|Miho|Japan|35.4922|133.236|Asia/Tokyo|9
+KCZ|RJOK|Kōchi Ryōma Airport|Kochi|Japan|33.5461|133.669|Asia/Tokyo|9
+MYJ|RJOM|Matsuyama Airport|Matsuyama|Japan|33.8272|132.7|Asia/Tokyo|9
+ITM|RJOO|Osaka International Airport|Osaka|Japan|34.7855|135.438|Asia/Tokyo|9
+TTJ|RJOR|Tottori Airport|Tottori|Japan|35.5301|134.167|Asia/Tokyo|9
+TKS|RJOS|Tokushima Airport/JMSDF Air Base|Tokushima|Japan|34.1328|134.607|Asia/Tokyo|9
+TAK|RJOT|Takamatsu Airport|Takamatsu|Japan|34.2142|134.016|Asia/Tokyo|9
+AOJ|RJSA|Aomori Airport|Aomori|Japan|40.7347|140.691|Asia/Tokyo|9
+GAJ|RJSC|Yamagata Airport|Yamagata|Japan|38.4119|140.371|Asia/Tokyo|9
+SDS|RJSD|Sado Airport|Sado|Japan|38.0602|138.414|Asia/Tokyo|9
+HHE|RJSH|Hachinohe Airport|Hachinoe|Japan|40.5564|141.466|Asia/Tokyo|9
+HNA|RJSI|Hanamaki Airport|Hanamaki|Japan|39.4286|141.135|Asia/Tokyo|9
+AXT|RJSK|Akita Airport|Akita|Japan|39.6156|140.219|Asia/Tokyo|9
+MSJ|RJSM|Misawa Air Base|Misawa|Japan|40.7032|141.368|Asia/Tokyo|9
+SDJ|RJSS|Sendai Airport|Sendai|Japan|38.1397|140.917|Asia/Tokyo|9
+NJA|RJTA|Atsugi Naval Air Facility|Atsugi|Japan|35.4546|139.45|Asia/Tokyo|9
+HAC|RJTH|Hachijojima Airport|Hachijojima|Japan|33.115|139.786|Asia/Tokyo|9
+OIM|RJTO|Oshima Airport|Oshima|Japan|34.782|139.36|Asia/Tokyo|9
+HND|RJTT|Tokyo Haneda International Airport|Tokyo|Japan|35.5523|139.78|Asia/Tokyo|9
+OKO|RJTY|Yokota Air Base|Yokota|Japan|35.7485|139.348|Asia/Tokyo|9
+KWJ|RKJJ|Gwangju Airport|Kwangju|South Korea|35.1232|126.8054|Asia/Seoul|9
+CHN|RKJU|Jeon Ju Airport (G-703)|Jhunju|South Korea|35.8781|127.1191|Asia/Seoul|9
+RSU|RKJY|Yeosu Airport|Yeosu|South Korea|34.8423|127.617|Asia/Seoul|9
+KAG|RKNN|Gangneung Airport (K-18)|Kangnung|South Korea|37.7536|128.9439|Asia/Seoul|9
+CJU|RKPC|Jeju International Airport|Cheju|South Korea|33.5113|126.493|Asia/Seoul|9
+CHF|RKPE|Jinhae Airbase/Airport (G-813/K-10)|Chinhae|South Korea|35.1402|128.6962|Asia/Seoul|9
+PUS|RKPK|Gimhae International Airport|Busan|South Korea|35.1795|128.938|Asia/Seoul|9
+USN|RKPU|Ulsan Airport|Ulsan|South Korea|35.5935|129.352|Asia/Seoul|9
+SSN|RKSM|Seoul Air Base (K-16)|Seoul East|South Korea|37.4447|127.1127|Asia/Seoul|9
+OSN|RKSO|Osan Air Base|Osan|South Korea|37.0906|127.03|Asia/Seoul|9
+GMP|RKSS|Gimpo International Airport|Seoul|South Korea|37.5583|126.791|Asia/Seoul|9
+SWU|RKSW|Suwon Airport|Suwon|South Korea|37.2394|127.007|Asia/Seoul|9
+KPO|RKTH|Pohang Airport (G-815/K-3)|Pohang|South Korea|35.988|129.4204|Asia/Seoul|9
+TAE|RKTN|Daegu Airport|Taegu|South Korea|35.8969|128.6553|Asia/Seoul|9
+YEC|RKTY|Yecheon Airbase|Yechon|South Korea|36.6304|128.3497|Asia/Seoul|9
+OKA|ROAH|Naha Airport|Okinawa|Japan|26.1958|127.646|Asia/Tokyo|9
+DNA|RODN|Kadena Air Base|Kadena|Japan|26.3556|127.768|Asia/Tokyo|9
+ISG|ROIG|New Ishigaki Airport|Ishigaki|Japan|24.3964|124.245|Asia/Tokyo|9
+UEO|ROKJ|Kumejima Airport|Kumejima|Japan|26.3635|126.714|Asia/Tokyo|9
+MMD|ROMD|Minami-Daito Airport|Minami Daito|Japan|25.8465|131.263|Asia/Tokyo|9
+MMY|ROMY|Miyako Airport|Miyako|Japan|24.7828|125.295|Asia/Tokyo|9
+KTD|RORK|Kitadaito Airport|Kitadaito|Japan|25.9447|131.327|Asia/Tokyo|9
+SHI|RORS|Shimojishima Airport|Shimojishima|Japan|24.8267|125.145|Asia/Tokyo|9
+TRA|RORT|Tarama Airport|Tarama|Japan|24.6539|124.675|Asia/Tokyo|9
+RNJ|RORY|Yoron Airport|Yoron|Japan|27.044|128.402|Asia/Tokyo|9
+OGN|ROYN|Yonaguni Airport|Yonaguni Jima|Japan|24.4669|122.978|Asia/Tokyo|9
+MNL|RPLL|Ninoy Aquino International Airport|Manila|Philippines|14.5086|121.02|Asia/Manila|8
+CBO|RPMC|Awang Airport|Cotabato|Philippines|7.1652|124.21|Asia/Manila|8
+PAG|RPMP|Pagadian Airport|Pagadian|Philippines|7.8307|123.4612|Asia/Manila|8
+GES|RPMR|General Santos International Airport|Romblon|Philippines|6.058|125.096|Asia/Manila|8
+ZAM|RPMZ|Zamboanga International Airport|Zamboanga|Philippines|6.9224|122.06|Asia/Manila|8
+BAG|RPUB|Loakan Airport|Baguio|Philippines|16.3751|120.62|Asia/Manila|8
+DTE|RPUD|Daet Airport|Daet|Philippines|14.1292|122.98|Asia/Manila|8
+SJI|RPUH|San Jose Airport|San Jose|Philippines|12.3615|121.047|Asia/Manila|8
+MBO|RPUM|Mamburao Airport|Mamburao|Philippines|13.2081|120.605|Asia/Manila|8
+BQA|RPUR|Dr.Juan C. Angara Airport|Baler|Philippines|15.7293|121.5|Asia/Manila|8
+TAC|RPVA|Daniel Z. Romualdez Airport|Tacloban|Philippines|11.228|125.0278|Asia/Manila|8
+BCD|RPVB|Bacolod-Silay Airport|Bacolod|Philippines|10.7764|123.015|Asia/Manila|8
+DGT|RPVD|Sibulan Airport|Dumaguete|Philippines|9.3337|123.3|Asia/Manila|8
+MPH|RPVE|Godofredo P. Ramos Airport|Caticlan|Philippines|11.9245|121.954|Asia/Manila|8
+ILO|RPVI|Iloilo International Airport|Iloilo|Philippines|10.833|122.4934|Asia/Manila|8
+KLO|RPVK|Kalibo International Airport|Kalibo|Philippines|11.6794|122.376|Asia/Manila|8
+PPS|RPVP|Puerto Princesa Airport|Puerto Princesa|Philippines|9.7421|118.759|Asia/Manila|8
+EUQ|RPVS|Evelio Javier Airport|San Jose|Philippines|10.766|121.933|Asia/Manila|8
+COC|SAAC|Comodoro Pierrestegui Airport|Concordia|Argentina|-31.2969|-57.9966|America/Cordoba|-3
+GHU|SAAG|Gualeguaychu Airport|Gualeguaychu|Argentina|-33.0103|-58.6131|America/Cordoba|-3
+JNI|SAAJ|Junin Airport|Junin|Argentina|-34.5459|-60.9306|America/Buenos_Aires|-3
+PRA|SAAP|General Urquiza Airport|Parana|Argentina|-31.7948|-60.4804|America/Cordoba|-3
+ROS|SAAR|Islas Malvinas Airport|Rosario|Argentina|-32.9036|-60.785|America/Cordoba|-3
+SFN|SAAV|Sauce Viejo Airport|Santa Fe|Argentina|-31.7117|-60.8117|America/Cordoba|-3
+AEP|SABE|Jorge Newbery Airpark|Buenos Aires|Argentina|-34.5592|-58.4156|America/Buenos_Aires|-3
+COR|SACO|Ingeniero Ambrosio Taravella Airport|Cordoba|Argentina|-31.3236|-64.208|America/Cordoba|-3
+FDO|SADF|San Fernando Airport|San Fernando|Argentina|-34.4532|-58.5896|America/Buenos_Aires|-3
+LPG|SADL|La Plata Airport|La Plata|Argentina|-34.9722|-57.8947|America/Buenos_Aires|-3
+EPA|SADP|El Palomar Airport|El Palomar|Argentina|-34.6099|-58.6126|America/Buenos_Aires|-3
+HOS|SAHC|Chos Malal Airport|Chosmadal|Argentina|-37.4447|-70.2225|America/Argentina/Salta|-3
+GNR|SAHR|Dr. Arturo H. Illia Airport|Fuerte Gral Roca|Argentina|-39.0007|-67.6205|America/Argentina/Salta|-3
+MDZ|SAME|El Plumerillo Airport|Mendoza|Argentina|-32.8317|-68.7929|America/Mendoza|-3
+LGS|SAMM|Comodoro D.R. Salomón Airport|Malargue|Argentina|-35.4936|-69.5743|America/Mendoza|-3
+AFA|SAMR|Suboficial Ay Santiago Germano Airport|San Rafael|Argentina|-34.5883|-68.4039|America/Mendoza|-3
+CTC|SANC|Catamarca Airport|Catamarca|Argentina|-28.5956|-65.7517|America/Catamarca|-3
+SDE|SANE|Vicecomodoro Angel D. La Paz Aragonés Airport|Santiago Del Estero|Argentina|-27.7656|-64.31|America/Cordoba|-3
+IRJ|SANL|Capitan V A Almonacid Airport|La Rioja|Argentina|-29.3816|-66.7958|America/Argentina/La_Rioja|-3
+TUC|SANT|Teniente Benjamin Matienzo Airport|Tucuman|Argentina|-26.8409|-65.1049|America/Argentina/Tucuman|-3
+UAQ|SANU|Domingo Faustino Sarmiento Airport|San Juan|Argentina|-31.5715|-68.4182|America/Argentina/San_Juan|-3
+RCU|SAOC|Area De Material Airport|Rio Cuarto|Argentina|-33.0851|-64.2613|America/Cordoba|-3
+VDR|SAOD|Villa Dolores Airport|Villa Dolores|Argentina|-31.9452|-65.1463|America/Cordoba|-3
+VME|SAOR|Villa Reynolds Airport|Villa Reynolds|Argentina|-33.7299|-65.3874|America/Argentina/San_Luis|-3
+LUQ|SAOU|Brigadier Mayor D Cesar Raul Ojeda Airport|San Luis|Argentina|-33.2732|-66.3564|America/Argentina/San_Luis|-3
+CNQ|SARC|Corrientes Airport|Corrientes|Argentina|-27.4455|-58.7619|America/Cordoba|-3
+RES|SARE|Resistencia International Airport|Resistencia|Argentina|-27.45|-59.0561|America/Cordoba|-3
+FMA|SARF|Formosa Airport|Formosa|Argentina|-26.2127|-58.2281|America/Cordoba|-3
+IGR|SARI|Cataratas Del Iguazú International Airport|Iguazu Falls|Argentina|-25.7373|-54.4734|America/Cordoba|-3
+AOL|SARL|Paso De Los Libres Airport|Paso De Los Libres|Argentina|-29.6894|-57.1521|America/Cordoba|-3
+MCS|SARM|Monte Caseros Airport|Monte Caseros|Argentina|-30.2719|-57.6402|America/Cordoba|-3
+PSS|SARP|Libertador Gral D Jose De San Martin Airport|Posadas|Argentina|-27.3858|-55.9707|America/Cordoba|-3
+PRQ|SARS|Termal Airport|Presidencia R.s.pena|Argentina|-26.7536|-60.4922|America/Cordoba|-3
+SLA|SASA|Martin Miguel De Guemes International Airport|Salta|Argentina|-24.856|-65.4862|America/Argentina/Salta|-3
+JUJ|SASJ|Gobernador Horacio Guzman International Airport|Jujuy|Argentina|-24.3928|-65.0978|America/Jujuy|-3
+ORA|SASO|Orán Airport|Oran|Argentina|-23.1528|-64.3292|America/Argentina/Salta|-3
+ELO|SATD|El Dorado Airport|El Dorado|Argentina|-26.3975|-54.5747|America/Cordoba|-3
+OYA|SATG|Goya Airport|Goya|Argentina|-29.1058|-59.2189|America/Cordoba|-3
+RCQ|SATR|Reconquista Airport|Reconquista|Argentina|-29.2103|-59.68|America/Cordoba|-3
+UZU|SATU|Curuzu Cuatia Airport|Curuzu Cuatia|Argentina|-29.7706|-57.9789|America/Cordoba|-3
+EHL|SAVB|El Bolson Airport|El Bolson|Argentina|-41.9432|-71.5323|America/Argentina/Salta|-3
+CRD|SAVC|General E. Mosconi Airport|Comodoro Rivadavia|Argentina|-45.7853|-67.4655|America/Catamarca|-3
+EQS|SAVE|Brigadier Antonio Parodi Airport|Esquel|Argentina|-42.908|-71.1395|America/Catamarca|-3
+REL|SAVT|Almirante Marco Andres Zar Airport|Trelew|Argentina|-43.2105|-65.2703|America/Catamarca|-3
+VDM|SAVV|Gobernador Castello Airport|Viedma|Argentina|-40.8692|-63.0004|America/Argentina/Salta|-3
+PMY|SAVY|El Tehuelche Airport|Puerto Madryn|Argentina|-42.7592|-65.1027|America/Catamarca|-3
+PUD|SAWD|Puerto Deseado Airport|Puerto Deseado|Argentina|-47.7353|-65.9041|America/Argentina/Rio_Gallegos|-3
+RGA|SAWE|Hermes Quijada International Airport|Rio Grande|Argentina|-53.7777|-67.7494|America/Argentina/Ushuaia|-3
+RGL|SAWG|Piloto Civil N. Fernández Airport|Rio Gallegos|Argentina|-51.6089|-69.3126|America/Argentina/Rio_Gallegos|-3
+USH|SAWH|Malvinas Argentinas Airport|Ushuaia|Argentina|-54.8433|-68.2958|America/Argentina/Ushuaia|-3
+ULA|SAWJ|Capitan D Daniel Vazquez Airport|San Julian|Argentina|-49.3068|-67.8026|America/Argentina/Rio_Gallegos|-3
+PMQ|SAWP|Perito Moreno Airport|Perito Moreno|Argentina|-46.5379|-70.9787|America/Argentina/Rio_Gallegos|-3
+RZA|SAWU|Santa Cruz Airport|Santa Cruz|Argentina|-50.0165|-68.5792|America/Argentina/Rio_Gallegos|-3
+BHI|SAZB|Comandante Espora Airport|Bahia Blanca|Argentina|-38.725|-62.1693|America/Buenos_Aires|-3
+CSZ|SAZC|Brigadier D.H.E. Ruiz Airport|Colonel Suarez|Argentina|-37.4461|-61.8893|America/Buenos_Aires|-3
+OVR|SAZF|Olavarria Airport|Olavarria|Argentina|-36.89|-60.2166|America/Buenos_Aires|-3
+GPO|SAZG|General Pico Airport|General Pico|Argentina|-35.6962|-63.7583|America/Argentina/Salta|-3
+OYO|SAZH|Tres Arroyos Airport|Tres Arroyos|Argentina|-38.3869|-60.3297|America/Buenos_Aires|-3
+MDQ|SAZM|Ástor Piazzola International Airport|Mar Del Plata|Argentina|-37.9342|-57.5733|America/Buenos_Aires|-3
+NQN|SAZN|Presidente Peron Airport|Neuquen|Argentina|-38.949|-68.1557|America/Argentina/Salta|-3
+PEH|SAZP|Comodoro Pedro Zanni Airport|Pehuajo|Argentina|-35.8446|-61.8576|America/Buenos_Aires|-3
+RSA|SAZR|Santa Rosa Airport|Santa Rosa|Argentina|-36.5883|-64.2757|America/Argentina/Salta|-3
+BRC|SAZS|San Carlos De Bariloche Airport|San Carlos De Bariloche|Argentina|-41.1512|-71.1575|America/Argentina/Salta|-3
+TDL|SAZT|Héroes De Malvinas Airport|Tandil|Argentina|-37.2374|-59.2279|America/Buenos_Aires|-3
+VLG|SAZV|Villa Gesell Airport|Villa Gesell|Argentina|-37.2354|-57.0292|America/Buenos_Aires|-3
+CUT|SAZW|Cutral-Co Airport|Cutralco|Argentina|-38.9397|-69.2646|America/Argentina/Salta|-3
+CPC|SAZY|Aviador C. Campos Airport|San Martin Des Andes|Argentina|-40.0754|-71.1373|America/Argentina/Salta|-3
+CDJ|SBAA|Conceição do Araguaia Airport|Conceicao Do Araguaia|Brazil|-8.3483|-49.3015|America/Belem|-3
+AQA|SBAQ|Araraquara Airport|Araracuara|Brazil|-21.812|-48.133|America/Sao_Paulo|-3
+AJU|SBAR|Santa Maria Airport|Aracaju|Brazil|-10.984|-37.0703|America/Fortaleza|-3
+AFL|SBAT|Piloto Osvaldo Marques Dias Airport|Alta Floresta|Brazil|-9.8664|-56.105|America/Campo_Grande|-4
+ARU|SBAU|Araçatuba Airport|Aracatuba|Brazil|-21.1413|-50.4247|America/Sao_Paulo|-3
+BEL|SBBE|Val de Cans/Júlio Cezar Ribeiro International Airport|Belem|Brazil|-1.3793|-48.4763|America/Belem|-3
+BGX|SBBG|Comandante Gustavo Kraemer Airport|Bage|Brazil|-31.3905|-54.1122|America/Sao_Paulo|-3
+PLU|SBBH|Pampulha - Carlos Drummond de Andrade Airport|Belo Horizonte|Brazil|-19.8512|-43.9506|America/Sao_Paulo|-3
+BFH|SBBI|Bacacheri Airport|Curitiba|Brazil|-25.4051|-49.232|America/Sao_Paulo|-3
+BSB|SBBR|Presidente Juscelino Kubistschek International Airport|Brasilia|Brazil|-15.8692|-47.9208|America/Sao_Paulo|-3
+BAU|SBBU|Bauru Airport|Bauru|Brazil|-22.345|-49.0538|America/Sao_Paulo|-3
+BVB|SBBV|Atlas Brasil Cantanhede Airport|Boa Vista|Brazil|2.8414|-60.6922|America/Boa_Vista|-4
+BPG|SBBW|Barra do Garças Airport|Barra Do Garcas|Brazil|-15.8613|-52.3889|America/Campo_Grande|-4
+CAC|SBCA|Cascavel Airport|Cascavel|Brazil|-25.0003|-53.5008|America/Sao_Paulo|-3
+CNF|SBCF|Tancredo Neves International Airport|Belo Horizonte|Brazil|-19.6244|-43.9719|America/Sao_Paulo|-3
+CGR|SBCG|Campo Grande Airport|Campo Grande|Brazil|-20.4687|-54.6725|America/Campo_Grande|-4
+XAP|SBCH|Serafin Enoss Bertaso Airport|Chapeco|Brazil|-27.1342|-52.6566|America/Sao_Paulo|-3
+CLN|SBCI|Brig. Lysias Augusto Rodrigues Airport|Carolina|Brazil|-7.3204|-47.4587|America/Fortaleza|-3
+CCM|SBCM|Diomício Freitas Airport|Criciuma|Brazil|-28.7244|-49.4214|America/Sao_Paulo|-3
+CAW|SBCP|Bartolomeu Lisandro Airport|Campos|Brazil|-21.6983|-41.3017|America/Sao_Paulo|-3
+CMG|SBCR|Corumbá International Airport|Corumba|Brazil|-19.0119|-57.6714|America/Campo_Grande|-4
+CWB|SBCT|Afonso Pena Airport|Curitiba|Brazil|-25.5285|-49.1758|America/Sao_Paulo|-3
+CRQ|SBCV|Caravelas Airport|Caravelas|Brazil|-17.6523|-39.2531|America/Fortaleza|-3
+CXJ|SBCX|Hugo Cantergiani Regional Airport|Caxias Do Sul|Brazil|-29.1971|-51.1875|America/Sao_Paulo|-3
+CGB|SBCY|Marechal Rondon Airport|Cuiaba|Brazil|-15.6529|-56.1167|America/Campo_Grande|-4
+CZS|SBCZ|Cruzeiro do Sul Airport|Cruzeiro do Sul|Brazil|-7.5999|-72.7695|America/Rio_Branco|-5
+PPB|SBDN|Presidente Prudente Airport|President Prudente|Brazil|-22.1751|-51.4246|America/Sao_Paulo|-3
+MAO|SBEG|Eduardo Gomes International Airport|Manaus|Brazil|-3.0386|-60.0497|America/Boa_Vista|-4
+JCR|SBEK|Jacareacanga Airport|Jacare-acanga|Brazil|-6.2332|-57.7769|America/Belem|-3
+IGU|SBFI|Cataratas International Airport|Foz Do Iguacu|Brazil|-25.6003|-54.485|America/Sao_Paulo|-3
+FLN|SBFL|Hercílio Luz International Airport|Florianopolis|Brazil|-27.6703|-48.5525|America/Sao_Paulo|-3
+FEN|SBFN|Fernando de Noronha Airport|Fernando Do Noronha|Brazil|-3.8549|-32.4233|America/Fortaleza|-3
+FOR|SBFZ|Pinto Martins International Airport|Fortaleza|Brazil|-3.7763|-38.5326|America/Fortaleza|-3
+GIG|SBGL|Rio Galeão – Tom Jobim International Airport|Rio De Janeiro|Brazil|-22.81|-43.2506|America/Sao_Paulo|-3
+GJM|SBGM|Guajará-Mirim Airport|Guajara-mirim|Brazil|-10.7864|-65.2848|America/Boa_Vista|-4
+GYN|SBGO|Santa Genoveva Airport|Goiania|Brazil|-16.632|-49.2207|America/Sao_Paulo|-3
+GRU|SBGR|Guarulhos - Governador André Franco Montoro International Airport|Sao Paulo|Brazil|-23.4356|-46.4731|America/Sao_Paulo|-3
+GUJ|SBGW|Guaratinguetá Airport|Guaratingueta|Brazil|-22.7916|-45.2048|America/Sao_Paulo|-3
+ATM|SBHT|Altamira Airport|Altamira|Brazil|-3.2539|-52.254|America/Belem|-3
+ITA|SBIC|Itacoatiara Airport|Itaituba|Brazil|-3.1273|-58.4812|America/Boa_Vista|-4
+ITB|SBIH|Itaituba Airport|Itaituba|Brazil|-4.2423|-56.0007|America/Belem|-3
+IOS|SBIL|Bahia - Jorge Amado Airport|Ilheus|Brazil|-14.816|-39.0332|America/Fortaleza|-3
+IPN|SBIP|Usiminas Airport|Ipatinga|Brazil|-19.4707|-42.4876|America/Sao_Paulo|-3
+ITR|SBIT|Francisco Vilela do Amaral Airport|Itumbiara|Brazil|-18.4447|-49.2134|America/Sao_Paulo|-3
+IMP|SBIZ|Prefeito Renato Moreira Airport|Imperatriz|Brazil|-5.5313|-47.46|America/Fortaleza|-3
+JDF|SBJF|Francisco de Assis Airport|Juiz De Fora|Brazil|-21.7915|-43.3868|America/Sao_Paulo|-3
+JPA|SBJP|Presidente Castro Pinto International Airport|Joao Pessoa|Brazil|-7.1458|-34.9486|America/Fortaleza|-3
+JOI|SBJV|Lauro Carneiro de Loyola Airport|Joinville|Brazil|-26.2245|-48.7974|America/Sao_Paulo|-3
+CPV|SBKG|Presidente João Suassuna Airport|Campina Grande|Brazil|-7.2699|-35.8964|America/Fortaleza|-3
+VCP|SBKP|Viracopos International Airport|Campinas|Brazil|-23.0074|-47.1345|America/Sao_Paulo|-3
+LAJ|SBLJ|Lages Airport|Lajes|Brazil|-27.7821|-50.2815|America/Sao_Paulo|-3
+LIP|SBLN|Lins Airport|Lins|Brazil|-21.664|-49.7305|America/Sao_Paulo|-3
+LDB|SBLO|Governador José Richa Airport|Londrina|Brazil|-23.3336|-51.1301|America/Sao_Paulo|-3
+LAZ|SBLP|Bom Jesus da Lapa Airport|Bom Jesus Da Lapa|Brazil|-13.2621|-43.4081|America/Fortaleza|-3
+MAB|SBMA|João Correa da Rocha Airport|Maraba|Brazil|-5.3686|-49.138|America/Belem|-3
+MEU|SBMD|Monte Dourado Airport|Almeirim|Brazil|-0.8898|-52.6022|America/Belem|-3
+MGF|SBMG|Regional de Maringá - Sílvio Nane Junior Airport|Maringa|Brazil|-23.4794|-52.0122|America/Sao_Paulo|-3
+MOC|SBMK|Mário Ribeiro Airport|Montes Claros|Brazil|-16.7069|-43.8189|America/Sao_Paulo|-3
+PLL|SBMN|Ponta Pelada Airport|Manaus|Brazil|-3.146|-59.9863|America/Boa_Vista|-4
+MCZ|SBMO|Zumbi dos Palmares Airport|Maceio|Brazil|-9.5108|-35.7917|America/Fortaleza|-3
+MCP|SBMQ|Alberto Alcolumbre Airport|Macapa|Brazil|0.0507|-51.0722|America/Fortaleza|-3
+MVF|SBMS|Dix-Sept Rosado Airport|Mocord|Brazil|-5.2019|-37.3643|America/Fortaleza|-3
+MNX|SBMY|Manicoré Airport|Manicore|Brazil|-5.8114|-61.2783|America/Boa_Vista|-4
+NVT|SBNF|Ministro Victor Konder International Airport|Navegantes|Brazil|-26.88|-48.6514|America/Sao_Paulo|-3
+GEL|SBNM|Santo Ângelo Airport|Santo Angelo|Brazil|-28.2817|-54.1691|America/Sao_Paulo|-3
+NAT|SBSG|Governador Aluízio Alves International Airport|Natal|Brazil|-5.7681|-35.3761|America/Fortaleza|-3
+OYK|SBOI|Oiapoque Airport|Oioiapoque|Brazil|3.8555|-51.7969|America/Fortaleza|-3
+POA|SBPA|Salgado Filho Airport|Porto Alegre|Brazil|-29.9944|-51.1714|America/Sao_Paulo|-3
+PHB|SBPB|Prefeito Doutor João Silva Filho Airport|Parnaiba|Brazil|-2.8937|-41.732|America/Fortaleza|-3
+POO|SBPC|Poços de Caldas - Embaixador Walther Moreira Salles Airport|Pocos De Caldas|Brazil|-21.843|-46.5679|America/Sao_Paulo|-3
+PFB|SBPF|Lauro Kurtz Airport|Passo Fundo|Brazil|-28.244|-52.3266|America/Sao_Paulo|-3
+PET|SBPK|João Simões Lopes Neto International Airport|Pelotas|Brazil|-31.7184|-52.3277|America/Sao_Paulo|-3
+PNZ|SBPL|Senador Nilo Coelho Airport|Petrolina|Brazil|-9.3624|-40.5691|America/Fortaleza|-3
+PNB|SBPN|Porto Nacional Airport|Porto Nacional|Brazil|-10.7194|-48.3997|America/Fortaleza|-3
+PMG|SBPP|Ponta Porã Airport|Ponta Pora|Brazil|-22.5496|-55.7026|America/Campo_Grande|-4
+PVH|SBPV|Governador Jorge Teixeira de Oliveira Airport|Porto Velho|Brazil|-8.7093|-63.9023|America/Boa_Vista|-4
+RBR|SBRB|Plácido de Castro Airport|Rio Branco|Brazil|-9.8689|-67.8981|America/Rio_Branco|-5
+REC|SBRF|Guararapes - Gilberto Freyre International Airport|Recife|Brazil|-8.1265|-34.9236|America/Fortaleza|-3
+SDU|SBRJ|Santos Dumont Airport|Rio De Janeiro|Brazil|-22.9105|-43.1631|America/Sao_Paulo|-3
+RAO|SBRP|Leite Lopes Airport|Ribeirao Preto|Brazil|-21.1364|-47.7767|America/Sao_Paulo|-3
+SNZ|SBSC|Santa Cruz Air Force Base|Rio De Janeiro|Brazil|-22.9324|-43.7191|America/Sao_Paulo|-3
+SJK|SBSJ|Professor Urbano Ernesto Stumpf Airport|Sao Jose Dos Campos|Brazil|-23.2292|-45.8615|America/Sao_Paulo|-3
+SLZ|SBSL|Marechal Cunha Machado International Airport|Sao Luis|Brazil|-2.5854|-44.2341|America/Fortaleza|-3
+CGH|SBSP|Congonhas Airport|Sao Paulo|Brazil|-23.6261|-46.6564|America/Sao_Paulo|-3
+SJP|SBSR|Prof. Eribelto Manoel Reino State Airport|Sao Jose Do Rio Preto|Brazil|-20.8166|-49.4065|America/Sao_Paulo|-3
+SSZ|SBST|Base Aérea de Santos Airport|Santos|Brazil|-23.9281|-46.2997|America/Sao_Paulo|-3
+SSA|SBSV|Deputado Luiz Eduardo Magalhães International Airport|Salvador|Brazil|-12.9086|-38.3225|America/Fortaleza|-3
+TMT|SBTB|Trombetas Airport|Oriximina|Brazil|-1.4896|-56.3968|America/Belem|-3
+THE|SBTE|Senador Petrônio Portela Airport|Teresina|Brazil|-5.0599|-42.8235|America/Fortaleza|-3
+TFF|SBTF|Tefé Airport|Tefe|Brazil|-3.3829|-64.7241|America/Boa_Vista|-4
+TRQ|SBTK|Tarauacá Airport|Tarauaca|Brazil|-8.1553|-70.7833|America/Rio_Branco|-5
+TEC|SBTL|Telêmaco Borba Airport|Telemaco Borba|Brazil|-24.3178|-50.6516|America/Sao_Paulo|-3
+TBT|SBTT|Tabatinga Airport|Tabatinga|Brazil|-4.2557|-69.9358|America/Boa_Vista|-4
+TUR|SBTU|Tucuruí Airport|Tucurui|Brazil|-3.786|-49.7203|America/Belem|-3
+SJL|SBUA|São Gabriel da Cachoeira Airport|Sao Gabriel|Brazil|-0.1484|-66.9855|America/Boa_Vista|-4
+PAV|SBUF|Paulo Afonso Airport|Paulo Alfonso|Brazil|-9.4009|-38.2506|America/Fortaleza|-3
+URG|SBUG|Rubem Berta Airport|Uruguaiana|Brazil|-29.7822|-57.0382|America/Sao_Paulo|-3
+UDI|SBUL|Ten. Cel. Aviador César Bombonato Airport|Uberlandia|Brazil|-18.8836|-48.2253|America/Sao_Paulo|-3
+UBA|SBUR|Mário de Almeida Franco Airport|Uberaba|Brazil|-19.7647|-47.9661|America/Sao_Paulo|-3
+VAG|SBVG|Major Brigadeiro Trompowsky Airport|Varginha|Brazil|-21.5901|-45.4733|America/Sao_Paulo|-3
+BVH|SBVH|Brigadeiro Camarão Airport|Vilhena|Brazil|-12.6944|-60.0983|America/Boa_Vista|-4
+VIX|SBVT|Eurico de Aguiar Salles Airport|Vitoria|Brazil|-20.2581|-40.2864|America/Sao_Paulo|-3
+QPS|SBYS|Campo Fontenelle Airport|Piracununga|Brazil|-21.9846|-47.3348|America/Sao_Paulo|-3
+ARI|SCAR|Chacalluta Airport|Arica|Chile|-18.3485|-70.3387|America/Santiago|-4
+BBA|SCBA|Balmaceda Airport|Balmaceda|Chile|-45.9161|-71.6895|America/Santiago|-4
+CCH|SCCC|Chile Chico Airport|Chile Chico|Chile|-46.5833|-71.6874|America/Santiago|-4
+CJC|SCCF|El Loa Airport|Calama|Chile|-22.4982|-68.9036|America/Santiago|-4
+YAI|SCCH|Gral. Bernardo O´Higgins Airport|Chillan|Chile|-36.5825|-72.0314|America/Santiago|-4
+PUQ|SCCI|Pdte. Carlos Ibañez del Campo Airport|Punta Arenas|Chile|-53.0026|-70.8546|America/Santiago|-4
+GXQ|SCCY|Teniente Vidal Airport|Coyhaique|Chile|-45.5942|-72.1061|America/Santiago|-4
+IQQ|SCDA|Diego Aracena Airport|Iquique|Chile|-20.5352|-70.1813|America/Santiago|-4
+SCL|SCEL|Comodoro Arturo Merino Benítez International Airport|Santiago|Chile|-33.393|-70.7858|America/Santiago|-4
+ANF|SCFA|Andrés Sabella Gálvez International Airport|Antofagasta|Chile|-23.4445|-70.4451|America/Santiago|-4
+WPR|SCFM|Capitan Fuentes Martinez Airport Airport|Porvenir|Chile|-53.2537|-70.3192|America/Santiago|-4
+FFU|SCFT|Futaleufú Airport|Futaleufu|Chile|-43.1892|-71.8511|America/Santiago|-4
+LSQ|SCGE|María Dolores Airport|Los Angeles|Chile|-37.4017|-72.4254|America/Santiago|-4
+WPU|SCGZ|Guardiamarina Zañartu Airport|Puerto Williams|Chile|-54.9311|-67.6263|America/Santiago|-4
+CCP|SCIE|Carriel Sur Airport|Concepcion|Chile|-36.7727|-73.0631|America/Santiago|-4
+IPC|SCIP|Mataveri Airport|Easter Island|Chile|-27.1648|-109.422|Pacific/Easter|-6
+ZOS|SCJO|Cañal Bajo Carlos - Hott Siebert Airport|Osorno|Chile|-40.6112|-73.061|America/Santiago|-4
+VLR|SCLL|Vallenar Airport|Vallenar|Chile|-28.5964|-70.756|America/Santiago|-4
+QRC|SCRG|De La Independencia Airport|Rancagua|Chile|-34.1737|-70.7757|America/Santiago|-4
+TNM|SCRM|Teniente Rodolfo Marsh Martin Base|Isla Rey Jorge|Antarctica|-62.1908|-58.9867|Antarctica/South_Pole|12
+LSC|SCSE|La Florida Airport|La Serena|Chile|-29.9162|-71.1995|America/Santiago|-4
+PZS|SCTC|Maquehue Airport|Temuco|Chile|-38.7668|-72.6371|America/Santiago|-4
+PMC|SCTE|El Tepual Airport|Puerto Montt|Chile|-41.4389|-73.094|America/Santiago|-4
+WCH|SCTN|Chaitén Airport|Chaiten|Chile|-42.9328|-72.6991|America/Santiago|-4
+ZAL|SCVD|Pichoy Airport|Valdivia|Chile|-39.65|-73.0861|America/Santiago|-4
+ATF|SEAM|Chachoán Airport|Ambato|Ecuador|-1.2121|-78.5746|America/Guayaquil|-5
+OCC|SECO|Francisco De Orellana Airport|Coca|Ecuador|-0.4629|-76.9868|America/Guayaquil|-5
+CUE|SECU|Mariscal Lamar Airport|Cuenca|Ecuador|-2.8895|-78.9844|America/Guayaquil|-5
+GPS|SEGS|Seymour Airport|Galapagos|Ecuador|-0.4538|-90.2659|Pacific/Galapagos|-6
+GYE|SEGU|José Joaquín de Olmedo International Airport|Guayaquil|Ecuador|-2.1574|-79.8836|America/Guayaquil|-5
+LTX|SELT|Cotopaxi International Airport|Latacunga|Ecuador|-0.9068|-78.6158|America/Guayaquil|-5
+MRR|SEMA|Jose Maria Velasco Ibarra Airport|Macara|Ecuador|-4.3782|-79.941|America/Guayaquil|-5
+XMS|SEMC|Coronel E Carvajal Airport|Macas|Ecuador|-2.2992|-78.1208|America/Guayaquil|-5
+MCH|SEMH|General Manuel Serrano Airport|Machala|Ecuador|-3.2689|-79.9616|America/Guayaquil|-5
+MEC|SEMT|Eloy Alfaro International Airport|Manta|Ecuador|-0.9461|-80.6788|America/Guayaquil|-5
+PVO|SEPV|Reales Tamarindos Airport|Portoviejo|Ecuador|-1.0417|-80.4722|America/Guayaquil|-5
+UIO|SEQM|Mariscal Sucre International Airport|Quito|Ecuador|-0.1292|-78.3575|America/Guayaquil|-5
+ETR|SERO|Santa Rosa International Airport|Santa Rosa|Ecuador|-3.442|-79.997|America/Guayaquil|-5
+SNC|SESA|General Ulpiano Paez Airport|Salinas|Ecuador|-2.205|-80.9889|America/Guayaquil|-5
+TPC|SETR|Tarapoa Airport|Tarapoa|Ecuador|-0.123|-76.3378|America/Guayaquil|-5
+TUA|SETU|Teniente Coronel Luis a Mantilla Airport|Tulcan|Ecuador|0.8095|-77.7081|America/Guayaquil|-5
+ASU|SGAS|Silvio Pettirossi International Airport|Asuncion|Paraguay|-25.24|-57.52|America/Asuncion|-4
+AYO|SGAY|Juan De Ayolas Airport|Ayolas|Paraguay|-27.3706|-56.8541|America/Asuncion|-4
+CIO|SGCO|Teniente Col Carmelo Peralta Airport|Conception|Paraguay|-23.4424|-57.4273|America/Asuncion|-4
+ESG|SGME|Dr. Luis Maria Argaña International Airport|Mariscal Estigarribia|Paraguay|-22.05|-60.62|America/Asuncion|-4
+PIL|SGPI|Carlos Miguel Gimenez Airport|Pilar|Paraguay|-26.8812|-58.318|America/Asuncion|-4
+AXM|SKAR|El Eden Airport|Armenia|Colombia|4.4528|-75.7664|America/Bogota|-5
+PUU|SKAS|Tres De Mayo Airport|Puerto Asis|Colombia|0.5052|-76.5008|America/Bogota|-5
+ELB|SKBC|Las Flores Airport|El Banco|Colombia|9.0455|-73.9749|America/Bogota|-5
+BGA|SKBG|Palonegro Airport|Bucaramanga|Colombia|7.1265|-73.1848|America/Bogota|-5
+BOG|SKBO|El Dorado International Airport|Bogota|Colombia|4.7016|-74.1469|America/Bogota|-5
+BAQ|SKBQ|Ernesto Cortissoz International Airport|Barranquilla|Colombia|10.8896|-74.7808|America/Bogota|-5
+BSC|SKBS|José Celestino Mutis Airport|Bahia Solano|Colombia|6.2029|-77.3947|America/Bogota|-5
+BUN|SKBU|Gerardo Tobar López Airport|Buenaventura|Colombia|3.8196|-76.9898|America/Bogota|-5
+CUC|SKCC|Camilo Daza International Airport|Cucuta|Colombia|7.9276|-72.5115|America/Bogota|-5
+CTG|SKCG|Rafael Nuñez International Airport|Cartagena|Colombia|10.4424|-75.513|America/Bogota|-5
+CLO|SKCL|Alfonso Bonilla Aragon International Airport|Cali|Colombia|3.5432|-76.3816|America/Bogota|-5
+TCO|SKCO|La Florida Airport|Tumaco|Colombia|1.8144|-78.7492|America/Bogota|-5
+CZU|SKCZ|Las Brujas Airport|Corozal|Colombia|9.3327|-75.2856|America/Bogota|-5
+EJA|SKEJ|Yariguíes Airport|Barrancabermeja|Colombia|7.0243|-73.8068|America/Bogota|-5
+FLA|SKFL|Gustavo Artunduaga Paredes Airport|Florencia|Colombia|1.5892|-75.5644|America/Bogota|-5
+GIR|SKGI|Santiago Vila Airport|Girardot|Colombia|4.2762|-74.7967|America/Bogota|-5
+GPI|SKGP|Juan Casiano Airport|Guapi|Colombia|2.5701|-77.8986|America/Bogota|-5
+IBE|SKIB|Perales Airport|Ibague|Colombia|4.4216|-75.1333|America/Bogota|-5
+IPI|SKIP|San Luis Airport|Ipiales|Colombia|0.8619|-77.6718|America/Bogota|-5
+APO|SKLC|Antonio Roldan Betancourt Airport|Carepa|Colombia|7.812|-76.7164|America/Bogota|-5
+MCJ|SKLM|Jorge Isaac Airport|La Mina|Colombia|11.2325|-72.4901|America/Bogota|-5
+LET|SKLT|Alfredo Vásquez Cobo International Airport|Leticia|Colombia|-4.1936|-69.9432|America/Bogota|-5
+EOH|SKMD|Enrique Olaya Herrera Airport|Medellin|Colombia|6.2205|-75.5906|America/Bogota|-5
+MGN|SKMG|Baracoa Airport|Magangue|Colombia|9.2847|-74.8461|America/Bogota|-5
+MTR|SKMR|Los Garzones Airport|Monteria|Colombia|8.8237|-75.8258|America/Bogota|-5
+MVP|SKMU|Fabio Alberto Leon Bentley Airport|Mitu|Colombia|1.2537|-70.2339|America/Bogota|-5
+MZL|SKMZ|La Nubia Airport|Manizales|Colombia|5.0296|-75.4647|America/Bogota|-5
+NVA|SKNV|Benito Salas Airport|Neiva|Colombia|2.9501|-75.294|America/Bogota|-5
+OCV|SKOC|Aguas Claras Airport|Ocana|Colombia|8.3151|-73.3583|America/Bogota|-5
+OTU|SKOT|Otu Airport|Otu|Colombia|7.0104|-74.7155|America/Bogota|-5
+PCR|SKPC|German Olano Airport|Puerto Carreno|Colombia|6.1847|-67.4932|America/Bogota|-5
+PEI|SKPE|Matecaña International Airport|Pereira|Colombia|4.8127|-75.7395|America/Bogota|-5
+PTX|SKPI|Pitalito Airport|Pitalito|Colombia|1.8578|-76.0857|America/Bogota|-5
+PPN|SKPP|Guillermo León Valencia Airport|Popayan|Colombia|2.4544|-76.6093|America/Bogota|-5
+PSO|SKPS|Antonio Narino Airport|Pasto|Colombia|1.3962|-77.2915|America/Bogota|-5
+PVA|SKPV|El Embrujo Airport|Providencia|Colombia|13.3569|-81.3583|America/Bogota|-5
+MQU|SKQU|Mariquita Airport|Mariquita|Colombia|5.2126|-74.8836|America/Bogota|-5
+MDE|SKRG|Jose Maria Córdova International Airport|Rio Negro|Colombia|6.1645|-75.4231|America/Bogota|-5
+RCH|SKRH|Almirante Padilla Airport|Rio Hacha|Colombia|11.5262|-72.926|America/Bogota|-5
+SJE|SKSJ|Jorge E. Gonzalez Torres Airport|San Jose Del Guaviare|Colombia|2.5797|-72.6394|America/Bogota|-5
+SMR|SKSM|Simón Bolívar International Airport|Santa Marta|Colombia|11.1196|-74.2306|America/Bogota|-5
+ADZ|SKSP|Gustavo Rojas Pinilla International Airport|San Andres Island|Colombia|12.5836|-81.7112|America/Bogota|-5
+SVI|SKSV|Eduardo Falla Solano Airport|San Vincente De Caguan|Colombia|2.1522|-74.7663|America/Bogota|-5
+TME|SKTM|Gustavo Vargas Airport|Tame|Colombia|6.4511|-71.7603|America/Bogota|-5
+AUC|SKUC|Santiago Perez Airport|Arauca|Colombia|7.0689|-70.7369|America/Bogota|-5
+UIB|SKUI|El Caraño Airport|Quibdo|Colombia|5.6908|-76.6412|America/Bogota|-5
+ULQ|SKUL|Heriberto Gíl Martínez Airport|Tulua|Colombia|4.0884|-76.2351|America/Bogota|-5
+VUP|SKVP|Alfonso López Pumarejo Airport|Valledupar|Colombia|10.435|-73.2495|America/Bogota|-5
+VVC|SKVV|Vanguardia Airport|Villavicencio|Colombia|4.1679|-73.6138|America/Bogota|-5
+BJO|SLBJ|Bermejo Airport|Bermejo|Bolivia|-22.7733|-64.3129|America/La_Paz|-4
+CBB|SLCB|Jorge Wilsterman International Airport|Cochabamba|Bolivia|-17.4211|-66.1771|America/La_Paz|-4
+CCA|SLCH|Chimore Airport|Chapacura|Bolivia|-16.9768|-65.1456|America/La_Paz|-4
+CIJ|SLCO|Capitán Aníbal Arab Airport|Cobija|Bolivia|-11.0404|-68.783|America/La_Paz|-4
+LPB|SLLP|El Alto International Airport|La Paz|Bolivia|-16.5133|-68.1923|America/La_Paz|-4
+ORU|SLOR|Juan Mendoza Airport|Oruro|Bolivia|-17.9626|-67.0762|America/La_Paz|-4
+POI|SLPO|Capitan Nicolas Rojas Airport|Potosi|Bolivia|-19.5431|-65.7237|America/La_Paz|-4
+PSZ|SLPS|Capitán Av. Salvador Ogaya G. airport|Puerto Suarez|Bolivia|-18.9753|-57.8206|America/La_Paz|-4
+SBL|SLSA|Santa Ana Del Yacuma Airport|Santa Ana|Bolivia|-13.7622|-65.4352|America/La_Paz|-4
+SRE|SLSU|Juana Azurduy De Padilla Airport|Sucre|Bolivia|-19.0071|-65.2887|America/La_Paz|-4
+TJA|SLTJ|Capitan Oriel Lea Plaza Airport|Tarija|Bolivia|-21.5557|-64.7013|America/La_Paz|-4
+TDD|SLTR|Teniente Av. Jorge Henrich Arauz Airport|Trinidad|Bolivia|-14.8187|-64.918|America/La_Paz|-4
+VLM|SLVM|Teniente Coronel Rafael Pabón Airport|Villa Montes|Bolivia|-21.2552|-63.4056|America/La_Paz|-4
+VVI|SLVR|Viru Viru International Airport|Santa Cruz|Bolivia|-17.6448|-63.1354|America/La_Paz|-4
+BYC|SLYA|Yacuiba Airport|Yacuiba|Bolivia|-21.9609|-63.6517|America/La_Paz|-4
+PBM|SMJP|Johan Adolf Pengel International Airport|Zandery|Suriname|5.4528|-55.1878|America/Paramaribo|-3
+CAY|SOCA|Cayenne-Rochambeau Airport|Cayenne|French Guiana|4.8198|-52.3604|America/Cayenne|-3
+OYP|SOOG|Saint-Georges-de-l'Oyapock Airport|St.-georges Oyapock|French Guiana|3.8976|-51.8041|America/Cayenne|-3
+AOP|SPAS|Alferez FAP Alfredo Vladimir Sara Bauer Airport|Andoas|Peru|-2.7961|-76.4666|America/Lima|-5
+IBP|SPBR|Iberia Airport|Iberia|Peru|-11.4116|-69.4887|America/Lima|-5
+PCL|SPCL|Cap FAP David Abenzur Rengifo International Airport|Pucallpa|Peru|-8.3779|-74.5743|America/Lima|-5
+CHM|SPEO|Teniente FAP Jaime A De Montreuil Morales Airport|Chimbote|Peru|-9.1496|-78.5238|America/Lima|-5
+CIX|SPHI|Capitan FAP Jose A Quinones Gonzales International Airport|Chiclayo|Peru|-6.7875|-79.8281|America/Lima|-5
+AYP|SPHO|Coronel FAP Alfredo Mendivil Duarte Airport|Ayacucho|Peru|-13.1548|-74.2044|America/Lima|-5
+ANS|SPHY|Andahuaylas Airport|Andahuaylas|Peru|-13.7064|-73.3504|America/Lima|-5
+ATA|SPHZ|Comandante FAP German Arias Graziani Airport|Anta|Peru|-9.3474|-77.5984|America/Lima|-5
+LIM|SPIM|Jorge Chávez International Airport|Lima|Peru|-12.0219|-77.1143|America/Lima|-5
+JJI|SPJI|Juanjui Airport|Juanjui|Peru|-7.1691|-76.7286|America/Lima|-5
+JAU|SPJJ|Francisco Carle Airport|Jauja|Peru|-11.7831|-75.4734|America/Lima|-5
+JUL|SPJL|Inca Manco Capac International Airport|Juliaca|Peru|-15.4671|-70.1582|America/Lima|-5
+ILQ|SPLO|Ilo Airport|Ilo|Peru|-17.695|-71.344|America/Lima|-5
+TBP|SPME|Capitan FAP Pedro Canga Rodriguez Airport|Tumbes|Peru|-3.5525|-80.3814|America/Lima|-5
+YMS|SPMS|Moises Benzaquen Rengifo Airport|Yurimaguas|Peru|-5.8938|-76.1182|America/Lima|-5
+CHH|SPPY|Chachapoyas Airport|Chachapoyas|Peru|-6.2018|-77.8561|America/Lima|-5
+IQT|SPQT|Coronel FAP Francisco Secada Vignetta International Airport|Iquitos|Peru|-3.7847|-73.3088|America/Lima|-5
+AQP|SPQU|Rodríguez Ballón International Airport|Arequipa|Peru|-16.3411|-71.5831|America/Lima|-5
+TRU|SPRU|Capitan FAP Carlos Martinez De Pinillos International Airport|Trujillo|Peru|-8.0814|-79.1088|America/Lima|-5
+PIO|SPSO|Capitán FAP Renán Elías Olivera International Airport|Pisco|Peru|-13.7449|-76.2203|America/Lima|-5
+TPP|SPST|Cadete FAP Guillermo Del Castillo Paredes Airport|Tarapoto|Peru|-6.5087|-76.3732|America/Lima|-5
+TCQ|SPTN|Coronel FAP Carlos Ciriani Santa Rosa International Airport|Tacna|Peru|-18.0533|-70.2758|America/Lima|-5
+PEM|SPTU|Padre Aldamiz International Airport|Puerto Maldonado|Peru|-12.6136|-69.2286|America/Lima|-5
+PIU|SPUR|Capitán FAP Guillermo Concha Iberico International Airport|Piura|Peru|-5.2057|-80.6164|America/Lima|-5
+TYL|SPYL|Capitan Montes Airport|Talara|Peru|-4.5766|-81.2541|America/Lima|-5
+CUZ|SPZO|Alejandro Velasco Astete International Airport|Cuzco|Peru|-13.5357|-71.9388|America/Lima|-5
+DZO|SUDU|Santa Bernardina International Airport|Durazno|Uruguay|-33.3589|-56.4992|America/Montevideo|-3
+MVD|SUMU|Carrasco International /General C L Berisso Airport|Montevideo|Uruguay|-34.8384|-56.0308|America/Montevideo|-3
+STY|SUSO|Nueva Hesperides International Airport|Salto|Uruguay|-31.4385|-57.9853|America/Montevideo|-3
+AGV|SVAC|Oswaldo Guevara Mujica Airport|Acarigua|Venezuela|9.5534|-69.2379|America/Caracas|-4
+AAO|SVAN|Anaco Airport|Anaco|Venezuela|9.4302|-64.4707|America/Caracas|-4
+BLA|SVBC|General José Antonio Anzoategui International Airport|Barcelona|Venezuela|10.1111|-64.6922|America/Caracas|-4
+BNS|SVBI|Barinas Airport|Barinas|Venezuela|8.615|-70.2142|America/Caracas|-4
+BRM|SVBM|Barquisimeto International Airport|Barquisimeto|Venezuela|10.0427|-69.3586|America/Caracas|-4
+CBL|SVCB|Aeropuerto "General Tomas de Heres". Ciudad Bolivar|Ciudad Bolivar|Venezuela|8.1222|-63.537|America/Caracas|-4
+CXA|SVCD|Caicara del Orinoco Airport|Caicara De Orinoco|Venezuela|7.6255|-66.1628|America/Caracas|-4
+CLZ|SVCL|Calabozo Airport|Calabozo|Venezuela|8.9247|-67.4171|America/Caracas|-4
+CAJ|SVCN|Canaima Airport|Canaima|Venezuela|6.232|-62.8544|America/Caracas|-4
+VCR|SVCO|Carora Airport|Carora|Venezuela|10.1756|-70.0652|America/Caracas|-4
+CUP|SVCP|General Francisco Bermúdez Airport|Carupano|Venezuela|10.66|-63.2617|America/Caracas|-4
+CZE|SVCR|José Leonardo Chirinos Airport|Coro|Venezuela|11.4149|-69.6809|America/Caracas|-4
+CUM|SVCU|Cumaná (Antonio José de Sucre) Airport|Cumana|Venezuela|10.4503|-64.1305|America/Caracas|-4
+EOR|SVED|El Dorado Airport|El Dorado|Venezuela|6.7333|-61.5833|America/Caracas|-4
+EOZ|SVEZ|Elorza Airport|Elorza|Venezuela|7.0833|-69.5333|America/Caracas|-4
+GDO|SVGD|Guasdalito Airport|Guasdualito|Venezuela|7.2333|-70.8|America/Caracas|-4
+GUI|SVGI|Guiria Airport|Guiria|Venezuela|10.5741|-62.3127|America/Caracas|-4
+GUQ|SVGU|Guanare Airport|Guanare|Venezuela|9.0269|-69.7551|America/Caracas|-4
+HGE|SVHG|Higuerote Airport|Higuerote|Venezuela|10.4625|-66.0928|America/Caracas|-4
+ICC|SVIE|Andrés Miguel Salazar Marcano Airport|Isla De Coche|Venezuela|10.7944|-63.9816|America/Caracas|-4
+LSP|SVJC|Josefa Camejo International Airport|Paraguana|Venezuela|11.7808|-70.1515|America/Caracas|-4
+LFR|SVLF|La Fria Airport|La Fria|Venezuela|8.2392|-72.271|America/Caracas|-4
+MAR|SVMC|La Chinita International Airport|Maracaibo|Venezuela|10.5582|-71.7279|America/Caracas|-4
+MRD|SVMD|Alberto Carnevalli Airport|Merida|Venezuela|8.5821|-71.161|America/Caracas|-4
+PMV|SVMG|Del Caribe Santiago Mariño International Airport|Porlamar|Venezuela|10.9126|-63.9666|America/Caracas|-4
+CCS|SVMI|Simón Bolívar International Airport|Caracas|Venezuela|10.6012|-66.9912|America/Caracas|-4
+MUN|SVMT|Maturín Airport|Maturin|Venezuela|9.7545|-63.1474|America/Caracas|-4
+PYH|SVPA|Cacique Aramare Airport|Puerto Ayacucho|Venezuela|5.62|-67.6061|America/Caracas|-4
+PBL|SVPC|General Bartolome Salom International Airport|Puerto Cabello|Venezuela|10.4805|-68.073|America/Caracas|-4
+SCI|SVPM|Paramillo Airport|San Cristobal|Venezuela|7.8013|-72.2029|America/Caracas|-4
+PZO|SVPR|General Manuel Carlos Piar International Airport|Guayana|Venezuela|8.2885|-62.7604|America/Caracas|-4
+PTM|SVPT|Palmarito Airport|Palmarito|Venezuela|7.5667|-70.1833|America/Caracas|-4
+SVZ|SVSA|San Antonio Del Tachira Airport|San Antonio|Venezuela|7.8408|-72.4397|America/Caracas|-4
+SBB|SVSB|Santa Bárbara de Barinas Airport|Santa Barbara|Venezuela|7.8035|-71.1657|America/Caracas|-4
+SNV|SVSE|Santa Elena de Uairen Airport|Santa Ana De Uairen|Venezuela|4.555|-61.15|America/Caracas|-4
+STD|SVSO|Mayor Buenaventura Vivas International Airport|Santo Domingo|Venezuela|7.5654|-72.0351|America/Caracas|-4
+SNF|SVSP|Sub Teniente Nestor Arias Airport|San Felipe|Venezuela|10.2787|-68.7552|America/Caracas|-4
+SFD|SVSR|San Fernando De Apure Airport|San Fernando De Apure|Venezuela|7.8833|-67.444|America/Caracas|-4
+SOM|SVST|San Tomé Airport|San Tome|Venezuela|8.9451|-64.1511|America/Caracas|-4
+STB|SVSZ|Santa Bárbara del Zulia Airport|Santa Barbara|Venezuela|8.9746|-71.9433|America/Caracas|-4
+TUV|SVTC|Tucupita Airport|Tucupita|Venezuela|9.089|-62.0942|America/Caracas|-4
+TMO|SVTM|Tumeremo Airport|Tumeremo|Venezuela|7.2494|-61.5289|America/Caracas|-4
+VLN|SVVA|Arturo Michelena International Airport|Valencia|Venezuela|10.1497|-67.9284|America/Caracas|-4
+VLV|SVVL|Dr. Antonio Nicolás Briceño Airport|Valera|Venezuela|9.3405|-70.5841|America/Caracas|-4
+VDP|SVVP|Valle de La Pascua Airport|Valle De La Pascua|Venezuela|9.222|-65.9936|America/Caracas|-4
+LTM|SYLT|Lethem Airport|Lethem|Guyana|3.3728|-59.7894|America/Guyana|-4
+ANU|TAPA|V.C. Bird International Airport|Antigua|Antigua and Barbuda|17.1367|-61.7927|America/Antigua|-4
+BGI|TBPB|Sir Grantley Adams International Airport|Bridgetown|Barbados|13.0746|-59.4925|America/Barbados|-4
+DCF|TDCF|Canefield Airport|Canefield|Dominica|15.3367|-61.3922|America/Dominica|-4
+DOM|TDPD|Douglas-Charles Airport|Dominica|Dominica|15.547|-61.3|America/Dominica|-4
+FDF|TFFF|Martinique Aimé Césaire International Airport|Fort-de-france|Martinique|14.591|-61.0032|America/Martinique|-4
+SFG|TFFG|L'Espérance Airport|St. Martin|Guadeloupe|18.0999|-63.0472||-4
+PTP|TFFR|Pointe-à-Pitre Le Raizet|Pointe-a-pitre|Guadeloupe|16.2653|-61.5318|America/Guadeloupe|-4
+GND|TGPY|Point Salines International Airport|Point Salines|Grenada|12.0042|-61.7862|America/Grenada|-4
+STT|TIST|Cyril E. King Airport|St. Thomas|Virgin Islands|18.3373|-64.9734|America/St_Thomas|-4
+STX|TISX|Henry E Rohlsen Airport|St. Croix Island|Virgin Islands|17.7019|-64.7986|America/St_Thomas|-4
+BQN|TJBQ|Rafael Hernandez Airport|Aguadilla|Puerto Rico|18.4949|-67.1294|America/Puerto_Rico|-4
+FAJ|TJFA|Diego Jimenez Torres Airport|Fajardo|Puerto Rico|18.3089|-65.6619|America/Puerto_Rico|-4
+SIG|TJIG|Fernando Luis Ribas Dominicci Airport|San Juan|Puerto Rico|18.4568|-66.0981|America/Puerto_Rico|-4
+MAZ|TJMZ|Eugenio Maria De Hostos Airport|Mayaguez|Puerto Rico|18.2557|-67.1485|America/Puerto_Rico|-4
+PSE|TJPS|Mercedita Airport|Ponce|Puerto Rico|18.0083|-66.563|America/Puerto_Rico|-4
+SJU|TJSJ|Luis Munoz Marin International Airport|San Juan|Puerto Rico|18.4394|-66.0018|America/Puerto_Rico|-4
+SKB|TKPK|Robert L. Bradshaw International Airport|Basse Terre|Saint Kitts and Nevis|17.3112|-62.7187|America/St_Kitts|-4
+SLU|TLPC|George F. L. Charles Airport|Castries|Saint Lucia|14.0202|-60.9929|America/St_Lucia|-4
+UVF|TLPL|Hewanorra International Airport|Hewandorra|Saint Lucia|13.7332|-60.9526|America/St_Lucia|-4
+AUA|TNCA|Queen Beatrix International Airport|Oranjestad|Aruba|12.5014|-70.0152|America/Aruba|-4
+BON|TNCB|Flamingo International Airport|Kralendijk|Netherlands Antilles|12.131|-68.2685|America/Curacao|-4
+CUR|TNCC|Hato International Airport|Willemstad|Netherlands Antilles|12.1889|-68.9598|America/Curacao|-4
+EUX|TNCE|F. D. Roosevelt Airport|Oranjestad|Netherlands Antilles|17.4965|-62.9794|America/Curacao|-4
+SXM|TNCM|Princess Juliana International Airport|Philipsburg|Netherlands Antilles|18.041|-63.1089|America/Curacao|-4
+AXA|TQPF|Clayton J Lloyd International Airport|The Valley|Anguilla|18.2048|-63.0551|America/Anguilla|-4
+TAB|TTCP|Tobago-Crown Point Airport|Scarborough|Trinidad and Tobago|11.1497|-60.8322|America/Port_of_Spain|-4
+POS|TTPP|Piarco International Airport|Port-of-spain|Trinidad and Tobago|10.5954|-61.3372|America/Port_of_Spain|-4
+EIS|TUPJ|Terrance B. Lettsome International Airport|Tortola|British Virgin Islands|18.4448|-64.543|America/Tortola|-4
+CIW|TVSC|Canouan Airport|Canouan Island|Saint Vincent and the Grenadines|12.699|-61.3424|America/St_Vincent|-4
+MQS|TVSM|Mustique Airport|Mustique|Saint Vincent and the Grenadines|12.8879|-61.1802|America/St_Vincent|-4
+SVD|TVSA|Argyle International Airport|Kingstown|Saint Vincent and the Grenadines|13.1567|-61.1499|America/St_Vincent|-4
+ALA|UAAA|Almaty Airport|Alma-ata|Kazakhstan|43.3521|77.0405|Asia/Qyzylorda|6
+BXH|UAAH|Balkhash Airport|Balkhash|Kazakhstan|46.8933|75.005|Asia/Qyzylorda|6
+TSE|UACC|Astana International Airport|Tselinograd|Kazakhstan|51.0222|71.4669|Asia/Qyzylorda|6
+DMB|UADD|Taraz Airport|Dzhambul|Kazakhstan|42.8536|71.3036|Asia/Qyzylorda|6
+FRU|UAFM|Manas International Airport|Bishkek|Kyrgyzstan|43.0613|74.4776|Asia/Bishkek|6
+OSS|UAFO|Osh Airport|Osh|Kyrgyzstan|40.609|72.7933|Asia/Bishkek|6
+CIT|UAII|Shymkent Airport|Chimkent|Kazakhstan|42.3642|69.4789|Asia/Qyzylorda|6
+URA|UARR|Uralsk Airport|Uralsk|Kazakhstan|51.1508|51.5431|Asia/Oral|5
+PWQ|UASP|Pavlodar Airport|Pavlodar|Kazakhstan|52.195|77.0739|Asia/Qyzylorda|6
+PLX|UASS|Semipalatinsk Airport|Semiplatinsk|Kazakhstan|50.3513|80.2344|Asia/Qyzylorda|6
+AKX|UATT|Aktobe Airport|Aktyubinsk|Kazakhstan|50.2458|57.2067|Asia/Oral|5
+GYD|UBBB|Heydar Aliyev International Airport|Baku|Azerbaijan|40.4675|50.0467|Asia/Baku|4
+YKS|UEEE|Yakutsk Airport|Yakutsk|Russia|62.0933|129.771|Asia/Yakutsk|9
+MJZ|UERR|Mirny Airport|Mirnyj|Russia|62.5347|114.039|Asia/Yakutsk|9
+BQS|UHBB|Ignatyevo Airport|Blagoveschensk|Russia|50.4254|127.412|Asia/Yakutsk|9
+KHV|UHHH|Khabarovsk-Novy Airport|Khabarovsk|Russia|48.528|135.188|Asia/Vladivostok|10
+PVS|UHMD|Provideniya Bay Airport|Provideniya Bay|Russia|64.3781|-173.243|Asia/Anadyr|12
+GDX|UHMM|Sokol Airport|Magadan|Russia|59.911|150.72|Asia/Srednekolymsk|11
+PWE|UHMP|Pevek Airport|Pevek|Russia|69.7833|170.597||12
+PKC|UHPP|Yelizovo Airport|Petropavlovsk|Russia|53.1679|158.454|Asia/Anadyr|12
+UUS|UHSS|Yuzhno-Sakhalinsk Airport|Yuzhno-sakhalinsk|Russia|46.8887|142.718|Asia/Srednekolymsk|11
+VVO|UHWW|Vladivostok International Airport|Vladivostok|Russia|43.399|132.148|Asia/Vladivostok|10
+HTA|UIAA|Chita-Kadala Airport|Chita|Russia|52.0263|113.306|Asia/Yakutsk|9
+BTK|UIBB|Bratsk Airport|Bratsk|Russia|56.3706|101.698|Asia/Irkutsk|8
+IKT|UIII|Irkutsk Airport|Irkutsk|Russia|52.268|104.389|Asia/Irkutsk|8
+UUD|UIUU|Ulan-Ude Airport (Mukhino)|Ulan-ude|Russia|51.8078|107.438|Asia/Irkutsk|8
+KBP|UKBB|Boryspil International Airport|Kiev|Ukraine|50.345|30.8947|Europe/Kiev|2
+DOK|UKCC|Donetsk International Airport|Donetsk|Ukraine|48.0736|37.7397|Europe/Kiev|2
+DNK|UKDD|Dnipropetrovsk International Airport|Dnepropetrovsk|Ukraine|48.3572|35.1006|Europe/Kiev|2
+SIP|UKFF|Simferopol International Airport|Simferopol|Ukraine|45.0522|33.9751|Europe/Simferopol|3
+IEV|UKKK|Kiev Zhuliany International Airport|Kiev|Ukraine|50.4019|30.4519|Europe/Kiev|2
+LWO|UKLL|Lviv International Airport|Lvov|Ukraine|49.8125|23.9561|Europe/Kiev|2
+ODS|UKOO|Odessa International Airport|Odessa|Ukraine|46.4268|30.6765|Europe/Kiev|2
+LED|ULLI|Pulkovo Airport|St. Petersburg|Russia|59.8003|30.2625|Europe/Moscow|3
+MMK|ULMM|Murmansk Airport|Murmansk|Russia|68.7817|32.7508|Europe/Moscow|3
+GME|UMGG|Gomel Airport|Gomel|Belarus|52.527|31.0167|Europe/Minsk|3
+VTB|UMII|Vitebsk Vostochny Airport|Vitebsk|Belarus|55.1265|30.3496|Europe/Minsk|3
+KGD|UMKK|Khrabrovo Airport|Kaliningrad|Russia|54.89|20.5926|Europe/Kaliningrad|2
+MHP|UMMM|Minsk 1 Airport|Minsk|Belarus|53.8645|27.5397|Europe/Minsk|3
+MSQ|UMMS|Minsk National Airport|Minsk 2|Belarus|53.8825|28.0307|Europe/Minsk|3
+ABA|UNAA|Abakan Airport|Abakan|Russia|53.74|91.385|Asia/Krasnoyarsk|7
+BAX|UNBB|Barnaul Airport|Barnaul|Russia|53.3638|83.5385|Asia/Krasnoyarsk|7
+KEJ|UNEE|Kemerovo Airport|Kemorovo|Russia|55.2701|86.1072|Asia/Krasnoyarsk|7
+OMS|UNOO|Omsk Central Airport|Omsk|Russia|54.967|73.3105|Asia/Omsk|6
+KRR|URKK|Krasnodar Pashkovsky International Airport|Krasnodar|Russia|45.0347|39.1705|Europe/Moscow|3
+MCX|URML|Uytash Airport|Makhachkala|Russia|42.8168|47.6523|Europe/Moscow|3
+MRV|URMM|Mineralnyye Vody Airport|Mineralnye Vody|Russia|44.2251|43.0819|Europe/Moscow|3
+STW|URMT|Stavropol Shpakovskoye Airport|Stavropol|Russia|45.1092|42.1128|Europe/Moscow|3
+ROV|URRP|Platov International Airport|Rostov|Russia|47.4939|39.9247|Europe/Moscow|3
+AER|URSS|Sochi International Airport|Sochi|Russia|43.4499|39.9566|Europe/Moscow|3
+ASF|URWA|Astrakhan Airport|Astrakhan|Russia|46.2833|48.0063|Europe/Samara|4
+VOG|URWW|Volgograd International Airport|Volgograd|Russia|48.7825|44.3455|Europe/Moscow|3
+CEK|USCC|Chelyabinsk Balandino Airport|Chelyabinsk|Russia|55.3058|61.5033|Asia/Yekaterinburg|5
+MQF|USCM|Magnitogorsk International Airport|Magnetiogorsk|Russia|53.3931|58.7557|Asia/Yekaterinburg|5
+NJC|USNN|Nizhnevartovsk Airport|Nizhnevartovsk|Russia|60.9493|76.4836|Asia/Yekaterinburg|5
+PEE|USPP|Bolshoye Savino Airport|Perm|Russia|57.9145|56.0212|Asia/Yekaterinburg|5
+SGC|USRR|Surgut Airport|Surgut|Russia|61.3437|73.4018|Asia/Yekaterinburg|5
+SVX|USSS|Koltsovo Airport|Yekaterinburg|Russia|56.7431|60.8027|Asia/Yekaterinburg|5
+ASB|UTAA|Ashgabat International Airport|Ashkhabad|Turkmenistan|37.9868|58.361|Asia/Ashgabat|5
+KRW|UTAK|Turkmenbashi Airport|Krasnovodsk|Turkmenistan|40.0633|53.0072|Asia/Ashgabat|5
+CRZ|UTAV|Turkmenabat Airport|Chardzhou|Turkmenistan|39.0833|63.6133|Asia/Ashgabat|5
+DYU|UTDD|Dushanbe Airport|Dushanbe|Tajikistan|38.5433|68.825|Asia/Dushanbe|5
+BHK|UTSB|Bukhara Airport|Bukhara|Uzbekistan|39.775|64.4833|Asia/Samarkand|5
+SKD|UTSS|Samarkand Airport|Samarkand|Uzbekistan|39.7005|66.9838|Asia/Samarkand|5
+TAS|UTTT|Tashkent International Airport|Tashkent|Uzbekistan|41.2579|69.2812|Asia/Samarkand|5
+BZK|UUBP|Bryansk Airport|Bryansk|Russia|53.2142|34.1764|Europe/Moscow|3
+SVO|UUEE|Sheremetyevo International Airport|Moscow|Russia|55.9726|37.4146|Europe/Moscow|3
+KLD|UUEM|Migalovo Air Base|Tver|Russia|56.8247|35.7577|Europe/Moscow|3
+VOZ|UUOO|Voronezh International Airport|Voronezh|Russia|51.8142|39.2296|Europe/Moscow|3
+VKO|UUWW|Vnukovo International Airport|Moscow|Russia|55.5915|37.2615|Europe/Moscow|3
+SCW|UUYY|Syktyvkar Airport|Syktyvkar|Russia|61.647|50.8451|Europe/Moscow|3
+KZN|UWKD|Kazan International Airport|Kazan|Russia|55.6062|49.2787|Europe/Moscow|3
+REN|UWOO|Orenburg Central Airport|Orenburg|Russia|51.7958|55.4567|Asia/Yekaterinburg|5
+UFA|UWUU|Ufa International Airport|Ufa|Russia|54.5575|55.8744|Asia/Yekaterinburg|5
+KUF|UWWW|Kurumoch International Airport|Samara|Russia|53.5049|50.1643|Europe/Samara|4
+AMD|VAAH|Sardar Vallabhbhai Patel International Airport|Ahmedabad|India|23.0772|72.6347|Asia/Calcutta|5.5
+AKD|VAAK|Akola Airport|Akola|India|20.699|77.0586|Asia/Calcutta|5.5
+IXU|VAAU|Aurangabad Airport|Aurangabad|India|19.8627|75.3981|Asia/Calcutta|5.5
+BOM|VABB|Chhatrapati Shivaji International Airport|Mumbai|India|19.0887|72.8679|Asia/Calcutta|5.5
+PAB|VABI|Bilaspur Airport|Bilaspur|India|21.9884|82.111|Asia/Calcutta|5.5
+BHJ|VABJ|Bhuj Airport|Bhuj|India|23.2878|69.6702|Asia/Calcutta|5.5
+IXG|VABM|Belgaum Airport|Belgaum|India|15.8593|74.6183|Asia/Calcutta|5.5
+BDQ|VABO|Vadodara Airport|Baroda|India|22.3362|73.2263|Asia/Calcutta|5.5
+BHO|VABP|Raja Bhoj International Airport|Bhopal|India|23.2875|77.3374|Asia/Calcutta|5.5
+BHU|VABV|Bhavnagar Airport|Bhaunagar|India|21.7522|72.1852|Asia/Calcutta|5.5
+NMB|VADN|Daman Airport|Daman|India|20.4344|72.8432|Asia/Calcutta|5.5
+GUX|VAGN|Guna Airport|Guna|India|24.6547|77.3473|Asia/Calcutta|5.5
+GOI|VAGO|Dabolim Airport|Goa|India|15.3808|73.8314|Asia/Calcutta|5.5
+IDR|VAID|Devi Ahilyabai Holkar Airport|Indore|India|22.7218|75.8011|Asia/Calcutta|5.5
+JLR|VAJB|Jabalpur Airport|Jabalpur|India|23.1778|80.052|Asia/Calcutta|5.5
+JGA|VAJM|Jamnagar Airport|Jamnagar|India|22.4655|70.0126|Asia/Calcutta|5.5
+IXY|VAKE|Kandla Airport|Kandla|India|23.1127|70.1003|Asia/Calcutta|5.5
+HJR|VAKJ|Khajuraho Airport|Khajuraho|India|24.8172|79.9186|Asia/Calcutta|5.5
+KLH|VAKP|Kolhapur Airport|Kolhapur|India|16.6647|74.2894|Asia/Calcutta|5.5
+IXK|VAKS|Keshod Airport|Keshod|India|21.3171|70.2704|Asia/Calcutta|5.5
+NAG|VANP|Dr. Babasaheb Ambedkar International Airport|Nagpur|India|21.0922|79.0472|Asia/Calcutta|5.5
+ISK|VAOZ|Nashik Airport|Nasik Road|India|20.1191|73.9129|Asia/Calcutta|5.5
+PNQ|VAPO|Pune Airport|Pune|India|18.5821|73.9197|Asia/Calcutta|5.5
+PBD|VAPR|Porbandar Airport|Porbandar|India|21.6487|69.6572|Asia/Calcutta|5.5
+RAJ|VARK|Rajkot Airport|Rajkot|India|22.3092|70.7795|Asia/Calcutta|5.5
+RPR|VARP|Raipur Airport|Raipur|India|21.1804|81.7388|Asia/Calcutta|5.5
+SSE|VASL|Solapur Airport|Sholapur|India|17.628|75.9348|Asia/Calcutta|5.5
+STV|VASU|Surat Airport|Surat|India|21.1141|72.7418|Asia/Calcutta|5.5
+UDR|VAUD|Maharana Pratap Airport|Udaipur|India|24.6177|73.8961|Asia/Calcutta|5.5
+CMB|VCBI|Bandaranaike International Colombo Airport|Colombo|Sri Lanka|7.1808|79.8841|Asia/Colombo|5.5
+ACJ|VCCA|Anuradhapura Air Force Base|Anuradhapura|Sri Lanka|8.3015|80.4279|Asia/Colombo|5.5
+BTC|VCCB|Batticaloa Airport|Batticaloa|Sri Lanka|7.7058|81.6788|Asia/Colombo|5.5
+RML|VCCC|Colombo Ratmalana Airport|Colombo|Sri Lanka|6.822|79.8862|Asia/Colombo|5.5
+ADP|VCCG|Ampara Airport|Galoya|Sri Lanka|7.3378|81.6259|Asia/Colombo|5.5
+JAF|VCCJ|Kankesanturai Airport|Jaffna|Sri Lanka|9.7923|80.0701|Asia/Colombo|5.5
+TRR|VCCT|China Bay Airport|Trinciomalee|Sri Lanka|8.5385|81.1819|Asia/Colombo|5.5
+KZC|VDKH|Kampong Chhnang Airport|Kompong Chnang|Cambodia|12.2552|104.564|Asia/Phnom_Penh|7
+PNH|VDPP|Phnom Penh International Airport|Phnom-penh|Cambodia|11.5466|104.844|Asia/Phnom_Penh|7
+REP|VDSR|Siem Reap International Airport|Siem-reap|Cambodia|13.4107|103.813|Asia/Phnom_Penh|7
+TNX|VDST|Stung Treng Airport|Stung Treng|Cambodia|13.5319|106.015|Asia/Phnom_Penh|7
+IXV|VEAN|Along Airport|Along|India|28.1753|94.802|Asia/Calcutta|5.5
+IXA|VEAT|Agartala Airport|Agartala|India|23.887|91.2404|Asia/Calcutta|5.5
+AJL|VELP|Lengpui Airport|Aizwal|India|23.8406|92.6197|Asia/Calcutta|5.5
+IXB|VEBD|Bagdogra Airport|Baghdogra|India|26.6812|88.3286|Asia/Calcutta|5.5
+BBI|VEBS|Biju Patnaik Airport|Bhubaneswar|India|20.2444|85.8178|Asia/Calcutta|5.5
+CCU|VECC|Netaji Subhash Chandra Bose International Airport|Kolkata|India|22.6547|88.4467|Asia/Calcutta|5.5
+COH|VECO|Cooch Behar Airport|Cooch-behar|India|26.3305|89.4672|Asia/Calcutta|5.5
+DBD|VEDB|Dhanbad Airport|Dhanbad|India|23.834|86.4253|Asia/Calcutta|5.5
+GAY|VEGY|Gaya Airport|Gaya|India|24.7443|84.9512|Asia/Calcutta|5.5
+IMF|VEIM|Imphal Airport|Imphal|India|24.76|93.8967|Asia/Calcutta|5.5
+IXW|VEJS|Sonari Airport|Jamshedpur|India|22.8132|86.1688|Asia/Calcutta|5.5
+JRH|VEJT|Jorhat Airport|Jorhat|India|26.7315|94.1755|Asia/Calcutta|5.5
+IXH|VEKR|Kailashahar Airport|Kailashahar|India|24.3082|92.0072|Asia/Calcutta|5.5
+IXS|VEKU|Silchar Airport|Silchar|India|24.9129|92.9787|Asia/Calcutta|5.5
+IXI|VELR|North Lakhimpur Airport|Lilabari|India|27.2955|94.0976|Asia/Calcutta|5.5
+DIB|VEMN|Dibrugarh Airport|Mohanbari|India|27.4839|95.0169|Asia/Calcutta|5.5
+MZU|VEMZ|Muzaffarpur Airport|Mazuffarpur|India|26.1191|85.3137|Asia/Calcutta|5.5
+PAT|VEPT|Lok Nayak Jayaprakash Airport|Patina|India|25.5913|85.088|Asia/Calcutta|5.5
+IXR|VERC|Birsa Munda Airport|Ranchi|India|23.3143|85.3217|Asia/Calcutta|5.5
+RRK|VERK|Rourkela Airport|Rourkela|India|22.2567|84.8146|Asia/Calcutta|5.5
+VTZ|VEVZ|Vishakhapatnam Airport|Vishakhapatnam|India|17.7212|83.2245|Asia/Calcutta|5.5
+ZER|VEZO|Ziro Airport|Zero|India|27.5883|93.8281|Asia/Calcutta|5.5
+CXB|VGCB|Cox's Bazar Airport|Cox's Bazar|Bangladesh|21.4522|91.9639|Asia/Dhaka|6
+CGP|VGEG|Shah Amanat International Airport|Chittagong|Bangladesh|22.2496|91.8133|Asia/Dhaka|6
+IRD|VGIS|Ishurdi Airport|Ishurdi|Bangladesh|24.1525|89.0494|Asia/Dhaka|6
+JSR|VGJR|Jessore Airport|Jessore|Bangladesh|23.1838|89.1608|Asia/Dhaka|6
+RJH|VGRJ|Shah Mokhdum Airport|Rajshahi|Bangladesh|24.4372|88.6165|Asia/Dhaka|6
+SPD|VGSD|Saidpur Airport|Saidpur|Bangladesh|25.7592|88.9089|Asia/Dhaka|6
+ZYL|VGSY|Osmany International Airport|Sylhet Osmani|Bangladesh|24.9632|91.8668|Asia/Dhaka|6
+DAC|VGZR|Hazrat Shahjalal International Airport|Dhaka|Bangladesh|23.8433|90.3978|Asia/Dhaka|6
+HKG|VHHH|Hong Kong International Airport|Hong Kong|Hong Kong|22.3089|113.915|Asia/Hong_Kong|8
+AGR|VIAG|Agra Airport|Agra|India|27.1558|77.9609|Asia/Calcutta|5.5
+IXD|VIAL|Allahabad Airport|Allahabad|India|25.4401|81.7339|Asia/Calcutta|5.5
+ATQ|VIAR|Sri Guru Ram Dass Jee International Airport|Amritsar|India|31.7096|74.7973|Asia/Calcutta|5.5
+BKB|VIBK|Nal Airport|Bikaner|India|28.0706|73.2072|Asia/Calcutta|5.5
+VNS|VIBN|Lal Bahadur Shastri Airport|Varanasi|India|25.4524|82.8593|Asia/Calcutta|5.5
+KUU|VIBR|Kullu Manali Airport|Kulu|India|31.8767|77.1544|Asia/Calcutta|5.5
+BUP|VIBT|Bhatinda Air Force Station|Bhatinda|India|30.2701|74.7558|Asia/Calcutta|5.5
+BEK|VIBY|Bareilly Air Force Station|Bareilly|India|28.4221|79.4508|Asia/Calcutta|5.5
+IXC|VICG|Chandigarh Airport|Chandigarh|India|30.6735|76.7885|Asia/Calcutta|5.5
+KNU|VICX|Kanpur Airport|Kanpur|India|26.4043|80.4101|Asia/Calcutta|5.5
+DED|VIDN|Dehradun Airport|Dehra Dun|India|30.1897|78.1803|Asia/Calcutta|5.5
+DEL|VIDP|Indira Gandhi International Airport|Delhi|India|28.5665|77.1031|Asia/Calcutta|5.5
+GWL|VIGR|Gwalior Airport|Gwalior|India|26.2933|78.2278|Asia/Calcutta|5.5
+HSS|VIHR|Hissar Airport|Hissar|India|29.1794|75.7553|Asia/Calcutta|5.5
+JDH|VIJO|Jodhpur Airport|Jodhpur|India|26.2511|73.0489|Asia/Calcutta|5.5
+JAI|VIJP|Jaipur International Airport|Jaipur|India|26.8242|75.8122|Asia/Calcutta|5.5
+JSA|VIJR|Jaisalmer Airport|Jaisalmer|India|26.8887|70.865|Asia/Calcutta|5.5
+IXJ|VIJU|Jammu Airport|Jammu|India|32.6891|74.8374|Asia/Calcutta|5.5
+KTU|VIKO|Kota Airport|Kota|India|25.1602|75.8456|Asia/Calcutta|5.5
+LUH|VILD|Ludhiana Airport|Ludhiaha|India|30.8547|75.9526|Asia/Calcutta|5.5
+IXL|VILH|Leh Kushok Bakula Rimpochee Airport|Leh|India|34.1359|77.5465|Asia/Calcutta|5.5
+LKO|VILK|Chaudhary Charan Singh International Airport|Lucknow|India|26.7606|80.8893|Asia/Calcutta|5.5
+IXP|VIPK|Pathankot Airport|Pathankot|India|32.2336|75.6344|Asia/Calcutta|5.5
+PGH|VIPT|Pantnagar Airport|Nainital|India|29.0334|79.4737|Asia/Calcutta|5.5
+SXR|VISR|Sheikh ul Alam Airport|Srinagar|India|33.9871|74.7742|Asia/Calcutta|5.5
+TNI|VIST|Satna Airport|Satna|India|24.5623|80.8549|Asia/Calcutta|5.5
+LPQ|VLLB|Luang Phabang International Airport|Luang Prabang|Laos|19.8973|102.161|Asia/Vientiane|7
+PKZ|VLPS|Pakse International Airport|Pakse|Laos|15.1321|105.781|Asia/Vientiane|7
+ZVK|VLSK|Savannakhet Airport|Savannakhet|Laos|16.5566|104.76|Asia/Vientiane|7
+NEU|VLSN|Sam Neua Airport|Sam Neua|Laos|20.4184|104.067|Asia/Vientiane|7
+VTE|VLVT|Wattay International Airport|Vientiane|Laos|17.9883|102.563|Asia/Vientiane|7
+MFM|VMMC|Macau International Airport|Macau|Macau|22.1496|113.592|Asia/Macau|8
+BWA|VNBW|Gautam Buddha Airport|Bhairawa|Nepal|27.5057|83.4163|Asia/Katmandu|5.75
+JKR|VNJP|Janakpur Airport|Janakpur|Nepal|26.7088|85.9224|Asia/Katmandu|5.75
+KTM|VNKT|Tribhuvan International Airport|Kathmandu|Nepal|27.6966|85.3591|Asia/Katmandu|5.75
+PKR|VNPK|Pokhara Airport|Pokhara|Nepal|28.2009|83.9821|Asia/Katmandu|5.75
+SIF|VNSI|Simara Airport|Simara|Nepal|27.1595|84.9801|Asia/Katmandu|5.75
+BIR|VNVT|Biratnagar Airport|Biratnagar|Nepal|26.4815|87.264|Asia/Katmandu|5.75
+AGX|VOAT|Agatti Airport|Agatti Island|India|10.8237|72.176|Asia/Calcutta|5.5
+BLR|VOBL|Kempegowda International Airport|Bangalore|India|13.1979|77.7063|Asia/Calcutta|5.5
+BEP|VOBI|Bellary Airport|Bellary|India|15.1628|76.8828|Asia/Calcutta|5.5
+VGA|VOBZ|Vijayawada Airport|Vijayawada|India|16.5304|80.7968|Asia/Calcutta|5.5
+CJB|VOCB|Coimbatore International Airport|Coimbatore|India|11.03|77.0434|Asia/Calcutta|5.5
+COK|VOCI|Cochin International Airport|Kochi|India|10.152|76.4019|Asia/Calcutta|5.5
+CCJ|VOCL|Calicut International Airport|Calicut|India|11.1368|75.9553|Asia/Calcutta|5.5
+CDP|VOCP|Kadapa Airport|Cuddapah|India|14.51|78.7728|Asia/Calcutta|5.5
+CBD|VOCX|Car Nicobar Air Force Station|Carnicobar|India|9.1525|92.8196|Asia/Calcutta|5.5
+BPM|VOHY|Begumpet Airport|Hyderabad|India|17.4531|78.4676|Asia/Calcutta|5.5
+IXM|VOMD|Madurai Airport|Madurai|India|9.8345|78.0934|Asia/Calcutta|5.5
+IXE|VOML|Mangalore International Airport|Mangalore|India|12.9613|74.8901|Asia/Calcutta|5.5
+MAA|VOMM|Chennai International Airport|Madras|India|12.99|80.1693|Asia/Calcutta|5.5
+IXZ|VOPB|Vir Savarkar International Airport|Port Blair|India|11.6412|92.7297|Asia/Calcutta|5.5
+PNY|VOPC|Pondicherry Airport|Pendicherry|India|11.968|79.812|Asia/Calcutta|5.5
+RJA|VORY|Rajahmundry Airport|Rajahmundry|India|17.1104|81.8182|Asia/Calcutta|5.5
+SXV|VOSM|Salem Airport|Salem|India|11.7833|78.0656|Asia/Calcutta|5.5
+TJV|VOTJ|Tanjore Air Force Base|Tanjore|India|10.7224|79.1016|Asia/Calcutta|5.5
+TIR|VOTP|Tirupati Airport|Tirupeti|India|13.6325|79.5433|Asia/Calcutta|5.5
+TRZ|VOTR|Tiruchirapally Civil Airport Airport|Tiruchirappalli|India|10.7654|78.7097|Asia/Calcutta|5.5
+TRV|VOTV|Trivandrum International Airport|Trivandrum|India|8.4821|76.9201|Asia/Calcutta|5.5
+PBH|VQPR|Paro Airport|Thimphu|Bhutan|27.4032|89.4246|Asia/Thimphu|6
+MLE|VRMM|Malé International Airport|Male|Maldives|4.1918|73.5291|Indian/Maldives|5
+DMK|VTBD|Don Mueang International Airport|Bangkok|Thailand|13.9126|100.607|Asia/Bangkok|7
+KDT|VTBK|Kamphaeng Saen Airport|Nakhon Pathom|Thailand|14.102|99.9172|Asia/Bangkok|7
+UTP|VTBU|U-Tapao International Airport|Pattaya|Thailand|12.6799|101.005|Asia/Bangkok|7
+LPT|VTCL|Lampang Airport|Lampang|Thailand|18.2709|99.5042|Asia/Bangkok|7
+PRH|VTCP|Phrae Airport|Phrae|Thailand|18.1322|100.165|Asia/Bangkok|7
+HHQ|VTPH|Hua Hin Airport|Prachuap Khiri Khan|Thailand|12.6362|99.9515|Asia/Bangkok|7
+TKH|VTPI|Takhli Airport|Nakhon Sawan|Thailand|15.2773|100.296|Asia/Bangkok|7
+PHS|VTPP|Phitsanulok Airport|Phitsanulok|Thailand|16.7829|100.279|Asia/Bangkok|7
+NAW|VTSC|Narathiwat Airport|Narathiwat|Thailand|6.5199|101.743|Asia/Bangkok|7
+KBV|VTSG|Krabi Airport|Krabi|Thailand|8.0991|98.9862|Asia/Bangkok|7
+SGZ|VTSH|Songkhla Airport|Songkhla|Thailand|7.1866|100.608|Asia/Bangkok|7
+PAN|VTSK|Pattani Airport|Pattani|Thailand|6.7855|101.154|Asia/Bangkok|7
+USM|VTSM|Samui Airport|Ko Samui|Thailand|9.5478|100.062|Asia/Bangkok|7
+HKT|VTSP|Phuket International Airport|Phuket|Thailand|8.1132|98.3169|Asia/Bangkok|7
+UNN|VTSR|Ranong Airport|Ranong|Thailand|9.7776|98.5855|Asia/Bangkok|7
+HDY|VTSS|Hat Yai International Airport|Hat Yai|Thailand|6.9332|100.393|Asia/Bangkok|7
+TST|VTST|Trang Airport|Trang|Thailand|7.5087|99.6166|Asia/Bangkok|7
+UTH|VTUD|Udon Thani Airport|Udon Thani|Thailand|17.3864|102.788|Asia/Bangkok|7
+SNO|VTUI|Sakon Nakhon Airport|Sakon Nakhon|Thailand|17.1951|104.119|Asia/Bangkok|7
+PXR|VTUJ|Surin Airport|Surin|Thailand|14.8683|103.498|Asia/Bangkok|7
+LOE|VTUL|Loei Airport|Loei|Thailand|17.4391|101.722|Asia/Bangkok|7
+DAD|VVDN|Da Nang International Airport|Danang|Vietnam|16.0439|108.199|Asia/Saigon|7
+HAN|VVNB|Noi Bai International Airport|Hanoi|Vietnam|21.2212|105.807|Asia/Saigon|7
+NHA|VVNT|Nha Trang Air Base|Nhatrang|Vietnam|12.2275|109.192|Asia/Saigon|7
+HUI|VVPB|Phu Bai Airport|Hue|Vietnam|16.4015|107.703|Asia/Saigon|7
+PQC|VVPQ|Phu Quoc International Airport|Phuquoc|Vietnam|10.1698|103.9931|Asia/Saigon|7
+SGN|VVTS|Tan Son Nhat International Airport|Ho Chi Minh City|Vietnam|10.8188|106.652|Asia/Saigon|7
+VBA|VYAN|Ann Airport|Ann|Burma|19.7692|94.0261|Asia/Rangoon|6.5
+NYU|VYBG|Bagan Airport|Bagan|Burma|21.1788|94.9302|Asia/Rangoon|6.5
+HEH|VYHH|Heho Airport|Heho|Burma|20.747|96.792|Asia/Rangoon|6.5
+HOX|VYHL|Hommalinn Airport|Hommalin|Burma|24.8996|94.914|Asia/Rangoon|6.5
+KET|VYKG|Kengtung Airport|Kengtung|Burma|21.3016|99.636|Asia/Rangoon|6.5
+KYP|VYKP|Kyaukpyu Airport|Kyaukpyu|Burma|19.4264|93.5348|Asia/Rangoon|6.5
+LSH|VYLS|Lashio Airport|Lashio|Burma|22.9779|97.7522|Asia/Rangoon|6.5
+MDL|VYMD|Mandalay International Airport|Mandalay|Burma|21.7022|95.9779|Asia/Rangoon|6.5
+MGZ|VYME|Myeik Airport|Myeik|Burma|12.4398|98.6215|Asia/Rangoon|6.5
+MYT|VYMK|Myitkyina Airport|Myitkyina|Burma|25.3836|97.3519|Asia/Rangoon|6.5
+MOE|VYMO|Momeik Airport|Momeik|Burma|23.0925|96.6453|Asia/Rangoon|6.5
+MOG|VYMS|Mong Hsat Airport|Mong Hsat|Burma|20.5168|99.2568|Asia/Rangoon|6.5
+NMS|VYNS|Namsang Airport|Namsang|Burma|20.8905|97.7359|Asia/Rangoon|6.5
+PAA|VYPA|Hpa-N Airport|Hpa-an|Burma|16.8937|97.6746|Asia/Rangoon|6.5
+PBU|VYPT|Putao Airport|Putao|Burma|27.3299|97.4263|Asia/Rangoon|6.5
+PRU|VYPY|Pyay Airport|Pyay|Burma|18.8245|95.266|Asia/Rangoon|6.5
+AKY|VYSW|Sittwe Airport|Sittwe|Burma|20.1327|92.8726|Asia/Rangoon|6.5
+SNW|VYTD|Thandwe Airport|Thandwe|Burma|18.4607|94.3001|Asia/Rangoon|6.5
+THL|VYTL|Tachileik Airport|Tachilek|Burma|20.4838|99.9354|Asia/Rangoon|6.5
+RGN|VYYY|Yangon International Airport|Yangon|Burma|16.9073|96.1332|Asia/Rangoon|6.5
+UPG|WAAA|Hasanuddin International Airport|Ujung Pandang|Indonesia|-5.0616|119.554|Asia/Makassar|8
+BIK|WABB|Frans Kaisiepo Airport|Biak|Indonesia|-1.19|136.108|Asia/Jayapura|9
+NBX|WABI|Nabire Airport|Nabire|Indonesia|-3.3682|135.496|Asia/Jayapura|9
+TIM|WABP|Moses Kilangin Airport|Timika|Indonesia|-4.5283|136.887|Asia/Jayapura|9
+DJJ|WAJJ|Sentani International Airport|Jayapura|Indonesia|-2.577|140.516|Asia/Jayapura|9
+WMX|WAJW|Wamena Airport|Wamena|Indonesia|-4.1025|138.957|Asia/Jayapura|9
+MKQ|WAKK|Mopah Airport|Merauke|Indonesia|-8.5203|140.418|Asia/Jayapura|9
+GTO|WAMG|Jalaluddin Airport|Gorontalo|Indonesia|0.6371|122.85|Asia/Makassar|8
+PLW|WAML|Mutiara Airport|Palu|Indonesia|-0.9185|119.91|Asia/Makassar|8
+MDC|WAMM|Sam Ratulangi Airport|Manado|Indonesia|1.5493|124.926|Asia/Makassar|8
+PSJ|WAMP|Kasiguncu Airport|Poso|Indonesia|-1.4167|120.658|Asia/Makassar|8
+OTI|WAMR|Pitu Airport|Morotai Island|Indonesia|2.046|128.325|Asia/Jayapura|9
+TTE|WAMT|Sultan Khairun Babullah Airport|Ternate|Indonesia|0.8314|127.381|Asia/Jayapura|9
+LUW|WAMW|Syukuran Aminuddin Amir Airport|Luwuk|Indonesia|-1.0389|122.772|Asia/Makassar|8
+AMQ|WAPP|Pattimura Airport, Ambon|Ambon|Indonesia|-3.7103|128.089|Asia/Jayapura|9
+FKQ|WASF|Fakfak Airport|Fak Fak|Indonesia|-2.9202|132.267|Asia/Jayapura|9
+KNG|WASK|Kaimana Airport|Kaimana|Indonesia|-3.6445|133.696|Asia/Jayapura|9
+BXB|WASO|Babo Airport|Babo|Indonesia|-2.5322|133.439|Asia/Jayapura|9
+MKW|WASR|Rendani Airport|Manokwari|Indonesia|-0.8918|134.049|Asia/Jayapura|9
+SOQ|WAXX|Dominique Edward Osok Airport|Sorong|Indonesia|-0.894|131.287|Asia/Jayapura|9
+BTU|WBGB|Bintulu Airport|Bintulu|Malaysia|3.1239|113.02|Asia/Kuala_Lumpur|8
+KCH|WBGG|Kuching International Airport|Kuching|Malaysia|1.4847|110.347|Asia/Kuala_Lumpur|8
+LMN|WBGJ|Limbang Airport|Limbang|Malaysia|4.8083|115.01|Asia/Kuala_Lumpur|8
+MUR|WBGM|Marudi Airport|Marudi|Malaysia|4.179|114.329|Asia/Kuala_Lumpur|8
+MYY|WBGR|Miri Airport|Miri|Malaysia|4.322|113.987|Asia/Kuala_Lumpur|8
+SBW|WBGS|Sibu Airport|Sibu|Malaysia|2.2616|111.985|Asia/Kuala_Lumpur|8
+LDU|WBKD|Lahad Datu Airport|Lahad Datu|Malaysia|5.0322|118.324|Asia/Kuala_Lumpur|8
+BKI|WBKK|Kota Kinabalu International Airport|Kota Kinabalu|Malaysia|5.9372|116.051|Asia/Kuala_Lumpur|8
+LBU|WBKL|Labuan Airport|Labuan|Malaysia|5.3007|115.25|Asia/Kuala_Lumpur|8
+TWU|WBKW|Tawau Airport|Tawau|Malaysia|4.3202|118.128|Asia/Kuala_Lumpur|8
+BWN|WBSB|Brunei International Airport|Bandar Seri Begawan|Brunei|4.9442|114.928|Asia/Brunei|8
+PKU|WIBB|Sultan Syarif Kasim Ii (Simpang Tiga) Airport|Pekanbaru|Indonesia|0.4608|101.445|Asia/Jakarta|7
+DUM|WIBD|Pinang Kampai Airport|Dumai|Indonesia|1.6092|101.434|Asia/Jakarta|7
+CGK|WIII|Soekarno-Hatta International Airport|Jakarta|Indonesia|-6.1256|106.656|Asia/Jakarta|7
+GNS|WIMB|Binaka Airport|Gunung Sitoli|Indonesia|1.1664|97.7047|Asia/Jakarta|7
+AEG|WIME|Aek Godang Airport|Padang Sidempuan|Indonesia|1.4001|99.4305|Asia/Jakarta|7
+PDG|WIPT|Minangkabau International Airport|Padang|Indonesia|-0.7869|100.281|Asia/Jakarta|7
+MES|WIMK|Soewondo Air Force Base|Medan|Indonesia|3.5592|98.6711|Asia/Jakarta|7
+FLZ|WIMS|Dr Ferdinand Lumban Tobing Airport|Sibolga|Indonesia|1.5559|98.8889|Asia/Jakarta|7
+NPO|WIOG|Nanga Pinoh Airport|Nangapinoh|Indonesia|-0.3489|111.748|Asia/Jakarta|7
+KTG|WIOK|Ketapang(Rahadi Usman) Airport|Ketapang|Indonesia|-1.8166|109.963|Asia/Jakarta|7
+PNK|WIOO|Supadio Airport|Pontianak|Indonesia|-0.1507|109.404|Asia/Jakarta|7
+DJB|WIPA|Sultan Thaha Airport|Jambi|Indonesia|-1.638|103.644|Asia/Jakarta|7
+BKS|WIPL|Fatmawati Soekarno Airport|Bengkulu|Indonesia|-3.8637|102.339|Asia/Jakarta|7
+PLM|WIPP|Sultan Mahmud Badaruddin II Airport|Palembang|Indonesia|-2.8983|104.7|Asia/Jakarta|7
+RGT|WIPR|Japura Airport|Rengat|Indonesia|-0.3528|102.335|Asia/Jakarta|7
+LSX|WITL|Lhok Sukon Airport|Lhok Sukon|Indonesia|5.0695|97.2592|Asia/Jakarta|7
+BTJ|WITT|Sultan Iskandar Muda International Airport|Banda Aceh|Indonesia|5.5229|95.4206|Asia/Jakarta|7
+AOR|WMKA|Sultan Abdul Halim Airport|Alor Setar|Malaysia|6.1897|100.398|Asia/Kuala_Lumpur|8
+BWH|WMKB|Butterworth Airport|Butterworth|Malaysia|5.4659|100.391|Asia/Kuala_Lumpur|8
+KBR|WMKC|Sultan Ismail Petra Airport|Kota Bahru|Malaysia|6.1669|102.293|Asia/Kuala_Lumpur|8
+KUA|WMKD|Kuantan Airport|Kuantan|Malaysia|3.7754|103.209|Asia/Kuala_Lumpur|8
+KTE|WMKE|Kerteh Airport|Kerteh|Malaysia|4.5372|103.427|Asia/Kuala_Lumpur|8
+IPH|WMKI|Sultan Azlan Shah Airport|Ipoh|Malaysia|4.568|101.092|Asia/Kuala_Lumpur|8
+JHB|WMKJ|Senai International Airport|Johor Bahru|Malaysia|1.6413|103.67|Asia/Kuala_Lumpur|8
+KUL|WMKK|Kuala Lumpur International Airport|Kuala Lumpur|Malaysia|2.7456|101.71|Asia/Kuala_Lumpur|8
+LGK|WMKL|Langkawi International Airport|Langkawi|Malaysia|6.3297|99.7287|Asia/Kuala_Lumpur|8
+MKZ|WMKM|Malacca Airport|Malacca|Malaysia|2.2634|102.252|Asia/Kuala_Lumpur|8
+TGG|WMKN|Sultan Mahmud Airport|Kuala Terengganu|Malaysia|5.3826|103.103|Asia/Kuala_Lumpur|8
+PEN|WMKP|Penang International Airport|Penang|Malaysia|5.2971|100.277|Asia/Kuala_Lumpur|8
+UAI|WPDB|Suai Airport|Suai|East Timor|-9.3033|125.287|Asia/Dili|9
+DIL|WPDL|Presidente Nicolau Lobato International Airport|Dili|East Timor|-8.5464|125.526|Asia/Dili|9
+BCH|WPEC|Cakung Airport|Baucau|East Timor|-8.489|126.401|Asia/Dili|9
+QPG|WSAP|Paya Lebar Air Base|Paya Lebar|Singapore|1.3604|103.91|Asia/Singapore|8
+TGA|WSAT|Tengah Air Base|Tengah|Singapore|1.3873|103.709|Asia/Singapore|8
+XSP|WSSL|Seletar Airport|Singapore|Singapore|1.4169|103.868|Asia/Singapore|8
+SIN|WSSS|Singapore Changi Airport|Singapore|Singapore|1.3502|103.994|Asia/Singapore|8
+ACF|YBAF|Brisbane Archerfield Airport|Brisbane|Australia|-27.5703|153.008|Australia/Brisbane|10
+ABM|YBAM|Northern Peninsula Airport|Amberley|Australia|-10.9508|142.459|Australia/Brisbane|10
+ASP|YBAS|Alice Springs Airport|Alice Springs|Australia|-23.8067|133.902|Australia/Darwin|9.5
+BNE|YBBN|Brisbane International Airport|Brisbane|Australia|-27.3842|153.117|Australia/Brisbane|10
+OOL|YBCG|Gold Coast Airport|Coolangatta|Australia|-28.1644|153.505|Australia/Brisbane|10
+CNS|YBCS|Cairns International Airport|Cairns|Australia|-16.8858|145.755|Australia/Brisbane|10
+CTL|YBCV|Charleville Airport|Charlieville|Australia|-26.4133|146.262|Australia/Brisbane|10
+ISA|YBMA|Mount Isa Airport|Mount Isa|Australia|-20.6639|139.489|Australia/Brisbane|10
+MCY|YBMC|Sunshine Coast Airport|Maroochydore|Australia|-26.6033|153.091|Australia/Brisbane|10
+MKY|YBMK|Mackay Airport|Mackay|Australia|-21.1717|149.18|Australia/Brisbane|10
+PPP|YBPN|Proserpine Whitsunday Coast Airport|Prosserpine|Australia|-20.495|148.552|Australia/Brisbane|10
+ROK|YBRK|Rockhampton Airport|Rockhampton|Australia|-23.3819|150.475|Australia/Brisbane|10
+TSV|YBTL|Townsville Airport|Townsville|Australia|-19.2525|146.765|Australia/Brisbane|10
+WEI|YBWP|Weipa Airport|Weipa|Australia|-12.6786|141.925|Australia/Brisbane|10
+AVV|YMAV|Avalon Airport|Avalon|Australia|-38.0394|144.469|Australia/Hobart|10
+ABX|YMAY|Albury Airport|Albury|Australia|-36.0678|146.958|Australia/Sydney|10
+MEB|YMEN|Melbourne Essendon Airport|Melbourne|Australia|-37.7281|144.902|Australia/Hobart|10
+HBA|YMHB|Hobart International Airport|Hobart|Australia|-42.8361|147.51|Australia/Melbourne|10
+LST|YMLT|Launceston Airport|Launceston|Australia|-41.5453|147.214|Australia/Melbourne|10
+MBW|YMMB|Melbourne Moorabbin Airport|Melbourne|Australia|-37.9758|145.102|Australia/Hobart|10
+MEL|YMML|Melbourne International Airport|Melbourne|Australia|-37.6733|144.843|Australia/Hobart|10
+ADL|YPAD|Adelaide International Airport|Adelaide|Australia|-34.945|138.531|Australia/Adelaide|9.5
+JAD|YPJT|Perth Jandakot Airport|Perth|Australia|-32.0975|115.881|Australia/Perth|8
+KTA|YPKA|Karratha Airport|Karratha|Australia|-20.7122|116.773|Australia/Perth|8
+KGI|YPKG|Kalgoorlie Boulder Airport|Kalgoorlie|Australia|-30.7894|121.462|Australia/Perth|8
+KNX|YPKU|Kununurra Airport|Kununurra|Australia|-15.7781|128.708|Australia/Perth|8
+LEA|YPLM|Learmonth Airport|Learmonth|Australia|-22.2356|114.089|Australia/Perth|8
+PHE|YPPD|Port Hedland International Airport|Port Hedland|Australia|-20.3778|118.626|Australia/Perth|8
+PER|YPPH|Perth International Airport|Perth|Australia|-31.9403|115.967|Australia/Perth|8
+UMR|YPWR|Woomera Airfield|Woomera|Australia|-31.1442|136.817|Australia/Adelaide|9.5
+XCH|YPXM|Christmas Island Airport|Christmas Island|Christmas Island|-10.4506|105.69|Indian/Christmas|7
+BWU|YSBK|Sydney Bankstown Airport|Sydney|Australia|-33.9244|150.988|Australia/Sydney|10
+CBR|YSCB|Canberra International Airport|Canberra|Australia|-35.3069|149.195|Australia/Sydney|10
+CFS|YSCH|Coffs Harbour Airport|Coff's Harbour|Australia|-30.3206|153.116|Australia/Sydney|10
+CDU|YSCN|Camden Airport|Camden|Australia|-34.0403|150.687|Australia/Sydney|10
+DBO|YSDU|Dubbo City Regional Airport|Dubbo|Australia|-32.2167|148.575|Australia/Sydney|10
+NLK|YSNF|Norfolk Island International Airport|Norfolk Island|Norfolk Island|-29.0416|167.939|Pacific/Norfolk|11
+XRH|YSRI|RAAF Base Richmond|Richmond|Australia|-33.6006|150.781|Australia/Sydney|10
+SYD|YSSY|Sydney Kingsford Smith International Airport|Sydney|Australia|-33.9461|151.177|Australia/Sydney|10
+TMW|YSTW|Tamworth Airport|Tamworth|Australia|-31.0839|150.847|Australia/Sydney|10
+WGA|YSWG|Wagga Wagga City Airport|Wagga Wagga|Australia|-35.1653|147.466|Australia/Sydney|10
+PEK|ZBAA|Beijing Capital International Airport|Beijing|China|40.0801|116.585|Asia/Shanghai|8
+HLD|ZBLA|Dongshan Airport|Hailar|China|49.205|119.825|Asia/Shanghai|8
+TSN|ZBTJ|Tianjin Binhai International Airport|Tianjin|China|39.1244|117.346|Asia/Shanghai|8
+TYN|ZBYN|Taiyuan Wusu Airport|Taiyuan|China|37.7469|112.628|Asia/Shanghai|8
+CAN|ZGGG|Guangzhou Baiyun International Airport|Guangzhou|China|23.3924|113.299|Asia/Shanghai|8
+CSX|ZGHA|Changsha Huanghua International Airport|Changcha|China|28.1892|113.22|Asia/Shanghai|8
+KWL|ZGKL|Guilin Liangjiang International Airport|Guilin|China|25.2181|110.039|Asia/Shanghai|8
+NNG|ZGNN|Nanning Wuxu Airport|Nanning|China|22.6083|108.172|Asia/Shanghai|8
+SZX|ZGSZ|Shenzhen Bao'an International Airport|Shenzhen|China|22.6393|113.811|Asia/Shanghai|8
+CGO|ZHCC|Zhengzhou Xinzheng International Airport|Zhengzhou|China|34.5197|113.841|Asia/Shanghai|8
+WUH|ZHHH|Wuhan Tianhe International Airport|Wuhan|China|30.7838|114.208|Asia/Shanghai|8
+FNJ|ZKPY|Pyongyang Sunan International Airport|Pyongyang|North Korea|39.2241|125.67|Asia/Pyongyang|8.5
+LHW|ZLLL|Lanzhou Zhongchuan Airport|Lanzhou|China|36.5152|103.62|Asia/Shanghai|8
+XIY|ZLXY|Xi'an Xianyang International Airport|Xi'an|China|34.4471|108.752|Asia/Shanghai|8
+ULN|ZMUB|Chinggis Khaan International Airport|Ulan Bator|Mongolia|47.8431|106.767|Asia/Ulaanbaatar|8
+JHG|ZPJH|Xishuangbanna Gasa Airport|Jinghonggasa|China|21.9739|100.76|Asia/Shanghai|8
+KMG|ZPPP|Kunming Changshui International Airport|Kunming|China|25.1019|102.9292|Asia/Shanghai|8
+XMN|ZSAM|Xiamen Gaoqi International Airport|Xiamen|China|24.544|118.128|Asia/Shanghai|8
+KHN|ZSCN|Nanchang Changbei International Airport|Nanchang|China|28.865|115.9|Asia/Shanghai|8
+FOC|ZSFZ|Fuzhou Changle International Airport|Fuzhou|China|25.9351|119.663|Asia/Shanghai|8
+HGH|ZSHC|Hangzhou Xiaoshan International Airport|Hangzhou|China|30.2295|120.434|Asia/Shanghai|8
+NGB|ZSNB|Ningbo Lishe International Airport|Ninbo|China|29.8267|121.462|Asia/Shanghai|8
+NKG|ZSNJ|Nanjing Lukou Airport|Nanjing|China|31.742|118.862|Asia/Shanghai|8
+HFE|ZSOF|Hefei Luogang International Airport|Hefei|China|31.78|117.298|Asia/Shanghai|8
+TAO|ZSQD|Liuting Airport|Qingdao|China|36.2661|120.374|Asia/Shanghai|8
+SHA|ZSSS|Shanghai Hongqiao International Airport|Shanghai|China|31.1979|121.336|Asia/Shanghai|8
+YNT|ZSYT|Yantai Laishan Airport|Yantai|China|37.4017|121.372|Asia/Shanghai|8
+CKG|ZUCK|Chongqing Jiangbei International Airport|Chongqing|China|29.7192|106.642|Asia/Shanghai|8
+KWE|ZUGY|Longdongbao Airport|Guiyang|China|26.5385|106.801|Asia/Shanghai|8
+CTU|ZUUU|Chengdu Shuangliu International Airport|Chengdu|China|30.5785|103.947|Asia/Shanghai|8
+XIC|ZUXC|Xichang Qingshan Airport|Xichang|China|27.9891|102.184|Asia/Shanghai|8
+KHG|ZWSH|Kashgar Airport|Kashi|China|39.5429|76.02|Asia/Shanghai|8
+HTN|ZWTN|Hotan Airport|Hotan|China|37.0385|79.8649|Asia/Shanghai|8
+URC|ZWWW|Ürümqi Diwopu International Airport|Urumqi|China|43.9071|87.4742|Asia/Shanghai|8
+HRB|ZYHB|Taiping Airport|Harbin|China|45.6234|126.25|Asia/Shanghai|8
+MDG|ZYMD|Mudanjiang Hailang International Airport|Mudanjiang|China|44.5241|129.569|Asia/Shanghai|8
+DLC|ZYTL|Zhoushuizi Airport|Dalian|China|38.9657|121.539|Asia/Shanghai|8
+PVG|ZSPD|Shanghai Pudong International Airport|Shanghai|China|31.1434|121.805|Asia/Shanghai|8
+TOD|WMBT|Pulau Tioman Airport|Tioman|Malaysia|2.8182|104.16|Asia/Kuala_Lumpur|8
+SZB|WMSA|Sultan Abdul Aziz Shah International Airport|Kuala Lumpur|Malaysia|3.1306|101.549|Asia/Kuala_Lumpur|8
+NTQ|RJNW|Noto Airport|Wajima|Japan|37.2931|136.962|Asia/Tokyo|9
+HBE|HEBA|Borg El Arab International Airport|Alexandria|Egypt|30.9177|29.6964|Africa/Cairo|2
+BTI|PABA|Barter Island LRRS Airport|Barter Island|United States|70.134|-143.582|America/Anchorage|-9
+LUR|PALU|Cape Lisburne LRRS Airport|Cape Lisburne|United States|68.8751|-166.11|America/Anchorage|-9
+PIZ|PPIZ|Point Lay LRRS Airport|Point Lay|United States|69.7329|-163.005|America/Anchorage|-9
+ITO|PHTO|Hilo International Airport|Hilo|United States|19.7214|-155.048|Pacific/Honolulu|-10
+ORL|KORL|Orlando Executive Airport|Orlando|United States|28.5455|-81.3329|America/New_York|-5
+BTT|PABT|Bettles Airport|Bettles|United States|66.9139|-151.529|America/Anchorage|-9
+UTO|PAIM|Indian Mountain LRRS Airport|Indian Mountains|United States|65.9928|-153.704|America/Anchorage|-9
+FYU|PFYU|Fort Yukon Airport|Fort Yukon|United States|66.5715|-145.25|America/Anchorage|-9
+SVW|PASV|Sparrevohn LRRS Airport|Sparrevohn|United States|61.0974|-155.574|America/Anchorage|-9
+FRN|PAFR|Bryant Army Heliport|Fort Richardson|United States|61.2664|-149.653|America/Anchorage|-9
+TLJ|PATL|Tatalina LRRS Airport|Tatalina|United States|62.8944|-155.977|America/Anchorage|-9
+CZF|PACZ|Cape Romanzof LRRS Airport|Cape Romanzof|United States|61.7803|-166.039|America/Anchorage|-9
+BED|KBED|Laurence G Hanscom Field|Bedford|United States|42.47|-71.289|America/New_York|-5
+SNP|PASN|St Paul Island Airport|St. Paul Island|United States|57.1673|-170.22|America/Anchorage|-9
+EHM|PAEH|Cape Newenham LRRS Airport|Cape Newenham|United States|58.6464|-162.063|America/Anchorage|-9
+STG|PAPB|St George Airport|Point Barrow|United States|56.5783|-169.662|America/Anchorage|-9
+ILI|PAIL|Iliamna Airport|Iliamna|United States|59.7544|-154.911|America/Anchorage|-9
+PTU|PAPM|Platinum Airport|Port Moller|United States|59.0114|-161.82|America/Anchorage|-9
+BMX|PABM|Big Mountain Airport|Big Mountain|United States|59.3612|-155.259|America/Anchorage|-9
+OSC|KOSC|Oscoda Wurtsmith Airport|Oscoda|United States|44.4516|-83.3941|America/New_York|-5
+OAR|KOAR|Marina Municipal Airport|Fort Ord|United States|36.6819|-121.762|America/Los_Angeles|-8
+MHR|KMHR|Sacramento Mather Airport|Sacramento|United States|38.5539|-121.298|America/Los_Angeles|-8
+BYS|KBYS|Bicycle Lake Army Air Field|Fort Irwin|United States|35.2805|-116.63|America/Los_Angeles|-8
+FSM|KFSM|Fort Smith Regional Airport|Fort Smith|United States|35.3366|-94.3674|America/Chicago|-6
+MRI|PAMR|Merrill Field|Anchorage|United States|61.2135|-149.844|America/Anchorage|-9
+GNT|KGNT|Grants-Milan Municipal Airport|Grants|United States|35.1673|-107.902|America/Denver|-7
+PNC|KPNC|Ponca City Regional Airport|Ponca City|United States|36.732|-97.0998|America/Chicago|-6
+SVN|KSVN|Hunter Army Air Field|Hunter Aaf|United States|32.01|-81.1457|America/New_York|-5
+GFK|KGFK|Grand Forks International Airport|Grand Forks|United States|47.9493|-97.1761|America/Chicago|-6
+PBF|KPBF|Pine Bluff Regional Airport, Grider Field|Pine Bluff|United States|34.1731|-91.9356|America/Chicago|-6
+NSE|KNSE|Whiting Field Naval Air Station - North|Milton|United States|30.7242|-87.0219|America/Chicago|-6
+HNM|PHHN|Hana Airport|Hana|United States|20.7956|-156.014|Pacific/Honolulu|-10
+PRC|KPRC|Ernest A. Love Field|Prescott|United States|34.6545|-112.42|America/Phoenix|-7
+TTN|KTTN|Trenton Mercer Airport|Trenton|United States|40.2767|-74.8135|America/New_York|-5
+BOS|KBOS|General Edward Lawrence Logan International Airport|Boston|United States|42.3643|-71.0052|America/New_York|-5
+SUU|KSUU|Travis Air Force Base|Fairfield|United States|38.2627|-121.927|America/Los_Angeles|-8
+RME|KRME|Griffiss International Airport|Rome|United States|43.2338|-75.407|America/New_York|-5
+ENV|KENV|Wendover Airport|Wendover|United States|40.7187|-114.031|America/Denver|-7
+BFM|KBFM|Mobile Downtown Airport|Mobile|United States|30.6268|-88.0681|America/Chicago|-6
+OAK|KOAK|Metropolitan Oakland International Airport|Oakland|United States|37.7213|-122.221|America/Los_Angeles|-8
+OMA|KOMA|Eppley Airfield|Omaha|United States|41.3032|-95.8941|America/Chicago|-6
+OGG|PHOG|Kahului Airport|Kahului|United States|20.8986|-156.43|Pacific/Honolulu|-10
+ICT|KICT|Wichita Eisenhower National Airport|Wichita|United States|37.6499|-97.4331|America/Chicago|-6
+MCI|KMCI|Kansas City International Airport|Kansas City|United States|39.2976|-94.7139|America/Chicago|-6
+MSN|KMSN|Dane County Regional Truax Field|Madison|United States|43.1399|-89.3375|America/Chicago|-6
+DLG|PADL|Dillingham Airport|Dillingham|United States|59.0447|-158.505|America/Anchorage|-9
+HRO|KHRO|Boone County Airport|Harrison|United States|36.2615|-93.1547|America/Chicago|-6
+PHX|KPHX|Phoenix Sky Harbor International Airport|Phoenix|United States|33.4343|-112.012|America/Phoenix|-7
+BGR|KBGR|Bangor International Airport|Bangor|United States|44.8074|-68.8281|America/New_York|-5
+FXE|KFXE|Fort Lauderdale Executive Airport|Fort Lauderdale|United States|26.1973|-80.1707|America/New_York|-5
+GGG|KGGG|East Texas Regional Airport|Longview|United States|32.384|-94.7115|America/Chicago|-6
+AND|KAND|Anderson Regional Airport|Andersen|United States|34.4946|-82.7094|America/New_York|-5
+GEG|KGEG|Spokane International Airport|Spokane|United States|47.6199|-117.534|America/Los_Angeles|-8
+HWO|KHWO|North Perry Airport|Hollywood|United States|26.0012|-80.2407|America/New_York|-5
+SFO|KSFO|San Francisco International Airport|San Francisco|United States|37.619|-122.375|America/Los_Angeles|-8
+CTB|KCTB|Cut Bank International Airport|Cutbank|United States|48.6084|-112.376|America/Denver|-7
+ARA|KARA|Acadiana Regional Airport|Louisiana|United States|30.0378|-91.8839|America/Chicago|-6
+GNV|KGNV|Gainesville Regional Airport|Gainesville|United States|29.6901|-82.2718|America/New_York|-5
+MEM|KMEM|Memphis International Airport|Memphis|United States|35.0424|-89.9767|America/Chicago|-6
+DUG|KDUG|Bisbee Douglas International Airport|Douglas|United States|31.469|-109.604|America/Phoenix|-7
+BIG|PABI|Allen Army Airfield|Delta Junction|United States|63.9945|-145.722|America/Anchorage|-9
+CNW|KCNW|TSTC Waco Airport|Waco|United States|31.6378|-97.0741|America/Chicago|-6
+ANN|PANT|Annette Island Airport|Annette Island|United States|55.0424|-131.572|America/Anchorage|-9
+CAR|KCAR|Caribou Municipal Airport|Caribou|United States|46.8715|-68.0179|America/New_York|-5
+LRF|KLRF|Little Rock Air Force Base|Jacksonville|United States|34.9169|-92.1497|America/Chicago|-6
+HUA|KHUA|Redstone Army Air Field|Redstone|United States|34.6787|-86.6848|America/Chicago|-6
+POB|KPOB|Pope Field|Fort Bragg|United States|35.1709|-79.0145|America/New_York|-5
+DHT|KDHT|Dalhart Municipal Airport|Dalhart|United States|36.0226|-102.547|America/Chicago|-6
+DLF|KDLF|DLF Airport|Del Rio|United States|29.3595|-100.778|America/Chicago|-6
+LAX|KLAX|Los Angeles International Airport|Los Angeles|United States|33.9425|-118.408|America/Los_Angeles|-8
+ANB|KANB|Anniston Regional Airport|Anniston|United States|33.5882|-85.8581|America/Chicago|-6
+CLE|KCLE|Cleveland Hopkins International Airport|Cleveland|United States|41.4117|-81.8498|America/New_York|-5
+DOV|KDOV|Dover Air Force Base|Dover|United States|39.1295|-75.466|America/New_York|-5
+CVG|KCVG|Cincinnati Northern Kentucky International Airport|Cincinnati|United States|39.0488|-84.6678|America/New_York|-5
+FME|KFME|Tipton Airport|Fort Meade|United States|39.0854|-76.7594|America/New_York|-5
+HON|KHON|Huron Regional Airport|Huron|United States|44.3852|-98.2285|America/Chicago|-6
+JNU|PAJN|Juneau International Airport|Juneau|United States|58.355|-134.576|America/Anchorage|-9
+LFT|KLFT|Lafayette Regional Airport|Lafayette|United States|30.2053|-91.9876|America/Chicago|-6
+EWR|KEWR|Newark Liberty International Airport|Newark|United States|40.6925|-74.1687|America/New_York|-5
+BOI|KBOI|Boise Air Terminal/Gowen Field|Boise|United States|43.5644|-116.223|America/Denver|-7
+INS|KINS|Creech Air Force Base|Indian Springs|United States|36.5872|-115.673|America/Los_Angeles|-8
+GCK|KGCK|Garden City Regional Airport|Garden City|United States|37.9275|-100.724|America/Chicago|-6
+MOT|KMOT|Minot International Airport|Minot|United States|48.2594|-101.28|America/Chicago|-6
+HHI|PHHI|Wheeler Army Airfield|Wahiawa|United States|21.4835|-158.04|Pacific/Honolulu|-10
+MXF|KMXF|Maxwell Air Force Base|Montgomery|United States|32.3829|-86.3658|America/Chicago|-6
+DAL|KDAL|Dallas Love Field|Dallas|United States|32.8471|-96.8518|America/Chicago|-6
+FCS|KFCS|Butts AAF (Fort Carson) Air Field|Fort Carson|United States|38.6784|-104.757|America/Denver|-7
+HLN|KHLN|Helena Regional Airport|Helena|United States|46.6068|-111.983|America/Denver|-7
+NKX|KNKX|Miramar Marine Corps Air Station - Mitscher Field|Miramar|United States|32.8684|-117.143|America/Los_Angeles|-8
+LUF|KLUF|Luke Air Force Base|Phoenix|United States|33.535|-112.383|America/Phoenix|-7
+HHR|KHHR|Jack Northrop Field Hawthorne Municipal Airport|Hawthorne|United States|33.9228|-118.335|America/Los_Angeles|-8
+HUL|KHUL|Houlton International Airport|Houlton|United States|46.1231|-67.7921|America/New_York|-5
+END|KEND|Vance Air Force Base|Enid|United States|36.3392|-97.9165|America/Chicago|-6
+NTD|KNTD|Point Mugu Naval Air Station (Naval Base Ventura Co)|Point Mugu|United States|34.1203|-119.121|America/Los_Angeles|-8
+EDW|KEDW|Edwards Air Force Base|Edwards Afb|United States|34.9054|-117.884|America/Los_Angeles|-8
+LCH|KLCH|Lake Charles Regional Airport|Lake Charles|United States|30.1261|-93.2233|America/Chicago|-6
+KOA|PHKO|Ellison Onizuka Kona International At Keahole Airport|Kona|United States|19.7388|-156.0456|Pacific/Honolulu|-10
+MYR|KMYR|Myrtle Beach International Airport|Myrtle Beach|United States|33.6797|-78.9283|America/New_York|-5
+NLC|KNLC|Lemoore Naval Air Station (Reeves Field) Airport|Lemoore|United States|36.333|-119.952|America/Los_Angeles|-8
+ACK|KACK|Nantucket Memorial Airport|Nantucket|United States|41.2531|-70.0602|America/New_York|-5
+FAF|KFAF|Felker Army Air Field|Fort Eustis|United States|37.1325|-76.6088|America/New_York|-5
+HOP|KHOP|Campbell AAF (Fort Campbell) Air Field|Hopkinsville|United States|36.6686|-87.4962|America/Chicago|-6
+DCA|KDCA|Ronald Reagan Washington National Airport|Washington|United States|38.8521|-77.0377|America/New_York|-5
+NHK|KNHK|Patuxent River Naval Air Station (Trapnell Field)|Patuxent River|United States|38.286|-76.4118|America/New_York|-5
+PSX|KPSX|Palacios Municipal Airport|Palacios|United States|28.7275|-96.251|America/Chicago|-6
+BYH|KBYH|Arkansas International Airport|Blytheville|United States|35.9643|-89.944|America/Chicago|-6
+ACY|KACY|Atlantic City International Airport|Atlantic City|United States|39.4576|-74.5772|America/New_York|-5
+TIK|KTIK|Tinker Air Force Base|Oklahoma City|United States|35.4147|-97.3866|America/Chicago|-6
+ECG|KECG|Elizabeth City Regional Airport & Coast Guard Air Station|Elizabeth City|United States|36.2606|-76.1746|America/New_York|-5
+PUB|KPUB|Pueblo Memorial Airport|Pueblo|United States|38.2891|-104.497|America/Denver|-7
+PQI|KPQI|Northern Maine Regional Airport at Presque Isle|Presque Isle|United States|46.689|-68.0448|America/New_York|-5
+GRF|KGRF|Gray Army Air Field|Fort Lewis|United States|47.0792|-122.581|America/Los_Angeles|-8
+ADQ|PADQ|Kodiak Airport|Kodiak|United States|57.75|-152.494|America/Anchorage|-9
+UPP|PHUP|Upolu Airport|Opolu|United States|20.2653|-155.86|Pacific/Honolulu|-10
+FLL|KFLL|Fort Lauderdale Hollywood International Airport|Fort Lauderdale|United States|26.0726|-80.1527|America/New_York|-5
+INL|KINL|Falls International Airport|International Falls|United States|48.5662|-93.4031|America/Chicago|-6
+SLC|KSLC|Salt Lake City International Airport|Salt Lake City|United States|40.7884|-111.978|America/Denver|-7
+CDS|KCDS|Childress Municipal Airport|Childress|United States|34.4338|-100.288|America/Chicago|-6
+BIX|KBIX|Keesler Air Force Base|Biloxi|United States|30.4104|-88.9244|America/Chicago|-6
+LSF|KLSF|Lawson Army Air Field (Fort Benning)|Fort Benning|United States|32.3373|-84.9913|America/New_York|-5
+NQI|KNQI|Kingsville Naval Air Station|Kingsville|United States|27.5072|-97.8097|America/Chicago|-6
+FRI|KFRI|Marshall Army Air Field|Fort Riley|United States|39.0553|-96.7645|America/Chicago|-6
+MDT|KMDT|Harrisburg International Airport|Harrisburg|United States|40.1935|-76.7634|America/New_York|-5
+LNK|KLNK|Lincoln Airport|Lincoln|United States|40.851|-96.7592|America/Chicago|-6
+LAN|KLAN|Capital City Airport|Lansing|United States|42.7787|-84.5874|America/New_York|-5
+MUE|PHMU|Waimea Kohala Airport|Kamuela|United States|20.0013|-155.668|Pacific/Honolulu|-10
+MSS|KMSS|Massena International Richards Field|Massena|United States|44.9358|-74.8456|America/New_York|-5
+HKY|KHKY|Hickory Regional Airport|Hickory|United States|35.7411|-81.3895|America/New_York|-5
+SPG|KSPG|Albert Whitted Airport|St. Petersburg|United States|27.7651|-82.627|America/New_York|-5
+FMY|KFMY|Page Field|Fort Myers|United States|26.5866|-81.8633|America/New_York|-5
+IAH|KIAH|George Bush Intercontinental Houston Airport|Houston|United States|29.9844|-95.3414|America/Chicago|-6
+ADW|KADW|Joint Base Andrews|Camp Springs|United States|38.8108|-76.867|America/New_York|-5
+INT|KINT|Smith Reynolds Airport|Winston-salem|United States|36.1337|-80.222|America/New_York|-5
+VCV|KVCV|Southern California Logistics Airport|Victorville|United States|34.5975|-117.383|America/Los_Angeles|-8
+CEW|KCEW|Bob Sikes Airport|Crestview|United States|30.7788|-86.5221|America/Chicago|-6
+PHN|KPHN|St Clair County International Airport|Port Huron|United States|42.911|-82.5289|America/New_York|-5
+BFL|KBFL|Meadows Field|Bakersfield|United States|35.4336|-119.057|America/Los_Angeles|-8
+ELP|KELP|El Paso International Airport|El Paso|United States|31.8072|-106.378|America/Denver|-7
+HRL|KHRL|Valley International Airport|Harlingen|United States|26.2285|-97.6544|America/Chicago|-6
+CAE|KCAE|Columbia Metropolitan Airport|Columbia|United States|33.9388|-81.1195|America/New_York|-5
+DMA|KDMA|Davis Monthan Air Force Base|Tucson|United States|32.1665|-110.883|America/Phoenix|-7
+NPA|KNPA|Pensacola Naval Air Station/Forrest Sherman Field|Pensacola|United States|30.3527|-87.3186|America/Chicago|-6
+PNS|KPNS|Pensacola Regional Airport|Pensacola|United States|30.4734|-87.1866|America/Chicago|-6
+RDR|KRDR|Grand Forks Air Force Base|Red River|United States|47.9611|-97.4012|America/Chicago|-6
+HOU|KHOU|William P Hobby Airport|Houston|United States|29.6454|-95.2789|America/Chicago|-6
+BFK|KBKF|Buckley Air Force Base|Buckley|United States|39.7017|-104.752|America/Denver|-7
+ORT|PAOR|Northway Airport|Northway|United States|62.9613|-141.929|America/Anchorage|-9
+PAQ|PAAQ|Warren "Bud" Woods Palmer Municipal Airport|Palmer|United States|61.5949|-149.089|America/Anchorage|-9
+PIT|KPIT|Pittsburgh International Airport|Pittsburgh|United States|40.4915|-80.2329|America/New_York|-5
+BRW|PABR|Wiley Post Will Rogers Memorial Airport|Barrow|United States|71.2854|-156.766|America/Anchorage|-9
+EFD|KEFD|Ellington Airport|Houston|United States|29.6073|-95.1588|America/Chicago|-6
+NUW|KNUW|Whidbey Island Naval Air Station (Ault Field)|Whidbey Island|United States|48.3518|-122.656|America/Los_Angeles|-8
+ALI|KALI|Alice International Airport|Alice|United States|27.7409|-98.0269|America/Chicago|-6
+VAD|KVAD|Moody Air Force Base|Valdosta|United States|30.9678|-83.193|America/New_York|-5
+MIA|KMIA|Miami International Airport|Miami|United States|25.7932|-80.2906|America/New_York|-5
+SEA|KSEA|Seattle Tacoma International Airport|Seattle|United States|47.449|-122.309|America/Los_Angeles|-8
+CHA|KCHA|Lovell Field|Chattanooga|United States|35.0353|-85.2038|America/New_York|-5
+BDR|KBDR|Igor I Sikorsky Memorial Airport|Stratford|United States|41.1635|-73.1262|America/New_York|-5
+JAN|KJAN|Jackson-Medgar Wiley Evers International Airport|Jackson|United States|32.3112|-90.0759|America/Chicago|-6
+GLS|KGLS|Scholes International At Galveston Airport|Galveston|United States|29.2653|-94.8604|America/Chicago|-6
+LGB|KLGB|Long Beach /Daugherty Field/ Airport|Long Beach|United States|33.8177|-118.152|America/Los_Angeles|-8
+HDH|PHDH|Dillingham Airfield|Dillingham|United States|21.5795|-158.197|Pacific/Honolulu|-10
+IPT|KIPT|Williamsport Regional Airport|Williamsport|United States|41.2418|-76.9211|America/New_York|-5
+IND|KIND|Indianapolis International Airport|Indianapolis|United States|39.7173|-86.2944|America/New_York|-5
+SZL|KSZL|Whiteman Air Force Base|Knobnoster|United States|38.7303|-93.5479|America/Chicago|-6
+AKC|KAKR|Akron Fulton International Airport|Akron|United States|41.0375|-81.4669|America/New_York|-5
+GWO|KGWO|Greenwood–Leflore Airport|Greenwood|United States|33.4943|-90.0847|America/Chicago|-6
+HPN|KHPN|Westchester County Airport|White Plains|United States|41.067|-73.7076|America/New_York|-5
+FOK|KFOK|Francis S Gabreski Airport|West Hampton Beach|United States|40.8437|-72.6318|America/New_York|-5
+JBR|KJBR|Jonesboro Municipal Airport|Jonesboro|United States|35.8317|-90.6464|America/Chicago|-6
+XSD|KTNX|Tonopah Test Range Airport|Tonopah|United States|37.7988|-116.781|America/Los_Angeles|-8
+LNA|KLNA|Palm Beach County Park Airport|West Palm Beach|United States|26.593|-80.0851|America/New_York|-5
+NZY|KNZY|North Island Naval Air Station-Halsey Field|San Diego|United States|32.6992|-117.215|America/Los_Angeles|-8
+BIF|KBIF|Biggs Army Air Field (Fort Bliss)|El Paso|United States|31.8495|-106.38|America/Denver|-7
+YUM|KNYL|Yuma MCAS/Yuma International Airport|Yuma|United States|32.6566|-114.606|America/Phoenix|-7
+CNM|KCNM|Cavern City Air Terminal|Carlsbad|United States|32.3375|-104.263|America/Denver|-7
+DLH|KDLH|Duluth International Airport|Duluth|United States|46.8421|-92.1936|America/Chicago|-6
+BET|PABE|Bethel Airport|Bethel|United States|60.7798|-161.838|America/Anchorage|-9
+LOU|KLOU|Bowman Field|Louisville|United States|38.228|-85.6637|America/New_York|-5
+FHU|KFHU|Sierra Vista Municipal Libby Army Air Field|Fort Huachuca|United States|31.5885|-110.344|America/Phoenix|-7
+LIH|PHLI|Lihue Airport|Lihue|United States|21.976|-159.339|Pacific/Honolulu|-10
+HUF|KHUF|Terre Haute Regional Airport, Hulman Field|Terre Haute|United States|39.4515|-87.3076|America/New_York|-5
+HVR|KHVR|Havre City County Airport|Havre|United States|48.543|-109.762|America/Denver|-7
+MWH|KMWH|Grant County International Airport|Grant County Airport|United States|47.2077|-119.32|America/Los_Angeles|-8
+MPV|KMPV|Edward F Knapp State Airport|Montpelier|United States|44.2035|-72.5623|America/New_York|-5
+RIC|KRIC|Richmond International Airport|Richmond|United States|37.5052|-77.3197|America/New_York|-5
+SHV|KSHV|Shreveport Regional Airport|Shreveport|United States|32.4466|-93.8256|America/Chicago|-6
+CDV|PACV|Merle K (Mudhole) Smith Airport|Cordova|United States|60.4918|-145.478|America/Anchorage|-9
+ORF|KORF|Norfolk International Airport|Norfolk|United States|36.8946|-76.2012|America/New_York|-5
+BPT|KBPT|Southeast Texas Regional Airport|Beaumont|United States|29.9508|-94.0207|America/Chicago|-6
+SAV|KSAV|Savannah Hilton Head International Airport|Savannah|United States|32.1276|-81.2021|America/New_York|-5
+HIF|KHIF|Hill Air Force Base|Ogden|United States|41.124|-111.9731|America/Denver|-7
+OME|PAOM|Nome Airport|Nome|United States|64.5122|-165.445|America/Anchorage|-9
+PIE|KPIE|St Petersburg Clearwater International Airport|St. Petersburg|United States|27.9102|-82.6874|America/New_York|-5
+MNM|KMNM|Menominee Regional Airport|Macon|United States|45.1267|-87.6384|America/Chicago|-6
+CXO|KCXO|Conroe-North Houston Regional Airport|Conroe|United States|30.3518|-95.4145|America/Chicago|-6
+SCC|PASC|Deadhorse Airport|Deadhorse|United States|70.1947|-148.465|America/Anchorage|-9
+SAT|KSAT|San Antonio International Airport|San Antonio|United States|29.5337|-98.4698|America/Chicago|-6
+ROC|KROC|Greater Rochester International Airport|Rochester|United States|43.1189|-77.6724|America/New_York|-5
+COF|KCOF|Patrick Air Force Base|Coco Beach|United States|28.2349|-80.6101|America/New_York|-5
+TEB|KTEB|Teterboro Airport|Teterboro|United States|40.8501|-74.0608|America/New_York|-5
+RCA|KRCA|Ellsworth Air Force Base|Rapid City|United States|44.145|-103.104|America/Denver|-7
+RDU|KRDU|Raleigh Durham International Airport|Raleigh-durham|United States|35.8776|-78.7875|America/New_York|-5
+DAY|KDAY|James M Cox Dayton International Airport|Dayton|United States|39.9024|-84.2194|America/New_York|-5
+ENA|PAEN|Kenai Municipal Airport|Kenai|United States|60.5731|-151.245|America/Anchorage|-9
+MLC|KMLC|Mc Alester Regional Airport|Mcalester|United States|34.8824|-95.7835|America/Chicago|-6
+IAG|KIAG|Niagara Falls International Airport|Niagara Falls|United States|43.1073|-78.9462|America/New_York|-5
+CFD|KCFD|Coulter Field|Bryan|United States|30.7157|-96.3314|America/Chicago|-6
+LIY|KLHW|Wright AAF (Fort Stewart)/Midcoast Regional Airport|Wright|United States|31.8891|-81.5623|America/New_York|-5
+PHF|KPHF|Newport News Williamsburg International Airport|Newport News|United States|37.1319|-76.493|America/New_York|-5
+ESF|KESF|Esler Regional Airport|Alexandria|United States|31.3949|-92.2958|America/Chicago|-6
+LTS|KLTS|Altus Air Force Base|Altus|United States|34.6671|-99.2667|America/Chicago|-6
+TUS|KTUS|Tucson International Airport|Tucson|United States|32.1161|-110.941|America/Phoenix|-7
+MIB|KMIB|Minot Air Force Base|Minot|United States|48.4156|-101.358|America/Chicago|-6
+BAB|KBAB|Beale Air Force Base|Marysville|United States|39.1361|-121.437|America/Los_Angeles|-8
+IKK|KIKK|Greater Kankakee Airport|Kankakee|United States|41.0714|-87.8463|America/Chicago|-6
+GSB|KGSB|Seymour Johnson Air Force Base|Goldsboro|United States|35.3394|-77.9606|America/New_York|-5
+PVD|KPVD|Theodore Francis Green State Airport|Providence|United States|41.7326|-71.4204|America/New_York|-5
+SBY|KSBY|Salisbury Ocean City Wicomico Regional Airport|Salisbury|United States|38.3405|-75.5103|America/New_York|-5
+BUR|KBUR|Bob Hope Airport|Burbank|United States|34.2007|-118.359|America/Los_Angeles|-8
+DTW|KDTW|Detroit Metropolitan Wayne County Airport|Detroit|United States|42.2124|-83.3534|America/New_York|-5
+TPA|KTPA|Tampa International Airport|Tampa|United States|27.9755|-82.5332|America/New_York|-5
+PMB|KPMB|Pembina Municipal Airport|Pembina|United States|48.9425|-97.2408|America/Chicago|-6
+POE|KPOE|Polk Army Air Field|Fort Polk|United States|31.0448|-93.1917|America/Chicago|-6
+EIL|PAEI|Eielson Air Force Base|Fairbanks|United States|64.6657|-147.102|America/Anchorage|-9
+HIB|KHIB|Range Regional Airport|Hibbing|United States|47.3866|-92.839|America/Chicago|-6
+LFK|KLFK|Angelina County Airport|Lufkin|United States|31.234|-94.75|America/Chicago|-6
+MAF|KMAF|Midland International Airport|Midland|United States|31.9425|-102.202|America/Chicago|-6
+GRB|KGRB|Austin Straubel International Airport|Green Bay|United States|44.4851|-88.1296|America/Chicago|-6
+ADM|KADM|Ardmore Municipal Airport|Ardmore|United States|34.303|-97.0196|America/Chicago|-6
+WRI|KWRI|Mc Guire Air Force Base|Wrightstown|United States|40.0156|-74.5917|America/New_York|-5
+AGS|KAGS|Augusta Regional At Bush Field|Bush Field|United States|33.3699|-81.9645|America/New_York|-5
+ISN|KISN|Sloulin Field International Airport|Williston|United States|48.1779|-103.642|America/Chicago|-6
+LIT|KLIT|Bill & Hillary Clinton National Airport/Adams Field|Little Rock|United States|34.7294|-92.2243|America/Chicago|-6
+SWF|KSWF|Stewart International Airport|Newburgh|United States|41.5041|-74.1048|America/New_York|-5
+BDE|KBDE|Baudette International Airport|Baudette|United States|48.7284|-94.6122|America/Chicago|-6
+SAC|KSAC|Sacramento Executive Airport|Sacramento|United States|38.5125|-121.493|America/Los_Angeles|-8
+HOM|PAHO|Homer Airport|Homer|United States|59.6456|-151.477|America/Anchorage|-9
+TBN|KTBN|Waynesville-St. Robert Regional Forney field|Fort Leonardwood|United States|37.7416|-92.1407|America/Chicago|-6
+MGE|KMGE|Dobbins Air Reserve Base|Marietta|United States|33.9154|-84.5163|America/New_York|-5
+SKA|KSKA|Fairchild Air Force Base|Spokane|United States|47.6151|-117.656|America/Los_Angeles|-8
+HTL|KHTL|Roscommon County - Blodgett Memorial Airport|Houghton Lake|United States|44.3598|-84.6711|America/New_York|-5
+PAM|KPAM|Tyndall Air Force Base|Panama City|United States|30.0696|-85.5754|America/Chicago|-6
+DFW|KDFW|Dallas Fort Worth International Airport|Dallas-Fort Worth|United States|32.8968|-97.038|America/Chicago|-6
+MLB|KMLB|Melbourne International Airport|Melbourne|United States|28.1028|-80.6453|America/New_York|-5
+TCM|KTCM|McChord Air Force Base|Tacoma|United States|47.1377|-122.476|America/Los_Angeles|-8
+AUS|KAUS|Austin Bergstrom International Airport|Austin|United States|30.1945|-97.6699|America/Chicago|-6
+LCK|KLCK|Rickenbacker International Airport|Columbus|United States|39.8138|-82.9278|America/New_York|-5
+MQT|KSAW|Sawyer International Airport|Gwinn|United States|46.3536|-87.3954|America/New_York|-5
+TYS|KTYS|McGhee Tyson Airport|Knoxville|United States|35.811|-83.994|America/New_York|-5
+HLR|KHLR|Hood Army Air Field|Fort Hood|United States|31.1387|-97.7145|America/Chicago|-6
+STL|KSTL|St Louis Lambert International Airport|St. Louis|United States|38.7487|-90.37|America/Chicago|-6
+MIV|KMIV|Millville Municipal Airport|Millville|United States|39.3678|-75.0722|America/New_York|-5
+SPS|KSPS|Sheppard Air Force Base-Wichita Falls Municipal Airport|Wichita Falls|United States|33.9888|-98.4919|America/Chicago|-6
+LUK|KLUK|Cincinnati Municipal Airport Lunken Field|Cincinnati|United States|39.1033|-84.4186|America/New_York|-5
+ATL|KATL|Hartsfield Jackson Atlanta International Airport|Atlanta|United States|33.6367|-84.4281|America/New_York|-5
+MER|KMER|Castle Airport|Merced|United States|37.3805|-120.568|America/Los_Angeles|-8
+MCC|KMCC|Mc Clellan Airfield|Sacramento|United States|38.6676|-121.401|America/Los_Angeles|-8
+GRR|KGRR|Gerald R. Ford International Airport|Grand Rapids|United States|42.8808|-85.5228|America/New_York|-5
+INK|KINK|Winkler County Airport|Wink|United States|31.7796|-103.201|America/Chicago|-6
+FAT|KFAT|Fresno Yosemite International Airport|Fresno|United States|36.7762|-119.718|America/Los_Angeles|-8
+VRB|KVRB|Vero Beach Regional Airport|Vero Beach|United States|27.6556|-80.4179|America/New_York|-5
+IPL|KIPL|Imperial County Airport|Imperial|United States|32.8342|-115.579|America/Los_Angeles|-8
+BNA|KBNA|Nashville International Airport|Nashville|United States|36.1245|-86.6782|America/Chicago|-6
+LRD|KLRD|Laredo International Airport|Laredo|United States|27.5438|-99.4616|America/Chicago|-6
+EDF|PAED|Elmendorf Air Force Base|Anchorage|United States|61.251|-149.807|America/Anchorage|-9
+OTZ|PAOT|Ralph Wien Memorial Airport|Kotzebue|United States|66.8847|-162.599|America/Anchorage|-9
+AOO|KAOO|Altoona Blair County Airport|Altoona|United States|40.2964|-78.32|America/New_York|-5
+DYS|KDYS|Dyess Air Force Base|Abilene|United States|32.4208|-99.8546|America/Chicago|-6
+ELD|KELD|South Arkansas Regional At Goodwin Field|El Dorado|United States|33.221|-92.8133|America/Chicago|-6
+LGA|KLGA|La Guardia Airport|New York|United States|40.7772|-73.8726|America/New_York|-5
+TLH|KTLH|Tallahassee Regional Airport|Tallahassee|United States|30.3965|-84.3503|America/New_York|-5
+DPA|KDPA|Dupage Airport|West Chicago|United States|41.9078|-88.2486|America/Chicago|-6
+ACT|KACT|Waco Regional Airport|Waco|United States|31.6113|-97.2305|America/Chicago|-6
+AUG|KAUG|Augusta State Airport|Augusta|United States|44.3206|-69.7973|America/New_York|-5
+NIP|KNIP|Jacksonville Naval Air Station (Towers Field)|Jacksonville|United States|30.2358|-81.6806|America/New_York|-5
+MKL|KMKL|McKellar-Sipes Regional Airport|Jackson|United States|35.5999|-88.9156|America/Chicago|-6
+MKK|PHMK|Molokai Airport|Molokai|United States|21.1529|-157.096|Pacific/Honolulu|-10
+FTK|KFTK|Godman Army Air Field|Fort Knox|United States|37.9071|-85.9721|America/New_York|-5
+SJT|KSJT|San Angelo Regional Mathis Field|San Angelo|United States|31.3577|-100.496|America/Chicago|-6
+CXL|KCXL|Calexico International Airport|Calexico|United States|32.6695|-115.513|America/Los_Angeles|-8
+CIC|KCIC|Chico Municipal Airport|Chico|United States|39.7954|-121.858|America/Los_Angeles|-8
+BTV|KBTV|Burlington International Airport|Burlington|United States|44.4719|-73.1533|America/New_York|-5
+JAX|KJAX|Jacksonville International Airport|Jacksonville|United States|30.4941|-81.6879|America/New_York|-5
+DRO|KDRO|Durango La Plata County Airport|Durango|United States|37.1515|-107.754|America/Denver|-7
+IAD|KIAD|Washington Dulles International Airport|Washington|United States|38.9445|-77.4558|America/New_York|-5
+CLL|KCLL|Easterwood Field|College Station|United States|30.5886|-96.3638|America/Chicago|-6
+SFF|KSFF|Felts Field|Spokane|United States|47.6828|-117.323|America/Los_Angeles|-8
+MKE|KMKE|General Mitchell International Airport|Milwaukee|United States|42.9472|-87.8966|America/Chicago|-6
+ABI|KABI|Abilene Regional Airport|Abilene|United States|32.4113|-99.6819|America/Chicago|-6
+COU|KCOU|Columbia Regional Airport|Columbia|United States|38.8181|-92.2196|America/Chicago|-6
+PDX|KPDX|Portland International Airport|Portland|United States|45.5887|-122.598|America/Los_Angeles|-8
+TNT|KTNT|Dade Collier Training and Transition Airport|Miami|United States|25.8618|-80.897|America/New_York|-5
+PBI|KPBI|Palm Beach International Airport|West Palm Beach|United States|26.6832|-80.0956|America/New_York|-5
+FTW|KFTW|Fort Worth Meacham International Airport|Fort Worth|United States|32.8198|-97.3624|America/Chicago|-6
+OGS|KOGS|Ogdensburg International Airport|Ogdensburg|United States|44.6819|-75.4655|America/New_York|-5
+FMH|KFMH|Cape Cod Coast Guard Air Station|Falmouth|United States|41.6584|-70.5214|America/New_York|-5
+BFI|KBFI|Boeing Field King County International Airport|Seattle|United States|47.53|-122.302|America/Los_Angeles|-8
+SKF|KSKF|Lackland Air Force Base|San Antonio|United States|29.3842|-98.5811|America/Chicago|-6
+HNL|PHNL|Daniel K Inouye International Airport|Honolulu|United States|21.3206|-157.9242|Pacific/Honolulu|-10
+DSM|KDSM|Des Moines International Airport|Des Moines|United States|41.534|-93.6631|America/Chicago|-6
+EWN|KEWN|Coastal Carolina Regional Airport|New Bern|United States|35.073|-77.0429|America/New_York|-5
+SAN|KSAN|San Diego International Airport|San Diego|United States|32.7336|-117.19|America/Los_Angeles|-8
+MLU|KMLU|Monroe Regional Airport|Monroe|United States|32.5109|-92.0377|America/Chicago|-6
+SSC|KSSC|Shaw Air Force Base|Sumter|United States|33.9727|-80.4706|America/New_York|-5
+ONT|KONT|Ontario International Airport|Ontario|United States|34.056|-117.601|America/Los_Angeles|-8
+GVT|KGVT|Majors Airport|Greenvile|United States|33.0678|-96.0653|America/Chicago|-6
+ROW|KROW|Roswell International Air Center Airport|Roswell|United States|33.3016|-104.531|America/Denver|-7
+DET|KDET|Coleman A. Young Municipal Airport|Detroit|United States|42.4092|-83.0099|America/New_York|-5
+BRO|KBRO|Brownsville South Padre Island International Airport|Brownsville|United States|25.9068|-97.4259|America/Chicago|-6
+DHN|KDHN|Dothan Regional Airport|Dothan|United States|31.3213|-85.4496|America/Chicago|-6
+WWD|KWWD|Cape May County Airport|Wildwood|United States|39.0085|-74.9083|America/New_York|-5
+NFL|KNFL|Fallon Naval Air Station|Fallon|United States|39.4166|-118.701|America/Los_Angeles|-8
+MTC|KMTC|Selfridge Air National Guard Base Airport|Mount Clemens|United States|42.6135|-82.8369|America/New_York|-5
+FMN|KFMN|Four Corners Regional Airport|Farmington|United States|36.7412|-108.23|America/Denver|-7
+CRP|KCRP|Corpus Christi International Airport|Corpus Christi|United States|27.7704|-97.5012|America/Chicago|-6
+SYR|KSYR|Syracuse Hancock International Airport|Syracuse|United States|43.1112|-76.1063|America/New_York|-5
+NQX|KNQX|Naval Air Station Key West/Boca Chica Field|Key West|United States|24.5758|-81.6889|America/New_York|-5
+MDW|KMDW|Chicago Midway International Airport|Chicago|United States|41.786|-87.7524|America/Chicago|-6
+SJC|KSJC|Norman Y. Mineta San Jose International Airport|San Jose|United States|37.3626|-121.929|America/Los_Angeles|-8
+HOB|KHOB|Lea County Regional Airport|Hobbs|United States|32.6875|-103.217|America/Denver|-7
+PNE|KPNE|Northeast Philadelphia Airport|Philadelphia|United States|40.0819|-75.0106|America/New_York|-5
+DEN|KDEN|Denver International Airport|Denver|United States|39.8617|-104.673|America/Denver|-7
+PHL|KPHL|Philadelphia International Airport|Philadelphia|United States|39.8719|-75.2411|America/New_York|-5
+SUX|KSUX|Sioux Gateway Col. Bud Day Field|Sioux City|United States|42.4026|-96.3844|America/Chicago|-6
+MCN|KMCN|Middle Georgia Regional Airport|Macon|United States|32.6928|-83.6492|America/New_York|-5
+TCS|KTCS|Truth Or Consequences Municipal Airport|Truth Or Consequences|United States|33.2369|-107.272|America/Denver|-7
+PMD|KPMD|Palmdale Regional/USAF Plant 42 Airport|Palmdale|United States|34.6294|-118.085|America/Los_Angeles|-8
+RND|KRND|Randolph Air Force Base|San Antonio|United States|29.5297|-98.2789|America/Chicago|-6
+NJK|KNJK|El Centro NAF Airport (Vraciu Field)|El Centro|United States|32.8292|-115.672|America/Los_Angeles|-8
+CMH|KCMH|John Glenn Columbus International Airport|Columbus|United States|39.998|-82.8919|America/New_York|-5
+FYV|KFYV|Drake Field|Fayetteville|United States|36.0051|-94.1701|America/Chicago|-6
+FSI|KFSI|Henry Post Army Air Field (Fort Sill)|Fort Sill|United States|34.6498|-98.4022|America/Chicago|-6
+FFO|KFFO|Wright-Patterson Air Force Base|Dayton|United States|39.8261|-84.0483|America/New_York|-5
+GAL|PAGA|Edward G. Pitka Sr Airport|Galena|United States|64.7362|-156.937|America/Anchorage|-9
+MWL|KMWL|Mineral Wells Airport|Mineral Wells|United States|32.7816|-98.0602|America/Chicago|-6
+IAB|KIAB|Mc Connell Air Force Base|Wichita|United States|37.6219|-97.2682|America/Chicago|-6
+NBG|KNBG|New Orleans NAS JRB/Alvin Callender Field|New Orleans|United States|29.8253|-90.035|America/Chicago|-6
+BFT|KARW|Beaufort County Airport|Beaufort|United States|32.4122|-80.6344|America/New_York|-5
+TXK|KTXK|Texarkana Regional Webb Field|Texarkana|United States|33.4537|-93.991|America/Chicago|-6
+PBG|KPBG|Plattsburgh International Airport|Plattsburgh|United States|44.6509|-73.4681|America/New_York|-5
+APG|KAPG|Phillips Army Air Field|Aberdeen|United States|39.4662|-76.1688|America/New_York|-5
+TCC|KTCC|Tucumcari Municipal Airport|Tucumcari|United States|35.1828|-103.603|America/Denver|-7
+ANC|PANC|Ted Stevens Anchorage International Airport|Anchorage|United States|61.1744|-149.996|America/Anchorage|-9
+GRK|KGRK|Robert Gray  Army Air Field Airport|Killeen|United States|31.0672|-97.8289|America/Chicago|-6
+BLI|KBLI|Bellingham International Airport|Bellingham|United States|48.7928|-122.538|America/Los_Angeles|-8
+NQA|KNQA|Millington-Memphis Airport|Millington|United States|35.3567|-89.8703|America/Chicago|-6
+EKN|KEKN|Elkins-Randolph Co-Jennings Randolph Field|Elkins|United States|38.8894|-79.8571|America/New_York|-5
+HFD|KHFD|Hartford Brainard Airport|Hartford|United States|41.7367|-72.6494|America/New_York|-5
+SFZ|KSFZ|North Central State Airport|Smithfield|United States|41.9208|-71.4914|America/New_York|-5
+MOB|KMOB|Mobile Regional Airport|Mobile|United States|30.6912|-88.2428|America/Chicago|-6
+NUQ|KNUQ|Moffett Federal Airfield|Mountain View|United States|37.4161|-122.049|America/Los_Angeles|-8
+SAF|KSAF|Santa Fe Municipal Airport|Santa Fe|United States|35.6171|-106.089|America/Denver|-7
+BKH|PHBK|Barking Sands Airport|Barking Sands|United States|22.0228|-159.785|Pacific/Honolulu|-10
+DRI|KDRI|Beauregard Regional Airport|Deridder|United States|30.8317|-93.3399|America/Chicago|-6
+BSF|PHSF|Bradshaw Army Airfield|Bradshaw Field|United States|19.7601|-155.554|Pacific/Honolulu|-10
+OLS|KOLS|Nogales International Airport|Nogales|United States|31.4177|-110.848|America/Phoenix|-7
+MCF|KMCF|Mac Dill Air Force Base|Tampa|United States|27.8493|-82.5212|America/New_York|-5
+BLV|KBLV|Scott AFB/Midamerica Airport|Belleville|United States|38.5452|-89.8352|America/Chicago|-6
+OPF|KOPF|Opa-locka Executive Airport|Miami|United States|25.907|-80.2784|America/New_York|-5
+DRT|KDRT|Del Rio International Airport|Del Rio|United States|29.3742|-100.927|America/Chicago|-6
+RSW|KRSW|Southwest Florida International Airport|Fort Myers|United States|26.5362|-81.7552|America/New_York|-5
+AKN|PAKN|King Salmon Airport|King Salmon|United States|58.6768|-156.649|America/Anchorage|-9
+MUI|KMUI|Muir Army Air Field (Fort Indiantown Gap) Airport|Muir|United States|40.4348|-76.5694|America/New_York|-5
+JHM|PHJH|Kapalua Airport|Lahania-kapalua|United States|20.9629|-156.673|Pacific/Honolulu|-10
+JFK|KJFK|John F Kennedy International Airport|New York|United States|40.6398|-73.7789|America/New_York|-5
+HST|KHST|Homestead ARB Airport|Homestead|United States|25.4886|-80.3836|America/New_York|-5
+RAL|KRAL|Riverside Municipal Airport|Riverside|United States|33.9519|-117.445|America/Los_Angeles|-8
+FLV|KFLV|Sherman Army Air Field|Fort Leavenworth|United States|39.3683|-94.9147|America/Chicago|-6
+WAL|KWAL|Wallops Flight Facility Airport|Wallops Island|United States|37.9402|-75.4664|America/New_York|-5
+HMN|KHMN|Holloman Air Force Base|Alamogordo|United States|32.8525|-106.107|America/Denver|-7
+NXX|KNXX|Willow Grove Naval Air Station/Joint Reserve Base|Willow Grove|United States|40.1998|-75.1482|America/New_York|-5
+CYS|KCYS|Cheyenne Regional Jerry Olson Field|Cheyenne|United States|41.1557|-104.812|America/Denver|-7
+SCK|KSCK|Stockton Metropolitan Airport|Stockton|United States|37.8942|-121.238|America/Los_Angeles|-8
+CHS|KCHS|Charleston Air Force Base-International Airport|Charleston|United States|32.8986|-80.0405|America/New_York|-5
+RNO|KRNO|Reno Tahoe International Airport|Reno|United States|39.4991|-119.768|America/Los_Angeles|-8
+KTN|PAKT|Ketchikan International Airport|Ketchikan|United States|55.3556|-131.714|America/Anchorage|-9
+YIP|KYIP|Willow Run Airport|Detroit|United States|42.2379|-83.5304|America/New_York|-5
+VBG|KVBG|Vandenberg Air Force Base|Lompoc|United States|34.7373|-120.584|America/Los_Angeles|-8
+BHM|KBHM|Birmingham-Shuttlesworth International Airport|Birmingham|United States|33.5629|-86.7535|America/Chicago|-6
+NEL|KNEL|Lakehurst Maxfield Field Airport|Lakehurst|United States|40.0333|-74.3533|America/New_York|-5
+SYA|PASY|Eareckson Air Station|Shemya|United States|52.7123|174.114|America/Adak|-10
+LSV|KLSV|Nellis Air Force Base|Las Vegas|United States|36.2362|-115.034|America/Los_Angeles|-8
+RIV|KRIV|March ARB Airport|Riverside|United States|33.8807|-117.259|America/Los_Angeles|-8
+MOD|KMOD|Modesto City Co-Harry Sham Field|Modesto|United States|37.6258|-120.954|America/Los_Angeles|-8
+SMF|KSMF|Sacramento International Airport|Sacramento|United States|38.6954|-121.591|America/Los_Angeles|-8
+UGN|KUGN|Waukegan National Airport|Chicago|United States|42.4222|-87.8679|America/Chicago|-6
+COS|KCOS|City of Colorado Springs Municipal Airport|Colorado Springs|United States|38.8058|-104.701|America/Denver|-7
+BUF|KBUF|Buffalo Niagara International Airport|Buffalo|United States|42.9405|-78.7322|America/New_York|-5
+SKY|KSKY|Griffing Sandusky Airport|Sandusky|United States|41.4334|-82.6523|America/New_York|-5
+PAE|KPAE|Snohomish County (Paine Field) Airport|Everett|United States|47.9063|-122.282|America/Los_Angeles|-8
+MUO|KMUO|Mountain Home Air Force Base|Mountain Home|United States|43.0436|-115.872|America/Denver|-7
+CDC|KCDC|Cedar City Regional Airport|Cedar City|United States|37.701|-113.099|America/Denver|-7
+BDL|KBDL|Bradley International Airport|Windsor Locks|United States|41.9389|-72.6832|America/New_York|-5
+MFE|KMFE|Mc Allen Miller International Airport|Mcallen|United States|26.1758|-98.2386|America/Chicago|-6
+NGU|KNGU|Norfolk Naval Station (Chambers Field)|Norfolk|United States|36.9376|-76.2893|America/New_York|-5
+CEF|KCEF|Westover ARB/Metropolitan Airport|Chicopee Falls|United States|42.194|-72.5348|America/New_York|-5
+LBB|KLBB|Lubbock Preston Smith International Airport|Lubbock|United States|33.6636|-101.823|America/Chicago|-6
+ORD|KORD|Chicago O'Hare International Airport|Chicago|United States|41.9786|-87.9048|America/Chicago|-6
+BCT|KBCT|Boca Raton Airport|Boca Raton|United States|26.3785|-80.1077|America/New_York|-5
+FAI|PAFA|Fairbanks International Airport|Fairbanks|United States|64.8151|-147.856|America/Anchorage|-9
+CVS|KCVS|Cannon Air Force Base|Clovis|United States|34.3828|-103.322|America/Denver|-7
+NGF|PHNG|Kaneohe Bay MCAS (Marion E. Carl Field) Airport|Kaneohe Bay|United States|21.4505|-157.768|Pacific/Honolulu|-10
+OFF|KOFF|Offutt Air Force Base|Omaha|United States|41.1183|-95.9125|America/Chicago|-6
+GKN|PAGK|Gulkana Airport|Gulkana|United States|62.1549|-145.457|America/Anchorage|-9
+ART|KART|Watertown International Airport|Watertown|United States|43.9919|-76.0217|America/New_York|-5
+PSP|KPSP|Palm Springs International Airport|Palm Springs|United States|33.8297|-116.507|America/Los_Angeles|-8
+AMA|KAMA|Rick Husband Amarillo International Airport|Amarillo|United States|35.2194|-101.706|America/Chicago|-6
+FOD|KFOD|Fort Dodge Regional Airport|Fort Dodge|United States|42.5515|-94.1926|America/Chicago|-6
+BAD|KBAD|Barksdale Air Force Base|Shreveport|United States|32.5018|-93.6627|America/Chicago|-6
+FOE|KFOE|Topeka Regional Airport - Forbes Field|Topeka|United States|38.9509|-95.6636|America/Chicago|-6
+COT|KCOT|Cotulla-La Salle County Airport|Cotulla|United States|28.4567|-99.2203|America/Chicago|-6
+ILM|KILM|Wilmington International Airport|Wilmington|United States|34.2706|-77.9026|America/New_York|-5
+BTR|KBTR|Baton Rouge Metropolitan Airport|Baton Rouge|United States|30.5332|-91.1496|America/Chicago|-6
+TYR|KTYR|Tyler Pounds Regional Airport|Tyler|United States|32.3541|-95.4024|America/Chicago|-6
+BWI|KBWI|Baltimore/Washington International Thurgood Marshall Airport|Baltimore|United States|39.1754|-76.6683|America/New_York|-5
+HBR|KHBR|Hobart Regional Airport|Hobart|United States|34.9913|-99.0513|America/Chicago|-6
+LNY|PHNY|Lanai Airport|Lanai|United States|20.7856|-156.951|Pacific/Honolulu|-10
+AEX|KAEX|Alexandria International Airport|Alexandria|United States|31.3274|-92.5498|America/Chicago|-6
+WSD|KWSD|Condron Army Air Field|White Sands|United States|32.3415|-106.403|America/Denver|-7
+CDB|PACD|Cold Bay Airport|Cold Bay|United States|55.2061|-162.725|America/Anchorage|-9
+TUL|KTUL|Tulsa International Airport|Tulsa|United States|36.1984|-95.8881|America/Chicago|-6
+SIT|PASI|Sitka Rocky Gutierrez Airport|Sitka|United States|57.0471|-135.362|America/Anchorage|-9
+ISP|KISP|Long Island Mac Arthur Airport|Islip|United States|40.7952|-73.1002|America/New_York|-5
+MSP|KMSP|Minneapolis-St Paul International/Wold-Chamberlain Airport|Minneapolis|United States|44.882|-93.2218|America/Chicago|-6
+ILG|KILG|New Castle Airport|Wilmington|United States|39.6787|-75.6065|America/New_York|-5
+DUT|PADU|Unalaska Airport|Unalaska|United States|53.9001|-166.544|America/Anchorage|-9
+MSY|KMSY|Louis Armstrong New Orleans International Airport|New Orleans|United States|29.9934|-90.258|America/Chicago|-6
+PWM|KPWM|Portland International Jetport Airport|Portland|United States|43.6462|-70.3093|America/New_York|-5
+OKC|KOKC|Will Rogers World Airport|Oklahoma City|United States|35.3931|-97.6007|America/Chicago|-6
+ALB|KALB|Albany International Airport|Albany|United States|42.7483|-73.8017|America/New_York|-5
+VDZ|PAVD|Valdez Pioneer Field|Valdez|United States|61.1339|-146.248|America/Anchorage|-9
+LFI|KLFI|Langley Air Force Base|Hampton|United States|37.0829|-76.3605|America/New_York|-5
+SNA|KSNA|John Wayne Airport-Orange County Airport|Santa Ana|United States|33.6757|-117.868|America/Los_Angeles|-8
+CBM|KCBM|Columbus Air Force Base|Colombus|United States|33.6438|-88.4438|America/Chicago|-6
+TMB|KTMB|Kendall-Tamiami Executive Airport|Kendall-tamiami|United States|25.6479|-80.4328|America/New_York|-5
+NTU|KNTU|Oceana Naval Air Station|Oceana|United States|36.8207|-76.0335|America/New_York|-5
+GUS|KGUS|Grissom Air Reserve Base|Peru|United States|40.6481|-86.1521|America/New_York|-5
+CPR|KCPR|Casper-Natrona County International Airport|Casper|United States|42.908|-106.464|America/Denver|-7
+VPS|KVPS|Destin-Ft Walton Beach Airport|Valparaiso|United States|30.4832|-86.5254|America/Chicago|-6
+SEM|KSEM|Craig Field|Selma|United States|32.3439|-86.9878|America/Chicago|-6
+EYW|KEYW|Key West International Airport|Key West|United States|24.5561|-81.7596|America/New_York|-5
+CLT|KCLT|Charlotte Douglas International Airport|Charlotte|United States|35.214|-80.9431|America/New_York|-5
+LAS|KLAS|McCarran International Airport|Las Vegas|United States|36.0801|-115.152|America/Los_Angeles|-8
+MCO|KMCO|Orlando International Airport|Orlando|United States|28.4294|-81.309|America/New_York|-5
+FLO|KFLO|Florence Regional Airport|Florence|United States|34.1854|-79.7239|America/New_York|-5
+GTF|KGTF|Great Falls International Airport|Great Falls|United States|47.482|-111.371|America/Denver|-7
+YNG|KYNG|Youngstown Warren Regional Airport|Youngstown|United States|41.2607|-80.6791|America/New_York|-5
+FBK|PAFB|Ladd AAF Airfield|Fort Wainwright|United States|64.8375|-147.614|America/Anchorage|-9
+WRB|KWRB|Robins Air Force Base|Macon|United States|32.6401|-83.5919|America/New_York|-5
+BKK|VTBS|Suvarnabhumi Airport|Bangkok|Thailand|13.6811|100.747|Asia/Bangkok|7
+NAH|WAMH|Naha Airport|Naha|Indonesia|3.6832|125.528|Asia/Makassar|8
+MXB|WAWM|Andi Jemma Airport|Masamba|Indonesia|-2.558|120.324|Asia/Makassar|8
+SQR|WAWS|Soroako Airport|Soroako|Indonesia|-2.5312|121.358|Asia/Makassar|8
+TTR|WAWT|Pongtiku Airport|Makale|Indonesia|-3.0447|119.822|Asia/Makassar|8
+KDI|WAWW|Wolter Monginsidi Airport|Kendari|Indonesia|-4.0816|122.418|Asia/Makassar|8
+SBG|WITB|Maimun Saleh Airport|Sabang|Indonesia|5.8741|95.3397|Asia/Jakarta|7
+TSY|WICM|Cibeureum Airport|Tasikmalaya|Indonesia|-7.3466|108.246|Asia/Jakarta|7
+MLG|WARA|Abdul Rachman Saleh Airport|Malang|Indonesia|-7.9266|112.715|Asia/Jakarta|7
+BDO|WICC|Husein Sastranegara International Airport|Bandung|Indonesia|-6.9006|107.576|Asia/Jakarta|7
+CBN|WICD|Penggung Airport|Cirebon|Indonesia|-6.7561|108.54|Asia/Jakarta|7
+JOG|WARJ|Adi Sutjipto International Airport|Yogyakarta|Indonesia|-7.7882|110.432|Asia/Jakarta|7
+CXP|WIHL|Tunggul Wulung Airport|Cilacap|Indonesia|-7.6451|109.034|Asia/Jakarta|7
+PCB|WIHP|Pondok Cabe Air Base|Jakarta|Indonesia|-6.337|106.765|Asia/Jakarta|7
+SRG|WARS|Achmad Yani Airport|Semarang|Indonesia|-6.9727|110.375|Asia/Jakarta|7
+BTH|WIDD|Hang Nadim International Airport|Batam|Indonesia|1.121|104.119|Asia/Jakarta|7
+TJQ|WIOD|Buluh Tumbang (H A S Hanandjoeddin) Airport|Tanjung Pandan|Indonesia|-2.7457|107.755|Asia/Jakarta|7
+PGK|WIPK|Pangkal Pinang (Depati Amir) Airport|Pangkal Pinang|Indonesia|-2.1622|106.139|Asia/Jakarta|7
+TNJ|WIDN|Raja Haji Fisabilillah International Airport|Tanjung Pinang|Indonesia|0.9227|104.532|Asia/Jakarta|7
+SIQ|WIDS|Dabo Airport|Singkep|Indonesia|-0.4792|104.579|Asia/Jakarta|7
+BDJ|WAOO|Syamsudin Noor Airport|Banjarmasin|Indonesia|-3.4424|114.763|Asia/Makassar|8
+BTW|WAOC|Batu Licin Airport|Batu Licin|Indonesia|-3.4124|115.995|Asia/Makassar|8
+PKN|WAOI|Iskandar Airport|Pangkalan Bun|Indonesia|-2.7052|111.673|Asia/Jakarta|7
+PKY|WAOP|Tjilik Riwut Airport|Palangkaraya|Indonesia|-2.2251|113.943|Asia/Jakarta|7
+MOF|WATC|Maumere(Wai Oti) Airport|Maumere|Indonesia|-8.6406|122.237|Asia/Makassar|8
+ENE|WATE|Ende (H Hasan Aroeboesman) Airport|Ende|Indonesia|-8.8493|121.661|Asia/Makassar|8
+RTG|WATG|Frans Sales Lega Airport|Ruteng|Indonesia|-8.597|120.477|Asia/Makassar|8
+KOE|WATT|El Tari Airport|Kupang|Indonesia|-10.1716|123.671|Asia/Makassar|8
+LBJ|WATO|Komodo Airport|Labuhan Bajo|Indonesia|-8.4867|119.889|Asia/Makassar|8
+BPN|WALL|Sultan Aji Muhamad Sulaiman Airport|Balikpapan|Indonesia|-1.2683|116.894|Asia/Makassar|8
+TRK|WALR|Juwata Airport|Taraken|Indonesia|3.3267|117.5694|Asia/Makassar|8
+SRI|WALS|Temindung Airport|Samarinda|Indonesia|-0.4845|117.157|Asia/Makassar|8
+TSX|WALT|Tanjung Santan Airport|Tanjung Santan|Indonesia|-0.093|117.453|Asia/Makassar|8
+AMI|WADA|Selaparang Airport|Mataram|Indonesia|-8.5607|116.095|Asia/Makassar|8
+BMU|WADB|Muhammad Salahuddin Airport|Bima|Indonesia|-8.5396|118.687|Asia/Makassar|8
+WGP|WADW|Umbu Mehang Kunda Airport|Waingapu|Indonesia|-9.6692|120.302|Asia/Makassar|8
+SUB|WARR|Juanda International Airport|Surabaya|Indonesia|-7.3798|112.787|Asia/Jakarta|7
+SOC|WARQ|Adi Sumarmo Wiryokusumo Airport|Solo City|Indonesia|-7.5161|110.757|Asia/Jakarta|7
+ICN|RKSI|Incheon International Airport|Seoul|South Korea|37.4691|126.451|Asia/Seoul|9
+CNX|VTCC|Chiang Mai International Airport|Chiang Mai|Thailand|18.7668|98.9626|Asia/Bangkok|7
+CEI|VTCT|Chiang Rai International Airport|Chiang Rai|Thailand|19.9523|99.8829|Asia/Bangkok|7
+NST|VTSF|Nakhon Si Thammarat Airport|Nakhon Si Thammarat|Thailand|8.5396|99.9447|Asia/Bangkok|7
+NAK|VTUQ|Nakhon Ratchasima Airport|Nakhon Ratchasima|Thailand|14.9495|102.313|Asia/Bangkok|7
+KOP|VTUW|Nakhon Phanom Airport|Nakhon Phanom|Thailand|17.3838|104.643|Asia/Bangkok|7
+UBP|VTUU|Ubon Ratchathani Airport|Ubon Ratchathani|Thailand|15.2513|104.87|Asia/Bangkok|7
+KKC|VTUK|Khon Kaen Airport|Khon Kaen|Thailand|16.4666|102.784|Asia/Bangkok|7
+THS|VTPO|Sukhothai Airport|Sukhothai|Thailand|17.238|99.8182|Asia/Bangkok|7
+DPS|WADD|Ngurah Rai (Bali) International Airport|Denpasar|Indonesia|-8.7482|115.167|Asia/Makassar|8
+ATH|LGAV|Eleftherios Venizelos International Airport|Athens|Greece|37.9364|23.9445|Europe/Athens|2
+NGO|RJGG|Chubu Centrair International Airport|Nagoya|Japan|34.8584|136.805|Asia/Tokyo|9
+UKB|RJBE|Kobe Airport|Kobe|Japan|34.6328|135.224|Asia/Tokyo|9
+PUW|KPUW|Pullman Moscow Regional Airport|Pullman|United States|46.7439|-117.11|America/Los_Angeles|-8
+LWS|KLWS|Lewiston Nez Perce County Airport|Lewiston|United States|46.3745|-117.015|America/Los_Angeles|-8
+ELM|KELM|Elmira Corning Regional Airport|Elmira|United States|42.1599|-76.8916|America/New_York|-5
+ITH|KITH|Ithaca Tompkins Regional Airport|Ithaca|United States|42.491|-76.4584|America/New_York|-5
+MRY|KMRY|Monterey Peninsula Airport|Monterey|United States|36.587|-121.843|America/Los_Angeles|-8
+SBA|KSBA|Santa Barbara Municipal Airport|Santa Barbara|United States|34.4262|-119.84|America/Los_Angeles|-8
+DAB|KDAB|Daytona Beach International Airport|Daytona Beach|United States|29.1799|-81.0581|America/New_York|-5
+LPX|EVLA|Liepāja International Airport|Liepaja|Latvia|56.5175|21.0969|Europe/Riga|2
+RIX|EVRA|Riga International Airport|Riga|Latvia|56.9236|23.9711|Europe/Riga|2
+SQQ|EYSA|Šiauliai International Airport|Siauliai|Lithuania|55.8939|23.395|Europe/Vilnius|2
+HLJ|EYSB|Barysiai Airport|Barysiai|Lithuania|56.0706|23.5581|Europe/Vilnius|2
+KUN|EYKA|Kaunas International Airport|Kaunas|Lithuania|54.9639|24.0848|Europe/Vilnius|2
+PLQ|EYPA|Palanga International Airport|Palanga|Lithuania|55.9732|21.0939|Europe/Vilnius|2
+VNO|EYVI|Vilnius International Airport|Vilnius|Lithuania|54.6341|25.2858|Europe/Vilnius|2
+PNV|EYPP|Panevėžys Air Base|Panevezys|Lithuania|55.7294|24.4608|Europe/Vilnius|2
+EVN|UDYZ|Zvartnots International Airport|Yerevan|Armenia|40.1473|44.3959|Asia/Yerevan|4
+LWN|UDSG|Gyumri Shirak Airport|Gyumri|Armenia|40.7504|43.8593|Asia/Yerevan|4
+ASA|HHSB|Assab International Airport|Assab|Eritrea|13.0718|42.645|Africa/Asmera|3
+ASM|HHAS|Asmara International Airport|Asmara|Eritrea|15.2919|38.9107|Africa/Asmera|3
+MSW|HHMS|Massawa International Airport|Massawa|Eritrea|15.67|39.3701|Africa/Asmera|3
+GZA|LVGZ|Yasser Arafat International Airport|Gaza|Palestine|31.2464|34.2761|Asia/Gaza|2
+BUS|UGSB|Batumi International Airport|Batumi|Georgia|41.6103|41.5997|Asia/Tbilisi|4
+KUT|UGKO|Kopitnari Airport|Kutaisi|Georgia|42.1767|42.4826|Asia/Tbilisi|4
+TBS|UGTB|Tbilisi International Airport|Tbilisi|Georgia|41.6692|44.9547|Asia/Tbilisi|4
+RIY|OYRN|Mukalla International Airport|Mukalla|Yemen|14.6626|49.375|Asia/Aden|3
+TAI|OYTZ|Ta'izz International Airport|Taiz|Yemen|13.686|44.1391|Asia/Aden|3
+HOD|OYHD|Hodeidah International Airport|Hodeidah|Yemen|14.753|42.9763|Asia/Aden|3
+ADE|OYAA|Aden International Airport|Aden|Yemen|12.8295|45.0288|Asia/Aden|3
+AXK|OYAT|Ataq Airport|Ataq|Yemen|14.5513|46.8262|Asia/Aden|3
+AAY|OYGD|Al Ghaidah International Airport|Al Ghaidah Intl|Yemen|16.1917|52.175|Asia/Aden|3
+SAH|OYSN|Sana'a International Airport|Sanaa|Yemen|15.4763|44.2197|Asia/Aden|3
+BHN|OYBN|Beihan Airport|Beihan|Yemen|14.782|45.7201|Asia/Aden|3
+SCT|OYSQ|Socotra International Airport|Socotra|Yemen|12.6307|53.9058|Asia/Aden|3
+FMM|EDJA|Memmingen Allgau Airport|Memmingen|Germany|47.9888|10.2395|Europe/Berlin|1
+NAV|LTAZ|Nevşehir Kapadokya Airport|Nevsehir|Turkey|38.7719|34.5345|Europe/Istanbul|3
+EZE|SAEZ|Ministro Pistarini International Airport|Buenos Aires|Argentina|-34.8222|-58.5358|America/Buenos_Aires|-3
+EBL|ORER|Erbil International Airport|Erbil|Iraq|36.2376|43.9632|Asia/Baghdad|3
+EMD|YEML|Emerald Airport|Emerald|Australia|-23.5675|148.179|Australia/Brisbane|10
+HEW|LGAT|Athen Helenikon Airport|Athens|Greece|37.8933|23.7261|Europe/Athens|2
+KIX|RJBB|Kansai International Airport|Osaka|Japan|34.4273|135.244|Asia/Tokyo|9
+JRB|KJRB|Downtown-Manhattan/Wall St Heliport|New York|United States|40.7012|-74.009|America/New_York|-5
+TAG|RPVT|Tagbilaran Airport|Tagbilaran|Philippines|9.6654|123.8535|Asia/Manila|8
+JAV|BGJN|Ilulissat Airport|Ilulissat|Greenland|69.2432|-51.0571|America/Godthab|-3
+JCH|BGCH|Qasigiannguit Heliport|Qasigiannguit|Greenland|68.8228|-51.1734|America/Godthab|-3
+JEG|BGAA|Aasiaat Airport|Aasiaat|Greenland|68.7218|-52.7847|America/Godthab|-3
+PMI|LEPA|Palma De Mallorca Airport|Palma de Mallorca|Spain|39.5517|2.7388|Europe/Madrid|1
+DRW|YPDN|Darwin International Airport|Darwin|Australia|-12.4147|130.877|Australia/Darwin|9.5
+URT|VTSB|Surat Thani Airport|Surat Thani|Thailand|9.1326|99.1356|Asia/Bangkok|7
+TKA|PATK|Talkeetna Airport|Talkeetna|United States|62.3205|-150.094|America/Anchorage|-9
+GZM|LMMG|Xewkija Heliport|Gozo|Malta|36.0272|14.2728|Europe/Malta|1
+HVN|KHVN|Tweed New Haven Airport|New Haven|United States|41.2637|-72.8868|America/New_York|-5
+AVL|KAVL|Asheville Regional Airport|Asheville|United States|35.4362|-82.5418|America/New_York|-5
+GSO|KGSO|Piedmont Triad International Airport|Greensboro|United States|36.0978|-79.9373|America/New_York|-5
+FSD|KFSD|Joe Foss Field Airport|Sioux Falls|United States|43.582|-96.7419|America/Chicago|-6
+AYQ|YAYE|Ayers Rock Connellan Airport|Uluru|Australia|-25.1861|130.976|Australia/Darwin|9.5
+MHT|KMHT|Manchester-Boston Regional Airport|Manchester NH|United States|42.9326|-71.4357|America/New_York|-5
+APF|KAPF|Naples Municipal Airport|Naples|United States|26.1526|-81.7753|America/New_York|-5
+RDN|WMPR|LTS Pulau Redang Airport|Redang|Malaysia|5.7653|103.007|Asia/Kuala_Lumpur|8
+SDF|KSDF|Louisville International Standiford Field|Louisville|United States|38.1744|-85.736|America/New_York|-5
+CHO|KCHO|Charlottesville Albemarle Airport|Charlottesville VA|United States|38.1386|-78.4529|America/New_York|-5
+ROA|KROA|Roanoke–Blacksburg Regional Airport|Roanoke VA|United States|37.3255|-79.9754|America/New_York|-5
+LEX|KLEX|Blue Grass Airport|Lexington KY|United States|38.0365|-84.6059|America/New_York|-5
+EVV|KEVV|Evansville Regional Airport|Evansville|United States|38.037|-87.5324|America/Chicago|-6
+ABQ|KABQ|Albuquerque International Sunport|Albuquerque|United States|35.0402|-106.609|America/Denver|-7
+BZN|KBZN|Gallatin Field|Bozeman|United States|45.7775|-111.153|America/Denver|-7
+BIL|KBIL|Billings Logan International Airport|Billings|United States|45.8077|-108.543|America/Denver|-7
+BTM|KBTM|Bert Mooney Airport|Butte|United States|45.9548|-112.497|America/Denver|-7
+TVC|KTVC|Cherry Capital Airport|Traverse City|United States|44.7414|-85.5822|America/New_York|-5
+FRS|MGTK|Mundo Maya International Airport|Flores|Guatemala|16.9138|-89.8664|America/Guatemala|-6
+BHB|KBHB|Hancock County-Bar Harbor Airport|Bar Harbor|United States|44.45|-68.3615|America/New_York|-5
+RKD|KRKD|Knox County Regional Airport|Rockland|United States|44.0601|-69.0992|America/New_York|-5
+JAC|KJAC|Jackson Hole Airport|Jacksn Hole|United States|43.6073|-110.738|America/Denver|-7
+RFD|KRFD|Chicago Rockford International Airport|Rockford|United States|42.1954|-89.0972|America/Chicago|-6
+DME|UUDD|Domodedovo International Airport|Moscow|Russia|55.4088|37.9063|Europe/Moscow|3
+SYX|ZJSY|Sanya Phoenix International Airport|Sanya|China|18.3029|109.412|Asia/Shanghai|8
+MFN|NZMF|Milford Sound Airport|Milford Sound|New Zealand|-44.6733|167.923|Pacific/Auckland|12
+LJG|ZPLJ|Lijiang Airport|Lijiang|China|26.68|100.246|Asia/Shanghai|8
+GSP|KGSP|Greenville Spartanburg International Airport|Greenville|United States|34.8957|-82.2189|America/New_York|-5
+BMI|KBMI|Central Illinois Regional Airport at Bloomington-Normal|Bloomington|United States|40.4771|-88.9159|America/Chicago|-6
+GPT|KGPT|Gulfport Biloxi International Airport|Gulfport|United States|30.4073|-89.0701|America/Chicago|-6
+AZO|KAZO|Kalamazoo Battle Creek International Airport|Kalamazoo|United States|42.2349|-85.5521|America/New_York|-5
+TOL|KTOL|Toledo Express Airport|Toledo|United States|41.5868|-83.8078|America/New_York|-5
+FWA|KFWA|Fort Wayne International Airport|Fort Wayne|United States|40.9785|-85.1951|America/New_York|-5
+DEC|KDEC|Decatur Airport|Decatur|United States|39.8346|-88.8657|America/Chicago|-6
+CID|KCID|The Eastern Iowa Airport|Cedar Rapids|United States|41.8847|-91.7108|America/Chicago|-6
+LSE|KLSE|La Crosse Municipal Airport|La Crosse|United States|43.879|-91.2567|America/Chicago|-6
+CWA|KCWA|Central Wisconsin Airport|Wassau|United States|44.7776|-89.6668|America/Chicago|-6
+PIA|KPIA|General Wayne A. Downing Peoria International Airport|Peoria|United States|40.6642|-89.6933|America/Chicago|-6
+ATW|KATW|Appleton International Airport|Appleton|United States|44.2581|-88.5191|America/Chicago|-6
+RST|KRST|Rochester International Airport|Rochester|United States|43.9083|-92.5|America/Chicago|-6
+CMI|KCMI|University of Illinois Willard Airport|Champaign|United States|40.0392|-88.2781|America/Chicago|-6
+MHK|KMHK|Manhattan Regional Airport|Manhattan|United States|39.141|-96.6708|America/Chicago|-6
+KGC|YKSC|Kingscote Airport|Kingscote|Australia|-35.7139|137.521|Australia/Adelaide|9.5
+HVB|YHBA|Hervey Bay Airport|Hervey Bay|Australia|-25.3189|152.88|Australia/Brisbane|10
+DLU|ZPDL|Dali Airport|Dali|China|25.6494|100.319|Asia/Shanghai|8
+MZV|WBMU|Mulu Airport|Mulu|Malaysia|4.0483|114.805|Asia/Kuala_Lumpur|8
+SSH|HESH|Sharm El Sheikh International Airport|Sharm El Sheikh|Egypt|27.9773|34.395|Africa/Cairo|2
+FKL|KFKL|Venango Regional Airport|Franklin|United States|41.3779|-79.8604|America/New_York|-5
+NBO|HKJK|Jomo Kenyatta International Airport|Nairobi|Kenya|-1.3192|36.9278|Africa/Nairobi|3
+SEU|HTSN|Seronera Airport|Seronera|Tanzania|-2.4581|34.8225|Africa/Dar_es_Salaam|3
+FTE|SAWC|El Calafate Airport|El Calafate|Argentina|-50.2803|-72.0531|America/Argentina/Rio_Gallegos|-3
+ARM|YARM|Armidale Airport|Armidale|Australia|-30.5281|151.617|Australia/Sydney|10
+GJT|KGJT|Grand Junction Regional Airport|Grand Junction|United States|39.1224|-108.527|America/Denver|-7
+SGU|KSGU|St George Municipal Airport|Saint George|United States|37.0364|-113.5103|America/Denver|-7
+DWH|KDWH|David Wayne Hooks Memorial Airport|Houston|United States|30.0618|-95.5528|America/Chicago|-6
+SRQ|KSRQ|Sarasota Bradenton International Airport|Sarasota|United States|27.3954|-82.5544|America/New_York|-5
+BDA|TXKF|L.F. Wade International International Airport|Bermuda|Bermuda|32.364|-64.6787|Atlantic/Bermuda|-4
+VNY|KVNY|Van Nuys Airport|Van Nuys|United States|34.2098|-118.49|America/Los_Angeles|-8
+MLI|KMLI|Quad City International Airport|Moline|United States|41.4485|-90.5075|America/Chicago|-6
+PFN|KPFN|Panama City-Bay Co International Airport|Panama City|United States|30.2121|-85.6828|America/Chicago|-6
+HIR|AGGH|Honiara International Airport|Honiara|Solomon Islands|-9.428|160.055|Pacific/Guadalcanal|11
+PPT|NTAA|Faa'a International Airport|Papeete|French Polynesia|-17.5537|-149.607|Pacific/Tahiti|-10
+INU|ANYN|Nauru International Airport|Nauru|Nauru|-0.5475|166.919|Pacific/Nauru|12
+FUN|NGFU|Funafuti International Airport|Funafuti|Tuvalu|-8.525|179.196|Pacific/Funafuti|12
+OVB|UNNT|Tolmachevo Airport|Novosibirsk|Russia|55.0126|82.6507|Asia/Krasnoyarsk|7
+XKH|VLXK|Xieng Khouang Airport|Phon Savan|Laos|19.45|103.158|Asia/Vientiane|7
+BIS|KBIS|Bismarck Municipal Airport|Bismarck|United States|46.7727|-100.746|America/Chicago|-6
+TEX|KTEX|Telluride Regional Airport|Telluride|United States|37.9538|-107.908|America/Denver|-7
+HGN|VTCH|Mae Hong Son Airport|Mae Hong Son|Thailand|19.3013|97.9758|Asia/Bangkok|7
+RAP|KRAP|Rapid City Regional Airport|Rapid City|United States|44.0453|-103.057|America/Denver|-7
+CLD|KCRQ|Mc Clellan-Palomar Airport|Carlsbad|United States|33.1283|-117.28|America/Los_Angeles|-8
+FNT|KFNT|Bishop International Airport|Flint|United States|42.9654|-83.7436|America/New_York|-5
+DVO|RPMD|Francisco Bangoy International Airport|Davao|Philippines|7.1255|125.646|Asia/Manila|8
+FNC|LPMA|Madeira Airport|Funchal|Portugal|32.6979|-16.7745|Europe/Lisbon|0
+STM|SBSN|Maestro Wilson Fonseca Airport|Santarem|Brazil|-2.4247|-54.7858|America/Belem|-3
+KOS|VDSV|Sihanoukville International Airport|Sihanoukville|Cambodia|10.5797|103.637|Asia/Phnom_Penh|7
+YOA|CYOA|Ekati Airport|Ekati|Canada|64.6989|-110.615|America/Edmonton|-7
+NPE|NZNR|Hawke's Bay Airport|NAPIER|New Zealand|-39.4658|176.87|Pacific/Auckland|12
+LEV|NFNB|Levuka Airfield|Levuka|Fiji|-17.7111|178.759|Pacific/Fiji|12
+LXA|ZULS|Lhasa Gonggar Airport|Lhasa|China|29.2978|90.9119|Asia/Shanghai|8
+RDD|KRDD|Redding Municipal Airport|Redding|United States|40.509|-122.293|America/Los_Angeles|-8
+EUG|KEUG|Mahlon Sweet Field|Eugene|United States|44.1246|-123.212|America/Los_Angeles|-8
+IDA|KIDA|Idaho Falls Regional Airport|Idaho Falls|United States|43.5146|-112.071|America/Denver|-7
+MFR|KMFR|Rogue Valley International Medford Airport|Medford|United States|42.3742|-122.873|America/Los_Angeles|-8
+KBZ|NZKI|Kaikoura Airport|Kaikoura|New Zealand|-42.425|173.605|Pacific/Auckland|12
+RDM|KRDM|Roberts Field|Redmond-Bend|United States|44.2541|-121.15|America/Los_Angeles|-8
+PCN|NZPN|Picton Aerodrome|Picton|New Zealand|-41.3461|173.956|Pacific/Auckland|12
+WDH|FYWH|Hosea Kutako International Airport|Windhoek|Namibia|-22.4799|17.4709|Africa/Windhoek|1
+YWH|CYWH|Victoria Harbour Seaplane Base|Victoria|Canada|48.425|-123.3889|America/Vancouver|-8
+TNA|ZSJN|Yaoqiang Airport|Jinan|China|36.8572|117.216|Asia/Shanghai|8
+CZX|ZSCG|Changzhou Benniu Airport|Changzhou|China|31.9197|119.779|Asia/Shanghai|8
+YBP|ZUYB|Yibin Caiba Airport|Yibin|China|28.8006|104.545|Asia/Shanghai|8
+TJM|USTR|Roshchino International Airport|Tyumen|Russia|57.1896|65.3243|Asia/Yekaterinburg|5
+CAK|KCAK|Akron Canton Regional Airport|Akron|United States|40.9161|-81.4422|America/New_York|-5
+HSV|KHSV|Huntsville International Carl T Jones Field|Huntsville|United States|34.6372|-86.7751|America/Chicago|-6
+PKB|KPKB|Mid Ohio Valley Regional Airport|PARKERSBURG|United States|39.3451|-81.4392|America/New_York|-5
+MGM|KMGM|Montgomery Regional (Dannelly Field) Airport|MONTGOMERY|United States|32.3006|-86.394|America/Chicago|-6
+TRI|KTRI|Tri-Cities Regional TN/VA Airport|BRISTOL|United States|36.4752|-82.4074|America/New_York|-5
+PAH|KPAH|Barkley Regional Airport|PADUCAH|United States|37.0608|-88.7738|America/Chicago|-6
+JIB|HDAM|Djibouti-Ambouli Airport|Djibouti|Djibouti|11.5473|43.1595|Africa/Djibouti|3
+HAK|ZJHK|Haikou Meilan International Airport|Haikou|China|19.9349|110.459|Asia/Shanghai|8
+MFA|HTMA|Mafia Island Airport|Mafia Island|Tanzania|-7.9175|39.6685|Africa/Dar_es_Salaam|3
+PGA|KPGA|Page Municipal Airport|Page|United States|36.9261|-111.448|America/Phoenix|-7
+UII|MHUT|Utila Airport|Utila|Honduras|16.1131|-86.8803|America/Tegucigalpa|-6
+FCA|KGPI|Glacier Park International Airport|Kalispell|United States|48.3105|-114.256|America/Denver|-7
+MBS|KMBS|MBS International Airport|Saginaw|United States|43.5329|-84.0796|America/New_York|-5
+BGM|KBGM|Greater Binghamton/Edwin A Link field|Binghamton|United States|42.2087|-75.9798|America/New_York|-5
+BGW|ORBI|Baghdad International Airport|Baghdad|Iraq|33.2625|44.2346|Asia/Baghdad|3
+NNT|VTCN|Nan Airport|Nan|Thailand|18.8079|100.783|Asia/Bangkok|7
+ROI|VTUV|Roi Et Airport|Roi Et|Thailand|16.1168|103.774|Asia/Bangkok|7
+BFV|VTUO|Buri Ram Airport|Buri Ram|Thailand|15.2295|103.253|Asia/Bangkok|7
+TDX|VTBO|Trat Airport|Trat|Thailand|12.2746|102.319|Asia/Bangkok|7
+BLH|KBLH|Blythe Airport|Blythe|United States|33.6192|-114.717|America/Los_Angeles|-8
+IQA|ORAA|Al Asad Air Base|Al Asad|Iraq|33.7856|42.4412|Asia/Baghdad|3
+TQD|ORAT|Al Taqaddum Air Base|Al Taqaddum|Iraq|33.3381|43.5971|Asia/Baghdad|3
+XQC|ORBD|Joint Base Balad|Al Bakr|Iraq|33.9402|44.3616|Asia/Baghdad|3
+CRK|RPLC|Diosdado Macapagal International Airport|Angeles City|Philippines|15.186|120.56|Asia/Manila|8
+SDK|WBKS|Sandakan Airport|Sandakan|Malaysia|5.9009|118.059|Asia/Kuala_Lumpur|8
+LXG|VLLN|Luang Namtha Airport|Luang Namtha|Laos|20.967|101.4|Asia/Vientiane|7
+ODY|VLOS|Oudomsay Airport|Muang Xay|Laos|20.6827|101.994|Asia/Vientiane|7
+SHE|ZYTX|Taoxian Airport|Shenyang|China|41.6398|123.483|Asia/Shanghai|8
+DOY|ZSDY|Dongying Shengli Airport|Dongying|China|37.5086|118.788|Asia/Shanghai|8
+MNI|TRPG|John A. Osborne Airport|Geralds|Montserrat|16.7914|-62.1933|America/Montserrat|-4
+PSG|PAPG|Petersburg James A Johnson Airport|Petersburg|United States|56.8017|-132.945|America/Anchorage|-9
+LYA|ZHLY|Luoyang Airport|Luoyang|China|34.7411|112.388|Asia/Shanghai|8
+XUZ|ZSXZ|Xuzhou Guanyin Airport|Xuzhou|China|34.0591|117.5553|Asia/Shanghai|8
+MWQ|VYMW|Magway Airport|Magwe|Burma|20.1656|94.9414|Asia/Rangoon|6.5
+KHM|VYKI|Kanti Airport|Khamti|Burma|25.9883|95.6744|Asia/Rangoon|6.5
+DLI|VVDL|Lien Khuong Airport|Dalat|Vietnam|11.75|108.367|Asia/Saigon|7
+VDH|VVDH|Dong Hoi Airport|Dong Hoi|Vietnam|17.515|106.5906|Asia/Saigon|7
+VKG|VVRG|Rach Gia Airport|Rach Gia|Vietnam|9.958|105.1324|Asia/Saigon|7
+CAH|VVCM|Cà Mau Airport|Ca Mau|Vietnam|9.1777|105.1778|Asia/Saigon|7
+VCL|VVCA|Chu Lai International Airport|Chu Lai|Vietnam|15.4033|108.706|Asia/Saigon|7
+TBB|VVTH|Dong Tac Airport|Tuy Hoa|Vietnam|13.0496|109.334|Asia/Saigon|7
+PYY|VTCI|Mae Hong Son Airport|Pai|Thailand|19.372|98.437|Asia/Bangkok|7
+BWK|LDSB|Bol Airport|Brac|Croatia|43.2857|16.6797|Europe/Zagreb|1
+NSI|FKYS|Yaoundé Nsimalen International Airport|Yaounde|Cameroon|3.7226|11.5533|Africa/Douala|1
+CKY|GUCY|Conakry International Airport|Conakry|Guinea|9.5769|-13.612|Africa/Conakry|0
+AAH|EDKA|Aachen-Merzbrück Airport|Aachen|Germany|50.8231|6.1864|Europe/Berlin|1
+FKB|EDSB|Karlsruhe Baden-Baden Airport|Karlsruhe/Baden-Baden|Germany|48.7794|8.0805|Europe/Berlin|1
+SFB|KSFB|Orlando Sanford International Airport|Sanford|United States|28.7776|-81.2375|America/New_York|-5
+JST|KJST|John Murtha Johnstown Cambria County Airport|Johnstown|United States|40.3161|-78.8339|America/New_York|-5
+LUA|VNLK|Lukla Airport|Lukla|Nepal|27.6869|86.7297|Asia/Katmandu|5.75
+BHP|VNBJ|Bhojpur Airport|Bhojpur|Nepal|27.1474|87.0508|Asia/Katmandu|5.75
+LDN|VNLD|Lamidanda Airport|Lamidanda|Nepal|27.2531|86.67|Asia/Katmandu|5.75
+JMO|VNJS|Jomsom Airport|Jomsom|Nepal|28.7804|83.723|Asia/Katmandu|5.75
+NGX|VNMA|Manang Airport|Manang|Nepal|28.6414|84.0892|Asia/Katmandu|5.75
+PPL|VNPL|Phaplu Airport|Phaplu|Nepal|27.5178|86.5845|Asia/Katmandu|5.75
+RUM|VNRT|Rumjatar Airport|Rumjatar|Nepal|27.3035|86.5504|Asia/Katmandu|5.75
+DNP|VNDG|Tulsipur Airport|Dang|Nepal|28.1111|82.2942|Asia/Katmandu|5.75
+RUK|VNRK|Rukum Chaurjahari Airport|Rukumkot|Nepal|28.627|82.195|Asia/Katmandu|5.75
+JUM|VNJL|Jumla Airport|Jumla|Nepal|29.2742|82.1933|Asia/Katmandu|5.75
+TPJ|VNTJ|Taplejung Airport|Taplejung|Nepal|27.3509|87.6953|Asia/Katmandu|5.75
+TMI|VNTR|Tumling Tar Airport|Tumling Tar|Nepal|27.315|87.1933|Asia/Katmandu|5.75
+SKH|VNSK|Surkhet Airport|Surkhet|Nepal|28.586|81.636|Asia/Katmandu|5.75
+IMK|VNST|Simikot Airport|Simikot|Nepal|29.9711|81.8189|Asia/Katmandu|5.75
+DOP|VNDP|Dolpa Airport|Dolpa|Nepal|28.9857|82.8191|Asia/Katmandu|5.75
+BJH|VNBG|Bajhang Airport|Bajhang|Nepal|29.539|81.1854|Asia/Katmandu|5.75
+DHI|VNDH|Dhangarhi Airport|Dhangarhi|Nepal|28.7533|80.5819|Asia/Katmandu|5.75
+MWX|RKJB|Muan International Airport|Muan|South Korea|34.9914|126.3828|Asia/Seoul|9
+JTY|LGPL|Astypalaia Airport|Astypalaia|Greece|36.5799|26.3758|Europe/Athens|2
+JIK|LGIK|Ikaria Airport|Ikaria|Greece|37.6827|26.3471|Europe/Athens|2
+JKL|LGKY|Kalymnos Airport|Kalymnos|Greece|36.9633|26.9406|Europe/Athens|2
+MLO|LGML|Milos Airport|Milos|Greece|36.6969|24.4769|Europe/Athens|2
+JNX|LGNX|Naxos Airport|Cyclades Islands|Greece|37.0811|25.3681|Europe/Athens|2
+PAS|LGPA|Paros National Airport|Paros|Greece|37.0205|25.1132|Europe/Athens|2
+KZS|LGKJ|Kastelorizo Airport|Kastelorizo|Greece|36.1417|29.5764|Europe/Athens|2
+RMF|HEMA|Marsa Alam International Airport|Marsa Alam|Egypt|25.5571|34.5837|Africa/Cairo|2
+NRN|EDLV|Weeze Airport|Weeze|Germany|51.6024|6.1422|Europe/Berlin|1
+USU|RPVV|Francisco B. Reyes Airport|Busuanga|Philippines|12.1215|120.1|Asia/Manila|8
+BXU|RPME|Bancasi Airport|Butuan|Philippines|8.9515|125.4788|Asia/Manila|8
+DPL|RPMG|Dipolog Airport|Dipolog|Philippines|8.602|123.3419|Asia/Manila|8
+LAO|RPLI|Laoag International Airport|Laoag|Philippines|18.1781|120.532|Asia/Manila|8
+LGP|RPLP|Legazpi City International Airport|Legazpi|Philippines|13.1575|123.735|Asia/Manila|8
+OZC|RPMO|Labo Airport|Ozamis|Philippines|8.1785|123.842|Asia/Manila|8
+CEB|RPVM|Mactan Cebu International Airport|Cebu|Philippines|10.3075|123.979|Asia/Manila|8
+NOD|EDWS|Norden-Norddeich Airport|Norden|Germany|53.6331|7.1903|Europe/Berlin|1
+JUI|EDWJ|Juist Airport|Juist|Germany|53.6811|7.0558|Europe/Berlin|1
+BPS|SBPS|Porto Seguro Airport|Porto Seguro|Brazil|-16.4386|-39.0809|America/Fortaleza|-3
+QIG|SNIG|Iguatu Airport|Iguatu|Brazil|-6.3466|-39.2938|America/Fortaleza|-3
+PMW|SBPJ|Brigadeiro Lysias Rodrigues Airport|Palmas|Brazil|-10.2915|-48.357|America/Fortaleza|-3
+CLV|SBCN|Nelson Ribeiro Guimarães Airport|Caldas Novas|Brazil|-17.7253|-48.6075|America/Sao_Paulo|-3
+MSO|KMSO|Missoula International Airport|Missoula|United States|46.9163|-114.091|America/Denver|-7
+BKQ|YBCK|Blackall Airport|Blackall|Australia|-24.4278|145.429|Australia/Brisbane|10
+BDB|YBUD|Bundaberg Airport|Bundaberg|Australia|-24.9039|152.319|Australia/Brisbane|10
+GCN|KGCN|Grand Canyon National Park Airport|Grand Canyon|United States|35.9524|-112.147|America/Phoenix|-7
+SGR|KSGR|Sugar Land Regional Airport|Sugar Land|United States|29.6223|-95.6565|America/Chicago|-6
+APA|KAPA|Centennial Airport|Denver|United States|39.5701|-104.849|America/Denver|-7
+CVN|KCVN|Clovis Municipal Airport|Clovis|United States|34.4251|-103.079|America/Denver|-7
+FST|KFST|Fort Stockton Pecos County Airport|Fort Stockton|United States|30.9157|-102.916|America/Chicago|-6
+LVS|KLVS|Las Vegas Municipal Airport|Las Vegas|United States|35.6542|-105.142|America/Denver|-7
+IWS|KIWS|West Houston Airport|Houston|United States|29.8182|-95.6726|America/Chicago|-6
+LRU|KLRU|Las Cruces International Airport|Las Cruces|United States|32.2894|-106.922|America/Denver|-7
+BKD|KBKD|Stephens County Airport|Breckenridge|United States|32.719|-98.891|America/Chicago|-6
+TPL|KTPL|Draughon Miller Central Texas Regional Airport|Temple|United States|31.1525|-97.4078|America/Chicago|-6
+OZA|KOZA|Ozona Municipal Airport|Ozona|United States|30.7353|-101.203|America/Chicago|-6
+KDM|VRMT|Kaadedhdhoo Airport|Kaadedhdhoo|Maldives|0.4881|72.9969|Indian/Maldives|5
+LAK|CYKD|Aklavik/Freddie Carmichael Airport|Aklavik|Canada|68.2233|-135.006|America/Edmonton|-7
+YWJ|CYWJ|Déline Airport|Deline|Canada|65.2111|-123.436|America/Edmonton|-7
+ZFN|CZFN|Tulita Airport|Tulita|Canada|64.9097|-125.573|America/Edmonton|-7
+YGH|CYGH|Fort Good Hope Airport|Fort Good Hope|Canada|66.2408|-128.651|America/Edmonton|-7
+TAH|NVVW|Tanna Airport|Tanna|Vanuatu|-19.4551|169.224|Pacific/Efate|11
+YPC|CYPC|Paulatuk (Nora Aliqatchialuk Ruben) Airport|Paulatuk|Canada|69.3608|-124.0755|America/Edmonton|-7
+SRZ|SLET|El Trompillo Airport|Santa Cruz|Bolivia|-17.8116|-63.1715|America/La_Paz|-4
+SAB|TNCS|Juancho E. Yrausquin Airport|Saba|Netherlands Antilles|17.645|-63.22|America/Curacao|-4
+EGE|KEGE|Eagle County Regional Airport|Vail|United States|39.6426|-106.918|America/Denver|-7
+SKN|ENSK|Stokmarknes Skagen Airport|Stokmarknes|Norway|68.5788|15.0334|Europe/Oslo|1
+CGF|KCGF|Cuyahoga County Airport|Richmond Heights|United States|41.5651|-81.4864|America/New_York|-5
+MFD|KMFD|Mansfield Lahm Regional Airport|Mansfield|United States|40.8214|-82.5166|America/New_York|-5
+CSG|KCSG|Columbus Metropolitan Airport|Columbus|United States|32.5163|-84.9389|America/New_York|-5
+LAW|KLAW|Lawton Fort Sill Regional Airport|Lawton|United States|34.5677|-98.4166|America/Chicago|-6
+FNL|KFNL|Northern Colorado Regional Airport|Fort Collins|United States|40.4518|-105.011|America/Denver|-7
+FLG|KFLG|Flagstaff Pulliam Airport|Flagstaff|United States|35.1385|-111.671|America/Phoenix|-7
+TVL|KTVL|Lake Tahoe Airport|South Lake Tahoe|United States|38.8939|-119.995|America/Los_Angeles|-8
+TWF|KTWF|Joslin Field Magic Valley Regional Airport|Twin Falls|United States|42.4818|-114.488|America/Denver|-7
+MVY|KMVY|Martha's Vineyard Airport|Vineyard Haven MA|United States|41.3931|-70.6143|America/New_York|-5
+CON|KCON|Concord Municipal Airport|Concord NH|United States|43.2027|-71.5023|America/New_York|-5
+GON|KGON|Groton New London Airport|Groton CT|United States|41.3301|-72.0451|America/New_York|-5
+STC|KSTC|St Cloud Regional Airport|Saint Cloud|United States|45.5466|-94.0599|America/Chicago|-6
+BPE|ZBDH|Qinhuangdao Beidaihe Airport|Bagan|Burma|39.6664|119.0589|Asia/Shanghai|8
+GTR|KGTR|Golden Triangle Regional Airport|Columbus Mississippi|United States|33.4503|-88.5914|America/Chicago|-6
+GOJ|UWGG|Nizhny Novgorod Strigino International Airport|Nizhniy Novgorod|Russia|56.2301|43.784|Europe/Moscow|3
+HQM|KHQM|Bowerman Airport|Hoquiam|United States|46.9712|-123.937|America/Los_Angeles|-8
+ERI|KERI|Erie International Tom Ridge Field|Erie|United States|42.0831|-80.1739|America/New_York|-5
+HYA|KHYA|Barnstable Municipal Boardman Polando Field|Barnstable|United States|41.6693|-70.2804|America/New_York|-5
+SPR|MZSP|San Pedro Airport|San Pedro|Belize|17.9139|-87.9711|America/Belize|-6
+SDX|KSEZ|Sedona Airport|Sedona|United States|34.8486|-111.788|America/Phoenix|-7
+MGW|KMGW|Morgantown Municipal Walter L. Bill Hart Field|Morgantown|United States|39.6429|-79.9163|America/New_York|-5
+CRW|KCRW|Yeager Airport|Charleston|United States|38.3731|-81.5932|America/New_York|-5
+AVP|KAVP|Wilkes Barre Scranton International Airport|Scranton|United States|41.3385|-75.7234|America/New_York|-5
+BJI|KBJI|Bemidji Regional Airport|Bemidji|United States|47.5094|-94.9337|America/Chicago|-6
+THG|YTNG|Thangool Airport|Biloela|Australia|-24.4939|150.576|Australia/Brisbane|10
+FGI|NSFI|Fagali'i Airport|Apia|Samoa|-13.8487|-171.74|Pacific/Apia|13
+BNK|YBNA|Ballina Byron Gateway Airport|Ballina Byron Bay|Australia|-28.8339|153.562|Australia/Sydney|10
+FAR|KFAR|Hector International Airport|Fargo|United States|46.9207|-96.8158|America/Chicago|-6
+MKC|KMKC|Charles B. Wheeler Downtown Airport|Kansas City|United States|39.1232|-94.5928|America/Chicago|-6
+RBE|VDRK|Ratanakiri Airport|Ratanakiri|Cambodia|13.73|106.987|Asia/Phnom_Penh|7
+GCC|KGCC|Gillette Campbell County Airport|Gillette|United States|44.3489|-105.539|America/Denver|-7
+TOF|UNTT|Bogashevo Airport|Tomsk|Russia|56.3803|85.2083|Asia/Krasnoyarsk|7
+NZJ|KNZJ|El Toro Marine Corps Air Station|Santa Ana|United States|33.6761|-117.731|America/Los_Angeles|-8
+PHY|VTPB|Phetchabun Airport|Phetchabun|Thailand|16.676|101.195|Asia/Bangkok|7
+CJM|VTSE|Chumphon Airport|Chumphon|Thailand|10.7112|99.3617|Asia/Bangkok|7
+JZH|ZUJZ|Jiuzhai Huanglong Airport|Jiuzhaigou|China|32.8533|103.6822|Asia/Shanghai|8
+SWA|ZGOW|Jieyang Chaoshan International Airport|Shantou|China|23.552|116.5033|Asia/Shanghai|8
+GEO|SYCJ|Cheddi Jagan International Airport|Georgetown|Guyana|6.4985|-58.2541|America/Guyana|-4
+AGT|SGES|Guarani International Airport|Ciudad del Este|Paraguay|-25.4545|-54.8427|America/Asuncion|-4
+OGL|SYGO|Eugene F. Correira International Airport|Georgetown|Guyana|6.8063|-58.1059|America/Guyana|-4
+KAI|PKSA|Kaieteur International Airport|Kaieteur|Guyana|5.1728|-59.4915|America/Guyana|-4
+DNH|ZLDH|Dunhuang Airport|Dunhuang|China|40.1611|94.8092|Asia/Shanghai|8
+AOI|LIPY|Ancona Falconara Airport|Ancona|Italy|43.6163|13.3623|Europe/Rome|1
+TCP|HETB|Taba International Airport|Taba|Egypt|29.5878|34.7781|Africa/Cairo|2
+LYB|MWCL|Edward Bodden Airfield|Little Cayman|Cayman Islands|19.6602|-80.0888|America/Cayman|-5
+BJV|LTFE|Milas Bodrum International Airport|Bodrum|Turkey|37.2506|27.6643|Europe/Istanbul|3
+TBJ|DTKA|Tabarka 7 Novembre Airport|Tabarka|Tunisia|36.98|8.8769|Africa/Tunis|1
+SAW|LTFJ|Sabiha Gökçen International Airport|Istanbul|Turkey|40.8986|29.3092|Europe/Istanbul|3
+SCE|KUNV|University Park Airport|State College Pennsylvania|United States|40.8493|-77.8487|America/New_York|-5
+BME|YBRM|Broome International Airport|Broome|Australia|-17.9447|122.232|Australia/Perth|8
+NTL|YWLM|Newcastle Airport|Newcastle|Australia|-32.795|151.834|Australia/Sydney|10
+KLU|LOWK|Klagenfurt Airport|Klagenfurt|Austria|46.6425|14.3377|Europe/Vienna|1
+HFT|ENHF|Hammerfest Airport|Hammerfest|Norway|70.6797|23.6686|Europe/Oslo|1
+HVG|ENHV|Valan Airport|Honningsvag|Norway|71.0097|25.9836|Europe/Oslo|1
+MEH|ENMH|Mehamn Airport|Mehamn|Norway|71.0297|27.8267|Europe/Oslo|1
+VDS|ENVD|Vadsø Airport|Vadsø|Norway|70.0653|29.8447|Europe/Oslo|1
+IKA|OIIE|Imam Khomeini International Airport|Tehran|Iran|35.4161|51.1522|Asia/Tehran|3.5
+MHD|OIMM|Mashhad International Airport|Mashhad|Iran|36.2352|59.641|Asia/Tehran|3.5
+UIK|UIBS|Ust-Ilimsk Airport|Ust Ilimsk|Russia|58.1361|102.565|Asia/Irkutsk|8
+MEI|KMEI|Key Field|Meridian|United States|32.3326|-88.7519|America/Chicago|-6
+SPI|KSPI|Abraham Lincoln Capital Airport|Springfield|United States|39.8441|-89.6779|America/Chicago|-6
+CEZ|KCEZ|Cortez Municipal Airport|Cortez|United States|37.303|-108.628|America/Denver|-7
+HDN|KHDN|Yampa Valley Airport|Hayden|United States|40.4812|-107.218|America/Denver|-7
+GUP|KGUP|Gallup Municipal Airport|Gallup|United States|35.5111|-108.789|America/Denver|-7
+LBL|KLBL|Liberal Mid-America Regional Airport|Liberal|United States|37.0442|-100.96|America/Chicago|-6
+LAA|KLAA|Lamar Municipal Airport|Lamar|United States|38.0697|-102.688|America/Denver|-7
+GLD|KGLD|Renner Field-Goodland Municipal Airport|Goodland|United States|39.3706|-101.699|America/Denver|-7
+COD|KCOD|Yellowstone Regional Airport|Cody|United States|44.5202|-109.024|America/Denver|-7
+HOV|ENOV|Ørsta-Volda Airport, Hovden|Orsta-Volda|Norway|62.18|6.0741|Europe/Oslo|1
+ISC|EGHE|St. Mary's Airport|ST MARY'S|United Kingdom|49.9133|-6.2917|Europe/London|0
+SGF|KSGF|Springfield Branson National Airport|Springfield|United States|37.2457|-93.3886|America/Chicago|-6
+NVK|ENNK|Narvik Framnes Airport|Narvik|Norway|68.4369|17.3867|Europe/Oslo|1
+BVG|ENBV|Berlevåg Airport|Berlevag|Norway|70.8714|29.0342|Europe/Oslo|1
+FBU|ENFB|Oslo, Fornebu Airport|Oslo|Norway|59.8958|10.6172|Europe/Oslo|1
+NSK|UOOO|Norilsk-Alykel Airport|Norilsk|Russia|69.3111|87.3322|Asia/Krasnoyarsk|7
+AAQ|URKA|Anapa Vityazevo Airport|Anapa|Russia|45.0021|37.3473|Europe/Moscow|3
+JLN|KJLN|Joplin Regional Airport|Joplin|United States|37.1518|-94.4983|America/Chicago|-6
+ABE|KABE|Lehigh Valley International Airport|Allentown|United States|40.6521|-75.4408|America/New_York|-5
+XNA|KXNA|Northwest Arkansas Regional Airport|Bentonville|United States|36.2819|-94.3068|America/Chicago|-6
+GUW|UATG|Atyrau Airport|Atyrau|Kazakhstan|47.1219|51.8214|Asia/Oral|5
+KZO|UAOO|Kzyl-Orda Southwest Airport|Kzyl-Orda|Kazakhstan|44.7069|65.5925|Asia/Qyzylorda|6
+SBN|KSBN|South Bend Regional Airport|South Bend|United States|41.7087|-86.3173|America/New_York|-5
+BKA|UUBB|Bykovo Airport|Moscow|Russia|55.6172|38.06|Europe/Moscow|3
+ARH|ULAA|Talagi Airport|Arkhangelsk|Russia|64.6003|40.7167|Europe/Moscow|3
+RTW|UWSS|Saratov Central Airport|Saratov|Russia|51.565|46.0467|Europe/Moscow|3
+NUX|USMU|Novy Urengoy Airport|Novy Urengoy|Russia|66.0694|76.5203|Asia/Yekaterinburg|5
+NOJ|USRO|Noyabrsk Airport|Noyabrsk|Russia|63.1833|75.27|Asia/Yekaterinburg|5
+SCO|UATE|Aktau Airport|Aktau|Kazakhstan|43.8601|51.092|Asia/Oral|5
+UCT|UUYH|Ukhta Airport|Ukhta|Russia|63.5669|53.8047|Europe/Moscow|3
+USK|UUYS|Usinsk Airport|Usinsk|Russia|66.0047|57.3672|Europe/Moscow|3
+PEX|UUYP|Pechora Airport|Pechora|Russia|65.1211|57.1308|Europe/Moscow|3
+NNM|ULAM|Naryan Mar Airport|Naryan-Mar|Russia|67.64|53.1219|Europe/Moscow|3
+PKV|ULOO|Pskov Airport|Pskov|Russia|57.7839|28.3956|Europe/Moscow|3
+KGP|USRK|Kogalym International Airport|Kogalym|Russia|62.1904|74.5338|Asia/Yekaterinburg|5
+KJA|UNKL|Yemelyanovo Airport|Krasnoyarsk|Russia|56.1729|92.4933|Asia/Krasnoyarsk|7
+KGF|UAKK|Sary-Arka Airport|Karaganda|Kazakhstan|49.6708|73.3344|Asia/Qyzylorda|6
+URJ|USHU|Uray Airport|Uraj|Russia|60.1033|64.8267|Asia/Yekaterinburg|5
+IWA|UUBI|Ivanovo South Airport|Ivanovo|Russia|56.9394|40.9408|Europe/Moscow|3
+CGQ|ZYCC|Longjia Airport|Changchun|China|43.9962|125.685|Asia/Shanghai|8
+KIJ|RJSN|Niigata Airport|Niigata|Japan|37.9559|139.121|Asia/Tokyo|9
+JON|PJON|Johnston Atoll Airport|Johnston Island|Johnston Atoll|16.7286|-169.534|Pacific/Johnston|-10
+SMD|KSMD|Smith Field|Fort Wayne IN|United States|41.1434|-85.1528|America/New_York|-5
+ACV|KACV|California Redwood Coast-Humboldt County Airport|Arcata CA|United States|40.9781|-124.109|America/Los_Angeles|-8
+OAJ|KOAJ|Albert J Ellis Airport|Jacksonville NC|United States|34.8292|-77.6121|America/New_York|-5
+TCL|KTCL|Tuscaloosa Regional Airport|Tuscaloosa AL|United States|33.2206|-87.6114|America/Chicago|-6
+DBQ|KDBQ|Dubuque Regional Airport|Dubuque IA|United States|42.402|-90.7095|America/Chicago|-6
+HHP|VHST|Shun Tak Heliport|Hong Kong|Hong Kong|22.2894|114.1522|Asia/Hong_Kong|8
+ATD|AGAT|Uru Harbour Airport|Atoifi|Solomon Islands|-8.8733|161.011|Pacific/Guadalcanal|11
+AKS|AGGA|Gwaunaru'u Airport|Auki|Solomon Islands|-8.7026|160.682|Pacific/Guadalcanal|11
+BAS|AGGE|Ballalae Airport|Ballalae|Solomon Islands|-6.9907|155.8867|Pacific/Guadalcanal|11
+FRE|AGGF|Fera/Maringe Airport|Fera Island|Solomon Islands|-8.1075|159.577|Pacific/Guadalcanal|11
+MBU|AGGI|Babanakira Airport|Mbambanakira|Solomon Islands|-9.7475|159.839|Pacific/Guadalcanal|11
+IRA|AGGK|Ngorangora Airport|Kirakira|Solomon Islands|-10.4497|161.898|Pacific/Guadalcanal|11
+SCZ|AGGL|Santa Cruz/Graciosa Bay/Luova Airport|Santa Cruz/Graciosa Bay/Luova|Solomon Islands|-10.7203|165.795|Pacific/Guadalcanal|11
+MUA|AGGM|Munda Airport|Munda|Solomon Islands|-8.328|157.263|Pacific/Guadalcanal|11
+GZO|AGGN|Nusatupe Airport|Gizo|Solomon Islands|-8.0978|156.864|Pacific/Guadalcanal|11
+MNY|AGGO|Mono Airport|Stirling Island|Solomon Islands|-7.4169|155.565|Pacific/Guadalcanal|11
+RNL|AGGR|Rennell/Tingoa Airport|Rennell Island|Solomon Islands|-11.5339|160.063|Pacific/Guadalcanal|11
+RUS|AGGU|Marau Airport|Marau|Solomon Islands|-9.8617|160.825|Pacific/Guadalcanal|11
+VAO|AGGV|Suavanao Airport|Suavanao|Solomon Islands|-7.5856|158.731|Pacific/Guadalcanal|11
+KGE|AGKG|Kaghau Airport|Kagau Island|Solomon Islands|-7.3305|157.585|Pacific/Guadalcanal|11
+RBV|AGRM|Ramata Airport|Ramata|Solomon Islands|-8.1681|157.643|Pacific/Guadalcanal|11
+BUA|AYBK|Buka Airport|Buka Island|Papua New Guinea|-5.4223|154.673|Pacific/Port_Moresby|10
+CMU|AYCH|Chimbu Airport|Kundiawa|Papua New Guinea|-6.0243|144.971|Pacific/Port_Moresby|10
+DAU|AYDU|Daru Airport|Daru|Papua New Guinea|-9.0868|143.208|Pacific/Port_Moresby|10
+GUR|AYGN|Gurney Airport|Gurney|Papua New Guinea|-10.3115|150.334|Pacific/Port_Moresby|10
+PNP|AYGR|Girua Airport|Girua|Papua New Guinea|-8.8045|148.309|Pacific/Port_Moresby|10
+HKN|AYHK|Kimbe Airport|Hoskins|Papua New Guinea|-5.4622|150.405|Pacific/Port_Moresby|10
+UNG|AYKI|Kiunga Airport|Kiunga|Papua New Guinea|-6.1257|141.282|Pacific/Port_Moresby|10
+KRI|AYKK|Kikori Airport|Kikori|Papua New Guinea|-7.4244|144.2501|Pacific/Port_Moresby|10
+KMA|AYKM|Kerema Airport|Kerema|Papua New Guinea|-7.9636|145.771|Pacific/Port_Moresby|10
+KVG|AYKV|Kavieng Airport|Kavieng|Papua New Guinea|-2.5794|150.808|Pacific/Port_Moresby|10
+MDU|AYMN|Mendi Airport|Mendi|Papua New Guinea|-6.1477|143.657|Pacific/Port_Moresby|10
+MAS|AYMO|Momote Airport|Momote|Papua New Guinea|-2.0619|147.424|Pacific/Port_Moresby|10
+MXH|AYMR|Moro Airport|Moro|Papua New Guinea|-6.3633|143.238|Pacific/Port_Moresby|10
+MIS|AYMS|Misima Island Airport|Misima Island|Papua New Guinea|-10.6892|152.838|Pacific/Port_Moresby|10
+TIZ|AYTA|Tari Airport|Tari|Papua New Guinea|-5.845|142.948|Pacific/Port_Moresby|10
+TBG|AYTB|Tabubil Airport|Tabubil|Papua New Guinea|-5.2786|141.226|Pacific/Port_Moresby|10
+RAB|AYTK|Tokua Airport|Tokua|Papua New Guinea|-4.3405|152.38|Pacific/Port_Moresby|10
+VAI|AYVN|Vanimo Airport|Vanimo|Papua New Guinea|-2.6926|141.3028|Pacific/Port_Moresby|10
+WBM|AYWD|Wapenamanda Airport|Wapenamanda|Papua New Guinea|-5.6433|143.895|Pacific/Port_Moresby|10
+LLU|BGAP|Alluitsup Paa Heliport|Alluitsup Paa|Greenland|60.4644|-45.5692|America/Godthab|-3
+CNP|BGCO|Neerlerit Inaat Airport|Neerlerit Inaat|Greenland|70.7431|-22.6505|America/Scoresbysund|-1
+JFR|BGFH|Paamiut Heliport|Paamiut|Greenland|61.9922|-49.6625|America/Godthab|-3
+JGO|BGGN|Qeqertarsuaq Heliport|Qeqertarsuaq Airport|Greenland|69.2512|-53.5149|America/Godthab|-3
+JJU|BGJH|Qaqortoq Heliport|Qaqortoq|Greenland|60.7157|-46.0299|America/Godthab|-3
+JSU|BGMQ|Maniitsoq Airport|Maniitsoq|Greenland|65.4125|-52.9394|America/Godthab|-3
+JNN|BGNN|Nanortalik Heliport|Nanortalik|Greenland|60.1419|-45.233|America/Godthab|-3
+JNS|BGNS|Narsaq Heliport|Narsaq|Greenland|60.9173|-46.0599|America/Godthab|-3
+NAQ|BGQQ|Qaanaaq Airport|Qaanaaq|Greenland|77.4886|-69.3887|America/Thule|-4
+JHS|BGSS|Sisimiut Airport|Sisimiut|Greenland|66.9513|-53.7293|America/Godthab|-3
+JUV|BGUK|Upernavik Airport|Upernavik|Greenland|72.7902|-56.1306|America/Godthab|-3
+JQA|BGUQ|Qaarsut Airport|Uummannaq|Greenland|70.7342|-52.6962|America/Godthab|-3
+GRY|BIGR|Grímsey Airport|Grímsey|Iceland|66.5458|-18.0173|Atlantic/Reykjavik|0
+THO|BITN|Thorshofn Airport|Thorshofn|Iceland|66.2185|-15.3356|Atlantic/Reykjavik|0
+VPN|BIVO|Vopnafjörður Airport|Vopnafjörður|Iceland|65.7206|-14.8506|Atlantic/Reykjavik|0
+YWS|CAE5|Whistler/Green Lake Water Aerodrome|Whistler|Canada|50.1436|-122.949|America/Vancouver|-8
+YAA|CAJ4|Anahim Lake Airport|Anahim Lake|Canada|52.4525|-125.303|America/Vancouver|-8
+YWM|CCA6|Williams Harbour Airport|Williams Harbour|Canada|52.5669|-55.7847|America/St_Johns|-3.5
+YFX|CCK4|St. Lewis (Fox Harbour) Airport|St. Lewis|Canada|52.3728|-55.6739|America/St_Johns|-3.5
+YHA|CCP4|Port Hope Simpson Airport|Port Hope Simpson|Canada|52.5281|-56.2861|America/St_Johns|-3.5
+YRG|CCZ2|Rigolet Airport|Rigolet|Canada|54.1797|-58.4575|America/Halifax|-4
+YCK|CEB3|Colville Lake Airport|Colville Lake|Canada|67.0392|-126.08|America/Edmonton|-7
+YLE|CEM3|Whatì Airport|Whatì|Canada|63.1317|-117.246|America/Edmonton|-7
+SUR|CJV7|Summer Beaver Airport|Summer Beaver|Canada|52.7086|-88.5419|America/Toronto|-5
+YAX|CKB6|Wapekeka Airport|Angling Lake|Canada|53.8492|-89.5794|America/Winnipeg|-6
+WNN|CKL3|Wunnumin Lake Airport|Wunnumin Lake|Canada|52.8939|-89.2892|America/Toronto|-5
+YNO|CKQ3|North Spirit Lake Airport|North Spirit Lake|Canada|52.49|-92.9711|America/Winnipeg|-6
+XBE|CNE3|Bearskin Lake Airport|Bearskin Lake|Canada|53.9656|-91.0272|America/Winnipeg|-6
+KIF|CNM5|Kingfisher Lake Airport|Kingfisher Lake|Canada|53.0125|-89.8553|America/Toronto|-5
+YOG|CNT3|Ogoki Post Airport|Ogoki Post|Canada|51.6586|-85.9017|America/Toronto|-5
+YHP|CPV7|Poplar Hill Airport|Poplar Hill|Canada|52.1133|-94.2556|America/Winnipeg|-6
+YKU|CSU2|Chisasibi Airport|Chisasibi|Canada|53.8056|-78.9169|America/Toronto|-5
+ZTB|CTB6|Tête-à-la-Baleine Airport|Tête-à-la-Baleine|Canada|50.6744|-59.3836|America/Blanc-Sablon|-4
+ZLT|CTU5|La Tabatière Airport|La Tabatière|Canada|50.8308|-58.9756|America/Blanc-Sablon|-4
+YAC|CYAC|Cat Lake Airport|Cat Lake|Canada|51.7272|-91.8244|America/Winnipeg|-6
+YAG|CYAG|Fort Frances Municipal Airport|Fort Frances|Canada|48.6542|-93.4397|America/Winnipeg|-6
+XKS|CYAQ|Kasabonika Airport|Kasabonika|Canada|53.5247|-88.6428|America/Toronto|-5
+YKG|CYAS|Kangirsuk Airport|Kangirsuk|Canada|60.0272|-69.9992|America/Toronto|-5
+YAT|CYAT|Attawapiskat Airport|Attawapiskat|Canada|52.9275|-82.4319|America/Toronto|-5
+YBE|CYBE|Uranium City Airport|Uranium City|Canada|59.5614|-108.481|America/Regina|-6
+YBX|CYBX|Lourdes de Blanc Sablon Airport|Lourdes-De-Blanc-Sablon|Canada|51.4436|-57.1853|America/Blanc-Sablon|-4
+YRF|CYCA|Cartwright Airport|Cartwright|Canada|53.6828|-57.0419|America/Halifax|-4
+YCS|CYCS|Chesterfield Inlet Airport|Chesterfield Inlet|Canada|63.3469|-90.7311|America/Winnipeg|-6
+YDP|CYDP|Nain Airport|Nain|Canada|56.5492|-61.6803|America/Halifax|-4
+YER|CYER|Fort Severn Airport|Fort Severn|Canada|56.0189|-87.6761|America/Toronto|-5
+YFA|CYFA|Fort Albany Airport|Fort Albany|Canada|52.2014|-81.6969|America/Toronto|-5
+YFH|CYFH|Fort Hope Airport|Fort Hope|Canada|51.5619|-87.9078|America/Toronto|-5
+YMN|CYFT|Makkovik Airport|Makkovik|Canada|55.0769|-59.1864|America/Halifax|-4
+YGB|CYGB|Texada Gillies Bay Airport|Texada|Canada|49.6942|-124.518|America/Vancouver|-8
+YGO|CYGO|Gods Lake Narrows Airport|Gods Lake Narrows|Canada|54.5589|-94.4914|America/Winnipeg|-6
+YGT|CYGT|Igloolik Airport|Igloolik|Canada|69.3647|-81.8161|America/Toronto|-5
+YGW|CYGW|Kuujjuarapik Airport|Kuujjuarapik|Canada|55.2819|-77.7653|America/Toronto|-5
+YGX|CYGX|Gillam Airport|Gillam|Canada|56.3575|-94.7106|America/Winnipeg|-6
+YGZ|CYGZ|Grise Fiord Airport|Grise Fiord|Canada|76.4261|-82.9092|America/Toronto|-5
+YQC|CYHA|Quaqtaq Airport|Quaqtaq|Canada|61.0464|-69.6178|America/Toronto|-5
+CXH|CYHC|Vancouver Harbour Water Aerodrome|Vancouver|Canada|49.2944|-123.111|America/Vancouver|-8
+YNS|CYHH|Nemiscau Airport|Nemiscau|Canada|51.6911|-76.1356|America/Toronto|-5
+YHO|CYHO|Hopedale Airport|Hopedale|Canada|55.4483|-60.2286|America/Halifax|-4
+YHR|CYHR|Chevery Airport|Chevery|Canada|50.4689|-59.6367|America/Blanc-Sablon|-4
+YIK|CYIK|Ivujivik Airport|Ivujivik|Canada|62.4173|-77.9253|America/Toronto|-5
+YIV|CYIV|Island Lake Airport|Island Lake|Canada|53.8572|-94.6536|America/Winnipeg|-6
+AKV|CYKO|Akulivik Airport|Akulivik|Canada|60.8186|-78.1486|America/Toronto|-5
+YKQ|CYKQ|Waskaganish Airport|Waskaganish|Canada|51.4733|-78.7583|America/Toronto|-5
+YPJ|CYLA|Aupaluk Airport|Aupaluk|Canada|59.2967|-69.5997|America/Toronto|-5
+YLC|CYLC|Kimmirut Airport|Kimmirut|Canada|62.85|-69.8833|America/Toronto|-5
+YLH|CYLH|Lansdowne House Airport|Lansdowne House|Canada|52.1956|-87.9342|America/Toronto|-5
+XGR|CYLU|Kangiqsualujjuaq (Georges River) Airport|Kangiqsualujjuaq|Canada|58.7114|-65.9928|America/Toronto|-5
+YMH|CYMH|Mary's Harbour Airport|Mary's Harbour|Canada|52.3028|-55.8472|America/St_Johns|-3.5
+YMT|CYMT|Chapais Airport|Chibougamau|Canada|49.7719|-74.5281|America/Toronto|-5
+YUD|CYMU|Umiujaq Airport|Umiujaq|Canada|56.5361|-76.5183|America/Toronto|-5
+YNC|CYNC|Wemindji Airport|Wemindji|Canada|53.0106|-78.8311|America/Toronto|-5
+YNE|CYNE|Norway House Airport|Norway House|Canada|53.9583|-97.8442|America/Winnipeg|-6
+YNL|CYNL|Points North Landing Airport|Points North Landing|Canada|58.2767|-104.082|America/Regina|-6
+YOH|CYOH|Oxford House Airport|Oxford House|Canada|54.9333|-95.2789|America/Winnipeg|-6
+YPH|CYPH|Inukjuak Airport|Inukjuak|Canada|58.4719|-78.0769|America/Toronto|-5
+YPM|CYPM|Pikangikum Airport|Pikangikum|Canada|51.8197|-93.9733|America/Winnipeg|-6
+YPO|CYPO|Peawanuck Airport|Peawanuck|Canada|54.9881|-85.4433|America/Toronto|-5
+YPW|CYPW|Powell River Airport|Powell River|Canada|49.8342|-124.5|America/Vancouver|-8
+YQD|CYQD|The Pas Airport|The Pas|Canada|53.9714|-101.091|America/Winnipeg|-6
+YQN|CYQN|Nakina Airport|Nakina|Canada|50.1828|-86.6964|America/Toronto|-5
+YRA|CYRA|Rae Lakes Airport|Gamètì|Canada|64.1161|-117.31|America/Edmonton|-7
+YRL|CYRL|Red Lake Airport|Red Lake|Canada|51.0669|-93.7931|America/Winnipeg|-6
+YSF|CYSF|Stony Rapids Airport|Stony Rapids|Canada|59.2503|-105.841|America/Regina|-6
+YSK|CYSK|Sanikiluaq Airport|Sanikiluaq|Canada|56.5378|-79.2467||-5
+YST|CYST|St. Theresa Point Airport|St. Theresa Point|Canada|53.8456|-94.8519|America/Winnipeg|-6
+YTL|CYTL|Big Trout Lake Airport|Big Trout Lake|Canada|53.8178|-89.8969|America/Winnipeg|-6
+YVZ|CYVZ|Deer Lake Airport|Deer Lake|Canada|52.6558|-94.0614|America/Winnipeg|-6
+YWP|CYWP|Webequie Airport|Webequie|Canada|52.9594|-87.3749|America/Toronto|-5
+YXN|CYXN|Whale Cove Airport|Whale Cove|Canada|62.24|-92.5981|America/Winnipeg|-6
+YZG|CYZG|Salluit Airport|Salluit|Canada|62.1794|-75.6672|America/Toronto|-5
+ZAC|CZAC|York Landing Airport|York Landing|Canada|56.0894|-96.0892|America/Winnipeg|-6
+ILF|CZBD|Ilford Airport|Ilford|Canada|56.0614|-95.6139|America/Winnipeg|-6
+ZBF|CZBF|Bathurst Airport|Bathurst|Canada|47.6297|-65.7389|America/Halifax|-4
+ZEM|CZEM|Eastmain River Airport|Eastmain River|Canada|52.2264|-78.5225|America/Toronto|-5
+ZFD|CZFD|Fond-Du-Lac Airport|Fond-Du-Lac|Canada|59.3344|-107.182|America/Regina|-6
+ZGI|CZGI|Gods River Airport|Gods River|Canada|54.8397|-94.0786|America/Winnipeg|-6
+ZJN|CZJN|Swan River Airport|Swan River|Canada|52.1206|-101.236|America/Winnipeg|-6
+ZKE|CZKE|Kashechewan Airport|Kashechewan|Canada|52.2825|-81.6778|America/Toronto|-5
+MSA|CZMD|Muskrat Dam Airport|Muskrat Dam|Canada|53.4414|-91.7628|America/Winnipeg|-6
+ZMT|CZMT|Masset Airport|Masset|Canada|54.0275|-132.125|America/Vancouver|-8
+ZPB|CZPB|Sachigo Lake Airport|Sachigo Lake|Canada|53.8911|-92.1964|America/Winnipeg|-6
+ZRJ|CZRJ|Round Lake (Weagamow Lake) Airport|Round Lake|Canada|52.9436|-91.3128|America/Winnipeg|-6
+ZSJ|CZSJ|Sandy Lake Airport|Sandy Lake|Canada|53.0642|-93.3444|America/Winnipeg|-6
+ZTM|CZTM|Shamattawa Airport|Shamattawa|Canada|55.8656|-92.0814|America/Winnipeg|-6
+ZUM|CZUM|Churchill Falls Airport|Churchill Falls|Canada|53.5619|-64.1064|America/Halifax|-4
+ZWL|CZWL|Wollaston Lake Airport|Wollaston Lake|Canada|58.1069|-103.172|America/Regina|-6
+BLJ|DABT|Batna Airport|Batna|Algeria|35.7521|6.3086|Africa/Algiers|1
+CBH|DAOR|Béchar Boudghene Ben Ali Lotfi Airport|Béchar|Algeria|31.6457|-2.2699|Africa/Algiers|1
+BMW|DATM|Bordj Badji Mokhtar Airport|Bordj Badji Mokhtar|Algeria|21.375|0.9239|Africa/Algiers|1
+ELU|DAUO|Guemar Airport|Guemar|Algeria|33.5114|6.7768|Africa/Algiers|1
+KMS|DGSI|Kumasi Airport|Kumasi|Ghana|6.7146|-1.5908|Africa/Accra|0
+HDF|EDAH|Heringsdorf Airport|Heringsdorf|Germany|53.8787|14.1523|Europe/Berlin|1
+HEI|EDXB|Heide-Büsum Airport|Büsum|Germany|54.1533|8.9017|Europe/Berlin|1
+HGL|EDXH|Helgoland-Düne Airport|Helgoland|Germany|54.1853|7.9158|Europe/Berlin|1
+SJY|EFSI|Seinäjoki Airport|Seinäjoki / Ilmajoki|Finland|62.6921|22.8323|Europe/Helsinki|2
+NQT|EGBN|Nottingham Airport|Nottingham|United Kingdom|52.92|-1.0792|Europe/London|0
+DSA|EGCN|Robin Hood Doncaster Sheffield Airport|Doncaster, Sheffield|United Kingdom|53.4805|-1.0107|Europe/London|0
+CAL|EGEC|Campbeltown Airport|Campbeltown|United Kingdom|55.4372|-5.6864|Europe/London|0
+EOI|EGED|Eday Airport|Eday|United Kingdom|59.1906|-2.7722|Europe/London|0
+FIE|EGEF|Fair Isle Airport|Fair Isle|United Kingdom|59.5358|-1.6281|Europe/London|0
+NRL|EGEN|North Ronaldsay Airport|North Ronaldsay|United Kingdom|59.3675|-2.4344|Europe/London|0
+PPW|EGEP|Papa Westray Airport|Papa Westray|United Kingdom|59.3517|-2.9003|Europe/London|0
+SOY|EGER|Stronsay Airport|Stronsay|United Kingdom|59.1553|-2.6414|Europe/London|0
+NDY|EGES|Sanday Airport|Sanday|United Kingdom|59.2503|-2.5767|Europe/London|0
+LWK|EGET|Lerwick / Tingwall Airport|Lerwick|United Kingdom|60.1922|-1.2436|Europe/London|0
+WRY|EGEW|Westray Airport|Westray|United Kingdom|59.3503|-2.95|Europe/London|0
+LEQ|EGHC|Land's End Airport|Land's End|United Kingdom|50.1028|-5.6706|Europe/London|0
+PZE|EGHK|Penzance Heliport|Penzance|United Kingdom|50.1281|-5.5184|Europe/London|0
+VLY|EGOV|Anglesey Airport|Angelsey|United Kingdom|53.2481|-4.5353|Europe/London|0
+BRR|EGPR|Barra Airport|Barra|United Kingdom|57.0228|-7.4431|Europe/London|0
+CFN|EIDL|Donegal Airport|Dongloe|Ireland|55.0442|-8.341|Europe/Dublin|0
+CNL|EKSN|Sindal Airport|Sindal|Denmark|57.5035|10.2294|Europe/Copenhagen|1
+LKN|ENLK|Leknes Airport|Leknes|Norway|68.1525|13.6094|Europe/Oslo|1
+OSY|ENNM|Namsos Høknesøra Airport|Namsos|Norway|64.4722|11.5786|Europe/Oslo|1
+MQN|ENRA|Mo i Rana Airport, Røssvoll|Mo i Rana|Norway|66.3639|14.3014|Europe/Oslo|1
+RVK|ENRM|Rørvik Airport, Ryum|Rørvik|Norway|64.8383|11.1461|Europe/Oslo|1
+RET|ENRS|Røst Airport|Røst|Norway|67.5278|12.1033|Europe/Oslo|1
+SDN|ENSD|Sandane Airport (Anda)|Sandane|Norway|61.83|6.1058|Europe/Oslo|1
+SOG|ENSG|Sogndal Airport|Sogndal|Norway|61.1561|7.1378|Europe/Oslo|1
+SVJ|ENSH|Svolvær Helle Airport|Svolvær|Norway|68.2433|14.6692|Europe/Oslo|1
+SOJ|ENSR|Sørkjosen Airport|Sorkjosen|Norway|69.7868|20.9594|Europe/Oslo|1
+VAW|ENSS|Vardø Airport, Svartnes|Vardø|Norway|70.3554|31.0449|Europe/Oslo|1
+VRY|ENVR|Værøy Heliport|Værøy|Norway|67.6546|12.7273|Europe/Oslo|1
+BZG|EPBY|Bydgoszcz Ignacy Jan Paderewski Airport|Bydgoszcz|Poland|53.0968|17.9777|Europe/Warsaw|1
+LCJ|EPLL|Łódź Władysław Reymont Airport|Lodz|Poland|51.7219|19.3981|Europe/Warsaw|1
+OSD|ESNZ|Åre Östersund Airport|Östersund|Sweden|63.1944|14.5003|Europe/Stockholm|1
+HFS|ESOH|Hagfors Airport|Hagfors|Sweden|60.0201|13.5789|Europe/Stockholm|1
+KSD|ESOK|Karlstad Airport|Karlstad|Sweden|59.4447|13.3374|Europe/Stockholm|1
+TYF|ESST|Torsby Airport|Torsby|Sweden|60.1576|12.9913|Europe/Stockholm|1
+AGH|ESTA|Ängelholm-Helsingborg Airport|Ängelholm|Sweden|56.2961|12.8471|Europe/Stockholm|1
+SQO|ESUD|Storuman Airport|Mohed|Sweden|64.9609|17.6966|Europe/Stockholm|1
+HMV|ESUT|Hemavan Airport|Hemavan|Sweden|65.8061|15.0828|Europe/Stockholm|1
+VNT|EVVA|Ventspils International Airport|Ventspils|Latvia|57.3578|21.5442|Europe/Riga|2
+QRA|FAGM|Rand Airport|Johannesburg|South Africa|-26.2425|28.1512|Africa/Johannesburg|2
+MQP|FAKN|Kruger Mpumalanga International Airport|Mpumalanga|South Africa|-25.3832|31.1056|Africa/Johannesburg|2
+AAM|FAMD|Malamala Airport|Malamala|South Africa|-24.8181|31.5446|Africa/Johannesburg|2
+MBD|FAMM|Mmabatho International Airport|Mafeking|South Africa|-25.7984|25.548|Africa/Johannesburg|2
+GNZ|FBGZ|Ghanzi Airport|Ghanzi|Botswana|-21.6925|21.6581|Africa/Gaborone|2
+ORP|FBOR|Orapa Airport|Orapa|Botswana|-21.2667|25.3167|Africa/Gaborone|2
+SWX|FBSW|Shakawe Airport|Shakawe|Botswana|-18.3739|21.8326|Africa/Gaborone|2
+TLD|FBTL|Limpopo Valley Airport|Tuli Lodge|Botswana|-22.1892|29.1269|Africa/Gaborone|2
+DIS|FCPL|Ngot Nzoungou Airport|Loubomo|Congo (Brazzaville)|-4.2063|12.6599|Africa/Brazzaville|1
+CIP|FLCP|Chipata Airport|Chipata|Zambia|-13.5583|32.5872|Africa/Lusaka|2
+YVA|FMCN|Iconi Airport|Moroni|Comoros|-11.7108|43.2439|Indian/Comoro|3
+WAQ|FMMG|Antsalova Airport|Antsalova|Madagascar|-18.7013|44.6149|Indian/Antananarivo|3
+JVA|FMMK|Ankavandra Airport|Ankavandra|Madagascar|-18.805|45.2735|Indian/Antananarivo|3
+BMD|FMML|Belo sur Tsiribihina Airport|Belo sur Tsiribihina|Madagascar|-19.6867|44.5419|Indian/Antananarivo|3
+MXT|FMMO|Maintirano Airport|Maintirano|Madagascar|-18.05|44.033|Indian/Antananarivo|3
+TVA|FMMR|Morafenobe Airport|Morafenobe|Madagascar|-17.8501|44.9205|Indian/Antananarivo|3
+WTA|FMMU|Tambohorano Airport|Tambohorano|Madagascar|-17.4761|43.9728|Indian/Antananarivo|3
+WTS|FMMX|Tsiroanomandidy Airport|Tsiroanomandidy|Madagascar|-18.7597|46.0541|Indian/Antananarivo|3
+WAM|FMMZ|Ambatondrazaka Airport|Ambatondrazaka|Madagascar|-17.7954|48.4426|Indian/Antananarivo|3
+WPB|FMNG|Port Bergé Airport|Port Bergé|Madagascar|-15.5843|47.6236|Indian/Antananarivo|3
+DWB|FMNO|Soalala Airport|Soalala|Madagascar|-16.1017|45.3588|Indian/Antananarivo|3
+WMP|FMNP|Mampikony Airport|Mampikony|Madagascar|-16.0723|47.6442|Indian/Antananarivo|3
+WMA|FMNX|Mandritsara Airport|Mandritsara|Madagascar|-15.833|48.8333|Indian/Antananarivo|3
+MJA|FMSJ|Manja Airport|Manja|Madagascar|-21.4261|44.3165|Indian/Antananarivo|3
+CBT|FNCT|Catumbela Airport|Catumbela|Angola|-12.4792|13.4869|Africa/Luanda|1
+DUE|FNDU|Dundo Airport|Dundo|Angola|-7.4009|20.8185|Africa/Luanda|1
+VPE|FNGI|Ngjiva Pereira Airport|Ondjiva|Angola|-17.0435|15.6838|Africa/Luanda|1
+MSZ|FNMO|Namibe Airport|Mocamedes|Angola|-15.2612|12.1468|Africa/Luanda|1
+KOU|FOGK|Koulamoutou Mabimbi Airport|Koulamoutou|Gabon|-1.1846|12.4413|Africa/Libreville|1
+MJL|FOGM|Mouilla Ville Airport|Mouila|Gabon|-1.8451|11.0567|Africa/Libreville|1
+TCH|FOOT|Tchibanga Airport|Tchibanga|Gabon|-2.85|11.017|Africa/Libreville|1
+VPY|FQCH|Chimoio Airport|Chimoio|Mozambique|-19.1513|33.429|Africa/Maputo|2
+SRH|FTTA|Sarh Airport|Sarh|Chad|9.1444|18.3744|Africa/Ndjamena|1
+CMK|FWCM|Club Makokola Airport|Club Makokola|Malawi|-14.3069|35.1325|Africa/Blantyre|2
+LUD|FYLZ|Luderitz Airport|Luderitz|Namibia|-26.6874|15.2429|Africa/Windhoek|1
+OND|FYOA|Ondangwa Airport|Ondangwa|Namibia|-17.8782|15.9526|Africa/Windhoek|1
+OMD|FYOG|Oranjemund Airport|Oranjemund|Namibia|-28.5847|16.4467|Africa/Windhoek|1
+SWP|FYSM|Swakopmund Airport|Swakopmund|Namibia|-22.6619|14.5681|Africa/Windhoek|1
+ERS|FYWE|Eros Airport|Windhoek|Namibia|-22.6122|17.0804|Africa/Windhoek|1
+BOA|FZAJ|Boma Airport|Boma|Congo (Kinshasa)|-5.854|13.064|Africa/Kinshasa|1
+MAT|FZAM|Tshimpi Airport|Matadi|Congo (Kinshasa)|-5.7996|13.4404|Africa/Kinshasa|1
+INO|FZBA|Inongo Airport|Inongo|Congo (Kinshasa)|-1.9472|18.2858|Africa/Kinshasa|1
+NIO|FZBI|Nioki Airport|Nioki|Congo (Kinshasa)|-2.7175|17.6847|Africa/Kinshasa|1
+KRZ|FZBT|Basango Mboliasa Airport|Kiri|Congo (Kinshasa)|-1.435|19.024|Africa/Kinshasa|1
+BSU|FZEN|Basankusu Airport|Basankusu|Congo (Kinshasa)|1.2247|19.7889|Africa/Kinshasa|1
+TSH|FZUK|Tshikapa Airport|Tshikapa|Congo (Kinshasa)|-6.4383|20.7947|Africa/Lubumbashi|2
+LJA|FZVA|Lodja Airport|Lodja|Congo (Kinshasa)|-3.417|23.45|Africa/Lubumbashi|2
+PFR|FZVS|Ilebo Airport|Ilebo|Congo (Kinshasa)|-4.3299|20.5901|Africa/Lubumbashi|2
+OUK|EGOU|Outer Skerries Airport|Outer Skerries|United Kingdom|60.4252|-0.75|Europe/London|0
+GMZ|GCGM|La Gomera Airport|La Gomera|Spain|28.0296|-17.2146|Atlantic/Canary|0
+BTE|GFBN|Sherbro International Airport|Bonthe|Sierra Leone|7.5324|-12.5189|Africa/Freetown|0
+KBS|GFBO|Bo Airport|Bo|Sierra Leone|7.9444|-11.761|Africa/Freetown|0
+KEN|GFKE|Kenema Airport|Kenema|Sierra Leone|7.8913|-11.1766|Africa/Freetown|0
+OXB|GGOV|Osvaldo Vieira International Airport|Bissau|Guinea-Bissau|11.8948|-15.6537|Africa/Bissau|0
+SMW|GMMA|Smara Airport|Smara|Western Sahara|26.7318|-11.6847|Africa/El_Aaiun|0
+VIL|GMMH|Dakhla Airport|Dakhla|Western Sahara|23.7183|-15.932|Africa/El_Aaiun|0
+ESU|GMMI|Mogador Airport|Essadouira|Morocco|31.3975|-9.6817|Africa/Casablanca|0
+EUN|GMML|Hassan I Airport|El Aaiún|Western Sahara|27.1517|-13.2192|Africa/El_Aaiun|0
+NDR|GMMW|Nador International Airport|El Aroui|Morocco|34.9888|-3.0282|Africa/Casablanca|0
+RAI|GVNP|Praia International Airport|Praia, Santiago Island|Cape Verde|14.9245|-23.4935|Atlantic/Cape_Verde|-1
+SFL|GVSF|São Filipe Airport|Sao Filipe, Fogo Island|Cape Verde|14.885|-24.48|Atlantic/Cape_Verde|-1
+BCO|HABC|Baco Airport|Baco|Ethiopia|5.7829|36.562|Africa/Addis_Ababa|3
+BEI|HABE|Beica Airport|Beica|Ethiopia|9.3864|34.5219|Africa/Addis_Ababa|3
+DSE|HADC|Combolcha Airport|Dessie|Ethiopia|11.0825|39.7114|Africa/Addis_Ababa|3
+DEM|HADD|Dembidollo Airport|Dembidollo|Ethiopia|8.554|34.858|Africa/Addis_Ababa|3
+GDE|HAGO|Gode Airport|Gode|Ethiopia|5.9351|43.5786|Africa/Addis_Ababa|3
+GOR|HAGR|Gore Airport|Gore|Ethiopia|8.1614|35.5529|Africa/Addis_Ababa|3
+ABK|HAKD|Kabri Dehar Airport|Kabri Dehar|Ethiopia|6.734|44.253|Africa/Addis_Ababa|3
+MTF|HAMT|Mizan Teferi Airport|Mizan Teferi|Ethiopia|6.9571|35.5547|Africa/Addis_Ababa|3
+TIE|HATP|Tippi Airport|Tippi|Ethiopia|7.2024|35.415|Africa/Addis_Ababa|3
+ALU|HCMA|Alula Airport|Alula|Somalia|11.9582|50.748|Africa/Mogadishu|3
+BSA|HCMF|Bosaso Airport|Bosaso|Somalia|11.2753|49.1494|Africa/Mogadishu|3
+MGQ|HCMM|Aden Adde International Airport|Mogadishu|Somalia|2.0144|45.3047|Africa/Mogadishu|3
+GLK|HCMR|Galcaio Airport|Galcaio|Somalia|6.7808|47.4547|Africa/Mogadishu|3
+BUO|HCMV|Burao Airport|Burao|Somalia|9.5275|45.5549|Africa/Mogadishu|3
+AAC|HEAR|El Arish International Airport|El Arish|Egypt|31.0733|33.8358|Africa/Cairo|2
+ATZ|HEAT|Assiut International Airport|Asyut|Egypt|27.0465|31.012|Africa/Cairo|2
+ASV|HKAM|Amboseli Airport|Amboseli National Park|Kenya|-2.6451|37.2531|Africa/Nairobi|3
+LKG|HKLK|Lokichoggio Airport|Lokichoggio|Kenya|4.2041|34.3482|Africa/Nairobi|3
+MYD|HKML|Malindi Airport|Malindi|Kenya|-3.2293|40.1017|Africa/Nairobi|3
+NYK|HKNY|Nanyuki Airport|Nanyuki|Kenya|-0.0624|37.041|Africa/Nairobi|3
+SRX|HLGD|Gardabya Airport|Sirt|Libya|31.0635|16.595|Africa/Tripoli|2
+TOB|HLGN|Gamal Abdel Nasser Airport|Tobruk|Libya|31.861|23.907|Africa/Tripoli|2
+MJI|HLLM|Mitiga Airport|Tripoli|Libya|32.8941|13.276|Africa/Tripoli|2
+LAQ|HLLQ|La Abraq Airport|Al Bayda'|Libya|32.7887|21.9643|Africa/Tripoli|2
+ATB|HSAT|Atbara Airport|Atbara|Sudan|17.7103|34.057|Africa/Khartoum|3
+UYL|HSNN|Nyala Airport|Nyala|Sudan|12.0535|24.9562|Africa/Khartoum|3
+PZU|HSPN|Port Sudan New International Airport|Port Sudan|Sudan|19.4336|37.2341|Africa/Khartoum|3
+BKZ|HTBU|Bukoba Airport|Bukoba|Tanzania|-1.332|31.8212|Africa/Dar_es_Salaam|3
+TKQ|HTKA|Kigoma Airport|Kigoma|Tanzania|-4.8862|29.6709|Africa/Dar_es_Salaam|3
+LDI|HTLI|Lindi Airport|Lindi|Tanzania|-9.8511|39.7578|Africa/Dar_es_Salaam|3
+MUZ|HTMU|Musoma Airport|Musoma|Tanzania|-1.503|33.8021|Africa/Dar_es_Salaam|3
+SHY|HTSY|Shinyanga Airport|Shinyanga|Tanzania|-3.6093|33.5035|Africa/Dar_es_Salaam|3
+TBO|HTTB|Tabora Airport|Tabora|Tanzania|-5.0764|32.8333|Africa/Dar_es_Salaam|3
+RUA|HUAR|Arua Airport|Arua|Uganda|3.05|30.917|Africa/Kampala|3
+ULU|HUGU|Gulu Airport|Gulu|Uganda|2.8056|32.2718|Africa/Kampala|3
+DIU|VA1P|Diu Airport|Diu|India|20.7131|70.9211|Asia/Calcutta|5.5
+ABR|KABR|Aberdeen Regional Airport|Aberdeen|United States|45.4491|-98.4218|America/Chicago|-6
+ABY|KABY|Southwest Georgia Regional Airport|Albany|United States|31.5355|-84.1945|America/New_York|-5
+AHN|KAHN|Athens Ben Epps Airport|Athens|United States|33.9486|-83.3263|America/New_York|-5
+ALM|KALM|Alamogordo White Sands Regional Airport|Alamogordo|United States|32.8399|-105.991|America/Denver|-7
+ALO|KALO|Waterloo Regional Airport|Waterloo|United States|42.5571|-92.4003|America/Chicago|-6
+ALW|KALW|Walla Walla Regional Airport|Walla Walla|United States|46.0949|-118.288|America/Los_Angeles|-8
+APN|KAPN|Alpena County Regional Airport|Alpena|United States|45.0781|-83.5603|America/New_York|-5
+ATY|KATY|Watertown Regional Airport|Watertown|United States|44.914|-97.1547|America/Chicago|-6
+BFD|KBFD|Bradford Regional Airport|Bradford|United States|41.8031|-78.6401|America/New_York|-5
+BFF|KBFF|Western Neb. Rgnl/William B. Heilig Airport|Scottsbluff|United States|41.874|-103.596|America/Denver|-7
+BKW|KBKW|Raleigh County Memorial Airport|Beckley|United States|37.7873|-81.1242|America/New_York|-5
+BQK|KBQK|Brunswick Golden Isles Airport|Brunswick|United States|31.2588|-81.4665|America/New_York|-5
+BRL|KBRL|Southeast Iowa Regional Airport|Burlington|United States|40.7832|-91.1255|America/Chicago|-6
+CEC|KCEC|Jack Mc Namara Field Airport|Crescent City|United States|41.7802|-124.237|America/Los_Angeles|-8
+CGI|KCGI|Cape Girardeau Regional Airport|Cape Girardeau|United States|37.2253|-89.5708|America/Chicago|-6
+CIU|KCIU|Chippewa County International Airport|Sault Ste Marie|United States|46.2508|-84.4724|America/New_York|-5
+CKB|KCKB|North Central West Virginia Airport|Clarksburg|United States|39.2966|-80.2281|America/New_York|-5
+CLM|KCLM|William R Fairchild International Airport|Port Angeles|United States|48.1202|-123.5|America/Los_Angeles|-8
+CMX|KCMX|Houghton County Memorial Airport|Hancock|United States|47.1684|-88.4891|America/New_York|-5
+DDC|KDDC|Dodge City Regional Airport|Dodge City|United States|37.7634|-99.9656|America/Chicago|-6
+DUJ|KDUJ|DuBois Regional Airport|Du Bois|United States|41.1783|-78.8987|America/New_York|-5
+EAU|KEAU|Chippewa Valley Regional Airport|Eau Claire|United States|44.8658|-91.4843|America/Chicago|-6
+EKO|KEKO|Elko Regional Airport|Elko|United States|40.8249|-115.792|America/Los_Angeles|-8
+EWB|KEWB|New Bedford Regional Airport|New Bedford|United States|41.6761|-70.9569|America/New_York|-5
+FAY|KFAY|Fayetteville Regional Grannis Field|Fayetteville|United States|34.9912|-78.8803|America/New_York|-5
+GGW|KGGW|Wokal Field Glasgow International Airport|Glasgow|United States|48.2125|-106.615|America/Denver|-7
+GRI|KGRI|Central Nebraska Regional Airport|Grand Island|United States|40.9675|-98.3096|America/Chicago|-6
+HOT|KHOT|Memorial Field|Hot Springs|United States|34.478|-93.0962|America/Chicago|-6
+HTS|KHTS|Tri-State/Milton J. Ferguson Field|Huntington|United States|38.3667|-82.558|America/New_York|-5
+KIO|Q51|Kili Airport|Kili Island|Marshall Islands|5.6445|169.1195|Pacific/Majuro|12
+IRK|KIRK|Kirksville Regional Airport|Kirksville|United States|40.0935|-92.5449|America/Chicago|-6
+JMS|KJMS|Jamestown Regional Airport|Jamestown|United States|46.9297|-98.6782|America/Chicago|-6
+LAR|KLAR|Laramie Regional Airport|Laramie|United States|41.3121|-105.675|America/Denver|-7
+LBE|KLBE|Arnold Palmer Regional Airport|Latrobe|United States|40.2759|-79.4048|America/New_York|-5
+LBF|KLBF|North Platte Regional Airport Lee Bird Field|North Platte|United States|41.1262|-100.684|America/Chicago|-6
+LEB|KLEB|Lebanon Municipal Airport|Lebanon|United States|43.6261|-72.3042|America/New_York|-5
+LMT|KLMT|Crater Lake-Klamath Regional Airport|Klamath Falls|United States|42.1561|-121.733|America/Los_Angeles|-8
+LNS|KLNS|Lancaster Airport|Lancaster|United States|40.1217|-76.2961|America/New_York|-5
+LWT|KLWT|Lewistown Municipal Airport|Lewistown|United States|47.0493|-109.467|America/Denver|-7
+LYH|KLYH|Lynchburg Regional Preston Glenn Field|Lynchburg|United States|37.3267|-79.2004|America/New_York|-5
+MKG|KMKG|Muskegon County Airport|Muskegon|United States|43.1695|-86.2382|America/New_York|-5
+MLS|KMLS|Frank Wiley Field|Miles City|United States|46.428|-105.886|America/Denver|-7
+MSL|KMSL|Northwest Alabama Regional Airport|Muscle Shoals|United States|34.7453|-87.6102|America/Chicago|-6
+OTH|KOTH|Southwest Oregon Regional Airport|North Bend|United States|43.4171|-124.246|America/Los_Angeles|-8
+OWB|KOWB|Owensboro Daviess County Airport|Owensboro|United States|37.7401|-87.1668|America/Chicago|-6
+PIB|KPIB|Hattiesburg Laurel Regional Airport|Hattiesburg/Laurel|United States|31.4671|-89.3371|America/Chicago|-6
+PIH|KPIH|Pocatello Regional Airport|Pocatello|United States|42.9098|-112.596|America/Denver|-7
+PIR|KPIR|Pierre Regional Airport|Pierre|United States|44.3827|-100.286|America/Chicago|-6
+PLN|KPLN|Pellston Regional Airport of Emmet County Airport|Pellston|United States|45.5709|-84.7967|America/New_York|-5
+PSM|KPSM|Portsmouth International at Pease Airport|Portsmouth|United States|43.0779|-70.8233|America/New_York|-5
+RDG|KRDG|Reading Regional Carl A Spaatz Field|Reading|United States|40.3785|-75.9652|America/New_York|-5
+RHI|KRHI|Rhinelander Oneida County Airport|Rhinelander|United States|45.6312|-89.4675|America/Chicago|-6
+RKS|KRKS|Southwest Wyoming Regional Airport|Rock Springs|United States|41.5942|-109.065|America/Denver|-7
+RUT|KRUT|Rutland - Southern Vermont Regional Airport|Rutland|United States|43.5294|-72.9496|America/New_York|-5
+SBP|KSBP|San Luis County Regional Airport|San Luis Obispo|United States|35.2368|-120.642|America/Los_Angeles|-8
+SHR|KSHR|Sheridan County Airport|Sheridan|United States|44.7692|-106.98|America/Denver|-7
+SLK|KSLK|Adirondack Regional Airport|Saranac Lake|United States|44.3853|-74.2062|America/New_York|-5
+SLN|KSLN|Salina Municipal Airport|Salina|United States|38.791|-97.6522|America/Chicago|-6
+SMX|KSMX|Santa Maria Pub/Capt G Allan Hancock Field|Santa Maria|United States|34.8989|-120.457|America/Los_Angeles|-8
+TUP|KTUP|Tupelo Regional Airport|Tupelo|United States|34.2681|-88.7699|America/Chicago|-6
+UIN|KUIN|Quincy Regional Baldwin Field|Quincy|United States|39.9427|-91.1946|America/Chicago|-6
+VCT|KVCT|Victoria Regional Airport|Victoria|United States|28.8526|-96.9185|America/Chicago|-6
+VLD|KVLD|Valdosta Regional Airport|Valdosta|United States|30.7825|-83.2767|America/New_York|-5
+WRL|KWRL|Worland Municipal Airport|Worland|United States|43.9657|-107.951|America/Denver|-7
+YKM|KYKM|Yakima Air Terminal McAllister Field|Yakima|United States|46.5682|-120.544|America/Los_Angeles|-8
+ECN|LCEN|Ercan International Airport|Nicosia|Cyprus|35.1547|33.4961|Asia/Nicosia|2
+RJL|LELO|Logroño-Agoncillo Airport|Logroño-Agoncillo|Spain|42.461|-2.3222|Europe/Madrid|1
+IDY|LFEY|Île d'Yeu Airport|Île d'Yeu|France|46.7186|-2.3911|Europe/Paris|1
+ANE|LFJR|Angers-Loire Airport|Angers/Marcé|France|47.5603|-0.3122|Europe/Paris|1
+LTT|LFTZ|La Môle Airport|La Môle|France|43.2054|6.482|Europe/Paris|1
+JSY|LGSO|Syros Airport|Syros Island|Greece|37.4228|24.9509|Europe/Athens|2
+PEV|LHPP|Pécs-Pogány Airport|Pécs-Pogány|Hungary|45.9909|18.241|Europe/Budapest|1
+SOB|LHSM|Sármellék International Airport|Sármellék|Hungary|46.6864|17.1591|Europe/Budapest|1
+AOT|LIMW|Aosta Airport|Aosta|Italy|45.7385|7.3687|Europe/Rome|1
+QSR|LIRI|Salerno Costa d'Amalfi Airport|Salerno|Italy|40.6204|14.9113|Europe/Rome|1
+CVU|LPCR|Corvo Airport|Corvo|Portugal|39.6715|-31.1136|Atlantic/Azores|-1
+BNX|LQBK|Banja Luka International Airport|Banja Luka|Bosnia and Herzegovina|44.9414|17.2975|Europe/Sarajevo|1
+USQ|LTBO|Uşak Airport|Usak|Turkey|38.6815|29.4717|Europe/Istanbul|3
+KSY|LTCF|Kars Airport|Kars|Turkey|40.5622|43.115|Europe/Istanbul|3
+SFQ|LTCH|Şanlıurfa Airport|Sanliurfa|Turkey|37.0943|38.8471|Europe/Istanbul|3
+KCM|LTCN|Kahramanmaraş Airport|Kahramanmaras|Turkey|37.5388|36.9535|Europe/Istanbul|3
+AJI|LTCO|Ağrı Airport|Agri|Turkey|39.6545|43.026|Europe/Istanbul|3
+ADF|LTCP|Adıyaman Airport|Adiyaman|Turkey|37.7314|38.4689|Europe/Istanbul|3
+ISE|LTFC|Süleyman Demirel International Airport|Isparta|Turkey|37.8554|30.3684|Europe/Istanbul|3
+EDO|LTFD|Balıkesir Körfez Airport|Balikesir Korfez|Turkey|39.5546|27.0138|Europe/Istanbul|3
+SZF|LTFH|Samsun Çarşamba Airport|Samsun|Turkey|41.2545|36.5671|Europe/Istanbul|3
+ILZ|LZZI|Žilina Airport|Žilina|Slovakia|49.2315|18.6135|Europe/Bratislava|1
+GDT|MBGT|JAGS McCartney International Airport|Cockburn Town|Turks and Caicos Islands|21.4445|-71.1423|America/Grand_Turk|-4
+MDS|MBMC|Middle Caicos Airport|Middle Caicos|Turks and Caicos Islands|21.826|-71.8025|America/Grand_Turk|-4
+SLX|MBSY|Salt Cay Airport|Salt Cay|Turks and Caicos Islands|21.333|-71.2|America/Grand_Turk|-4
+AZS|MDCY|Samaná El Catey International Airport|Samana|Dominican Republic|19.267|-69.742|America/Santo_Domingo|-4
+JBQ|MDJB|La Isabela International Airport|La Isabela|Dominican Republic|18.5725|-69.9856|America/Santo_Domingo|-4
+PBR|MGPB|Puerto Barrios Airport|Puerto Barrios|Guatemala|15.7309|-88.5838|America/Guatemala|-6
+AAZ|MGQZ|Quezaltenango Airport|Quezaltenango|Guatemala|14.8656|-91.502|America/Guatemala|-6
+UTK|03N|Utirik Airport|Utirik Island|Marshall Islands|11.222|169.852|Pacific/Majuro|12
+AHS|MHAH|Ahuas Airport|Ahuas|Honduras|15.4722|-84.3522|America/Tegucigalpa|-6
+PEU|MHPL|Puerto Lempira Airport|Puerto Lempira|Honduras|15.2622|-83.7812|America/Tegucigalpa|-6
+MIJ|MLIP|Mili Island Airport|Mili Island|Marshall Islands|6.0833|171.733|Pacific/Majuro|12
+CYW|MMCY|Captain Rogelio Castillo National Airport|Celaya|Mexico|20.546|-100.887|America/Mexico_City|-6
+CUA|MMDA|Ciudad Constitución Airport|Ciudad Constitución|Mexico|25.0538|-111.615|America/Mazatlan|-7
+GUB|MMGR|Guerrero Negro Airport|Guerrero Negro|Mexico|28.0261|-114.024|America/Tijuana|-8
+JAL|MMJA|El Lencero Airport|Jalapa|Mexico|19.4751|-96.7975|America/Mexico_City|-6
+CTD|MPCE|Alonso Valderrama Airport|Chitré|Panama|7.9878|-80.4097|America/Panama|-5
+ONX|MPEJ|Enrique Adolfo Jimenez Airport|Colón|Panama|9.3566|-79.8674|America/Panama|-5
+JQE|MPJE|Jaqué Airport|Jaqué|Panama|7.5178|-78.1572|America/Panama|-5
+PLP|MPLP|Captain Ramon Xatruch Airport|La Palma|Panama|8.4067|-78.1417|America/Panama|-5
+TTQ|MRAO|Aerotortuguero Airport|Roxana|Costa Rica|10.42|-83.6095|America/Costa_Rica|-6
+BCL|MRBC|Barra del Colorado Airport|Pococi|Costa Rica|10.7687|-83.5856|America/Costa_Rica|-6
+PBP|MRIA|Islita Airport|Nandayure|Costa Rica|9.8561|-85.3708|America/Costa_Rica|-6
+PJM|MRPJ|Puerto Jimenez Airport|Puerto Jimenez|Costa Rica|8.5333|-83.3|America/Costa_Rica|-6
+SYQ|MRPV|Tobias Bolanos International Airport|San Jose|Costa Rica|9.9571|-84.1398|America/Costa_Rica|-6
+JEE|MTJE|Jérémie Airport|Jeremie|Haiti|18.6631|-74.1703|America/Port-au-Prince|-5
+PAX|MTPX|Port-de-Paix Airport|Port-de-Paix|Haiti|19.9336|-72.8486|America/Port-au-Prince|-5
+TND|MUTD|Alberto Delgado Airport|Trinidad|Cuba|21.7883|-79.9972|America/Havana|-5
+COX|MYAK|Congo Town Airport|Andros|Bahamas|24.1587|-77.5898|America/Nassau|-5
+ATC|MYCA|Arthur's Town Airport|Arthur's Town|Bahamas|24.6294|-75.6738|America/Nassau|-5
+TBI|MYCB|New Bight Airport|Cat Island|Bahamas|24.3153|-75.4523|America/Nassau|-5
+CRI|MYCI|Colonel Hill Airport|Colonel Hill|Bahamas|22.7456|-74.1824|America/Nassau|-5
+PID|MYPI|Nassau Paradise Island Airport|Nassau|Bahamas|25.083|-77.3|America/Nassau|-5
+AIU|NCAT|Enua Airport|Atiu Island|Cook Islands|-19.9678|-158.119|Pacific/Rarotonga|-10
+MGS|NCMG|Mangaia Island Airport|Mangaia Island|Cook Islands|-21.896|-157.9067|Pacific/Rarotonga|-10
+MHX|NCMH|Manihiki Island Airport|Manihiki Island|Cook Islands|-10.3767|-161.002|Pacific/Rarotonga|-10
+MUK|NCMK|Mauke Airport|Mauke Island|Cook Islands|-20.1361|-157.345|Pacific/Rarotonga|-10
+MOI|NCMR|Mitiaro Island Airport|Mitiaro Island|Cook Islands|-19.8425|-157.703|Pacific/Rarotonga|-10
+PYE|NCPY|Tongareva Airport|Penrhyn Island|Cook Islands|-9.0144|-158.0324|Pacific/Rarotonga|-10
+ICI|NFCI|Cicia Airport|Cicia|Fiji|-17.7433|-179.342|Pacific/Fiji|12
+PTF|NFFO|Malolo Lailai Island Airport|Malolo Lailai Island|Fiji|-17.7779|177.197|Pacific/Fiji|12
+KDV|NFKD|Vunisea Airport|Vunisea|Fiji|-19.0581|178.157|Pacific/Fiji|12
+MNF|NFMA|Mana Island Airport|Mana Island|Fiji|-17.6731|177.098|Pacific/Fiji|12
+MFJ|NFMO|Moala Airport|Moala|Fiji|-18.5667|179.951|Pacific/Fiji|12
+NGI|NFNG|Ngau Airport|Ngau|Fiji|-18.1156|179.34|Pacific/Fiji|12
+LKB|NFNK|Lakeba Island Airport|Lakeba Island|Fiji|-18.1992|-178.817|Pacific/Fiji|12
+LBS|NFNL|Labasa Airport|Lambasa|Fiji|-16.4667|179.34|Pacific/Fiji|12
+TVU|NFNM|Matei Airport|Matei|Fiji|-16.6906|-179.877|Pacific/Fiji|12
+KXF|NFNO|Koro Island Airport|Koro Island|Fiji|-17.3458|179.422|Pacific/Fiji|12
+RTA|NFNR|Rotuma Airport|Rotuma|Fiji|-12.4825|177.071|Pacific/Fiji|12
+SVU|NFNS|Savusavu Airport|Savusavu|Fiji|-16.8028|179.341|Pacific/Fiji|12
+EUA|NFTE|Kaufana Airport|Eua Island|Tonga|-21.3783|-174.958|Pacific/Tongatapu|13
+HPA|NFTL|Lifuka Island Airport|Lifuka|Tonga|-19.777|-174.341|Pacific/Tongatapu|13
+NFO|NFTO|Mata'aho Airport|Angaha, Niuafo'ou Island|Tonga|-15.5708|-175.633|Pacific/Tongatapu|13
+NTT|NFTP|Kuini Lavenia Airport|Niuatoputapu|Tonga|-15.9773|-173.7911|Pacific/Tongatapu|13
+VBV|NFVB|Vanua Balavu Airport|Vanua Balavu|Fiji|-17.269|-178.976|Pacific/Fiji|12
+IUE|NIUE|Niue International Airport|Alofi|Niue|-19.079|-169.9256|Pacific/Niue|-11
+FUT|NLWF|Pointe Vele Airport|Futuna Island|Wallis and Futuna|-14.3114|-178.066|Pacific/Wallis|12
+MXS|NSMA|Maota Airport|Savaii Island|Samoa|-13.7423|-172.258|Pacific/Apia|13
+APK|NTGD|Apataki Airport|Apataki|French Polynesia|-15.5736|-146.415|Pacific/Tahiti|-10
+AHE|NTHE|Ahe Airport|Ahe|French Polynesia|-14.4281|-146.257|Pacific/Tahiti|-10
+AUQ|NTMN|Hiva Oa-Atuona Airport|Hiva-oa|French Polynesia|-9.7688|-139.011|Pacific/Marquesas|-9.5
+UAP|NTMP|Ua Pou Airport|Ua Pou|French Polynesia|-9.3517|-140.078|Pacific/Marquesas|-9.5
+UAH|NTMU|Ua Huka Airport|Ua Huka|French Polynesia|-8.9361|-139.552|Pacific/Marquesas|-9.5
+MTV|NVSA|Mota Lava Airport|Ablow|Vanuatu|-13.666|167.712|Pacific/Efate|11
+SLH|NVSC|Sola Airport|Sola|Vanuatu|-13.8517|167.537|Pacific/Efate|11
+TOH|NVSD|Torres Airstrip|Loh/Linua|Vanuatu|-13.328|166.638|Pacific/Efate|11
+EAE|NVSE|Siwo Airport|Sangafa|Vanuatu|-17.0903|168.343|Pacific/Efate|11
+CCV|NVSF|Craig Cove Airport|Craig Cove|Vanuatu|-16.265|167.924|Pacific/Efate|11
+LOD|NVSG|Longana Airport|Longana|Vanuatu|-15.3067|167.967|Pacific/Efate|11
+SSR|NVSH|Sara Airport|Pentecost Island|Vanuatu|-15.4708|168.152|Pacific/Efate|11
+PBJ|NVSI|Tavie Airport|Paama Island|Vanuatu|-16.439|168.257|Pacific/Efate|11
+LPM|NVSL|Lamap Airport|Lamap|Vanuatu|-16.4611|167.8293|Pacific/Efate|11
+LNB|NVSM|Lamen Bay Airport|Lamen Bay|Vanuatu|-16.5842|168.159|Pacific/Efate|11
+MWF|NVSN|Maewo-Naone Airport|Maewo Island|Vanuatu|-15|168.083|Pacific/Efate|11
+LNE|NVSO|Lonorore Airport|Lonorore|Vanuatu|-15.8656|168.172|Pacific/Efate|11
+NUS|NVSP|Norsup Airport|Norsup|Vanuatu|-16.0797|167.401|Pacific/Efate|11
+ZGU|NVSQ|Gaua Island Airport|Gaua Island|Vanuatu|-14.2181|167.587|Pacific/Efate|11
+RCL|NVSR|Redcliffe Airport|Redcliffe|Vanuatu|-15.472|167.835|Pacific/Efate|11
+SON|NVSS|Santo Pekoa International Airport|Santo|Vanuatu|-15.505|167.22|Pacific/Efate|11
+TGH|NVST|Tongoa Airport|Tongoa Island|Vanuatu|-16.8911|168.551|Pacific/Efate|11
+ULB|NVSU|Uléi Airport|Ambryn Island|Vanuatu|-16.3297|168.3011|Pacific/Efate|11
+VLS|NVSV|Valesdir Airport|Valesdir|Vanuatu|-16.7961|168.177|Pacific/Efate|11
+SWJ|NVSX|Southwest Bay Airport|Malekula Island|Vanuatu|-16.4864|167.4472|Pacific/Efate|11
+OLJ|NVSZ|North West Santo Airport|Olpoi|Vanuatu|-14.8817|166.558|Pacific/Efate|11
+AUY|NVVA|Aneityum Airport|Anelghowhat|Vanuatu|-20.2492|169.771|Pacific/Efate|11
+AWD|NVVB|Aniwa Airport|Aniwa|Vanuatu|-19.2346|169.6009|Pacific/Efate|11
+DLY|NVVD|Dillon's Bay Airport|Dillon's Bay|Vanuatu|-18.7694|169.001|Pacific/Efate|11
+FTA|NVVF|Futuna Airport|Futuna Island|Vanuatu|-19.5164|170.232|Pacific/Efate|11
+IPA|NVVI|Ipota Airport|Ipota|Vanuatu|-18.8564|169.2833|Pacific/Efate|11
+TGJ|NWWA|Tiga Airport|Tiga|New Caledonia|-21.0961|167.804|Pacific/Noumea|11
+BMY|NWWC|Île Art - Waala Airport|Waala|New Caledonia|-19.7206|163.661|Pacific/Noumea|11
+ILP|NWWE|Île des Pins Airport|Île des Pins|New Caledonia|-22.5889|167.456|Pacific/Noumea|11
+FBD|OAFZ|Fayzabad Airport|Faizabad|Afghanistan|37.1211|70.5181|Asia/Kabul|4.5
+AJF|OESK|Al-Jawf Domestic Airport|Al-Jawf|Saudi Arabia|29.7851|40.1|Asia/Riyadh|3
+WAE|OEWD|Wadi Al Dawasir Airport|Wadi-al-dawasir|Saudi Arabia|20.5043|45.1996|Asia/Riyadh|3
+KHD|OICK|Khoram Abad Airport|Khorram Abad|Iran|33.4354|48.2829|Asia/Tehran|3.5
+BXR|OIKM|Bam Airport|Bam|Iran|29.0842|58.45|Asia/Tehran|3.5
+RJN|OIKR|Rafsanjan Airport|Rafsanjan|Iran|30.2977|56.0511|Asia/Tehran|3.5
+BJB|OIMN|Bojnord Airport|Bojnourd|Iran|37.493|57.3082|Asia/Tehran|3.5
+AFZ|OIMS|Sabzevar National Airport|Sabzevar|Iran|36.1681|57.5952|Asia/Tehran|3.5
+NSH|OINN|Noshahr Airport|Noshahr|Iran|36.6633|51.4647|Asia/Tehran|3.5
+SRY|OINZ|Dasht-e Naz Airport|Dasht-e-naz|Iran|36.6358|53.1936|Asia/Tehran|3.5
+LRR|OISL|Lar Airport|Lar|Iran|27.6747|54.3833|Asia/Tehran|3.5
+ADU|OITL|Ardabil Airport|Ardabil|Iran|38.3257|48.4244|Asia/Tehran|3.5
+OMH|OITR|Urmia Airport|Uromiyeh|Iran|37.6681|45.0687|Asia/Tehran|3.5
+AAN|OMAL|Al Ain International Airport|Al Ain|United Arab Emirates|24.2617|55.6092|Asia/Dubai|4
+BNP|OPBN|Bannu Airport|Bannu|Pakistan|32.9729|70.5279|Asia/Karachi|5
+BHV|OPBW|Bahawalpur Airport|Bahawalpur|Pakistan|29.3481|71.718|Asia/Karachi|5
+CJL|OPCH|Chitral Airport|Chitral|Pakistan|35.8866|71.8006|Asia/Karachi|5
+DBA|OPDB|Dalbandin Airport|Dalbandin|Pakistan|28.8783|64.3998|Asia/Karachi|5
+DEA|OPDG|Dera Ghazi Khan Airport|Dera Ghazi Khan|Pakistan|29.961|70.4859|Asia/Karachi|5
+DSK|OPDI|Dera Ismael Khan Airport|Dera Ismael Khan|Pakistan|31.9094|70.8966|Asia/Karachi|5
+JIW|OPJI|Jiwani Airport|Jiwani|Pakistan|25.0678|61.8054|Asia/Karachi|5
+HDD|OPKD|Hyderabad Airport|Hyderabad|Pakistan|25.3181|68.3661|Asia/Karachi|5
+KDD|OPKH|Khuzdar Airport|Khuzdar|Pakistan|27.7906|66.6473|Asia/Karachi|5
+ORW|OPOR|Ormara Airport|Ormara Raik|Pakistan|25.2747|64.586|Asia/Karachi|5
+PAJ|OPPC|Parachinar Airport|Parachinar|Pakistan|33.9021|70.0716|Asia/Karachi|5
+KDU|OPSD|Skardu Airport|Skardu|Pakistan|35.3355|75.536|Asia/Karachi|5
+SYW|OPSN|Sehwan Sharif Airport|Sehwan Sharif|Pakistan|26.4731|67.7172|Asia/Karachi|5
+TUK|OPTU|Turbat International Airport|Turbat|Pakistan|25.9864|63.0302|Asia/Karachi|5
+ISU|ORSU|Sulaymaniyah International Airport|Sulaymaniyah|Iraq|35.5617|45.3167|Asia/Baghdad|3
+KAC|OSKL|Kamishly Airport|Kamishly|Syria|37.0206|41.1914|Asia/Damascus|2
+GXF|OYSY|Sayun International Airport|Sayun Intl|Yemen|15.9661|48.7883|Asia/Aden|3
+ADK|PADK|Adak Airport|Adak Island|United States|51.878|-176.646|America/Adak|-10
+GST|PAGS|Gustavus Airport|Gustavus|United States|58.4253|-135.707|America/Anchorage|-9
+SGY|PAGY|Skagway Airport|Skagway|United States|59.4601|-135.316|America/Anchorage|-9
+HCR|PAHC|Holy Cross Airport|Holy Cross|United States|62.1883|-159.775|America/Anchorage|-9
+HNS|PAHN|Haines Airport|Haines|United States|59.2438|-135.524|America/Anchorage|-9
+KLG|PALG|Kalskag Airport|Kalskag|United States|61.5363|-160.341|America/Anchorage|-9
+MCG|PAMC|McGrath Airport|Mcgrath|United States|62.9529|-155.606|America/Anchorage|-9
+MOU|PAMO|Mountain Village Airport|Mountain Village|United States|62.0954|-163.682|America/Anchorage|-9
+ANI|PANI|Aniak Airport|Aniak|United States|61.5816|-159.543|America/Anchorage|-9
+VAK|PAVA|Chevak Airport|Chevak|United States|61.5409|-165.6005|America/Anchorage|-9
+WRG|PAWG|Wrangell Airport|Wrangell|United States|56.4843|-132.37|America/Anchorage|-9
+OPU|AYBM|Balimo Airport|Balimo|Papua New Guinea|-8.05|142.933|Pacific/Port_Moresby|10
+VMU|AYBA|Baimuru Airport|Baimuru|Papua New Guinea|-7.4969|144.8199|Pacific/Port_Moresby|10
+LUP|PHLU|Kalaupapa Airport|Molokai|United States|21.211|-156.974|Pacific/Honolulu|-10
+ENT|PKMA|Eniwetok Airport|Eniwetok Atoll|Marshall Islands|11.3407|162.328|Pacific/Majuro|12
+LZN|RCFG|Matsu Nangan Airport|Matsu Islands|Taiwan|26.1598|119.958|Asia/Taipei|8
+HCN|RCKW|Hengchun Airport|Hengchun|Taiwan|22.0411|120.73|Asia/Taipei|8
+MFK|RCMT|Matsu Beigan Airport|Matsu Islands|Taiwan|26.2242|120.003|Asia/Taipei|8
+KUH|RJCK|Kushiro Airport|Kushiro|Japan|43.041|144.193|Asia/Tokyo|9
+OKD|RJCO|Okadama Airport|Sapporo|Japan|43.1174|141.3813|Asia/Tokyo|9
+HSG|RJFS|Saga Airport|Saga|Japan|33.1497|130.302|Asia/Tokyo|9
+NKM|RJNA|Nagoya Airport|Nagoya|Japan|35.255|136.924|Asia/Tokyo|9
+IWJ|RJOW|Iwami Airport|Iwami|Japan|34.6764|131.79|Asia/Tokyo|9
+FKS|RJSF|Fukushima Airport|Fukushima|Japan|37.2274|140.431|Asia/Tokyo|9
+ONJ|RJSR|Odate Noshiro Airport|Odate Noshiro|Japan|40.1919|140.371|Asia/Tokyo|9
+SYO|RJSY|Shonai Airport|Shonai|Japan|38.8122|139.787|Asia/Tokyo|9
+MYE|RJTQ|Miyakejima Airport|Miyakejima|Japan|34.0736|139.56|Asia/Tokyo|9
+KUV|RKJK|Kunsan Air Base|Kunsan|South Korea|35.9038|126.616|Asia/Seoul|9
+MPK|RKJM|Mokpo Heliport|Mokpo|South Korea|34.7589|126.38|Asia/Seoul|9
+WJU|RKNW|Wonju/Hoengseong Air Base (K-38/K-46)|Wonju|South Korea|37.4412|127.9639|Asia/Seoul|9
+YNY|RKNY|Yangyang International Airport|Sokcho / Gangneung|South Korea|38.0613|128.669|Asia/Seoul|9
+HIN|RKPS|Sacheon Air Base/Airport|Sacheon|South Korea|35.0886|128.0717|Asia/Seoul|9
+CJJ|RKTU|Cheongju International Airport/Cheongju Air Base (K-59/G-513)|Chongju|South Korea|36.717|127.4987|Asia/Seoul|9
+SFS|RPLB|Subic Bay International Airport|Olongapo City|Philippines|14.7944|120.271|Asia/Manila|8
+CYU|RPLO|Cuyo Airport|Cuyo|Philippines|10.8581|121.069|Asia/Manila|8
+CGM|RPMH|Camiguin Airport|Camiguin|Philippines|9.2535|124.707|Asia/Manila|8
+JOL|RPMJ|Jolo Airport|Jolo|Philippines|6.0537|121.011|Asia/Manila|8
+TWT|RPMN|Sanga Sanga Airport|Sanga Sanga|Philippines|5.047|119.743|Asia/Manila|8
+SUG|RPMS|Surigao Airport|Sangley Point|Philippines|9.7558|125.4809|Asia/Manila|8
+TDG|RPMW|Tandag Airport|Tandag|Philippines|9.0721|126.171|Asia/Manila|8
+WNP|RPUN|Naga Airport|Naga|Philippines|13.5849|123.27|Asia/Manila|8
+BSO|RPUO|Basco Airport|Basco|Philippines|20.4513|121.98||8
+SFE|RPUS|San Fernando Airport|San Fernando|Philippines|16.5956|120.303|Asia/Manila|8
+TUG|RPUT|Tuguegarao Airport|Tuguegarao|Philippines|17.6434|121.7332|Asia/Manila|8
+VRC|RPUV|Virac Airport|Virac|Philippines|13.5764|124.206|Asia/Manila|8
+CYP|RPVC|Calbayog Airport|Calbayog City|Philippines|12.0727|124.545|Asia/Manila|8
+CRM|RPVF|Catarman National Airport|Catarman|Philippines|12.5024|124.636|Asia/Manila|8
+MBT|RPVJ|Moises R. Espinosa Airport|Masbate|Philippines|12.3697|123.6301|Asia/Manila|8
+RXS|RPVR|Roxas Airport|Roxas City|Philippines|11.5977|122.752|Asia/Manila|8
+TTG|SAST|General Enrique Mosconi Airport|Tartagal|Argentina|-22.6196|-63.7937|America/Argentina/Salta|-3
+LHS|SAVH|Las Heras Airport|Las Heras|Argentina|-46.5383|-68.9653|America/Argentina/Rio_Gallegos|-3
+OES|SAVN|Antoine de Saint Exupéry Airport|San Antonio Oeste|Argentina|-40.7512|-65.0343|America/Argentina/Salta|-3
+ING|SAWA|Lago Argentino Airport|El Calafate|Argentina|-50.3361|-72.2486|America/Argentina/Rio_Gallegos|-3
+GGS|SAWR|Gobernador Gregores Airport|Gobernador Gregores|Argentina|-48.7831|-70.15|America/Argentina/Rio_Gallegos|-3
+SST|SAZL|Santa Teresita Airport|Santa Teresita|Argentina|-36.5423|-56.7218|America/Buenos_Aires|-3
+NEC|SAZO|Necochea Airport|Necochea|Argentina|-38.4831|-58.8172|America/Buenos_Aires|-3
+JDO|SBJU|Orlando Bezerra de Menezes Airport|Juazeiro Do Norte|Brazil|-7.219|-39.2701|America/Fortaleza|-3
+LEC|SBLE|Coronel Horácio de Mattos Airport|Lençóis|Brazil|-12.4823|-41.277|America/Fortaleza|-3
+MEA|SBME|Macaé Airport|Macaé|Brazil|-22.343|-41.766|America/Sao_Paulo|-3
+MII|SBML|Frank Miloye Milenkowichi–Marília State Airport|Marília|Brazil|-22.1969|-49.9264|America/Sao_Paulo|-3
+VDC|SBQV|Vitória da Conquista Airport|Vitória Da Conquista|Brazil|-14.8628|-40.8631|America/Fortaleza|-3
+RIA|SBSM|Santa Maria Airport|Santa Maria|Brazil|-29.7114|-53.6882|America/Sao_Paulo|-3
+TOW|SBTD|Toledo Airport|Toledo|Brazil|-24.6863|-53.6975|America/Sao_Paulo|-3
+ESR|SCES|Ricardo García Posada Airport|El Salvador|Chile|-26.3111|-69.7652|America/Santiago|-4
+ZPC|SCPC|Pucón Airport|Pucon|Chile|-39.2928|-71.9159|America/Santiago|-4
+SOD|SDCO|Sorocaba Airport|Sorocaba|Brazil|-23.478|-47.49|America/Sao_Paulo|-3
+SCY|SEST|San Cristóbal Airport|San Cristóbal|Ecuador|-0.9102|-89.6174|Pacific/Galapagos|-6
+LOH|SETM|Camilo Ponce Enriquez Airport|La Toma (Catamayo)|Ecuador|-3.9959|-79.3719|America/Guayaquil|-5
+ESM|SETN|General Rivadeneira Airport|Esmeraldas|Ecuador|0.9785|-79.6266|America/Guayaquil|-5
+PSY|SFAL|Port Stanley Airport|Stanley|Falkland Islands|-51.6857|-57.7776|Atlantic/Stanley|-3
+CRC|SKGO|Santa Ana Airport|Cartago|Colombia|4.7582|-75.9557|America/Bogota|-5
+LQM|SKLG|Caucaya Airport|Puerto Leguízamo|Colombia|-0.1823|-74.7708|America/Bogota|-5
+LPD|SKLP|La Pedrera Airport|La Pedrera|Colombia|-1.3286|-69.5797|America/Bogota|-5
+NQU|SKNQ|Reyes Murillo Airport|Nuquí|Colombia|5.6964|-77.2806|America/Bogota|-5
+PDA|SKPD|Obando Airport|Puerto Inírida|Colombia|3.8535|-67.9062|America/Bogota|-5
+EYP|SKYP|El Yopal Airport|Yopal|Colombia|5.3191|-72.384|America/Bogota|-5
+GYA|SLGY|Capitán de Av. Emilio Beltrán Airport|Guayaramerín|Bolivia|-10.8206|-65.3456|America/La_Paz|-4
+PUR|SLPR|Puerto Rico Airport|Puerto Rico/Manuripi|Bolivia|-11.1077|-67.5512|America/La_Paz|-4
+RIB|SLRI|Capitán Av. Selin Zeitun Lopez Airport|Riberalta|Bolivia|-11|-66|America/La_Paz|-4
+REY|SLRY|Reyes Airport|Reyes|Bolivia|-14.3044|-67.3534|America/La_Paz|-4
+SRJ|SLSB|Capitán Av. German Quiroga G. Airport|San Borja|Bolivia|-14.8592|-66.7375|America/La_Paz|-4
+ORG|SMZO|Zorg en Hoop Airport|Paramaribo|Suriname|5.8111|-55.1907|America/Paramaribo|-3
+MVS|SNMU|Mucuri Airport|Mucuri|Brazil|-18.0489|-39.8642|America/Fortaleza|-3
+CJA|SPJR|Mayor General FAP Armando Revoredo Iglesias Airport|Cajamarca|Peru|-7.1392|-78.4894|America/Lima|-5
+HUU|SPNC|Alferez Fap David Figueroa Fernandini Airport|Huánuco|Peru|-9.8788|-76.2048|America/Lima|-5
+NZC|SPZA|Maria Reiche Neuman Airport|Nazca|Peru|-14.854|-74.9615|America/Lima|-5
+SRA|SSZR|Santa Rosa Airport|Santa Rosa|Brazil|-27.9067|-54.5204|America/Sao_Paulo|-3
+MYC|SVBS|Escuela Mariscal Sucre Airport|Maracay|Venezuela|10.25|-67.6494|America/Caracas|-4
+VIG|SVVG|Juan Pablo Pérez Alfonso Airport|El Vigía|Venezuela|8.6241|-71.6727|America/Caracas|-4
+JPR|SWJI|Ji-Paraná Airport|Ji-Paraná|Brazil|-10.8708|-61.8465|America/Boa_Vista|-4
+BBQ|TAPH|Codrington Airport|Codrington|Antigua and Barbuda|17.6358|-61.8286|America/Antigua|-4
+DSD|TFFA|La Désirade Airport|Grande Anse|Guadeloupe|16.2969|-61.0844|America/Guadeloupe|-4
+BBR|TFFB|Baillif Airport|Basse Terre|Guadeloupe|16.0133|-61.7422|America/Guadeloupe|-4
+SFC|TFFC|St-François Airport|St-François|Guadeloupe|16.2578|-61.2625|America/Guadeloupe|-4
+GBJ|TFFM|Les Bases Airport|Grand Bourg|Guadeloupe|15.8687|-61.27|America/Guadeloupe|-4
+NEV|TKPN|Vance W. Amory International Airport|Charlestown|Saint Kitts and Nevis|17.2057|-62.5899|America/St_Kitts|-4
+VIJ|TUPW|Virgin Gorda Airport|Spanish Town|British Virgin Islands|18.4464|-64.4275|America/Tortola|-4
+BQU|TVSB|J F Mitchell Airport|Bequia|Saint Vincent and the Grenadines|12.9884|-61.262|America/St_Vincent|-4
+UNI|TVSU|Union Island International Airport|Union Island|Saint Vincent and the Grenadines|12.6001|-61.4119|America/St_Vincent|-4
+KOV|UACK|Kokshetau Airport|Kokshetau|Kazakhstan|53.3291|69.5946|Asia/Qyzylorda|6
+PPK|UACP|Petropavlosk South Airport|Petropavlosk|Kazakhstan|54.7747|69.1839|Asia/Qyzylorda|6
+DZN|UAKD|Zhezkazgan Airport|Zhezkazgan|Kazakhstan|47.7083|67.7333|Asia/Qyzylorda|6
+UKK|UASK|Ust-Kamennogorsk Airport|Ust Kamenogorsk|Kazakhstan|50.0366|82.4942|Asia/Qyzylorda|6
+KSN|UAUU|Kostanay West Airport|Kostanay|Kazakhstan|53.2069|63.5503|Asia/Qyzylorda|6
+KVD|UBBG|Ganja Airport|Ganja|Azerbaijan|40.7377|46.3176|Asia/Baku|4
+NAJ|UBBN|Nakhchivan Airport|Nakhchivan|Azerbaijan|39.1888|45.4584|Asia/Baku|4
+NER|UELL|Chulman Airport|Neryungri|Russia|56.9139|124.914|Asia/Yakutsk|9
+PYJ|UERP|Polyarny Airport|Yakutia|Russia|66.4004|112.03|Asia/Yakutsk|9
+CKH|UESO|Chokurdakh Airport|Chokurdah|Russia|70.6231|147.902|Asia/Srednekolymsk|11
+CYX|UESS|Cherskiy Airport|Cherskiy|Russia|68.7406|161.338|Asia/Srednekolymsk|11
+IKS|UEST|Tiksi Airport|Tiksi|Russia|71.6977|128.903|Asia/Yakutsk|9
+KXK|UHKK|Komsomolsk-on-Amur Airport|Komsomolsk-on-Amur|Russia|50.409|136.934|Asia/Vladivostok|10
+DYR|UHMA|Ugolny Airport|Anadyr|Russia|64.7349|177.741|Asia/Anadyr|12
+OHO|UHOO|Okhotsk Airport|Okhotsk|Russia|59.4101|143.0565|Asia/Vladivostok|10
+UJE|UJAP|Ujae Atoll Airport|Ujae Atoll|Marshall Islands|8.9281|165.762|Pacific/Majuro|12
+MPW|UKCM|Mariupol International Airport|Mariupol International|Ukraine|47.0761|37.4496|Europe/Kiev|2
+VSG|UKCW|Luhansk International Airport|Lugansk|Ukraine|48.4174|39.3741|Europe/Kiev|2
+OZH|UKDE|Zaporizhzhia International Airport|Zaporozhye|Ukraine|47.867|35.3157|Europe/Kiev|2
+KWG|UKDR|Kryvyi Rih International Airport|Krivoy Rog|Ukraine|48.0433|33.21|Europe/Kiev|2
+HRK|UKHH|Kharkiv International Airport|Kharkov|Ukraine|49.9248|36.29|Europe/Kiev|2
+IFO|UKLI|Ivano-Frankivsk International Airport|Ivano-Frankivsk|Ukraine|48.8842|24.6861|Europe/Kiev|2
+CWC|UKLN|Chernivtsi International Airport|Chernovtsk|Ukraine|48.2593|25.9808|Europe/Kiev|2
+RWN|UKLR|Rivne International Airport|Rivne|Ukraine|50.6071|26.1416|Europe/Kiev|2
+UDJ|UKLU|Uzhhorod International Airport|Uzhgorod|Ukraine|48.6343|22.2634|Europe/Kiev|2
+CSH|ULAS|Solovki Airport|Solovetsky Islands|Russia|65.03|35.7333|Europe/Moscow|3
+CEE|ULBC|Cherepovets Airport|Cherepovets|Russia|59.2736|38.0158|Europe/Moscow|3
+AMV|ULDD|Amderma Airport|Amderma|Russia|69.7633|61.5564|Europe/Moscow|3
+KSZ|ULKK|Kotlas Airport|Kotlas|Russia|61.2358|46.6975|Europe/Moscow|3
+PES|ULPB|Petrozavodsk Airport|Petrozavodsk|Russia|61.8852|34.1547|Europe/Moscow|3
+GNA|UMMG|Hrodna Airport|Hrodna|Belarus|53.602|24.0538|Europe/Minsk|3
+MVQ|UMOO|Mogilev Airport|Mogilev|Belarus|53.9549|30.0951|Europe/Minsk|3
+EIE|UNII|Yeniseysk Airport|Yeniseysk|Russia|58.4742|92.1125|Asia/Krasnoyarsk|7
+KYZ|UNKY|Kyzyl Airport|Kyzyl|Russia|51.6694|94.4006|Asia/Krasnoyarsk|7
+NOZ|UNWW|Spichenkovo Airport|Novokuznetsk|Russia|53.8114|86.8772|Asia/Krasnoyarsk|7
+HTG|UOHH|Khatanga Airport|Khatanga|Russia|71.9781|102.491|Asia/Krasnoyarsk|7
+IAA|UOII|Igarka Airport|Igarka|Russia|67.4372|86.6219|Asia/Krasnoyarsk|7
+NAL|URMN|Nalchik Airport|Nalchik|Russia|43.5129|43.6366|Europe/Moscow|3
+OGZ|URMO|Beslan Airport|Beslan|Russia|43.2051|44.6066|Europe/Moscow|3
+ESL|URWI|Elista Airport|Elista|Russia|46.3739|44.3309|Europe/Moscow|3
+WKK|5A8|Aleknagik / New Airport|Aleknagik|United States|59.2826|-158.618|America/Anchorage|-9
+BLF|KBLF|Mercer County Airport|Bluefield|United States|37.2958|-81.2077|America/New_York|-5
+GLH|KGLH|Mid Delta Regional Airport|Greenville|United States|33.4829|-90.9856|America/Chicago|-6
+PSC|KPSC|Tri Cities Airport|Pasco|United States|46.2647|-119.119|America/Los_Angeles|-8
+KQA|KQA|Akutan Seaplane Base|Akutan|United States|54.1338|-165.7789|America/Anchorage|-9
+LPS|S31|Lopez Island Airport|Lopez|United States|48.4839|-122.938|America/Los_Angeles|-8
+SLY|USDD|Salekhard Airport|Salekhard|Russia|66.5908|66.611|Asia/Yekaterinburg|5
+HMA|USHH|Khanty Mansiysk Airport|Khanty-Mansiysk|Russia|61.0285|69.0861|Asia/Yekaterinburg|5
+NYA|USHN|Nyagan Airport|Nyagan|Russia|62.11|65.615|Asia/Yekaterinburg|5
+OVS|USHS|Sovetskiy Airport|Sovetskiy|Russia|61.3266|63.6019|Asia/Yekaterinburg|5
+IJK|USII|Izhevsk Airport|Izhevsk|Russia|56.8281|53.4575|Europe/Samara|4
+KVX|USKK|Pobedilovo Airport|Kirov|Russia|58.5033|49.3483|Europe/Moscow|3
+NYM|USMM|Nadym Airport|Nadym|Russia|65.4809|72.6989|Asia/Yekaterinburg|5
+RAT|USNR|Raduzhny Airport|Raduzhnyi|Russia|62.1586|77.3289|Asia/Yekaterinburg|5
+NFG|USRN|Nefteyugansk Airport|Nefteyugansk|Russia|61.1083|72.65|Asia/Yekaterinburg|5
+KRO|USUU|Kurgan Airport|Kurgan|Russia|55.4753|65.4156|Asia/Yekaterinburg|5
+LBD|UTDL|Khudzhand Airport|Khudzhand|Tajikistan|40.2154|69.6947|Asia/Dushanbe|5
+AZN|UTKA|Andizhan Airport|Andizhan|Uzbekistan|40.7277|72.294|Asia/Samarkand|5
+FEG|UTKF|Fergana International Airport|Fergana|Uzbekistan|40.3588|71.745|Asia/Samarkand|5
+NMA|UTKN|Namangan Airport|Namangan|Uzbekistan|40.9846|71.5567|Asia/Samarkand|5
+NCU|UTNN|Nukus Airport|Nukus|Uzbekistan|42.4884|59.6233|Asia/Samarkand|5
+UGC|UTNU|Urgench Airport|Urgench|Uzbekistan|41.5843|60.6417|Asia/Samarkand|5
+KSQ|UTSL|Karshi Khanabad Airport|Khanabad|Uzbekistan|38.8336|65.9215|Asia/Samarkand|5
+TMJ|UTST|Termez Airport|Termez|Uzbekistan|37.2867|67.31|Asia/Samarkand|5
+RYB|UUBK|Staroselye Airport|Rybinsk|Russia|58.1042|38.9294|Europe/Moscow|3
+EGO|UUOB|Belgorod International Airport|Belgorod|Russia|50.6438|36.5901|Europe/Moscow|3
+URS|UUOK|Kursk East Airport|Kursk|Russia|51.7506|36.2956|Europe/Moscow|3
+LPK|UUOL|Lipetsk Airport|Lipetsk|Russia|52.7028|39.5378|Europe/Moscow|3
+VKT|UUYW|Vorkuta Airport|Vorkuta|Russia|67.4886|63.9931|Europe/Moscow|3
+UUA|UWKB|Bugulma Airport|Bugulma|Russia|54.64|52.8017|Europe/Moscow|3
+JOK|UWKJ|Yoshkar-Ola Airport|Yoshkar-Ola|Russia|56.7006|47.9047|Europe/Moscow|3
+CSY|UWKS|Cheboksary Airport|Cheboksary|Russia|56.0903|47.3473|Europe/Moscow|3
+ULY|UWLW|Ulyanovsk East Airport|Ulyanovsk|Russia|54.401|48.8027|Europe/Samara|4
+OSW|UWOR|Orsk Airport|Orsk|Russia|51.0725|58.5956|Asia/Yekaterinburg|5
+PEZ|UWPP|Penza Airport|Penza|Russia|53.1106|45.0211|Europe/Moscow|3
+SKX|UWPS|Saransk Airport|Saransk|Russia|54.1251|45.2123|Europe/Moscow|3
+BWO|UWSB|Balakovo Airport|Balakovo|Russia|51.8583|47.7456|Europe/Moscow|3
+HBX|VAHB|Hubli Airport|Hubli|India|15.3617|75.0849|Asia/Calcutta|5.5
+KCT|VCCK|Koggala Airport|Koggala|Sri Lanka|5.9937|80.3203|Asia/Colombo|5.5
+WRZ|VCCW|Weerawila Airport|Wirawila|Sri Lanka|6.2545|81.2352|Asia/Colombo|5.5
+BBM|VDBG|Battambang Airport|Battambang|Cambodia|13.0956|103.224|Asia/Phnom_Penh|7
+SHL|VEBI|Shillong Airport|Shillong|India|25.7036|91.9787|Asia/Calcutta|5.5
+GAU|VEGT|Lokpriya Gopinath Bordoloi International Airport|Guwahati|India|26.1061|91.5859|Asia/Calcutta|5.5
+DMU|VEMR|Dimapur Airport|Dimapur|India|25.8839|93.7711|Asia/Calcutta|5.5
+TEZ|VETZ|Tezpur Airport|Tezpur|India|26.7091|92.7847|Asia/Calcutta|5.5
+BZL|VGBR|Barisal Airport|Barisal|Bangladesh|22.801|90.3012|Asia/Dhaka|6
+HOE|VLHS|Ban Huoeisay Airport|Huay Xai|Laos|20.2573|100.437|Asia/Vientiane|7
+BHR|VNBP|Bharatpur Airport|Bharatpur|Nepal|27.6781|84.4294|Asia/Katmandu|5.75
+BDP|VNCG|Bhadrapur Airport|Chandragarhi|Nepal|26.5708|88.0796|Asia/Katmandu|5.75
+MEY|VNMG|Meghauli Airport|Meghauli|Nepal|27.5774|84.2288|Asia/Katmandu|5.75
+KEP|VNNG|Nepalgunj Airport|Nepalgunj|Nepal|28.1036|81.667|Asia/Katmandu|5.75
+GAN|VRMG|Gan International Airport|Gan Island|Maldives|-0.6933|73.1556|Indian/Maldives|5
+HAQ|VRMH|Hanimaadhoo Airport|Haa Dhaalu Atoll|Maldives|6.7442|73.1705|Indian/Maldives|5
+KDO|VRMK|Kadhdhoo Airport|Laamu Atoll|Maldives|1.8592|73.5219|Indian/Maldives|5
+MAQ|VTPM|Mae Sot Airport|Tak|Thailand|16.6999|98.5451|Asia/Bangkok|7
+BMV|VVBM|Buon Ma Thuot Airport|Buonmethuot|Vietnam|12.6683|108.12|Asia/Saigon|7
+HPH|VVCI|Cat Bi International Airport|Haiphong|Vietnam|20.8194|106.725|Asia/Saigon|7
+CXR|VVCR|Cam Ranh Airport|Nha Trang|Vietnam|11.9982|109.219|Asia/Saigon|7
+VCS|VVCS|Co Ong Airport|Conson|Vietnam|8.7318|106.633|Asia/Saigon|7
+VCA|VVCT|Can Tho International Airport|Can Tho|Vietnam|10.0851|105.712|Asia/Saigon|7
+DIN|VVDB|Dien Bien Phu Airport|Dienbienphu|Vietnam|21.3975|103.008|Asia/Saigon|7
+UIH|VVPC|Phu Cat Airport|Phucat|Vietnam|13.955|109.042|Asia/Saigon|7
+PXU|VVPK|Pleiku Airport|Pleiku|Vietnam|14.0045|108.017|Asia/Saigon|7
+VII|VVVH|Vinh Airport|Vinh|Vietnam|18.7376|105.671|Asia/Saigon|7
+BMO|VYBM|Banmaw Airport|Banmaw|Burma|24.269|97.2462|Asia/Rangoon|6.5
+TVY|VYDW|Dawei Airport|Dawei|Burma|14.1039|98.2036|Asia/Rangoon|6.5
+KAW|VYKT|Kawthoung Airport|Kawthoung|Burma|10.0493|98.538|Asia/Rangoon|6.5
+LIW|VYLK|Loikaw Airport|Loikaw|Burma|19.6915|97.2148|Asia/Rangoon|6.5
+MNU|VYMM|Mawlamyine Airport|Mawlamyine|Burma|16.4447|97.6607|Asia/Rangoon|6.5
+BSX|VYPN|Pathein Airport|Pathein|Burma|16.8152|94.7799|Asia/Rangoon|6.5
+PKK|VYPU|Pakhokku Airport|Pakhokku|Burma|21.4043|95.1112|Asia/Rangoon|6.5
+SWQ|WADS|Sumbawa Besar Airport|Sumbawa Island|Indonesia|-8.489|117.412|Asia/Makassar|8
+TMC|WADT|Tambolaka Airport|Waikabubak-Sumba Island|Indonesia|-9.4097|119.244|Asia/Makassar|8
+BUI|WAJB|Bokondini Airport|Bokondini-Papua Island|Indonesia|-3.6822|138.6755|Asia/Jayapura|9
+SEH|WAJS|Senggeh Airport|Senggeh-Papua Island|Indonesia|-3.45|140.779|Asia/Jayapura|9
+TJS|WALG|Tanjung Harapan Airport|Tanjung Selor-Borneo Island|Indonesia|2.8358|117.3736|Asia/Makassar|8
+DTD|WALJ|Datadawai Airport|Datadawai-Borneo Island|Indonesia|0.8106|114.5306|Asia/Makassar|8
+BEJ|WALK|Kalimarau Airport|Tanjung Redep-Borneo Island|Indonesia|2.1555|117.432|Asia/Makassar|8
+TJG|WAON|Warukin Airport|Tanjung-Borneo Island|Indonesia|-2.2166|115.436|Asia/Makassar|8
+SMQ|WAOS|Sampit(Hasan) Airport|Sampit-Borneo Island|Indonesia|-2.4992|112.975|Asia/Jakarta|7
+LUV|WAPL|Dumatumbun Airport|Langgur-Kei Islands|Indonesia|-5.6616|132.731|Asia/Jayapura|9
+ARD|WATM|Mali Airport|Alor Island|Indonesia|-8.1323|124.597|Asia/Makassar|8
+BLG|WBGC|Belaga Airport|Belaga|Malaysia|2.65|113.767|Asia/Kuala_Lumpur|8
+LGL|WBGF|Long Lellang Airport|Long Datih|Malaysia|3.421|115.154|Asia/Kuala_Lumpur|8
+ODN|WBGI|Long Seridan Airport|Long Seridan|Malaysia|3.967|115.05|Asia/Kuala_Lumpur|8
+MKM|WBGK|Mukah Airport|Mukah|Malaysia|2.9064|112.08|Asia/Kuala_Lumpur|8
+BKM|WBGQ|Bakalalan Airport|Bakalalan|Malaysia|3.974|115.618|Asia/Kuala_Lumpur|8
+LWY|WBGW|Lawas Airport|Lawas|Malaysia|4.8492|115.408|Asia/Kuala_Lumpur|8
+BBN|WBGZ|Bario Airport|Bario|Malaysia|3.7339|115.479|Asia/Kuala_Lumpur|8
+TMG|WBKM|Tomanggong Airport|Tomanggong|Malaysia|5.4026|118.6576|Asia/Kuala_Lumpur|8
+KUD|WBKT|Kudat Airport|Kudat|Malaysia|6.9225|116.836|Asia/Kuala_Lumpur|8
+TKG|WIAT|Radin Inten II (Branti) Airport|Bandar Lampung-Sumatra Island|Indonesia|-5.2406|105.1756|Asia/Jakarta|7
+HLP|WIHH|Halim Perdanakusuma International Airport|Jakarta|Indonesia|-6.2666|106.891|Asia/Jakarta|7
+NTX|WION|Ranai Airport|Ranai-Natuna Besar Island|Indonesia|3.9087|108.388|Asia/Jakarta|7
+PSU|WIOP|Pangsuma Airport|Putussibau-Borneo Island|Indonesia|0.8356|112.937|Asia/Jakarta|7
+SQG|WIOS|Sintang(Susilo) Airport|Sintang-Borneo Island|Indonesia|0.0636|111.473|Asia/Jakarta|7
+PDO|WIPQ|Pendopo Airport|Talang Gudang-Sumatra Island|Indonesia|-3.2861|103.88|Asia/Jakarta|7
+LSW|WITM|Malikus Saleh Airport|Lhok Seumawe-Sumatra Island|Indonesia|5.2267|96.9503|Asia/Jakarta|7
+PKG|WMPA|Pulau Pangkor Airport|Pangkor Island|Malaysia|4.2447|100.553|Asia/Kuala_Lumpur|8
+LBW|WRLB|Long Bawan Airport|Long Bawan-Borneo Island|Indonesia|3.9028|115.6921|Asia/Makassar|8
+NNX|WRLF|Nunukan Airport|Nunukan-Nunukan Island|Indonesia|4.1333|117.6667|Asia/Makassar|8
+LPU|WRLP|Long Apung Airport|Long Apung-Borneo Island|Indonesia|1.7045|114.9703|Asia/Makassar|8
+ALH|YABA|Albany Airport|Albany|Australia|-34.9433|117.809|Australia/Perth|8
+GYL|YARG|Argyle Airport|Argyle|Australia|-16.6369|128.451|Australia/Perth|8
+AUU|YAUR|Aurukun Airport|Aurukun|Australia|-13.3541|141.7207|Australia/Brisbane|10
+BCI|YBAR|Barcaldine Airport|Barcaldine|Australia|-23.5653|145.307|Australia/Brisbane|10
+BDD|YBAU|Badu Island Airport|Badu Island|Australia|-10.15|142.1734|Australia/Brisbane|10
+BVI|YBDV|Birdsville Airport|Birdsville|Australia|-25.8975|139.348|Australia/Brisbane|10
+BHQ|YBHI|Broken Hill Airport|Broken Hill|Australia|-32.0014|141.472|Australia/Adelaide|9.5
+HTI|YBHM|Hamilton Island Airport|Hamilton Island|Australia|-20.3581|148.952|Australia/Brisbane|10
+BEU|YBIE|Bedourie Airport|Bedourie|Australia|-24.3461|139.46|Australia/Brisbane|10
+BRK|YBKE|Bourke Airport|Bourke|Australia|-30.0392|145.952|Australia/Sydney|10
+BUC|YBKT|Burketown Airport|Burketown|Australia|-17.7486|139.534|Australia/Brisbane|10
+GIC|YBOI|Boigu Airport|Boigu|Australia|-9.2328|142.218|Australia/Brisbane|10
+OKY|YBOK|Oakey Airport|Oakey|Australia|-27.4114|151.735|Australia/Brisbane|10
+BQL|YBOU|Boulia Airport|Boulia|Australia|-22.9133|139.9|Australia/Brisbane|10
+BHS|YBTH|Bathurst Airport|Bathurst|Australia|-33.4094|149.652|Australia/Sydney|10
+BLT|YBTR|Blackwater Airport|Blackwater|Australia|-23.6031|148.807|Australia/Brisbane|10
+CVQ|YCAR|Carnarvon Airport|Carnarvon|Australia|-24.8802|113.6717|Australia/Perth|8
+CAZ|YCBA|Cobar Airport|Cobar|Australia|-31.5383|145.794|Australia/Sydney|10
+CPD|YCBP|Coober Pedy Airport|Coober Pedy|Australia|-29.04|134.721|Australia/Adelaide|9.5
+CNC|YCCT|Coconut Island Airport|Coconut Island|Australia|-10.05|143.07|Australia/Brisbane|10
+CNJ|YCCY|Cloncurry Airport|Cloncurry|Australia|-20.6686|140.504|Australia/Brisbane|10
+CED|YCDU|Ceduna Airport|Ceduna|Australia|-32.1306|133.71|Australia/Adelaide|9.5
+CTN|YCKN|Cooktown Airport|Cooktown|Australia|-15.4447|145.184|Australia/Brisbane|10
+CMA|YCMU|Cunnamulla Airport|Cunnamulla|Australia|-28.03|145.622|Australia/Brisbane|10
+CNB|YCNM|Coonamble Airport|Coonamble|Australia|-30.9833|148.376|Australia/Sydney|10
+CUQ|YCOE|Coen Airport|Coen|Australia|-13.7611|143.1133|Australia/Brisbane|10
+OOM|YCOM|Cooma Snowy Mountains Airport|Cooma|Australia|-36.3006|148.974|Australia/Sydney|10
+DMD|YDMG|Doomadgee Airport|Doomadgee|Australia|-17.9403|138.822|Australia/Brisbane|10
+NLF|YDNI|Darnley Island Airport|Darnley Island|Australia|-9.5833|143.767|Australia/Brisbane|10
+DPO|YDPO|Devonport Airport|Devonport|Australia|-41.1697|146.43|Australia/Melbourne|10
+ELC|YELD|Elcho Island Airport|Elcho Island|Australia|-12.0194|135.571|Australia/Darwin|9.5
+EPR|YESP|Esperance Airport|Esperance|Australia|-33.6844|121.823|Australia/Perth|8
+FLS|YFLI|Flinders Island Airport|Flinders Island|Australia|-40.0917|147.993|Australia/Melbourne|10
+GET|YGEL|Geraldton Airport|Geraldton|Australia|-28.7961|114.707|Australia/Perth|8
+GLT|YGLA|Gladstone Airport|Gladstone|Australia|-23.8697|151.223|Australia/Brisbane|10
+GTE|YGTE|Groote Eylandt Airport|Groote Eylandt|Australia|-13.975|136.46|Australia/Darwin|9.5
+GFF|YGTH|Griffith Airport|Griffith|Australia|-34.2508|146.067|Australia/Sydney|10
+HID|YHID|Horn Island Airport|Horn Island|Australia|-10.5864|142.29|Australia/Brisbane|10
+HOK|YHOO|Hooker Creek Airport|Hooker Creek|Australia|-18.3367|130.638|Australia/Darwin|9.5
+MHU|YHOT|Mount Hotham Airport|Mount Hotham|Australia|-37.0475|147.334|Australia/Hobart|10
+HGD|YHUG|Hughenden Airport|Hughenden|Australia|-20.815|144.225|Australia/Brisbane|10
+JCK|YJLC|Julia Creek Airport|Julia Creek|Australia|-20.6683|141.723|Australia/Brisbane|10
+KAX|YKBR|Kalbarri Airport|Kalbarri|Australia|-27.6928|114.2592|Australia/Perth|8
+KNS|YKII|King Island Airport|King Island|Australia|-39.8775|143.878|Australia/Melbourne|10
+KFG|YKKG|Kalkgurung Airport|Kalkgurung|Australia|-17.4319|130.808|Australia/Darwin|9.5
+KRB|YKMB|Karumba Airport|Karumba|Australia|-17.4567|140.83|Australia/Brisbane|10
+KWM|YKOW|Kowanyama Airport|Kowanyama|Australia|-15.4856|141.751|Australia/Brisbane|10
+KUG|YKUB|Kubin Airport|Kubin|Australia|-10.225|142.218|Australia/Brisbane|10
+LNO|YLEO|Leonora Airport|Leonora|Australia|-28.8781|121.315|Australia/Perth|8
+LEL|YLEV|Lake Evella Airport|Lake Evella|Australia|-12.4989|135.806|Australia/Darwin|9.5
+LDH|YLHI|Lord Howe Island Airport|Lord Howe Island|Australia|-31.5383|159.077|Australia/Lord_Howe|10.5
+IRG|YLHR|Lockhart River Airport|Lockhart River|Australia|-12.7869|143.305|Australia/Brisbane|10
+LSY|YLIS|Lismore Airport|Lismore|Australia|-28.8303|153.26|Australia/Sydney|10
+LHG|YLRD|Lightning Ridge Airport|Lightning Ridge|Australia|-29.4567|147.984|Australia/Sydney|10
+LRE|YLRE|Longreach Airport|Longreach|Australia|-23.4342|144.28|Australia/Brisbane|10
+LER|YLST|Leinster Airport|Leinster|Australia|-27.8433|120.703|Australia/Perth|8
+LVO|YLTN|Laverton Airport|Laverton|Australia|-28.6136|122.424|Australia/Perth|8
+UBB|YMAA|Mabuiag Island Airport|Mabuiag Island|Australia|-9.95|142.183|Australia/Brisbane|10
+MKR|YMEK|Meekatharra Airport|Meekatharra|Australia|-26.6117|118.548|Australia/Perth|8
+MIM|YMER|Merimbula Airport|Merimbula|Australia|-36.9086|149.901|Australia/Sydney|10
+MGT|YMGB|Milingimbi Airport|Milingimbi|Australia|-12.0944|134.894|Australia/Darwin|9.5
+MNG|YMGD|Maningrida Airport|Maningrida|Australia|-12.0561|134.234|Australia/Darwin|9.5
+MCV|YMHU|McArthur River Mine Airport|McArthur River Mine|Australia|-16.4425|136.084|Australia/Darwin|9.5
+MQL|YMIA|Mildura Airport|Mildura|Australia|-34.2292|142.086|Australia/Hobart|10
+MMG|YMOG|Mount Magnet Airport|Mount Magnet|Australia|-28.1161|117.842|Australia/Perth|8
+MRZ|YMOR|Moree Airport|Moree|Australia|-29.4989|149.845|Australia/Sydney|10
+MOV|YMRB|Moranbah Airport|Moranbah|Australia|-22.0578|148.077|Australia/Brisbane|10
+MYA|YMRY|Moruya Airport|Moruya|Australia|-35.8978|150.144|Australia/Sydney|10
+MGB|YMTG|Mount Gambier Airport|Mount Gambier|Australia|-37.7456|140.785|Australia/Adelaide|9.5
+ONG|YMTI|Mornington Island Airport|Mornington Island|Australia|-16.6625|139.178|Australia/Brisbane|10
+MYI|YMUI|Murray Island Airport|Murray Island|Australia|-9.9167|144.055|Australia/Brisbane|10
+MBH|YMYB|Maryborough Airport|Maryborough|Australia|-25.5133|152.715|Australia/Brisbane|10
+NRA|YNAR|Narrandera Airport|Narrandera|Australia|-34.7022|146.512|Australia/Sydney|10
+NAA|YNBR|Narrabri Airport|Narrabri|Australia|-30.3192|149.827|Australia/Sydney|10
+NTN|YNTN|Normanton Airport|Normanton|Australia|-17.6841|141.0697|Australia/Brisbane|10
+ZNE|YNWN|Newman Airport|Newman|Australia|-23.4178|119.803|Australia/Perth|8
+OLP|YOLD|Olympic Dam Airport|Olympic Dam|Australia|-30.485|136.877|Australia/Adelaide|9.5
+PUG|YPAG|Port Augusta Airport|Argyle|Australia|-32.5069|137.717|Australia/Adelaide|9.5
+PMK|YPAM|Palm Island Airport|Palm Island|Australia|-18.7553|146.581|Australia/Brisbane|10
+PBO|YPBO|Paraburdoo Airport|Paraburdoo|Australia|-23.1711|117.745|Australia/Perth|8
+CCK|YPCC|Cocos (Keeling) Islands Airport|Cocos Keeling Island|Cocos (Keeling) Islands|-12.1883|96.8339|Indian/Cocos|6.5
+GOV|YPGV|Gove Airport|Gove|Australia|-12.2694|136.818|Australia/Darwin|9.5
+PKE|YPKS|Parkes Airport|Parkes|Australia|-33.1314|148.239|Australia/Sydney|10
+PLO|YPLC|Port Lincoln Airport|Port Lincoln|Australia|-34.6053|135.88|Australia/Adelaide|9.5
+EDR|YPMP|Pormpuraaw Airport|Pormpuraaw|Australia|-14.8965|141.6091|Australia/Brisbane|10
+PQQ|YPMQ|Port Macquarie Airport|Port Macquarie|Australia|-31.4358|152.863|Australia/Sydney|10
+PTJ|YPOD|Portland Airport|Portland|Australia|-38.3181|141.471|Australia/Hobart|10
+ULP|YQLP|Quilpie Airport|Quilpie|Australia|-26.6122|144.253|Australia/Brisbane|10
+RAM|YRNG|Ramingining Airport|Ramingining|Australia|-12.3564|134.898|Australia/Darwin|9.5
+RMA|YROM|Roma Airport|Roma|Australia|-26.545|148.775|Australia/Brisbane|10
+SGO|YSGE|St George Airport|St George|Australia|-28.0497|148.595|Australia/Brisbane|10
+MJK|YSHK|Shark Bay Airport|Shark Bay|Australia|-25.8939|113.577|Australia/Perth|8
+SBR|YSII|Saibai Island Airport|Saibai Island|Australia|-9.3783|142.625|Australia/Brisbane|10
+SRN|YSRN|Strahan Airport|Strahan|Australia|-42.155|145.292|Australia/Melbourne|10
+XTG|YTGM|Thargomindah Airport|Thargomindah|Australia|-27.9864|143.811|Australia/Brisbane|10
+TCA|YTNK|Tennant Creek Airport|Tennant Creek|Australia|-19.6344|134.183|Australia/Darwin|9.5
+VCD|YVRD|Victoria River Downs Airport|Victoria River Downs|Australia|-16.4021|131.005|Australia/Darwin|9.5
+SYU|YWBS|Warraber Island Airport|Sue Islet|Australia|-10.2083|142.825|Australia/Brisbane|10
+WNR|YWDH|Windorah Airport|Windorah|Australia|-25.4131|142.667|Australia/Brisbane|10
+WYA|YWHA|Whyalla Airport|Whyalla|Australia|-33.0589|137.514|Australia/Adelaide|9.5
+WUN|YWLU|Wiluna Airport|Wiluna|Australia|-26.6292|120.221|Australia/Perth|8
+WOL|YWOL|Wollongong Airport|Wollongong|Australia|-34.5611|150.789|Australia/Sydney|10
+WIN|YWTN|Winton Airport|Winton|Australia|-22.3636|143.086|Australia/Brisbane|10
+BWT|YWYY|Wynyard Airport|Burnie|Australia|-40.9989|145.731|Australia/Melbourne|10
+OKR|YYKI|Yorke Island Airport|Yorke Island|Australia|-9.7528|143.4057|Australia/Brisbane|10
+XMY|YYMI|Yam Island Airport|Yam Island|Australia|-9.9011|142.776|Australia/Brisbane|10
+NAY|ZBNY|Beijing Nanyuan Airport|Beijing|China|39.7828|116.388|Asia/Shanghai|8
+CIF|ZBCF|Chifeng Airport|Chifeng|China|42.235|118.908|Asia/Shanghai|8
+CIH|ZBCZ|Changzhi Airport|Changzhi|China|36.2475|113.126|Asia/Shanghai|8
+DAT|ZBDT|Datong Airport|Datong|China|40.0603|113.482|Asia/Shanghai|8
+HET|ZBHH|Baita International Airport|Hohhot|China|40.8514|111.824|Asia/Shanghai|8
+BAV|ZBOW|Baotou Airport|Baotou|China|40.56|109.997|Asia/Shanghai|8
+SJW|ZBSJ|Shijiazhuang Daguocun International Airport|Shijiazhuang|China|38.2807|114.697|Asia/Shanghai|8
+TGO|ZBTL|Tongliao Airport|Tongliao|China|43.5567|122.2|Asia/Shanghai|8
+HLH|ZBUL|Ulanhot Airport|Ulanhot|China|46.1953|122.0083|Asia/Shanghai|8
+XIL|ZBXH|Xilinhot Airport|Xilinhot|China|43.9156|115.964|Asia/Shanghai|8
+BHY|ZGBH|Beihai Airport|Beihai|China|21.5394|109.294|Asia/Shanghai|8
+CGD|ZGCD|Changde Airport|Changde|China|28.9189|111.64|Asia/Shanghai|8
+DYG|ZGDY|Dayong Airport|Dayong|China|29.1028|110.443|Asia/Shanghai|8
+MXZ|ZGMX|Meixian Airport|Meixian|China|24.35|116.133|Asia/Shanghai|8
+ZUH|ZGSD|Zhuhai Jinwan Airport|Zhuhai|China|22.0064|113.376|Asia/Shanghai|8
+LZH|ZGZH|Liuzhou Bailian Airport|Liuzhou|China|24.2075|109.391|Asia/Shanghai|8
+ZHA|ZGZJ|Zhanjiang Airport|Zhanjiang|China|21.2144|110.358|Asia/Shanghai|8
+ENH|ZHES|Enshi Airport|Enshi|China|30.3203|109.485|Asia/Shanghai|8
+NNY|ZHNY|Nanyang Jiangying Airport|Nanyang|China|32.9808|112.615|Asia/Shanghai|8
+XFN|ZHXF|Xiangyang Liuji Airport|Xiangfan|China|32.1506|112.291|Asia/Shanghai|8
+YIH|ZHYC|Yichang Sanxia Airport|Yichang|China|30.5566|111.48|Asia/Shanghai|8
+AKA|ZLAK|Ankang Wulipu Airport|Ankang|China|32.7081|108.931|Asia/Shanghai|8
+GOQ|ZLGM|Golmud Airport|Golmud|China|36.4006|94.7861|Asia/Shanghai|8
+HZG|ZLHZ|Hanzhong Chenggu Airport|Hanzhong|China|33.1341|107.206|Asia/Shanghai|8
+IQN|ZLQY|Qingyang Airport|Qingyang|China|35.7997|107.603|Asia/Shanghai|8
+XNN|ZLXN|Xining Caojiabu Airport|Xining|China|36.5275|102.043|Asia/Shanghai|8
+ENY|ZLYA|Yan'an Ershilipu Airport|Yan'an|China|36.6369|109.554|Asia/Shanghai|8
+UYN|ZLYL|Yulin Yuyang Airport|Yulin|China|38.3597|109.5909|Asia/Shanghai|8
+AVK|ZMAH|Arvaikheer Airport|Arvaikheer|Mongolia|46.2503|102.802|Asia/Ulaanbaatar|8
+LTI|ZMAT|Altai Airport|Altai|Mongolia|46.3764|96.2211|Asia/Ulaanbaatar|8
+BYN|ZMBH|Bayankhongor Airport|Bayankhongor|Mongolia|46.1633|100.704|Asia/Ulaanbaatar|8
+DLZ|ZMDZ|Dalanzadgad Airport|Dalanzadgad|Mongolia|43.5917|104.43|Asia/Ulaanbaatar|8
+HVD|ZMKD|Khovd Airport|Khovd|Mongolia|47.9541|91.6282|Asia/Hovd|7
+MXV|ZMMN|Mörön Airport|Muren|Mongolia|49.6633|100.099|Asia/Ulaanbaatar|8
+DIG|ZPDQ|Diqing Airport|Shangri-La|China|27.7936|99.6772|Asia/Shanghai|8
+LUM|ZPLX|Mangshi Airport|Luxi|China|24.4011|98.5317|Asia/Shanghai|8
+SYM|ZPSM|Pu'er Simao Airport|Simao|China|22.7933|100.959|Asia/Shanghai|8
+ZAT|ZPZT|Zhaotong Airport|Zhaotong|China|27.3256|103.755|Asia/Shanghai|8
+KOW|ZSGZ|Ganzhou Airport|Ganzhou|China|25.8533|114.7789|Asia/Shanghai|8
+JDZ|ZSJD|Jingdezhen Airport|Jingdezhen|China|29.3386|117.176|Asia/Shanghai|8
+JIU|ZSJJ|Jiujiang Lushan Airport|Jiujiang|China|29.4769|115.8011|Asia/Shanghai|8
+JUZ|ZSJU|Quzhou Airport|Quzhou|China|28.9658|118.899|Asia/Shanghai|8
+LYG|ZSLG|Lianyungang Airport|Lianyungang|China|34.5717|118.8736|Asia/Shanghai|8
+HYN|ZSLQ|Huangyan Luqiao Airport|Huangyan|China|28.5622|121.429|Asia/Shanghai|8
+LYI|ZSLY|Shubuling Airport|Linyi|China|35.0461|118.412|Asia/Shanghai|8
+JJN|ZSQZ|Quanzhou Jinjiang International Airport|Quanzhou|China|24.7964|118.59|Asia/Shanghai|8
+TXN|ZSTX|Tunxi International Airport|Huangshan|China|29.7333|118.256|Asia/Shanghai|8
+WEF|ZSWF|Weifang Airport|Weifang|China|36.6467|119.119|Asia/Shanghai|8
+WEH|ZSWH|Weihai Airport|Weihai|China|37.1871|122.229|Asia/Shanghai|8
+WUX|ZSWX|Sunan Shuofang International Airport|Wuxi|China|31.4944|120.429|Asia/Shanghai|8
+WUS|ZSWY|Nanping Wuyishan Airport|Wuyishan|China|27.7019|118.001|Asia/Shanghai|8
+WNZ|ZSWZ|Wenzhou Longwan International Airport|Wenzhou|China|27.9122|120.852|Asia/Shanghai|8
+YNZ|ZSYN|Yancheng Airport|Yancheng|China|33.4258|120.2031|Asia/Shanghai|8
+YIW|ZSYW|Yiwu Airport|Yiwu|China|29.3447|120.032|Asia/Shanghai|8
+HSN|ZSZS|Zhoushan Airport|Zhoushan|China|29.9342|122.362|Asia/Shanghai|8
+BPX|ZUBD|Qamdo Bangda Airport|Bangda|China|30.5536|97.1083|Asia/Shanghai|8
+DAX|ZUDX|Dachuan Airport|Dazhou|China|31.1302|107.4295|Asia/Shanghai|8
+GYS|ZUGU|Guangyuan Airport|Guangyuan|China|32.3911|105.702|Asia/Shanghai|8
+LZO|ZULZ|Luzhou Airport|Luzhou|China|28.8522|105.393|Asia/Shanghai|8
+MIG|ZUMY|Mianyang Airport|Mianyang|China|31.4281|104.741|Asia/Shanghai|8
+NAO|ZUNC|Nanchong Airport|Nanchong|China|30.7954|106.1626|Asia/Shanghai|8
+LZY|ZUNZ|Nyingchi Airport|Nyingchi|China|29.3033|94.3353|Asia/Shanghai|8
+WXN|ZUWX|Wanxian Airport|Wanxian|China|30.8017|108.433|Asia/Shanghai|8
+AKU|ZWAK|Aksu Airport|Aksu|China|41.2625|80.2917|Asia/Shanghai|8
+IQM|ZWCM|Qiemo Yudu Airport|Qiemo|China|38.2336|85.4656|Asia/Shanghai|8
+KCA|ZWKC|Kuqa Airport|Kuqa|China|41.6779|82.8729|Asia/Shanghai|8
+KRL|ZWKL|Korla Airport|Korla|China|41.6978|86.1289|Asia/Shanghai|8
+KRY|ZWKM|Karamay Airport|Karamay|China|45.4665|84.9527|Asia/Shanghai|8
+YIN|ZWYN|Yining Airport|Yining|China|43.9558|81.3303|Asia/Shanghai|8
+HEK|ZYHE|Heihe Airport|Heihe|China|50.1716|127.3089|Asia/Shanghai|8
+JMU|ZYJM|Jiamusi Airport|Jiamusi|China|46.8434|130.465|Asia/Shanghai|8
+JNZ|ZYJZ|Jinzhou Airport|Jinzhou|China|41.1014|121.062|Asia/Shanghai|8
+NDG|ZYQQ|Qiqihar Sanjiazi Airport|Qiqihar|China|47.2396|123.918|Asia/Shanghai|8
+YNJ|ZYYJ|Yanji Chaoyangchuan Airport|Yanji|China|42.8828|129.451|Asia/Shanghai|8
+WKL|HI07|Waikoloa Heliport|Waikoloa Village|United States|19.9205|-155.8607|Pacific/Honolulu|-10
+WME|YMNE|Mount Keith Airport|Mount Keith|Australia|-27.2864|120.555|Australia/Perth|8
+LRV|SVRS|Los Roques Airport|Los Roques|Venezuela|11.95|-66.67|America/Caracas|-4
+IOR|EIIM|Inishmore Aerodrome|Inis Mor|Ireland|53.1067|-9.6536|Europe/Dublin|0
+NNR|EICA|Connemara Regional Airport|Indreabhan|Ireland|53.2303|-9.4678|Europe/Dublin|0
+GTI|EDCG|Rügen Airport|Ruegen|Germany|54.3833|13.3256|Europe/Berlin|1
+EZV|USHB|Berezovo Airport|Berezovo|Russia|63.921|65.0305|Asia/Yekaterinburg|5
+ORH|KORH|Worcester Regional Airport|Worcester|United States|42.2673|-71.8757|America/New_York|-5
+AQG|ZSAQ|Anqing Tianzhushan Airport|Anqing|China|30.5822|117.05|Asia/Shanghai|8
+SHP|ZBSH|Shanhaiguan Airport|Qinhuangdao|China|39.9681|119.731|Asia/Shanghai|8
+YCU|ZBYC|Yuncheng Guangong Airport|Yuncheng|China|35.1164|111.0314|Asia/Shanghai|8
+JGN|ZLJQ|Jiayuguan Airport|Jiayuguan|China|39.8569|98.3414|Asia/Shanghai|8
+DDG|ZYDD|Dandong Airport|Dandong|China|40.0247|124.286|Asia/Shanghai|8
+DSN|ZBDS|Ordos Ejin Horo Airport|Dongsheng|China|39.49|109.8614|Asia/Shanghai|8
+PZI|ZUZH|Bao'anying Airport|Panzhihua|China|26.54|101.7985|Asia/Shanghai|8
+PWT|KPWT|Bremerton National Airport|Bremerton|United States|47.4902|-122.765|America/Los_Angeles|-8
+SPW|KSPW|Spencer Municipal Airport|Spencer|United States|43.1655|-95.2028|America/Chicago|-6
+JEF|KJEF|Jefferson City Memorial Airport|Jefferson City|United States|38.5912|-92.1561|America/Chicago|-6
+UNT|EGPW|Unst Airport|Unst|United Kingdom|60.7472|-0.8539|Europe/London|0
+PVC|KPVC|Provincetown Municipal Airport|Provincetown|United States|42.0719|-70.2214|America/New_York|-5
+SBH|TFFJ|Gustaf III Airport|Gustavia|France|17.9044|-62.8436||-4
+KMW|UUBA|Kostroma Sokerkino Airport|Kostroma|Russia|57.7969|41.0194|Europe/Moscow|3
+SUI|UGSS|Sukhumi Dranda Airport|Sukhumi|Georgia|42.8582|41.1281|Asia/Tbilisi|4
+TBW|UUOT|Donskoye Airport|Tambow|Russia|52.8061|41.4828|Europe/Moscow|3
+OBN|EGEO|Oban Airport|North Connel|United Kingdom|56.4635|-5.3997|Europe/London|0
+ERM|SSER|Erechim Airport|Erechim|Brazil|-27.6619|-52.2683|America/Sao_Paulo|-3
+CVF|LFLJ|Courchevel Airport|Courcheval|France|45.3967|6.6347|Europe/Paris|1
+FUL|KFUL|Fullerton Municipal Airport|Fullerton|United States|33.872|-117.98|America/Los_Angeles|-8
+USA|KJQF|Concord-Padgett Regional Airport|Concord|United States|35.3878|-80.7091|America/New_York|-5
+NVI|UTSA|Navoi Airport|Navoi|Uzbekistan|40.1172|65.1708|Asia/Samarkand|5
+QSF|DAAS|Ain Arnat Airport|Setif|Algeria|36.1781|5.3245|Africa/Algiers|1
+LRH|LFBH|La Rochelle-Île de Ré Airport|La Rochelle|France|46.1792|-1.1953|Europe/Paris|1
+SUN|KSUN|Friedman Memorial Airport|Hailey|United States|43.5044|-114.296|America/Denver|-7
+MCW|KMCW|Mason City Municipal Airport|Mason City|United States|43.1578|-93.3313|America/Chicago|-6
+AZA|KIWA|Phoenix-Mesa-Gateway Airport|Mesa|United States|33.3078|-111.655|America/Phoenix|-7
+XAU|SOOS|Saúl Airport|Saul|French Guiana|3.6136|-53.2042|America/Cayenne|-3
+AKP|PAKP|Anaktuvuk Pass Airport|Anaktuvuk Pass|United States|68.1336|-151.743|America/Anchorage|-9
+ANV|PANV|Anvik Airport|Anvik|United States|62.6467|-160.191|America/Anchorage|-9
+ATK|PATQ|Atqasuk Edward Burnell Sr Memorial Airport|Atqasuk|United States|70.4673|-157.436|America/Anchorage|-9
+GAM|PAGM|Gambell Airport|Gambell|United States|63.7668|-171.733|America/Anchorage|-9
+HPB|PAHP|Hooper Bay Airport|Hooper Bay|United States|61.5239|-166.147|America/Anchorage|-9
+KAL|PAKV|Kaltag Airport|Kaltag|United States|64.3191|-158.741|America/Anchorage|-9
+KSM|PASM|St Mary's Airport|St Mary's|United States|62.0605|-163.302|America/Anchorage|-9
+KVL|PAVL|Kivalina Airport|Kivalina|United States|67.7362|-164.563|America/Anchorage|-9
+MYU|PAMY|Mekoryuk Airport|Mekoryuk|United States|60.3714|-166.271|America/Anchorage|-9
+RBY|PARY|Ruby Airport|Ruby|United States|64.7272|-155.47|America/Anchorage|-9
+SHH|PASH|Shishmaref Airport|Shishmaref|United States|66.2496|-166.0891|America/Anchorage|-9
+SVA|PASA|Savoonga Airport|Savoonga|United States|63.6864|-170.493|America/Anchorage|-9
+WTK|PAWN|Noatak Airport|Noatak|United States|67.5661|-162.975|America/Anchorage|-9
+OMC|RPVO|Ormoc Airport|Ormoc City|Philippines|11.058|124.565|Asia/Manila|8
+YPX|CYPX|Puvirnituq Airport|Puvirnituq|Canada|60.0506|-77.2869|America/Toronto|-5
+YTQ|CYTQ|Tasiujaq Airport|Tasiujaq|Canada|58.6678|-69.9558|America/Toronto|-5
+ARC|PARC|Arctic Village Airport|Arctic Village|United States|68.1147|-145.579|America/Anchorage|-9
+QOW|DNIM|Sam Mbakwe International Airport|Imo|Nigeria|5.4271|7.206|Africa/Lagos|1
+FON|MRAN|Arenal Airport|La Fortuna/San Carlos|Costa Rica|10.478|-84.6345|America/Costa_Rica|-6
+TMU|MRTR|Tambor Airport|Nicoya|Costa Rica|9.7385|-85.0138|America/Costa_Rica|-6
+CYZ|RPUY|Cauayan Airport|Cauayan|Philippines|16.9299|121.753|Asia/Manila|8
+KVK|ULMK|Kirovsk-Apatity Airport|Apatity|Russia|67.4633|33.5883|Europe/Moscow|3
+GVR|SBGV|Coronel Altino Machado de Oliveira Airport|Governador Valadares|Brazil|-18.8952|-41.9822|America/Sao_Paulo|-3
+KPC|PAPC|Port Clarence Coast Guard Station|Port Clarence|United States|65.2537|-166.859|America/Anchorage|-9
+PJA|ESUP|Pajala Airport|Pajala|Sweden|67.2456|23.0689|Europe/Stockholm|1
+QBC|CYBD|Bella Coola Airport|Bella Coola|Canada|52.3875|-126.596|America/Vancouver|-8
+HGR|KHGR|Hagerstown Regional Richard A Henson Field|Hagerstown|United States|39.7079|-77.7295|America/New_York|-5
+ACR|SKAC|Araracuara Airport|Araracuara|Colombia|-0.5833|-72.4083|America/Bogota|-5
+GOP|VEGK|Gorakhpur Airport|Gorakhpur|India|26.7397|83.4497|Asia/Calcutta|5.5
+SDP|PASD|Sand Point Airport|Sand Point|United States|55.315|-160.523|America/Anchorage|-9
+HMI|ZWHM|Hami Airport|Hami|China|42.8414|93.6692|Asia/Shanghai|8
+WUZ|ZGWZ|Wuzhou Changzhoudao Airport|Wuzhou|China|23.4567|111.248|Asia/Shanghai|8
+TBH|RPVU|Tugdan Airport|Romblon|Philippines|12.311|122.085|Asia/Manila|8
+ACP|OITM|Sahand Airport|Maragheh|Iran|37.348|46.1279|Asia/Tehran|3.5
+GBT|OING|Gorgan Airport|Gorgan|Iran|36.9094|54.4013|Asia/Tehran|3.5
+IIL|OICI|Ilam Airport|Ilam|Iran|33.5866|46.4048|Asia/Tehran|3.5
+PFQ|OITP|Parsabade Moghan Airport|Parsabad|Iran|39.6036|47.8815|Asia/Tehran|3.5
+TCG|ZWTC|Tacheng Airport|Tacheng|China|46.6725|83.3408|Asia/Shanghai|8
+MQM|LTCR|Mardin Airport|Mardin|Turkey|37.2233|40.6317|Europe/Istanbul|3
+AFS|UTSN|Sugraly Airport|Zarafshan|Uzbekistan|41.6139|64.2332|Asia/Samarkand|5
+DRG|PADE|Deering Airport|Deering|United States|66.0696|-162.766|America/Anchorage|-9
+LEN|LELN|Leon Airport|Leon|Spain|42.589|-5.6556|Europe/Madrid|1
+RGS|LEBG|Burgos Airport|Burgos|Spain|42.3576|-3.6208|Europe/Madrid|1
+EGM|AGGS|Sege Airport|Sege|Solomon Islands|-8.5789|157.876|Pacific/Guadalcanal|11
+CQD|OIFS|Shahrekord Airport|Shahre Kord|Iran|32.2972|50.8422|Asia/Tehran|3.5
+DHM|VIGG|Kangra Airport|Kangra|India|32.1651|76.2634|Asia/Calcutta|5.5
+NDC|VAND|Nanded Airport|Nanded|India|19.1833|77.3167|Asia/Calcutta|5.5
+SLV|VISM|Shimla Airport|Shimla|India|31.0818|77.068|Asia/Calcutta|5.5
+IGG|PAIG|Igiugig Airport|Igiugig|United States|59.324|-155.902|America/Anchorage|-9
+KNW|PANW|New Stuyahok Airport|New Stuyahok|United States|59.4499|-157.328|America/Anchorage|-9
+KVC|PAVC|King Cove Airport|King Cove|United States|55.1163|-162.266|America/Anchorage|-9
+PTH|PAPH|Port Heiden Airport|Port Heiden|United States|56.9591|-158.633|America/Anchorage|-9
+TOG|PATG|Togiak Airport|Togiak Village|United States|59.0528|-160.397|America/Anchorage|-9
+EGN|HSGN|Geneina Airport|Geneina|Sudan|13.4817|22.4672|Africa/Khartoum|3
+LKH|WBGL|Long Akah Airport|Long Akah|Malaysia|3.3|114.783|Asia/Kuala_Lumpur|8
+WLH|NVSW|Walaha Airport|Walaha|Vanuatu|-15.412|167.691|Pacific/Efate|11
+CHG|ZYCY|Chaoyang Airport|Chaoyang|China|41.5381|120.435|Asia/Shanghai|8
+UAS|HKSB|Buffalo Spring|Samburu South|Kenya|0.5306|37.5342|Africa/Nairobi|3
+BHG|MHBL|Brus Laguna Airport|Brus Laguna|Honduras|15.7631|-84.5436|America/Tegucigalpa|-6
+YVB|CYVB|Bonaventure Airport|Bonaventure|Canada|48.0711|-65.4603|America/Toronto|-5
+SKT|OPST|Sialkot Airport|Sialkot|Pakistan|32.5356|74.3639|Asia/Karachi|5
+PDP|SULS|Capitan Corbeta CA Curbelo International Airport|Punta del Este|Uruguay|-34.8551|-55.0943|America/Montevideo|-3
+WVB|FYWB|Walvis Bay Airport|Walvis Bay|Namibia|-22.9799|14.6453|Africa/Windhoek|1
+MPA|FYKM|Katima Mulilo Airport|Mpacha|Namibia|-17.6344|24.1767|Africa/Windhoek|1
+AOE|LTBY|Anadolu Airport|Eskissehir|Turkey|39.8099|30.5194|Europe/Istanbul|3
+CKZ|LTBH|Çanakkale Airport|Canakkale|Turkey|40.1377|26.4268|Europe/Istanbul|3
+MSR|LTCK|Muş Airport|Mus|Turkey|38.7478|41.6612|Europe/Istanbul|3
+NOP|LTCM|Sinop Airport|Sinop|Turkey|42.0158|35.0664|Europe/Istanbul|3
+TEQ|LTBU|Tekirdağ Çorlu Airport|Çorlu|Turkey|41.1382|27.9191|Europe/Istanbul|3
+YEI|LTBR|Bursa Yenişehir Airport|Yenisehir|Turkey|40.2552|29.5626|Europe/Istanbul|3
+LSS|TFFS|Terre-de-Haut Airport|Les Saintes|Guadeloupe|15.8644|-61.5806|America/Guadeloupe|-4
+KMV|VYKL|Kalay Airport|Kalemyo|Myanmar|23.1888|94.0511|Asia/Rangoon|6.5
+VQS|TJCG|Vieques Airport|Vieques Island|Puerto Rico|18.1158|-65.4227|America/Puerto_Rico|-4
+YIF|CYIF|St Augustin Airport|St-Augustin|Canada|51.2117|-58.6583|America/Blanc-Sablon|-4
+HDM|OIHH|Hamadan Airport|Hamadan|Iran|34.8692|48.5525|Asia/Tehran|3.5
+MRQ|RPUW|Marinduque Airport|Gasan|Philippines|13.361|121.826|Asia/Manila|8
+GFN|YGFN|Grafton Airport|Grafton|Australia|-29.7594|153.03|Australia/Sydney|10
+OAG|YORG|Orange Airport|Orange|Australia|-33.3817|149.133|Australia/Sydney|10
+TRO|YTRE|Taree Airport|Taree|Australia|-31.8886|152.514|Australia/Sydney|10
+COQ|ZMCD|Choibalsan Airport|Choibalsan|Mongolia|48.1357|114.646|Asia/Ulaanbaatar|8
+HOH|LOIH|Hohenems-Dornbirn Airport|Hohenems|Austria|47.385|9.7|Europe/Vienna|1
+ESC|KESC|Delta County Airport|Escanaba|United States|45.7227|-87.0937|America/New_York|-5
+YAK|PAYA|Yakutat Airport|Yakutat|United States|59.5033|-139.66|America/Anchorage|-9
+GUL|YGLB|Goulburn Airport|Goulburn|Australia|-34.8103|149.726|Australia/Sydney|10
+CES|YCNK|Cessnock Airport|Cessnock|Australia|-32.7875|151.342|Australia/Sydney|10
+NSO|YSCO|Scone Airport|Scone|Australia|-32.0372|150.832|Australia/Sydney|10
+DGE|YMDG|Mudgee Airport|Mudgee|Australia|-32.5625|149.611|Australia/Sydney|10
+MTL|YMND|Maitland Airport|Maitland|Australia|-32.7013|151.4929|Australia/Sydney|10
+CPX|TJCP|Benjamin Rivera Noriega Airport|Culebra Island|Puerto Rico|18.3133|-65.3043|America/Puerto_Rico|-4
+MWA|KMWA|Williamson County Regional Airport|Marion|United States|37.755|-89.0111|America/Chicago|-6
+OCN|KOKB|Oceanside Municipal Airport|Fraser Island|Australia|33.2173|-117.354|America/Los_Angeles|-8
+KIK|ORKK|Kirkuk Air Base|Kirkuk|Iraq|35.4695|44.3489|Asia/Baghdad|3
+XJD|OTBH|Al Udeid Air Base|Doha|Qatar|25.1173|51.315|Asia/Qatar|3
+GBZ|NZGB|Great Barrier Aerodrome|Claris|New Zealand|-36.2414|175.472|Pacific/Auckland|12
+IMT|KIMT|Ford Airport|Iron Mountain|United States|45.8184|-88.1145|America/Chicago|-6
+AET|PFAL|Allakaket Airport|Allakaket|United States|66.5518|-152.622|America/Anchorage|-9
+MGC|KMGC|Michigan City Municipal Airport|Michigan City|United States|41.7033|-86.8212|America/Chicago|-6
+SWD|PAWD|Seward Airport|Seward|United States|60.1269|-149.419|America/Anchorage|-9
+GRM|KCKC|Grand Marais Cook County Airport|Grand Marais|United States|47.8383|-90.3829|America/Chicago|-6
+AUW|KAUW|Wausau Downtown Airport|Wausau|United States|44.9262|-89.6266|America/Chicago|-6
+MYP|UTAM|Mary Airport|Mary|Turkmenistan|37.6194|61.8967|Asia/Ashgabat|5
+MVA|BIRL|Reykjahlíð Airport|Myvatn|Iceland|65.6558|-16.9181|Atlantic/Reykjavik|0
+QSA|LELL|Sabadell Airport|Sabadell|Spain|41.5209|2.1051|Europe/Madrid|1
+WSY|YWHI|Whitsunday Island Airport|Airlie Beach|Australia|-20.2761|148.755|Australia/Brisbane|10
+MIE|KMIE|Delaware County Johnson Field|Muncie|United States|40.2423|-85.3959|America/New_York|-5
+LAF|KLAF|Purdue University Airport|Lafayette|United States|40.4123|-86.9369|America/New_York|-5
+VGT|KVGT|North Las Vegas Airport|Las Vegas|United States|36.2107|-115.194|America/Los_Angeles|-8
+ENW|KENW|Kenosha Regional Airport|Kenosha|United States|42.5957|-87.9278|America/Chicago|-6
+MTJ|KMTJ|Montrose Regional Airport|Montrose CO|United States|38.5098|-107.894|America/Denver|-7
+RIW|KRIW|Riverton Regional Airport|Riverton WY|United States|43.0642|-108.46|America/Denver|-7
+PDT|KPDT|Eastern Oregon Regional At Pendleton Airport|Pendleton|United States|45.6951|-118.841|America/Los_Angeles|-8
+LYM|EGMK|Lympne Airport|Lympne|United Kingdom|51.08|1.013|Europe/London|0
+PKH|LGHL|Porto Cheli Airport|Porto Heli|Greece|37.2975|23.1478|Europe/Athens|2
+KTR|YPTN|Tindal Airport|Katherine|Australia|-14.5211|132.378|Australia/Darwin|9.5
+NOA|YSNW|Nowra Airport|Nowra|Australia|-34.9489|150.537|Australia/Sydney|10
+UCK|UKLC|Lutsk Airport|Lutsk|Ukraine|50.6784|25.4872|Europe/Kiev|2
+CEJ|UKRR|Chernihiv Shestovitsa Airport|Chernigov|Ukraine|51.4022|31.1583|Europe/Kiev|2
+BQT|UMBB|Brest Airport|Brest|Belarus|52.1083|23.8981|Europe/Minsk|3
+OSH|KOSH|Wittman Regional Airport|Oshkosh|United States|43.9844|-88.557|America/Chicago|-6
+AGE|EDWG|Wangerooge Airport|Wangerooge|Germany|53.7828|7.9139|Europe/Berlin|1
+BXG|YBDG|Bendigo Airport|Bendigo|Australia|-36.7394|144.33|Australia/Hobart|10
+EAT|KEAT|Pangborn Memorial Airport|Wenatchee|United States|47.3989|-120.207|America/Los_Angeles|-8
+ARE|TJAB|Antonio Nery Juarbe Pol Airport|Arecibo|Puerto Rico|18.45|-66.6753|America/Puerto_Rico|-4
+RIN|AGRC|Ringi Cove Airport|Ringi Cove|Solomon Islands|-8.1264|157.143|Pacific/Guadalcanal|11
+KCK|UIKK|Kirensk Airport|Kirensk|Russia|57.773|108.064|Asia/Irkutsk|8
+UKX|UITT|Ust-Kut Airport|Ust-Kut|Russia|56.8567|105.73|Asia/Irkutsk|8
+RMT|NTAM|Rimatara Airport|Rimatara|French Polynesia|-22.6373|-152.8059||-10
+QLS|LSGL|Lausanne-Blécherette Airport|Lausanne|Switzerland|46.5453|6.6167|Europe/Zurich|1
+ZJI|LSZL|Locarno Airport|Locarno|Switzerland|46.1608|8.8786|Europe/Zurich|1
+QNC|LSGN|Neuchatel Airport|Neuchatel|Switzerland|46.9575|6.8647|Europe/Zurich|1
+TGK|URRT|Taganrog Yuzhny Airport|Taganrog|Russia|47.1983|38.8492|Europe/Moscow|3
+GDZ|URKG|Gelendzhik Airport|Gelendzhik|Russia|44.5821|38.0125|Europe/Moscow|3
+ZIA|UUBW|Zhukovsky International Airport|Ramenskoe|Russia|55.5533|38.15|Europe/Moscow|3
+IAR|UUDL|Tunoshna Airport|Yaroslavl|Russia|57.5607|40.1574|Europe/Moscow|3
+OHE|ZYMH|Gu-Lian Airport|Mohe County|China|52.9128|122.43|Asia/Shanghai|8
+JNG|ZLJN|Jining Qufu Airport|Jining|China|35.2928|116.3467|Asia/Shanghai|8
+DRK|MRDK|Drake Bay Airport|Puntarenas|Costa Rica|8.7189|-83.6417|America/Costa_Rica|-6
+AAT|ZWAT|Altay Air Base|Altay|China|47.7499|88.0858|Asia/Shanghai|8
+TZL|LQTZ|Tuzla International Airport|Null|Bosnia and Herzegovina|44.4587|18.7248|Europe/Sarajevo|1
+FWH|KNFW|NAS Fort Worth JRB/Carswell Field|Dallas|United States|32.7692|-97.4415|America/Chicago|-6
+NYT|VYEL|Naypyidaw Airport|Naypyidaw|Burma|19.6235|96.201|Asia/Rangoon|6.5
+VBP|VYBP|Bokpyinn Airport|Bokepyin|Burma|11.1494|98.7359|Asia/Rangoon|6.5
+NZH|ZBMZ|Manzhouli Xijiao Airport|Manzhouli|China|49.5667|117.33|Asia/Shanghai|8
+WUA|ZBUH|Wuhai Airport|Wuhai|China|39.7934|106.7993|Asia/Shanghai|8
+GYY|KGYY|Gary Chicago International Airport|Gary|United States|41.6163|-87.4128|America/Chicago|-6
+BRD|KBRD|Brainerd Lakes Regional Airport|Brainerd|United States|46.3983|-94.1381|America/Chicago|-6
+LWB|KLWB|Greenbrier Valley Airport|Lewisburg|United States|37.8583|-80.3995|America/New_York|-5
+PGV|KPGV|Pitt Greenville Airport|Greenville|United States|35.6352|-77.3853|America/New_York|-5
+CYF|PACK|Chefornak Airport|Chefornak|United States|60.1492|-164.286|America/Anchorage|-9
+OXR|KOXR|Oxnard Airport|Oxnard|United States|34.2008|-119.207|America/Los_Angeles|-8
+BKG|KBBG|Branson Airport|Branson|United States|36.5321|-93.2005|America/Chicago|-6
+TEN|ZUTR|Tongren Fenghuang Airport|Tongren|China|27.8833|109.3089|Asia/Shanghai|8
+JGS|ZSJA|Jinggangshan Airport|Jian|China|26.8569|114.737|Asia/Shanghai|8
+NIU|NTKN|Naiu Airport|Niau|French Polynesia|-16.1191|-146.3683|Pacific/Tahiti|-10
+SCH|KSCH|Schenectady County Airport|Scotia NY|United States|42.8525|-73.9289|America/New_York|-5
+NBC|UWKE|Begishevo Airport|Nizhnekamsk|Russia|55.5647|52.0925|Europe/Moscow|3
+QRW|DNSU|Warri Airport|Osubi|Nigeria|5.5961|5.8178|Africa/Lagos|1
+IAO|RPNS|Siargao Airport|Siargao|Philippines|9.8591|126.014|Asia/Manila|8
+LGO|EDWL|Langeoog Airport|Langeoog|Germany|53.7425|7.4978|Europe/Berlin|1
+NLP|FANS|Nelspruit Airport|Nelspruit|South Africa|-25.5|30.9138|Africa/Johannesburg|2
+CKC|UKKE|Cherkasy International Airport|Cherkassy|Ukraine|49.4156|31.9953|Europe/Kiev|2
+UST|KSGJ|Northeast Florida Regional Airport|St. Augustine Airport|United States|29.9592|-81.3398|America/New_York|-5
+NLV|UKON|Mykolaiv International Airport|Nikolayev|Ukraine|47.0579|31.9198|Europe/Kiev|2
+RHP|VNRC|Ramechhap Airport|Ramechhap|Nepal|27.394|86.0614|Asia/Katmandu|5.75
+STS|KSTS|Charles M. Schulz Sonoma County Airport|Santa Rosa|United States|38.509|-122.813|America/Los_Angeles|-8
+ISM|KISM|Kissimmee Gateway Airport|Kissimmee|United States|28.2898|-81.4371|America/New_York|-5
+LCQ|KLCQ|Lake City Gateway Airport|Lake City|United States|30.182|-82.5769|America/New_York|-5
+LGU|KLGU|Logan-Cache Airport|Logan|United States|41.7912|-111.852|America/Denver|-7
+BMC|KBMC|Brigham City Regional Airport|Brigham City|United States|41.5524|-112.062|America/Denver|-7
+ASE|KASE|Aspen-Pitkin Co/Sardy Field|Aspen|United States|39.2232|-106.869|America/Denver|-7
+ULV|UWLL|Ulyanovsk Baratayevka Airport|Ulyanovsk|Russia|54.2683|48.2267|Europe/Samara|4
+ERV|KERV|Kerrville Municipal Louis Schreiner Field|Kerrville|United States|29.9767|-99.0857|America/Chicago|-6
+GED|KGED|Sussex County Airport|Georgetown|United States|38.6892|-75.3589|America/New_York|-5
+ZSW|CZSW|Prince Rupert/Seal Cove Seaplane Base|Prince Rupert|Canada|54.3333|-130.283|America/Vancouver|-8
+GBD|KGBD|Great Bend Municipal Airport|Great Bend|United States|38.3443|-98.8592|America/Chicago|-6
+HYS|KHYS|Hays Regional Airport|Hays|United States|38.8422|-99.2732|America/Chicago|-6
+SUS|KSUS|Spirit of St Louis Airport|Null|United States|38.6621|-90.652|America/Chicago|-6
+LYU|KELO|Ely Municipal Airport|Ely|United States|47.8245|-91.8307|America/Chicago|-6
+GPZ|KGPZ|Grand Rapids Itasca Co-Gordon Newstrom field|Grand Rapids MN|United States|47.2111|-93.5098|America/Chicago|-6
+TVF|KTVF|Thief River Falls Regional Airport|Thief River Falls|United States|48.0657|-96.185|America/Chicago|-6
+EGV|KEGV|Eagle River Union Airport|Eagle River|United States|45.9323|-89.2683|America/Chicago|-6
+ARV|KARV|Lakeland-Noble F. Lee Memorial field|Minocqua - Woodruff|United States|45.9279|-89.7309|America/Chicago|-6
+YBV|CYBV|Berens River Airport|Berens River|Canada|52.3589|-97.0183|America/Winnipeg|-6
+AVX|KAVX|Catalina Airport|Catalina Island|United States|33.4049|-118.416|America/Los_Angeles|-8
+MHV|KMHV|Mojave Airport|Mojave|United States|35.0594|-118.152|America/Los_Angeles|-8
+ZIN|LSMI|Interlaken Air Base|Interlaken|Switzerland|46.6766|7.8791|Europe/Zurich|1
+INQ|EIIR|Inisheer Aerodrome|Inisheer|Ireland|53.0647|-9.5109|Europe/Dublin|0
+SWT|UNSS|Strezhevoy Airport|Strezhevoy|Russia|60.7094|77.66|Asia/Krasnoyarsk|7
+HUT|KHUT|Hutchinson Municipal Airport|Hutchinson|United States|38.0655|-97.8606|America/Chicago|-6
+OAI|OAIX|Bagram Air Base|Kabul|Afghanistan|34.9461|69.265|Asia/Kabul|4.5
+AKH|OEPS|Prince Sultan Air Base|Al Kharj|Saudi Arabia|24.0627|47.5805|Asia/Riyadh|3
+STJ|KSTJ|Rosecrans Memorial Airport|Rosecrans|United States|39.7719|-94.9097|America/Chicago|-6
+VOK|KVOK|Volk Field|Camp Douglas|United States|43.939|-90.2534|America/Chicago|-6
+GUC|KGUC|Gunnison Crested Butte Regional Airport|Gunnison|United States|38.5339|-106.933|America/Denver|-7
+SIA|ZLSN|Xi'an Xiguan Airport|Xi'AN|China|34.3767|109.12|Asia/Shanghai|8
+TOA|KTOA|Zamperini Field|Torrance|United States|33.8034|-118.34|America/Los_Angeles|-8
+MBL|KMBL|Manistee Co Blacker Airport|Manistee|United States|44.2724|-86.2469|America/New_York|-5
+PGD|KPGD|Charlotte County Airport|Punta Gorda|United States|26.9202|-81.9905|America/New_York|-5
+WFK|KFVE|Northern Aroostook Regional Airport|Frenchville|United States|47.2855|-68.3128|America/New_York|-5
+JHW|KJHW|Chautauqua County-Jamestown Airport|Jamestown|United States|42.1534|-79.258|America/New_York|-5
+YTM|CYFJ|La Macaza / Mont-Tremblant International Inc Airport|Mont-Tremblant|Canada|46.4094|-74.78|America/Toronto|-5
+SME|KSME|Lake Cumberland Regional Airport|Somerset|United States|37.0534|-84.6159|America/New_York|-5
+SHD|KSHD|Shenandoah Valley Regional Airport|Weyers Cave|United States|38.2638|-78.8964|America/New_York|-5
+DVL|KDVL|Devils Lake Regional Airport|Devils Lake|United States|48.1142|-98.9088|America/Chicago|-6
+DIK|KDIK|Dickinson Theodore Roosevelt Regional Airport|Dickinson|United States|46.7974|-102.802|America/Denver|-7
+SDY|KSDY|Sidney - Richland Regional Airport|Sidney|United States|47.7069|-104.193|America/Denver|-7
+CDR|KCDR|Chadron Municipal Airport|Chadron|United States|42.8376|-103.095|America/Denver|-7
+AIA|KAIA|Alliance Municipal Airport|Alliance|United States|42.0532|-102.804|America/Denver|-7
+MCK|KMCK|Mc Cook Ben Nelson Regional Airport|McCook|United States|40.2063|-100.592|America/Chicago|-6
+MTH|KMTH|The Florida Keys Marathon Airport|Marathon|United States|24.7261|-81.0514|America/New_York|-5
+GDV|KGDV|Dawson Community Airport|Glendive|United States|47.1387|-104.807|America/Denver|-7
+OLF|KOLF|L M Clayton Airport|Wolf Point|United States|48.0945|-105.575|America/Denver|-7
+WYS|KWYS|Yellowstone Airport|West Yellowstone|United States|44.6884|-111.118|America/Denver|-7
+ALS|KALS|San Luis Valley Regional Bergman Field|Alamosa|United States|37.4349|-105.867|America/Denver|-7
+CNY|KCNY|Canyonlands Field|Moab|United States|38.755|-109.755|America/Denver|-7
+ELY|KELY|Ely Airport Yelland Field|Ely|United States|39.2997|-114.842|America/Los_Angeles|-8
+VEL|KVEL|Vernal Regional Airport|Vernal|United States|40.4409|-109.51|America/Denver|-7
+RUI|KSRR|Sierra Blanca Regional Airport|Ruidoso|United States|33.4628|-105.535|America/Denver|-7
+SOW|KSOW|Show Low Regional Airport|Show Low|United States|34.2655|-110.006|America/Phoenix|-7
+MYL|KMYL|McCall Municipal Airport|McCall|United States|44.8897|-116.101|America/Denver|-7
+SMN|KSMN|Lemhi County Airport|Salmon|United States|45.1238|-113.881|America/Denver|-7
+MMH|KMMH|Mammoth Yosemite Airport|Mammoth Lakes|United States|37.6241|-118.838|America/Los_Angeles|-8
+FRD|KFHR|Friday Harbor Airport|Friday Harbor|United States|48.522|-123.024|America/Los_Angeles|-8
+ESD|KORS|Orcas Island Airport|Eastsound|United States|48.7082|-122.91|America/Los_Angeles|-8
+AST|KAST|Astoria Regional Airport|Astoria|United States|46.158|-123.879|America/Los_Angeles|-8
+ONP|KONP|Newport Municipal Airport|Newport|United States|44.5804|-124.058|America/Los_Angeles|-8
+EMK|PAEM|Emmonak Airport|Emmonak|United States|62.7861|-164.491|America/Anchorage|-9
+UNK|PAUN|Unalakleet Airport|Unalakleet|United States|63.8884|-160.799|America/Anchorage|-9
+UUK|PAKU|Ugnu-Kuparuk Airport|Kuparuk|United States|70.3308|-149.598|America/Anchorage|-9
+SHX|PAHX|Shageluk Airport|Shageluk|United States|62.6923|-159.569|America/Anchorage|-9
+CHU|PACH|Chuathbaluk Airport|Chuathbaluk|United States|61.5791|-159.216|America/Anchorage|-9
+NUI|PAQT|Nuiqsut Airport|Nuiqsut|United States|70.21|-151.006|America/Anchorage|-9
+EEK|PAEE|Eek Airport|Eek|United States|60.2137|-162.0439|America/Anchorage|-9
+KUK|PFKA|Kasigluk Airport|Kasigluk|United States|60.8744|-162.524|America/Anchorage|-9
+KWT|PFKW|Kwethluk Airport|Kwethluk|United States|60.7903|-161.444|America/Anchorage|-9
+KWK|PAGG|Kwigillingok Airport|Kwigillingok|United States|59.8765|-163.169|America/Anchorage|-9
+MLL|PADM|Marshall Don Hunter Sr Airport|Marshall|United States|61.8643|-162.026|America/Anchorage|-9
+RSH|PARS|Russian Mission Airport|Russian Mission|United States|61.7789|-161.3195|America/Anchorage|-9
+KGK|PAJZ|Koliganek Airport|Koliganek|United States|59.7266|-157.259|America/Anchorage|-9
+KMO|PAMB|Manokotak Airport|Manokotak|United States|58.9902|-159.05|America/Anchorage|-9
+CIK|PACI|Chalkyitsik Airport|Chalkyitsik|United States|66.645|-143.74|America/Anchorage|-9
+EAA|PAEG|Eagle Airport|Eagle|United States|64.7764|-141.151|America/Anchorage|-9
+HUS|PAHU|Hughes Airport|Hughes|United States|66.0411|-154.263|America/Anchorage|-9
+HSL|PAHL|Huslia Airport|Huslia|United States|65.6979|-156.351|America/Anchorage|-9
+NUL|PANU|Nulato Airport|Nulato|United States|64.7293|-158.074|America/Anchorage|-9
+VEE|PAVE|Venetie Airport|Venetie|United States|67.0087|-146.366|America/Anchorage|-9
+WBQ|PAWB|Beaver Airport|Beaver|United States|66.3622|-147.407|America/Anchorage|-9
+CEM|PACE|Central Airport|Central|United States|65.5738|-144.783|America/Anchorage|-9
+SHG|PAGH|Shungnak Airport|Shungnak|United States|66.8881|-157.162|America/Anchorage|-9
+IYK|KIYK|Inyokern Airport|Inyokern|United States|35.6588|-117.83|America/Los_Angeles|-8
+VIS|KVIS|Visalia Municipal Airport|Visalia|United States|36.3187|-119.393|America/Los_Angeles|-8
+MCE|KMCE|Merced Regional Macready Field|Merced|United States|37.2847|-120.514|America/Los_Angeles|-8
+CYR|SUCA|Laguna de Los Patos International Airport|Colonia|Uruguay|-34.4564|-57.7706|America/Montevideo|-3
+CPQ|SDAM|Amarais Airport|Campinas|Brazil|-22.8592|-47.1082|America/Sao_Paulo|-3
+GYR|KGYR|Phoenix Goodyear Airport|Goodyear|United States|33.4225|-112.376|America/Phoenix|-7
+TWB|YTWB|Toowoomba Airport|Toowoomba|Australia|-27.5428|151.916|Australia/Brisbane|10
+BBL|YLLE|Ballera Airport|Ballera|Australia|-27.4056|141.8095|Australia/Brisbane|10
+AYK|UAUR|Arkalyk North Airport|Arkalyk|Kazakhstan|50.3186|66.9528|Asia/Qyzylorda|6
+AGN|PAGN|Angoon Seaplane Base|Angoon|United States|57.5036|-134.585|America/Anchorage|-9
+ELV|PAEL|Elfin Cove Seaplane Base|Elfin Cove|United States|58.1952|-136.347|America/Anchorage|-9
+FNR|PANR|Funter Bay Seaplane Base|Funter Bay|United States|58.2544|-134.898|America/Anchorage|-9
+HNH|PAOH|Hoonah Airport|Hoonah|United States|58.0961|-135.4101|America/Anchorage|-9
+MTM|PAMM|Metlakatla Seaplane Base|Metakatla|United States|55.131|-131.578|America/Anchorage|-9
+HYG|PAHY|Hydaburg Seaplane Base|Hydaburg|United States|55.2063|-132.828|America/Anchorage|-9
+EGX|PAII|Egegik Airport|Egegik|United States|58.1855|-157.375|America/Anchorage|-9
+KPV|PAPE|Perryville Airport|Perryville|United States|55.906|-159.163|America/Anchorage|-9
+PIP|PAPN|Pilot Point Airport|Pilot Point|United States|57.5804|-157.572|America/Anchorage|-9
+WSN|PFWS|South Naknek Nr 2 Airport|South Naknek|United States|58.7034|-157.008|America/Anchorage|-9
+AKK|PAKH|Akhiok Airport|Akhiok|United States|56.9387|-154.183|America/Anchorage|-9
+KYK|PAKY|Karluk Airport|Karluk|United States|57.5671|-154.45|America/Anchorage|-9
+KLN|PALB|Larsen Bay Airport|Larsen Bay|United States|57.5351|-153.978|America/Anchorage|-9
+ABL|PAFM|Ambler Airport|Ambler|United States|67.1063|-157.857|America/Anchorage|-9
+BKC|PABL|Buckland Airport|Buckland|United States|65.9816|-161.149|America/Anchorage|-9
+IAN|PAIK|Bob Baker Memorial Airport|Kiana|United States|66.976|-160.437|America/Anchorage|-9
+OBU|PAOB|Kobuk Airport|Kobuk|United States|66.9123|-156.897|America/Anchorage|-9
+ORV|PFNO|Robert (Bob) Curtis Memorial Airport|Noorvik|United States|66.8179|-161.019|America/Anchorage|-9
+WLK|PASK|Selawik Airport|Selawik|United States|66.6001|-159.986|America/Anchorage|-9
+KTS|PFKT|Brevig Mission Airport|Brevig Mission|United States|65.3313|-166.466|America/Anchorage|-9
+ELI|PFEL|Elim Airport|Elim|United States|64.6147|-162.272|America/Anchorage|-9
+GLV|PAGL|Golovin Airport|Golovin|United States|64.5505|-163.007|America/Anchorage|-9
+TLA|PATE|Teller Airport|Teller|United States|65.2404|-166.339|America/Anchorage|-9
+WAA|PAIW|Wales Airport|Wales|United States|65.6226|-168.095|America/Anchorage|-9
+WMO|PAWM|White Mountain Airport|White Mountain|United States|64.6892|-163.413|America/Anchorage|-9
+KKA|PAKK|Koyuk Alfred Adams Airport|Koyuk|United States|64.9395|-161.154|America/Anchorage|-9
+SMK|PAMK|St Michael Airport|St. Michael|United States|63.4901|-162.11|America/Anchorage|-9
+SKK|PFSH|Shaktoolik Airport|Shaktoolik|United States|64.3711|-161.224|America/Anchorage|-9
+TNC|PATC|Tin City Long Range Radar Station Airport|Tin City|United States|65.5631|-167.922|America/Anchorage|-9
+AKB|PAAK|Atka Airport|Atka|United States|52.2203|-174.206|America/Adak|-10
+IKO|PAKO|Nikolski Air Station|Nikolski|United States|52.9416|-168.849|America/Anchorage|-9
+CYT|PACY|Yakataga Airport|Yakataga|United States|60.081|-142.4945|America/Anchorage|-9
+AUK|PAUK|Alakanuk Airport|Alakanuk|United States|62.68|-164.6599|America/Anchorage|-9
+KPN|PAKI|Kipnuk Airport|Kipnuk|United States|59.933|-164.031|America/Anchorage|-9
+KFP|PAKF|False Pass Airport|False Pass|United States|54.8474|-163.41|America/Anchorage|-9
+NLG|PAOU|Nelson Lagoon Airport|Nelson Lagoon|United States|56.0075|-161.16|America/Anchorage|-9
+PML|PAAL|Port Moller Airport|Cold Bay|United States|56.006|-160.561|America/Anchorage|-9
+KLW|PAKW|Klawock Airport|Klawock|United States|55.5792|-133.076|America/Anchorage|-9
+KWN|PAQH|Quinhagak Airport|Quinhagak|United States|59.7551|-161.845|America/Anchorage|-9
+KOT|PFKO|Kotlik Airport|Kotlik|United States|63.0306|-163.533|America/Anchorage|-9
+KYU|PFKU|Koyukuk Airport|Koyukuk|United States|64.8761|-157.727|America/Anchorage|-9
+SCM|PACM|Scammon Bay Airport|Scammon Bay|United States|61.8453|-165.571|America/Anchorage|-9
+NNL|PANO|Nondalton Airport|Nondalton|United States|59.9802|-154.839|America/Anchorage|-9
+KKH|PADY|Kongiganak Airport|Kongiganak|United States|59.9608|-162.881|America/Anchorage|-9
+NIB|PAFS|Nikolai Airport|Nikolai|United States|63.0186|-154.358|America/Anchorage|-9
+AKI|PFAK|Akiak Airport|Akiak|United States|60.9029|-161.231|America/Anchorage|-9
+AIN|PAWI|Wainwright Airport|Wainwright|United States|70.638|-159.995|America/Anchorage|-9
+APZ|SAHZ|Zapala Airport|ZAPALA|Argentina|-38.9755|-70.1136|America/Argentina/Salta|-3
+RDS|SAHS|Rincon De Los Sauces Airport|Rincon de los Sauces|Argentina|-37.3906|-68.9042|America/Argentina/Salta|-3
+PNT|SCNT|Tte. Julio Gallardo Airport|Puerto Natales|Chile|-51.6715|-72.5284|America/Santiago|-4
+SGV|SAVS|Sierra Grande Airport|Sierra Grande|Argentina|-41.5917|-65.3394|America/Argentina/Salta|-3
+IGB|SAVJ|Cabo F.A.A. H. R. Bordón Airport|Ingeniero Jacobacci|Argentina|-41.3209|-69.5749|America/Argentina/Salta|-3
+NCN|PFCB|Chenega Bay Airport|Chenega|United States|60.0773|-147.992|America/Anchorage|-9
+TKJ|PFTO|Tok Junction Airport|Tok|United States|63.3295|-142.954|America/Anchorage|-9
+IRC|PACR|Circle City /New/ Airport|Circle|United States|65.8305|-144.076|America/Anchorage|-9
+SLQ|PASL|Sleetmute Airport|Sleetmute|United States|61.7005|-157.166|America/Anchorage|-9
+LMA|PAMH|Minchumina Airport|Lake Minchumina|United States|63.886|-152.302|America/Anchorage|-9
+MLY|PAML|Manley Hot Springs Airport|Manley Hot Springs|United States|64.9976|-150.644|America/Anchorage|-9
+YNP|CNH2|Natuashish Airport|Natuashish|Canada|55.9139|-61.1844|America/Halifax|-4
+YSO|CCD4|Postville Airport|Postville|Canada|54.9105|-59.7851|America/Halifax|-4
+YWB|CYKG|Kangiqsujuaq (Wakeham Bay) Airport|Kangiqsujuaq|Canada|61.5886|-71.9294|America/Toronto|-5
+YTF|CYTF|Alma Airport|Alma|Canada|48.5089|-71.6419|America/Toronto|-5
+YGV|CYGV|Havre St Pierre Airport|Havre-Saint-Pierre|Canada|50.2819|-63.6114|America/Toronto|-5
+YXK|CYXK|Rimouski Airport|Rimouski|Canada|48.4781|-68.4969|America/Toronto|-5
+XTL|CYBQ|Tadoule Lake Airport|Tadoule Lake|Canada|58.7061|-98.5122|America/Winnipeg|-6
+XLB|CZWH|Lac Brochet Airport|Lac Brochet|Canada|58.6175|-101.469|America/Winnipeg|-6
+XSI|CZSN|South Indian Lake Airport|South Indian Lake|Canada|56.7928|-98.9072|America/Winnipeg|-6
+YBT|CYBT|Brochet Airport|Brochet|Canada|57.8894|-101.679|America/Winnipeg|-6
+ZGR|CZGR|Little Grand Rapids Airport|Little Grand Rapids|Canada|52.0456|-95.4658|America/Winnipeg|-6
+YCR|CYCR|Cross Lake (Charlie Sinclair Memorial) Airport|Cross Lake|Canada|54.6106|-97.7608|America/Winnipeg|-6
+YRS|CYRS|Red Sucker Lake Airport|Red Sucker Lake|Canada|54.1672|-93.5572|America/Winnipeg|-6
+YOP|CYOP|Rainbow Lake Airport|Rainbow Lake|Canada|58.4914|-119.408|America/Edmonton|-7
+YBY|CYBF|Bonnyville Airport|Bonnyville|Canada|54.3042|-110.744|America/Edmonton|-7
+ZNA|CAC8|Nanaimo Harbour Water Airport|Nanaimo|Canada|49.1833|-123.95|America/Vancouver|-8
+YGG|CAX6|Ganges Seaplane Base|Ganges|Canada|48.8545|-123.4969|America/Vancouver|-8
+YDT|CZBB|Boundary Bay Airport|Boundary Bay|Canada|49.0742|-123.012|America/Vancouver|-8
+YLY|CYNJ|Langley Airport|Langley Township|Canada|49.1008|-122.631|America/Vancouver|-8
+YFJ|CFJ2|Wekweètì Airport|Wekweeti|Canada|64.1908|-114.077|America/Edmonton|-7
+RNI|MNCI|Corn Island|Corn Island|Nicaragua|12.1629|-83.0638|America/Managua|-6
+BZA|MNBZ|San Pedro Airport|Bonanza|Nicaragua|13.95|-84.6|America/Managua|-6
+RFS|MNRT|Rosita Airport|Rosita|Nicaragua|13.8897|-84.4089|America/Managua|-6
+SIU|MNSI|Siuna|Siuna|Nicaragua|13.7272|-84.7778|America/Managua|-6
+WSP|MNWP|Waspam Airport|Waspam|Nicaragua|14.7392|-83.9694|America/Managua|-6
+NCR|MNSC|San Carlos|San Carlos|Nicaragua|11.1334|-84.77|America/Managua|-6
+PLD|MRCR|Playa Samara/Carrillo Airport|Carrillo|Costa Rica|9.8705|-85.4814|America/Costa_Rica|-6
+COZ|MDCZ|Constanza - Expedición 14 de Junio National Airport|Constanza|Dominican Republic|18.9075|-70.7219|America/Santo_Domingo|-4
+NEG|MKNG|Negril Airport|Negril|Jamaica|18.3428|-78.3321|America/Jamaica|-5
+NRR|TJRV|José Aponte de la Torre Airport|Ceiba|Puerto Rico|18.2453|-65.6434|America/Puerto_Rico|-4
+SPB|VI22|Charlotte Amalie Harbor Seaplane Base|Charlotte Amalie|Virgin Islands|18.3386|-64.9407|America/St_Thomas|-4
+ARR|SAVR|D. Casimiro Szlapelis Airport|Alto Rio Senguer|Argentina|-45.0136|-70.8122|America/Catamarca|-3
+JSM|SAWS|Jose De San Martin Airport|Jose de San Martin|Argentina|-44.0486|-70.4589|America/Catamarca|-3
+UYU|SLUY|Uyuni Airport|Uyuni|Bolivia|-20.4463|-66.8484|America/La_Paz|-4
+RBQ|SLRQ|Rurenabaque Airport|Rerrenabaque|Bolivia|-14.4279|-67.4968|America/La_Paz|-4
+ABF|NGAB|Abaiang Airport|Abaiang Atoll|Kiribati|1.7986|173.041|Pacific/Tarawa|12
+ABN|SMBN|Albina Airport|Albina|Suriname|5.5127|-54.0501|America/Paramaribo|-3
+DRJ|SMDA|Drietabbetje Airport|Drietabbetje|Suriname|4.1114|-54.6728|America/Paramaribo|-3
+MOJ|SMMO|Moengo Airstrip|Moengo|Suriname|5.6076|-54.4003|America/Paramaribo|-3
+ICK|SMNI|Nieuw Nickerie Airport|Nieuw Nickerie|Suriname|5.9556|-57.0394|America/Paramaribo|-3
+OEM|SMPA|Vincent Fayks Airport|Paloemeu|Suriname|3.3453|-55.4425|America/Paramaribo|-3
+SMZ|SMST|Stoelmanseiland Airport|Stoelmans Eiland|Suriname|4.35|-54.4167|America/Paramaribo|-3
+TOT|SMCO|Totness Airport|Totness|Suriname|5.8658|-56.3275|America/Paramaribo|-3
+AGI|SMWA|Wageningen Airstrip|Wageningen|Suriname|5.8411|-56.6733|America/Paramaribo|-3
+ORJ|SYOR|Orinduik Airport|Orinduik|Guyana|4.7253|-60.035|America/Guyana|-4
+NAI|SYAN|Annai Airport|Annai|Guyana|3.9594|-59.1242|America/Guyana|-4
+IMB|SYIB|Imbaimadai Airport|Imbaimadai|Guyana|5.7081|-60.2942|America/Guyana|-4
+KAR|SYKM|Kamarang Airport|Kamarang|Guyana|5.8653|-60.6142|America/Guyana|-4
+USI|SYMB|Mabaruma Airport|Mabaruma|Guyana|8.2|-59.7833|America/Guyana|-4
+MHA|SYMD|Mahdia Airport|Mahdia|Guyana|5.2775|-59.1511|America/Guyana|-4
+PJC|SGPJ|Dr Augusto Roberto Fuster International Airport|Pedro Juan Caballero|Paraguay|-22.64|-55.83|America/Asuncion|-4
+ACD|SKAD|Alcides Fernández Airport|Acandi|Colombia|8.5167|-77.3|America/Bogota|-5
+RVE|SKSA|Los Colonizadores Airport|Saravena|Colombia|6.9519|-71.8572|America/Bogota|-5
+BQJ|UEBB|Batagay Airport|Batagay|Russia|67.648|134.695|Asia/Vladivostok|10
+VGZ|SKVG|Villa Garzón Airport|Villa Garzon|Colombia|0.9788|-76.6056|America/Bogota|-5
+EBG|SKEB|El Bagre Airport|El Bagre|Colombia|7.5965|-74.8089|America/Bogota|-5
+CAQ|SKCU|Juan H White Airport|Caucasia|Colombia|7.9685|-75.1985|America/Bogota|-5
+COG|SKCD|Mandinga Airport|Condoto|Colombia|5.0833|-76.7|America/Bogota|-5
+TLU|SKTL|Golfo de Morrosquillo Airport|Tolu|Colombia|9.5094|-75.5854|America/Bogota|-5
+CFB|SBCB|Cabo Frio Airport|Cabo Frio|Brazil|-22.9217|-42.0743|America/Sao_Paulo|-3
+OPS|SWSI|Presidente João Batista Figueiredo Airport|Sinop|Brazil|-11.885|-55.5861|America/Campo_Grande|-4
+GRP|SWGI|Gurupi Airport|Gurupi|Brazil|-11.7396|-49.1322|America/Fortaleza|-3
+CMP|SNKE|Santana do Araguaia Airport|Santana do Araguaia|Brazil|-9.32|-50.3285|America/Belem|-3
+BVS|SNVS|Breves Airport|Breves|Brazil|-1.6365|-50.4436|America/Belem|-3
+SFK|SNSW|Soure Airport|Soure|Brazil|-0.6994|-48.521|America/Belem|-3
+PIN|SWPI|Parintins Airport|Parintins|Brazil|-2.673|-56.7772|America/Boa_Vista|-4
+BRA|SNBR|Barreiras Airport|Barreiras|Brazil|-12.0789|-45.009|America/Fortaleza|-3
+STZ|SWST|Santa Terezinha Airport|Santa Terezinha|Brazil|-10.4647|-50.5186|America/Campo_Grande|-4
+MQH|SBMC|Minaçu Airport|Minacu|Brazil|-13.5491|-48.1953|America/Sao_Paulo|-3
+AUX|SWGN|Araguaína Airport|Araguaina|Brazil|-7.2279|-48.2405|America/Fortaleza|-3
+NVP|SWNA|Novo Aripuanã Airport|Novo Aripuana|Brazil|-5.118|-60.3649|America/Boa_Vista|-4
+FRC|SIMK|Tenente Lund Pressoto Airport|Franca|Brazil|-20.5922|-47.3829|America/Sao_Paulo|-3
+DOU|SSDO|Dourados Airport|Dourados|Brazil|-22.2019|-54.9266|America/Campo_Grande|-4
+LBR|SWLB|Lábrea Airport|Labrea|Brazil|-7.279|-64.7695|America/Boa_Vista|-4
+ROO|SWRD|Maestro Marinho Franco Airport|Rondonopolis|Brazil|-16.586|-54.7248|America/Campo_Grande|-4
+GPB|SBGU|Tancredo Thomas de Faria Airport|Guarapuava|Brazil|-25.3875|-51.5202|America/Sao_Paulo|-3
+JCB|SSJA|Santa Terezinha Airport|Joacaba|Brazil|-27.1714|-51.5533|America/Sao_Paulo|-3
+RVD|SWLC|General Leite de Castro Airport|Rio Verde|Brazil|-17.8347|-50.9561|America/Sao_Paulo|-3
+AAX|SBAX|Romeu Zema Airport|Araxa|Brazil|-19.5632|-46.9604|America/Sao_Paulo|-3
+MBZ|SWMW|Maués Airport|Maues|Brazil|-3.3722|-57.7248|America/Boa_Vista|-4
+RBB|SWBR|Borba Airport|Borba|Brazil|-4.4063|-59.6024|America/Boa_Vista|-4
+CIZ|SWKO|Coari Airport|Coari|Brazil|-4.1341|-63.1326|America/Boa_Vista|-4
+BAZ|SWBC|Barcelos Airport|Barcelos|Brazil|-0.9813|-62.9196|America/Boa_Vista|-4
+DMT|SWDM|Diamantino Airport|Diamantino|Brazil|-14.3769|-56.4004|America/Campo_Grande|-4
+GNM|SNGI|Guanambi Airport|Guanambi|Brazil|-14.2082|-42.7461|America/Fortaleza|-3
+QDJ|DAFI|Tsletsi Airport|Djelfa|Algeria|34.6657|3.351|Africa/Algiers|1
+NZA|FNZG|Nzagi Airport|Nzagi|Angola|-7.7169|21.3582|Africa/Luanda|1
+LBZ|FNLK|Lucapa Airport|Lucapa|Angola|-8.4457|20.7321|Africa/Luanda|1
+KNP|FNCP|Capanda Airport|Kapanda|Angola|-9.7694|15.4553|Africa/Luanda|1
+AMC|FTTN|Am Timan Airport|Am Timan|Chad|11.034|20.274|Africa/Ndjamena|1
+GSQ|HEOW|Shark El Oweinat International Airport|Sharq Al-Owainat|Egypt|22.5857|28.7166|Africa/Cairo|2
+MRB|KMRB|Eastern WV Regional Airport/Shepherd Field|Martinsburg|United States|39.4019|-77.9846|America/New_York|-5
+AWA|HALA|Awassa Airport|Awasa|Ethiopia|7.067|38.5|Africa/Addis_Ababa|3
+JIJ|HAJJ|Wilwal International Airport|Jijiga|Ethiopia|9.3325|42.9121|Africa/Addis_Ababa|3
+MKS|HAMA|Mekane Selam Airport|Mekane Selam|Ethiopia|10.7254|38.7415|Africa/Addis_Ababa|3
+DBM|HADM|Debra Marcos Airport|Debre Marqos|Ethiopia|10.35|37.717|Africa/Addis_Ababa|3
+DBT|HADT|Debre Tabor Airport|Debre Tabor|Ethiopia|11.967|38|Africa/Addis_Ababa|3
+QHR|HAHM|Harar Meda Airport|Debre Zeyit|Ethiopia|8.7163|39.0059|Africa/Addis_Ababa|3
+GOB|HAGB|Robe Airport|Goba|Ethiopia|7.1161|40.0463|Africa/Addis_Ababa|3
+MYB|FOOY|Mayumba Airport|Mayumba|Gabon|-3.4584|10.6741|Africa/Libreville|1
+MRE|HKMS|Mara Serena Lodge Airstrip|Masai Mara|Kenya|-1.4061|35.0081|Africa/Nairobi|3
+JJM|HKMK|Mulika Lodge Airport|Meru National Park|Kenya|0.1651|38.1951|Africa/Nairobi|3
+RBX|HSMK|Rumbek Airport|Rumbek|Sudan|6.825|29.669|Africa/Juba|3
+CPA|GLCP|Cape Palmas Airport|Greenville|Liberia|4.379|-7.6969|Africa/Monrovia|0
+IHC|FQIA|Inhaca Airport|Inhaca|Mozambique|-25.9971|32.9294|Africa/Maputo|2
+MAX|GOSM|Ouro Sogui Airport|Matam|Senegal|15.5936|-13.3228|Africa/Dakar|0
+BDI|FSSB|Bird Island Airport|Bird Island|Seychelles|-3.7247|55.2053||4
+WHF|HSSW|Wadi Halfa Airport|Wadi Halfa|Sudan|21.8027|31.5216|Africa/Khartoum|3
+NBE|DTNH|Enfidha - Hammamet International Airport|Enfidha|Tunisia|36.0758|10.4386|Africa/Tunis|1
+HTY|LTDA|Hatay Airport|Hatay|Turkey|36.3628|36.2822|Europe/Istanbul|3
+RVV|NTAV|Raivavae Airport|Raivavae|French Polynesia|-23.8852|-147.662|Pacific/Tahiti|-10
+FUO|ZGFS|Foshan Shadi Airport|Foshan|China|23.0833|113.07|Asia/Shanghai|8
+HUZ|ZGHZ|Huizhou Airport|Huizhou|China|23.05|114.6|Asia/Shanghai|8
+ILD|LEDA|Lleida-Alguaire Airport|Lleida|Spain|41.7282|0.535|Europe/Madrid|1
+BIU|BIBD|Bildudalur Airport|Bildudalur|Iceland|65.6413|-23.5462|Atlantic/Reykjavik|0
+GJR|BIGJ|Gjögur Airport|Gjogur|Iceland|65.9953|-21.3269|Atlantic/Reykjavik|0
+SAK|BIKR|Sauðárkrókur Airport|Saudarkrokur|Iceland|65.7317|-19.5728|Atlantic/Reykjavik|0
+IIA|EIMN|Inishmaan Aerodrome|Inishmaan|Ireland|53.093|-9.5681|Europe/Dublin|0
+ULG|ZMUL|Ulgii Mongolei Airport|Olgii|Mongolia|48.9933|89.9225|Asia/Hovd|7
+KQT|UTDT|Qurghonteppa International Airport|Kurgan Tyube|Tajikistan|37.8664|68.8647|Asia/Dushanbe|5
+VGD|ULWW|Vologda Airport|Vologda|Russia|59.2825|39.9444|Europe/Moscow|3
+ONK|UERO|Olenyok Airport|Olenyok|Russia|68.515|112.48|Asia/Yakutsk|9
+SYS|UERS|Saskylakh Airport|Saskylakh|Russia|71.9279|114.08|Asia/Yakutsk|9
+LDG|ULAL|Leshukonskoye Airport|Arkhangelsk|Russia|64.896|45.723|Europe/Moscow|3
+HSK|LEHC|Huesca/Pirineos Airport|Huesca|Spain|42.0761|-0.3167|Europe/Madrid|1
+CQM|LERL|Ciudad Real Central Airport|Ciudad Real|Spain|38.8564|-3.97|Europe/Madrid|1
+NJF|ORNI|Al Najaf International Airport|Najaf|Iraq|31.9899|44.4043|Asia/Baghdad|3
+CSA|EGEY|Colonsay Airstrip|Colonsay|United Kingdom|56.0575|-6.2431|Europe/London|0
+RKH|KUZA|Rock Hill - York County Airport|Rock Hill|United States|34.9878|-81.0572|America/New_York|-5
+AGC|KAGC|Allegheny County Airport|Pittsburgh|United States|40.3544|-79.9302|America/New_York|-5
+VQQ|KVQQ|Cecil Airport|Jacksonville|United States|30.2187|-81.8767|America/New_York|-5
+FTY|KFTY|Fulton County Airport Brown Field|Atlanta|United States|33.7791|-84.5214|America/New_York|-5
+TII|OATN|Tarin Kowt Airport|Tarin Kowt|Afghanistan|32.6042|65.8658|Asia/Kabul|4.5
+ZAJ|OAZJ|Zaranj Airport|Zaranj|Afghanistan|30.9722|61.8658|Asia/Kabul|4.5
+CCN|OACC|Chakcharan Airport|Chaghcharan|Afghanistan|34.533|65.267|Asia/Kabul|4.5
+FUG|ZSFY|Fuyang Xiguan Airport|Fuyang|China|32.8822|115.7344|Asia/Shanghai|8
+LCX|ZSLD|Longyan Guanzhishan Airport|Longyan|China|25.6747|116.747|Asia/Shanghai|8
+BSD|ZPBS|Baoshan Yunduan Airport|Baoshan|China|25.0533|99.1683|Asia/Shanghai|8
+ACX|ZUYI|Xingyi Airport|Xingyi|China|25.0864|104.9594|Asia/Shanghai|8
+HZH|ZUNP|Liping Airport|Liping|China|26.3222|109.1499|Asia/Shanghai|8
+OSU|KOSU|The Ohio State University Airport - Don Scott Field|Columbus|United States|40.0798|-83.073|America/New_York|-5
+ADS|KADS|Addison Airport|Addison|United States|32.9686|-96.8364|America/Chicago|-6
+DSI|KDTS|Destin Executive Airport|Destin|United States|30.4001|-86.4715|America/Chicago|-6
+KHE|UKOH|Kherson International Airport|Kherson|Ukraine|46.6758|32.5064|Europe/Kiev|2
+SZS|NZRC|Ryan's Creek Aerodrome|Stewart Island|New Zealand|-46.8997|168.101|Pacific/Auckland|12
+HJJ|ZGCJ|Zhijiang Airport|Zhijiang|China|27.4411|109.7|Asia/Shanghai|8
+YQI|CYQI|Yarmouth Airport|Yarmouth|Canada|43.8269|-66.0881|America/Halifax|-4
+ISO|KISO|Kinston Regional Jetport At Stallings Field|Kinston|United States|35.3314|-77.6088|America/New_York|-5
+FFA|KFFA|First Flight Airport|Kill Devil Hills|United States|36.0182|-75.6713|America/New_York|-5
+LNJ|ZPLC|Lintsang Airfield|Lincang|China|23.7381|100.025|Asia/Shanghai|8
+CKS|SBCJ|Carajás Airport|Parauapebas|Brazil|-6.1153|-50.0014|America/Belem|-3
+MWK|WIOM|Tarempa Airport|Anambas Islands|Indonesia|3.3481|106.258|Asia/Jakarta|7
+PGU|OIBP|Persian Gulf International Airport|Khalije Fars|Iran|27.3796|52.7377|Asia/Tehran|3.5
+YES|OISY|Yasouj Airport|Yasuj|Iran|30.7005|51.5451|Asia/Tehran|3.5
+OSM|ORBM|Mosul International Airport|Mosul|Iraq|36.3058|43.1474|Asia/Baghdad|3
+TJH|RJBT|Tajima Airport|Toyooka|Japan|35.5128|134.787|Asia/Tokyo|9
+AXJ|RJDA|Amakusa Airport|Amakusa|Japan|32.4825|130.159|Asia/Tokyo|9
+KKX|RJKI|Kikai Airport|Kikai|Japan|28.3213|129.928|Asia/Tokyo|9
+AGJ|RORA|Aguni Airport|Aguni|Japan|26.5925|127.241|Asia/Tokyo|9
+ULZ|ZMDN|Donoi Airport|Uliastai|Mongolia|47.7093|96.5258|Asia/Ulaanbaatar|8
+UGA|ZMBN|Bulgan Airport|Bulgan|Mongolia|48.855|103.476|Asia/Ulaanbaatar|8
+ULO|ZMUG|Ulaangom Airport|Ulaangom|Mongolia|50.0666|91.9383|Asia/Hovd|7
+LBX|RPLU|Lubang Airport|Lubang|Philippines|13.8554|120.105|Asia/Manila|8
+TJU|UTDK|Kulob Airport|Kulyab|Tajikistan|37.9881|69.805|Asia/Dushanbe|5
+CMJ|RCCM|Chi Mei Airport|Cimei|Taiwan|23.2131|119.418|Asia/Taipei|8
+TAZ|UTAT|Daşoguz Airport|Dasoguz|Turkmenistan|41.7611|59.8267|Asia/Ashgabat|5
+BWB|YBWX|Barrow Island Airport|Barrow Island|Australia|-20.8644|115.406|Australia/Perth|8
+DRB|YDBY|Derby Airport|Derby|Australia|-17.37|123.661|Australia/Perth|8
+WGE|YWLG|Walgett Airport|Walgett|Australia|-30.0328|148.126|Australia/Sydney|10
+BRT|YBTI|Bathurst Island Airport|Bathurst Island|Australia|-11.7692|130.62|Australia/Darwin|9.5
+DKI|YDKI|Dunk Island Airport|Dunk Island|Australia|-17.9417|146.14|Australia/Brisbane|10
+LZR|YLZI|Lizard Island Airport|Lizard Island|Australia|-14.6733|145.4546|Australia/Brisbane|10
+HLT|YHML|Hamilton Airport|Hamilton|Australia|-37.6489|142.065|Australia/Hobart|10
+HCQ|YHLC|Halls Creek Airport|Halls Creek|Australia|-18.2339|127.67|Australia/Perth|8
+FIZ|YFTZ|Fitzroy Crossing Airport|Fitzroy Crossing|Australia|-18.1819|125.559|Australia/Perth|8
+RVT|YNRV|Ravensthorpe Airport|Ravensthorpe|Australia|-33.7972|120.208|Australia/Perth|8
+PVU|KPVU|Provo Municipal Airport|Provo|United States|40.2192|-111.723|America/Denver|-7
+SBS|KSBS|Steamboat Springs Bob Adams Field|Steamboat Springs|United States|40.5163|-106.866|America/Denver|-7
+DTA|KDTA|Delta Municipal Airport|Delta|United States|39.3806|-112.508|America/Denver|-7
+PUC|KPUC|Carbon County Regional/Buck Davis Field|Price|United States|39.6139|-110.751|America/Denver|-7
+LAM|KLAM|Los Alamos Airport|Los Alamos|United States|35.8798|-106.269|America/Denver|-7
+HII|KHII|Lake Havasu City Airport|Lake Havasu City|United States|34.5711|-114.358|America/Phoenix|-7
+INW|KINW|Winslow Lindbergh Regional Airport|Winslow|United States|35.0219|-110.723|America/Phoenix|-7
+DGL|KDGL|Douglas Municipal Airport|Douglas|United States|31.3426|-109.506|America/Phoenix|-7
+MZK|NGMK|Marakei Airport|Marakei|Kiribati|2.0586|173.271|Pacific/Tarawa|12
+AEA|NGTB|Abemama Atoll Airport|Abemama|Kiribati|0.4908|173.829|Pacific/Tarawa|12
+AAK|NGUK|Buariki Airport|Buariki|Kiribati|0.1853|173.637||10
+KUC|NGKT|Kuria Airport|Kuria|Kiribati|0.2186|173.442|Pacific/Tarawa|12
+AIS|NGTR|Arorae Island Airport|Arorae|Kiribati|-2.6161|176.803|Pacific/Tarawa|12
+TMN|NGTM|Tamana Island Airport|Tamana|Kiribati|-2.4858|175.97|Pacific/Tarawa|12
+BEZ|NGBR|Beru Airport|Beru Island|Kiribati|-1.3547|176.007|Pacific/Tarawa|12
+NIG|NGNU|Nikunau Airport|Nikunau|Kiribati|-1.3144|176.41|Pacific/Tarawa|12
+BBG|NGTU|Butaritari Atoll Airport|Butaritari|Kiribati|3.0858|172.811|Pacific/Tarawa|12
+MTK|NGMN|Makin Island Airport|Makin|Kiribati|3.3744|172.992|Pacific/Tarawa|12
+MNK|NGMA|Maiana Airport|Maiana|Kiribati|1.0036|173.031|Pacific/Tarawa|12
+NON|NGTO|Nonouti Airport|Nonouti|Kiribati|-0.6397|174.428|Pacific/Tarawa|12
+TSU|NGTS|Tabiteuea South Airport|Tabiteuea|Kiribati|-1.4744|175.064|Pacific/Tarawa|12
+WTZ|NZWT|Whitianga Airport|Whitianga|New Zealand|-36.8317|175.679|Pacific/Auckland|12
+KTF|NZTK|Takaka Airport|Takaka|New Zealand|-40.8133|172.775|Pacific/Auckland|12
+AFT|AGAF|Afutara Aerodrome|Afutara|Solomon Islands|-9.1914|160.9486|Pacific/Guadalcanal|11
+RNA|AGAR|Ulawa Airport|Ulawa|Solomon Islands|-9.8605|161.9795|Pacific/Guadalcanal|11
+CHY|AGGC|Choiseul Bay Airport|Choiseul Bay|Solomon Islands|-6.7119|156.3961|Pacific/Guadalcanal|11
+NNB|AGGT|Santa Ana Airport|Santa Ana|Solomon Islands|-10.848|162.4541|Pacific/Guadalcanal|11
+XYA|AGGY|Yandina Airport|Yandina|Solomon Islands|-9.0928|159.2184|Pacific/Guadalcanal|11
+BPF|AGBT|Batuna Aerodrome|Batuna|Solomon Islands|-8.562|158.1193|Pacific/Guadalcanal|11
+BOW|KBOW|Bartow Municipal Airport|Bartow|United States|27.9434|-81.7834|America/New_York|-5
+FTI|NSFQ|Fitiuta Airport|Fiti'uta|American Samoa|-14.2172|-169.425|Pacific/Pago_Pago|-11
+LVK|KLVK|Livermore Municipal Airport|Livermore|United States|37.6934|-121.82|America/Los_Angeles|-8
+RMY|KMPI|Mariposa Yosemite Airport|Mariposa|United States|37.5109|-120.04|America/Los_Angeles|-8
+GFY|FYGF|Grootfontein Airport|Grootfontein|Namibia|-19.6022|18.1227|Africa/Windhoek|1
+NDU|FYRU|Rundu Airport|Rundu|Namibia|-17.9565|19.7194|Africa/Windhoek|1
+TRM|KTRM|Jacqueline Cochran Regional Airport|Palm Springs|United States|33.6267|-116.16|America/Los_Angeles|-8
+SMO|KSMO|Santa Monica Municipal Airport|Santa Monica|United States|34.0158|-118.451|America/Los_Angeles|-8
+UDD|KUDD|Bermuda Dunes Airport|Palm Springs|United States|33.7484|-116.275|America/Los_Angeles|-8
+SCF|KSDL|Scottsdale Airport|Scottsdale|United States|33.6229|-111.911|America/Phoenix|-7
+OLM|KOLM|Olympia Regional Airport|Olympia|United States|46.9694|-122.903|America/Los_Angeles|-8
+RIL|KRIL|Garfield County Regional Airport|Rifle|United States|39.5263|-107.727|America/Denver|-7
+SAA|KSAA|Shively Field|SARATOGA|United States|41.4449|-106.824|America/Denver|-7
+PDK|KPDK|DeKalb Peachtree Airport|Atlanta|United States|33.8756|-84.302|America/New_York|-5
+BMG|KBMG|Monroe County Airport|Bloomington|United States|39.146|-86.6167|America/New_York|-5
+SUA|KSUA|Witham Field|Stuart|United States|27.1817|-80.2211|America/New_York|-5
+MMU|KMMU|Morristown Municipal Airport|Morristown|United States|40.7994|-74.4149|America/New_York|-5
+APC|KAPC|Napa County Airport|Napa|United States|38.2132|-122.281|America/Los_Angeles|-8
+SDM|KSDM|Brown Field Municipal Airport|San Diego|United States|32.5723|-116.98|America/Los_Angeles|-8
+VNC|KVNC|Venice Municipal Airport|Venice|United States|27.0716|-82.4403|America/New_York|-5
+PHK|KPHK|Palm Beach County Glades Airport|Pahokee|United States|26.785|-80.6934|America/New_York|-5
+ECP|KECP|Northwest Florida Beaches International Airport|Panama City|United States|30.3571|-85.7954|America/Chicago|-6
+SBD|KSBD|San Bernardino International Airport|San Bernardino|United States|34.0954|-117.235|America/Los_Angeles|-8
+VAL|SNVB|Valença Airport|Valenca|Brazil|-13.2965|-38.9924|America/Fortaleza|-3
+CAU|SNRU|Caruaru Airport|Caruaru|Brazil|-8.2824|-36.0135|America/Fortaleza|-3
+AWK|PWAK|Wake Island Airfield|Wake island|Wake Island|19.2821|166.636|Pacific/Johnston|-10
+QNV|SDNY|Aeroclube Airport|Nova Iguacu|Brazil|-22.7453|-43.4603|America/Sao_Paulo|-3
+SQL|KSQL|San Carlos Airport|San Carlos|United States|37.5119|-122.25|America/Los_Angeles|-8
+RWI|KRWI|Rocky Mount Wilson Regional Airport|Rocky Mount|United States|35.8563|-77.8919|America/New_York|-5
+SXQ|PASX|Soldotna Airport|Soldotna|United States|60.4757|-151.034|America/Anchorage|-9
+SEE|KSEE|Gillespie Field|El Cajon|United States|32.8262|-116.972|America/Los_Angeles|-8
+PHA|VVPR|Phan Rang Airport|Phan Rang|Vietnam|11.6335|108.952|Asia/Saigon|7
+SQH|VVNS|Na-San Airport|Son-La|Vietnam|21.217|104.033|Asia/Saigon|7
+TKF|KTRK|Truckee Tahoe Airport|Truckee|United States|39.32|-120.14|America/Los_Angeles|-8
+FRJ|LFTU|Fréjus Airport|Frejus|France|43.4175|6.7357|Europe/Paris|1
+GEX|YGLG|Geelong Airport|Geelong|Australia|-38.225|144.333|Australia/Hobart|10
+LVM|KLVM|Mission Field|Livingston-Montana|United States|45.6994|-110.448|America/Denver|-7
+GMV|UT25|Monument Valley Airport|Monument Valley|United States|37.0167|-110.201|America/Denver|-7
+JRA|KJRA|West 30th St. Heliport|New York|United States|40.7545|-74.0071|America/New_York|-5
+LAL|KLAL|Lakeland Linder International Airport|Lakeland|United States|27.9889|-82.0186|America/New_York|-5
+SYH|VNSB|Syangboche Airport|Syangboche|Nepal|27.8112|86.7124|Asia/Katmandu|5.75
+RBK|KF70|French Valley Airport|Murrieta-Temecula|United States|33.5742|-117.128|America/Los_Angeles|-8
+FNU|LIER|Oristano-Fenosu Airport|Oristano|Italy|39.8953|8.6427|Europe/Rome|1
+MYQ|VOMY|Mysore Airport|Mysore|India|12.23|76.6558|Asia/Calcutta|5.5
+MGY|KMGY|Dayton-Wright Brothers Airport|Dayton|United States|39.589|-84.2249|America/New_York|-5
+FDY|KFDY|Findlay Airport|Findley|United States|41.0135|-83.6687|America/New_York|-5
+PEA|YPSH|Penneshaw Airport|Penneshaw|Australia|-35.7558|137.9629|Australia/Adelaide|9.5
+EMP|KEMP|Emporia Municipal Airport|Kempten|Germany|38.3321|-96.1912|America/Chicago|-6
+HYC|EGTB|Wycombe Air Park|Wycombe|United Kingdom|51.6117|-0.8083|Europe/London|0
+BBP|EGHJ|Bembridge Airport|Bembridge|United Kingdom|50.6781|-1.1094|Europe/London|0
+SPF|KSPF|Black Hills Airport-Clyde Ice Field|Spearfish-South Dakota|United States|44.4803|-103.783|America/Denver|-7
+QYD|EPOK|Oksywie Military Air Base|Gdynia|Poland|54.5797|18.5172|Europe/Warsaw|1
+OLV|KOLV|Olive Branch Airport|Olive Branch|United States|34.9787|-89.7869|America/Chicago|-6
+KNA|SCVM|Viña del mar Airport|Vina del Mar|Chile|-32.9496|-71.4786|America/Santiago|-4
+ONQ|LTAS|Zonguldak Airport|Zonguldak|Turkey|41.5064|32.0886|Europe/Istanbul|3
+BJC|KBJC|Rocky Mountain Metropolitan Airport|Broomfield-CO|United States|39.9088|-105.117|America/Denver|-7
+SLE|KSLE|Salem Municipal Airport/McNary Field|Salem|United States|44.9095|-123.003|America/Los_Angeles|-8
+UTM|KUTA|Tunica Municipal Airport|Tunica|United States|34.681|-90.3467|America/Chicago|-6
+ZKB|FLKY|Kasaba Bay Airport|Kasaba Bay|Zambia|-8.525|30.663|Africa/Lusaka|2
+LND|KLND|Hunt Field|Lindau|Germany|42.8152|-108.73|America/Denver|-7
+MWC|KMWC|Lawrence J Timmerman Airport|Milwaukee|United States|43.1104|-88.0344|America/Chicago|-6
+JVL|KJVL|Southern Wisconsin Regional Airport|Janesville|United States|42.6203|-89.0416|America/Chicago|-6
+LZU|KLZU|Gwinnett County Briscoe Field|Lawrenceville|United States|33.9781|-83.9624|America/New_York|-5
+BWG|KBWG|Bowling Green Warren County Regional Airport|Bowling Green|United States|36.9645|-86.4197|America/Chicago|-6
+RVS|KRVS|Richard Lloyd Jones Jr Airport|Tulsa|United States|36.0396|-95.9846|America/Chicago|-6
+NHD|OMDM|Al Minhad Air Base|Minhad AB|United Arab Emirates|25.0268|55.3662|Asia/Dubai|4
+KGO|UKKG|Kirovograd Airport|Kirovograd|Ukraine|48.5428|32.285|Europe/Kiev|2
+DBB|HEAL|El Alamein International Airport|Dabaa City|Egypt|30.9245|28.4614|Africa/Cairo|2
+BCE|KBCE|Bryce Canyon Airport|Bryce Canyon|United States|37.7064|-112.145|America/Denver|-7
+CKL|UUMU|Chkalovskiy Air Base|Shchyolkovo|Russia|55.8783|38.0617|Europe/Moscow|3
+TCZ|ZUTC|Tengchong Tuofeng Airport|Tengchong|China|24.9381|98.4858|Asia/Shanghai|8
+UKS|UKFB|Belbek Airport|Sevastopol|Ukraine|44.689|33.571|Europe/Simferopol|3
+OAZ|OAZI|Camp Bastion Airport|Camp Bastion|Afghanistan|31.8638|64.2246|Asia/Kabul|4.5
+JCI|KIXD|New Century Aircenter Airport|Olathe|United States|38.8309|-94.8903|America/Chicago|-6
+ESN|KESN|Easton Newnam Field|Easton|United States|38.8042|-76.069|America/New_York|-5
+HMR|ENHA|Stafsberg Airport|Hamar|Norway|60.8181|11.068|Europe/Oslo|1
+MYV|KMYV|Yuba County Airport|Yuba City|United States|39.0978|-121.57|America/Los_Angeles|-8
+DUC|KDUC|Halliburton Field|Duncan|United States|34.4709|-97.9599|America/Chicago|-6
+UVA|KUVA|Garner Field|Uvalde|United States|29.2113|-99.7436|America/Chicago|-6
+LOT|KLOT|Lewis University Airport|Lockport|United States|41.6073|-88.0962|America/Chicago|-6
+CCR|KCCR|Buchanan Field|Concord|United States|37.9897|-122.057|America/Los_Angeles|-8
+OCA|07FA|Ocean Reef Club Airport|Ocean Reef Club Airport|United States|25.3254|-80.2748|America/New_York|-5
+YUS|ZYLS|Yushu Batang Airport|Yushu|China|32.8364|97.0364|Asia/Shanghai|8
+HIA|ZSSH|Lianshui Airport|Huai An|China|33.7908|119.125|Asia/Shanghai|8
+YOO|CYOO|Toronto/Oshawa Executive Airport|Oshawa|Canada|43.9228|-78.895|America/Toronto|-5
+LHA|EDTL|Lahr Airport|Lahr|Germany|48.3693|7.8277|Europe/Berlin|1
+NYW|VYMY|Monywar Airport|Monywa|Burma|22.2216|95.0935|Asia/Rangoon|6.5
+ATO|KUNI|Ohio University Snyder Field|Athens|United States|39.211|-82.2314|America/New_York|-5
+SGH|KSGH|Springfield-Beckley Municipal Airport|Springfield|United States|39.8403|-83.8402|America/New_York|-5
+HEX|MDHE|Herrera Airport|Santo Domingo|Dominican Republic|18.4697|-69.9694|America/Santo_Domingo|-4
+CDA|YCOO|Cooinda Airport|Cooinda|Australia|-12.9033|132.532|Australia/Darwin|9.5
+JAB|YJAB|Jabiru Airport|Jabiru|Australia|-12.6583|132.893|Australia/Darwin|9.5
+HGS|GFHA|Hastings Airport|Freetown|Sierra Leone|8.3971|-13.1291|Africa/Freetown|0
+TOP|KTOP|Philip Billard Municipal Airport|Topeka|United States|39.0687|-95.6225|America/Chicago|-6
+MQY|KMQY|Smyrna Airport|Smyrna|United States|36.009|-86.5201|America/Chicago|-6
+UOS|KUOS|Franklin County Airport|Sewanee|United States|35.2051|-85.8981|America/Chicago|-6
+NGQ|ZUAL|Ngari Gunsa Airport|Shiquanhe|China|32.1|80.0531|Asia/Shanghai|8
+CSO|EDBC|Cochstedt Airport|Cochstedt|Germany|51.8564|11.4203|Europe/Berlin|1
+PWK|KPWK|Chicago Executive Airport|Chicago-Wheeling|United States|42.1142|-87.9015|America/Chicago|-6
+KLS|KKLS|Southwest Washington Regional Airport|Kelso|United States|46.118|-122.898|America/Los_Angeles|-8
+ZTA|NTGY|Tureia Airport|Tureia|French Polynesia|-20.7897|-138.57||-10
+PUE|MPOA|Puerto Obaldia Airport|Puerto Obaldia|Panama|8.667|-77.418|America/Panama|-5
+KHC|UKFK|Kerch Airport|Kerch|Ukraine|45.3725|36.4014|Europe/Simferopol|3
+UKA|HKUK|Ukunda Airstrip|Ukunda|Kenya|-4.2933|39.5711|Africa/Nairobi|3
+ILN|KILN|Wilmington Airpark|Wilmington|United States|39.4279|-83.7921|America/New_York|-5
+AVW|KAVQ|Marana Regional Airport|Tucson|United States|32.4096|-111.218|America/Phoenix|-7
+CGZ|KCGZ|Casa Grande Municipal Airport|Casa Grande|United States|32.9549|-111.767|America/Phoenix|-7
+BXK|KBXK|Buckeye Municipal Airport|Buckeye|United States|33.4204|-112.686|America/Phoenix|-7
+MMI|KMMI|McMinn County Airport|Athens|United States|35.3973|-84.5626|America/New_York|-5
+STK|KSTK|Sterling Municipal Airport|Sterling|United States|40.6153|-103.265|America/Denver|-7
+RWL|KRWL|Rawlins Municipal Airport/Harvey Field|Rawlins|United States|41.8056|-107.2|America/Denver|-7
+CDW|KCDW|Essex County Airport|Caldwell|United States|40.8752|-74.2814|America/New_York|-5
+AIZ|KAIZ|Lee C Fine Memorial Airport|Kaiser Lake Ozark|United States|38.096|-92.5495|America/Chicago|-6
+TVI|KTVI|Thomasville Regional Airport|Thomasville|United States|30.9016|-83.8813|America/New_York|-5
+HSH|KHND|Henderson Executive Airport|Henderson|United States|35.9728|-115.134|America/Los_Angeles|-8
+GML|UKKM|Gostomel Airport|Kiev|Ukraine|50.6035|30.1919|Europe/Kiev|2
+TMA|KTMA|Henry Tift Myers Airport|Tifton|United States|31.429|-83.4885|America/New_York|-5
+RDO|EPRA|Radom Airport|RADOM|Poland|51.3892|21.2133|Europe/Warsaw|1
+DVT|KDVT|Phoenix Deer Valley Airport|Phoenix |United States|33.6883|-112.083|America/Phoenix|-7
+YRV|CYRV|Revelstoke Airport|Revelstoke|Canada|50.9667|-118.183|America/Vancouver|-8
+FRG|KFRG|Republic Airport|Farmingdale|United States|40.7288|-73.4134|America/New_York|-5
+ZHY|ZLZW|Zhongwei Shapotou Airport|Zhongwei|China|37.5731|105.1545|Asia/Shanghai|8
+MCL|PAIN|McKinley National Park Airport|McKinley Park|United States|63.7326|-148.911|America/Anchorage|-9
+PPC|PAPR|Prospect Creek Airport|Prospect Creek|United States|66.8141|-150.644|America/Anchorage|-9
+KHW|FBKR|Khwai River Lodge Airport|Khwai River|Botswana|-19.15|23.783|Africa/Gaborone|2
+TXG|RCLG|Taichung Airport|Taichung|Taiwan|24.1863|120.654|Asia/Taipei|8
+HLG|KHLG|Wheeling Ohio County Airport|Wheeling|United States|40.175|-80.6463|America/New_York|-5
+XYE|VYYE|Ye Airport|Ye|Burma|15.3|97.867|Asia/Rangoon|6.5
+DWC|OMDW|Al Maktoum International Airport|Dubai|United Arab Emirates|24.8964|55.1614|Asia/Dubai|4
+RKP|KRKP|Aransas County Airport|Rockport|United States|28.0868|-97.0446|America/Chicago|-6
+MVV|LFHM|Megève Airport|Verdun|France|45.8208|6.6522|Europe/Paris|1
+MFX|LFKX|Méribel Altiport|Ajaccio|France|45.407|6.5779|Europe/Paris|1
+AEB|ZGBS|Baise Youjiang Airport|Baise|China|23.7206|106.96|Asia/Shanghai|8
+OKF|FYOO|Okaukuejo Airport|Okaukuejo|Namibia|-19.1492|15.9119|Africa/Windhoek|1
+OKU|FYMO|Mokuti Lodge Airport|Mokuti Lodge|Namibia|-18.8128|17.0594|Africa/Windhoek|1
+KOQ|EDCK|Köthen Airport|Koethen|Germany|51.7211|11.9528|Europe/Berlin|1
+PSH|EDXO|St. Peter-Ording Airport|Sankt Peter-Ording|Germany|54.3089|8.6869|Europe/Berlin|1
+TTD|KTTD|Portland Troutdale Airport|Troutdale|United States|45.5494|-122.401|America/Los_Angeles|-8
+HIO|KHIO|Portland Hillsboro Airport|Hillsboro|United States|45.5404|-122.95|America/Los_Angeles|-8
+KHT|OAKS|Khost Airport|Khost|Afghanistan|33.3334|69.952|Asia/Kabul|4.5
+NMT|VYNT|Namtu Airport|Naypyidaw|Burma|23.083|97.383|Asia/Rangoon|6.5
+BNO|KBNO|Burns Municipal Airport|Burns|United States|43.5919|-118.955|America/Los_Angeles|-8
+PRZ|KS39|Prineville Airport|Prineville|United States|44.287|-120.904|America/Los_Angeles|-8
+RBL|KRBL|Red Bluff Municipal Airport|Red Bluff|United States|40.1507|-122.252|America/Los_Angeles|-8
+NOT|KDVO|Marin County Airport - Gnoss Field|Novato|United States|38.1436|-122.556|America/Los_Angeles|-8
+LKV|KLKV|Lake County Airport|Lakeview|United States|42.1611|-120.399|America/Los_Angeles|-8
+OTK|KTMK|Tillamook Airport|Tillamook|United States|45.4182|-123.814|America/Los_Angeles|-8
+ONO|KONO|Ontario Municipal Airport|Ontario|United States|44.0205|-117.014|America/Denver|-7
+DLS|KDLS|Columbia Gorge Regional the Dalles Municipal Airport|The Dalles|United States|45.6185|-121.167|America/Los_Angeles|-8
+GAI|KGAI|Montgomery County Airpark|Gaithersburg|United States|39.1683|-77.166|America/New_York|-5
+OAS|OASA|Sharana Airstrip|Sharona|Afghanistan|33.1257|68.8385|Asia/Kabul|4.5
+YTA|CYTA|Pembroke Airport|Pembroke|Canada|45.8644|-77.2517|America/Toronto|-5
+TSB|FYTM|Tsumeb Airport|Tsumeb|Namibia|-19.2619|17.7325|Africa/Windhoek|1
+YSD|CYSD|Suffield Heliport|Suffield|Canada|50.2667|-111.183|America/Edmonton|-7
+BNU|SSBL|Blumenau Airport|BLUMENAU|Brazil|-26.8306|-49.0903|America/Sao_Paulo|-3
+YCC|CYCC|Cornwall Regional Airport|Cornwall|Canada|45.0928|-74.5633|America/Toronto|-5
+IZA|SDZY|Zona da Mata Regional Airport|Juiz de Fora|Brazil|-21.5131|-43.1731|America/Sao_Paulo|-3
+MVL|KMVL|Morrisville Stowe State Airport|Morrisville|United States|44.5346|-72.614|America/New_York|-5
+RBD|KRBD|Dallas Executive Airport|Dallas|United States|32.6809|-96.8682|America/Chicago|-6
+BXY|UAOL|Krainiy Airport|Baikonur|Kazakhstan|45.622|63.2108|Asia/Qyzylorda|6
+WST|KWST|Westerly State Airport|Washington County|United States|41.3496|-71.8034|America/New_York|-5
+BID|KBID|Block Island State Airport|Block Island|United States|41.1681|-71.5778|America/New_York|-5
+NME|PAGT|Nightmute Airport|Nightmute|United States|60.471|-164.701|America/Anchorage|-9
+OOK|PAOO|Toksook Bay Airport|Toksook Bay|United States|60.5414|-165.087|America/Anchorage|-9
+OBY|BGSC|Ittoqqortoormiit Heliport|Ittoqqortoormiit|Greenland|70.4882|-21.9717|America/Scoresbysund|-1
+VIN|UKWW|Vinnytsia/Gavyryshivka Airport|Vinnitsa|Ukraine|49.2425|28.6138|Europe/Kiev|2
+BGE|KBGE|Decatur County Industrial Air Park|Bainbridge|United States|30.9715|-84.6374|America/New_York|-5
+ZGS|CTT5|La Romaine Airport|La Romaine|Canada|50.2597|-60.6794|America/Blanc-Sablon|-4
+ZKG|CTK6|Kegaska Airport|Kegaska|Canada|50.1958|-61.2658|America/Blanc-Sablon|-4
+YBI|CCE4|Black Tickle Airport|Black Tickle|Canada|53.4694|-55.785|America/Halifax|-4
+WHP|KWHP|Whiteman Airport|Los Angeles|United States|34.2593|-118.413|America/Los_Angeles|-8
+MAE|KMAE|Madera Municipal Airport|Madera|United States|36.9886|-120.112|America/Los_Angeles|-8
+YZZ|CAD4|Trail Airport|Trail|Canada|49.0556|-117.609|America/Vancouver|-8
+YAB|CJX7|Old Arctic Bay Airport|Arctic Bay|Canada|73.0059|-85.0325|America/Winnipeg|-6
+GSI|SOGS|Grand-Santi Airport|Grand-Santi|French Guiana|4.2858|-54.3731|America/Cayenne|-3
+MPY|SOOA|Maripasoula Airport|Maripasoula|French Guiana|3.6575|-54.0372|America/Cayenne|-3
+LDX|SOOM|Saint-Laurent-du-Maroni Airport|Saint-Laurent-du-Maroni|French Guiana|5.4831|-54.0344|America/Cayenne|-3
+KJI|ZWKN|Kanas Airport|Burqin|China|48.2223|86.9959|Asia/Shanghai|8
+CPB|SKCA|Capurganá Airport|Capurgana|Colombia|8.6333|-77.35|America/Bogota|-5
+HMB|HEMK|Sohag International Airport|Sohag|Egypt|26.3428|31.7428|Africa/Cairo|2
+RVY|SURV|Presidente General Don Oscar D. Gestido International Airport|Rivera|Uruguay|-30.9746|-55.4762|America/Montevideo|-3
+POJ|SNPD|Patos de Minas Airport|Patos de Minas|Brazil|-18.6728|-46.4912|America/Sao_Paulo|-3
+JTC|SJTC|Bauru - Arealva Airport|Bauru|Brazil|-22.1669|-49.0503|America/Sao_Paulo|-3
+OIA|SDOW|Ourilândia do Norte Airport|Ourilandia do Norte|Brazil|-6.7631|-51.0499|America/Belem|-3
+RDC|SNDC|Redenção Airport|Redencao|Brazil|-8.0333|-49.9799|America/Belem|-3
+SXX|SNFX|São Félix do Xingu Airport|Sao Felix do Xingu|Brazil|-6.6413|-51.9523|America/Belem|-3
+BYO|SJDB|Bonito Airport|Bointo|Brazil|-21.2473|-56.4525|America/Campo_Grande|-4
+SXO|SWFX|São Félix do Araguaia Airport|Sao Felix do Araguaia|Brazil|-11.6324|-50.6896|America/Campo_Grande|-4
+CFC|SBCD|Caçador Airport|Cacador|Brazil|-26.7884|-50.9398|America/Sao_Paulo|-3
+CAF|SWCA|Carauari Airport|Carauari|Brazil|-4.8715|-66.8975|America/Boa_Vista|-4
+ERN|SWEI|Eirunepé Airport|Eirunepe|Brazil|-6.6395|-69.8798|America/Boa_Vista|-4
+CCI|SSCK|Concórdia Airport|Concordia|Brazil|-27.1806|-52.0527|America/Sao_Paulo|-3
+FBE|SSFB|Francisco Beltrão Airport|Francisco Beltrao|Brazil|-26.0592|-53.0635|America/Sao_Paulo|-3
+CFO|SJHG|Confresa Airport|Confresa|Brazil|-10.6344|-51.5636|America/Campo_Grande|-4
+AAF|KAAF|Apalachicola Regional Airport|Apalachicola|United States|29.7275|-85.0275|America/New_York|-5
+UMU|SSUM|Umuarama Airport|Umuarama|Brazil|-23.7987|-53.3138|America/Sao_Paulo|-3
+DTI|SNDT|Diamantina Airport|Diamantina|Brazil|-18.232|-43.6504|America/Sao_Paulo|-3
+FBA|SWOB|Fonte Boa Airport|Fonte Boa|Brazil|-2.5326|-66.0832|America/Boa_Vista|-4
+OLC|SDCG|Senadora Eunice Micheles Airport|Sao Paulo de Olivenca|Brazil|-3.4679|-68.9204|America/Boa_Vista|-4
+HUW|SWHT|Humaitá Airport|Humaita|Brazil|-7.5321|-63.0721|America/Boa_Vista|-4
+IRZ|SWTP|Tapuruquara Airport|Santa Isabel do Rio Negro|Brazil|-0.3786|-64.9923|America/Boa_Vista|-4
+ORX|SNOX|Oriximiná Airport|Oriximina|Brazil|-1.7141|-55.8362|America/Belem|-3
+UNA|SBTC|Hotel Transamérica Airport|Una|Brazil|-15.3552|-38.999|America/Fortaleza|-3
+TEF|YTEF|Telfer Airport|Telfer|Australia|-21.715|122.229|Australia/Perth|8
+GZP|LTGP|Gazipaşa Airport|Alanya|Turkey|36.2992|32.3006|Europe/Istanbul|3
+OAA|OASH|Shank Air Base|Shank|Afghanistan|33.9225|69.0772|Asia/Kabul|4.5
+FPR|KFPR|St Lucie County International Airport|Fort Pierce|United States|27.4951|-80.3683|America/New_York|-5
+PYM|KPYM|Plymouth Municipal Airport|Plymouth|United States|41.909|-70.7288|America/New_York|-5
+NCO|KOQU|Quonset State Airport|North Kingstown|United States|41.5971|-71.4121|America/New_York|-5
+OWD|KOWD|Norwood Memorial Airport|Norwood|United States|42.1905|-71.1729|America/New_York|-5
+BAF|KBAF|Westfield-Barnes Regional Airport|Westfield|United States|42.1578|-72.7156|America/New_York|-5
+MGJ|KMGJ|Orange County Airport|Montgomery|United States|41.51|-74.2646|America/New_York|-5
+HAR|KCXY|Capital City Airport|Harrisburg|United States|40.2171|-76.8515|America/New_York|-5
+DXR|KDXR|Danbury Municipal Airport|Danbury|United States|41.3715|-73.4822|America/New_York|-5
+ASH|KASH|Boire Field|Nashua|United States|42.7817|-71.5148|America/New_York|-5
+LWM|KLWM|Lawrence Municipal Airport|Lawrence|United States|42.7172|-71.1234|America/New_York|-5
+OXC|KOXC|Waterbury Oxford Airport|Oxford|United States|41.4786|-73.1352|America/New_York|-5
+RMG|KRMG|Richard B Russell Airport|Rome|United States|34.3506|-85.158|America/New_York|-5
+GAD|KGAD|Northeast Alabama Regional Airport|Gadsden|United States|33.9726|-86.089|America/Chicago|-6
+WDR|KWDR|Barrow County Airport|Winder|United States|33.9829|-83.6674|America/New_York|-5
+DNN|KDNN|Dalton Municipal Airport|Dalton|United States|34.7229|-84.8702|America/New_York|-5
+LGC|KLGC|LaGrange Callaway Airport|LaGrange|United States|33.0089|-85.0726|America/New_York|-5
+PIM|KPIM|Harris County Airport|Pine Mountain|United States|32.8407|-84.8824|America/New_York|-5
+GVL|KGVL|Lee Gilmer Memorial Airport|Gainesville|United States|34.2726|-83.8302|America/New_York|-5
+PHD|KPHD|Harry Clever Field|New Philadelpha|United States|40.4709|-81.4197|America/New_York|-5
+HHH|KHXD|Hilton Head Airport|Hilton Head Island|United States|32.2244|-80.6975|America/New_York|-5
+DNL|KDNL|Daniel Field|Augusta|United States|33.4665|-82.0394|America/New_York|-5
+MRN|KMRN|Foothills Regional Airport|Morganton|United States|35.8202|-81.6114|America/New_York|-5
+PVL|KPBX|Pike County-Hatcher Field|Pikeville|United States|37.5618|-82.5664|America/New_York|-5
+TOC|KTOC|Toccoa Airport - R.G. Letourneau Field|Toccoa|United States|34.5938|-83.2958|America/New_York|-5
+PLV|UKHP|Suprunovka Airport|Poltava|Ukraine|49.5686|34.3972|Europe/Kiev|2
+WUU|HSWW|Wau Airport|Wau|Sudan|7.7258|27.975|Africa/Juba|3
+HUE|HAHU|Humera Airport|Humera|Ethiopia|14.25|36.583|Africa/Addis_Ababa|3
+OYL|HKMY|Moyale Airport|Moyale|Kenya|3.4697|39.1014|Africa/Nairobi|3
+OZG|GMAZ|Zagora Airport|Zagora|Morocco|30.3203|-5.8667|Africa/Casablanca|0
+WYE|GFYE|Yengema Airport|Yengema|Sierra Leone|8.6105|-11.0454|Africa/Freetown|0
+GBK|GFGK|Gbangbatok Airport|Gbangbatok|Sierra Leone|7.767|-12.383|Africa/Freetown|0
+THX|UOTT|Turukhansk Airport|Turukhansk|Russia|65.7972|87.9353|Asia/Krasnoyarsk|7
+TGP|UNIP|Podkamennaya Tunguska Airport|Bor|Russia|61.5897|89.994|Asia/Krasnoyarsk|7
+AFW|KAFW|Fort Worth Alliance Airport|Fort Worth|United States|32.9876|-97.3188|America/Chicago|-6
+RMK|YREN|Renmark Airport|Renmark|Australia|-34.1964|140.674|Australia/Adelaide|9.5
+LGH|YLEC|Leigh Creek Airport|Leigh Creek|Australia|-30.5983|138.426|Australia/Adelaide|9.5
+RTS|YRTI|Rottnest Island Airport|Rottnest Island|Australia|-32.0067|115.54|Australia/Perth|8
+FOS|YFRT|Forrest Airport|Forrest|Australia|-30.8381|128.115|Australia/Perth|8
+KEW|CPV8|Keewaywin Airport|Keewaywin|Canada|52.9911|-92.8364|America/Winnipeg|-6
+YSP|CYSP|Marathon Airport|Marathon|Canada|48.7553|-86.3444|America/Toronto|-5
+YHF|CYHF|Hearst René Fontaine Municipal Airport|Hearst|Canada|49.7142|-83.6861|America/Toronto|-5
+YHN|CYHN|Hornepayne Municipal Airport|Hornepayne|Canada|49.1931|-84.7589|America/Toronto|-5
+YKX|CYKX|Kirkland Lake Airport|Kirkland Lake|Canada|48.2103|-79.9814|America/Toronto|-5
+YMG|CYMG|Manitouwadge Airport|Manitouwadge|Canada|49.0839|-85.8606|America/Toronto|-5
+YXZ|CYXZ|Wawa Airport|Wawa|Canada|47.9667|-84.7867|America/Toronto|-5
+YEM|CYEM|Manitoulin East Municipal Airport|Manitowaning|Canada|45.8428|-81.8581|America/Toronto|-5
+LWC|KLWC|Lawrence Municipal Airport|Lawrence|United States|39.0112|-95.2166|America/Chicago|-6
+PPM|KPMP|Pompano Beach Airpark|Pompano Beach|United States|26.2471|-80.1111|America/New_York|-5
+XMC|YMCO|Mallacoota Airport|Mallacoota|Australia|-37.5983|149.72|Australia/Hobart|10
+ULH|OEAO|Majeed Bin Abdulaziz Airport|Al-Ula|Saudi Arabia|26.48|38.1289|Asia/Riyadh|3
+YUE|YYND|Yuendumu Airport|Yuendumu |Australia|-22.2542|131.782|Australia/Darwin|9.5
+LOP|WADL|Lombok International Airport|Praya|Indonesia|-8.7573|116.2767|Asia/Makassar|8
+ZMH|CZML|South Cariboo Region / 108 Mile Airport|108 Mile Ranch|Canada|51.7361|-121.333|America/Vancouver|-8
+HDG|ZBHD|Handan Airport|Handan|China|36.5258|114.4256|Asia/Shanghai|8
+LOZ|KLOZ|London-Corbin Airport/Magee Field|London|United States|37.0822|-84.0849|America/New_York|-5
+FBG|KFBG|Simmons Army Air Field|Fredericksburg|United States|35.1318|-78.9367|America/New_York|-5
+WMI|EPMO|Modlin Airport|Warsaw|Poland|52.4511|20.6518|Europe/Warsaw|1
+JXA|ZYJX|Jixi Xingkaihu Airport|Jixi|China|45.293|131.193|Asia/Shanghai|8
+JDG|RKPD|Jeongseok Airport|Seogwipo|South Korea|33.3996|126.712|Asia/Seoul|9
+YGM|CYGM|Gimli Industrial Park Airport|Gimli|Canada|50.6281|-97.0433|America/Winnipeg|-6
+EYK|USHY|Beloyarskiy Airport|Beloyarsky|Russia|63.6869|66.6986|Asia/Yekaterinburg|5
+RAC|KRAC|John H Batten Airport|Racine|United States|42.7606|-87.8152|America/Chicago|-6
+RZP|RPSD|Cesar Lim Rodriguez Airport|Taytay|Philippines|10.8187|119.5077|Asia/Manila|8
+RKZ|ZURK|Shigatse Air Base|Shigatse|China|29.3519|89.3114|Asia/Shanghai|8
+TIW|KTIW|Tacoma Narrows Airport|Tacoma|United States|47.2679|-122.578|America/Los_Angeles|-8
+GUF|KJKA|Jack Edwards Airport|Gulf Shores|United States|30.2905|-87.6718|America/Chicago|-6
+IBB|SEII|General Villamil Airport|Isabela|Ecuador|-0.9426|-90.953|Pacific/Galapagos|-6
+HMJ|UKLH|Khmelnytskyi Airport|Khmeinitskiy|Ukraine|49.3597|26.9334|Europe/Kiev|2
+HIW|RJBH|Hiroshimanishi Airport|Hiroshima|Japan|34.3669|132.414|Asia/Tokyo|9
+KYI|YYTA|Yalata Mission Airport|Yalata|Australia|-31.4706|131.825|Australia/Adelaide|9.5
+HZL|KHZL|Hazleton Municipal Airport|Hazleton|United States|40.9868|-75.9949|America/New_York|-5
+CBE|KCBE|Greater Cumberland Regional Airport|Cumberland|United States|39.6154|-78.7609|America/New_York|-5
+WYN|YWYM|Wyndham Airport|Wyndham|Australia|-15.5114|128.153|Australia/Perth|8
+YBO|CBW4|Bob Quinn Lake Airport|Bob Quinn Lake|Canada|56.9667|-130.25|America/Vancouver|-8
+KLF|UUBC|Grabtsevo Airport|Kaluga|Russia|54.55|36.3667|Europe/Moscow|3
+LNR|KLNR|Tri-County Regional Airport|Lone Rock|United States|43.2117|-90.1816|America/Chicago|-6
+JOT|KJOT|Joliet Regional Airport|Joliet|United States|41.5178|-88.1755|America/Chicago|-6
+VYS|KVYS|Illinois Valley Regional Airport-Walter A Duncan Field|Peru|United States|41.3519|-89.1531|America/Chicago|-6
+JXN|KJXN|Jackson County Reynolds Field|Jackson|United States|42.2598|-84.4594|America/New_York|-5
+BBX|KLOM|Wings Field|Philadelphia|United States|40.1375|-75.2651|America/New_York|-5
+OBE|KOBE|Okeechobee County Airport|Okeechobee|United States|27.2628|-80.8498|America/New_York|-5
+SEF|KSEF|Sebring Regional Airport|Sebring|United States|27.4564|-81.3424|America/New_York|-5
+AVO|KAVO|Avon Park Executive Airport|Avon Park|United States|27.5912|-81.5278|America/New_York|-5
+GIF|KGIF|Winter Haven Regional Airport - Gilbert Field|Winter Haven|United States|28.0629|-81.7533|America/New_York|-5
+ZPH|KZPH|Zephyrhills Municipal Airport|Zephyrhills|United States|28.2282|-82.1559|America/New_York|-5
+OCF|KOCF|Ocala International Airport - Jim Taylor Field|Ocala|United States|29.1726|-82.2242|America/New_York|-5
+AIK|KAIK|Aiken Regional Airport|Aiken|United States|33.6494|-81.685|America/New_York|-5
+CDN|KCDN|Woodward Field|Camden|United States|34.2836|-80.5649|America/New_York|-5
+LBT|KLBT|Lumberton Regional Airport|Lumberton|United States|34.6099|-79.0594|America/New_York|-5
+SOP|KSOP|Moore County Airport|Pinehurst-Southern Pines|United States|35.2374|-79.3912|America/New_York|-5
+SVH|KSVH|Statesville Regional Airport|Statesville|United States|35.7653|-80.9539|America/New_York|-5
+LHV|KLHV|William T. Piper Memorial Airport|Lock Haven|United States|41.1356|-77.4223|America/New_York|-5
+BKL|KBKL|Burke Lakefront Airport|Cleveland|United States|41.5175|-81.6833|America/New_York|-5
+DKK|KDKK|Chautauqua County-Dunkirk Airport|Dunkirk|United States|42.4933|-79.272|America/New_York|-5
+LLY|KVAY|South Jersey Regional Airport|Mount Holly|United States|39.9429|-74.8457|America/New_York|-5
+LDJ|KLDJ|Linden Airport|Linden|United States|40.6174|-74.2446|America/New_York|-5
+ANQ|KANQ|Tri State Steuben County Airport|Angola|United States|41.6397|-85.0835|America/New_York|-5
+CLW|KCLW|Clearwater Air Park|Clearwater|United States|27.9767|-82.7587|America/New_York|-5
+CGX|KCGX|Chicago Meigs Airport|Chicago|United States|41.8588|-87.6079|America/Chicago|-6
+CRE|KCRE|Grand Strand Airport|North Myrtle Beach|United States|33.8117|-78.7239|America/New_York|-5
+BXO|LSZC|Buochs Airport|Buochs|Switzerland|46.9744|8.3969|Europe/Zurich|1
+WBW|KWBW|Wilkes Barre Wyoming Valley Airport|Wilkes-Barre|United States|41.2972|-75.8512|America/New_York|-5
+LNN|KLNN|Willoughby Lost Nation Municipal Airport|Willoughby|United States|41.684|-81.3897|America/New_York|-5
+UMD|BGUM|Uummannaq Heliport|Uummannaq|Greenland|70.6804|-52.1116|America/Godthab|-3
+RLK|ZBYZ|Bayannur Tianjitai Airport|Bayannur|China|40.926|107.7428|Asia/Shanghai|8
+FFT|KFFT|Capital City Airport|Frankfort|United States|38.1825|-84.9047|America/New_York|-5
+LEW|KLEW|Auburn Lewiston Municipal Airport|Lewiston|United States|44.0485|-70.2835|America/New_York|-5
+MRK|KMKY|Marco Island Executive Airport|Marco Island Airport|United States|25.995|-81.6725|America/New_York|-5
+DRE|KDRM|Drummond Island Airport|Drummond Island|United States|46.0093|-83.7439|America/New_York|-5
+GDW|KGDW|Gladwin Zettel Memorial Airport|Gladwin|United States|43.9706|-84.475|America/New_York|-5
+MFI|KMFI|Marshfield Municipal Airport|Marshfield|United States|44.6369|-90.1893|America/Chicago|-6
+ISW|KISW|Alexander Field South Wood County Airport|Wisconsin Rapids|United States|44.3603|-89.839|America/Chicago|-6
+CWI|KCWI|Clinton Municipal Airport|Clinton|United States|41.8311|-90.3291|America/Chicago|-6
+BVY|KBVY|Beverly Municipal Airport|Beverly|United States|42.5842|-70.9165|America/New_York|-5
+OSF|UUMO|Ostafyevo International Airport|Moscow|Russia|55.5117|37.5072|Europe/Moscow|3
+YRQ|CYRQ|Trois-Rivières Airport|Trois Rivieres|Canada|46.3528|-72.6794|America/Toronto|-5
+POF|KPOF|Poplar Bluff Municipal Airport|Poplar Bluff|United States|36.7739|-90.3249|America/Chicago|-6
+EOK|KEOK|Keokuk Municipal Airport|Keokuk|United States|40.4599|-91.4285|America/Chicago|-6
+PSL|EGPT|Perth/Scone Airport|Perth|United Kingdom|56.4392|-3.3722|Europe/London|0
+STP|KSTP|St Paul Downtown Holman Field|St. Paul|United States|44.9345|-93.06|America/Chicago|-6
+SOO|ESNY|Söderhamn Airport|Soderhamn|Sweden|61.2615|17.0991|Europe/Stockholm|1
+VNA|VLSV|Saravane Airport|Saravane|Laos|15.7094|106.4107|Asia/Vientiane|7
+DKS|UODD|Dikson Airport|Dikson|Russia|73.5178|80.3797|Asia/Krasnoyarsk|7
+BYT|EIBN|Bantry Aerodrome|Bantry|Ireland|51.6686|-9.4842|Europe/Dublin|0
+ADY|FAAL|Alldays Airport|Alldays|South Africa|-22.679|29.0555|Africa/Johannesburg|2
+HAO|KHAO|Butler Co Regional Airport - Hogan Field|Hamilton|United States|39.3638|-84.522|America/New_York|-5
+GAS|HKGA|Garissa Airport|Garissa|Kenya|-0.4635|39.6483|Africa/Nairobi|3
+HOA|HKHO|Hola Airport|Hola|Kenya|-1.522|40.004|Africa/Nairobi|3
+KEY|HKKR|Kericho Airport|Kericho|Kenya|-0.3899|35.2421|Africa/Nairobi|3
+ILU|HKKL|Kilaguni Airport|Kilaguni|Kenya|-2.9106|38.0652|Africa/Nairobi|3
+ATJ|FMME|Antsirabe Airport|Antsirabe|Madagascar|-19.8392|47.0637|Indian/Antananarivo|3
+OVA|FMSL|Bekily Airport|Bekily|Madagascar|-24.2357|45.3045|Indian/Antananarivo|3
+UTS|UUYX|Ust-Tsylma Airport|Ust-Tsylma|Russia|65.4373|52.2003|Europe/Moscow|3
+RGK|UNBG|Gorno-Altaysk Airport|Gorno-Altaysk|Russia|51.9667|85.8333|Asia/Krasnoyarsk|7
+FLD|KFLD|Fond du Lac County Airport|Fond du Lac|United States|43.7712|-88.4884|America/Chicago|-6
+STE|KSTE|Stevens Point Municipal Airport|Stevens Point|United States|44.5452|-89.5303|America/Chicago|-6
+MQJ|UEMA|Moma Airport|Honuu|Russia|66.4509|143.2616|Asia/Srednekolymsk|11
+PEF|EDCP|Peenemünde Airport|Peenemunde|Germany|54.1578|13.7744|Europe/Berlin|1
+CJN|WI1A|Nusawiru Airport|Nusawiru|Indonesia|-7.7199|108.489|Asia/Jakarta|7
+GQQ|KGQQ|Galion Municipal Airport|Galion|United States|40.7534|-82.7238|America/New_York|-5
+TPN|SETI|Tiputini Airport|Tiputini|Ecuador|-0.7761|-75.5264|America/Guayaquil|-5
+PTZ|SESM|Rio Amazonas Airport|Pastaza|Ecuador|-1.5052|-78.0627|America/Guayaquil|-5
+CKV|KCKV|Clarksville–Montgomery County Regional Airport|Clarksville|United States|36.6219|-87.415|America/Chicago|-6
+LPC|KLPC|Lompoc Airport|Lompoc|United States|34.6656|-120.468|America/Los_Angeles|-8
+CTH|KMQS|Chester County G O Carlson Airport|Coatesville|United States|39.979|-75.8655|America/New_York|-5
+BST|OABT|Bost Airport|Lashkar Gah|Afghanistan|31.5597|64.365|Asia/Kabul|4.5
+LLK|UBBL|Lankaran International Airport|Lankaran|Azerbaijan|38.7464|48.818|Asia/Baku|4
+GBB|UBBQ|Gabala International Airport|Qabala|Azerbaijan|40.8267|47.7125|Asia/Baku|4
+ZTU|UBBY|Zaqatala International Airport|Zaqatala|Azerbaijan|41.5622|46.6672|Asia/Baku|4
+LKP|KLKP|Lake Placid Airport|Lake Placid|United States|44.2645|-73.9619|America/New_York|-5
+KDY|UEMH|Typliy Klyuch Airport|Khandyga|Russia|62.789|136.855|Asia/Yakutsk|9
+GYG|UEMM|Magan Airport|Yakutsk|Russia|62.1035|129.5453|Asia/Yakutsk|9
+JIQ|ZUQJ|Qianjiang Wulingshan Airport|Qianjiang|China|29.5133|108.8311|Asia/Shanghai|8
+AOH|KAOH|Lima Allen County Airport|Lima|United States|40.7069|-84.0267|America/New_York|-5
+DSO|ZKSD|Sondok Airport|Hamhung|North Korea|39.7452|127.474|Asia/Pyongyang|8.5
+SSI|KSSI|Malcolm McKinnon Airport|Brunswick|United States|31.1518|-81.3913|America/New_York|-5
+BFP|KBVI|Beaver County Airport|Beaver Falls|United States|40.7725|-80.3914|America/New_York|-5
+GGE|KGGE|Georgetown County Airport|Georgetown|United States|33.3117|-79.3196|America/New_York|-5
+HDI|KHDI|Hardwick Field|Cleveland|United States|35.2201|-84.8324|America/New_York|-5
+RNT|KRNT|Renton Municipal Airport|Renton|United States|47.4931|-122.216|America/Los_Angeles|-8
+POC|KPOC|Brackett Field|La Verne|United States|34.0916|-117.782|America/Los_Angeles|-8
+CTY|KCTY|Cross City Airport|Cross City|United States|29.6355|-83.1048|America/New_York|-5
+CEU|KCEU|Oconee County Regional Airport|Clemson|United States|34.6719|-82.8865|America/New_York|-5
+BEC|KBEC|Beech Factory Airport|Wichita|United States|37.6945|-97.215|America/Chicago|-6
+QFO|EGSU|Duxford Aerodrome|Duxford|United Kingdom|52.0908|0.1319|Europe/London|0
+SNY|KSNY|Sidney Municipal-Lloyd W Carr Field|Sidney|United States|41.1013|-102.985|America/Denver|-7
+GKL|YGKL|Great Keppel Is Airport|Great Keppel Island|Australia|-23.1833|150.942|Australia/Brisbane|10
+RPB|YRRB|Roper Bar Airport|Roper Bar|Australia|-14.7348|134.5255|Australia/Darwin|9.5
+IFL|YIFL|Innisfail Airport|Innisfail|Australia|-17.5594|146.012|Australia/Brisbane|10
+JRF|PHJR|Kalaeloa Airport|Kapolei|United States|21.3074|-158.07|Pacific/Honolulu|-10
+BIN|OABN|Bamiyan Airport|Bamyan|Afghanistan|34.817|67.817|Asia/Kabul|4.5
+NBS|ZYBS|Changbaishan Airport|Baishan|China|42.0669|127.6022|Asia/Shanghai|8
+RGO|ZKHM|Orang Airport|Chongjin|North Korea|41.4285|129.6476|Asia/Pyongyang|8.5
+MOO|YOOM|Moomba Airport|Moomba|Australia|-28.0994|140.197|Australia/Adelaide|9.5
+LUZ|EPLB|Lublin Airport|Lublin|Poland|51.2403|22.7136|Europe/Warsaw|1
+ECA|K6D9|Iosco County Airport|East Tawas|United States|44.3128|-83.4223|America/New_York|-5
+VAM|VRMV|Villa Airport|Maamigili|Maldives|3.4706|72.8358|Indian/Maldives|5
+LLF|ZGLG|Lingling Airport|Yongzhou|China|26.3387|111.61|Asia/Shanghai|8
+LSZ|LDLO|Lošinj Island Airport|Mali Losinj|Croatia|44.5658|14.3931|Europe/Zagreb|1
+ONS|YOLW|Onslow Airport|Onslow|Australia|-21.6683|115.113|Australia/Perth|8
+TDR|YTDR|Theodore Airport|Theodore|Australia|-24.9933|150.093|Australia/Brisbane|10
+WBU|KBDU|Boulder Municipal Airport|Boulder|United States|40.0394|-105.226|America/Denver|-7
+BBJ|EDRB|Bitburg Airport|Birburg|Germany|49.9453|6.565|Europe/Berlin|1
+PAO|KPAO|Palo Alto Airport of Santa Clara County|Palo Alto|United States|37.4611|-122.115|America/Los_Angeles|-8
+USR|UEMT|Ust-Nera Airport|Ust-Nera|Russia|64.55|143.115|Asia/Vladivostok|10
+MSC|KFFZ|Falcon Field|Mesa|United States|33.4608|-111.728|America/Phoenix|-7
+YTY|ZSYA|Yangzhou Taizhou Airport|Yangzhou|China|32.5634|119.7198|Asia/Shanghai|8
+PTK|KPTK|Oakland County International Airport|Pontiac|United States|42.6655|-83.4201|America/New_York|-5
+KSI|GUKU|Kissidougou Airport|Kissidougou|Guinea|9.1606|-10.1244|Africa/Conakry|0
+EEN|KEEN|Dillant Hopkins Airport|Keene|United States|42.8984|-72.2708|America/New_York|-5
+THQ|ZLTS|Tianshui Maijishan Airport|Tianshui|China|34.5594|105.86|Asia/Shanghai|8
+VRO|MUKW|Kawama Airport|Kawama|Cuba|23.124|-81.3016|America/Havana|-5
+GKK|VRMO|Kooddoo Airport|Kooddoo|Maldives|0.7324|73.4336|Indian/Maldives|5
+RCS|EGTO|Rochester Airport|Rochester|United Kingdom|51.3519|0.5033|Europe/London|0
+RHD|SANR|Termas de Río Hondo international Airport|Rio Hondo|Argentina|-27.4966|-64.936|America/Cordoba|-3
+KMP|FYKT|Keetmanshoop Airport|Keetmanshoop|Namibia|-26.5398|18.1114|Africa/Windhoek|1
+KGT|ZUKD|Kangding Airport|Kangding|China|30.1575|101.7347|Asia/Shanghai|8
+VUS|ULWU|Velikiy Ustyug Airport|Veliky Ustyug|Russia|60.7883|46.26|Europe/Moscow|3
+IOW|KIOW|Iowa City Municipal Airport|Iowa City|United States|41.6392|-91.5465|America/Chicago|-6
+TLQ|ZWTP|Turpan Jiaohe Airport|Turpan|China|43.0308|89.0987|Asia/Shanghai|8
+ANP|KANP|Lee Airport|Annapolis|United States|38.9429|-76.5684|America/New_York|-5
+FXO|FQCB|Cuamba Airport|Cuamba|Mozambique|-14.815|36.53|Africa/Maputo|2
+ODO|UIKB|Bodaybo Airport|Bodaibo|Russia|57.8661|114.243|Asia/Irkutsk|8
+ZTR|UKKV|Zhytomyr Airport|Zhytomyr|Ukraine|50.2706|28.7386|Europe/Kiev|2
+HRI|VCRI|Mattala Rajapaksa International Airport|Mattala|Sri Lanka|6.2845|81.1241|Asia/Colombo|5.5
+PEQ|KPEQ|Pecos Municipal Airport|Pecos|United States|31.3824|-103.511|America/Chicago|-6
+HBG|KHBG|Hattiesburg Bobby L Chain Municipal Airport|Hattiesburg|United States|31.2648|-89.2528|America/Chicago|-6
+QCJ|SDBK|Botucatu - Tancredo de Almeida Neves Airport|Botucatu|Brazil|-22.9395|-48.468|America/Sao_Paulo|-3
+QSC|SDSC|Mário Pereira Lopes–São Carlos Airport|Sao Carlos|Brazil|-21.8754|-47.9037|America/Sao_Paulo|-3
+YKN|KYKN|Chan Gurney Municipal Airport|Yankton|United States|42.9167|-97.3859|America/Chicago|-6
+XSB|OMBY|Sir Bani Yas Airport|Sir Bani Yas Island|United Arab Emirates|24.2836|52.5803|Asia/Dubai|4
+ZBM|CZBM|Bromont (Roland Desourdy) Airport|Bromont|Canada|45.2908|-72.7414|America/Toronto|-5
+KTI|VDKT|Kratie Airport|Kratie|Cambodia|12.488|106.055|Asia/Phnom_Penh|7
+GYU|ZLGY|Guyuan Liupanshan Airport|Guyuan|China|36.0789|106.2169|Asia/Shanghai|8
+CNI|ZYCH|Changhai Airport|Changhai|China|39.2667|122.6669|Asia/Shanghai|8
+KRH|EGKR|Redhill Aerodrome|Redhill|United Kingdom|51.2136|-0.1386|Europe/London|0
+JGD|ZYJD|Jiagedaqi Airport|Jiagedaqi District|China|50.3714|124.1175|Asia/Shanghai|8
+CCL|YCCA|Chinchilla Airport|Chinchilla|Australia|-26.775|150.617|Australia/Brisbane|10
+HWD|KHWD|Hayward Executive Airport|Hayward|United States|37.6592|-122.122|America/Los_Angeles|-8
+MZP|NZMK|Motueka Airport|Motueka|New Zealand|-41.1233|172.989|Pacific/Auckland|12
+JHQ|YSHR|Shute Harbour Airport|Shute Harbour|Australia|-20.2772|148.7556|Australia/Brisbane|10
+ARB|KARB|Ann Arbor Municipal Airport|Ann Arbor|United States|42.223|-83.7456|America/New_York|-5
+SHT|YSHT|Shepparton Airport|Shepparton|Australia|-36.4289|145.393|Australia/Hobart|10
+TEM|YTEM|Temora Airport|Temora|Australia|-34.4214|147.512|Australia/Sydney|10
+GAH|YGAY|Gayndah Airport|Gayndah|Australia|-25.6144|151.619|Australia/Brisbane|10
+WIO|YWCA|Wilcannia Airport|Wilcannia|Australia|-31.5264|143.375|Australia/Sydney|10
+BFJ|ZUBJ|Bijie Feixiong Airport|Bijie|China|27.2671|105.4721|Asia/Shanghai|8
+ULK|UERL|Lensk Airport|Lensk|Russia|60.7206|114.826|Asia/Yakutsk|9
+KVR|UHWK|Kavalerovo Airport|Kavalerovo|Russia|44.2726|135.029|Asia/Vladivostok|10
+IGD|LTCT|Iğdır Airport|Igdir|Turkey|39.9766|43.8766|Europe/Istanbul|3
+GNY|LTCS|Şanlıurfa GAP Airport|Sanliurfa|Turkey|37.4457|38.8956|Europe/Istanbul|3
+KZR|LTBZ|Zafer Airport|Kutahya|Turkey|39.1131|30.1281|Europe/Istanbul|3
+VLU|ULOL|Velikiye Luki Airport|Velikiye Luki|Russia|56.3811|30.6081|Europe/Moscow|3
+BEO|YPEC|Lake Macquarie Airport|Lake Macquarie|Australia|-33.0667|151.648|Australia/Sydney|10
+BMP|YBPI|Brampton Island Airport|Brampton Island|Australia|-20.8033|149.27|Australia/Brisbane|10
+NGZ|KNGZ|Alameda Naval Air Station|Alameda|United States|37.7889|-122.32|America/Los_Angeles|-8
+YCN|CYCN|Cochrane Airport|Cochrane|Canada|49.1056|-81.0136|America/Toronto|-5
+BJP|SBBP|Estadual Arthur Siqueira Airport|Braganca Paulista|Brazil|-22.9792|-46.5375|America/Sao_Paulo|-3
+BQB|YBLN|Busselton Regional Airport|Brusselton|Australia|-33.6884|115.4016|Australia/Perth|8
+SEK|UESK|Srednekolymsk Airport|Srednekolymsk|Russia|67.4805|153.7364|Asia/Srednekolymsk|11
+IVR|YIVL|Inverell Airport|Inverell|Australia|-29.8883|151.144|Australia/Sydney|10
+GLI|YGLI|Glen Innes Airport|Glen Innes|Australia|-29.675|151.689|Australia/Sydney|10
+IMM|KIMM|Immokalee Regional Airport|Immokalee |United States|26.4332|-81.401|America/New_York|-5
+TQQ|WA44|Maranggo Airport|Sulawesi Tenggara|Indonesia|-5.7646|123.917|Asia/Makassar|8
+YIC|ZSYC|Yichun Mingyueshan Airport|Yichun|China|27.8025|114.3062|Asia/Shanghai|8
+PTB|KPTB|Dinwiddie County Airport|Petersburg|United States|37.1838|-77.5074|America/New_York|-5
+SBM|KSBM|Sheboygan County Memorial Airport|Sheboygan|United States|43.7696|-87.8514|America/Chicago|-6
+KFE|YFDF|Fortescue - Dave Forrest Aerodrome|Cloudbreak|Australia|-22.2908|119.4371|Australia/Perth|8
+BJU|VNBR|Bajura Airport|Bajura|Nepal|29.502|81.669|Asia/Katmandu|5.75
+MZJ|KMZJ|Pinal Airpark|Marana|United States|32.5106|-111.328|America/Phoenix|-7
+SAD|KSAD|Safford Regional Airport|Safford|United States|32.8548|-109.635|America/Phoenix|-7
+SLJ|YSOL|Solomon Airport|Solomon|Australia|-22.2554|117.7627|Australia/Perth|8
+KJP|ROKR|Kerama Airport|Kerama|Japan|26.1683|127.293|Asia/Tokyo|9
+EKB|UASB|Ekibastuz Airport|Ekibastuz|Kazakhstan|51.591|75.215|Asia/Qyzylorda|6
+SIK|KSIK|Sikeston Memorial Municipal Airport|Sikeston|United States|36.8989|-89.5618|America/Chicago|-6
+TTI|NTTE|Tetiaroa Airport|Tetiaroa|French Polynesia|-17.0133|-149.587|Pacific/Tahiti|-10
+GFL|KGFL|Floyd Bennett Memorial Airport|Queensbury|United States|43.3412|-73.6103|America/New_York|-5
+MTN|KMTN|Martin State Airport|Baltimore|United States|39.3257|-76.4138|America/New_York|-5
+FRY|KIZG|Eastern Slopes Regional Airport|Fryeburg|United States|43.9911|-70.9479|America/New_York|-5
+NEW|KNEW|Lakefront Airport|New Orleans|United States|30.0424|-90.0283|America/Chicago|-6
+COE|KCOE|Coeur D'Alene - Pappy Boyington Field|Coeur d'Alene|United States|47.7743|-116.82|America/Los_Angeles|-8
+BMT|KBMT|Beaumont Municipal Airport|Beaumont|United States|30.0707|-94.2158|America/Chicago|-6
+DNV|KDNV|Vermilion Regional Airport|Danville|United States|40.1992|-87.5959|America/Chicago|-6
+COJ|YCBB|Coonabarabran Airport|Coonabarabran|Australia|-31.3325|149.267|Australia/Sydney|10
+TIX|KTIX|Space Coast Regional Airport|Titusville|United States|28.5148|-80.7992|America/New_York|-5
+BZH|FVBM|Bumi Airport|Bumi Hills|Zimbabwe|-16.817|28.35|Africa/Harare|2
+UAR|GMFB|Bouarfa Airport|Bouarfa|Morocco|32.5143|-1.9831|Africa/Casablanca|0
+NYE|HKNI|Nyeri Airport|NYERI|Kenya|-0.3644|36.9785|Africa/Nairobi|3
+AAP|KAAP|Andrau Airpark|Houston|United States|29.7225|-95.5883|America/Chicago|-6
+FCM|KFCM|Flying Cloud Airport|Eden Prairie|United States|44.8272|-93.4571|America/Chicago|-6
+LIX|FWLK|Likoma Island Airport|Likoma Island|Malawi|-12.0758|34.7372|Africa/Blantyre|2
+OJC|KOJC|Johnson County Executive Airport|Olathe|United States|38.8476|-94.7376|America/Chicago|-6
+GIU|VCCS|Sigiriya Air Force Base|Sigiriya|Sri Lanka|7.9567|80.7285|Asia/Colombo|5.5
+EUM|EDHN|Neumünster Airport|Neumuenster|Germany|54.0794|9.9414|Europe/Berlin|1
+TKT|VTPT|Tak Airport|Tak|Thailand|16.896|99.2533|Asia/Bangkok|7
+YLK|CYLS|Barrie-Orillia (Lake Simcoe Regional Airport)|Barrie-Orillia|Canada|44.4853|-79.5556|America/Toronto|-5
+YCM|CYSN|Niagara District Airport|Saint Catherines|Canada|43.1917|-79.1717|America/Toronto|-5
+YPD|CNK4|Parry Sound Area Municipal Airport|Parry Sound|Canada|45.2575|-79.8297|America/Toronto|-5
+MNZ|KHEF|Manassas Regional Airport/Harry P. Davis Field|Manassas|United States|38.7214|-77.5154|America/New_York|-5
+LJN|KLBX|Texas Gulf Coast Regional Airport|Angleton|United States|29.1086|-95.4621|America/Chicago|-6
+BGG|LTCU|Bingöl Çeltiksuyu Airport|Bingol|Turkey|38.8593|40.596|Europe/Istanbul|3
+KFS|LTAL|Kastamonu Airport|Kastamonu|Turkey|41.3142|33.7958|Europe/Istanbul|3
+LLV|ZBLL|Lüliang Airport|Lvliang|China|37.6833|111.1428|Asia/Shanghai|8
+DCY|ZUDC|Daocheng Yading Airport|Daocheng|China|29.3231|100.0533|Asia/Shanghai|8
+GXH|ZLXH|Gannan Xiahe Airport|Xiahe city|China|34.8105|102.6447|Asia/Shanghai|8
+CIY|LICB|Comiso Airport|Comiso|Italy|36.9946|14.6072|Europe/Rome|1
+KVM|UHMO|Markovo Airport|Markovo|Russia|64.667|170.417|Asia/Anadyr|12
+ZKP|UESU|Zyryanka Airport|Zyryanka|Russia|65.7485|150.8889|Asia/Srednekolymsk|11
+UMS|UEMU|Ust-Maya Airport|Ust-Maya|Russia|60.357|134.435|Asia/Yakutsk|9
+ADH|UEEA|Aldan Airport|Aldan|Russia|58.6028|125.409|Asia/Yakutsk|9
+OLZ|UEMO|Olyokminsk Airport|Olekminsk|Russia|60.3975|120.471|Asia/Yakutsk|9
+NLT|ZWNL|Xinyuan Nalati Airport|Xinyuan|China|43.4318|83.3786|Asia/Shanghai|8
+PTA|PALJ|Port Alsworth Airport|Port alsworth|United States|60.2017|-154.3259|America/Anchorage|-9
+BOR|LFSQ|Fontaine Airport|Belfort|France|47.6556|7.0108|Europe/Paris|1
+OBC|HDOB|Obock Airport|Obock|Djibouti|11.967|43.267|Africa/Djibouti|3
+TDJ|HDTJ|Tadjoura Airport|Tadjoura|Djibouti|11.783|42.917|Africa/Djibouti|3
+AQB|MGQC|Santa Cruz del Quiche Airport|Santa Cruz des Quiche|Guatemala|15.0122|-91.1506|America/Guatemala|-6
+NOR|BINF|Norðfjörður Airport|Nordfjordur|Iceland|65.1319|-13.7464|Atlantic/Reykjavik|0
+BTZ|LTBE|Bursa Airport|Bursa|Turkey|40.2333|29.0092|Europe/Istanbul|3
+WAR|WAJR|Waris Airport|Waris-Papua Island|Indonesia|-3.235|140.994|Asia/Jayapura|9
+EWK|KEWK|Newton City-County Airport|Newton|United States|38.0582|-97.2745|America/Chicago|-6
+BSJ|YBNS|Bairnsdale Airport|Bairnsdale|Australia|-37.8875|147.568|Australia/Hobart|10
+TZR|LHTA|Taszár Air Base|Columbus|United States|46.3931|17.9175|Europe/Budapest|1
+FBR|KFBR|Fort Bridger Airport|Fort Bridger|United States|41.3919|-110.407|America/Denver|-7
+CLS|KCLS|Chehalis Centralia Airport|Chehalis|United States|46.677|-122.983|America/Los_Angeles|-8
+EVW|KEVW|Evanston-Uinta County Airport-Burns Field|Evanston|United States|41.2748|-111.035|America/Denver|-7
+EUF|KEUF|Weedon Field|Eufala|United States|31.9513|-85.1289|America/Chicago|-6
+MEO|KMQI|Dare County Regional Airport|Manteo|United States|35.919|-75.6955|America/New_York|-5
+AUO|KAUO|Auburn University Regional Airport|Auburn|United States|32.6151|-85.434|America/Chicago|-6
+DBN|KDBN|W H 'Bud' Barron Airport|Dublin|United States|32.5644|-82.9853|America/New_York|-5
+PUK|NTGQ|Pukarua Airport|Pukarua|French Polynesia|-18.2956|-137.017||-10
+CVO|KCVO|Corvallis Municipal Airport|Corvallis|United States|44.4972|-123.29|America/Los_Angeles|-8
+PXH|YPMH|Prominent Hill Airport|Prominent Hill|Australia|-29.716|135.5244|Australia/Adelaide|9.5
+CWT|YCWR|Cowra Airport|Chatsworth|Australia|-33.8447|148.649|Australia/Sydney|10
+OGD|KOGD|Ogden Hinckley Airport|Ogden|United States|41.1959|-112.012|America/Denver|-7
+AKO|KAKO|Colorado Plains Regional Airport|Akron|United States|40.1756|-103.222|America/Denver|-7
+SHN|KSHN|Sanderson Field|Shelton|United States|47.2336|-123.148|America/Los_Angeles|-8
+WNA|PANA|Napakiak Airport|Napakiak|United States|60.6903|-161.979|America/Anchorage|-9
+PKA|PAPK|Napaskiak Airport|Napaskiak|United States|60.7029|-161.778|America/Anchorage|-9
+YBW|CAB3|Bedwell Harbour Seaplane Base|Bedwell Harbour|Canada|48.75|-123.233|America/Vancouver|-8
+WSO|SMWS|Washabo Airport|Washabo|Suriname|5.2153|-57.1853|America/Paramaribo|-3
+WKR|MYAW|Abaco I Walker C Airport|Walker's Cay|Bahamas|27.2667|-78.3997||-5
+GFO|SYBT|Bartica A Airport|Bartica|Guyana|6.3589|-58.6552|America/Guyana|-4
+DYL|KDYL|Doylestown Airport|Doylestown|United States|40.333|-75.1223|America/New_York|-5
+TGI|SPGM|Tingo Maria Airport|Tingo Maria|Peru|-9.133|-75.95|America/Lima|-5
+TJL|SSTL|Plínio Alarcom Airport|Tres Lagoas|Brazil|-20.7542|-51.6842|America/Campo_Grande|-4
+YZY|ZLZY|Zhangye Ganzhou Airport|Zhangye|China|38.8019|100.675|Asia/Shanghai|8
+OAL|SSKW|Cacoal Airport|Cacoal|Brazil|-11.496|-61.4508|America/Boa_Vista|-4
+OCW|KOCW|Warren Field|Washington|United States|35.5705|-77.0498|America/New_York|-5
+MHC|SCPQ|Mocopulli Airport|Castro|Chile|-42.3404|-73.7157|America/Santiago|-4
+SWO|KSWO|Stillwater Regional Airport|Stillwater|United States|36.1612|-97.0857|America/Chicago|-6
+OKM|KOKM|Okmulgee Regional Airport|Okmulgee|United States|35.6681|-95.9487|America/Chicago|-6
+CUH|KCUH|Cushing Municipal Airport|Cushing|United States|35.9499|-96.7731|America/Chicago|-6
+CSM|KCSM|Clinton Sherman Airport|Clinton|United States|35.3398|-99.2005|America/Chicago|-6
+WLD|KWLD|Strother Field|Winfield|United States|37.1686|-97.0376|America/Chicago|-6
+PWA|KPWA|Wiley Post Airport|Oklahoma City|United States|35.5342|-97.6471|America/Chicago|-6
+DTN|KDTN|Shreveport Downtown Airport|Shreveport|United States|32.5402|-93.745|America/Chicago|-6
+SEP|KSEP|Stephenville Clark Regional Airport|Stephenville|United States|32.2153|-98.1777|America/Chicago|-6
+ADT|KADH|Ada Regional Airport|Ada|United States|34.8043|-96.6713|America/Chicago|-6
+IRB|K2F0|Iraan Municipal Airport|Iraan|United States|30.9057|-101.892|America/Chicago|-6
+YEL|CYEL|Elliot Lake Municipal Airport|ELLIOT LAKE|Canada|46.3514|-82.5614|America/Toronto|-5
+IKB|KUKF|Wilkes County Airport|North Wilkesboro|United States|36.2228|-81.0983|America/New_York|-5
+DAN|KDAN|Danville Regional Airport|Danville|United States|36.5729|-79.3361|America/New_York|-5
+ERG|UIKE|Yerbogachen Airport|Yerbogachen|Russia|61.275|108.03|Asia/Irkutsk|8
+HCW|KCQW|Cheraw Municipal Airport/Lynch Bellinger Field|Cheraw|United States|34.7129|-79.957|America/New_York|-5
+BEM|GMMD|Beni Mellal Airport|Beni Mellal|Morocco|32.4019|-6.3159|Africa/Casablanca|0
+NKT|LTCV|Şırnak Şerafettin Elçi Airport|Cizre|Turkey|37.3647|42.0582|Europe/Istanbul|3
+SUY|UENS|Suntar Airport|Suntar|Russia|62.185|117.635|Asia/Yakutsk|9
+OUZ|GQPZ|Tazadit Airport|Zouerat|Mauritania|22.7564|-12.4836|Africa/Nouakchott|0
+ABB|DNAS|Asaba International Airport|Asaba|Nigeria|6.2042|6.6653|Africa/Lagos|1
+QUO|DNAI|Akwa Ibom International Airport|Uyo|Nigeria|4.8725|8.093|Africa/Lagos|1
+KAA|FLKS|Kasama Airport|Kasama|Zambia|-10.2167|31.1333|Africa/Lusaka|2
+SGX|HTSO|Songea Airport|Songea|Tanzania|-10.683|35.583|Africa/Dar_es_Salaam|3
+JUH|ZSJH|Jiuhuashan Airport|Chizhou|China|30.7403|117.6856|Asia/Shanghai|8
+AOG|ZYAS|Anshan Air Base|Anshan|China|41.1053|122.854|Asia/Shanghai|8
+DQA|ZYDQ|Saertu Airport|Daqing|China|46.7464|125.1406|Asia/Shanghai|8
+ZYI|ZUZY|Zunyi Xinzhou Airport|Zunyi|China|27.5895|107.0007|Asia/Shanghai|8
+LDS|ZYLD|Lindu Airport|Yinchun|China|47.7521|129.0191|Asia/Shanghai|8
+AVA|ZUAS|Anshun Huangguoshu Airport|Anshun|China|26.2606|105.8733|Asia/Shanghai|8
+KSS|GASK|Sikasso Airport|Sikasso|Mali|11.333|-5.7|Africa/Bamako|0
+WTB|YBWW|Toowoomba Wellcamp Airport|Toowoomba|Australia|-27.5583|151.7933|Australia/Brisbane|10
+TNH|ZYTN|Tonghua Sanyuanpu Airport|Tonghua|China|42.2539|125.7033|Asia/Shanghai|8
+SZV|ZSSZ|Suzhou Guangfu Airport|Suzhou|China|31.2631|120.401|Asia/Shanghai|8
+LII|WAJM|Mulia Airport|Mulia|Indonesia|-3.7018|137.957|Asia/Jayapura|9
+NTI|WASB|Stenkol Airport|Bintuni|Indonesia|-2.1033|133.5164|Asia/Jayapura|9
+WSR|WASW|Wasior Airport|Wasior|Indonesia|-2.721|134.5061|Asia/Jayapura|9
+DTB|WIMN|Silangit Airport|Siborong-Borong|Indonesia|2.2597|98.9919|Asia/Jakarta|7
+MEQ|WITC|Seunagan Airport|Nagan Raya|Indonesia|4.25|96.217||7
+BUW|WAWB|Betoambari Airport|Bau-Bau|Indonesia|-5.4869|122.569||8
+KAZ|WAMK|Kao Airport|Kao|Indonesia|1.1853|127.896||9
+MNA|WAMN|Melangguane Airport|Melonguane|Indonesia|4.0069|126.673||8
+SGQ|WRLA|Sanggata/Sangkimah Airport|Sanggata|Indonesia|0.3847|117.543||8
+BUU|WIPI|Muara Bungo Airport|Muara Bungo|Indonesia|-1.1278|102.135||7
+ILA|WABL|Illaga Airport|Illaga|Indonesia|-3.9765|137.6225||9
+OKL|WAJO|Oksibil Airport|Oksibil|Indonesia|-4.9071|140.6277||9
+KOX|WABN|Kokonau Airport|Kokonau|Indonesia|-4.7107|136.4351||9
+CMQ|YCMT|Clermont Airport|Clermont|Australia|-22.7731|147.621||10
+WMB|YWBL|Warrnambool Airport|Warrnambool|Australia|-38.2953|142.447||10
+RCM|YRMD|Richmond Airport|Richmond|Australia|-20.7019|143.115||10
+DCN|YCIN|RAAF Base Curtin|Derby|Australia|-17.5814|123.828||8
+KNO|WIMM|Kualanamu International Airport|Medan|Indonesia|3.6422|98.8853|Asia/Jakarta|7
+AMN|KAMN|Gratiot Community Airport|Kamloops|Canada|43.3221|-84.688||-7
+HMY|RKTP|Seosan Air Base|Seosan|South Korea|36.704|126.486||9
+EMT|KEMT|San Gabriel Valley Airport|El Monte|United States|34.0861|-118.035||-8
+FAH|OAFR|Farah Airport|Farah|Afghanistan|32.367|62.183||4.3
+IXT|VEPG|Pasighat Airport|Pasighat|India|28.0661|95.3356||5.3
+KRQ|UKCK|Kramatorsk Airport|Kramatorsk|Ukraine|48.7056|37.6289||2
+QKX|ENKA|Kautokeino Air Base|Kautokeino|Norway|69.0403|23.034||1
+SSF|KSSF|Stinson Municipal Airport|Stinson|United States|29.337|-98.4711||-5
+JAS|KJAS|Jasper County Airport-Bell Field|Jasper|United States|30.8857|-94.0349||-5
+MRF|KMRF|Marfa Municipal Airport|Marfa|United States|30.3711|-104.018||-5
+ALE|KE38|Alpine Casparis Municipal Airport|Alpine|United States|30.3842|-103.684||-5
+BQE|GGBU|Bubaque Airport|Bubaque|Guinea-Bissau|11.2974|-15.8381||0
+CZA|MMCT|Chichen Itza International Airport|Chichen Itza|Mexico|20.6413|-88.4462|America/Mexico_City|-6
+BUY|YBUN|Bunbury Airport|Bunbury|Australia|-33.3783|115.677||8
+CCB|KCCB|Cable Airport|Upland|United States|34.1116|-117.688||-8
+EKI|KEKM|Elkhart Municipal Airport|Elkhart|United States|41.7194|-86.0032||-5
+CUB|KCUB|Jim Hamilton L.B. Owens Airport|Columbia|United States|33.9705|-80.9952||-4
+GDC|KGYH|Donaldson Field Airport|Greenville|United States|34.7583|-82.3764||-4
+HVS|KHVS|Hartsville Regional Airport|Hartsville|United States|34.4031|-80.1192||-5
+SZT|MMSC|San Cristobal de las Casas Airport|San Cristobal de las Casas|Mexico|16.6903|-92.5301|America/Mexico_City|-6
+DU9|CDU9|Dunnville Airport|Dunnville|Canada|42.8722|-79.5958||-5
+RIH|MPRH|Scarlett Martinez International Airport|Rio Hato|Panama|8.3759|-80.1279||-5
+LEE|KLEE|Leesburg International Airport|Leesburg|United States|28.8231|-81.8087||-5
+PPY|SNZA|Pouso Alegre Airport|Pouso Alegre|Brazil|-22.2892|-45.9191||-3
+DIQ|SNDV|Brigadeiro Cabral Airport|Divinopolis|Brazil|-20.1807|-44.8709||-3
+EIK|URKE|Yeysk Airport|Eysk|Russia|46.68|38.21|Europe/Moscow|3
+ERD|UKDB|Berdyansk Airport|Berdyansk|Ukraine|46.815|36.7581||2
+BWX|WARB|Blimbingsari Airport|Banyuwangi|Indonesia|-8.3102|114.3401||7
+ERL|ZBER|Erenhot Saiwusu International Airport|Erenhot|China|43.4225|112.0967||8
+CNO|KCNO|Chino Airport|Chino|United States|33.9747|-117.637||-8
+HTR|RORH|Hateruma Airport|Taketomi|Japan|24.0589|123.806||9
+BWW|MUBR|Las Brujas Airport|Cayo Santa Maria|Cuba|22.6213|-79.1472||-5
+PRB|KPRB|Paso Robles Municipal Airport|Paso Robles|United States|35.6729|-120.627||-8
+PKX|ZBAD|Beijing Daxing International Airport|Beijing|China|39.5099|116.4109||8
+HAF|KHAF|Half Moon Bay Airport|Half Moon Bay|United States|37.5134|-122.501||-8
+HCJ|ZGHC|Hechi Jinchengjiang Airport|Hechi|China|24.805|107.6997||8
+WJF|KWJF|General WM J Fox Airfield|Lancaster|United States|34.7411|-118.219||-8
+CJF|YCWA|Coondewanna Airport|Coondewanna|Australia|-22.9667|118.813||8
+GUZ|SNGA|Guarapari Airport|Guarapari|Brazil|-20.6465|-40.4919||-3
+UBT|SDUB|Ubatuba Airport|Ubatuba|Brazil|-23.4411|-45.0756||-3
+BOX|YBRL|Borroloola Airport|Borroloola|Australia|-16.0753|136.302||9.5
+QUG|EGHR|Chichester/Goodwood Airport|Goodwood|United Kingdom|50.8594|-0.7592||0
+TNW|SEJD|Jumandy Airport|Tena|Ecuador|-1.0597|-77.5833||-5
+FYJ|ZYFY|Dongji Aiport|Fuyuan|China|48.1995|134.3664||8
+PZL|FADQ|Zulu Inyala Airport|Phinda|South Africa|-27.8494|32.3097||2
+LPF|ZUPS|Liupanshui Yuezhao Airport|Liupanshui|China|26.6094|104.979||8
+KJH|ZUKJ|Kaili Airport|Kaili|China|26.972|107.988||8
+HPG|ZHSN|Shennongjia Hongping Airport|Shennongjia|China|31.626|110.34||8
+ZQZ|ZBZJ|Zhangjiakou Ningyuan Airport|Zhangjiakou|China|40.7386|114.93||8
+YIE|ZBES|Arxan Yi'ershi Airport|Arxan|China|47.3106|119.9117||8
+HNY|ZGHY|Hengyang Nanyue Airport|Hengyang|China|26.9053|112.628||8
+AHJ|ZUHY|Hongyuan Airport|Ngawa|China|32.5315|102.3522||8
+WOS|ZKWS|Wonsan Kalma International Airport|Wonsan|North Korea|39.1668|127.486||8.5
+IGT|URMS|Magas Airport|Magas|Russia|43.3223|45.0126|Europe/Moscow|3
+ASN|KASN|Talladega Municipal Airport|Talladega|United States|33.5699|-86.0509||-5
+GMU|KGMU|Greenville Downtown Airport|Greenville|United States|34.8479|-82.35||-4
+NGD|TUPA|Captain Auguste George Airport|Anegada|British Virgin Islands|18.7272|-64.3297||-4
+TOI|KTOI|Troy Municipal Airport at N Kenneth Campbell Field|Troy|United States|31.8604|-86.0121||-5
+ETS|KEDN|Enterprise Municipal Airport|Enterprise|United States|31.2997|-85.8999||-5
+EFG|AYEF|Efogi Airport|Efogi|Papua New Guinea|-9.1538|147.6598||10
+KGW|AYKQ|Kagi Airport|Kagi|Papua New Guinea|-9.1359|147.6694||10
+NDN|AYNC|Nadunumu Airport|Nadunumu|Papua New Guinea|-9.1436|147.6842||10
+BNM|AYBD|Bodinumu Airport|Bodinumu|Papua New Guinea|-9.1078|147.6667||10
+ALX|KALX|Thomas C Russell Field|Alexander City|United States|32.9147|-85.963||-5
+PKT|YPKT|Port Keats Airport|Wadeye|Australia|-14.25|129.529||9.5
+GPN|YGPT|Garden Point Airport|Pirlangimpi|Australia|-11.4025|130.422||9.5
+DOH|OTHH|Hamad International Airport|Doha|Qatar|25.2731|51.6081||3
+HZP|CYNR|Fort Mackay / Horizon Airport|Wood Buffalo|Canada|57.3817|-111.701||-7
+HDE|KHDE|Brewster Field|Holdredge|United States|40.4521|-99.3365||-5
+PTT|KPTT|Pratt Regional Airport|Pratt|United States|37.7016|-98.7469||-5
+LXN|KLXN|Jim Kelly Field|Lexington|United States|40.791|-99.7773||-5
+CBF|KCBF|Council Bluffs Municipal Airport|Council Bluffs|United States|41.2592|-95.7606||-5
+OKK|KOKK|Kokomo Municipal Airport|Kokomo|United States|40.5282|-86.059||-4
+GBG|KGBG|Galesburg Municipal Airport|Galesburg|United States|40.938|-90.4311||-5
+GUY|KGUY|Guymon Municipal Airport|Guymon|United States|36.6851|-101.508||-5
+IDP|KIDP|Independence Municipal Airport|Independence|United States|37.1584|-95.7784||-5
+BBC|KBYY|Bay City Municipal Airport|Bay City|United States|28.9733|-95.8635||-5
+PRX|KPRX|Cox Field|Paris|United States|33.6366|-95.4508||-5
+CFV|KCFV|Coffeyville Municipal Airport|Coffeyville|United States|37.094|-95.5719||-5
+GXY|KGXY|Greeley–Weld County Airport|Greeley|United States|40.4374|-104.633||-7
+OEL|UUOR|Oryol Yuzhny Airport|Oakley|United States|52.9347|36.0022||-5
+FET|KFET|Fremont Municipal Airport|Fremont|United States|41.4491|-96.5202||-5
+LGD|KLGD|La Grande/Union County Airport|La Grande|United States|45.2902|-118.007||-7
+SZY|EPSY|Olsztyn-Mazury Airport|Szczytno-Szymany|Poland|53.4819|20.9377||1
+MPO|KMPO|Pocono Mountains Municipal Airport|Mount Pocono|United States|41.1375|-75.3789||-5
+UKT|KUKT|Quakertown Airport|Quakertown|United States|40.4352|-75.3819||-5
+YBA|CYBA|Banff Airport|Banff|Canada|51.2073|-115.5419||-7
+BNG|KBNG|Banning Municipal Airport|Banning|United States|33.9231|-116.851||-8
+OFK|KOFK|Karl Stefan Memorial Airport|Norfolk  Nebraska|United States|41.9855|-97.4351||-6
+TFL|SNTO|Juscelino Kubitscheck Airport|Teofilo Otoni|Brazil|-17.8923|-41.5136||-3
+TPF|KTPF|Peter O Knight Airport|Tampa|United States|27.9156|-82.4493||-5
+BZC|SBBZ|Umberto Modiano Airport|Buzios|Brazil|-22.771|-41.9629||-3
+ITP|SDUN|Itaperuna Airport|Itaperuna|Brazil|-21.2193|-41.8759||-3
+REZ|SDRS|Resende Airport|Resende|Brazil|-22.4785|-44.4803||-3
+KBN|FZWT|Tunta Airport|Kabinda|Congo (Kinshasa)|-6.133|24.483||1
+IKL|FZGV|Ikela Airport|Ikela|Congo (Kinshasa)|-1.0481|23.3725||1
+AIR|SWRP|Aripuanã Airport|Aripuana|Brazil|-10.1883|-59.4573||-4
+JRN|SWJU|Juruena Airport|Juruena|Brazil|-10.3058|-58.4894||-4
+JIA|SWJN|Juína Airport|Juina|Brazil|-11.4194|-58.7017||-4
+VLP|SWVC|Vila Rica Airport|Vila Rica|Brazil|-9.9794|-51.1422||-4
+JUA|SIZX|Inácio Luís do Nascimento Airport|Juara|Brazil|-11.2966|-57.5495||-4
+CCX|SWKC|Cáceres Airport|Caceres|Brazil|-16.0436|-57.6299||-4
+TGQ|SWTS|Tangará da Serra Airport|Tangara da Serra|Brazil|-14.662|-57.4435||-4
+CQA|SWEK|Canarana Airport|Canarana|Brazil|-13.5744|-52.2706||-4
+MTG|SWVB|Vila Bela da Santíssima Trindade Airport|Vila Bela da Santissima Trindade |Brazil|-14.9942|-59.9458||-4
+BMB|FZFU|Bumbar Airport|Bumba|Congo (Kinshasa)|2.1828|22.4817||1
+APQ|SNAL|Arapiraca Airport|Arapiraca|Brazil|-9.7754|-36.6292||-3
+FLB|SNQG|Cangapara Airport|Floriano|Brazil|-6.8464|-43.0773||-3
+PCS|SNPC|Picos Airport|Picos|Brazil|-7.0621|-41.5237||-3
+BNC|FZNP|Beni Airport|Beni|Congo (Kinshasa)|0.575|29.4739||1
+BNB|FZGN|Boende Airport|Boende|Congo (Kinshasa)|-0.217|20.85||1
+MTP|KMTP|Montauk Airport|Montauk|United States|41.0765|-71.9208||-4
+VPZ|KVPZ|Porter County Municipal Airport|Valparaiso IN|United States|41.454|-87.0071||-5
+DRV|VRMD|Dharavandhoo Airport|DHARAVANDHOO|Maldives|5.1561|73.1302||5
+SXK|WAPI|Saumlaki/Olilit Airport|Saumlaki|Indonesia|-7.9886|131.306||9
+MLZ|SUMO|Cerro Largo International Airport|Melo|Uruguay|-32.3379|-54.2167||-3
+PDU|SUPU|Tydeo Larre Borges Airport|Paysandu|Uruguay|-32.3633|-58.0619||-3
+ATI|SUAG|Artigas International Airport|Artigas |Uruguay|-30.4007|-56.5079||-3
+HSM|YHSM|Horsham Airport|Horsham|Australia|-36.6697|142.173||10
+SWH|YSWH|Swan Hill Airport|Swan Hill|Australia|-35.3758|143.533||10
+TTL|NFUL|Turtle Island Seaplane Base|Turtle Island|Fiji|-16.966|177.368||12
+KWB|WARU|Dewadaru - Kemujan Island|Karimunjawa|Indonesia|-5.8009|110.4784||7
+KOO|FZRQ|Kongolo Airport|Kongolo|Congo (Kinshasa)|-5.3944|26.99||1
+AOU|VLAP|Attopeu Airport|Attopeu|Laos|14.8147|106.8217||7
+SQX|SSOE|São Miguel do Oeste Airport|Sao Miguel do Oeste|Brazil|-26.7816|-53.5035||-3
+LDM|KLDM|Mason County Airport|Ludington|United States|43.9625|-86.4079||-5
+RHV|KRHV|Reid-Hillview Airport of Santa Clara County|San Jose|United States|37.3329|-121.819||8
+OHS|OOSH|Sohar Airport|Sohar|Oman|24.386|56.6254||4
+KCF|OPKW|Kadanwari Airport|Kadanwari|Pakistan|27.1667|69.3167||5
+RZS|OPSW|Sawan Airport|Sindh|Pakistan|26.9662|68.8781||5
+TMF|VRNT|Thimarafushi Airport|Thimarafushi|Maldives|2.211|73.1533||5
+IFU|VREI|Ifuru Airport|Ifuru|Maldives|5.7083|73.025||5
+KZF|AYKT|Kaintiba Airport|Kieta|Papua New Guinea|-7.5003|146.0338||10
+OGU|LTCB|Ordu Giresun Airport|Ordu-Giresun|Turkey|40.966|38.081||2
+YKO|LTCW|Hakkari Yüksekova Airport|Hakkari|Turkey|37.5497|44.2381||2
+BUT|VQBT|Bathpalathang Airport|Jakar|Bhutan|27.5622|90.7471||6
+TLI|WAMI|Sultan Bantilan Airport|Toli-Toli|Indonesia|1.1234|120.7937||8
+TQL|USDS|Tarko-Sale Airport|Tarko-Sale|Russia|64.9308|77.8181||5
+JIC|ZLJC|Jinchuan Airport|Jinchuan|China|38.5422|102.3483||8
+BPL|ZWAX|Alashankou Bole (Bortala) airport|Bole|China|44.895|82.3||8
+FYN|ZWFY|Fuyun Koktokay Airport|Fuyun|China|46.8042|89.512||8
+ACS|UNKS|Achinsk Airport|Achinsk|Russia|56.2683|90.5708||8
+LFQ|ZBLF|Linfen Qiaoli Airport|LINFEN|China|36.1326|111.6412||8
+YJP|CEC4|Hinton/Jasper-Hinton Airport|Hinton|Canada|53.3192|-117.753||-7
+WVI|KWVI|Watsonville Municipal Airport|Watsonville|United States|36.9357|-121.79||-8
+GLU|VQGP|Gelephu Airport|Gelephu|Bhutan|26.8846|90.4641||6
+HLI|KCVH|Hollister Municipal Airport|Hollister|United States|36.8933|-121.41||-8
+DLK|YDLK|Dulkaninna Airport|Dulkaninna|Australia|-29.0133|138.481||9.5
+YBS|CKM8|Opapimiskan Lake Airport|Musselwhite Mine|Canada|52.6067|-90.3769||-5
+RIZ|ZSRZ|Rizhao Shanzihe Airport|Rizhao|China|35.405|119.3244||8
+SQJ|ZSSM|Shaxian Airport|Sanming|China|26.4263|117.8336||8
+XTO|YTAM|Taroom Airport|Taroom|Australia|-25.8017|149.9||10
+YSE|CYSE|Squamish Airport|Squamish|Canada|49.7817|-123.162||-8
+YAH|CYAH|La Grande-4 Airport|La Grande-4|Canada|53.7547|-73.6753||
+YAL|CYAL|Alert Bay Airport|Alert Bay|Canada|50.5822|-126.916||
+YCE|CYCE|Centralia / James T. Field Memorial Aerodrome|Centralia|Canada|43.2856|-81.5083||
+YCQ|CYCQ|Chetwynd Airport|Chetwynd|Canada|55.6872|-121.627||
+XRR|CYDM|Ross River Airport|Ross River|Canada|61.9706|-132.423||
+YDO|CYDO|Dolbeau St Felicien Airport|Dolbeau-St-Félicien|Canada|48.7785|-72.375||
+YEY|CYEY|Amos/Magny Airport|Amos|Canada|48.5639|-78.2497||
+YHE|CYHE|Hope Airport|Hope|Canada|49.3683|-121.498||
+YHT|CYHT|Haines Junction Airport|Haines Junction|Canada|60.7892|-137.546||
+YDG|CYID|Digby / Annapolis Regional Airport|Digby|Canada|44.5458|-65.7854||
+YJF|CYJF|Fort Liard Airport|Fort Liard|Canada|60.2358|-123.469||
+YKJ|CYKJ|Key Lake Airport|Key Lake|Canada|57.2561|-105.618||
+YLR|CYLR|Leaf Rapids Airport|Leaf Rapids|Canada|56.5133|-99.9853||
+YME|CYME|Matane Airport|Matane|Canada|48.8569|-67.4533||
+YML|CYML|Charlevoix Airport|Charlevoix|Canada|47.5975|-70.2239||
+YOS|CYOS|Owen Sound / Billy Bishop Regional Airport|Owen Sound|Canada|44.5903|-80.8375||
+YPS|CYPD|Port Hawkesbury Airport|Port Hawkesbury|Canada|45.6567|-61.3681||
+YQS|CYQS|St Thomas Municipal Airport|St Thomas|Canada|42.77|-81.1108||
+YRO|CYRO|Ottawa / Rockcliffe Airport|Ottawa|Canada|45.4603|-75.6461||
+YSH|CYSH|Smiths Falls-Montague (Russ Beach) Airport|Smiths Falls|Canada|44.9458|-75.9406||
+YSL|CYSL|St Leonard Airport|St Leonard|Canada|47.1575|-67.8347||
+YVE|CYVK|Vernon Airport|Vernon|Canada|50.2481|-119.331||
+YXQ|CYXQ|Beaver Creek Airport|Beaver Creek|Canada|62.4103|-140.867||
+YSN|CZAM|Shuswap Regional Airport|Salmon Arm|Canada|50.6828|-119.229||
+KES|CZEE|Kelsey Airport|Kelsey|Canada|56.0375|-96.5097||
+XPK|CZFG|Pukatawagan Airport|Pukatawagan|Canada|55.7492|-101.266||
+ZGF|CZGF|Grand Forks Airport|Grand Forks|Canada|49.0156|-118.431||
+ZJG|CZJG|Jenpeg Airport|Jenpeg|Canada|54.5189|-98.0461||
+YTD|CZLQ|Thicket Portage Airport|Thicket Portage|Canada|55.3189|-97.7078||
+PIW|CZMN|Pikwitonei Airport|Pikwitonei|Canada|55.5889|-97.1642||
+XPP|CZNG|Poplar River Airport|Poplar River|Canada|52.9965|-97.2742||
+WPC|CZPC|Pincher Creek Airport|Pincher Creek|Canada|49.5206|-113.997||
+ZST|CZST|Stewart Airport|Stewart|Canada|55.9354|-129.9824||
+ZUC|CZUC|Ignace Municipal Airport|Ignace|Canada|49.4297|-91.7178||
+FNB|EDBN|Neubrandenburg Airport|Neubrandenburg|Germany|53.6022|13.306||
+FSS|EGQK|RAF Kinloss|Kinloss|United Kingdom|57.6494|-3.5606||
+BXP|EPBP|Biała Podlaska Airfield|Biała Podlaska|Poland|52.0008|23.1325||
+DGP|EVDA|Daugavpils Intrenational Airport|Daugavpils|Latvia|55.9447|26.665||
+LMR|FALC|Lime Acres Finsch Mine Airport|Lime Acres|South Africa|-28.3601|23.4391||
+SXN|FBSN|Sua Pan Airport|Sowa|Botswana|-20.5534|26.1158||
+NDD|FNSU|Sumbe Airport|Sumbe|Angola|-11.1679|13.8475||
+MAI|FWMG|Mangochi Airport|Mangochi|Malawi|-14.483|35.267||
+ADI|FYAR|Arandis Airport|Arandis|Namibia|-22.4622|14.98||
+MWE|HSMN|Merowe New Airport|Merowe|Sudan|18.4433|31.8433||
+ALN|KALN|St Louis Regional Airport|Alton/St Louis|United States|38.8903|-90.046||
+AXN|KAXN|Chandler Field|Alexandria|United States|45.8663|-95.3947||
+CLU|KBAK|Columbus Municipal Airport|Columbus|United States|39.2619|-85.8963||
+BBD|KBBD|Curtis Field|Brady|United States|31.1793|-99.3239||
+BIH|KBIH|Eastern Sierra Regional Airport|Bishop|United States|37.3731|-118.364||
+BKE|KBKE|Baker City Municipal Airport|Baker City|United States|44.8373|-117.809||
+BPI|KBPI|Miley Memorial Field|Big Piney|United States|42.5851|-110.111||
+WMH|KBPK|Ozark Regional Airport|Mountain Home|United States|36.3689|-92.4705||
+BTL|KBTL|W K Kellogg Airport|Battle Creek|United States|42.3073|-85.2515||
+BYI|KBYI|Burley Municipal Airport|Burley|United States|42.5426|-113.772||
+CCY|KCCY|Northeast Iowa Regional Airport|Charles City|United States|43.0726|-92.6108||
+CNU|KCNU|Chanute Martin Johnson Airport|Chanute|United States|37.6688|-95.4851||
+CRG|KCRG|Jacksonville Executive at Craig Airport|Jacksonville|United States|30.3363|-81.5144||
+CSV|KCSV|Crossville Memorial Whitson Field|Crossville|United States|35.9513|-85.085||
+DAA|KDAA|Davison Army Air Field|Fort Belvoir|United States|38.715|-77.181||
+DAG|KDAG|Barstow Daggett Airport|Daggett|United States|34.8537|-116.787||
+DMN|KDMN|Deming Municipal Airport|Deming|United States|32.2623|-107.721||
+DRA|KDRA|Desert Rock Airport|Mercury|United States|36.6194|-116.033||
+EED|KEED|Needles Airport|Needles|United States|34.7663|-114.623||
+EGI|KEGI|Duke Field|Crestview|United States|30.6504|-86.5229||
+EKA|KEKA|Murray Field|Eureka|United States|40.8034|-124.113||
+HYR|KHYR|Sawyer County Airport|Hayward|United States|46.0252|-91.4443||
+JCT|KJCT|Kimble County Airport|Junction|United States|30.5113|-99.7635||
+LOL|KLOL|Derby Field|Lovelock|United States|40.0664|-118.565||
+MBG|KMBG|Mobridge Municipal Airport|Mobridge|United States|45.5465|-100.408||
+MCB|KMCB|Mc Comb/Pike County Airport/John E Lewis Field|Mc Comb|United States|31.1785|-90.4719||
+MDH|KMDH|Southern Illinois Airport|Carbondale/Murphysboro|United States|37.7781|-89.252||
+MMT|KMMT|Mc Entire Joint National Guard Base|Eastover|United States|33.9208|-80.8013||
+NHZ|KNHZ|Brunswick Executive Airport|Brunswick|United States|43.8922|-69.9386||
+NRB|KNRB|Naval Station Mayport (Admiral David L. Mcdonald Field)|Mayport|United States|30.3911|-81.4247||
+OGB|KOGB|Orangeburg Municipal Airport|Orangeburg|United States|33.4568|-80.8595||
+OTM|KOTM|Ottumwa Regional Airport|Ottumwa|United States|41.1066|-92.4479||
+OZR|KOZR|Cairns AAF (Fort Rucker) Air Field|Fort Rucker/Ozark|United States|31.2757|-85.7134||
+PWY|KPNA|Ralph Wenz Field|Pinedale|United States|42.7955|-109.807||
+POU|KPOU|Dutchess County Airport|Poughkeepsie|United States|41.6266|-73.8842||
+RSL|KRSL|Russell Municipal Airport|Russell|United States|38.8721|-98.8118||
+RWF|KRWF|Redwood Falls Municipal Airport|Redwood Falls|United States|44.5472|-95.0823||
+SNS|KSNS|Salinas Municipal Airport|Salinas|United States|36.6628|-121.606||
+TPH|KTPH|Tonopah Airport|Tonopah|United States|38.0602|-117.087||
+UKI|KUKI|Ukiah Municipal Airport|Ukiah|United States|39.126|-123.201||
+UOX|KUOX|University Oxford Airport|Oxford|United States|34.3843|-89.5368||
+HTV|KUTS|Huntsville Regional Airport|Huntsville|United States|30.7469|-95.5872||
+VTN|KVTN|Miller Field|Valentine|United States|42.8578|-100.548||
+WMC|KWMC|Winnemucca Municipal Airport|Winnemucca|United States|40.8966|-117.806||
+WWR|KWWR|West Woodward Airport|Woodward|United States|36.438|-99.5227||
+ZZV|KZZV|Zanesville Municipal Airport|Zanesville|United States|39.9444|-81.8921||
+ECV|LECU|Cuatro Vientos Airport|Madrid|Spain|40.3707|-3.7851||
+CDT|LEDS|Castellón-Costa Azahar Airport|Castellón de la Plana|Spain|40.2139|0.0733||
+TEV|LETL|Teruel Airport|Teruel|Spain|40.403|-1.2183||
+QLP|LIQW|Sarzana-Luni Air Base|Sarzana (SP)|Italy|44.088|9.9879||
+BJY|LYBT|Batajnica Air Base|Batajnica|Serbia|44.9353|20.2575||
+RUV|MGRB|Rubelsanto Airport|Rubelsanto|Guatemala|15.992|-90.4453||
+XPL|MHSC|Coronel Enrique Soto Cano Air Base|Comayagua|Honduras|14.3824|-87.6212||
+UPL|MRUP|Upala Airport|Upala|Costa Rica|10.8922|-85.0162||
+QSN|MUNB|San Nicolas De Bari Airport|San Nicolás|Cuba|22.7561|-81.9209||
+SNJ|MUSJ|San Julian Air Base|Pinar Del Rio|Cuba|22.0953|-84.152||
+DWD|OEDM|King Salman Abdulaziz Airport||Saudi Arabia|24.4499|44.1212||
+KMX|OEKM|King Khaled Air Base||Saudi Arabia|18.2973|42.8035||
+XXN|OERY|Riyadh Air Base|Riyadh|Saudi Arabia|24.7098|46.7252||
+KNR|OIBJ|Jam Airport|Kangan|Iran|27.8205|52.3522||
+PYK|OIIP|Payam International Airport|Karaj|Iran|35.7761|50.8267||
+XIJ|OKAJ|Ahmed Al Jaber Air Base|Ahmed Al Jaber AB|Kuwait|28.9348|47.7919||
+ATG|OPMS|Minhas Air Base|Kamra|Pakistan|33.8691|72.4009||
+SGI|OPSR|Mushaf Air Base|Sargodha|Pakistan|32.0486|72.665||
+RQW|ORQW|Qayyarah West Airport|Qayyarah|Iraq|35.7672|43.1251||
+ENN|PANN|Nenana Municipal Airport|Nenana|United States|64.5473|-149.074||
+WWA|PAWS|Wasilla Airport|Wasilla|United States|61.5717|-149.54||
+IWK|RJOI|Iwakuni Marine Corps Air Station|Iwakuni|Japan|34.1439|132.236||
+IEJ|RORE|Ie Jima Airport|Ie|Japan|26.722|127.785||
+AAV|RPMA|Allah Valley Airport|Surallah|Philippines|6.3668|124.751||
+BPH|RPMF|Bislig Airport||Philippines|8.1959|126.322||
+MXI|RPMQ|Mati National Airport||Philippines|6.9491|126.2737||
+BAT|SBBT|Chafei Amsei Airport|Barretos|Brazil|-20.5845|-48.5941||
+QHP|SBTA|Base de Aviação de Taubaté Airport|Taubaté|Brazil|-23.0401|-45.516||
+TOQ|SCBE|Barriles Airport|Tocopilla|Chile|-22.1411|-70.0629||
+CNR|SCRA|Chañaral Airport|Chañaral|Chile|-26.3325|-70.6073||
+TLX|SCTL|Panguilemo Airport|Talca|Chile|-35.3778|-71.6017||
+ZIC|SCTO|Victoria Airport|Victoria|Chile|-38.2456|-72.3486||
+TTC|SCTT|Las Breas Airport|Taltal|Chile|-25.5643|-70.3759||
+API|SKAP|Gomez Nino Apiay Air Base|Apiay|Colombia|4.0761|-73.5627||
+CVE|SKCV|Coveñas Airport|Coveñas|Colombia|9.4009|-75.6913||
+PAL|SKPQ|German Olano Air Base|La Dorada|Colombia|5.4836|-74.6574||
+PZA|SKPZ|Paz De Ariporo Airport|Paz De Ariporo|Colombia|5.8761|-71.8866||
+TQS|SKTQ|Tres Esquinas Air Base|Tres Esquinas|Colombia|0.7459|-75.234||
+RIJ|SPJA|Juan Simons Vela Airport|Rioja|Peru|-6.0679|-77.16||
+JAE|SPJE|Shumba Airport|Jaén|Peru|-5.5925|-78.774||
+IKU|UAFL|Issyk-Kul International Airport|Tamchy|Kyrgyzstan|42.5879|76.713||
+VYI|UENW|Vilyuisk Airport|Vilyuisk|Russia|63.7567|121.6933||
+BGN|UESG|Belaya Gora Airport||Russia|68.5566|146.2315||
+GVN|UHKM|Maygatka Airport.|Sovetskaya Gavan|Russia|48.927|140.034||
+NLI|UHNN|Nikolayevsk-na-Amure Airport|Nikolayevsk-na-Amure Airport|Russia|53.155|140.65||
+VLK|URRY|Volgodonsk Airport||Russia|47.6821|42.0728||
+INA|UUYI|Inta Airport|Inta|Russia|66.0548|60.1103||
+ZIX|UWKV|Zhigansk Airport|Zhigansk|Russia|66.7965|123.361||
+RTC|VARG|Ratnagiri Airport||India|17.0136|73.3278||
+HIM|VCCH|Hingurakgoda Air Force Base|Polonnaruwa Town|Sri Lanka|8.0498|80.9814||
+RDP|VEDG|Kazi Nazrul Islam Airport|Durgapur|India|23.6225|87.243||
+PUT|VOPN|Sri Sathya Sai Airport|Puttaparthi|India|14.1493|77.7911||
+LNX|XUBS|Smolensk North Airport|Smolensk|Russia|54.824|32.025||
+ABH|YAPH|Alpha Airport|Alpha|Australia|-23.6461|146.584||
+ARY|YARA|Ararat Airport||Australia|-37.3094|142.989||
+BLN|YBLA|Benalla Airport||Australia|-36.5519|146.007||
+BZD|YBRN|Balranald Airport||Australia|-34.6236|143.578||
+BWQ|YBRW|Brewarrina Airport||Australia|-29.9739|146.817||
+CVC|YCEE|Cleve Airport||Australia|-33.7097|136.505||
+CWW|YCOR|Corowa Airport||Australia|-35.9947|146.357||
+CYG|YCRG|Corryong Airport||Australia|-36.1828|147.888||
+CMD|YCTM|Cootamundra Airport||Australia|-34.6239|148.028||
+DRN|YDBI|Dirranbandi Airport||Australia|-28.5917|148.217||
+DNQ|YDLQ|Deniliquin Airport|Deniliquin|Australia|-35.5594|144.946||
+DYA|YDYS|Dysart Airport||Australia|-22.6222|148.364||
+ECH|YECH|Echuca Airport||Australia|-36.1572|144.762||
+FRB|YFBS|Forbes Airport|Forbes|Australia|-33.3636|147.935||
+GUH|YGDH|Gunnedah Airport||Australia|-30.9611|150.251||
+HXX|YHAY|Hay Airport||Australia|-34.5314|144.83||
+HTU|YHPN|Hopetoun Airport||Australia|-35.7153|142.36||
+KRA|YKER|Kerang Airport||Australia|-35.7514|143.939||
+KPS|YKMP|Kempsey Airport||Australia|-31.0744|152.77||
+KGY|YKRY|Kingaroy Airport||Australia|-26.5808|151.841||
+TGN|YLTV|Latrobe Valley Airport|Morwell|Australia|-38.2072|146.47||
+MRG|YMBA|Mareeba Airport||Australia|-17.0692|145.419||
+RPM|YNGU|Ngukurr Airport||Australia|-14.7228|134.747||
+QRM|YNRM|Narromine Airport||Australia|-32.2147|148.225||
+PPI|YPIR|Port Pirie Airport||Australia|-33.2389|137.995||
+SIO|YSMI|Smithton Airport||Australia|-40.835|145.084||
+SNB|YSNB|Snake Bay Airport||Australia|-11.4228|130.654||
+SWC|YSWL|Stawell Airport||Australia|-37.0717|142.741||
+TYB|YTIB|Tibooburra Airport||Australia|-29.4511|142.058||
+TUM|YTMU|Tumut Airport||Australia|-35.2628|148.241||
+WGT|YWGT|Wangaratta Airport||Australia|-36.4158|146.307||
+WKB|YWKB|Warracknabeal Airport||Australia|-36.3211|142.419||
+QRR|YWRN|Warren Airport||Australia|-31.7333|147.803||
+SXE|YWSL|West Sale Airport|Sale|Australia|-38.0908|146.9653||
+WWY|YWWL|West Wyalong Airport|West Wyalong|Australia|-33.9372|147.191||
+NGA|YYNG|Young Airport||Australia|-34.2556|148.248||
+LHK|ZHGH|Guangzhou MR Air Base|Guanghua|China|32.3894|111.695||
+WDS|ZHSY|Shiyan Wudangshan Airport|Shiyan|China|32.5917|110.9078||
+HTT|ZLHX|Huatugou Airport|Mengnai|China|38.202|90.8415||
+UUN|ZMBU|Baruun Urt Airport||Mongolia|46.6603|113.285||
+BFU|ZSBB|Bengbu Airport|Bengbu|China|32.8477|117.3202||
+RUG|ZSRG|Rugao Air Base|Rugao|China|32.2579|120.5017||
+WHU|ZSWU|Wuhu Air Base|Wuhu|China|31.3906|118.409||
+SXJ|ZWSS|Shanshan Airport|Shanshan|China|42.9117|90.2475||
+YKH|ZYYK|Yingkou Lanqi Airport|Yingkou|China|40.5425|122.3586||
+BQG|UHNB|Bogorodskoye Airport|Bogorodskoe|Russia|52.38|140.448||11
+HYD|VOHS|Rajiv Gandhi International Airport|Hyderabad|India|17.2313|78.4299||5.5
+PKO|DBBP|Parakou Airport|Parakou|Benin|9.3577|2.6097||1
+KDC|DBBK|Kandi Airport|Kandi|Benin|11.1448|2.9404||1
+HMG|YHMB|Hermannsburg Airport|Hermannsburg|Australia|-23.93|132.805||9.5
+BIB|HCMB|Baidoa Airport|Baidoa|Somalia|3.1022|43.6286||3
+KCS|YKCS|Kings Creek Airport|Petermann|Australia|-24.4233|131.835||9.5
+BMR|EDWZ|Baltrum Airport|Baltrum|Germany|53.7247|7.3733||1
+MVW|KBVS|Skagit Regional Airport|Skagit|United States|48.4709|-122.421||-8
+GOO|YGDI|Goondiwindi Airport|Goondiwindi|Australia|-28.5214|150.32||10
+APT|KAPT|Marion County Brown Field|Jasper|United States|35.0607|-85.5853||-5
+DCU|KDCU|Pryor Field Regional Airport|Decatur|United States|34.6527|-86.9454||-6
+GLW|KGLW|Glasgow Municipal Airport|Glasgow|United States|37.0318|-85.9537||-6
+DKV|YDVR|Docker River Airport|Docker River|Australia|-24.86|129.07||9.5
+RNZ|KRZL|Jasper County Airport|Rensselaer|United States|40.9479|-87.1826||-5
+SBT|USDA|Sabetta International Airport|Sabetta|Russia|71.2192|72.0522||5
+AXF|ZBAL|Alxa Left Banner Bayanhot Airport|Alxa Left Banner|China|38.7483|105.5886||8
+NIS|AYSE|Simberi Airport|Simberi Island|Papua New Guinea|-2.6622|151.9978||10
+BUL|AYBU|Bulolo Airport|Bulolo|Papua New Guinea|-7.2163|146.6495||10
+TBR|KTBR|Statesboro Bulloch County Airport|Statesboro|United States|32.4827|-81.7369||-5
+AMT|YAMT|Amata Airport|Amata|Australia|-26.1083|131.207||9.5
+EDD|YERL|Erldunda Airport|Erldunda|Australia|-25.2058|133.254||9.5
+FIK|YFNE|Finke Airport|Finke|Australia|-25.5947|134.583||9.5
+JJG|SBJA|Humberto Ghizzo Bortoluzzi Regional Airport|Jaguaruna|Brazil|-28.6753|-49.0596||-3
+WKI|FVWT|Hwange (Town) Airport|Hwange|Zimbabwe|-18.363|26.5198||2
+KLJ|EYKL|Klaipėda Airport|Klaipeda|Lithuania|55.7119|21.2428||2
+ETB|KETB|West Bend Municipal Airport|WEST BEND|United States|43.4222|-88.1279||-5
+GLR|KGLR|Gaylord Regional Airport|GAYLORD|United States|45.0135|-84.7036||-4
+AID|KAID|Anderson Municipal Darlington Field|ANDERSON|United States|40.1086|-85.613||-4
+QND|LYNS|Cenej Airport|Novi Sad|Serbia|45.3858|19.8392||1
+GUU|BIGF|Grundarfjörður Airport|Grundarfjordur|Iceland|64.9914|-23.2247||0
+PCD|KPDC|Prairie Du Chien Municipal Airport|Prairie du Chien|United States|43.0193|-91.1237||-6
+OTJ|FYOW|Otjiwarongo Airport|Otjiwarongo|Namibia|-20.4347|16.6608||2
+TSM|KSKX|Taos Regional Airport|Taos|United States|36.4582|-105.672||-6
+RTN|KRTN|Raton Municipal-Crews Field|Raton|United States|36.7415|-104.502||-6
+PPA|KPPA|Perry Lefors Field|Pampa|United States|35.613|-100.996||-5
+FLP|KFLP|Marion County Regional Airport|Flippin|United States|36.2909|-92.5903||-5
+BGD|KBGD|Hutchinson County Airport|Borger|United States|35.7009|-101.394||-5
+HLE|FHSH|St. Helena Airport|Longwood|United Kingdom|-15.9577|-5.6459||0
+BNJ|EDKB|Bonn-Hangelar Airport|Sankt-Augustin|Germany|50.7689|7.1633||1
+NGK|UHSN|Nogliki Airport|Nogliki|Russia|51.7801|143.139||11
+SQA|KIZA|Santa Ynez Airport|Santa Ynez|United States|34.6068|-120.076||-8
+HXD|ZLDL|Delingha Airport|Haixi|China|37.1253|97.2687||8
+BAR|ZJQH|Qionghai Bo'ao Airport|Qionghai|China|19.1382|110.4548||8
+ZBO|YBWN|Bowen Airport|Bowen|Australia|-20.0183|148.215||10
+UCB|ZBUC|Ulanqab Jining Airport|Wulanchabu|China|41.1297|113.1081||8
+KEO|DIOD|Odienne Airport|Odienne|Cote d'Ivoire|9.5|-7.567||0
+GII|GUSI|Siguiri Airport|Siguiri|Guinea|11.433|-9.167||0
+NZE|GUNZ|Nzérékoré Airport|Nzerekore|Guinea|7.806|-8.7018||0
+OCM|YBGD|Boolgeeda|Brockman|Australia|-22.54|117.275||8
+WGN|ZGSY|Shaoyang Wugang Airport|Shaoyang|China|26.802|110.642||8
+TXF|SNTF|9 de Maio - Teixeira de Freitas Airport|Teixeira de Freitas|Brazil|-17.5245|-39.6685||-3
+SPA|KSPA|Spartanburg Downtown Memorial Airport|Spartangurg|United States|34.9157|-81.9565||-5
+BJW|WATB|Bajawa Soa Airport|Bajawa|Indonesia|-8.7074|121.0574||8
+NBN|FGAB|Annobón Airport|San Antonio de Pale|Equatorial Guinea|-1.4103|5.6219||1
+OLL|FCOD|Oyo Ollombo Airport|Oyo|Congo (Brazzaville)|-1.2267|15.91||1
+PPF|KPPF|Tri-City Airport|Parsons|United States|37.3299|-95.5062||-6
+PCQ|VLFL|Boun Neau Airport|Phongsaly|Laos|21.6475|101.9||7
+AYS|KAYS|Waycross Ware County Airport|Waycross|United States|31.2491|-82.3955||-5
+DSS|GOBD|Blaise Diagne International Airport|Diass|Senegal|14.67|-17.0733||0
+PMH|KPMH|Greater Portsmouth Regional Airport|Portsmouth|United States|38.8405|-82.8473||-5
+NAC|YNRC|Naracoorte Airport|Naracoorte|Australia|-36.9853|140.725||9.5
+PGZ|SSZW|Ponta Grossa Airport - Comandante Antonio Amilton Beraldo|Ponta Grossa|Brazil|-25.1847|-50.1441||-3
+PQM|MMPQ|Palenque International Airport|Palenque|Mexico|17.5332|-92.0155||-5
+CUD|YCDR|Caloundra Airport|Caloundra|Australia|-26.8|153.1||10
+CLP|PFCL|Clarks Point Airport|Clarks Point|United States|58.8337|-158.529||-9
+JOJ|CDL7|Doris Lake|Doris Lake|Canada|68.1253|-106.5853||-7
+ECI|MNCE|Costa Esmeralda Airport|Tola|Nicaragua|11.4275|-86.0334||-6
+QGQ|BGAT|Attu Heliport|Attu|Greenland|67.9407|-53.6219||-3
+QPW|BGKA|Kangaatsiaq Heliport|Kangaatsiaq|Greenland|68.3127|-53.4602||-3
+QJE|BGKT|Kitsissuarsuit Heliport|Kitsissuarsuit|Greenland|68.8579|-53.1233||-3
+XIQ|BGIL|Ilimanaq Heliport|Ilimanaq|Greenland|69.0809|-51.1143||-3
+QQT|BGQE|Qeqertaq Heliport|Qeqertaq|Greenland|69.9959|-51.3009||-3
+QJI|BGIT|Ikamiut Heliport|Ikamiut|Greenland|68.6343|-51.8323||-3
+QFG|BGET|Eqalugaarsuit Heliport|Eqalugaarsuit|Greenland|60.6197|-45.9141||-3
+QRY|BGIK|Ikerassaarsuk Heliport|Ikerasaarsuk|Greenland|68.1409|-53.4415||-3
+NPR|SJNP|Novo Progresso Airport|Novo Progresso|Brazil|-7.1258|-55.4008||-3
+SMT|SBSO|Adolino Bedin Regional Airport|Sorriso|Brazil|-12.4792|-55.6723||-4
+ENO|SGEN|Encarnación Airport|Encarnacion|Paraguay|-27.2274|-55.8375||-4
+UZR|UASU|Urzhar Airport|Urzhar|Kazakhstan|47.0911|81.6652||6
+NYR|UENN|Nyurba Airport|Nyurba|Russia|63.295|118.337||9
+SUK|UEBS|Sakkyryr Airport|Batagay-Alyta|Russia|67.792|130.394||9
+UKG|UEBT|Ust-Kuyga Airport|Ust-Kuyga|Russia|70.011|135.645||10
+VHV|UENI|Verkhnevilyuisk Airport|Verkhnevilyuysk|Russia|63.4581|120.2692||9
+DEE|UHSM|Mendeleyevo Airport|Yuzhno-Kurilsk|Russia|43.9584|145.683||11
+EKS|UHSK|Shakhtyorsk Airport|Shakhtyorsk|Russia|49.1903|142.083||11
+TLK|UECT|Talakan Airport|Talakan|Russia|59.8764|111.0444||9
+RDB|PADG|Red Dog Airport|Red Dog|United States|68.0321|-162.899||-9
+ION|FCOI|Impfondo Airport|Impfondo|Congo (Brazzaville)|1.617|18.067||1
+EBH|DAOY|El Bayadh Airport|El Bayadh|Algeria|33.7217|1.0925||1
+ZIS|HLZN|Alzintan Airport|Zintan|Libya|31.7749|12.2501||2
+MYZ|FWMY|Monkey Bay Airport|Monkey Bay|Malawi|-14.0836|34.9197||2
+BCU|DNBC|Sir Abubakar Tafawa Balewa International Airport|Bauchi|Nigeria|10.4828|9.744||1
+GMO|DNGO|Gombe Lawanti International Airport|Gombe|Nigeria|10.2983|10.8964||1
+KDA|GODK|Kolda North Airport|Kolda|Senegal|12.8985|-14.9681||0
+SHO|FDSK|King Mswati III International Airport|Manzini|Swaziland|-26.3586|31.7169||2
+KIY|HTKI|Kilwa Masoko Airport|Kilwa Masoko|Tanzania|-8.9112|39.5086||3
+QSI|HTMS|Moshi Airport|Moshi|Tanzania|-3.3633|37.3269||3
+MNS|FLMA|Mansa Airport|Mansa|Zambia|-11.137|28.8726||2
+GZI|OAGN|Ghazni Airport|Ghazni|Afghanistan|33.5312|68.4129||4.5
+DBC|ZYBA|Baicheng Chang'an Airport|Baicheng|China|45.5053|123.0197||8
+LNL|ZLLN|Longnan Chengzhou Airport|Longnan|China|33.788|105.797||8
+SQD|ZSSR|Shangrao Sanqingshan Airport|Shangrao|China|28.3797|117.9643||8
+YSQ|ZYSQ|Songyuan Chaganhu Airport|Songyuan|China|44.9381|124.5502||8
+JSJ|ZYJS|Jiansanjiang Airport|Jiansanjiang|China|47.11|132.6603||8
+WMT|ZUMT|Zunyi Maotai Airport|Zunyi|China|27.8164|106.3327||8
+LLB|ZULB|Libo Airport|Libo|China|25.4525|107.9617||8
+CDE|ZBCD|Chengde Puning Airport|Chengde|China|41.1225|118.0739||8
+DTU|ZYDU|Wudalianchi Dedu Airport|Wudalianchi|China|48.445|126.133||8
+EJN|ZBEN|Ejin Banner-Taolai Airport|Ejin Banner|China|42.0155|101.0005||8
+RHT|ZBAR|Alxa Right Banner Badanjilin Airport|Alxa Right Banner|China|39.225|101.546||8
+HUO|ZBHZ|Holingol Huolinhe Airport|Holingol|China|45.4872|119.4072||8
+GMQ|ZLGL|Golog Maqin Airport|Golog|China|34.4181|100.3011||8
+QSZ|ZWSC|Yeerqiang Airport|Yarkant|China|38.2811|77.0752||8
+TEI|VETJ|Tezu Airport|Tezu|India|27.9412|96.1344||5.5
+CWJ|ZPCW|Cangyuan Washan Airport|Cangyuan|China|23.2739|99.3736||8
+JMJ|ZPJM|Lancang Jingmai Airport|Lancang Lahu|China|22.4158|99.7864||8
+NLH|ZPNL|Ninglang Luguhu Airport|Ninglang|China|27.5403|100.7593||8
+PBQ|SWPM|Pimenta Bueno Airport|Pimenta Bueno|Brazil|-11.6416|-61.1791||-4
+WUT|ZBXZ|Xinzhou Wutaishan Airport|Xinzhou|China|38.5975|112.9692||8
+NZL|ZBZL|Chengjisihan Airport|Zhalantun|China|47.8658|122.7675||8
+AIP|VIAX|Adampur Airport|Adampur|India|31.4338|75.7588||5.5
+VDY|VOJV|Vijayanagar Aerodrome (JSW)|Toranagallu|India|15.175|76.6349||5.5
+SAG|VASD|Shirdi Airport|Shirdi|India|19.6886|74.3789||5.5
+PYB|VEJP|Jeypore Airport|Jeypore|India|18.88|82.552||5.5
+SUP|WART|Trunojoyo Airport|Sumenep|Indonesia|-7.0242|113.8902||7
+RKO|WIBR|Rokot Airport|Sipora|Indonesia|-2.0991|99.7007||7
+PPR|WIDE|Pasir Pangaraan Airport|Pasir Pangaraian|Indonesia|0.8454|100.37||7
+TJB|WIBT|Sei Bati Airport|Tanjung Balai Karimun|Indonesia|1.0527|103.3931||7
+KRC|WIPH|Departi Parbo Airport|Kerinci Regency|Indonesia|-2.093|101.4683||7
+NRE|WAPG|Namrole Airport|Buru Island|Indonesia|-3.8548|126.7012||9
+NAM|WAPR|Namlea Airport|Namlea|Indonesia|-3.2356|127.1||9
+DOB|WAPD|Rar Gwamar Airport|Dobo|Indonesia|-5.7722|134.212||9
+SQN|WAPN|Emalamo Sanana Airport|Sanana|Indonesia|-2.0805|125.967||9
+AYW|WASA|Ayawasi Airport|Ayawasi|Indonesia|-1.1593|132.4633||9
+BYQ|WALV|Bunyu Airport|Bunyu|Indonesia|3.4557|117.867||8
+UOL|WAMY|Buol Airport|Buol|Indonesia|1.1027|121.4141||8
+RAQ|WAWR|Sugimanuru Airport|Raha|Indonesia|-4.7606|122.5694||8
+JSK|OIZJ|Jask Airport|Jask|Iran|25.6536|57.7993||3.5
+ZBY|VLSB|Sayaboury Airport|Sainyabuli|Laos|19.2436|101.7093||7
+BGL|VNBL|Baglung Airport|Baglung|Nepal|28.2128|83.6663||5.75
+RJB|VNRB|Rajbiraj Airport|Rajbiraj|Nepal|26.5101|86.7339||5.45
+DQM|OODQ|Duqm International Airport|Duqm|Oman|19.5019|57.6342||4
+CKI|YCKI|Croker Island Airport|Croker Island|Australia|-11.165|132.483||9.5
+BYP|YBRY|Barimunya Airport|Barimunya|Australia|-22.6739|119.166||8
+LUC|NFNH|Laucala Island Airport|Laucala|Fiji|-16.7481|-179.667||12
+YAS|NFSW|Yasawa Island Airport|Yasawa Island|Fiji|-16.7589|177.545||12
+WIK|NZKE|Waiheke Reeve Airport|Waiheke Island|New Zealand|-36.8089|175.086||12
+DEX|WAVD|Nop Goliat Airport|Dekai|Indonesia|-4.8557|139.482||9
+NAU|NTGN|Napuka Island Airport|Napuka|French Polynesia|-14.1768|-141.267||-10
+FAC|NTKF|Faaite Airport|Faaite|French Polynesia|-16.6867|-145.329||-10
+NUK|NTGW|Nukutavake Airport|Nukutavake|French Polynesia|-19.285|-138.772||-10
+VHZ|NTUV|Vahitahi Airport|Vahitahi|French Polynesia|-18.78|-138.853||-10
+HHZ|NTGH|Hikueru Atoll Airport|Hikueru|French Polynesia|-17.5447|-142.614||-10
+RRR|NTKO|Raroia Airport|Raroia|French Polynesia|-16.045|-142.4769||-10
+KHZ|NTKA|Kauehi Airport|Kauehi|French Polynesia|-15.7808|-145.124||-10
+TKV|NTGO|Tatakoto Airport|Tatakoto|French Polynesia|-17.3553|-138.445||-10
+TDS|AYSS|Sasereme Airport|Sasereme|Papua New Guinea|-7.6217|142.868||10
+TMH|WAKT|Tanah Merah Airport|Boven Digoel|Indonesia|-6.0992|140.298||9
+NKB|YNKA|Noonkanbah Airport|Noonkanbah|Australia|-18.4947|124.852||8
+AEI|LEAG|Algeciras Heliport|Algeciras|Spain|36.1289|-5.4411||-2
+KSE|HUKS|Kasese Airport|Kasese|Uganda|0.183|30.1||3
+NCJ|SAFS|Sunchales Aeroclub Airport|Sunchales|Argentina|-30.9575|-61.5283||-3
+IST|LTFM|Istanbul Airport|Istanbul|Turkey|41.2753|28.7519||3
+SOV|PASO|Seldovia Airport|Seldovia|United States|59.4424|-151.704||-9
+YSG|CYLK|Lutselk'e Airport|Lutselk'e|Canada|62.4183|-110.682||
+DWA|FWDW|Dwangwa Airport|Dwangwa|Malawi|-12.5183|34.1319||
+HGI|HSFA|Paloich Airport, Heliport|Higleig|South Sudan|10.5292|32.5006||
+KQH|VIKG|Kishangarh Airport|Ajmer|India|26.6015|74.8141||
+CNN|VOKN|Kannur International Airport|Kannur|India|11.9186|75.5472||
+ZCO|SCQP|La Araucanía Airport|Temuco|Chile|-38.9259|-72.6515||-3
+ASS|FACC|Arathusa Safari Lodge Airport|Arathusa|South Africa|-24.7442|31.5225||2
+VDI|KVDI|Vidalia Regional Airport|Vidalia|United States|32.1927|-82.3712||-4
+ISB|OPIS|New Islamabad International Airport|Islamabad|Pakistan|33.5607|72.8516||5
+MHE|KMHE|Mitchell Municipal Airport|Mitchell|United States|43.7748|-98.0386||-6
+GIT|HTRU|Mchauru Airport|Geita|Tanzania|-2.8137|32.1725||3
+GID|HBBE|Gitega Airport|Gitega|Burundi|-3.4172|29.9113||2
+RMU|LEMI|Región de Murcia International Airport|Murcia|Spain|37.803|-1.125||1
+CQS|SWCQ|Costa Marques Airport|COSTA MARQUES|Brazil|-12.4211|-64.2516||-4
+ZXT|UBTT|Zabrat Airport|Baku|Azerbaijan|40.4955|49.9768||
+JAM|LBIA|Bezmer Air Base|Yambol|Bulgaria|42.4549|26.3522||
+YUA|ZPYM|Yuanmou Air Base|Yuanmou|China|25.7375|101.882||
+XEN|ZYXC|Xingcheng Air Base||China|40.5803|120.698||
+GEC|LCGK|Lefkoniko Airport|Geçitkale|Cyprus|35.2359|33.7244||
+MBI|HTGW|Songwe Airport|Mbeya|Tanzania|-8.9199|33.274||
+UGU|WABV|Bilogai-Sugapa Airport|Sugapa-Papua Island|Indonesia|-3.7396|137.032||
+ETM|LLER|Ramon Airport|Eilat|Israel|29.7237|35.0114||
+MNH|OORQ|Rustaq Airport|Al Masna'ah|Oman|23.6406|57.4875||
+CGY|RPMY|Laguindingan Airport|Cagayan de Oro City|Philippines|8.6122|124.4565||
+CPO|SCAT|Desierto de Atacama Airport|Copiapo|Chile|-27.2612|-70.7792||
+`;
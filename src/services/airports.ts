@@ -0,0 +1,79 @@
+import { fromTimeZoneWallClock, getTimeZoneOffsetMinutes } from '../utils/time';
+import type { LatLng } from '../types/travel';
+
+export interface Airport {
+  iata: string;
+  icao?: string;
+  name: string;
+  city?: string;
+  country?: string;
+  location: LatLng;
+  timeZone?: string; // IANA name, e.g. "Europe/Paris"
+  standardUtcOffsetMinutes?: number; // Used when the time zone is unknown
+}
+
+/**
+ * Looks up airports by IATA or ICAO code in the bundled OpenFlights dataset.
+ * The dataset is only loaded the first time it is needed.
+ */
+export class AirportService {
+  private static airportsByCode = new Map<string, Airport>();
+  private static isInitialized = false;
+
+  static async initialize(): Promise<void> {
+    if (this.isInitialized) return;
+
+    const { AIRPORT_DATA } = await import('./airportData');
+
+    AIRPORT_DATA.split('\n').forEach(line => {
+      const [iata, icao, name, city, country, latitude, longitude, timeZone, offsetHours] = line.split('|');
+      if (!iata || !latitude || !longitude) return;
+
+      const airport: Airport = {
+        iata,
+        icao: icao || undefined,
+        name,
+        city: city || undefined,
+        country: country || undefined,
+        location: { latitude: parseFloat(latitude), longitude: parseFloat(longitude) },
+        timeZone: timeZone || undefined,
+        standardUtcOffsetMinutes: offsetHours ? Math.round(parseFloat(offsetHours) * 60) : undefined
+      };
+
+      this.airportsByCode.set(iata, airport);
+      if (airport.icao) this.airportsByCode.set(airport.icao, airport);
+    });
+
+    this.isInitialized = true;
+  }
+
+  /**
+   * Find an airport by its 3-letter IATA or 4-letter ICAO code
+   */
+  static async findAirport(code: string): Promise<Airport | undefined> {
+    await this.initialize();
+    return this.airportsByCode.get(code.trim().toUpperCase());
+  }
+
+  /**
+   * The airport's UTC offset at an instant, in minutes
+   */
+  static getUtcOffsetMinutes(airport: Airport, date: Date): number | undefined {
+    const offset = airport.timeZone ? getTimeZoneOffsetMinutes(date, airport.timeZone) : undefined;
+    return offset ?? airport.standardUtcOffsetMinutes;
+  }
+
+  /**
+   * The instant a local time at the airport happened. wallClock holds the local
+   * time in its UTC fields.
+   */
+  static toUtc(airport: Airport, wallClock: number): { time: Date; utcOffsetMinutes?: number } {
+    const zoned = airport.timeZone ? fromTimeZoneWallClock(wallClock, airport.timeZone) : undefined;
+    if (zoned) return zoned;
+
+    const offset = airport.standardUtcOffsetMinutes;
+    return offset === undefined
+      ? { time: new Date(wallClock) }
+      : { time: new Date(wallClock - offset * 60000), utcOffsetMinutes: offset };
+  }
+}
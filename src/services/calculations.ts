@@ -1,2 +1,2 @@
 // Re-export from the modular calculations structure
-export { TravelCalculations, TripEnhancement, TravelStatistics, AdvancedAnalytics } from './calculations/index';
\ No newline at end of file
+export { TravelCalculations, TripEnhancement, TravelStatistics, AdvancedAnalytics, TrackCleaner, ImportDiagnostics, HomeWorkInference, TripSegmentation } from './calculations/index';
\ No newline at end of file
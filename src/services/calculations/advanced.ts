@@ -1,5 +1,7 @@
 import { format, getMonth, differenceInDays, startOfDay } from 'date-fns';
 import { getTimezoneFromLongitude } from '../../utils/geometry';
+import { getLocalEndTime, getLocalStartTime } from '../../utils/time';
+import { ImportDiagnostics } from './diagnostics';
 import type { EnhancedTravelStats as EnhancedTravelStatsType, EnhancedTrip } from '../../types/travel';
 
 export class AdvancedAnalytics {
@@ -34,7 +36,7 @@ export class AdvancedAnalytics {
     const monthStats = new Map<number, { tripsCount: number; totalDistance: number }>();
 
     trips.forEach(trip => {
-      const month = getMonth(trip.startTime); // 0-11
+      const month = getMonth(getLocalStartTime(trip)); // 0-11, in the traveller's timezone
       const existing = monthStats.get(month);
       const distance = trip.distanceKm || 0;
 
@@ -74,7 +76,7 @@ export class AdvancedAnalytics {
     };
 
     trips.forEach(trip => {
-      const month = getMonth(trip.startTime); // 0-11
+      const month = getMonth(getLocalStartTime(trip)); // 0-11, in the traveller's timezone
       const distance = trip.distanceKm || 0;
 
       Object.values(seasons).forEach(season => {
@@ -99,7 +101,7 @@ export class AdvancedAnalytics {
   /**
    * Calculate longest travel streak
    */
-  private static calculateLongestTravelStreak(trips: EnhancedTrip[]): { startDate: string; endDate: string; daysCount: number; tripsCount: number; countriesVisited: number; totalDistance: number } | undefined {
+  private static calculateLongestTravelStreak(trips: EnhancedTrip[]): EnhancedTravelStatsType['longestTravelStreak'] {
     if (trips.length === 0) return undefined;
 
     const sortedTrips = trips.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
@@ -115,7 +117,7 @@ export class AdvancedAnalytics {
       const prevTrip = sortedTrips[i - 1];
       const currentTrip = sortedTrips[i];
       
-      const daysBetween = differenceInDays(startOfDay(currentTrip.startTime), startOfDay(prevTrip.endTime));
+      const daysBetween = differenceInDays(startOfDay(getLocalStartTime(currentTrip)), startOfDay(getLocalEndTime(prevTrip)));
       
       if (daysBetween <= maxGapDays) {
         // Continue streak
@@ -144,8 +146,8 @@ export class AdvancedAnalytics {
 
     const streakTrips = sortedTrips.slice(longestStreakStart, longestStreakEnd + 1);
     const totalDays = differenceInDays(
-      streakTrips[streakTrips.length - 1].endTime,
-      streakTrips[0].startTime
+      getLocalEndTime(streakTrips[streakTrips.length - 1]),
+      getLocalStartTime(streakTrips[0])
     ) + 1;
 
     const countriesVisited = new Set(
@@ -154,13 +156,21 @@ export class AdvancedAnalytics {
 
     const totalDistance = streakTrips.reduce((sum, trip) => sum + (trip.distanceKm || 0), 0);
 
+    // Trips up to a week apart count as one streak, so it can span days when location history was off
+    const dataGaps = ImportDiagnostics.findTimeGaps(streakTrips);
+    const dataGapDays = dataGaps.length > 0
+      ? Math.max(1, Math.round(dataGaps.reduce((sum, gap) => sum + gap.hours, 0) / 24))
+      : 0;
+
     return {
-      startDate: format(streakTrips[0].startTime, 'yyyy-MM-dd'),
-      endDate: format(streakTrips[streakTrips.length - 1].endTime, 'yyyy-MM-dd'),
+      startDate: format(getLocalStartTime(streakTrips[0]), 'yyyy-MM-dd'),
+      endDate: format(getLocalEndTime(streakTrips[streakTrips.length - 1]), 'yyyy-MM-dd'),
       daysCount: totalDays,
       tripsCount: streakTrips.length,
       countriesVisited,
-      totalDistance: Math.round(totalDistance * 100) / 100
+      totalDistance: Math.round(totalDistance * 100) / 100,
+      crossesDataGap: dataGaps.length > 0,
+      dataGapDays
     };
   }
 
@@ -187,7 +197,7 @@ export class AdvancedAnalytics {
           fromTimezone: lastTimezone,
           toTimezone: currentTimezone,
           location: trip.city || trip.placeName || 'Unknown location',
-          date: format(trip.startTime, 'yyyy-MM-dd')
+          date: format(getLocalStartTime(trip), 'yyyy-MM-dd')
         });
         lastTimezone = currentTimezone;
       }
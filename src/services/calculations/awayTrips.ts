@@ -0,0 +1,160 @@
+import { differenceInCalendarDays, format } from 'date-fns';
+import { calculateDistance } from '../../utils/geometry';
+import { getLocalStartTime, toLocalTime } from '../../utils/time';
+import type {
+  AwayTrip,
+  AwayTripSettings,
+  EnhancedTrip,
+  HomeWorkLocations,
+  LatLng,
+  ProcessedTrip,
+  TravelStats
+} from '../../types/travel';
+
+// Name and country of a segment, from the enhanced trip it belongs to once enriched
+interface SegmentPlace {
+  name?: string;
+  country?: string;
+}
+
+/**
+ * Splits the timeline into trips away from home: each starts with the first
+ * journey or stay beyond the radius around home and ends back within it.
+ * Trips shorter than the minimum duration are left out.
+ */
+export class TripSegmentation {
+  static readonly DEFAULT_SETTINGS: AwayTripSettings = { radiusKm: 50, minDurationHours: 8 };
+
+  /**
+   * Trips away from home, oldest first. Enhanced trips are split back into
+   * their segments, since stays at the same place are merged across the timeline.
+   */
+  static segmentTrips(trips: Array<ProcessedTrip | EnhancedTrip>, homeWork?: HomeWorkLocations): AwayTrip[] {
+    const home = homeWork?.home;
+    if (!home) return [];
+
+    const settings = homeWork.awayTripSettings || this.DEFAULT_SETTINGS;
+    const places = new Map<ProcessedTrip, SegmentPlace>();
+    trips.forEach(trip => {
+      if ('segments' in trip) {
+        trip.segments.forEach(segment => places.set(segment, {
+          name: trip.city || segment.city || segment.placeName || trip.placeName,
+          country: trip.country || segment.country
+        }));
+      } else if (trip.activityType !== 'MANUAL_ENTRY') {
+        // Manual trips are left out: those without coordinates are placed at 0, 0
+        places.set(trip, { name: trip.city || trip.placeName, country: trip.country });
+      }
+    });
+
+    const segments = Array.from(places.keys()).sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    const isAway = (location: LatLng) => calculateDistance(location, home.location) > settings.radiusKm;
+    const awayTrips: AwayTrip[] = [];
+    let current: ProcessedTrip[] = [];
+
+    const finish = (end: Date, endUtcOffsetMinutes: number | undefined, returnedHome: boolean) => {
+      const hours = (end.getTime() - current[0].startTime.getTime()) / 3600000;
+      if (hours >= settings.minDurationHours) {
+        awayTrips.push(this.createTrip(current, end, endUtcOffsetMinutes, returnedHome, places, home.location));
+      }
+      current = [];
+    };
+
+    segments.forEach(segment => {
+      const isStay = segment.activityType === 'STAY';
+      // Where the segment leaves the user: the place of a stay, the end of a journey
+      if (isAway(isStay ? segment.startLocation : segment.endLocation)) {
+        current.push(segment);
+      } else if (current.length > 0) {
+        // The journey back belongs to the trip; a stay at home ends it on arrival
+        if (isStay) {
+          finish(segment.startTime, segment.startUtcOffsetMinutes, true);
+        } else {
+          current.push(segment);
+          finish(segment.endTime, segment.endUtcOffsetMinutes, true);
+        }
+      }
+    });
+
+    // Still away when the data ends
+    if (current.length > 0) {
+      const last = current[current.length - 1];
+      finish(last.endTime, last.endUtcOffsetMinutes, false);
+    }
+
+    return awayTrips;
+  }
+
+  /**
+   * Trip statistics for TravelStats, when home is known
+   */
+  static calculateStats(
+    trips: Array<ProcessedTrip | EnhancedTrip>,
+    homeWork?: HomeWorkLocations
+  ): Pick<TravelStats, 'awayTrips' | 'nightsAway' | 'longestAwayTrip'> {
+    if (!homeWork?.home) return {};
+
+    const awayTrips = this.segmentTrips(trips, homeWork);
+    const longest = awayTrips.reduce<AwayTrip | undefined>((max, trip) =>
+      !max || trip.nightsAway > max.nightsAway ? trip : max
+    , undefined);
+
+    return {
+      awayTrips: awayTrips.length,
+      nightsAway: awayTrips.reduce((sum, trip) => sum + trip.nightsAway, 0),
+      longestAwayTrip: longest && {
+        destination: longest.destination,
+        nights: longest.nightsAway,
+        date: format(getLocalStartTime(longest), 'yyyy-MM-dd')
+      }
+    };
+  }
+
+  private static createTrip(
+    segments: ProcessedTrip[],
+    endTime: Date,
+    endUtcOffsetMinutes: number | undefined,
+    returnedHome: boolean,
+    places: Map<ProcessedTrip, SegmentPlace>,
+    home: LatLng
+  ): AwayTrip {
+    const first = segments[0];
+    const legs = segments.filter(segment => segment.activityType !== 'STAY');
+    const stays = segments.filter(segment => segment.activityType === 'STAY');
+
+    // Time spent at each named place
+    const timeByPlace = new Map<string, number>();
+    stays.forEach(stay => {
+      const name = places.get(stay)?.name;
+      if (name) timeByPlace.set(name, (timeByPlace.get(name) || 0) + stay.endTime.getTime() - stay.startTime.getTime());
+    });
+
+    // Trips without named stays are named after the farthest point reached
+    const farthest = segments.reduce((max, segment) =>
+      calculateDistance(segment.endLocation, home) > calculateDistance(max.endLocation, home) ? segment : max
+    );
+    const destination = Array.from(timeByPlace.entries()).sort(([, a], [, b]) => b - a)[0]?.[0] ||
+      places.get(farthest)?.name ||
+      `${farthest.endLocation.latitude.toFixed(3)}, ${farthest.endLocation.longitude.toFixed(3)}`;
+
+    // The first leg starts at home, so its country only counts when nothing else is known
+    const countrySegments = stays.length > 0 ? stays : legs.slice(1);
+    const countries = countrySegments.map(segment => places.get(segment)?.country).filter((country): country is string => !!country);
+
+    return {
+      id: `away-${first.id}`,
+      startTime: first.startTime,
+      endTime,
+      startUtcOffsetMinutes: first.startUtcOffsetMinutes,
+      endUtcOffsetMinutes,
+      legs,
+      stays,
+      destination,
+      places: Array.from(timeByPlace.keys()),
+      countries: Array.from(new Set(countries)),
+      nightsAway: Math.max(0, differenceInCalendarDays(toLocalTime(endTime, endUtcOffsetMinutes), getLocalStartTime(first))),
+      distanceKm: Math.round(legs.reduce((sum, leg) => sum + (leg.distanceMeters || 0), 0) / 1000 * 100) / 100,
+      returnedHome
+    };
+  }
+}
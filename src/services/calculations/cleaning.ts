@@ -0,0 +1,146 @@
+import { calculateDistance, calculateTotalDistance } from '../../utils/geometry';
+import type { CleaningReport, PathPoint, ProcessedTrip } from '../../types/travel';
+
+/**
+ * Removes GPS noise from imported trips before they are grouped: coarse fixes,
+ * jumps faster than any aircraft, and single-point spikes that go out and come
+ * straight back.
+ */
+export class TrackCleaner {
+  private static readonly MAX_ACCURACY_METERS = 1000; // Coarser fixes come from cell towers
+  private static readonly MAX_SPEED_KMH = 1200; // Faster than any airliner
+  private static readonly SPIKE_MAX_ANGLE_DEGREES = 20;
+  private static readonly SPIKE_MIN_LEG_KM = 1;
+  private static readonly MIN_MOVEMENT_METERS = 100;
+
+  /**
+   * Clean the routes of movements and drop movements that were only noise or
+   * implausibly fast. Distances are re-measured along the cleaned routes.
+   */
+  static cleanTrips(trips: ProcessedTrip[]): { trips: ProcessedTrip[]; report: CleaningReport } {
+    const report: CleaningReport = {
+      pointsChecked: 0,
+      pointsRemoved: 0,
+      removedByAccuracy: 0,
+      removedBySpeed: 0,
+      removedByAngle: 0,
+      tripsRemoved: 0,
+      distanceRemovedKm: 0
+    };
+    const cleaned: ProcessedTrip[] = [];
+    let distanceRemovedMeters = 0;
+
+    trips.forEach(trip => {
+      if (trip.activityType === 'STAY') {
+        cleaned.push(trip);
+        return;
+      }
+
+      const cleanedTrip = trip.path ? this.cleanTripPath(trip, report) : trip;
+
+      if (!cleanedTrip || this.isImplausiblyFast(cleanedTrip)) {
+        report.tripsRemoved++;
+        distanceRemovedMeters += trip.distanceMeters || 0;
+        return;
+      }
+
+      distanceRemovedMeters += (trip.distanceMeters || 0) - (cleanedTrip.distanceMeters || 0);
+      cleaned.push(cleanedTrip);
+    });
+
+    report.pointsRemoved = report.removedByAccuracy + report.removedBySpeed + report.removedByAngle;
+    report.distanceRemovedKm = Math.round(distanceRemovedMeters / 1000 * 100) / 100;
+
+    return { trips: cleaned, report };
+  }
+
+  /**
+   * Remove noisy points from a route, counting them in the report
+   */
+  static cleanPath(points: PathPoint[], report: CleaningReport): PathPoint[] {
+    report.pointsChecked += points.length;
+
+    // A coarse fix says little about where the device was
+    const accurate = points.filter(point => point.accuracy === undefined || point.accuracy <= this.MAX_ACCURACY_METERS);
+    report.removedByAccuracy += points.length - accurate.length;
+
+    const kept: PathPoint[] = [];
+
+    for (let i = 0; i < accurate.length; i++) {
+      const point = accurate[i];
+      const previous = kept[kept.length - 1];
+      const next = accurate[i + 1];
+
+      // A jump is noise when the point is unreachable from its neighbours, not just from one of them
+      const isTeleport = previous
+        ? this.isTooFast(previous, point) && (!next || this.isTooFast(point, next))
+        : !!next && !!accurate[i + 2] && this.isTooFast(point, next) && !this.isTooFast(next, accurate[i + 2]);
+
+      if (isTeleport) {
+        report.removedBySpeed++;
+      } else if (previous && next && this.isSpike(previous, point, next)) {
+        report.removedByAngle++;
+      } else {
+        kept.push(point);
+      }
+    }
+
+    return kept;
+  }
+
+  private static cleanTripPath(trip: ProcessedTrip, report: CleaningReport): ProcessedTrip | null {
+    const original = trip.path!;
+    const path = this.cleanPath(original, report);
+    if (path.length === original.length) return trip;
+    if (path.length < 2) return null;
+
+    const pathDistanceMeters = calculateTotalDistance(path) * 1000;
+    if (pathDistanceMeters <= this.MIN_MOVEMENT_METERS) return null;
+
+    const first = path[0];
+    const last = path[path.length - 1];
+
+    return {
+      ...trip,
+      path,
+      // Endpoints only move when the original ones were noise
+      startLocation: first === original[0] ? trip.startLocation : { latitude: first.latitude, longitude: first.longitude },
+      endLocation: last === original[original.length - 1] ? trip.endLocation : { latitude: last.latitude, longitude: last.longitude },
+      // Reported distances (e.g. Google's own) are kept when already shorter than the cleaned route
+      distanceMeters: Math.min(trip.distanceMeters ?? Infinity, pathDistanceMeters)
+    };
+  }
+
+  private static isImplausiblyFast(trip: ProcessedTrip): boolean {
+    const hours = (trip.endTime.getTime() - trip.startTime.getTime()) / 3600000;
+    // Point-in-time trips have no speed to check
+    if (hours <= 0) return false;
+
+    return (trip.distanceMeters || 0) / 1000 / hours > this.MAX_SPEED_KMH;
+  }
+
+  private static isTooFast(from: PathPoint, to: PathPoint): boolean {
+    if (!from.time || !to.time) return false;
+
+    const distanceKm = calculateDistance(from, to);
+    const hours = (to.time.getTime() - from.time.getTime()) / 3600000;
+    if (hours <= 0) return distanceKm > this.SPIKE_MIN_LEG_KM;
+
+    return distanceKm / hours > this.MAX_SPEED_KMH;
+  }
+
+  // A point far from both neighbours, which are close to each other: out and straight back
+  private static isSpike(previous: PathPoint, point: PathPoint, next: PathPoint): boolean {
+    const legIn = calculateDistance(previous, point);
+    const legOut = calculateDistance(point, next);
+    const base = calculateDistance(previous, next);
+
+    if (legIn < this.SPIKE_MIN_LEG_KM || legOut < this.SPIKE_MIN_LEG_KM || base >= Math.min(legIn, legOut)) {
+      return false;
+    }
+
+    const cosine = (legIn * legIn + legOut * legOut - base * base) / (2 * legIn * legOut);
+    const angle = Math.acos(Math.max(-1, Math.min(1, cosine))) * 180 / Math.PI;
+    return angle < this.SPIKE_MAX_ANGLE_DEGREES;
+  }
+}
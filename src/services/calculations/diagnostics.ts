@@ -0,0 +1,178 @@
+import { addDays, format, startOfDay } from 'date-fns';
+import { getLocalEndTime, getLocalStartTime } from '../../utils/time';
+import type {
+  CleaningReport,
+  Coverage,
+  CoveragePeriod,
+  ImportReport,
+  ProcessedTrip,
+  SegmentCounts,
+  TimeGap
+} from '../../types/travel';
+
+interface TimeSpan {
+  startTime: Date;
+  endTime: Date;
+  startUtcOffsetMinutes?: number;
+  endUtcOffsetMinutes?: number;
+}
+
+/**
+ * Builds the import report shown with the results: what the segments of an
+ * export became, how much of the time they cover, where the data has holes
+ * and which trips are uncertain.
+ */
+export class ImportDiagnostics {
+  private static readonly MIN_GAP_HOURS = 24;
+  private static readonly LOW_CONFIDENCE = 0.5;
+  private static readonly MAX_LISTED = 10;
+
+  static createSegmentCounts(): SegmentCounts {
+    return {
+      visit: 0,
+      activity: 0,
+      path: 0,
+      skipped: 0,
+      skipReasons: { noLocation: 0, tooShort: 0, badTimestamp: 0, invalid: 0 }
+    };
+  }
+
+  /**
+   * Add up the segment counts of several imports. Undefined when none of them had segments.
+   */
+  static combineSegmentCounts(counts: Array<SegmentCounts | undefined>): SegmentCounts | undefined {
+    const present = counts.filter((count): count is SegmentCounts => !!count);
+    if (present.length === 0) return undefined;
+
+    return present.reduce((total, count) => {
+      total.visit += count.visit;
+      total.activity += count.activity;
+      total.path += count.path;
+      total.skipped += count.skipped;
+      (Object.keys(total.skipReasons) as Array<keyof SegmentCounts['skipReasons']>).forEach(reason => {
+        total.skipReasons[reason] += count.skipReasons[reason];
+      });
+      return total;
+    }, this.createSegmentCounts());
+  }
+
+  static buildReport(trips: ProcessedTrip[], cleaning: CleaningReport, segments?: SegmentCounts): ImportReport {
+    const lowConfidence = trips
+      .filter(trip => trip.confidence < this.LOW_CONFIDENCE)
+      .sort((a, b) => a.confidence - b.confidence);
+
+    return {
+      segments,
+      coverage: this.calculateCoverage(trips),
+      timeGaps: this.findTimeGaps(trips)
+        .sort((a, b) => b.hours - a.hours)
+        .slice(0, this.MAX_LISTED),
+      lowConfidenceCount: lowConfidence.length,
+      lowConfidenceTrips: lowConfidence.slice(0, this.MAX_LISTED).map(trip => ({
+        id: trip.id,
+        startTime: trip.startTime,
+        activityType: trip.activityType,
+        confidence: trip.confidence
+      })),
+      cleaning
+    };
+  }
+
+  /**
+   * Stretches of at least minHours without any trip, in chronological order
+   */
+  static findTimeGaps(trips: TimeSpan[], minHours: number = this.MIN_GAP_HOURS): TimeGap[] {
+    const sorted = [...trips].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    const gaps: TimeGap[] = [];
+    let coveredUntil: Date | null = null;
+
+    sorted.forEach(trip => {
+      if (coveredUntil) {
+        const hours = (trip.startTime.getTime() - coveredUntil.getTime()) / 3600000;
+        if (hours >= minHours) {
+          gaps.push({ start: coveredUntil, end: trip.startTime, hours: Math.round(hours) });
+        }
+      }
+      // Trips can overlap, so coverage runs to the latest end seen so far
+      if (!coveredUntil || trip.endTime > coveredUntil) {
+        coveredUntil = trip.endTime;
+      }
+    });
+
+    return gaps;
+  }
+
+  /**
+   * Share of each day and month, in local trip time, that trips account for.
+   * Days without any trip are included, so gaps show up as zero coverage.
+   */
+  static calculateCoverage(trips: TimeSpan[]): Coverage {
+    const intervals = this.mergeIntervals(trips
+      .map(trip => [getLocalStartTime(trip).getTime(), getLocalEndTime(trip).getTime()] as [number, number])
+      .filter(([start, end]) => end > start));
+
+    if (intervals.length === 0) {
+      return { overall: 0, days: [], months: [] };
+    }
+
+    const days: CoveragePeriod[] = [];
+    const monthTotals = new Map<string, { covered: number; total: number }>();
+    const lastEnd = intervals[intervals.length - 1][1];
+    let coveredTotal = 0;
+    let timeTotal = 0;
+    let next = 0;
+
+    for (let day = startOfDay(new Date(intervals[0][0])); day.getTime() < lastEnd; day = addDays(day, 1)) {
+      const dayStart = day.getTime();
+      const dayEnd = addDays(day, 1).getTime();
+      let covered = 0;
+
+      // Intervals are sorted and disjoint, so each day only looks at the ones reaching into it
+      while (next < intervals.length && intervals[next][1] <= dayStart) next++;
+      for (let i = next; i < intervals.length && intervals[i][0] < dayEnd; i++) {
+        covered += Math.min(intervals[i][1], dayEnd) - Math.max(intervals[i][0], dayStart);
+      }
+
+      days.push({ period: format(day, 'yyyy-MM-dd'), coverage: this.roundShare(covered / (dayEnd - dayStart)) });
+
+      const month = format(day, 'yyyy-MM');
+      const totals = monthTotals.get(month) || { covered: 0, total: 0 };
+      totals.covered += covered;
+      totals.total += dayEnd - dayStart;
+      monthTotals.set(month, totals);
+
+      coveredTotal += covered;
+      timeTotal += dayEnd - dayStart;
+    }
+
+    return {
+      overall: this.roundShare(coveredTotal / timeTotal),
+      days,
+      months: Array.from(monthTotals.entries()).map(([period, totals]) => ({
+        period,
+        coverage: this.roundShare(totals.covered / totals.total)
+      }))
+    };
+  }
+
+  // Sort intervals and join the ones that overlap
+  private static mergeIntervals(intervals: Array<[number, number]>): Array<[number, number]> {
+    const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+    const merged: Array<[number, number]> = [];
+
+    sorted.forEach(([start, end]) => {
+      const last = merged[merged.length - 1];
+      if (last && start <= last[1]) {
+        last[1] = Math.max(last[1], end);
+      } else {
+        merged.push([start, end]);
+      }
+    });
+
+    return merged;
+  }
+
+  private static roundShare(share: number): number {
+    return Math.round(share * 1000) / 1000;
+  }
+}
@@ -1,50 +1,91 @@
-import { differenceInMinutes } from 'date-fns';
+import { differenceInMinutes, format } from 'date-fns';
 import { GeocodingService } from '../geocoding';
 import { CountriesService } from '../countries';
 import { WeatherService } from '../weather';
 import { arePointsNearby } from '../../utils/geometry';
-import type { ProcessedTrip, EnhancedTrip } from '../../types/travel';
+import { isAbortError } from '../../utils/abort';
+import { getLocalStartTime } from '../../utils/time';
+import type { ProcessedTrip, EnhancedTrip, TripPhoto } from '../../types/travel';
 
 export class TripEnhancement {
   private static readonly MIN_STAY_DURATION_MINUTES = 10; // Reduced from 30 to capture shorter stops
   private static readonly PROXIMITY_THRESHOLD_KM = 0.1; // Reduced from 0.5 to avoid merging distinct locations
   private static readonly MAX_CONCURRENT_API_CALLS = 5;
 
+  /**
+   * Group segments into trips and enrich them in batches. When the signal aborts,
+   * enrichment stops and the trips enriched so far are returned.
+   */
   static async enhanceTripsWithAPIs(
     segments: ProcessedTrip[],
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: number) => void,
+    onBatch?: (trips: EnhancedTrip[]) => void,
+    signal?: AbortSignal
   ): Promise<EnhancedTrip[]> {
     if (segments.length === 0) return [];
 
+    const enhancedTrips = await this.enrichGroupedTrips(this.groupTripsFromSegments(segments), {
+      onProgress,
+      onBatch: (trips) => onBatch?.(trips),
+      signal
+    });
+
+    // Final deduplication and cleanup
+    return this.deduplicateNearbyPlaces(enhancedTrips);
+  }
+
+  /**
+   * Enrich already grouped trips in batches, starting at startIndex. onBatch is
+   * awaited, so callers can persist each batch before the next one starts.
+   * Returns the trips enriched by this call, without deduplication.
+   */
+  static async enrichGroupedTrips(
+    groupedTrips: EnhancedTrip[],
+    options: {
+      startIndex?: number;
+      onProgress?: (progress: number) => void;
+      onBatch?: (trips: EnhancedTrip[], startIndex: number) => void | Promise<void>;
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<EnhancedTrip[]> {
+    const { startIndex = 0, onProgress, onBatch, signal } = options;
+    if (startIndex >= groupedTrips.length) return [];
+
     await CountriesService.initialize();
-    const groupedTrips = this.groupTripsFromSegments(segments);
     
     // Enhance with API data in batches
     const enhancedTrips: EnhancedTrip[] = [];
     const batchSize = this.MAX_CONCURRENT_API_CALLS;
     
-    for (let i = 0; i < groupedTrips.length; i += batchSize) {
+    for (let i = startIndex; i < groupedTrips.length && !signal?.aborted; i += batchSize) {
       const batch = groupedTrips.slice(i, i + batchSize);
       
-      const enhancedBatch = await Promise.all(
-        batch.map(trip => this.enrichTripWithAPIs(trip))
-      );
+      let enhancedBatch: EnhancedTrip[];
+      try {
+        enhancedBatch = await Promise.all(
+          batch.map(trip => this.enrichTripWithAPIs(trip, signal))
+        );
+      } catch (error) {
+        // A batch cut short by a cancel is dropped; the ones before it are kept
+        if (isAbortError(error)) break;
+        throw error;
+      }
       
       enhancedTrips.push(...enhancedBatch);
+      await onBatch?.(enhancedBatch, i);
       
       // Report progress
       const progress = Math.floor((i + batch.length) / groupedTrips.length * 100);
       onProgress?.(progress);
     }
 
-    // Final deduplication and cleanup
-    return this.deduplicateNearbyPlaces(enhancedTrips);
+    return enhancedTrips;
   }
 
   /**
    * Group processed trip segments into enhanced trips
    */
-  private static groupTripsFromSegments(segments: ProcessedTrip[]): EnhancedTrip[] {
+  static groupTripsFromSegments(segments: ProcessedTrip[]): EnhancedTrip[] {
     if (segments.length === 0) return [];
 
     const groupedTrips: EnhancedTrip[] = [];
@@ -56,8 +97,11 @@ export class TripEnhancement {
     for (let i = 1; i < sortedSegments.length; i++) {
       const segment = sortedSegments[i];
       const segmentType = segment.activityType === 'STAY' ? 'STAY' : 'JOURNEY';
+      // Stays without a journey in between (e.g. spreadsheet rows) only group while at the same place
+      const samePlace = segmentType === 'JOURNEY' ||
+        arePointsNearby(segment.startLocation, currentGroup[0].startLocation, this.PROXIMITY_THRESHOLD_KM);
 
-      if (segmentType === currentType) {
+      if (segmentType === currentType && samePlace) {
         currentGroup.push(segment);
       } else {
         // Process current group
@@ -93,17 +137,25 @@ export class TripEnhancement {
     const lastSegment = segments[segments.length - 1];
     const totalDuration = differenceInMinutes(lastSegment.endTime, firstSegment.startTime);
 
-    // Only include meaningful stays
-    if (totalDuration < this.MIN_STAY_DURATION_MINUTES) return null;
+    // Only include meaningful stays. Point-in-time places (e.g. GPX waypoints) have no duration to check
+    const isPointInTime = segments.every(s => s.startTime.getTime() === s.endTime.getTime());
+    if (totalDuration < this.MIN_STAY_DURATION_MINUTES && !isPointInTime) return null;
 
     return {
       id: `stay-${firstSegment.id}`,
       type: 'STAY',
       startTime: firstSegment.startTime,
       endTime: lastSegment.endTime,
+      startUtcOffsetMinutes: firstSegment.startUtcOffsetMinutes,
+      endUtcOffsetMinutes: lastSegment.endUtcOffsetMinutes,
       location: firstSegment.startLocation || firstSegment.endLocation!,
+      // Venue names from the source (e.g. check-ins) are kept over reverse geocoding
+      placeName: firstSegment.placeName,
+      placeCategory: firstSegment.placeCategory,
       durationMinutes: totalDuration,
       confidence: segments.reduce((sum, s) => sum + s.confidence, 0) / segments.length,
+      photos: this.collectPhotos(segments),
+      labels: this.collectLabels(segments),
       segments
     };
   }
@@ -124,24 +176,38 @@ export class TripEnhancement {
       type: 'JOURNEY',
       startTime: firstSegment.startTime,
       endTime: lastSegment.endTime,
+      startUtcOffsetMinutes: firstSegment.startUtcOffsetMinutes,
+      endUtcOffsetMinutes: lastSegment.endUtcOffsetMinutes,
       location: firstSegment.startLocation || firstSegment.endLocation!,
       endLocation: lastSegment.endLocation || lastSegment.startLocation,
       distanceKm: totalDistance / 1000,
       durationMinutes: totalDuration,
       confidence: segments.reduce((sum, s) => sum + s.confidence, 0) / segments.length,
+      photos: this.collectPhotos(segments),
+      labels: this.collectLabels(segments),
       segments
     };
   }
 
+  private static collectPhotos(segments: ProcessedTrip[]): TripPhoto[] | undefined {
+    const photos = segments.flatMap(segment => segment.photos || []);
+    return photos.length > 0 ? photos : undefined;
+  }
+
+  private static collectLabels(segments: ProcessedTrip[]): string[] | undefined {
+    const labels = Array.from(new Set(segments.flatMap(segment => segment.labels || [])));
+    return labels.length > 0 ? labels : undefined;
+  }
+
   /**
    * Enrich trip with API data (geocoding, weather, country info)
    */
-  private static async enrichTripWithAPIs(trip: EnhancedTrip): Promise<EnhancedTrip> {
+  private static async enrichTripWithAPIs(trip: EnhancedTrip, signal?: AbortSignal): Promise<EnhancedTrip> {
     const enrichedTrip = { ...trip };
 
     try {
       // Geocoding for location details
-      const geocodingResult = await GeocodingService.reverseGeocode(trip.location);
+      const geocodingResult = await GeocodingService.reverseGeocode(trip.location, signal);
 
       if (geocodingResult) {
         enrichedTrip.city = geocodingResult.city;
@@ -160,10 +226,8 @@ export class TripEnhancement {
       }
 
       // Weather data for the trip date - get weather for both STAY and JOURNEY trips
-      const weatherData = await WeatherService.getWeatherForDate(
-        trip.location,
-        trip.startTime.toISOString().split('T')[0] // Convert to YYYY-MM-DD
-      );
+      const tripDate = format(getLocalStartTime(trip), 'yyyy-MM-dd');
+      const weatherData = await WeatherService.getWeatherForDate(trip.location, tripDate, signal);
 
       if (weatherData) {
         enrichedTrip.weather = {
@@ -180,7 +244,8 @@ export class TripEnhancement {
         
         const endWeatherData = await WeatherService.getWeatherForDate(
           trip.endLocation,
-          trip.startTime.toISOString().split('T')[0]
+          tripDate,
+          signal
         );
 
         // Use the more extreme temperature (hotter or colder)
@@ -201,6 +266,10 @@ export class TripEnhancement {
         }
       }
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+
       console.warn('Failed to enrich trip with API data:', error);
       
       // Fallback: use coordinates as city name
@@ -213,7 +282,7 @@ export class TripEnhancement {
   /**
    * Deduplicate nearby places based on proximity
    */
-  private static deduplicateNearbyPlaces(trips: EnhancedTrip[]): EnhancedTrip[] {
+  static deduplicateNearbyPlaces(trips: EnhancedTrip[]): EnhancedTrip[] {
     const deduplicated: EnhancedTrip[] = [];
     const stayTrips = trips.filter(trip => trip.type === 'STAY');
     const journeyTrips = trips.filter(trip => trip.type === 'JOURNEY');
@@ -242,9 +311,11 @@ export class TripEnhancement {
   private static mergeNearbyTrips(existingTrip: EnhancedTrip, newTrip: EnhancedTrip): void {
     if (newTrip.startTime < existingTrip.startTime) {
       existingTrip.startTime = newTrip.startTime;
+      existingTrip.startUtcOffsetMinutes = newTrip.startUtcOffsetMinutes;
     }
     if (newTrip.endTime > existingTrip.endTime) {
       existingTrip.endTime = newTrip.endTime;
+      existingTrip.endUtcOffsetMinutes = newTrip.endUtcOffsetMinutes;
     }
 
     existingTrip.durationMinutes = differenceInMinutes(existingTrip.endTime, existingTrip.startTime);
@@ -262,6 +333,7 @@ export class TripEnhancement {
     // Update other details based on higher confidence
     if (newTrip.confidence > existingTrip.confidence) {
       existingTrip.placeName = newTrip.placeName || existingTrip.placeName;
+      existingTrip.placeCategory = newTrip.placeCategory || existingTrip.placeCategory;
       existingTrip.address = newTrip.address || existingTrip.address;
       existingTrip.city = newTrip.city || existingTrip.city;
       existingTrip.country = newTrip.country || existingTrip.country;
@@ -269,6 +341,14 @@ export class TripEnhancement {
       existingTrip.confidence = newTrip.confidence;
     }
 
+    if (newTrip.photos) {
+      existingTrip.photos = [...(existingTrip.photos || []), ...newTrip.photos];
+    }
+
+    if (newTrip.labels) {
+      existingTrip.labels = Array.from(new Set([...(existingTrip.labels || []), ...newTrip.labels]));
+    }
+
     existingTrip.segments.push(...newTrip.segments);
   }
 }
\ No newline at end of file
@@ -0,0 +1,185 @@
+import { addDays, format, getDay, startOfDay } from 'date-fns';
+import { calculateDistance } from '../../utils/geometry';
+import { getLocalEndTime, getLocalStartTime } from '../../utils/time';
+import type { FrequentPlace, HomeWorkLocations, LatLng, ProcessedTrip, TravelStats } from '../../types/travel';
+
+// Stays where the user spent time, grouped while home and work are inferred
+interface PlaceCluster {
+  anchor: LatLng; // First stay of the cluster; later stays are compared with it so the cluster doesn't drift
+  stays: ProcessedTrip[];
+  nights: Set<string>;
+  nightHours: number;
+  workdays: Set<string>;
+  workdayHours: number;
+}
+
+/**
+ * Infers where the user lives and works from their stays: home is where the
+ * most nights are spent, work is where the most weekday working hours are
+ * spent, away from home.
+ */
+export class HomeWorkInference {
+  static readonly PLACE_RADIUS_KM = 0.25;
+  private static readonly GRID_DEGREES = 0.005; // Cells of about 500 m, searched with their neighbours
+
+  private static readonly NIGHT_START_HOUR = 22;
+  private static readonly NIGHT_END_HOUR = 6; // On the next day
+  private static readonly MIN_NIGHT_HOURS = 4;
+  private static readonly WORKDAY_START_HOUR = 9;
+  private static readonly WORKDAY_END_HOUR = 17;
+  private static readonly MIN_WORKDAY_HOURS = 2;
+
+  private static readonly MIN_HOME_NIGHTS = 3;
+  private static readonly MIN_WORKDAYS = 3;
+  private static readonly MAX_CANDIDATES = 5; // Per kind of place
+
+  static inferHomeWork(trips: ProcessedTrip[]): HomeWorkLocations {
+    const clusters = this.clusterStays(trips.filter(trip => trip.activityType === 'STAY'));
+    clusters.forEach(cluster => cluster.stays.forEach(stay => this.addDwell(cluster, stay)));
+
+    const places = clusters.map((cluster, index) => this.toFrequentPlace(cluster, index));
+    const byNights = [...places].sort((a, b) => b.nights - a.nights || b.nightHours - a.nightHours);
+    const byWorkdays = [...places].sort((a, b) => b.workdayHours - a.workdayHours);
+
+    const home = byNights[0]?.nights >= this.MIN_HOME_NIGHTS ? byNights[0] : undefined;
+    const work = byWorkdays.find(place => place !== home && place.workdays >= this.MIN_WORKDAYS);
+
+    const candidates = [
+      ...byNights.slice(0, this.MAX_CANDIDATES).filter(place => place.nights > 0),
+      ...byWorkdays.slice(0, this.MAX_CANDIDATES).filter(place => place.workdays > 0)
+    ];
+
+    return {
+      home,
+      work,
+      confirmed: false,
+      candidates: Array.from(new Set(candidates))
+    };
+  }
+
+  /**
+   * Whether a location is at a frequent place
+   */
+  static isAt(location: LatLng | undefined, place: FrequentPlace | undefined): boolean {
+    return !!location && !!place && calculateDistance(location, place.location) <= this.PLACE_RADIUS_KM;
+  }
+
+  /**
+   * Statistics that describe home and work, for TravelStats
+   */
+  static describe(
+    homeWork: HomeWorkLocations | undefined,
+    commuteDistanceKm: number
+  ): Pick<TravelStats, 'homeLocation' | 'workLocation' | 'nightsAtHome' | 'commuteDistanceKm'> {
+    if (!homeWork) return {};
+
+    return {
+      homeLocation: homeWork.home && this.getPlaceLabel(homeWork.home),
+      workLocation: homeWork.work && this.getPlaceLabel(homeWork.work),
+      nightsAtHome: homeWork.home?.nights,
+      commuteDistanceKm: homeWork.home && homeWork.work ? Math.round(commuteDistanceKm * 100) / 100 : undefined
+    };
+  }
+
+  static getPlaceLabel(place: FrequentPlace): string {
+    return place.name || `${place.location.latitude.toFixed(3)}, ${place.location.longitude.toFixed(3)}`;
+  }
+
+  private static clusterStays(stays: ProcessedTrip[]): PlaceCluster[] {
+    const clusters: PlaceCluster[] = [];
+    const grid = new Map<string, PlaceCluster[]>();
+    // Degrees of longitude shrink towards the poles, so columns are measured in east-west distance
+    const cellOf = (location: LatLng) => [
+      Math.floor(location.latitude / this.GRID_DEGREES),
+      Math.floor(location.longitude * Math.cos(location.latitude * Math.PI / 180) / this.GRID_DEGREES)
+    ];
+
+    stays.forEach(stay => {
+      const [row, column] = cellOf(stay.startLocation);
+      let nearest: PlaceCluster | undefined;
+      let nearestKm = this.PLACE_RADIUS_KM;
+
+      for (let dRow = -1; dRow <= 1; dRow++) {
+        for (let dColumn = -1; dColumn <= 1; dColumn++) {
+          (grid.get(`${row + dRow}:${column + dColumn}`) || []).forEach(cluster => {
+            const distance = calculateDistance(stay.startLocation, cluster.anchor);
+            if (distance <= nearestKm) {
+              nearest = cluster;
+              nearestKm = distance;
+            }
+          });
+        }
+      }
+
+      if (nearest) {
+        nearest.stays.push(stay);
+        return;
+      }
+
+      const cluster: PlaceCluster = {
+        anchor: stay.startLocation,
+        stays: [stay],
+        nights: new Set(),
+        nightHours: 0,
+        workdays: new Set(),
+        workdayHours: 0
+      };
+      clusters.push(cluster);
+      grid.set(`${row}:${column}`, [...(grid.get(`${row}:${column}`) || []), cluster]);
+    });
+
+    return clusters;
+  }
+
+  /**
+   * Add the night and weekday working hours of a stay, in the traveller's local time
+   */
+  private static addDwell(cluster: PlaceCluster, stay: ProcessedTrip): void {
+    const start = getLocalStartTime(stay);
+    const end = getLocalEndTime(stay);
+    if (end <= start) return;
+
+    // From the night before the stay's first day, which may end during the stay
+    for (let day = addDays(startOfDay(start), -1); day < end; day = addDays(day, 1)) {
+      const at = (hour: number, dayOffset = 0) => new Date(day.getFullYear(), day.getMonth(), day.getDate() + dayOffset, hour);
+      const key = format(day, 'yyyy-MM-dd');
+
+      const nightHours = this.overlapHours(start, end, at(this.NIGHT_START_HOUR), at(this.NIGHT_END_HOUR, 1));
+      cluster.nightHours += nightHours;
+      if (nightHours >= this.MIN_NIGHT_HOURS) cluster.nights.add(key);
+
+      const weekday = getDay(day);
+      if (weekday !== 0 && weekday !== 6) {
+        const workHours = this.overlapHours(start, end, at(this.WORKDAY_START_HOUR), at(this.WORKDAY_END_HOUR));
+        cluster.workdayHours += workHours;
+        if (workHours >= this.MIN_WORKDAY_HOURS) cluster.workdays.add(key);
+      }
+    }
+  }
+
+  private static overlapHours(start: Date, end: Date, windowStart: Date, windowEnd: Date): number {
+    const overlap = Math.min(end.getTime(), windowEnd.getTime()) - Math.max(start.getTime(), windowStart.getTime());
+    return Math.max(0, overlap) / 3600000;
+  }
+
+  private static toFrequentPlace(cluster: PlaceCluster, index: number): FrequentPlace {
+    const nameCounts = new Map<string, number>();
+    cluster.stays.forEach(stay => {
+      const name = stay.placeName || stay.city;
+      if (name) nameCounts.set(name, (nameCounts.get(name) || 0) + 1);
+    });
+
+    return {
+      id: `place-${index}`,
+      location: {
+        latitude: cluster.stays.reduce((sum, stay) => sum + stay.startLocation.latitude, 0) / cluster.stays.length,
+        longitude: cluster.stays.reduce((sum, stay) => sum + stay.startLocation.longitude, 0) / cluster.stays.length
+      },
+      name: Array.from(nameCounts.entries()).sort(([, a], [, b]) => b - a)[0]?.[0],
+      nights: cluster.nights.size,
+      nightHours: Math.round(cluster.nightHours),
+      workdays: cluster.workdays.size,
+      workdayHours: Math.round(cluster.workdayHours)
+    };
+  }
+}
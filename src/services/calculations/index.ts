@@ -1,7 +1,7 @@
 import { TripEnhancement } from './enhancement';
 import { TravelStatistics } from './statistics';
 import { AdvancedAnalytics } from './advanced';
-import type { ProcessedTrip, EnhancedTravelStats as EnhancedTravelStatsType, EnhancedTrip } from '../../types/travel';
+import type { ProcessedTrip, EnhancedTravelStats as EnhancedTravelStatsType, EnhancedTrip, HomeWorkLocations } from '../../types/travel';
 
 /**
  * Main travel calculations class that orchestrates all calculation modules
@@ -12,16 +12,18 @@ export class TravelCalculations {
    */
   static async enhanceTripsWithAPIs(
     segments: ProcessedTrip[],
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: number) => void,
+    onBatch?: (trips: EnhancedTrip[]) => void,
+    signal?: AbortSignal
   ): Promise<EnhancedTrip[]> {
-    return TripEnhancement.enhanceTripsWithAPIs(segments, onProgress);
+    return TripEnhancement.enhanceTripsWithAPIs(segments, onProgress, onBatch, signal);
   }
 
   /**
    * Calculate enhanced travel statistics
    */
-  static calculateEnhancedStats(trips: EnhancedTrip[]): EnhancedTravelStatsType {
-    const basicStats = TravelStatistics.calculateEnhancedStats(trips);
+  static calculateEnhancedStats(trips: EnhancedTrip[], homeWork?: HomeWorkLocations): EnhancedTravelStatsType {
+    const basicStats = TravelStatistics.calculateEnhancedStats(trips, homeWork);
     const advancedStats = AdvancedAnalytics.calculateAdvancedStatistics(trips);
     
     return {
@@ -34,4 +36,8 @@ export class TravelCalculations {
 // Export individual modules for direct access if needed
 export { TripEnhancement } from './enhancement';
 export { TravelStatistics } from './statistics';
-export { AdvancedAnalytics } from './advanced';
\ No newline at end of file
+export { AdvancedAnalytics } from './advanced';
+export { TrackCleaner } from './cleaning';
+export { ImportDiagnostics } from './diagnostics';
+export { HomeWorkInference } from './homeWork';
+export { TripSegmentation } from './awayTrips';
\ No newline at end of file
@@ -1,16 +1,22 @@
 import { format } from 'date-fns';
 import { CountriesService } from '../countries';
-import type { EnhancedTravelStats as EnhancedTravelStatsType, EnhancedTrip } from '../../types/travel';
+import { HomeWorkInference } from './homeWork';
+import { TripSegmentation } from './awayTrips';
+import { calculateDistance } from '../../utils/geometry';
+import { getLocalEndTime, getLocalStartTime } from '../../utils/time';
+import type { EnhancedTravelStats as EnhancedTravelStatsType, EnhancedTrip, HomeWorkLocations } from '../../types/travel';
 
 export class TravelStatistics {
   
   /**
-   * Calculate enhanced travel statistics
+   * Calculate enhanced travel statistics. Home and work, when known, are left
+   * out of the most visited location and their journeys count as commutes.
    */
-  static calculateEnhancedStats(trips: EnhancedTrip[]): EnhancedTravelStatsType {
+  static calculateEnhancedStats(trips: EnhancedTrip[], homeWork?: HomeWorkLocations): EnhancedTravelStatsType {
     if (trips.length === 0) {
       return {
         totalDistanceKm: 0,
+        straightLineDistanceKm: 0,
         uniqueCities: 0,
         uniqueCountries: 0,
         longestTripKm: 0,
@@ -26,6 +32,10 @@ export class TravelStatistics {
     // Basic statistics
     const journeys = trips.filter(trip => trip.type === 'JOURNEY' && trip.distanceKm);
     const totalDistance = journeys.reduce((sum, trip) => sum + (trip.distanceKm || 0), 0);
+    // Measured per movement, like distanceKm, so the two compare like for like
+    const straightLineDistance = journeys.reduce((sum, trip) => sum + trip.segments
+      .filter(segment => segment.distanceMeters && segment.activityType !== 'STAY')
+      .reduce((segmentSum, segment) => segmentSum + calculateDistance(segment.startLocation, segment.endLocation), 0), 0);
     const longestTrip = journeys.reduce((max, trip) => 
       (trip.distanceKm || 0) > (max.distanceKm || 0) ? trip : max
     , journeys[0]);
@@ -88,38 +98,51 @@ export class TravelStatistics {
     }
 
     // Most visited location
+    const isHomeOrWork = (trip: EnhancedTrip) =>
+      HomeWorkInference.isAt(trip.location, homeWork?.home) || HomeWorkInference.isAt(trip.location, homeWork?.work);
     const locationCounts: Record<string, number> = {};
-    trips.forEach(trip => {
+    trips.filter(trip => !isHomeOrWork(trip)).forEach(trip => {
       const locationKey = trip.placeName || trip.city || 'Unknown location';
       locationCounts[locationKey] = (locationCounts[locationKey] || 0) + 1;
     });
     const mostVisitedLocation = Object.entries(locationCounts)
       .sort(([, a], [, b]) => b - a)[0]?.[0] || 'Unknown';
 
-    // Date range
+    // Journeys from home to work or back
+    const commuteDistance = journeys
+      .filter(trip => (HomeWorkInference.isAt(trip.location, homeWork?.home) && HomeWorkInference.isAt(trip.endLocation, homeWork?.work)) ||
+        (HomeWorkInference.isAt(trip.location, homeWork?.work) && HomeWorkInference.isAt(trip.endLocation, homeWork?.home)))
+      .reduce((sum, trip) => sum + (trip.distanceKm || 0), 0);
+
+    // Date range, in the traveller's local time
     const sortedTrips = trips.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    const firstTrip = sortedTrips[0];
+    const lastTrip = sortedTrips[sortedTrips.length - 1];
 
     return {
       totalDistanceKm: Math.round(totalDistance * 100) / 100,
+      straightLineDistanceKm: Math.round(straightLineDistance * 100) / 100,
       uniqueCities: uniqueCities.size,
       uniqueCountries: uniqueCountries.size,
       longestTripKm: Math.round((longestTrip?.distanceKm || 0) * 100) / 100,
       mostVisitedLocation,
       totalTrips: trips.length,
-      firstTripDate: sortedTrips[0]?.startTime || new Date(),
-      lastTripDate: sortedTrips[sortedTrips.length - 1]?.endTime || new Date(),
+      firstTripDate: firstTrip ? getLocalStartTime(firstTrip) : new Date(),
+      lastTripDate: lastTrip ? getLocalEndTime(lastTrip) : new Date(),
+      ...HomeWorkInference.describe(homeWork, commuteDistance),
+      ...TripSegmentation.calculateStats(trips, homeWork),
       
       // Enhanced statistics
       hottestTrip: hottestTrip ? {
         location: hottestTrip.city || hottestTrip.placeName || 'Unknown',
         temperature: hottestTrip.weather!.temperature,
-        date: format(hottestTrip.startTime, 'yyyy-MM-dd')
+        date: format(getLocalStartTime(hottestTrip), 'yyyy-MM-dd')
       } : undefined,
       
       coldestTrip: coldestTrip ? {
         location: coldestTrip.city || coldestTrip.placeName || 'Unknown',
         temperature: coldestTrip.weather!.temperature,
-        date: format(coldestTrip.startTime, 'yyyy-MM-dd')
+        date: format(getLocalStartTime(coldestTrip), 'yyyy-MM-dd')
       } : undefined,
       
       countries: Array.from(countryStats.values())
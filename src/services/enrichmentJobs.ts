@@ -0,0 +1,167 @@
+import { TripEnhancement } from './calculations';
+import { TimelineParser } from './parser';
+import { storageService, type StoredEnrichmentJob } from './storage';
+import { ProcessingCancelledError } from '../utils/abort';
+import type { EnhancedProcessingResult, EnhancedTrip, ProcessingResult } from '../types/travel';
+
+/**
+ * API enrichment persisted in IndexedDB, so it can continue where it stopped
+ * after the tab is closed or processing is cancelled. The upload is saved
+ * before enrichment starts and its apiEnrichmentProgress follows each batch.
+ */
+export class EnrichmentJobService {
+  /**
+   * Save a basic result and queue its grouped trips for enrichment
+   */
+  static async createJob(
+    basicResult: ProcessingResult,
+    details: { fileName?: string; fileSize?: number } = {}
+  ): Promise<{ jobId: string; travelDataId: string }> {
+    const travelDataId = await storageService.saveTravelData({
+      basicTrips: basicResult.trips,
+      basicStats: basicResult.stats,
+      manualTrips: [],
+      errors: basicResult.errors,
+      totalSegments: basicResult.totalSegments,
+      processedSegments: basicResult.processedSegments,
+      apiEnrichmentProgress: 0,
+      sources: basicResult.sources,
+      importReport: basicResult.importReport,
+      homeWork: basicResult.homeWork,
+      fileName: details.fileName,
+      fileSize: details.fileSize
+    });
+
+    // Manual trips stay basic trips: they may have no coordinates and would be grouped into journeys
+    const jobId = `enrichment_job_${Date.now()}`;
+    await storageService.createEnrichmentJob(
+      { id: jobId, travelDataId, fileName: details.fileName },
+      TripEnhancement.groupTripsFromSegments(basicResult.trips.filter(trip => trip.activityType !== 'MANUAL_ENTRY'))
+    );
+
+    return { jobId, travelDataId };
+  }
+
+  /**
+   * Enrich the trips of a job from its cursor onwards. On success the saved
+   * upload gets the enhanced trips and statistics and the job is removed.
+   * When the signal aborts, rejects with a ProcessingCancelledError holding
+   * the trips enriched so far; the job stays so it can be resumed.
+   */
+  static async runJob(
+    jobId: string,
+    onProgress?: (progress: number, stage: string) => void,
+    onBatch?: (trips: EnhancedTrip[]) => void,
+    signal?: AbortSignal
+  ): Promise<EnhancedProcessingResult> {
+    const loaded = await storageService.loadEnrichmentJob(jobId);
+    if (!loaded) {
+      throw new Error('This enrichment job no longer exists');
+    }
+
+    const { job } = loaded;
+    const stored = await storageService.loadTravelData(job.travelDataId);
+    if (!stored) {
+      await storageService.deleteEnrichmentJob(jobId);
+      throw new Error('The data for this enrichment job has been deleted');
+    }
+
+    const basicResult: ProcessingResult = {
+      trips: stored.basicTrips,
+      stats: stored.basicStats,
+      totalSegments: stored.totalSegments,
+      processedSegments: stored.processedSegments,
+      errors: stored.errors,
+      sources: stored.sources,
+      importReport: stored.importReport,
+      homeWork: stored.homeWork
+    };
+
+    const trips = loaded.trips.map(entry => entry.trip);
+    const isEnriched = loaded.trips.map(entry => entry.status === 'enriched');
+    const getProgress = () => trips.length === 0
+      ? 100
+      : Math.floor(isEnriched.filter(Boolean).length / trips.length * 100);
+
+    onProgress?.(getProgress() * 0.85, 'Enriching with location and weather data...');
+
+    await TripEnhancement.enrichGroupedTrips(trips, {
+      startIndex: job.cursor,
+      signal,
+      onBatch: async (batch, startIndex) => {
+        batch.forEach((trip, offset) => {
+          trips[startIndex + offset] = trip;
+          isEnriched[startIndex + offset] = true;
+        });
+
+        await storageService.saveEnrichmentBatch(jobId, startIndex, batch);
+        await storageService.updateTravelData(job.travelDataId, { apiEnrichmentProgress: getProgress() });
+
+        onBatch?.(batch);
+        onProgress?.(getProgress() * 0.85, 'Enriching with location and weather data...');
+      }
+    });
+
+    const enhancedTrips = TripEnhancement.deduplicateNearbyPlaces(trips.filter((_, index) => isEnriched[index]));
+
+    if (signal?.aborted) {
+      throw new ProcessingCancelledError(
+        enhancedTrips.length > 0
+          ? TimelineParser.buildEnhancedResult(basicResult, enhancedTrips, getProgress())
+          : undefined
+      );
+    }
+
+    onProgress?.(85, 'Calculating enhanced statistics...');
+
+    const result = TimelineParser.buildEnhancedResult(basicResult, enhancedTrips, 100);
+    await storageService.updateTravelData(job.travelDataId, {
+      enhancedTrips: result.enhancedTrips,
+      enhancedStats: result.enhancedStats,
+      apiEnrichmentProgress: 100
+    });
+    await storageService.deleteEnrichmentJob(jobId);
+
+    onProgress?.(100, 'Complete!');
+    return result;
+  }
+
+  /**
+   * Save a partial result from a cancelled job. The job is kept, so enrichment can be resumed later.
+   */
+  static async keepPartialResult(travelDataId: string, result: EnhancedProcessingResult): Promise<void> {
+    await storageService.updateTravelData(travelDataId, {
+      enhancedTrips: result.enhancedTrips,
+      enhancedStats: result.enhancedStats,
+      apiEnrichmentProgress: result.apiEnrichmentProgress,
+      errors: result.errors
+    });
+  }
+
+  /**
+   * The most recent job that has not finished, if its upload still exists
+   */
+  static async getResumableJob(): Promise<StoredEnrichmentJob | null> {
+    const job = await storageService.getLatestEnrichmentJob();
+    if (!job) return null;
+
+    const stored = await storageService.loadTravelData(job.travelDataId).catch(() => null);
+    if (!stored) {
+      await storageService.deleteEnrichmentJob(job.id);
+      return null;
+    }
+
+    return job;
+  }
+
+  /**
+   * Stop tracking a job. With deleteData, the upload saved for it is removed as well.
+   */
+  static async discardJob(job: Pick<StoredEnrichmentJob, 'id' | 'travelDataId'>, deleteData = false): Promise<void> {
+    if (deleteData) {
+      await storageService.deleteTravelData(job.travelDataId);
+    } else {
+      await storageService.deleteEnrichmentJob(job.id);
+    }
+  }
+}
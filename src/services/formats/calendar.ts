@@ -0,0 +1,194 @@
+import { fromTimeZoneWallClock } from '../../utils/time';
+import { isValidLatLng } from '../../utils/validation';
+import type { CalendarEvent, LatLng } from '../../types/travel';
+
+// A content line: name, parameters (e.g. TZID) and value
+interface CalendarProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface CalendarParseResult {
+  events: CalendarEvent[];
+  totalEvents: number;
+  errors: string[];
+}
+
+/**
+ * Reads the events of an iCalendar (.ics) file. Recurring events only count
+ * once, at their first occurrence, and cancelled events are skipped.
+ */
+export class CalendarParser {
+  static parseCalendar(text: string): CalendarParseResult {
+    const events: CalendarEvent[] = [];
+    const errors: string[] = [];
+    let totalEvents = 0;
+
+    // Floating times (without a timezone) are in the calendar's default timezone, when it has one
+    let defaultTimeZone: string | undefined;
+    let current: CalendarProperty[] | null = null;
+    let nestedDepth = 0; // Components inside an event, e.g. VALARM
+
+    this.unfoldLines(text).forEach(line => {
+      const property = this.parseLine(line);
+      if (!property) return;
+
+      if (property.name === 'BEGIN') {
+        if (current) {
+          nestedDepth++;
+        } else if (property.value.toUpperCase() === 'VEVENT') {
+          current = [];
+        }
+      } else if (property.name === 'END') {
+        if (nestedDepth > 0) {
+          nestedDepth--;
+        } else if (current && property.value.toUpperCase() === 'VEVENT') {
+          totalEvents++;
+          const event = this.createEvent(current, totalEvents, defaultTimeZone);
+          if (typeof event === 'string') {
+            errors.push(event);
+          } else if (event) {
+            events.push(event);
+          }
+          current = null;
+        }
+      } else if (current && nestedDepth === 0) {
+        current.push(property);
+      } else if (property.name === 'X-WR-TIMEZONE') {
+        defaultTimeZone = property.value;
+      }
+    });
+
+    return {
+      events: events.sort((a, b) => a.startTime.getTime() - b.startTime.getTime()),
+      totalEvents,
+      errors
+    };
+  }
+
+  /**
+   * The event, an error message, or null for events that are skipped silently (cancelled)
+   */
+  private static createEvent(
+    properties: CalendarProperty[],
+    index: number,
+    defaultTimeZone: string | undefined
+  ): CalendarEvent | string | null {
+    const get = (name: string) => properties.find(property => property.name === name);
+    const summary = get('SUMMARY') && this.unescapeText(get('SUMMARY')!.value);
+    const location = get('LOCATION') && this.unescapeText(get('LOCATION')!.value);
+    const title = summary || location;
+    const label = title || `Event ${index}`;
+
+    if (get('STATUS')?.value.toUpperCase() === 'CANCELLED') return null;
+    if (!title) return `${label}: event has no title or location`;
+
+    const dtStart = get('DTSTART');
+    const start = dtStart && this.parseDateTime(dtStart, defaultTimeZone);
+    if (!start) return `${label}: missing or invalid start time`;
+
+    const dtEnd = get('DTEND');
+    let end = dtEnd && this.parseDateTime(dtEnd, defaultTimeZone);
+    if (!end || end.time < start.time) {
+      const duration = get('DURATION') && this.parseDuration(get('DURATION')!.value);
+      // Whole-day events without an end last the day they start on
+      const minutes = duration ?? (start.allDay ? 24 * 60 : 0);
+      end = { ...start, time: new Date(start.time.getTime() + minutes * 60000) };
+    }
+
+    return {
+      id: `event-${get('UID')?.value || index}`,
+      title,
+      startTime: start.time,
+      endTime: end.time,
+      allDay: start.allDay,
+      utcOffsetMinutes: start.utcOffsetMinutes,
+      location: location || undefined,
+      coordinates: get('GEO') && this.parseGeo(get('GEO')!.value)
+    };
+  }
+
+  /**
+   * Parse DATE values ("20240501") and DATE-TIME values in UTC ("20240501T093000Z"),
+   * in a named timezone (TZID parameter) or floating
+   */
+  private static parseDateTime(
+    property: CalendarProperty,
+    defaultTimeZone: string | undefined
+  ): { time: Date; allDay: boolean; utcOffsetMinutes?: number } | null {
+    const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+    if (!match) return null;
+
+    const [, year, month, day, hours, minutes, seconds = '0', utc] = match;
+    if (hours === undefined) {
+      // Dates are floating: midnight UTC at offset 0, so toLocalTime reads the same date in every viewer's timezone
+      const date = Date.UTC(Number(year), Number(month) - 1, Number(day));
+      return isNaN(date) ? null : { time: new Date(date), allDay: true, utcOffsetMinutes: 0 };
+    }
+
+    const wallClock = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds));
+    if (isNaN(wallClock)) return null;
+    if (utc) return { time: new Date(wallClock), allDay: false, utcOffsetMinutes: 0 };
+
+    // Outlook writes Windows zone names (e.g. "W. Europe Standard Time"), which are read as floating times
+    const timeZone = property.params.TZID || defaultTimeZone;
+    const zoned = timeZone ? fromTimeZoneWallClock(wallClock, timeZone) : undefined;
+    if (zoned) return { ...zoned, allDay: false };
+
+    return {
+      time: new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)),
+      allDay: false
+    };
+  }
+
+  /**
+   * Minutes from an ISO 8601 duration such as "PT1H30M" or "P2D"
+   */
+  private static parseDuration(value: string): number | undefined {
+    const match = value.match(/^[+-]?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+    if (!match) return undefined;
+
+    const [, weeks = '0', days = '0', hours = '0', minutes = '0'] = match;
+    return ((Number(weeks) * 7 + Number(days)) * 24 + Number(hours)) * 60 + Number(minutes);
+  }
+
+  private static parseGeo(value: string): LatLng | undefined {
+    const [latitude, longitude] = value.split(/[;,]/).map(Number);
+    const coordinates = { latitude, longitude };
+    return isValidLatLng(coordinates) ? coordinates : undefined;
+  }
+
+  // Long lines are folded onto continuation lines that start with a space or tab
+  private static unfoldLines(text: string): string[] {
+    return text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  }
+
+  private static parseLine(line: string): CalendarProperty | null {
+    // The value starts at the first colon outside a quoted parameter value
+    let separator = -1;
+    let inQuotes = false;
+    for (let i = 0; i < line.length && separator < 0; i++) {
+      if (line[i] === '"') inQuotes = !inQuotes;
+      else if (line[i] === ':' && !inQuotes) separator = i;
+    }
+    if (separator <= 0) return null;
+
+    const [name, ...params] = line.slice(0, separator).split(';');
+    return {
+      name: name.toUpperCase(),
+      params: Object.fromEntries(params.map(param => {
+        const [key, ...value] = param.split('=');
+        return [key.toUpperCase(), value.join('=').replace(/^"|"$/g, '')];
+      })),
+      value: line.slice(separator + 1).trim()
+    };
+  }
+
+  private static unescapeText(value: string): string {
+    return value
+      .replace(/\\[nN]/g, ', ')
+      .replace(/\\([,;\\])/g, '$1')
+      .trim();
+  }
+}
@@ -0,0 +1,180 @@
+import { format } from 'date-fns';
+import { GeocodingService } from '../geocoding';
+import { isValidLatLng } from '../../utils/validation';
+import { getLocalEndTime, getLocalStartTime, toLocalTime } from '../../utils/time';
+import { isAbortError, throwIfAborted } from '../../utils/abort';
+import { manualTripsToProcessed } from './manual';
+import type { CalendarEvent, ImportResult, LatLng, ManualTrip, ProcessedTrip } from '../../types/travel';
+
+// Whole-day events are compared in local time, which is at most this far from UTC
+const MAX_UTC_OFFSET_MS = 14 * 3600000;
+
+// Where an event took place, from its GEO property or its geocoded location
+interface EventPlace {
+  city?: string;
+  country?: string;
+  coordinates: LatLng;
+}
+
+export interface CalendarLabelResult extends ImportResult {
+  eventTrips: Record<string, number>; // Events without timeline coverage added as manual trips, per source file
+}
+
+/**
+ * Label the trips each calendar event overlaps with the event's title. Events
+ * that no trip covers become manual trips at their location, looked up by
+ * forward geocoding when the event has no coordinates.
+ */
+export async function applyCalendarEvents(
+  result: ImportResult,
+  signal?: AbortSignal
+): Promise<CalendarLabelResult> {
+  const events = result.calendarEvents || [];
+  const trips = [...result.trips].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  const labels = new Map<ProcessedTrip, string[]>();
+  const uncovered: CalendarEvent[] = [];
+
+  // Latest end among the trips up to each index, so the search can stop early
+  const maxEnds: number[] = [];
+  trips.forEach((trip, index) => {
+    maxEnds.push(Math.max(trip.endTime.getTime(), index > 0 ? maxEnds[index - 1] : -Infinity));
+  });
+
+  events.forEach(event => {
+    const overlapping = findOverlappingTrips(event, trips, maxEnds);
+    if (overlapping.length === 0) uncovered.push(event);
+
+    overlapping.forEach(trip => {
+      const tripLabels = labels.get(trip) || [...(trip.labels || [])];
+      if (!tripLabels.includes(event.title)) tripLabels.push(event.title);
+      labels.set(trip, tripLabels);
+    });
+  });
+
+  const errors: string[] = [];
+  const locatedEvents: CalendarEvent[] = [];
+  const manualTrips: ManualTrip[] = [];
+  const locationCache = new Map<string, EventPlace | null>();
+  let unlocatedEvents = 0;
+
+  for (const event of uncovered) {
+    throwIfAborted(signal);
+
+    if (!event.coordinates && !event.location) {
+      unlocatedEvents++;
+      continue;
+    }
+
+    const place = event.coordinates
+      ? { coordinates: event.coordinates }
+      : await lookupLocation(event.location!, locationCache, signal);
+
+    if (place) {
+      locatedEvents.push(event);
+      manualTrips.push(toManualTrip(event, place));
+    } else {
+      errors.push(`${event.title}: could not find coordinates for ${event.location}`);
+    }
+  }
+
+  // Events always have coordinates here, so they are grouped and enriched like visits
+  const eventTrips = manualTripsToProcessed(manualTrips, 'calendar').map((trip, index) => ({
+    ...trip,
+    activityType: 'STAY',
+    labels: [locatedEvents[index].title],
+    source: locatedEvents[index].source
+  }));
+
+  const eventTripCounts: Record<string, number> = {};
+  eventTrips.forEach(trip => {
+    const source = trip.source || 'unknown';
+    eventTripCounts[source] = (eventTripCounts[source] || 0) + 1;
+  });
+
+  if (unlocatedEvents > 0) {
+    errors.push(`${unlocatedEvents} calendar event(s) without a location or timeline coverage skipped`);
+  }
+
+  return {
+    ...result,
+    trips: [...trips.map(trip => labels.has(trip) ? { ...trip, labels: labels.get(trip) } : trip), ...eventTrips]
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime()),
+    errors: [...result.errors, ...errors],
+    calendarEvents: undefined,
+    eventTrips: eventTripCounts
+  };
+}
+
+/**
+ * Trips overlapping an event, given trips sorted by start time
+ */
+function findOverlappingTrips(event: CalendarEvent, trips: ProcessedTrip[], maxEnds: number[]): ProcessedTrip[] {
+  const margin = event.allDay ? MAX_UTC_OFFSET_MS : 0;
+  const from = event.startTime.getTime() - margin;
+  const to = event.endTime.getTime() + margin;
+
+  // Last trip starting before the event ends
+  let low = 0;
+  let high = trips.length;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (trips[middle].startTime.getTime() <= to) low = middle + 1;
+    else high = middle;
+  }
+
+  // Whole-day events cover dates, so they are compared with the trip's local time
+  const eventStart = event.allDay ? toLocalTime(event.startTime, event.utcOffsetMinutes) : event.startTime;
+  const eventEnd = event.allDay ? toLocalTime(event.endTime, event.utcOffsetMinutes) : event.endTime;
+
+  const overlapping: ProcessedTrip[] = [];
+  for (let i = low - 1; i >= 0 && maxEnds[i] >= from; i--) {
+    const start = event.allDay ? getLocalStartTime(trips[i]) : trips[i].startTime;
+    const end = event.allDay ? getLocalEndTime(trips[i]) : trips[i].endTime;
+    if (start <= eventEnd && end >= eventStart) overlapping.push(trips[i]);
+  }
+  return overlapping;
+}
+
+function toManualTrip(event: CalendarEvent, place: EventPlace): ManualTrip {
+  const start = toLocalTime(event.startTime, event.utcOffsetMinutes);
+  const end = toLocalTime(event.allDay
+    // The end of a whole-day event is the start of the day after it
+    ? new Date(Math.max(event.startTime.getTime(), event.endTime.getTime() - 1))
+    : event.endTime, event.utcOffsetMinutes);
+  const endDate = format(end, 'yyyy-MM-dd');
+
+  return {
+    city: place.city || event.location || event.title,
+    country: place.country,
+    startDate: format(start, 'yyyy-MM-dd'),
+    endDate: endDate !== format(start, 'yyyy-MM-dd') ? endDate : undefined,
+    notes: event.title,
+    coordinates: place.coordinates
+  };
+}
+
+async function lookupLocation(
+  location: string,
+  cache: Map<string, EventPlace | null>,
+  signal?: AbortSignal
+): Promise<EventPlace | null> {
+  const key = location.toLowerCase();
+
+  if (!cache.has(key)) {
+    try {
+      const result = await GeocodingService.forwardGeocode(location, signal);
+      const coordinates = result.coords && {
+        latitude: Number(result.coords.latitude),
+        longitude: Number(result.coords.longitude)
+      };
+      cache.set(key, coordinates && isValidLatLng(coordinates)
+        ? { city: result.city, country: result.country, coordinates }
+        : null);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      cache.set(key, null);
+    }
+  }
+
+  return cache.get(key) || null;
+}
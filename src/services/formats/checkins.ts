@@ -0,0 +1,127 @@
+import { isValidLatLng } from '../../utils/validation';
+import { parseTimestamp } from '../../utils/time';
+import { ImportDiagnostics } from '../calculations/diagnostics';
+import type { ImportResult, LatLng, ProcessedTrip } from '../../types/travel';
+
+interface FoursquareCategory {
+  name?: string;
+  primary?: boolean;
+}
+
+interface FoursquareVenue {
+  id?: string;
+  name?: string;
+  location?: {
+    lat?: number;
+    lng?: number;
+    address?: string;
+    formattedAddress?: string[];
+    city?: string;
+    country?: string;
+  };
+  categories?: FoursquareCategory[];
+}
+
+// A check-in from the Foursquare/Swarm data export. Older exports nest the
+// coordinates in the venue, newer ones put them on the check-in
+interface FoursquareCheckin {
+  id?: string;
+  createdAt?: number | string; // Epoch seconds, or "2019-05-01 12:34:56.000000" in UTC
+  timeZoneOffset?: number; // Minutes
+  venue?: FoursquareVenue;
+  lat?: number;
+  lng?: number;
+}
+
+/**
+ * Builds stays from the check-ins of a Foursquare/Swarm data export
+ * (checkins*.json). Each check-in becomes a point-in-time STAY named after
+ * its venue.
+ */
+export class CheckinParser {
+  static getCheckins(data: unknown): FoursquareCheckin[] {
+    if (Array.isArray(data)) return data;
+    const items = (data as { items?: unknown })?.items;
+    return Array.isArray(items) ? items : [];
+  }
+
+  static parseCheckins(checkins: FoursquareCheckin[], onProgress?: (progress: number) => void): ImportResult {
+    const trips: ProcessedTrip[] = [];
+    const errors: string[] = [];
+    const segmentCounts = ImportDiagnostics.createSegmentCounts();
+
+    checkins.forEach((checkin, index) => {
+      const label = checkin.venue?.name || `Check-in ${index + 1}`;
+      const location = this.getLocation(checkin);
+      const time = this.parseCreatedAt(checkin.createdAt);
+
+      if (!location) {
+        segmentCounts.skipped++;
+        segmentCounts.skipReasons.noLocation++;
+        errors.push(`${label}: check-in has no location`);
+      } else if (!time) {
+        segmentCounts.skipped++;
+        segmentCounts.skipReasons.badTimestamp++;
+        errors.push(`${label}: missing or invalid check-in time`);
+      } else {
+        segmentCounts.visit++;
+        trips.push(this.createStay(checkin, location, time, trips.length));
+      }
+
+      if ((index + 1) % 500 === 0) {
+        onProgress?.(Math.floor(((index + 1) / checkins.length) * 100));
+      }
+    });
+
+    onProgress?.(100);
+
+    return {
+      trips: trips.sort((a, b) => a.startTime.getTime() - b.startTime.getTime()),
+      totalSegments: checkins.length,
+      processedSegments: trips.length,
+      errors,
+      segmentCounts
+    };
+  }
+
+  private static createStay(checkin: FoursquareCheckin, location: LatLng, time: Date, index: number): ProcessedTrip {
+    const venue = checkin.venue;
+    const utcOffsetMinutes = typeof checkin.timeZoneOffset === 'number' ? checkin.timeZoneOffset : undefined;
+    const category = venue?.categories?.find(c => c.primary) || venue?.categories?.[0];
+
+    return {
+      id: `checkin-${checkin.id || index}`,
+      startTime: time,
+      endTime: time,
+      startUtcOffsetMinutes: utcOffsetMinutes,
+      endUtcOffsetMinutes: utcOffsetMinutes,
+      startLocation: location,
+      endLocation: location,
+      placeId: venue?.id,
+      placeName: venue?.name,
+      placeCategory: category?.name,
+      address: venue?.location?.formattedAddress?.join(', ') || venue?.location?.address,
+      city: venue?.location?.city,
+      country: venue?.location?.country,
+      activityType: 'STAY',
+      confidence: 0.9, // The user confirmed being there
+      mergesIntoVisits: true
+    };
+  }
+
+  private static getLocation(checkin: FoursquareCheckin): LatLng | null {
+    const location = {
+      latitude: checkin.lat ?? checkin.venue?.location?.lat ?? NaN,
+      longitude: checkin.lng ?? checkin.venue?.location?.lng ?? NaN
+    };
+    return isValidLatLng(location) ? location : null;
+  }
+
+  private static parseCreatedAt(value: number | string | undefined): Date | null {
+    // The newer export writes UTC times without a zone, which browsers would read as local time
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d+)?$/.test(value)) {
+      return parseTimestamp(`${value.replace(' ', 'T').slice(0, 23)}Z`);
+    }
+    return parseTimestamp(value);
+  }
+}
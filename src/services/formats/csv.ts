@@ -0,0 +1,179 @@
+import { format, isValid, parseISO } from 'date-fns';
+import { GeocodingService } from '../geocoding';
+import { calculateDistance } from '../../utils/geometry';
+import { activityFromLabel } from '../../utils/activity';
+import { isValidLatLng, validateManualTrip } from '../../utils/validation';
+import { isAbortError, throwIfAborted } from '../../utils/abort';
+import { manualTripsToProcessed } from './manual';
+import type { FieldMapping, ImportResult, LatLng, ManualTrip, MappableField, ProcessedTrip } from '../../types/travel';
+
+/**
+ * Turns spreadsheet rows of past trips into manual trips, one per row.
+ * Rows with a travel mode also get a journey from the previous trip.
+ */
+export class CsvTripParser {
+  static readonly FIELDS: MappableField[] = [
+    { key: 'startDate', label: 'Date', description: 'Arrival or start date of the trip', required: true },
+    { key: 'endDate', label: 'End date' },
+    { key: 'city', label: 'City', required: true },
+    { key: 'country', label: 'Country' },
+    { key: 'latitude', label: 'Latitude', description: 'Looked up from the city when missing' },
+    { key: 'longitude', label: 'Longitude' },
+    { key: 'notes', label: 'Notes' },
+    { key: 'mode', label: 'Travel mode', description: 'e.g. flight, train, car' }
+  ];
+
+  // Common header names, compared without case, spaces or punctuation
+  private static readonly KNOWN_COLUMNS: Record<string, string[]> = {
+    startDate: ['date', 'startdate', 'start', 'from', 'arrival', 'arrivaldate'],
+    endDate: ['enddate', 'end', 'to', 'departure', 'departuredate'],
+    city: ['city', 'place', 'location', 'town', 'destination'],
+    country: ['country'],
+    latitude: ['latitude', 'lat'],
+    longitude: ['longitude', 'lng', 'lon', 'long'],
+    notes: ['notes', 'note', 'description', 'comment', 'comments'],
+    mode: ['mode', 'travelmode', 'transport', 'transportation']
+  };
+
+  static suggestMapping(columns: string[]): FieldMapping {
+    const mapping: FieldMapping = {};
+
+    Object.entries(this.KNOWN_COLUMNS).forEach(([key, candidates]) => {
+      mapping[key] = columns.find(column => candidates.includes(this.normalizeHeader(column)));
+    });
+
+    return mapping;
+  }
+
+  static async parseRows(
+    rows: Record<string, string>[],
+    mapping: FieldMapping,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<ImportResult> {
+    const errors: string[] = [];
+    const manualTrips: ManualTrip[] = [];
+    const locationCache = new Map<string, LatLng | null>();
+
+    for (let i = 0; i < rows.length; i++) {
+      throwIfAborted(signal);
+
+      // Header is line 1 of the spreadsheet
+      const rowLabel = `Row ${i + 2}`;
+      const trip = this.toManualTrip(rows[i], mapping);
+      const rowErrors = validateManualTrip(trip);
+
+      if (rowErrors.length > 0) {
+        errors.push(...rowErrors.map(error => `${rowLabel}: ${error}`));
+      } else {
+        if (!trip.coordinates) {
+          trip.coordinates = await this.lookupCoordinates(trip, locationCache, signal);
+        }
+
+        if (trip.coordinates) {
+          manualTrips.push(trip);
+        } else {
+          errors.push(`${rowLabel}: could not find coordinates for ${trip.city}`);
+        }
+      }
+
+      onProgress?.(Math.floor(((i + 1) / rows.length) * 100));
+    }
+
+    return {
+      trips: this.toProcessedTrips(manualTrips),
+      totalSegments: rows.length,
+      processedSegments: rows.length,
+      errors
+    };
+  }
+
+  private static toManualTrip(row: Record<string, string>, mapping: FieldMapping): ManualTrip {
+    const value = (key: string) => (mapping[key] ? row[mapping[key]!]?.trim() : undefined) || undefined;
+    const latitude = value('latitude');
+    const longitude = value('longitude');
+
+    return {
+      city: value('city') || '',
+      country: value('country'),
+      startDate: this.normalizeDate(value('startDate')),
+      endDate: value('endDate') ? this.normalizeDate(value('endDate')) : undefined,
+      notes: value('notes'),
+      mode: value('mode'),
+      coordinates: latitude && longitude
+        ? { latitude: parseFloat(latitude), longitude: parseFloat(longitude) }
+        : undefined
+    };
+  }
+
+  /**
+   * Stays for every trip, plus a journey into each trip that has a travel mode.
+   * Rows always have coordinates, so they are grouped like visits from a timeline.
+   */
+  private static toProcessedTrips(trips: ManualTrip[]): ProcessedTrip[] {
+    const sorted = [...trips].sort((a, b) => a.startDate.localeCompare(b.startDate));
+    const stays = manualTripsToProcessed(sorted, 'csv').map(trip => ({ ...trip, activityType: 'STAY' }));
+    const result: ProcessedTrip[] = [];
+
+    sorted.forEach((trip, index) => {
+      const previous = sorted[index - 1];
+
+      if (trip.mode && previous?.coordinates && trip.coordinates) {
+        result.push({
+          id: `csv-journey-${index}`,
+          startTime: new Date(trip.startDate),
+          endTime: new Date(trip.startDate),
+          startLocation: previous.coordinates,
+          endLocation: trip.coordinates,
+          distanceMeters: calculateDistance(previous.coordinates, trip.coordinates) * 1000,
+          activityType: activityFromLabel(trip.mode) || 'UNKNOWN',
+          confidence: 1.0
+        });
+      }
+
+      result.push(stays[index]);
+    });
+
+    return result;
+  }
+
+  private static async lookupCoordinates(
+    trip: ManualTrip,
+    cache: Map<string, LatLng | null>,
+    signal?: AbortSignal
+  ): Promise<LatLng | undefined> {
+    const query = trip.country ? `${trip.city}, ${trip.country}` : trip.city;
+    const key = query.toLowerCase();
+
+    if (!cache.has(key)) {
+      try {
+        const result = await GeocodingService.forwardGeocode(query, signal);
+        const coords = result.coords && {
+          latitude: Number(result.coords.latitude),
+          longitude: Number(result.coords.longitude)
+        };
+        cache.set(key, coords && isValidLatLng(coords) ? coords : null);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        cache.set(key, null);
+      }
+    }
+
+    return cache.get(key) || undefined;
+  }
+
+  /**
+   * Accept ISO dates as-is and anything else the browser can parse (e.g. "May 1, 2023")
+   */
+  private static normalizeDate(value: string | undefined): string {
+    if (!value) return '';
+    if (isValid(parseISO(value))) return value.slice(0, 10);
+
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : format(date, 'yyyy-MM-dd');
+  }
+
+  private static normalizeHeader(header: string): string {
+    return header.toLowerCase().replace(/[^a-z]/g, '');
+  }
+}
@@ -0,0 +1,234 @@
+import { AirportService } from '../airports';
+import { calculateDistance } from '../../utils/geometry';
+import { throwIfAborted } from '../../utils/abort';
+import type { Airport } from '../airports';
+import type { ImportResult, ProcessedTrip } from '../../types/travel';
+
+type FlightColumn =
+  | 'date'
+  | 'from'
+  | 'to'
+  | 'departureTime'
+  | 'arrivalTime'
+  | 'duration'
+  | 'airline'
+  | 'flightNumber'
+  | 'aircraft'
+  | 'cancelled';
+
+// Columns found for each value, in order of preference
+type FlightColumns = Partial<Record<FlightColumn, string[]>>;
+
+/**
+ * Builds FLYING journeys from flight-log exports (OpenFlights, Flighty,
+ * myFlightradar24). Airports are resolved from the bundled dataset and the
+ * distance is the great-circle distance between them.
+ */
+export class FlightLogParser {
+  // Header names used by the supported exports, compared without case, spaces or punctuation.
+  // Earlier names are preferred when an export has several (e.g. actual over scheduled times)
+  private static readonly KNOWN_COLUMNS: Record<FlightColumn, string[]> = {
+    date: ['date', 'flightdate', 'departuredate'],
+    from: ['from', 'origin', 'fromairport', 'departureairport'],
+    to: ['to', 'destination', 'toairport', 'arrivalairport'],
+    departureTime: ['gatedepartureactual', 'gatedeparturescheduled', 'takeoffactual', 'takeoffscheduled', 'deptime', 'departuretime'],
+    arrivalTime: ['gatearrivalactual', 'gatearrivalscheduled', 'landingactual', 'landingscheduled', 'arrtime', 'arrivaltime'],
+    duration: ['duration', 'flighttime'],
+    airline: ['airline', 'carrier'],
+    flightNumber: ['flightnumber', 'flight', 'flightno'],
+    aircraft: ['aircraft', 'plane', 'aircrafttypename', 'aircrafttype'],
+    cancelled: ['canceled', 'cancelled']
+  };
+
+  private static readonly AVERAGE_SPEED_KMH = 800; // For flights logged without times
+  private static readonly TAXI_MINUTES = 30;
+
+  /**
+   * Whether a CSV header looks like a flight log: a date, two airports and a flight detail
+   */
+  static isFlightLog(columns: string[]): boolean {
+    const found = this.detectColumns(columns);
+    return !!(found.date && found.from && found.to && (found.flightNumber || found.airline || found.aircraft));
+  }
+
+  static detectColumns(columns: string[]): FlightColumns {
+    const found: FlightColumns = {};
+
+    (Object.keys(this.KNOWN_COLUMNS) as FlightColumn[]).forEach(key => {
+      const matches = this.KNOWN_COLUMNS[key]
+        .map(candidate => columns.find(name => this.normalizeHeader(name) === candidate))
+        .filter((column): column is string => !!column);
+      if (matches.length > 0) found[key] = matches;
+    });
+
+    return found;
+  }
+
+  static async parseRows(
+    rows: Record<string, string>[],
+    columns: FlightColumns,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<ImportResult> {
+    const trips: ProcessedTrip[] = [];
+    const errors: string[] = [];
+
+    await AirportService.initialize();
+
+    for (let i = 0; i < rows.length; i++) {
+      throwIfAborted(signal);
+
+      // Header is line 1 of the spreadsheet
+      const rowLabel = `Row ${i + 2}`;
+      // First non-empty column, e.g. the scheduled time when there is no actual one
+      const value = (key: FlightColumn) => columns[key]?.map(column => rows[i][column]?.trim()).find(Boolean);
+
+      if (/^(true|yes|1)$/i.test(value('cancelled') || '')) {
+        errors.push(`${rowLabel}: cancelled flight skipped`);
+        continue;
+      }
+
+      const from = await this.findAirport(value('from'));
+      const to = await this.findAirport(value('to'));
+
+      if (!from || !to) {
+        errors.push(`${rowLabel}: unknown airport ${!from ? value('from') || '(missing)' : value('to') || '(missing)'}`);
+      } else {
+        const trip = this.createFlight(value, from, to, trips.length);
+        if (trip) {
+          trips.push(trip);
+        } else {
+          errors.push(`${rowLabel}: missing or invalid date`);
+        }
+      }
+
+      onProgress?.(Math.floor(((i + 1) / rows.length) * 100));
+    }
+
+    return {
+      trips: trips.sort((a, b) => a.startTime.getTime() - b.startTime.getTime()),
+      totalSegments: rows.length,
+      processedSegments: trips.length,
+      errors
+    };
+  }
+
+  private static createFlight(
+    value: (key: FlightColumn) => string | undefined,
+    from: Airport,
+    to: Airport,
+    index: number
+  ): ProcessedTrip | null {
+    const date = value('date');
+    const departureWallClock = this.parseWallClock(value('departureTime'), date) ?? this.parseWallClock(date, undefined);
+    if (departureWallClock === null) return null;
+
+    const distanceKm = calculateDistance(from.location, to.location);
+    const departure = AirportService.toUtc(from, departureWallClock);
+    const hasDepartureTime = this.hasTime(value('departureTime')) || this.hasTime(date);
+
+    // Arrival from the log, else from the duration, else estimated from the distance
+    const arrivalWallClock = this.parseWallClock(value('arrivalTime'), date);
+    const durationMinutes = this.parseDuration(value('duration'));
+    let arrival = arrivalWallClock !== null && this.hasTime(value('arrivalTime'))
+      ? AirportService.toUtc(to, arrivalWallClock)
+      : null;
+
+    if (arrival && arrival.time <= departure.time) {
+      // Arrival times without a date land on the next day
+      arrival = AirportService.toUtc(to, arrivalWallClock! + 24 * 3600000);
+    }
+    if (!arrival || arrival.time <= departure.time) {
+      const minutes = durationMinutes ?? Math.round(this.TAXI_MINUTES + distanceKm / this.AVERAGE_SPEED_KMH * 60);
+      const time = new Date(departure.time.getTime() + minutes * 60000);
+      arrival = { time, utcOffsetMinutes: AirportService.getUtcOffsetMinutes(to, time) };
+    }
+
+    return {
+      id: `flight-${index}`,
+      startTime: departure.time,
+      endTime: arrival.time,
+      startUtcOffsetMinutes: departure.utcOffsetMinutes,
+      endUtcOffsetMinutes: arrival.utcOffsetMinutes,
+      startLocation: from.location,
+      endLocation: to.location,
+      placeName: `${from.iata} → ${to.iata}`,
+      distanceMeters: distanceKm * 1000,
+      flight: {
+        from: from.iata,
+        to: to.iata,
+        fromName: from.name,
+        toName: to.name,
+        airline: this.stripCodes(value('airline')),
+        flightNumber: value('flightNumber'),
+        aircraft: this.stripCodes(value('aircraft'))
+      },
+      activityType: 'FLYING',
+      // Flights logged with only a date have an estimated time
+      confidence: hasDepartureTime ? 1.0 : 0.8
+    };
+  }
+
+  /**
+   * Resolve "FRA", "EDDF" or myFlightradar24's "Frankfurt (FRA/EDDF)" to an airport
+   */
+  private static async findAirport(value: string | undefined): Promise<Airport | undefined> {
+    if (!value) return undefined;
+
+    const codes = value.match(/\(([A-Z0-9]{3})(?:\/([A-Z0-9]{4}))?\)/i);
+    if (codes) {
+      return (await AirportService.findAirport(codes[1])) || (codes[2] ? AirportService.findAirport(codes[2]) : undefined);
+    }
+    return /^[A-Z0-9]{3,4}$/i.test(value) ? AirportService.findAirport(value) : undefined;
+  }
+
+  /**
+   * A local date and time as milliseconds whose UTC fields hold the local time.
+   * Accepts "2024-05-01 13:45", "2024-05-01T13:45:00" or a time ("13:45") on the
+   * given date. Dates without a time are taken as noon.
+   */
+  private static parseWallClock(value: string | undefined, date: string | undefined): number | null {
+    if (!value) return null;
+
+    const full = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+    if (full) {
+      const [, year, month, day, hours = '12', minutes = '0', seconds = '0'] = full;
+      return Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds));
+    }
+
+    const time = value.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+    const day = date?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (time && day) {
+      return Date.UTC(Number(day[1]), Number(day[2]) - 1, Number(day[3]), Number(time[1]), Number(time[2]), Number(time[3] || 0));
+    }
+
+    return null;
+  }
+
+  private static hasTime(value: string | undefined): boolean {
+    return !!value && /\d{1,2}:\d{2}/.test(value);
+  }
+
+  /**
+   * Minutes from "02:15", "02:15:00" or "2h 15m"
+   */
+  private static parseDuration(value: string | undefined): number | undefined {
+    if (!value) return undefined;
+
+    const clock = value.match(/^(\d{1,2}):(\d{2})(?::\d{2})?$/);
+    if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+
+    const hours = value.match(/(\d+)\s*h/i);
+    const minutes = value.match(/(\d+)\s*m/i);
+    return hours || minutes ? Number(hours?.[1] || 0) * 60 + Number(minutes?.[1] || 0) : undefined;
+  }
+
+  // "Lufthansa (LH/DLH)" -> "Lufthansa", "Airbus A320 (A320)" -> "Airbus A320"
+  private static stripCodes(value: string | undefined): string | undefined {
+    return value?.replace(/\s*\([^)]*\)\s*$/, '') || undefined;
+  }
+
+  private static normalizeHeader(header: string): string {
+    return header.toLowerCase().replace(/[^a-z]/g, '');
+  }
+}
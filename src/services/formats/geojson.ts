@@ -0,0 +1,236 @@
+import { calculateTotalDistance } from '../../utils/geometry';
+import { activityFromLabel, estimateActivityFromSpeed } from '../../utils/activity';
+import { parseTimestamp } from '../../utils/time';
+import { isValidLatLng } from '../../utils/validation';
+import { RecordsParser, type LocationFix } from './records';
+import type {
+  FieldMapping,
+  GeoJsonFeature,
+  ImportResult,
+  LatLng,
+  MappableField,
+  PathPoint,
+  ProcessedTrip,
+  UndatedFeature
+} from '../../types/travel';
+
+export interface GeoJsonParseResult extends ImportResult {
+  undated: UndatedFeature[]; // Features without any usable time
+}
+
+interface TimedPoint {
+  location: LatLng;
+  time: Date;
+}
+
+/**
+ * Builds trips from GeoJSON features. Points with a start and end time become
+ * stays, single-timestamp points are treated as raw fixes and go through stay
+ * detection, and LineStrings/MultiLineStrings become journeys.
+ */
+export class GeoJsonParser {
+  static readonly FIELDS: MappableField[] = [
+    { key: 'time', label: 'Time', description: 'When a point was recorded, or when a visit or route started' },
+    { key: 'endTime', label: 'End time', description: 'When a visit or route ended' },
+    { key: 'coordTimes', label: 'Coordinate times', description: 'One time per coordinate of a line' },
+    { key: 'name', label: 'Name' },
+    { key: 'activity', label: 'Activity', description: 'e.g. walking, driving, cycling' }
+  ];
+
+  // Property names used by common trackers, tried in order
+  private static readonly KNOWN_PROPERTIES: Record<string, string[]> = {
+    time: ['timestamp', 'time', 'tst', 'datetime', 'date', 'startDate', 'startTime', 'start_time', 'begin'],
+    endTime: ['endDate', 'endTime', 'end_time', 'end'],
+    coordTimes: ['coordTimes', 'coordinateTimes', 'times'],
+    name: ['name', 'title', 'placeName', 'place'],
+    activity: ['activity', 'activityType', 'activity_type', 'motion', 'mode']
+  };
+
+  /**
+   * Collect features from a FeatureCollection, a single Feature, or an
+   * Overland-style { locations: Feature[] } payload
+   */
+  static getFeatures(data: unknown): GeoJsonFeature[] {
+    if (!data || typeof data !== 'object') return [];
+
+    const record = data as Record<string, unknown>;
+    const features = record.type === 'FeatureCollection' ? record.features
+      : record.type === 'Feature' ? [record]
+      : record.locations;
+
+    return Array.isArray(features)
+      ? features.filter((feature): feature is GeoJsonFeature => feature?.type === 'Feature')
+      : [];
+  }
+
+  static getPropertyNames(features: GeoJsonFeature[]): string[] {
+    const names = new Set<string>();
+    features.forEach(feature => Object.keys(feature.properties || {}).forEach(name => names.add(name)));
+    return Array.from(names);
+  }
+
+  /**
+   * Map fields to the first well-known property name present in the file
+   */
+  static suggestMapping(features: GeoJsonFeature[]): FieldMapping {
+    const names = this.getPropertyNames(features);
+    const mapping: FieldMapping = {};
+
+    Object.entries(this.KNOWN_PROPERTIES).forEach(([key, candidates]) => {
+      mapping[key] = candidates.find(candidate => names.includes(candidate));
+    });
+
+    return mapping;
+  }
+
+  /**
+   * Without a time or per-coordinate times nothing can be placed on the timeline
+   */
+  static needsMapping(mapping: FieldMapping): boolean {
+    return !mapping.time && !mapping.coordTimes;
+  }
+
+  static async parseFeatures(
+    features: GeoJsonFeature[],
+    mapping: FieldMapping,
+    onProgress?: (progress: number) => void
+  ): Promise<GeoJsonParseResult> {
+    const trips: ProcessedTrip[] = [];
+    const undated: UndatedFeature[] = [];
+    const fixes: LocationFix[] = [];
+    const errors: string[] = [];
+
+    features.forEach((feature, index) => {
+      const properties = feature.properties || {};
+      const name = this.stringValue(properties[mapping.name || '']) || `Feature ${index + 1}`;
+      const activityLabel = this.stringValue(properties[mapping.activity || '']);
+      const start = parseTimestamp(properties[mapping.time || '']);
+      const end = parseTimestamp(properties[mapping.endTime || '']);
+      const geometry = feature.geometry;
+
+      if (geometry?.type === 'Point') {
+        const location = this.toLatLng(geometry.coordinates);
+        if (!location) {
+          errors.push(`${name}: missing or invalid coordinates`);
+        } else if (start && end) {
+          trips.push(this.createStayTrip(location, start, end, name, trips.length));
+        } else if (start || end) {
+          fixes.push({
+            location,
+            time: (start || end)!,
+            activityType: activityLabel ? activityFromLabel(activityLabel) : undefined
+          });
+        } else {
+          undated.push({ id: `geojson-${index}`, name, type: 'STAY', locations: [location] });
+        }
+        return;
+      }
+
+      if (geometry?.type === 'LineString' || geometry?.type === 'MultiLineString') {
+        const lines = geometry.type === 'LineString' ? [geometry.coordinates] : geometry.coordinates;
+        const rawTimes = properties[mapping.coordTimes || ''];
+        const lineTimes = geometry.type === 'LineString' ? [rawTimes] : rawTimes;
+
+        (Array.isArray(lines) ? lines : []).forEach((line, lineIndex) => {
+          const path = (Array.isArray(line) ? line : []).map(position => this.toLatLng(position));
+          const times = Array.isArray(lineTimes) && Array.isArray(lineTimes[lineIndex]) ? lineTimes[lineIndex] as unknown[] : [];
+          const timedPoints = this.toTimedPoints(path, times);
+          const validPath = path.filter((location): location is LatLng => !!location);
+
+          if (validPath.length < 2) {
+            errors.push(`${name}: line needs at least two valid coordinates`);
+          } else if (timedPoints.length >= 2) {
+            const timedPath = timedPoints.map(point => ({ ...point.location, time: point.time }));
+            trips.push(this.createJourneyTrip(timedPath, timedPoints[0].time, timedPoints[timedPoints.length - 1].time, name, activityLabel, trips.length));
+          } else if (start) {
+            trips.push(this.createJourneyTrip(validPath, start, end || start, name, activityLabel, trips.length));
+          } else {
+            undated.push({ id: `geojson-${index}-${lineIndex}`, name, type: 'JOURNEY', locations: validPath });
+          }
+        });
+        return;
+      }
+
+      errors.push(`${name}: unsupported geometry type ${geometry?.type || '(none)'}`);
+    });
+
+    onProgress?.(30);
+
+    // Raw fixes (e.g. OwnTracks, Overland) become visits and movements like Records.json
+    if (fixes.length > 0) {
+      const detected = await RecordsParser.detectTrips(fixes, (progress) => {
+        onProgress?.(30 + Math.floor(progress * 0.7));
+      }, 'geojson-fixes');
+      trips.push(...detected);
+    }
+
+    onProgress?.(100);
+
+    return {
+      trips,
+      undated,
+      totalSegments: features.length,
+      processedSegments: features.length,
+      errors
+    };
+  }
+
+  private static createStayTrip(location: LatLng, start: Date, end: Date, name: string, index: number): ProcessedTrip {
+    return {
+      id: `geojson-visit-${index}`,
+      startTime: start,
+      endTime: end,
+      startLocation: location,
+      endLocation: location,
+      placeName: name,
+      activityType: 'STAY',
+      confidence: 0.8
+    };
+  }
+
+  private static createJourneyTrip(
+    path: PathPoint[],
+    start: Date,
+    end: Date,
+    name: string,
+    activityLabel: string | undefined,
+    index: number
+  ): ProcessedTrip {
+    const distanceMeters = calculateTotalDistance(path) * 1000;
+    const hours = (end.getTime() - start.getTime()) / 3600000;
+    const labelActivity = activityLabel ? activityFromLabel(activityLabel) : undefined;
+
+    return {
+      id: `geojson-activity-${index}`,
+      startTime: start,
+      endTime: end,
+      startLocation: path[0],
+      endLocation: path[path.length - 1],
+      placeName: name,
+      distanceMeters,
+      path,
+      activityType: labelActivity || estimateActivityFromSpeed(distanceMeters / 1000, hours),
+      confidence: labelActivity ? 0.9 : 0.7
+    };
+  }
+
+  private static toTimedPoints(path: Array<LatLng | null>, times: unknown[]): TimedPoint[] {
+    return path
+      .map((location, i) => ({ location, time: parseTimestamp(times[i]) }))
+      .filter((point): point is TimedPoint => !!point.location && !!point.time)
+      .sort((a, b) => a.time.getTime() - b.time.getTime());
+  }
+
+  // GeoJSON positions are [lng, lat, alt?]
+  private static toLatLng(position: unknown): LatLng | null {
+    if (!Array.isArray(position)) return null;
+    const location = { latitude: Number(position[1]), longitude: Number(position[0]) };
+    return isValidLatLng(location) ? location : null;
+  }
+
+  // Overland reports motion as an array such as ["driving"]
+  private static stringValue(value: unknown): string | undefined {
+    if (Array.isArray(value)) return value.length > 0 ? String(value[0]) : undefined;
+    return value === null || value === undefined || value === '' ? undefined : String(value);
+  }
+}
@@ -0,0 +1,136 @@
+import { calculateTotalDistance } from '../../utils/geometry';
+import { activityFromLabel, estimateActivityFromSpeed } from '../../utils/activity';
+import { isValidLatLng } from '../../utils/validation';
+import type { ImportResult, LatLng, ProcessedTrip, UndatedFeature } from '../../types/travel';
+
+export interface GpxParseResult extends ImportResult {
+  undated: UndatedFeature[]; // Waypoints without <time>
+}
+
+interface GpxPoint {
+  location: LatLng;
+  time?: Date;
+}
+
+/**
+ * Builds trips from GPX files recorded by GPS devices and fitness apps.
+ * Every track segment (<trkseg>) becomes a movement and every waypoint
+ * (<wpt>) becomes a point-in-time visit. Routes (<rte>) are planned rather
+ * than travelled, so they are not imported.
+ */
+export class GpxParser {
+  static parseDocument(doc: Document): GpxParseResult {
+    const trips: ProcessedTrip[] = [];
+    const undated: UndatedFeature[] = [];
+    const errors: string[] = [];
+    let totalSegments = 0;
+
+    Array.from(this.elements(doc, 'trk')).forEach((track, trackIndex) => {
+      const trackName = this.childText(track, 'name') || `Track ${trackIndex + 1}`;
+      const type = this.childText(track, 'type');
+
+      Array.from(this.elements(track, 'trkseg')).forEach((segment, segmentIndex) => {
+        totalSegments++;
+        const trip = this.createTrackTrip(segment, type, trips.length);
+
+        if (trip) {
+          trips.push(trip);
+        } else {
+          errors.push(`${trackName}, segment ${segmentIndex + 1}: needs at least two timestamped points`);
+        }
+      });
+    });
+
+    Array.from(this.elements(doc, 'wpt')).forEach((waypoint, index) => {
+      totalSegments++;
+      const point = this.toGpxPoint(waypoint);
+      const name = this.childText(waypoint, 'name') || `Waypoint ${index + 1}`;
+
+      if (!point) {
+        errors.push(`${name}: missing or invalid location`);
+      } else if (point.time) {
+        trips.push({
+          id: `gpx-waypoint-${trips.length}`,
+          startTime: point.time,
+          endTime: point.time,
+          startLocation: point.location,
+          endLocation: point.location,
+          placeName: this.childText(waypoint, 'name'),
+          activityType: 'STAY',
+          confidence: 0.8
+        });
+      } else {
+        undated.push({ id: `gpx-waypoint-${index}`, name, type: 'STAY', locations: [point.location] });
+      }
+    });
+
+    const routeCount = this.elements(doc, 'rte').length;
+    if (routeCount > 0) {
+      errors.push(`${routeCount} route(s) skipped: GPX routes are planned, not recorded, so only tracks and waypoints are imported`);
+    }
+
+    return {
+      trips,
+      undated,
+      totalSegments,
+      processedSegments: trips.length + undated.length,
+      errors
+    };
+  }
+
+  private static createTrackTrip(segment: Element, type: string | undefined, index: number): ProcessedTrip | null {
+    const points = Array.from(this.elements(segment, 'trkpt'))
+      .map(element => this.toGpxPoint(element))
+      .filter((point): point is GpxPoint & { time: Date } => !!point?.time);
+
+    if (points.length < 2) return null;
+
+    points.sort((a, b) => a.time.getTime() - b.time.getTime());
+
+    const first = points[0];
+    const last = points[points.length - 1];
+    const path = points.map(point => ({ ...point.location, time: point.time }));
+    const distanceMeters = calculateTotalDistance(path) * 1000;
+    const hours = (last.time.getTime() - first.time.getTime()) / 3600000;
+    const typeActivity = type ? activityFromLabel(type) : undefined;
+
+    return {
+      id: `gpx-track-${index}`,
+      startTime: first.time,
+      endTime: last.time,
+      startLocation: first.location,
+      endLocation: last.location,
+      distanceMeters,
+      path,
+      activityType: typeActivity || estimateActivityFromSpeed(distanceMeters / 1000, hours),
+      // Recorded tracks are precise, guessed activities less so
+      confidence: typeActivity ? 0.9 : 0.7
+    };
+  }
+
+  private static toGpxPoint(element: Element): GpxPoint | null {
+    const location = {
+      latitude: parseFloat(element.getAttribute('lat') || ''),
+      longitude: parseFloat(element.getAttribute('lon') || '')
+    };
+    if (!isValidLatLng(location)) return null;
+
+    const timeText = this.childText(element, 'time');
+    const time = timeText ? new Date(timeText) : undefined;
+
+    return {
+      location,
+      time: time && !isNaN(time.getTime()) ? time : undefined
+    };
+  }
+
+  // GPX 1.0 and 1.1 use different namespaces, so match on local names only
+  private static elements(parent: Document | Element, localName: string): HTMLCollectionOf<Element> {
+    return parent.getElementsByTagNameNS('*', localName);
+  }
+
+  private static childText(parent: Element, localName: string): string | undefined {
+    const child = Array.from(parent.children).find(element => element.localName === localName);
+    return child?.textContent?.trim() || undefined;
+  }
+}
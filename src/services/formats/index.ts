@@ -0,0 +1,16 @@
+export { RecordsParser } from './records';
+export type { LocationFix } from './records';
+export { SemanticHistoryAdapter } from './semanticHistory';
+export { OnDeviceAdapter } from './onDevice';
+export { GpxParser } from './gpx';
+export { KmlParser } from './kml';
+export { applyDateAssignments } from './undated';
+export { GeoJsonParser } from './geojson';
+export { manualTripsToProcessed } from './manual';
+export { CsvTripParser } from './csv';
+export { mergeImportResults } from './merge';
+export { PhotoParser } from './photos';
+export { FlightLogParser } from './flights';
+export { CheckinParser } from './checkins';
+export { CalendarParser } from './calendar';
+export { applyCalendarEvents } from './calendarLabels';
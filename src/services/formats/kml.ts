@@ -0,0 +1,185 @@
+import { calculateTotalDistance } from '../../utils/geometry';
+import { estimateActivityFromSpeed } from '../../utils/activity';
+import { isValidLatLng } from '../../utils/validation';
+import type { ImportResult, LatLng, PathPoint, ProcessedTrip, UndatedFeature } from '../../types/travel';
+
+export interface KmlParseResult extends ImportResult {
+  undated: UndatedFeature[]; // Placemarks without <TimeStamp>/<TimeSpan>
+}
+
+interface KmlTime {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Builds trips from KML documents saved by Google My Maps and Google Earth.
+ * Point placemarks become stays, LineStrings and gx:Tracks become journeys.
+ */
+export class KmlParser {
+  static parseDocument(doc: Document): KmlParseResult {
+    const trips: ProcessedTrip[] = [];
+    const undated: UndatedFeature[] = [];
+    const errors: string[] = [];
+    const placemarks = Array.from(this.elements(doc, 'Placemark'));
+
+    placemarks.forEach((placemark, index) => {
+      const name = this.childText(placemark, 'name') || `Placemark ${index + 1}`;
+      const time = this.parseTime(placemark);
+      let geometryCount = 0;
+
+      // gx:Track carries its own per-point timestamps
+      Array.from(this.elements(placemark, 'Track')).forEach(track => {
+        geometryCount++;
+        const trip = this.createTrackTrip(track, name, trips.length);
+        if (trip) {
+          trips.push(trip);
+        } else {
+          errors.push(`${name}: track needs at least two timestamped points`);
+        }
+      });
+
+      Array.from(this.elements(placemark, 'LineString')).forEach(lineString => {
+        geometryCount++;
+        const path = this.parseCoordinates(this.childText(lineString, 'coordinates'));
+        if (path.length < 2) {
+          errors.push(`${name}: line needs at least two valid coordinates`);
+        } else if (time) {
+          trips.push(this.createJourneyTrip(path, time, name, trips.length));
+        } else {
+          undated.push({ id: `kml-${index}-${geometryCount}`, name, type: 'JOURNEY', locations: path });
+        }
+      });
+
+      const point = this.elements(placemark, 'Point')[0];
+      if (point) {
+        geometryCount++;
+        const location = this.parseCoordinates(this.childText(point, 'coordinates'))[0];
+        if (!location) {
+          errors.push(`${name}: missing or invalid coordinates`);
+        } else if (time) {
+          trips.push(this.createStayTrip(location, time, name, trips.length));
+        } else {
+          undated.push({ id: `kml-${index}-${geometryCount}`, name, type: 'STAY', locations: [location] });
+        }
+      }
+
+      if (geometryCount === 0) {
+        errors.push(`${name}: no point, line or track to import`);
+      }
+    });
+
+    return {
+      trips,
+      undated,
+      totalSegments: placemarks.length,
+      processedSegments: placemarks.length,
+      errors
+    };
+  }
+
+  private static createStayTrip(location: LatLng, time: KmlTime, name: string, index: number): ProcessedTrip {
+    return {
+      id: `kml-visit-${index}`,
+      startTime: time.start,
+      endTime: time.end,
+      startLocation: location,
+      endLocation: location,
+      placeName: name,
+      activityType: 'STAY',
+      confidence: 0.8
+    };
+  }
+
+  private static createJourneyTrip(path: PathPoint[], time: KmlTime, name: string, index: number): ProcessedTrip {
+    const distanceMeters = calculateTotalDistance(path) * 1000;
+    const hours = (time.end.getTime() - time.start.getTime()) / 3600000;
+
+    return {
+      id: `kml-activity-${index}`,
+      startTime: time.start,
+      endTime: time.end,
+      startLocation: path[0],
+      endLocation: path[path.length - 1],
+      placeName: name,
+      distanceMeters,
+      path,
+      activityType: estimateActivityFromSpeed(distanceMeters / 1000, hours),
+      confidence: 0.7
+    };
+  }
+
+  private static createTrackTrip(track: Element, name: string, index: number): ProcessedTrip | null {
+    const whens = Array.from(this.elements(track, 'when')).map(element => new Date(element.textContent?.trim() || ''));
+    const coords = Array.from(this.elements(track, 'coord')).map(element => this.parseTuple(element.textContent || '', /\s+/));
+
+    const points = whens
+      .map((time, i) => ({ time, location: coords[i] }))
+      .filter((point): point is { time: Date; location: LatLng } => !isNaN(point.time.getTime()) && !!point.location)
+      .sort((a, b) => a.time.getTime() - b.time.getTime());
+
+    if (points.length < 2) return null;
+
+    return this.createJourneyTrip(
+      points.map(point => ({ ...point.location, time: point.time })),
+      { start: points[0].time, end: points[points.length - 1].time },
+      name,
+      index
+    );
+  }
+
+  /**
+   * Read <TimeStamp><when> or <TimeSpan><begin>/<end> from a placemark
+   */
+  private static parseTime(placemark: Element): KmlTime | null {
+    const timeStamp = this.child(placemark, 'TimeStamp');
+    if (timeStamp) {
+      const when = this.toDate(this.childText(timeStamp, 'when'));
+      return when ? { start: when, end: when } : null;
+    }
+
+    const timeSpan = this.child(placemark, 'TimeSpan');
+    if (timeSpan) {
+      const begin = this.toDate(this.childText(timeSpan, 'begin'));
+      const end = this.toDate(this.childText(timeSpan, 'end'));
+      if (!begin && !end) return null;
+      return { start: (begin || end)!, end: (end || begin)! };
+    }
+
+    return null;
+  }
+
+  // KML coordinates are "lng,lat[,alt]" tuples separated by whitespace
+  private static parseCoordinates(text: string | undefined): LatLng[] {
+    if (!text) return [];
+
+    return text.trim().split(/\s+/)
+      .map(tuple => this.parseTuple(tuple, ','))
+      .filter((location): location is LatLng => !!location);
+  }
+
+  private static parseTuple(tuple: string, separator: RegExp | string): LatLng | undefined {
+    const [longitude, latitude] = tuple.trim().split(separator).map(parseFloat);
+    const location = { latitude, longitude };
+    return isValidLatLng(location) ? location : undefined;
+  }
+
+  private static toDate(text: string | undefined): Date | null {
+    if (!text) return null;
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  // KML 2.2 and the gx: extensions use different namespaces, so match on local names only
+  private static elements(parent: Document | Element, localName: string): HTMLCollectionOf<Element> {
+    return parent.getElementsByTagNameNS('*', localName);
+  }
+
+  private static child(parent: Element, localName: string): Element | undefined {
+    return Array.from(parent.children).find(element => element.localName === localName);
+  }
+
+  private static childText(parent: Element, localName: string): string | undefined {
+    return this.child(parent, localName)?.textContent?.trim() || undefined;
+  }
+}
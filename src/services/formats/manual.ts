@@ -0,0 +1,20 @@
+import type { ManualTrip, ProcessedTrip } from '../../types/travel';
+
+/**
+ * Convert manually entered (or spreadsheet) trips into processed trips
+ */
+export function manualTripsToProcessed(trips: ManualTrip[], idPrefix: string = 'manual'): ProcessedTrip[] {
+  return trips.map((trip, index) => ({
+    id: `${idPrefix}-${index}`,
+    startTime: new Date(trip.startDate),
+    endTime: trip.endDate ? new Date(trip.endDate) : new Date(trip.startDate),
+    startLocation: trip.coordinates || { latitude: 0, longitude: 0 },
+    endLocation: trip.coordinates || { latitude: 0, longitude: 0 },
+    placeName: trip.city,
+    address: trip.country ? `${trip.city}, ${trip.country}` : trip.city,
+    city: trip.city,
+    country: trip.country,
+    activityType: 'MANUAL_ENTRY',
+    confidence: 1.0
+  }));
+}
@@ -0,0 +1,123 @@
+import { arePointsNearby } from '../../utils/geometry';
+import { ImportDiagnostics } from '../calculations/diagnostics';
+import type { ImportResult, ProcessedTrip } from '../../types/travel';
+
+// Segments from different files are duplicates when they overlap this much in time...
+const MIN_TIME_OVERLAP_RATIO = 0.5;
+// ...and start (and end) this close together
+const STAY_PROXIMITY_KM = 0.2;
+const MOVEMENT_PROXIMITY_KM = 0.5;
+
+export interface MergedImportResult extends ImportResult {
+  duplicatesRemoved: Record<string, number>; // Per source file
+  mergedIntoVisits: Record<string, number>; // Photo stays and check-ins added to a visit, per source file
+}
+
+/**
+ * Combine imports of several files into one chronological timeline, dropping
+ * segments that another file already covers. When two segments match, the
+ * more confident one is kept.
+ */
+export function mergeImportResults(results: ImportResult[]): MergedImportResult {
+  const candidates = results
+    .flatMap(result => result.trips)
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime() || b.confidence - a.confidence);
+
+  const kept: ProcessedTrip[] = [];
+  const keptIndex = new Map<ProcessedTrip, number>(); // Where each kept trip is, to replace it
+  const duplicatesRemoved: Record<string, number> = {};
+  const mergedIntoVisits: Record<string, number> = {};
+  let active: ProcessedTrip[] = []; // Kept trips that may still overlap upcoming ones
+
+  candidates.forEach(trip => {
+    active = active.filter(other => other.endTime.getTime() >= trip.startTime.getTime());
+    const activeIndex = active.findIndex(other => isDuplicate(other, trip));
+    const duplicate = active[activeIndex];
+
+    if (!duplicate) {
+      keptIndex.set(trip, kept.length);
+      kept.push(trip);
+      active.push(trip);
+      return;
+    }
+
+    // Photos and check-ins give way to a recorded visit, which knows how long the stay lasted.
+    // Otherwise keep whichever of the two is more confident
+    const removed = !!trip.mergesIntoVisits !== !!duplicate.mergesIntoVisits
+      ? (trip.mergesIntoVisits ? trip : duplicate)
+      : trip.confidence > duplicate.confidence ? duplicate : trip;
+    let keeper = removed === duplicate ? trip : duplicate;
+
+    if (removed.mergesIntoVisits) {
+      keeper = addVisitDetails(keeper, removed);
+    }
+
+    if (keeper !== duplicate) {
+      const index = keptIndex.get(duplicate)!;
+      keptIndex.delete(duplicate);
+      keptIndex.set(keeper, index);
+      kept[index] = keeper;
+      active[activeIndex] = keeper;
+    }
+
+    const source = removed.source || 'unknown';
+    const counts = removed.mergesIntoVisits ? mergedIntoVisits : duplicatesRemoved;
+    counts[source] = (counts[source] || 0) + 1;
+  });
+
+  return {
+    trips: kept.sort((a, b) => a.startTime.getTime() - b.startTime.getTime()),
+    totalSegments: results.reduce((sum, result) => sum + result.totalSegments, 0),
+    processedSegments: results.reduce((sum, result) => sum + result.processedSegments, 0),
+    errors: results.flatMap(result => result.errors),
+    sources: results.flatMap(result => result.sources || []),
+    segmentCounts: ImportDiagnostics.combineSegmentCounts(results.map(result => result.segmentCounts)),
+    calendarEvents: results.flatMap(result => result.calendarEvents || []),
+    duplicatesRemoved,
+    mergedIntoVisits
+  };
+}
+
+/**
+ * Carry the venue and photos of a check-in or photo stay over to the visit that replaces it
+ */
+function addVisitDetails(visit: ProcessedTrip, details: ProcessedTrip): ProcessedTrip {
+  return {
+    ...visit,
+    // Check-in venue names are more precise than the names Timeline guesses
+    placeName: details.placeName || visit.placeName,
+    placeCategory: details.placeCategory || visit.placeCategory,
+    photos: details.photos ? [...(visit.photos || []), ...details.photos] : visit.photos
+  };
+}
+
+function isDuplicate(a: ProcessedTrip, b: ProcessedTrip): boolean {
+  // Segments of the same file never duplicate each other
+  if (a.source === b.source) return false;
+
+  const aIsStay = a.activityType === 'STAY';
+  if (aIsStay !== (b.activityType === 'STAY')) return false;
+  if (timeOverlapRatio(a, b) < MIN_TIME_OVERLAP_RATIO) return false;
+
+  if (aIsStay) {
+    return arePointsNearby(a.startLocation, b.startLocation, STAY_PROXIMITY_KM);
+  }
+  return arePointsNearby(a.startLocation, b.startLocation, MOVEMENT_PROXIMITY_KM) &&
+    arePointsNearby(a.endLocation, b.endLocation, MOVEMENT_PROXIMITY_KM);
+}
+
+/**
+ * Overlap as a share of the shorter segment. Point-in-time segments fully
+ * overlap any segment they fall within.
+ */
+function timeOverlapRatio(a: ProcessedTrip, b: ProcessedTrip): number {
+  const start = Math.max(a.startTime.getTime(), b.startTime.getTime());
+  const end = Math.min(a.endTime.getTime(), b.endTime.getTime());
+  if (end < start) return 0;
+
+  const shorter = Math.min(
+    a.endTime.getTime() - a.startTime.getTime(),
+    b.endTime.getTime() - b.startTime.getTime()
+  );
+  return shorter === 0 ? 1 : (end - start) / shorter;
+}
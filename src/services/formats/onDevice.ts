@@ -0,0 +1,80 @@
+import { parseLatLngString } from '../../utils/geometry';
+import { isValidLatLng } from '../../utils/validation';
+import { parseUtcOffsetMinutes } from '../../utils/time';
+import type { OnDeviceTimelineEntry, SemanticSegment } from '../../types/travel';
+
+/**
+ * Maps entries of the on-device (iOS/Android) Timeline export onto the
+ * SemanticSegment shape used by the Takeout Timeline export.
+ */
+export class OnDeviceAdapter {
+  static toSemanticSegment(entry: OnDeviceTimelineEntry): SemanticSegment | null {
+    if (!entry.startTime || !entry.endTime) return null;
+    if (!entry.visit && !entry.activity && !entry.timelinePath) return null;
+
+    const segment: SemanticSegment = {
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+      startTimeTimezoneUtcOffsetMinutes: parseUtcOffsetMinutes(entry.startTime),
+      endTimeTimezoneUtcOffsetMinutes: parseUtcOffsetMinutes(entry.endTime)
+    };
+
+    if (entry.visit) {
+      const candidate = entry.visit.topCandidate;
+      const location = candidate?.placeLocation ? parseLatLngString(candidate.placeLocation) : undefined;
+
+      segment.visit = {
+        hierarchyLevel: this.toNumber(entry.visit.hierarchyLevel),
+        probability: this.toNumber(entry.visit.probability),
+        topCandidate: candidate ? {
+          placeId: candidate.placeID || '',
+          location: location && isValidLatLng(location) ? location : undefined,
+          placeConfidence: this.toNumber(candidate.probability)
+        } : undefined
+      };
+    }
+
+    if (entry.activity) {
+      const type = entry.activity.topCandidate?.type;
+
+      segment.activity = {
+        start: entry.activity.start ? { latLng: entry.activity.start } : undefined,
+        end: entry.activity.end ? { latLng: entry.activity.end } : undefined,
+        distanceMeters: this.toNumber(entry.activity.distanceMeters),
+        probability: this.toNumber(entry.activity.probability),
+        topCandidate: type ? {
+          type: this.normalizeActivityType(type),
+          probability: this.toNumber(entry.activity.topCandidate?.probability) || 0
+        } : undefined
+      };
+    }
+
+    if (entry.timelinePath) {
+      const startMs = Date.parse(entry.startTime);
+
+      segment.timelinePath = entry.timelinePath.map(point => ({
+        point: point.point,
+        time: new Date(startMs + (this.toNumber(point.durationMinutesOffsetFromStartTime) || 0) * 60000).toISOString()
+      }));
+    }
+
+    return segment;
+  }
+
+  /**
+   * Convert "in passenger vehicle" style names to the "IN_PASSENGER_VEHICLE" style used elsewhere
+   */
+  private static normalizeActivityType(type: string): string {
+    if (type === 'unknown activity type') return 'UNKNOWN';
+    return type.trim().toUpperCase().replace(/\s+/g, '_');
+  }
+
+  /**
+   * Numeric fields are written as strings, e.g. "distanceMeters": "1234.5"
+   */
+  private static toNumber(value?: string): number | undefined {
+    if (value === undefined) return undefined;
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? undefined : parsed;
+  }
+}
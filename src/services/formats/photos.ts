@@ -0,0 +1,252 @@
+import exifr from 'exifr';
+import { calculateDistance } from '../../utils/geometry';
+import { isValidLatLng } from '../../utils/validation';
+import { parseUtcOffsetMinutes } from '../../utils/time';
+import { throwIfAborted } from '../../utils/abort';
+import { ImportDiagnostics } from '../calculations/diagnostics';
+import type { ImportResult, LatLng, ProcessedTrip, TripPhoto } from '../../types/travel';
+
+// The EXIF tags read from a photo, as revived by exifr
+interface ExifData {
+  latitude?: number;
+  longitude?: number;
+  DateTimeOriginal?: Date;
+  CreateDate?: Date;
+  OffsetTimeOriginal?: string;
+  GPSDateStamp?: string;
+  GPSTimeStamp?: string | number[]; // "HH:MM:SS" once revived
+}
+
+interface PhotoFix {
+  file: File;
+  location: LatLng;
+  time: Date;
+  utcOffsetMinutes?: number;
+}
+
+type PhotoReadResult = PhotoFix | { skipped: 'noLocation' | 'badTimestamp' };
+
+/**
+ * Builds stays from geotagged photos. The GPS position and capture time are
+ * read from each photo's EXIF data, and photos taken close together in place
+ * and time become one point-in-time or short STAY trip.
+ */
+export class PhotoParser {
+  private static readonly CLUSTER_RADIUS_KM = 1;
+  private static readonly MAX_GAP_HOURS = 3; // A longer pause between photos starts a new stay
+  private static readonly MAX_PHOTOS_PER_STAY = 6;
+  private static readonly THUMBNAIL_SIZE = 160;
+
+  static async parseFiles(
+    files: File[],
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<ImportResult> {
+    const fixes: PhotoFix[] = [];
+    const errors: string[] = [];
+    const segmentCounts = ImportDiagnostics.createSegmentCounts();
+
+    for (let i = 0; i < files.length; i++) {
+      throwIfAborted(signal);
+
+      try {
+        const read = await this.readPhoto(files[i]);
+        if ('skipped' in read) {
+          segmentCounts.skipped++;
+          segmentCounts.skipReasons[read.skipped]++;
+          errors.push(`${files[i].name}: ${read.skipped === 'noLocation' ? 'no GPS position' : 'no capture time'}`);
+        } else {
+          fixes.push(read);
+        }
+      } catch {
+        segmentCounts.skipped++;
+        segmentCounts.skipReasons.invalid++;
+        errors.push(`${files[i].name}: unreadable EXIF data`);
+      }
+
+      // Reading metadata is most of the work; thumbnails are only made for the photos kept
+      onProgress?.(Math.floor(((i + 1) / files.length) * 80));
+    }
+
+    const trips: ProcessedTrip[] = [];
+    const clusters = this.clusterFixes(fixes);
+
+    for (let i = 0; i < clusters.length; i++) {
+      throwIfAborted(signal);
+      trips.push(await this.createStay(clusters[i], i));
+      onProgress?.(80 + Math.floor(((i + 1) / clusters.length) * 20));
+    }
+
+    segmentCounts.visit = fixes.length;
+
+    return {
+      trips,
+      totalSegments: files.length,
+      processedSegments: fixes.length,
+      errors,
+      segmentCounts
+    };
+  }
+
+  private static async readPhoto(file: File): Promise<PhotoReadResult> {
+    const exif: ExifData | undefined = await exifr.parse(file, {
+      tiff: true,
+      exif: true,
+      gps: true,
+      xmp: false,
+      icc: false,
+      iptc: false,
+      jfif: false,
+      ihdr: false
+    });
+
+    const location = { latitude: exif?.latitude ?? NaN, longitude: exif?.longitude ?? NaN };
+    // Some cameras write 0,0 when they had no fix
+    if (!isValidLatLng(location) || (location.latitude === 0 && location.longitude === 0)) {
+      return { skipped: 'noLocation' };
+    }
+
+    const taken = exif?.DateTimeOriginal || exif?.CreateDate;
+    if (!(taken instanceof Date) || isNaN(taken.getTime())) return { skipped: 'badTimestamp' };
+
+    return { file, location, ...this.resolveCaptureTime(taken, exif!) };
+  }
+
+  /**
+   * EXIF capture times are wall-clock times without a timezone (exifr revives them
+   * in the viewer's timezone). The offset comes from OffsetTimeOriginal when the
+   * camera wrote it, or from the UTC GPS timestamp otherwise.
+   */
+  private static resolveCaptureTime(taken: Date, exif: ExifData): { time: Date; utcOffsetMinutes?: number } {
+    const wallClock = Date.UTC(
+      taken.getFullYear(),
+      taken.getMonth(),
+      taken.getDate(),
+      taken.getHours(),
+      taken.getMinutes(),
+      taken.getSeconds()
+    );
+
+    let utcOffsetMinutes = exif.OffsetTimeOriginal ? parseUtcOffsetMinutes(exif.OffsetTimeOriginal) : undefined;
+
+    if (utcOffsetMinutes === undefined) {
+      const gpsTime = this.parseGpsTimestamp(exif);
+      if (gpsTime !== null) {
+        // The GPS fix is not taken at the shutter press, so round to the nearest quarter hour
+        const offset = Math.round((wallClock - gpsTime) / 60000 / 15) * 15;
+        if (Math.abs(offset) <= 14 * 60) utcOffsetMinutes = offset;
+      }
+    }
+
+    return utcOffsetMinutes === undefined
+      ? { time: taken }
+      : { time: new Date(wallClock - utcOffsetMinutes * 60000), utcOffsetMinutes };
+  }
+
+  private static parseGpsTimestamp(exif: ExifData): number | null {
+    const date = exif.GPSDateStamp?.match(/^(\d{4}):(\d{2}):(\d{2})$/);
+    const time = typeof exif.GPSTimeStamp === 'string'
+      ? exif.GPSTimeStamp.split(':').map(Number)
+      : exif.GPSTimeStamp;
+    if (!date || !Array.isArray(time) || time.length < 3) return null;
+
+    const timestamp = Date.UTC(Number(date[1]), Number(date[2]) - 1, Number(date[3]), time[0], time[1], Math.floor(time[2]));
+    return isNaN(timestamp) ? null : timestamp;
+  }
+
+  // Group photos taken in one place without a long pause, in chronological order
+  private static clusterFixes(fixes: PhotoFix[]): PhotoFix[][] {
+    const sorted = [...fixes].sort((a, b) => a.time.getTime() - b.time.getTime());
+    const clusters: PhotoFix[][] = [];
+    let current: PhotoFix[] = [];
+
+    sorted.forEach(fix => {
+      const last = current[current.length - 1];
+      const isNearby = last &&
+        (fix.time.getTime() - last.time.getTime()) / 3600000 <= this.MAX_GAP_HOURS &&
+        calculateDistance(this.centroid(current), fix.location) <= this.CLUSTER_RADIUS_KM;
+
+      if (!isNearby && current.length > 0) {
+        clusters.push(current);
+        current = [];
+      }
+      current.push(fix);
+    });
+
+    if (current.length > 0) clusters.push(current);
+    return clusters;
+  }
+
+  private static async createStay(cluster: PhotoFix[], index: number): Promise<ProcessedTrip> {
+    const first = cluster[0];
+    const last = cluster[cluster.length - 1];
+    const location = this.centroid(cluster);
+
+    // Spread the kept photos over the stay rather than taking the first few
+    const count = Math.min(cluster.length, this.MAX_PHOTOS_PER_STAY);
+    const picked = Array.from({ length: count }, (_, i) => cluster[Math.floor(i * cluster.length / count)]);
+    const photos: TripPhoto[] = await Promise.all(picked.map(async fix => ({
+      fileName: fix.file.name,
+      takenAt: fix.time,
+      location: fix.location,
+      thumbnail: await this.createThumbnail(fix.file)
+    })));
+
+    return {
+      id: `photo-stay-${index}`,
+      startTime: first.time,
+      endTime: last.time,
+      startUtcOffsetMinutes: first.utcOffsetMinutes,
+      endUtcOffsetMinutes: last.utcOffsetMinutes,
+      startLocation: location,
+      endLocation: location,
+      photos,
+      activityType: 'STAY',
+      confidence: 0.9, // A photo's GPS position is a direct record of being there
+      mergesIntoVisits: true
+    };
+  }
+
+  private static centroid(fixes: PhotoFix[]): LatLng {
+    return {
+      latitude: fixes.reduce((sum, fix) => sum + fix.location.latitude, 0) / fixes.length,
+      longitude: fixes.reduce((sum, fix) => sum + fix.location.longitude, 0) / fixes.length
+    };
+  }
+
+  /**
+   * Use the thumbnail embedded in the EXIF data, or render one when the browser
+   * can decode the image. Undefined when neither works (e.g. HEIC outside Safari).
+   */
+  private static async createThumbnail(file: File): Promise<string | undefined> {
+    try {
+      const embedded = await exifr.thumbnail(file);
+      if (embedded) return `data:image/jpeg;base64,${this.toBase64(embedded)}`;
+    } catch {
+      // Fall through to rendering
+    }
+
+    if (typeof createImageBitmap === 'undefined' || typeof OffscreenCanvas === 'undefined') return undefined;
+
+    try {
+      const bitmap = await createImageBitmap(file, { resizeWidth: this.THUMBNAIL_SIZE, resizeQuality: 'medium' });
+      const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+      canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+      bitmap.close();
+
+      const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.7 });
+      return `data:image/jpeg;base64,${this.toBase64(new Uint8Array(await blob.arrayBuffer()))}`;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private static toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    // Chunked, since spreading a large array into fromCharCode overflows the stack
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+  }
+}
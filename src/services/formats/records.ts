@@ -0,0 +1,214 @@
+import { calculateDistance, calculateTotalDistance, e7ToLatLng } from '../../utils/geometry';
+import { isValidLatLng } from '../../utils/validation';
+import type { LatLng, LocationRecord, ProcessedTrip, SegmentSkipReason } from '../../types/travel';
+
+export interface LocationFix {
+  location: LatLng;
+  time: Date;
+  activityType?: string;
+  activityConfidence?: number;
+  accuracy?: number; // Meters
+}
+
+interface StayCluster {
+  points: LocationFix[];
+  centroid: LatLng;
+}
+
+/**
+ * Builds visits and movements from raw Location History fixes (Records.json)
+ * by detecting stay points: runs of fixes that remain within a small radius
+ * for long enough. Everything between two stays becomes a movement.
+ */
+export class RecordsParser {
+  private static readonly STAY_RADIUS_KM = 0.2;
+  private static readonly MIN_STAY_DURATION_MINUTES = 15;
+  private static readonly MIN_MOVEMENT_METERS = 100;
+  private static readonly BATCH_SIZE = 5000;
+  // Activity types that say nothing about how the user was moving
+  private static readonly STATIONARY_ACTIVITIES = new Set(['STILL', 'TILTING', 'UNKNOWN']);
+
+  /**
+   * Convert a raw Records.json entry, or say why its location or timestamp is unusable
+   */
+  static toLocationFix(record: LocationRecord): LocationFix | { skipped: SegmentSkipReason } {
+    if (typeof record.latitudeE7 !== 'number' || typeof record.longitudeE7 !== 'number') {
+      return { skipped: 'noLocation' };
+    }
+
+    // Some older exports store negative coordinates as unsigned 32-bit integers
+    const latitudeE7 = record.latitudeE7 > 900000000 ? record.latitudeE7 - 4294967296 : record.latitudeE7;
+    const longitudeE7 = record.longitudeE7 > 1800000000 ? record.longitudeE7 - 4294967296 : record.longitudeE7;
+    const location = e7ToLatLng(latitudeE7, longitudeE7);
+
+    const time = record.timestamp
+      ? new Date(record.timestamp)
+      : record.timestampMs ? new Date(Number(record.timestampMs)) : null;
+
+    if (!isValidLatLng(location)) {
+      return { skipped: 'noLocation' };
+    }
+    if (!time || isNaN(time.getTime())) {
+      return { skipped: 'badTimestamp' };
+    }
+
+    // Use the most confident movement activity reported for this fix
+    const activity = record.activity?.[0]?.activity
+      ?.filter(candidate => !this.STATIONARY_ACTIVITIES.has(candidate.type))
+      .sort((a, b) => b.confidence - a.confidence)[0];
+
+    return {
+      location,
+      time,
+      activityType: activity?.type,
+      activityConfidence: activity ? activity.confidence / 100 : undefined,
+      accuracy: typeof record.accuracy === 'number' ? record.accuracy : undefined
+    };
+  }
+
+  /**
+   * Detect stays and movements in timestamped fixes from any source (points are sorted in place)
+   */
+  static async detectTrips(
+    points: LocationFix[],
+    onProgress?: (progress: number) => void,
+    idPrefix: string = 'records'
+  ): Promise<ProcessedTrip[]> {
+    points.sort((a, b) => a.time.getTime() - b.time.getTime());
+
+    const trips: ProcessedTrip[] = [];
+    let cluster: StayCluster | null = null;
+    let movement: LocationFix[] = [];
+    let previousStay: LocationFix | null = null;
+
+    const closeCluster = (current: StayCluster) => {
+      const first = current.points[0];
+      const last = current.points[current.points.length - 1];
+      const durationMinutes = (last.time.getTime() - first.time.getTime()) / 60000;
+
+      if (durationMinutes < this.MIN_STAY_DURATION_MINUTES) {
+        // Too short to be a stay: the fixes were part of a movement
+        movement.push(...current.points);
+        return;
+      }
+
+      const arrival: LocationFix = { location: current.centroid, time: first.time };
+      const movementTrip = this.createMovementTrip(previousStay, movement, arrival, `${idPrefix}-activity-${trips.length}`);
+      if (movementTrip) trips.push(movementTrip);
+
+      trips.push(this.createStayTrip(current, `${idPrefix}-visit-${trips.length}`));
+
+      previousStay = { location: current.centroid, time: last.time };
+      movement = [];
+    };
+
+    for (let i = 0; i < points.length; i++) {
+      const point = points[i];
+
+      if (cluster && calculateDistance(cluster.centroid, point.location) <= this.STAY_RADIUS_KM) {
+        cluster.points.push(point);
+        cluster.centroid = this.updateCentroid(cluster.centroid, point.location, cluster.points.length);
+      } else {
+        if (cluster) closeCluster(cluster);
+        cluster = { points: [point], centroid: point.location };
+      }
+
+      if ((i + 1) % this.BATCH_SIZE === 0) {
+        onProgress?.(Math.floor(((i + 1) / points.length) * 100));
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+
+    if (cluster) closeCluster(cluster);
+
+    // Trailing movement after the last detected stay
+    const trailingMovement = this.createMovementTrip(previousStay, movement, null, `${idPrefix}-activity-${trips.length}`);
+    if (trailingMovement) trips.push(trailingMovement);
+
+    onProgress?.(100);
+    return trips;
+  }
+
+  private static updateCentroid(centroid: LatLng, location: LatLng, count: number): LatLng {
+    return {
+      latitude: centroid.latitude + (location.latitude - centroid.latitude) / count,
+      longitude: centroid.longitude + (location.longitude - centroid.longitude) / count
+    };
+  }
+
+  private static createStayTrip(cluster: StayCluster, id: string): ProcessedTrip {
+    const first = cluster.points[0];
+    const last = cluster.points[cluster.points.length - 1];
+
+    return {
+      id,
+      startTime: first.time,
+      endTime: last.time,
+      startLocation: cluster.centroid,
+      endLocation: cluster.centroid,
+      activityType: 'STAY',
+      // More fixes within the radius means more certainty about the stay
+      confidence: Math.min(0.9, 0.5 + cluster.points.length * 0.05)
+    };
+  }
+
+  private static createMovementTrip(
+    departure: LocationFix | null,
+    points: LocationFix[],
+    arrival: LocationFix | null,
+    id: string
+  ): ProcessedTrip | null {
+    const path = [
+      ...(departure ? [departure] : []),
+      ...points,
+      ...(arrival ? [arrival] : [])
+    ];
+
+    if (path.length < 2) return null;
+
+    const locations = path.map(point => point.location);
+    const distanceMeters = calculateTotalDistance(locations) * 1000;
+    const route = path.map(point => ({ ...point.location, time: point.time, accuracy: point.accuracy }));
+    if (distanceMeters <= this.MIN_MOVEMENT_METERS) return null;
+
+    const { activityType, confidence } = this.dominantActivity(points);
+    const first = path[0];
+    const last = path[path.length - 1];
+
+    return {
+      id,
+      startTime: first.time,
+      endTime: last.time,
+      startLocation: first.location,
+      endLocation: last.location,
+      distanceMeters,
+      path: route,
+      activityType,
+      confidence
+    };
+  }
+
+  private static dominantActivity(points: LocationFix[]): { activityType: string; confidence: number } {
+    const counts = new Map<string, { count: number; confidence: number }>();
+
+    points.forEach(point => {
+      if (!point.activityType) return;
+      const existing = counts.get(point.activityType);
+      if (existing) {
+        existing.count++;
+        existing.confidence += point.activityConfidence || 0;
+      } else {
+        counts.set(point.activityType, { count: 1, confidence: point.activityConfidence || 0 });
+      }
+    });
+
+    const [activityType, stats] = Array.from(counts.entries())
+      .sort(([, a], [, b]) => b.count - a.count)[0] || [];
+
+    if (!activityType || !stats) {
+      return { activityType: 'UNKNOWN', confidence: 0.5 };
+    }
+
+    return { activityType, confidence: stats.confidence / stats.count };
+  }
+}
@@ -0,0 +1,127 @@
+import { e7ToLatLng } from '../../utils/geometry';
+import type {
+  ActivitySegment,
+  E7Location,
+  LatLng,
+  PlaceCandidate,
+  PlaceVisit,
+  SemanticHistoryDuration,
+  SemanticHistoryPlace,
+  SemanticSegment,
+  TimelineObject,
+  TimelinePoint
+} from '../../types/travel';
+
+/**
+ * Maps monthly Semantic Location History objects (placeVisit / activitySegment)
+ * onto the SemanticSegment shape used by the current Timeline export, so both
+ * go through the same segment processing.
+ */
+export class SemanticHistoryAdapter {
+  static toSemanticSegment(timelineObject: TimelineObject): SemanticSegment | null {
+    if (timelineObject.placeVisit) {
+      return this.fromPlaceVisit(timelineObject.placeVisit);
+    }
+
+    if (timelineObject.activitySegment) {
+      return this.fromActivitySegment(timelineObject.activitySegment);
+    }
+
+    return null;
+  }
+
+  private static fromPlaceVisit(placeVisit: PlaceVisit): SemanticSegment | null {
+    const times = this.parseDuration(placeVisit.duration);
+    if (!times) return null;
+
+    return {
+      ...times,
+      visit: {
+        probability: placeVisit.visitConfidence !== undefined ? placeVisit.visitConfidence / 100 : undefined,
+        topCandidate: this.toPlaceCandidate(placeVisit.location),
+        otherCandidates: placeVisit.otherCandidateLocations?.map(place => this.toPlaceCandidate(place))
+      }
+    };
+  }
+
+  private static fromActivitySegment(segment: ActivitySegment): SemanticSegment | null {
+    const times = this.parseDuration(segment.duration);
+    if (!times) return null;
+
+    const start = this.toLatLng(segment.startLocation);
+    const end = this.toLatLng(segment.endLocation);
+
+    // Probabilities are reported as percentages in this export
+    const candidates = (segment.activities || []).map(activity => ({
+      type: activity.activityType,
+      probability: activity.probability / 100
+    }));
+    const topCandidate = candidates.find(candidate => candidate.type === segment.activityType) ||
+      (segment.activityType ? { type: segment.activityType, probability: 0 } : candidates[0]);
+
+    return {
+      ...times,
+      activity: {
+        start: start ? { latLng: this.formatLatLng(start) } : undefined,
+        end: end ? { latLng: this.formatLatLng(end) } : undefined,
+        distanceMeters: segment.distance ?? segment.waypointPath?.distanceMeters,
+        probability: topCandidate?.probability,
+        topCandidate,
+        candidates
+      },
+      timelinePath: this.toTimelinePath(segment, times.startTime, times.endTime)
+    };
+  }
+
+  private static toPlaceCandidate(place: SemanticHistoryPlace): PlaceCandidate {
+    return {
+      placeId: place.placeId || '',
+      name: place.name,
+      address: place.address,
+      location: this.toLatLng(place),
+      placeConfidence: place.locationConfidence !== undefined ? place.locationConfidence / 100 : undefined
+    };
+  }
+
+  /**
+   * Waypoints carry no timestamps, so spread them evenly across the segment
+   */
+  private static toTimelinePath(segment: ActivitySegment, startTime: string, endTime: string): TimelinePoint[] | undefined {
+    const waypoints = segment.waypointPath?.waypoints;
+    if (!waypoints || waypoints.length === 0) return undefined;
+
+    const startMs = Date.parse(startTime);
+    const stepMs = waypoints.length > 1 ? (Date.parse(endTime) - startMs) / (waypoints.length - 1) : 0;
+
+    return waypoints.map((waypoint, index) => ({
+      point: this.formatLatLng(e7ToLatLng(waypoint.latE7, waypoint.lngE7)),
+      time: new Date(startMs + stepMs * index).toISOString()
+    }));
+  }
+
+  private static parseDuration(duration: SemanticHistoryDuration | undefined): { startTime: string; endTime: string } | null {
+    if (!duration) return null;
+
+    const startTime = this.toIsoString(duration.startTimestamp, duration.startTimestampMs);
+    const endTime = this.toIsoString(duration.endTimestamp, duration.endTimestampMs);
+
+    return startTime && endTime ? { startTime, endTime } : null;
+  }
+
+  private static toIsoString(timestamp?: string, timestampMs?: string): string | null {
+    const date = timestamp ? new Date(timestamp) : timestampMs ? new Date(Number(timestampMs)) : null;
+    return date && !isNaN(date.getTime()) ? date.toISOString() : null;
+  }
+
+  private static toLatLng(location?: E7Location): LatLng | undefined {
+    if (typeof location?.latitudeE7 !== 'number' || typeof location?.longitudeE7 !== 'number') {
+      return undefined;
+    }
+    return e7ToLatLng(location.latitudeE7, location.longitudeE7);
+  }
+
+  // Same "lat°, lng°" notation as the current Timeline export
+  private static formatLatLng(location: LatLng): string {
+    return `${location.latitude}°, ${location.longitude}°`;
+  }
+}
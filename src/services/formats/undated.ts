@@ -0,0 +1,33 @@
+import { calculateTotalDistance } from '../../utils/geometry';
+import type { DateAssignment, ProcessedTrip, UndatedFeature } from '../../types/travel';
+
+/**
+ * Turn undated places and routes into trips using the dates the user assigned.
+ * Features without an assignment are left out.
+ */
+export function applyDateAssignments(
+  features: UndatedFeature[],
+  assignments: DateAssignment[],
+  idPrefix: string
+): ProcessedTrip[] {
+  return assignments.flatMap((assignment, index) => {
+    const feature = features.find(candidate => candidate.id === assignment.featureId);
+    if (!feature || !assignment.startDate) return [];
+
+    const start = feature.locations[0];
+    const end = feature.locations[feature.locations.length - 1];
+
+    return [{
+      id: `${idPrefix}-dated-${index}`,
+      startTime: new Date(assignment.startDate),
+      endTime: new Date(assignment.endDate || assignment.startDate),
+      startLocation: start,
+      endLocation: end,
+      placeName: feature.name,
+      distanceMeters: feature.type === 'JOURNEY' ? calculateTotalDistance(feature.locations) * 1000 : undefined,
+      activityType: feature.type === 'STAY' ? 'STAY' : 'UNKNOWN',
+      // Dates entered by hand are less precise than recorded timestamps
+      confidence: 0.6
+    }];
+  });
+}
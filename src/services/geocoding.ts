@@ -1,6 +1,7 @@
 import type { LatLng } from '../types/travel';
 import { ApiCircuitBreaker, ApiFallbackManager, ErrorCode, AppErrorHandler } from '../utils/errorHandling';
 import { storageService } from './storage';
+import { delay, isAbortError } from '../utils/abort';
 
 export interface GeocodingResult {
   lat: number;
@@ -39,7 +40,7 @@ export class GeocodingService {
   /**
    * Reverse geocode coordinates to get location information
    */
-  static async reverseGeocode(coords: LatLng): Promise<LocationInfo> {
+  static async reverseGeocode(coords: LatLng, signal?: AbortSignal): Promise<LocationInfo> {
     const cacheKey = `geocoding_reverse_${coords.latitude.toFixed(4)},${coords.longitude.toFixed(4)}`;
     
     // Check persistent cache first
@@ -58,7 +59,7 @@ export class GeocodingService {
       'geocoding-reverse',
       async () => {
         return this.circuitBreaker.execute(async () => {
-          await this.enforceRateLimit();
+          await this.enforceRateLimit(signal);
 
           const url = `${this.BASE_URL}/reverse?` + new URLSearchParams({
             format: 'json',
@@ -71,7 +72,8 @@ export class GeocodingService {
           const response = await fetch(url, {
             headers: {
               'User-Agent': 'Travel-Wrapped/1.0 (Educational Project)'
-            }
+            },
+            signal
           });
 
           if (!response.ok) {
@@ -106,7 +108,7 @@ export class GeocodingService {
   /**
    * Forward geocode an address to get coordinates and location info
    */
-  static async forwardGeocode(address: string): Promise<LocationInfo & { coords?: LatLng }> {
+  static async forwardGeocode(address: string, signal?: AbortSignal): Promise<LocationInfo & { coords?: LatLng }> {
     const cacheKey = `geocoding_forward_${address.toLowerCase().trim()}`;
     
     // Check persistent cache first
@@ -122,7 +124,7 @@ export class GeocodingService {
     }
 
     try {
-      await this.enforceRateLimit();
+      await this.enforceRateLimit(signal);
 
       const url = `${this.BASE_URL}/search?` + new URLSearchParams({
         format: 'json',
@@ -134,7 +136,8 @@ export class GeocodingService {
       const response = await fetch(url, {
         headers: {
           'User-Agent': 'Travel-Wrapped/1.0 (Educational Project)'
-        }
+        },
+        signal
       });
 
       if (!response.ok) {
@@ -166,6 +169,10 @@ export class GeocodingService {
       return locationInfo;
 
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+
       console.warn('Forward geocoding failed:', error);
       
       return {
@@ -224,12 +231,10 @@ export class GeocodingService {
     };
   }
 
-  private static async enforceRateLimit(): Promise<void> {
+  private static async enforceRateLimit(signal?: AbortSignal): Promise<void> {
     const timeSinceLastRequest = Date.now() - this.lastRequestTime;
     if (timeSinceLastRequest < this.RATE_LIMIT_MS) {
-      await new Promise(resolve => 
-        setTimeout(resolve, this.RATE_LIMIT_MS - timeSinceLastRequest)
-      );
+      await delay(this.RATE_LIMIT_MS - timeSinceLastRequest, signal);
     }
     this.lastRequestTime = Date.now();
   }
@@ -0,0 +1,38 @@
+import { CalendarParser } from '../formats/calendar';
+import type { TripImporter } from './types';
+
+export const calendarImporter: TripImporter = {
+  id: 'icalendar',
+  name: 'Calendar',
+  description: 'Bookings and events from an .ics calendar, used to label trips',
+  extensions: ['.ics'],
+  maxFileSizeMB: 50,
+  runsInWorker: true,
+
+  sniff: (sample) => /BEGIN:VCALENDAR/i.test(sample),
+
+  validate: async (file) => {
+    const text = await file.text();
+    if (!/BEGIN:VCALENDAR/i.test(text)) {
+      return ['Invalid calendar format: missing BEGIN:VCALENDAR'];
+    }
+    if (!/BEGIN:VEVENT/i.test(text)) {
+      return ['No events found in calendar file'];
+    }
+    return [];
+  },
+
+  // Events are matched to trips once all files are combined, see applyCalendarEvents
+  convert: async (file, { onProgress }) => {
+    const { events, totalEvents, errors } = CalendarParser.parseCalendar(await file.text());
+    onProgress?.(100);
+
+    return {
+      trips: [],
+      totalSegments: totalEvents,
+      processedSegments: events.length,
+      errors,
+      calendarEvents: events
+    };
+  }
+};
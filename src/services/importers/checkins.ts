@@ -0,0 +1,25 @@
+import { CheckinParser } from '../formats/checkins';
+import { parseJsonDocument } from '../../utils/json';
+import type { TripImporter } from './types';
+
+export const checkinImporter: TripImporter = {
+  id: 'foursquare-checkins',
+  name: 'Foursquare/Swarm check-ins',
+  description: 'checkins.json from the Foursquare data export',
+  extensions: ['.json'],
+  maxFileSizeMB: 100,
+  runsInWorker: true,
+
+  sniff: (sample) => /"venue"\s*:/.test(sample) && /"createdAt"\s*:/.test(sample),
+
+  // Checked by convert, which runs in the worker, so large exports are only read and parsed once
+  validate: async () => [],
+
+  convert: async (file, { onProgress }) => {
+    const checkins = CheckinParser.getCheckins(parseJsonDocument(await file.text()));
+    if (checkins.length === 0) {
+      throw new Error('No check-ins found in file');
+    }
+    return CheckinParser.parseCheckins(checkins, onProgress);
+  }
+};
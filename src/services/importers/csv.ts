@@ -0,0 +1,55 @@
+import { CsvTripParser } from '../formats/csv';
+import { parseCsv } from '../../utils/csv';
+import { ProcessingCancelledError } from '../../utils/abort';
+import type { TripImporter } from './types';
+
+export const csvImporter: TripImporter = {
+  id: 'csv',
+  name: 'CSV spreadsheet',
+  description: 'Past trips from a spreadsheet, one row per trip',
+  extensions: ['.csv'],
+  maxFileSizeMB: 10,
+
+  sniff: () => true,
+
+  // Checked by convert, so the file is only read and parsed once
+  validate: async () => [],
+
+  convert: async (file, { onProgress, requestFieldMapping, signal }) => {
+    const { data, meta, errors: parseErrors } = parseCsv(await file.text());
+    if (data.length === 0) {
+      throw new Error('No rows found in CSV file');
+    }
+    if (!meta.fields || meta.fields.length < 2) {
+      throw new Error('CSV file needs a header row with at least a date and a city column');
+    }
+
+    const columns = meta.fields;
+    let mapping = CsvTripParser.suggestMapping(columns);
+
+    if (requestFieldMapping) {
+      const confirmed = await requestFieldMapping({
+        title: 'Match spreadsheet columns',
+        description: 'Check which column holds each value. Date and city are required.',
+        fields: CsvTripParser.FIELDS,
+        sourceFields: columns,
+        suggested: mapping,
+        samples: data.slice(0, 3)
+      });
+
+      if (!confirmed) {
+        throw new ProcessingCancelledError();
+      }
+      mapping = confirmed;
+    }
+
+    const result = await CsvTripParser.parseRows(data, mapping, onProgress, signal);
+
+    // Malformed lines reported by the CSV parser (e.g. unbalanced quotes)
+    result.errors.unshift(...parseErrors.map(error =>
+      error.row !== undefined ? `Row ${error.row + 2}: ${error.message}` : error.message
+    ));
+
+    return result;
+  }
+};
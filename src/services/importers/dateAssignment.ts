@@ -0,0 +1,26 @@
+import { applyDateAssignments } from '../formats/undated';
+import type { ImportResult, UndatedFeature } from '../../types/travel';
+import type { ImportContext } from './types';
+
+/**
+ * Let the user date places and routes that have no timestamps, then add the
+ * dated ones to the import result and note how many were skipped
+ */
+export async function importUndatedFeatures(
+  result: ImportResult,
+  undated: UndatedFeature[],
+  { requestDateAssignment }: ImportContext,
+  idPrefix: string
+): Promise<ImportResult> {
+  if (undated.length === 0) return result;
+
+  const assignments = requestDateAssignment ? await requestDateAssignment(undated) : [];
+  const datedTrips = applyDateAssignments(undated, assignments, idPrefix);
+
+  result.trips.push(...datedTrips);
+  if (datedTrips.length < undated.length) {
+    result.errors.push(`${undated.length - datedTrips.length} undated place(s) skipped`);
+  }
+
+  return result;
+}
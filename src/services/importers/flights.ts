@@ -0,0 +1,37 @@
+import { FlightLogParser } from '../formats/flights';
+import { parseCsv, parseCsvHeader } from '../../utils/csv';
+import type { TripImporter } from './types';
+
+export const flightLogImporter: TripImporter = {
+  id: 'flight-log',
+  name: 'Flight log',
+  description: 'Flights exported from OpenFlights, Flighty or myFlightradar24',
+  extensions: ['.csv'],
+  maxFileSizeMB: 10,
+  runsInWorker: true,
+
+  sniff: (sample) => FlightLogParser.isFlightLog(parseCsvHeader(sample)),
+
+  // Checked by convert, so the file is only read and parsed once
+  validate: async () => [],
+
+  convert: async (file, { onProgress, signal }) => {
+    const { data, meta, errors: parseErrors } = parseCsv(await file.text());
+    const columns = meta.fields || [];
+    if (data.length === 0) {
+      throw new Error('No flights found in CSV file');
+    }
+    if (!FlightLogParser.isFlightLog(columns)) {
+      throw new Error('Flight log needs date, from and to columns');
+    }
+
+    const result = await FlightLogParser.parseRows(data, FlightLogParser.detectColumns(columns), onProgress, signal);
+
+    // Malformed lines reported by the CSV parser (e.g. unbalanced quotes)
+    result.errors.unshift(...parseErrors.map(error =>
+      error.row !== undefined ? `Row ${error.row + 2}: ${error.message}` : error.message
+    ));
+
+    return result;
+  }
+};
@@ -0,0 +1,44 @@
+import { GeoJsonParser } from '../formats/geojson';
+import { importUndatedFeatures } from './dateAssignment';
+import { ProcessingCancelledError } from '../../utils/abort';
+import { parseJsonDocument } from '../../utils/json';
+import type { TripImporter } from './types';
+
+export const geoJsonImporter: TripImporter = {
+  id: 'geojson',
+  name: 'GeoJSON',
+  description: 'Point and line features from OwnTracks, Overland, Arc and other trackers',
+  extensions: ['.geojson', '.json'],
+  maxFileSizeMB: 50,
+
+  sniff: (sample) => /"type"\s*:\s*"Feature(Collection)?"/.test(sample),
+
+  // Checked by convert, so large files are only read and parsed once
+  validate: async () => [],
+
+  convert: async (file, context) => {
+    const features = GeoJsonParser.getFeatures(parseJsonDocument(await file.text()));
+    if (features.length === 0) {
+      throw new Error('No GeoJSON features found in file');
+    }
+    let mapping = GeoJsonParser.suggestMapping(features);
+
+    if (GeoJsonParser.needsMapping(mapping) && context.requestFieldMapping) {
+      const confirmed = await context.requestFieldMapping({
+        title: 'Match GeoJSON properties',
+        fields: GeoJsonParser.FIELDS,
+        sourceFields: GeoJsonParser.getPropertyNames(features),
+        suggested: mapping,
+        samples: features.slice(0, 3).map(feature => feature.properties || {})
+      });
+
+      if (!confirmed) {
+        throw new ProcessingCancelledError();
+      }
+      mapping = confirmed;
+    }
+
+    const { undated, ...result } = await GeoJsonParser.parseFeatures(features, mapping, context.onProgress);
+    return importUndatedFeatures(result, undated, context, 'geojson');
+  }
+};
@@ -0,0 +1,31 @@
+import { TimelineParser } from '../parser';
+import { validateTimelineStream } from '../../utils/validation';
+import type { TripImporter } from './types';
+
+// Top-level keys of the Takeout exports (Timeline.json, Records.json, Semantic Location History)
+const TIMELINE_KEYS = ['semanticSegments', 'locations', 'timelineObjects'];
+
+export const googleTimelineImporter: TripImporter = {
+  id: 'google-timeline',
+  name: 'Google Timeline',
+  description: 'Timeline.json, Records.json, Semantic Location History or on-device Timeline export',
+  extensions: ['.json'],
+  maxFileSizeMB: TimelineParser.MAX_FILE_SIZE_MB,
+  runsInWorker: true,
+
+  sniff: (sample) => {
+    // Overland's GeoJSON payload also uses a "locations" key
+    if (/"type"\s*:\s*"Feature(Collection)?"/.test(sample)) return false;
+    if (TIMELINE_KEYS.some(key => sample.includes(`"${key}"`))) return true;
+    // On-device export: an array of entries with startTime
+    return /^\s*\[/.test(sample) && sample.includes('"startTime"');
+  },
+
+  validate: async (file) => {
+    const validation = await validateTimelineStream(file);
+    if (validation.isValid) return [];
+    return validation.errors.length > 0 ? validation.errors : ['Invalid timeline format'];
+  },
+
+  convert: (file, { onProgress, signal }) => TimelineParser.parseTimelineStream(file, onProgress, signal)
+};
@@ -0,0 +1,39 @@
+import { GpxParser } from '../formats/gpx';
+import { parseXmlDocument } from '../../utils/xml';
+import { importUndatedFeatures } from './dateAssignment';
+import type { TripImporter } from './types';
+
+export const gpxImporter: TripImporter = {
+  id: 'gpx',
+  name: 'GPX',
+  description: 'Tracks and waypoints from GPS devices and fitness apps',
+  extensions: ['.gpx'],
+  maxFileSizeMB: 50,
+
+  sniff: (sample) => /<gpx[\s>]/.test(sample),
+
+  validate: async (file) => {
+    try {
+      const doc = parseXmlDocument(await file.text());
+      if (doc.documentElement.localName !== 'gpx') {
+        return ['Invalid GPX format: missing <gpx> root element'];
+      }
+      if (doc.getElementsByTagNameNS('*', 'trkpt').length === 0 && doc.getElementsByTagNameNS('*', 'wpt').length === 0) {
+        return ['No tracks or waypoints found in GPX file'];
+      }
+      return [];
+    } catch (error) {
+      return [error instanceof Error ? error.message : 'Invalid GPX format'];
+    }
+  },
+
+  convert: async (file, context) => {
+    const { undated, ...result } = GpxParser.parseDocument(parseXmlDocument(await file.text()));
+    context.onProgress?.(50);
+
+    await importUndatedFeatures(result, undated, context, 'gpx');
+
+    context.onProgress?.(100);
+    return result;
+  }
+};
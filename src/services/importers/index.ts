@@ -0,0 +1,27 @@
+import { ImporterRegistry } from './registry';
+import { googleTimelineImporter } from './googleTimeline';
+import { gpxImporter } from './gpx';
+import { kmlImporter } from './kml';
+import { geoJsonImporter } from './geojson';
+import { checkinImporter } from './checkins';
+import { csvImporter } from './csv';
+import { flightLogImporter } from './flights';
+import { takeoutZipImporter } from './takeoutZip';
+import { photoImporter } from './photos';
+import { calendarImporter } from './calendar';
+
+// Built-in importers. The first one registered for an extension is used when no importer recognizes a file
+ImporterRegistry.register(googleTimelineImporter);
+ImporterRegistry.register(gpxImporter);
+ImporterRegistry.register(kmlImporter);
+ImporterRegistry.register(geoJsonImporter);
+ImporterRegistry.register(checkinImporter);
+// Flight logs are CSV files too, so they are recognized before generic spreadsheets
+ImporterRegistry.register(flightLogImporter);
+ImporterRegistry.register(csvImporter);
+ImporterRegistry.register(takeoutZipImporter);
+ImporterRegistry.register(photoImporter);
+ImporterRegistry.register(calendarImporter);
+
+export { ImporterRegistry } from './registry';
+export type { TripImporter, ImportContext } from './types';
@@ -0,0 +1,59 @@
+import { KmlParser } from '../formats/kml';
+import { parseXmlDocument } from '../../utils/xml';
+import { readZipTextEntries } from '../../utils/zip';
+import { importUndatedFeatures } from './dateAssignment';
+import type { TripImporter } from './types';
+
+/**
+ * Read the KML document from a .kml file, or from inside a .kmz archive
+ */
+async function readKmlText(file: File): Promise<string> {
+  if (!file.name.toLowerCase().endsWith('.kmz')) {
+    return file.text();
+  }
+
+  const entries = await readZipTextEntries(file, name => name.toLowerCase().endsWith('.kml'));
+  // The main document is conventionally doc.kml, but any .kml at the root is accepted
+  const name = Object.keys(entries).find(entry => entry.toLowerCase() === 'doc.kml') || Object.keys(entries)[0];
+
+  if (!name) {
+    throw new Error('No KML document found inside KMZ archive');
+  }
+  return entries[name];
+}
+
+export const kmlImporter: TripImporter = {
+  id: 'kml',
+  name: 'KML/KMZ',
+  description: 'Places and routes from Google My Maps and Google Earth',
+  extensions: ['.kml', '.kmz'],
+  maxFileSizeMB: 50,
+
+  // KMZ files are zip archives, so only plain KML can be recognized by content
+  sniff: (sample, file) => file.name.toLowerCase().endsWith('.kmz') || /<kml[\s>]/.test(sample),
+
+  validate: async (file) => {
+    try {
+      const doc = parseXmlDocument(await readKmlText(file));
+      if (doc.documentElement.localName !== 'kml') {
+        return ['Invalid KML format: missing <kml> root element'];
+      }
+      if (doc.getElementsByTagNameNS('*', 'Placemark').length === 0) {
+        return ['No placemarks found in KML file'];
+      }
+      return [];
+    } catch (error) {
+      return [error instanceof Error ? error.message : 'Invalid KML format'];
+    }
+  },
+
+  convert: async (file, context) => {
+    const { undated, ...result } = KmlParser.parseDocument(parseXmlDocument(await readKmlText(file)));
+    context.onProgress?.(50);
+
+    await importUndatedFeatures(result, undated, context, 'kml');
+
+    context.onProgress?.(100);
+    return result;
+  }
+};
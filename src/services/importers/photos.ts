@@ -0,0 +1,20 @@
+import { PhotoParser } from '../formats/photos';
+import type { TripImporter } from './types';
+
+export const photoImporter: TripImporter = {
+  id: 'photos',
+  name: 'Geotagged photos',
+  description: 'GPS positions and capture times from JPEG and HEIC photos',
+  extensions: ['.jpg', '.jpeg', '.heic', '.heif'],
+  maxFileSizeMB: 100,
+  runsInWorker: true,
+
+  // Only the EXIF header is read, and photos without GPS data are reported rather than rejected
+  sniff: () => true,
+
+  validate: async () => [],
+
+  convert: (file, { onProgress, signal }) => PhotoParser.parseFiles([file], onProgress, signal),
+
+  convertBatch: (files, { onProgress, signal }) => PhotoParser.parseFiles(files, onProgress, signal)
+};
@@ -0,0 +1,52 @@
+import type { TripImporter } from './types';
+
+export class ImporterRegistry {
+  private static readonly SNIFF_SAMPLE_BYTES = 64 * 1024;
+  private static importers: TripImporter[] = [];
+
+  /**
+   * Register an importer. Importers are tried in registration order, so more
+   * specific formats should be registered before generic ones.
+   */
+  static register(importer: TripImporter): void {
+    if (this.importers.some(existing => existing.id === importer.id)) {
+      throw new Error(`Importer "${importer.id}" is already registered`);
+    }
+    this.importers.push(importer);
+  }
+
+  static getImporters(): TripImporter[] {
+    return [...this.importers];
+  }
+
+  static getImporter(id: string): TripImporter | undefined {
+    return this.importers.find(importer => importer.id === id);
+  }
+
+  /**
+   * All file extensions supported by the registered importers
+   */
+  static getAcceptedExtensions(): string[] {
+    return Array.from(new Set(this.importers.flatMap(importer => importer.extensions)));
+  }
+
+  /**
+   * Find the importer for a file by extension, then by sniffing its content.
+   * When no importer recognizes the content, the first one registered for the
+   * extension is returned so its validator can explain what is wrong.
+   */
+  static async detectImporter(file: File): Promise<TripImporter | null> {
+    const extension = this.getFileExtension(file.name);
+    const candidates = this.importers.filter(importer => importer.extensions.includes(extension));
+
+    if (candidates.length === 0) return null;
+
+    const sample = await file.slice(0, this.SNIFF_SAMPLE_BYTES).text();
+    return candidates.find(importer => importer.sniff(sample, file)) || candidates[0];
+  }
+
+  private static getFileExtension(fileName: string): string {
+    const index = fileName.lastIndexOf('.');
+    return index >= 0 ? fileName.slice(index).toLowerCase() : '';
+  }
+}
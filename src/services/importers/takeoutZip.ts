@@ -0,0 +1,97 @@
+import { TimelineParser } from '../parser';
+import { googleTimelineImporter } from './googleTimeline';
+import { listZipEntries, openZipEntry, readZipDirectory } from '../../utils/zip';
+import { isAbortError, throwIfAborted } from '../../utils/abort';
+import { ImportDiagnostics } from '../calculations/diagnostics';
+import type { ImportResult, ImportSource, SegmentCounts } from '../../types/travel';
+import type { TripImporter } from './types';
+
+// Location History files in a Takeout archive. Folder names are localized, file names are not
+const RECORDS_FILE = /(^|\/)Records\.json$/i;
+const TIMELINE_FILE = /(^|\/)Timeline\.json$/i;
+const SEMANTIC_MONTH_FILE = /(^|\/)\d{4}\/\d{4}_[A-Z]+\.json$/i;
+
+function isLocationHistoryFile(name: string): boolean {
+  return RECORDS_FILE.test(name) || TIMELINE_FILE.test(name) || SEMANTIC_MONTH_FILE.test(name);
+}
+
+function baseName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+export const takeoutZipImporter: TripImporter = {
+  id: 'takeout-zip',
+  name: 'Google Takeout archive',
+  description: 'A Takeout .zip containing Location History or Timeline files',
+  extensions: ['.zip'],
+  // Entries are streamed one at a time, so archives get the same limit as the files inside them
+  maxFileSizeMB: TimelineParser.MAX_FILE_SIZE_MB,
+  runsInWorker: true,
+
+  sniff: () => true,
+
+  // Only the central directory at the end of the archive is read
+  validate: async (file) => {
+    try {
+      const names = await listZipEntries(file);
+      return names.some(isLocationHistoryFile)
+        ? []
+        : ['No Location History or Timeline files found in this archive'];
+    } catch (error) {
+      return [error instanceof Error ? error.message : 'Invalid zip archive'];
+    }
+  },
+
+  convert: async (file, context) => {
+    // Entries are inflated and parsed one at a time, while they are read
+    const entries = (await readZipDirectory(file))
+      .filter(entry => isLocationHistoryFile(entry.name))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    const names = entries.map(entry => entry.name);
+    const sources: ImportSource[] = [];
+    const segmentCounts: Array<SegmentCounts | undefined> = [];
+    const result: ImportResult = { trips: [], totalSegments: 0, processedSegments: 0, errors: [], sources };
+
+    // Records.json holds the raw fixes the semantic files were derived from, so importing both would count trips twice
+    const hasSemanticData = names.some(name => SEMANTIC_MONTH_FILE.test(name) || TIMELINE_FILE.test(name));
+
+    for (let i = 0; i < names.length; i++) {
+      throwIfAborted(context.signal);
+
+      const name = names[i];
+      const reportProgress = (progress: number) => {
+        context.onProgress?.(Math.floor(((i + progress / 100) / names.length) * 100));
+      };
+
+      if (hasSemanticData && RECORDS_FILE.test(name)) {
+        sources.push({ fileName: name, status: 'skipped', tripCount: 0, note: 'Raw fixes already covered by Semantic Location History or Timeline data' });
+        continue;
+      }
+
+      try {
+        // Every Location History file in an archive is a Google Timeline export
+        const entry = await openZipEntry(file, entries[i]);
+        const imported = await TimelineParser.parseTimelineStream(entry, reportProgress, context.signal);
+
+        // Ids are only unique within one file
+        result.trips.push(...imported.trips.map(trip => ({ ...trip, id: `${i}-${trip.id}` })));
+        result.totalSegments += imported.totalSegments;
+        result.processedSegments += imported.processedSegments;
+        result.errors.push(...imported.errors.map(error => `${baseName(name)}: ${error}`));
+        segmentCounts.push(imported.segmentCounts);
+        sources.push({ fileName: name, format: googleTimelineImporter.name, status: 'imported', tripCount: imported.trips.length });
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        result.errors.push(`${baseName(name)}: ${message}`);
+        sources.push({ fileName: name, format: googleTimelineImporter.name, status: 'failed', tripCount: 0, note: message });
+      }
+
+      reportProgress(100);
+    }
+
+    result.segmentCounts = ImportDiagnostics.combineSegmentCounts(segmentCounts);
+    return result;
+  }
+};
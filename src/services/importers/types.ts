@@ -0,0 +1,47 @@
+import type { DateAssignment, FieldMapping, FieldMappingRequest, ImportResult, UndatedFeature } from '../../types/travel';
+
+export interface ImportContext {
+  onProgress?: (progress: number) => void;
+  /**
+   * Ask the user to date places or routes that have no timestamps. Resolves with
+   * the assignments made; features left out are skipped.
+   */
+  requestDateAssignment?: (features: UndatedFeature[]) => Promise<DateAssignment[]>;
+  /**
+   * Ask the user which properties or columns hold the fields the importer needs.
+   * Resolves with null if the user cancels the import.
+   */
+  requestFieldMapping?: (request: FieldMappingRequest) => Promise<FieldMapping | null>;
+  /** Aborted when the user cancels the import */
+  signal?: AbortSignal;
+}
+
+/**
+ * A source format that can be turned into processed trips
+ */
+export interface TripImporter {
+  id: string;
+  name: string; // Shown to the user once a file has been matched
+  description: string;
+  extensions: string[]; // Lowercase, including the dot (e.g. ".json")
+  maxFileSizeMB?: number;
+  /**
+   * Whether convert can run in the processing worker: no DOM APIs and no
+   * interactive steps (field mapping, date assignment)
+   */
+  runsInWorker?: boolean;
+  /**
+   * Decide from the first bytes of the file whether this importer understands it
+   */
+  sniff: (sample: string, file: File) => boolean;
+  /**
+   * Return user-facing validation errors, or an empty array if the file can be imported
+   */
+  validate: (file: File) => Promise<string[]>;
+  convert: (file: File, context: ImportContext) => Promise<ImportResult>;
+  /**
+   * Convert all selected files of this format as one import, for formats where
+   * each file is a small part of the whole (e.g. a folder of photos)
+   */
+  convertBatch?: (files: File[], context: ImportContext) => Promise<ImportResult>;
+}
@@ -1,31 +1,84 @@
 import { parseISO } from 'date-fns';
-import { TravelCalculations } from './calculations';
-import { calculateDistance } from '../utils/geometry';
+import { TravelCalculations, TrackCleaner, ImportDiagnostics, HomeWorkInference, TripSegmentation } from './calculations';
+import { calculateDistance, calculateTotalDistance, parseLatLngString } from '../utils/geometry';
+import { isValidLatLng } from '../utils/validation';
+import { streamJsonArrays, type ByteSource } from '../utils/jsonStream';
+import { detectTimelineFormat } from '../utils/timelineFormat';
+import { getLocalStartTime } from '../utils/time';
+import { RecordsParser, SemanticHistoryAdapter, OnDeviceAdapter } from './formats';
+import type { LocationFix } from './formats';
 import type { 
-  GoogleTimelineData, 
+  LocationRecord,
+  OnDeviceTimelineEntry,
+  TimelineFormat,
+  TimelineObject, 
   SemanticSegment, 
   ProcessedTrip, 
   LatLng, 
+  PathPoint,
+  SegmentCounts,
+  SegmentSkipReason,
   ProcessingResult,
+  ImportResult,
   EnhancedProcessingResult,
+  EnhancedTrip,
+  HomeWorkLocations,
   TravelStats 
 } from '../types/travel';
 
-export class TimelineParser {
-  private static parseLatLngString(latLngStr: string): LatLng {
-    // Parse format like "-0.065945°, 34.7739183°"
-    const [latStr, lngStr] = latLngStr.replace(/°/g, '').split(', ');
-    return {
-      latitude: parseFloat(latStr),
-      longitude: parseFloat(lngStr)
-    };
-  }
+// Top-level array holding the entries of each export format
+const TIMELINE_ARRAY_KEYS: Record<Exclude<TimelineFormat, 'onDevice' | 'unknown'>, string> = {
+  semanticSegments: 'semanticSegments',
+  records: 'locations',
+  semanticHistory: 'timelineObjects'
+};
+
+const TIMELINE_FORMAT_BY_KEY: Record<string, TimelineFormat> = Object.fromEntries(
+  Object.entries(TIMELINE_ARRAY_KEYS).map(([format, key]) => [key, format as TimelineFormat])
+);
+
+// Trips and fixes collected while the entries of an export are read
+interface TimelineAccumulator {
+  format: TimelineFormat;
+  trips: ProcessedTrip[];
+  errors: string[];
+  fixes: LocationFix[];
+  totalSegments: number;
+  processedSegments: number;
+  segmentCounts: SegmentCounts;
+}
+
+function createAccumulator(format: TimelineFormat): TimelineAccumulator {
+  return {
+    format,
+    trips: [],
+    errors: [],
+    fixes: [],
+    totalSegments: 0,
+    processedSegments: 0,
+    segmentCounts: ImportDiagnostics.createSegmentCounts()
+  };
+}
+
+// What one segment of a timeline export became
+type SegmentOutcome =
+  | { kind: 'visit' | 'activity' | 'path'; trip: ProcessedTrip }
+  | { kind: 'skipped'; reason: SegmentSkipReason };
 
+export class TimelineParser {
+  /** Files are streamed, so the limit is set by the trips kept in memory rather than the file itself */
+  static readonly MAX_FILE_SIZE_MB = 1024;
 
-  private static processSegment(segment: SemanticSegment, index: number): ProcessedTrip | null {
+  private static processSegment(segment: SemanticSegment, index: number): SegmentOutcome {
     try {
       const startTime = parseISO(segment.startTime);
       const endTime = parseISO(segment.endTime);
+      if (isNaN(startTime.getTime()) || isNaN(endTime.getTime()) || endTime < startTime) {
+        return { kind: 'skipped', reason: 'badTimestamp' };
+      }
+      // Kept so calendar statistics follow the traveller's clock rather than the viewer's
+      const startUtcOffsetMinutes = segment.startTimeTimezoneUtcOffsetMinutes;
+      const endUtcOffsetMinutes = segment.endTimeTimezoneUtcOffsetMinutes;
 
       // Handle visit segments (places)
       if (segment.visit && segment.visit.topCandidate) {
@@ -35,77 +88,215 @@ export class TimelineParser {
         if (candidate.location) {
           location = candidate.location;
         } else if (segment.timelinePath && segment.timelinePath.length > 0) {
-          location = this.parseLatLngString(segment.timelinePath[0].point);
+          location = parseLatLngString(segment.timelinePath[0].point);
         } else {
-          return null;
+          return { kind: 'skipped', reason: 'noLocation' };
         }
 
-        return {
+        return { kind: 'visit', trip: {
           id: `visit-${index}`,
           startTime,
           endTime,
+          startUtcOffsetMinutes,
+          endUtcOffsetMinutes,
           startLocation: location,
           endLocation: location,
+          placeId: candidate.placeId || undefined,
           placeName: candidate.name,
           address: candidate.address,
           confidence: segment.visit.probability || candidate.placeConfidence || 0,
           activityType: 'STAY'
-        };
+        } };
       }
 
+      const path = this.toPath(segment);
+
       // Handle activity segments (movement)
       if (segment.activity && segment.activity.start && segment.activity.end) {
-        const startLocation = this.parseLatLngString(segment.activity.start.latLng);
-        const endLocation = this.parseLatLngString(segment.activity.end.latLng);
+        const startLocation = parseLatLngString(segment.activity.start.latLng);
+        const endLocation = parseLatLngString(segment.activity.end.latLng);
         
         const distance = segment.activity.distanceMeters || 
-                        (calculateDistance(startLocation, endLocation) * 1000); // Convert km to meters
+                        (calculateTotalDistance(path || [startLocation, endLocation]) * 1000); // Convert km to meters
 
-        return {
+        return { kind: 'activity', trip: {
           id: `activity-${index}`,
           startTime,
           endTime,
+          startUtcOffsetMinutes,
+          endUtcOffsetMinutes,
           startLocation,
           endLocation,
           distanceMeters: distance,
+          path,
           activityType: segment.activity.topCandidate?.type || 'UNKNOWN',
           confidence: segment.activity.probability || segment.activity.topCandidate?.probability || 0
-        };
+        } };
       }
 
       // Handle segments with timeline path but no specific activity/visit info
-      if (segment.timelinePath && segment.timelinePath.length >= 2) {
-        const startPoint = this.parseLatLngString(segment.timelinePath[0].point);
-        const endPoint = this.parseLatLngString(segment.timelinePath[segment.timelinePath.length - 1].point);
+      if (path) {
+        const startPoint = path[0];
+        const endPoint = path[path.length - 1];
         
-        const distance = calculateDistance(startPoint, endPoint) * 1000; // Convert km to meters
+        // Measured along every point, so a loop that ends where it started still counts
+        const distance = calculateTotalDistance(path) * 1000; // Convert km to meters
 
         // Only include if there's meaningful movement (>100m)
-        if (distance > 100) {
-          return {
-            id: `path-${index}`,
-            startTime,
-            endTime,
-            startLocation: startPoint,
-            endLocation: endPoint,
-            distanceMeters: distance,
-            activityType: 'MOVEMENT',
-            confidence: 0.5
-          };
+        if (distance <= 100) {
+          return { kind: 'skipped', reason: 'tooShort' };
         }
+
+        return { kind: 'path', trip: {
+          id: `path-${index}`,
+          startTime,
+          endTime,
+          startUtcOffsetMinutes,
+          endUtcOffsetMinutes,
+          startLocation: startPoint,
+          endLocation: endPoint,
+          distanceMeters: distance,
+          path,
+          activityType: 'MOVEMENT',
+          confidence: 0.5
+        } };
       }
 
-      return null;
+      // Nothing with a location, e.g. an activity without start and end
+      return { kind: 'skipped', reason: 'noLocation' };
     } catch (error) {
       console.warn(`Error processing segment ${index}:`, error);
-      return null;
+      return { kind: 'skipped', reason: 'invalid' };
+    }
+  }
+
+  private static toPath(segment: SemanticSegment): PathPoint[] | undefined {
+    const path = (segment.timelinePath || [])
+      .map(point => {
+        const time = point.time ? new Date(point.time) : undefined;
+        return { ...parseLatLngString(point.point), time: time && !isNaN(time.getTime()) ? time : undefined };
+      })
+      .filter(isValidLatLng);
+
+    return path.length >= 2 ? path : undefined;
+  }
+
+  /**
+   * Convert one entry of a timeline export and add it to the accumulator.
+   * Raw fixes are only collected here; stays and movements are detected once all are read.
+   */
+  private static addTimelineItem(accumulator: TimelineAccumulator, item: unknown, index: number): void {
+    accumulator.totalSegments++;
+
+    switch (accumulator.format) {
+      case 'records': {
+        // Bad records are only counted: a large Records.json can have millions of them
+        const fix = RecordsParser.toLocationFix(item as LocationRecord);
+        if ('skipped' in fix) {
+          this.countSkipped(accumulator, fix.skipped);
+        } else {
+          accumulator.fixes.push(fix);
+        }
+        return;
+      }
+      case 'semanticHistory': {
+        const segment = SemanticHistoryAdapter.toSemanticSegment(item as TimelineObject);
+        if (segment) {
+          this.addSegment(accumulator, segment, index);
+        } else {
+          this.countSkipped(accumulator, 'invalid');
+          accumulator.errors.push(`Timeline object ${index}: missing placeVisit/activitySegment or duration`);
+        }
+        return;
+      }
+      case 'onDevice': {
+        const entry = item as OnDeviceTimelineEntry;
+        // Memories are trip summaries without location data of their own
+        if (entry.timelineMemory && !entry.visit && !entry.activity && !entry.timelinePath) {
+          this.countSkipped(accumulator, 'noLocation');
+          return;
+        }
+
+        const segment = OnDeviceAdapter.toSemanticSegment(entry);
+        if (segment) {
+          this.addSegment(accumulator, segment, index);
+        } else {
+          this.countSkipped(accumulator, 'invalid');
+          accumulator.errors.push(`Entry ${index}: missing times or visit/activity/timelinePath data`);
+        }
+        return;
+      }
+      default:
+        this.addSegment(accumulator, item as SemanticSegment, index);
+    }
+  }
+
+  private static addSegment(accumulator: TimelineAccumulator, segment: SemanticSegment, index: number): void {
+    try {
+      const outcome = this.processSegment(segment, index);
+      if (outcome.kind === 'skipped') {
+        this.countSkipped(accumulator, outcome.reason);
+      } else {
+        accumulator.segmentCounts[outcome.kind]++;
+        accumulator.trips.push(outcome.trip);
+      }
+    } catch (error) {
+      accumulator.errors.push(`Segment ${index}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    accumulator.processedSegments++;
+  }
+
+  private static countSkipped(accumulator: TimelineAccumulator, reason: SegmentSkipReason): void {
+    accumulator.segmentCounts.skipped++;
+    accumulator.segmentCounts.skipReasons[reason]++;
+  }
+
+  /**
+   * Share of the progress bar used while reading entries. Raw fixes still need stay-point detection afterwards.
+   */
+  private static readingProgressShare(format: TimelineFormat): number {
+    return format === 'records' ? 50 : 100;
+  }
+
+  private static async finishTimeline(
+    accumulator: TimelineAccumulator,
+    onProgress?: (progress: number) => void
+  ): Promise<ImportResult> {
+    const { format, trips, errors, fixes, totalSegments, segmentCounts } = accumulator;
+
+    if (format === 'records') {
+      const detected = await RecordsParser.detectTrips(fixes, (progress) => {
+        onProgress?.(50 + Math.floor(progress * 0.5));
+      });
+      detected.forEach(trip => segmentCounts[trip.activityType === 'STAY' ? 'visit' : 'activity']++);
+      trips.push(...detected);
+
+      const { noLocation, badTimestamp } = segmentCounts.skipReasons;
+      if (noLocation > 0) errors.push(`${noLocation} record(s) without a valid location skipped`);
+      if (badTimestamp > 0) errors.push(`${badTimestamp} record(s) without a valid timestamp skipped`);
+
+      onProgress?.(100);
+      return { trips, totalSegments, processedSegments: totalSegments, errors, segmentCounts };
     }
+
+    return {
+      trips,
+      totalSegments,
+      processedSegments: accumulator.processedSegments,
+      errors,
+      segmentCounts: accumulator.segmentCounts
+    };
   }
 
-  private static calculateStats(trips: ProcessedTrip[]): TravelStats {
+  /**
+   * Basic statistics. Home and work, when known, are left out of the most
+   * visited location and their journeys count as commutes.
+   */
+  static calculateStats(trips: ProcessedTrip[], homeWork?: HomeWorkLocations): TravelStats {
     if (trips.length === 0) {
       return {
         totalDistanceKm: 0,
+        straightLineDistanceKm: 0,
         uniqueCities: 0,
         uniqueCountries: 0,
         longestTripKm: 0,
@@ -117,9 +308,9 @@ export class TimelineParser {
     }
 
     // Calculate total distance (only from movement activities)
-    const totalDistance = trips
-      .filter(trip => trip.distanceMeters && trip.activityType !== 'STAY')
-      .reduce((sum, trip) => sum + (trip.distanceMeters || 0), 0);
+    const movements = trips.filter(trip => trip.distanceMeters && trip.activityType !== 'STAY');
+    const totalDistance = movements.reduce((sum, trip) => sum + (trip.distanceMeters || 0), 0);
+    const straightLineDistance = movements.reduce((sum, trip) => sum + calculateDistance(trip.startLocation, trip.endLocation), 0);
 
     // Find longest single trip
     const longestTrip = trips
@@ -136,7 +327,9 @@ export class TimelineParser {
 
     // Find most visited location
     const locationCounts = trips
-      .filter(trip => trip.placeName)
+      .filter(trip => trip.placeName &&
+        !HomeWorkInference.isAt(trip.startLocation, homeWork?.home) &&
+        !HomeWorkInference.isAt(trip.startLocation, homeWork?.work))
       .reduce((counts, trip) => {
         const name = trip.placeName!;
         counts[name] = (counts[name] || 0) + 1;
@@ -146,163 +339,124 @@ export class TimelineParser {
     const mostVisitedLocation = Object.entries(locationCounts)
       .sort(([, a], [, b]) => b - a)[0]?.[0] || 'Unknown';
 
+    const commuteDistance = movements
+      .filter(trip => (HomeWorkInference.isAt(trip.startLocation, homeWork?.home) && HomeWorkInference.isAt(trip.endLocation, homeWork?.work)) ||
+        (HomeWorkInference.isAt(trip.startLocation, homeWork?.work) && HomeWorkInference.isAt(trip.endLocation, homeWork?.home)))
+      .reduce((sum, trip) => sum + (trip.distanceMeters || 0) / 1000, 0);
+
     // Get date range
-    const dates = trips.map(trip => trip.startTime).sort((a, b) => a.getTime() - b.getTime());
+    const dates = trips.map(trip => getLocalStartTime(trip)).sort((a, b) => a.getTime() - b.getTime());
 
     return {
       totalDistanceKm: Math.round(totalDistance / 1000 * 100) / 100,
+      straightLineDistanceKm: Math.round(straightLineDistance * 100) / 100,
       uniqueCities: places.length,
       uniqueCountries: 1, // Geocoding to determine actual countries
       longestTripKm: Math.round((longestTrip?.distanceMeters || 0) / 1000 * 100) / 100,
       mostVisitedLocation,
       totalTrips: trips.length,
       firstTripDate: dates[0],
-      lastTripDate: dates[dates.length - 1]
+      lastTripDate: dates[dates.length - 1],
+      ...HomeWorkInference.describe(homeWork, commuteDistance),
+      ...TripSegmentation.calculateStats(trips, homeWork)
     };
   }
 
-  static async parseTimelineFile(
-    file: File, 
-    onProgress?: (progress: number) => void
-  ): Promise<ProcessingResult> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      
-      reader.onload = async (event) => {
-        try {
-          if (!event.target?.result) {
-            throw new Error('Failed to read file');
-          }
-
-          const content = event.target.result as string;
-          const data: GoogleTimelineData = JSON.parse(content);
-          
-          if (!data.semanticSegments || !Array.isArray(data.semanticSegments)) {
-            throw new Error('Invalid timeline format: missing semanticSegments array');
-          }
+  /**
+   * Parse a Google Timeline file while reading it, one entry at a time. Progress
+   * follows the bytes read, and the document is never held in memory as a whole.
+   */
+  static async parseTimelineStream(
+    file: ByteSource,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<ImportResult> {
+    let accumulator: TimelineAccumulator | null = null;
+    let arrayKey: string | null = null;
 
-          const segments = data.semanticSegments;
-          const trips: ProcessedTrip[] = [];
-          const errors: string[] = [];
-          
-          const totalSegments = segments.length;
-          let processedSegments = 0;
-
-          // Process segments in batches to avoid blocking UI
-          const batchSize = 100;
-          for (let i = 0; i < segments.length; i += batchSize) {
-            const batch = segments.slice(i, i + batchSize);
-            
-            for (let j = 0; j < batch.length; j++) {
-              const segmentIndex = i + j;
-              try {
-                const trip = this.processSegment(batch[j], segmentIndex);
-                if (trip) {
-                  trips.push(trip);
-                }
-              } catch (error) {
-                errors.push(`Segment ${segmentIndex}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-              }
-              
-              processedSegments++;
-              const progress = Math.floor((processedSegments / totalSegments) * 100);
-              onProgress?.(progress);
-            }
-            
-            // Allow UI to update between batches
-            await new Promise(resolve => setTimeout(resolve, 0));
+    try {
+      await streamJsonArrays(file, {
+        keys: Object.values(TIMELINE_ARRAY_KEYS),
+        onArrayStart: (key) => {
+          // Exports only have one timeline array; ignore any other that matches
+          if (accumulator) return;
+          const format = key === null ? 'onDevice' : TIMELINE_FORMAT_BY_KEY[key];
+          accumulator = createAccumulator(format);
+          arrayKey = key;
+        },
+        onItem: (item, key, index) => {
+          if (!accumulator || key !== arrayKey) return;
+
+          // A root array is only a timeline when its entries look like on-device entries
+          if (index === 0 && accumulator.format === 'onDevice' && detectTimelineFormat([item]) !== 'onDevice') {
+            throw new Error('Invalid timeline format: unrecognized Google Timeline export');
           }
 
-          const stats = this.calculateStats(trips);
-
-          resolve({
-            trips,
-            stats,
-            totalSegments,
-            processedSegments,
-            errors
-          });
-
-        } catch (error) {
-          reject(error instanceof Error ? error : new Error('Unknown parsing error'));
-        }
-      };
+          this.addTimelineItem(accumulator, item, index);
+        },
+        onBytesRead: (bytesRead, totalBytes) => {
+          const share = accumulator ? this.readingProgressShare(accumulator.format) : 100;
+          onProgress?.(Math.floor((bytesRead / Math.max(totalBytes, 1)) * share));
+        },
+        signal
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Invalid JSON')) {
+        throw new Error(error.message.replace(/^Invalid JSON/, 'Invalid JSON format'));
+      }
+      throw error;
+    }
 
-      reader.onerror = () => {
-        reject(new Error('Failed to read file'));
-      };
+    if (!accumulator) {
+      throw new Error('Invalid timeline format: unrecognized Google Timeline export');
+    }
 
-      reader.readAsText(file);
-    });
+    return this.finishTimeline(accumulator, onProgress);
   }
 
   /**
-   * Enhanced timeline parsing with API enrichment
+   * Remove GPS noise from imported trips, infer home and work, calculate basic
+   * statistics and build the import report
    */
-  static async parseTimelineFileEnhanced(
-    file: File,
-    onProgress?: (progress: number, stage: string) => void
-  ): Promise<EnhancedProcessingResult> {
-    try {
-        onProgress?.(0, 'Reading file...');
-      
-      // First, parse with basic processing
-      const basicResult = await this.parseTimelineFile(file, (progress) => {
-        onProgress?.(progress * 0.4, 'Processing timeline data...');
-      });
-
-      onProgress?.(40, 'Enhancing trips with API data...');
-
-      // Then enhance with API data
-      const enhancedTrips = await TravelCalculations.enhanceTripsWithAPIs(
-        basicResult.trips,
-        (apiProgress) => {
-          onProgress?.(40 + (apiProgress * 0.5), 'Enriching with location and weather data...');
-        }
-      );
-
-      onProgress?.(90, 'Calculating enhanced statistics...');
-
-      // Calculate enhanced statistics
-      const enhancedStats = TravelCalculations.calculateEnhancedStats(enhancedTrips);
+  static buildProcessingResult(imported: ImportResult): ProcessingResult {
+    const { segmentCounts, ...result } = imported;
+    const { trips, report: cleaning } = TrackCleaner.cleanTrips(imported.trips);
+    const homeWork = HomeWorkInference.inferHomeWork(trips);
 
-      onProgress?.(100, 'Complete!');
-
-      return {
-        enhancedTrips,
-        enhancedStats,
-        basicTrips: basicResult.trips,
-        basicStats: basicResult.stats,
-        totalSegments: basicResult.totalSegments,
-        processedSegments: basicResult.processedSegments,
-        apiEnrichmentProgress: 100,
-        errors: basicResult.errors
-      };
-
-    } catch (error) {
-      throw error instanceof Error ? error : new Error('Enhanced parsing failed');
-    }
+    return {
+      ...result,
+      trips,
+      homeWork,
+      stats: this.calculateStats(trips, homeWork),
+      importReport: ImportDiagnostics.buildReport(trips, cleaning, segmentCounts)
+    };
   }
 
-  static validateTimelineFile(file: File): string[] {
-    const errors: string[] = [];
-
-    // Check file type
-    if (!file.name.toLowerCase().endsWith('.json')) {
-      errors.push('File must be a JSON file');
-    }
-
-    // Check file size (max 50MB)
-    const maxSize = 50 * 1024 * 1024;
-    if (file.size > maxSize) {
-      errors.push('File size exceeds 50MB limit');
-    }
-
-    // Check minimum file size
-    if (file.size < 100) {
-      errors.push('File appears to be empty or too small');
-    }
+  /**
+   * Combine enriched trips with the basic result and calculate enhanced statistics.
+   * Enrichment progress is below 100 when only part of the trips were enriched.
+   */
+  static buildEnhancedResult(
+    basicResult: ProcessingResult,
+    enhancedTrips: EnhancedTrip[],
+    apiEnrichmentProgress: number
+  ): EnhancedProcessingResult {
+    const isPartial = apiEnrichmentProgress < 100;
 
-    return errors;
+    return {
+      enhancedTrips,
+      enhancedStats: TravelCalculations.calculateEnhancedStats(enhancedTrips, basicResult.homeWork),
+      basicTrips: basicResult.trips,
+      basicStats: basicResult.stats,
+      totalSegments: basicResult.totalSegments,
+      processedSegments: basicResult.processedSegments,
+      apiEnrichmentProgress,
+      errors: isPartial
+        ? [...basicResult.errors, `Enrichment was cancelled at ${apiEnrichmentProgress}%; statistics cover the trips enriched until then`]
+        : basicResult.errors,
+      sources: basicResult.sources,
+      importReport: basicResult.importReport,
+      homeWork: basicResult.homeWork
+    };
   }
-}
\ No newline at end of file
+}
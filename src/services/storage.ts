@@ -1,10 +1,13 @@
-import Dexie, { type EntityTable } from 'dexie';
+import Dexie, { add, type EntityTable, type Table } from 'dexie';
 import type { 
   ProcessedTrip, 
   EnhancedTrip, 
   TravelStats, 
   EnhancedTravelStats,
-  ManualTrip
+  ManualTrip,
+  ImportSource,
+  ImportReport,
+  HomeWorkLocations
 } from '../types/travel';
 
 interface StoredTravelData {
@@ -22,6 +25,28 @@ interface StoredTravelData {
   totalSegments: number;
   processedSegments: number;
   apiEnrichmentProgress?: number;
+  sources?: ImportSource[];
+  importReport?: ImportReport;
+  homeWork?: HomeWorkLocations; // Inferred, or as confirmed by the user
+}
+
+// Enrichment of a saved upload that can continue after a page reload
+interface StoredEnrichmentJob {
+  id: string;
+  travelDataId: string;
+  fileName?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  totalTrips: number;
+  enrichedTrips: number;
+  cursor: number; // Index of the next trip to enrich
+}
+
+interface StoredEnrichmentJobTrip {
+  jobId: string;
+  index: number;
+  status: 'pending' | 'enriched';
+  trip: EnhancedTrip;
 }
 
 interface StoredCacheEntry {
@@ -42,6 +67,8 @@ interface StorageQuotaInfo {
 class TravelWrappedDB extends Dexie {
   travelData!: EntityTable<StoredTravelData, 'id'>;
   cache!: EntityTable<StoredCacheEntry, 'key'>;
+  enrichmentJobs!: EntityTable<StoredEnrichmentJob, 'id'>;
+  enrichmentJobTrips!: Table<StoredEnrichmentJobTrip, [string, number]>;
 
   constructor() {
     super('TravelWrappedDB');
@@ -50,6 +77,11 @@ class TravelWrappedDB extends Dexie {
       travelData: 'id, createdAt, updatedAt, fileName',
       cache: 'key, service, expiresAt'
     });
+
+    this.version(2).stores({
+      enrichmentJobs: 'id, travelDataId, updatedAt',
+      enrichmentJobTrips: '[jobId+index], jobId'
+    });
   }
 }
 
@@ -66,6 +98,9 @@ export const storageService = {
     totalSegments: number;
     processedSegments: number;
     apiEnrichmentProgress?: number;
+    sources?: ImportSource[];
+    importReport?: ImportReport;
+    homeWork?: HomeWorkLocations;
     fileName?: string;
     fileSize?: number;
   }): Promise<string> {
@@ -87,7 +122,10 @@ export const storageService = {
         errors: data.errors,
         totalSegments: data.totalSegments,
         processedSegments: data.processedSegments,
-        apiEnrichmentProgress: data.apiEnrichmentProgress
+        apiEnrichmentProgress: data.apiEnrichmentProgress,
+        sources: data.sources,
+        importReport: data.importReport,
+        homeWork: data.homeWork
       };
 
       await db.travelData.add(storedData);
@@ -138,7 +176,13 @@ export const storageService = {
 
   async deleteTravelData(id: string): Promise<void> {
     try {
-      await db.travelData.delete(id);
+      await db.transaction('rw', db.travelData, db.enrichmentJobs, db.enrichmentJobTrips, async () => {
+        // An unfinished enrichment of this data can no longer be resumed
+        const jobIds = await db.enrichmentJobs.where('travelDataId').equals(id).primaryKeys();
+        await db.enrichmentJobTrips.where('jobId').anyOf(jobIds).delete();
+        await db.enrichmentJobs.bulkDelete(jobIds);
+        await db.travelData.delete(id);
+      });
     } catch (error) {
       console.error('Failed to delete travel data:', error);
       throw new Error('Failed to delete travel data from local storage');
@@ -149,12 +193,101 @@ export const storageService = {
     try {
       await db.travelData.clear();
       await db.cache.clear();
+      await db.enrichmentJobs.clear();
+      await db.enrichmentJobTrips.clear();
     } catch (error) {
       console.error('Failed to clear all data:', error);
       throw new Error('Failed to clear all data from local storage');
     }
   },
 
+  // Resumable enrichment jobs
+  async createEnrichmentJob(
+    job: Omit<StoredEnrichmentJob, 'createdAt' | 'updatedAt' | 'enrichedTrips' | 'cursor' | 'totalTrips'>,
+    trips: EnhancedTrip[]
+  ): Promise<void> {
+    try {
+      const now = new Date();
+      await db.transaction('rw', db.enrichmentJobs, db.enrichmentJobTrips, async () => {
+        await db.enrichmentJobs.add({
+          ...job,
+          createdAt: now,
+          updatedAt: now,
+          totalTrips: trips.length,
+          enrichedTrips: 0,
+          cursor: 0
+        });
+        await db.enrichmentJobTrips.bulkAdd(trips.map((trip, index) => ({
+          jobId: job.id,
+          index,
+          status: 'pending' as const,
+          trip
+        })));
+      });
+    } catch (error) {
+      console.error('Failed to create enrichment job:', error);
+      throw new Error('Failed to save enrichment job to local storage');
+    }
+  },
+
+  async loadEnrichmentJob(id: string): Promise<{ job: StoredEnrichmentJob; trips: StoredEnrichmentJobTrip[] } | null> {
+    try {
+      const job = await db.enrichmentJobs.get(id);
+      if (!job) return null;
+
+      const trips = await db.enrichmentJobTrips.where('jobId').equals(id).sortBy('index');
+      return { job, trips };
+    } catch (error) {
+      console.error('Failed to load enrichment job:', error);
+      throw new Error('Failed to load enrichment job from local storage');
+    }
+  },
+
+  async getLatestEnrichmentJob(): Promise<StoredEnrichmentJob | null> {
+    try {
+      return await db.enrichmentJobs.orderBy('updatedAt').reverse().first() || null;
+    } catch (error) {
+      console.error('Failed to get enrichment jobs:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Store a batch of enriched trips and move the job cursor past them in one transaction
+   */
+  async saveEnrichmentBatch(jobId: string, startIndex: number, trips: EnhancedTrip[]): Promise<void> {
+    try {
+      await db.transaction('rw', db.enrichmentJobs, db.enrichmentJobTrips, async () => {
+        await db.enrichmentJobTrips.bulkPut(trips.map((trip, offset) => ({
+          jobId,
+          index: startIndex + offset,
+          status: 'enriched' as const,
+          trip
+        })));
+        await db.enrichmentJobs.update(jobId, {
+          cursor: startIndex + trips.length,
+          // Batches start at the cursor, so they never contain trips counted before
+          enrichedTrips: add(trips.length),
+          updatedAt: new Date()
+        });
+      });
+    } catch (error) {
+      console.error('Failed to save enrichment progress:', error);
+      throw new Error('Failed to save enrichment progress to local storage');
+    }
+  },
+
+  async deleteEnrichmentJob(id: string): Promise<void> {
+    try {
+      await db.transaction('rw', db.enrichmentJobs, db.enrichmentJobTrips, async () => {
+        await db.enrichmentJobTrips.where('jobId').equals(id).delete();
+        await db.enrichmentJobs.delete(id);
+      });
+    } catch (error) {
+      console.error('Failed to delete enrichment job:', error);
+    }
+  },
+
   // Cache management for API responses
   async saveToCache(key: string, data: unknown, expirationHours: number, service: 'weather' | 'countries' | 'geocoding'): Promise<void> {
     try {
@@ -296,4 +429,4 @@ db.on('versionchange', () => {
   console.warn('Database version changed - please refresh the page');
 });
 
-export type { StoredTravelData, StoredCacheEntry, StorageQuotaInfo };
\ No newline at end of file
+export type { StoredTravelData, StoredCacheEntry, StoredEnrichmentJob, StoredEnrichmentJobTrip, StorageQuotaInfo };
\ No newline at end of file
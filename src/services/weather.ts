@@ -1,5 +1,6 @@
 import type { LatLng } from '../types/travel';
 import { storageService } from './storage';
+import { delay, isAbortError } from '../utils/abort';
 
 export interface WeatherData {
   temperature: number;
@@ -31,7 +32,7 @@ export class WeatherService {
   /**
    * Get historical weather data for a location and date range
    */
-  static async getHistoricalWeather(params: HistoricalWeatherParams): Promise<WeatherData[]> {
+  static async getHistoricalWeather(params: HistoricalWeatherParams, signal?: AbortSignal): Promise<WeatherData[]> {
     const cacheKey = `weather_historical_${params.coords.latitude.toFixed(2)},${params.coords.longitude.toFixed(2)}-${params.startDate}-${params.endDate}`;
     
     // Check persistent cache first
@@ -63,7 +64,7 @@ export class WeatherService {
         timezone: 'auto'
       });
 
-      const data = await this.fetchWithRetry(url) as {
+      const data = await this.fetchWithRetry(url, signal) as {
         daily?: {
           time?: string[];
           temperature_2m_max?: number[];
@@ -91,6 +92,10 @@ export class WeatherService {
       return weatherData;
 
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+
       console.warn('Failed to fetch historical weather:', error);
       return [];
     }
@@ -99,12 +104,12 @@ export class WeatherService {
   /**
    * Get weather for a single date
    */
-  static async getWeatherForDate(coords: LatLng, date: string): Promise<WeatherData | null> {
+  static async getWeatherForDate(coords: LatLng, date: string, signal?: AbortSignal): Promise<WeatherData | null> {
     const weatherData = await this.getHistoricalWeather({
       coords,
       startDate: date,
       endDate: date
-    });
+    }, signal);
 
     return weatherData[0] || null;
   }
@@ -112,7 +117,7 @@ export class WeatherService {
   /**
    * Get current weather (for recent dates)
    */
-  static async getCurrentWeather(coords: LatLng): Promise<WeatherData | null> {
+  static async getCurrentWeather(coords: LatLng, signal?: AbortSignal): Promise<WeatherData | null> {
     try {
       const url = `${this.CURRENT_URL}?` + new URLSearchParams({
         latitude: coords.latitude.toString(),
@@ -132,7 +137,7 @@ export class WeatherService {
         timezone: 'auto'
       });
 
-      const data = await this.fetchWithRetry(url) as {
+      const data = await this.fetchWithRetry(url, signal) as {
         current?: {
           temperature_2m?: number;
           relative_humidity_2m?: number;
@@ -148,6 +153,10 @@ export class WeatherService {
       return this.parseCurrentWeatherResponse(data);
 
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+
       console.warn('Failed to fetch current weather:', error);
       return null;
     }
@@ -298,12 +307,12 @@ export class WeatherService {
   /**
    * Fetch with retry logic and proper error handling
    */
-  private static async fetchWithRetry(url: string): Promise<unknown> {
+  private static async fetchWithRetry(url: string, signal?: AbortSignal): Promise<unknown> {
     let lastError: Error = new Error('No attempts made');
 
     for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
       try {
-        const response = await fetch(url);
+        const response = await fetch(url, { signal });
 
         if (!response.ok) {
           throw new Error(`Weather API error: ${response.status} ${response.statusText}`);
@@ -319,6 +328,10 @@ export class WeatherService {
         return data;
 
       } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+
         lastError = error as Error;
         console.warn(`Weather API attempt ${attempt} failed:`, error);
 
@@ -329,9 +342,7 @@ export class WeatherService {
 
         // Wait before retrying (exponential backoff)
         if (attempt < this.MAX_RETRIES) {
-          await new Promise(resolve => 
-            setTimeout(resolve, this.RETRY_DELAY_MS * attempt)
-          );
+          await delay(this.RETRY_DELAY_MS * attempt, signal);
         }
       }
     }
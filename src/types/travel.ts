@@ -33,6 +33,7 @@ export interface Activity {
   distanceMeters?: number;
   probability?: number;
   topCandidate?: ActivityCandidate;
+  candidates?: ActivityCandidate[]; // All candidates with probabilities, when the export provides them
 }
 
 export interface Visit {
@@ -56,31 +57,270 @@ export interface GoogleTimelineData {
   semanticSegments: SemanticSegment[];
 }
 
+// Legacy Location History export (Takeout "Records.json")
+export interface LocationRecordActivity {
+  timestamp?: string;
+  timestampMs?: string;
+  activity: Array<{
+    type: string; // "STILL", "ON_FOOT", "IN_VEHICLE", etc.
+    confidence: number; // 0-100
+  }>;
+}
+
+export interface LocationRecord {
+  latitudeE7: number;
+  longitudeE7: number;
+  timestamp?: string; // ISO timestamp (exports from 2022 onwards)
+  timestampMs?: string; // Epoch milliseconds (older exports)
+  accuracy?: number; // Meters
+  activity?: LocationRecordActivity[];
+}
+
+export interface GoogleLocationRecordsData {
+  locations: LocationRecord[];
+}
+
+// Monthly Semantic Location History export (Takeout "Semantic Location History/YYYY/YYYY_MONTH.json")
+export interface E7Location {
+  latitudeE7?: number;
+  longitudeE7?: number;
+}
+
+export interface SemanticHistoryDuration {
+  startTimestamp?: string; // ISO timestamp (exports from 2022 onwards)
+  endTimestamp?: string;
+  startTimestampMs?: string; // Epoch milliseconds (older exports)
+  endTimestampMs?: string;
+}
+
+export interface SemanticHistoryPlace extends E7Location {
+  placeId?: string;
+  name?: string;
+  address?: string;
+  semanticType?: string;
+  locationConfidence?: number; // 0-100
+}
+
+export interface PlaceVisit {
+  location: SemanticHistoryPlace;
+  duration: SemanticHistoryDuration;
+  placeConfidence?: string; // "HIGH_CONFIDENCE", "MEDIUM_CONFIDENCE", etc.
+  visitConfidence?: number; // 0-100
+  otherCandidateLocations?: SemanticHistoryPlace[];
+}
+
+export interface ActivitySegment {
+  startLocation?: E7Location;
+  endLocation?: E7Location;
+  duration: SemanticHistoryDuration;
+  distance?: number; // Meters
+  activityType?: string;
+  confidence?: string;
+  activities?: Array<{
+    activityType: string;
+    probability: number; // 0-100
+  }>;
+  waypointPath?: {
+    waypoints: Array<{ latE7: number; lngE7: number }>;
+    distanceMeters?: number;
+  };
+}
+
+export interface TimelineObject {
+  placeVisit?: PlaceVisit;
+  activitySegment?: ActivitySegment;
+}
+
+export interface SemanticLocationHistoryData {
+  timelineObjects: TimelineObject[];
+}
+
+// On-device Timeline export (iOS/Android), a top-level array of entries.
+// Numbers are serialized as strings and coordinates use "geo:lat,lng" URIs.
+export interface OnDeviceTimelineEntry {
+  startTime: string; // ISO timestamp with local UTC offset
+  endTime: string;
+  visit?: {
+    hierarchyLevel?: string;
+    probability?: string;
+    topCandidate?: {
+      placeID?: string;
+      semanticType?: string;
+      probability?: string;
+      placeLocation?: string; // "geo:lat,lng"
+    };
+  };
+  activity?: {
+    start?: string; // "geo:lat,lng"
+    end?: string;
+    distanceMeters?: string;
+    probability?: string;
+    topCandidate?: {
+      type?: string; // "walking", "in passenger vehicle", etc.
+      probability?: string;
+    };
+  };
+  timelinePath?: Array<{
+    point: string; // "geo:lat,lng"
+    durationMinutesOffsetFromStartTime?: string;
+  }>;
+  timelineMemory?: unknown;
+}
+
+export type OnDeviceTimelineData = OnDeviceTimelineEntry[];
+
+export type TimelineFormat = 'semanticSegments' | 'records' | 'semanticHistory' | 'onDevice' | 'unknown';
+
+// GeoJSON exports from trackers (OwnTracks, Overland, Arc)
+export interface GeoJsonGeometry {
+  type: string; // "Point", "LineString", "MultiLineString", ...
+  coordinates: unknown; // [lng, lat] positions, nested by geometry type
+}
+
+export interface GeoJsonFeature {
+  type: 'Feature';
+  geometry: GeoJsonGeometry | null;
+  properties?: Record<string, unknown> | null;
+}
+
+export interface GeoJsonFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJsonFeature[];
+}
+
 // Processed trip data structures
+// A point of a recorded route
+export interface PathPoint extends LatLng {
+  time?: Date;
+  accuracy?: number; // Meters
+}
+
+// A geotagged photo taken during a trip
+export interface TripPhoto {
+  fileName: string;
+  takenAt: Date;
+  location: LatLng;
+  thumbnail?: string; // Small JPEG data URL, when one could be read or rendered
+}
+
+// A flight from a flight log, kept on its journey
+export interface FlightDetails {
+  from: string; // IATA code
+  to: string;
+  fromName?: string; // Airport names
+  toName?: string;
+  airline?: string;
+  flightNumber?: string;
+  aircraft?: string;
+}
+
 export interface ProcessedTrip {
   id: string;
   startTime: Date;
   endTime: Date;
+  startUtcOffsetMinutes?: number; // Traveller's local UTC offset, when the source records it
+  endUtcOffsetMinutes?: number;
   startLocation: LatLng;
   endLocation: LatLng;
+  placeId?: string;
   placeName?: string;
+  placeCategory?: string; // Venue category from check-ins, e.g. "Coffee Shop"
   address?: string;
   city?: string;
   country?: string;
-  distanceMeters?: number;
+  distanceMeters?: number; // Travelled distance, along the path when there is one
+  path?: PathPoint[]; // Points passed through on the way, for movements recorded as a route
+  photos?: TripPhoto[];
+  flight?: FlightDetails;
+  labels?: string[]; // Titles of calendar events the trip overlaps
   activityType?: string;
   confidence: number;
+  source?: string; // File the trip was imported from, when several files are combined
+  // Photos and check-ins: when combined with other files, they add their details to a
+  // recorded visit at the same time and place instead of standing alone
+  mergesIntoVisits?: boolean;
 }
 
 export interface TravelStats {
-  totalDistanceKm: number;
+  totalDistanceKm: number; // Distance travelled, following recorded paths
+  straightLineDistanceKm: number; // The same movements measured start to end, as the crow flies
   uniqueCities: number;
   uniqueCountries: number;
   longestTripKm: number;
   mostVisitedLocation: string;
   totalTrips: number;
-  firstTripDate: Date;
+  firstTripDate: Date; // Local trip time, see getLocalStartTime
   lastTripDate: Date;
+  // From the home and work locations, when known. mostVisitedLocation leaves both out
+  homeLocation?: string;
+  workLocation?: string;
+  nightsAtHome?: number;
+  commuteDistanceKm?: number; // Journeys between home and work, included in totalDistanceKm
+  // Trips away from home (see AwayTrip), when home is known. totalTrips counts stays and journeys
+  awayTrips?: number;
+  nightsAway?: number;
+  longestAwayTrip?: {
+    destination: string;
+    nights: number;
+    date: string; // Departure, yyyy-MM-dd in local time
+  };
+}
+
+// A place where the user spends a lot of time, with the dwell that home and work are inferred from
+export interface FrequentPlace {
+  id: string;
+  location: LatLng;
+  name?: string; // Most common place name of the stays there, or their city
+  nights: number; // Nights spent there (at least 4 hours between 22:00 and 06:00 local time)
+  nightHours: number;
+  workdays: number; // Weekdays with at least 2 hours there between 09:00 and 17:00 local time
+  workdayHours: number;
+}
+
+export interface HomeWorkLocations {
+  home?: FrequentPlace;
+  work?: FrequentPlace;
+  confirmed: boolean; // Set once the user has confirmed or changed the inferred places
+  candidates: FrequentPlace[]; // Places to choose from when changing them
+  awayTripSettings?: AwayTripSettings; // Defaults apply when not set
+}
+
+// What counts as a trip away from home
+export interface AwayTripSettings {
+  radiusKm: number; // Distance from home beyond which the user is away
+  minDurationHours: number; // Shorter outings are not trips
+}
+
+// A contiguous period away from home, made of the journeys and stays in between
+export interface AwayTrip {
+  id: string;
+  startTime: Date; // Leaving home
+  endTime: Date; // Back home, or the end of the data when returnedHome is false
+  startUtcOffsetMinutes?: number;
+  endUtcOffsetMinutes?: number;
+  legs: ProcessedTrip[]; // Journeys, in order, including the ones from and back home
+  stays: ProcessedTrip[];
+  destination: string; // Where the most time was spent
+  places: string[]; // Places stayed at, in order of the first visit
+  countries: string[];
+  nightsAway: number; // Calendar nights between leaving and coming back, in local time
+  distanceKm: number;
+  returnedHome: boolean;
+}
+
+// An event from a calendar file (.ics), e.g. a flight, hotel booking or conference
+export interface CalendarEvent {
+  id: string;
+  title: string;
+  startTime: Date;
+  endTime: Date;
+  // Whole-day events are floating dates, stored as midnight UTC at offset 0 so
+  // that toLocalTime reads the date itself, like getLocalStartTime for trips
+  allDay: boolean;
+  utcOffsetMinutes?: number; // 0 for whole-day events; for timed events, when the calendar gives the timezone
+  location?: string; // Free text, e.g. a hotel address
+  coordinates?: LatLng; // From the event's GEO property
+  source?: string;
 }
 
 // Manual trip entry
@@ -91,6 +331,40 @@ export interface ManualTrip {
   endDate?: string;
   notes?: string;
   coordinates?: LatLng;
+  mode?: string; // How the place was reached (e.g. "flight", "train"), from spreadsheet imports
+}
+
+// Imported places or routes without timestamps, dated by the user before import
+export interface UndatedFeature {
+  id: string;
+  name: string;
+  type: 'STAY' | 'JOURNEY';
+  locations: LatLng[]; // A single point for stays, the route for journeys
+}
+
+export interface DateAssignment {
+  featureId: string;
+  startDate: string; // YYYY-MM-DD format
+  endDate?: string;
+}
+
+// Mapping of source properties or columns onto the fields an importer needs
+export interface MappableField {
+  key: string;
+  label: string;
+  description?: string;
+  required?: boolean;
+}
+
+export type FieldMapping = Record<string, string | undefined>; // Field key -> source property name
+
+export interface FieldMappingRequest {
+  title: string;
+  description?: string;
+  fields: MappableField[];
+  sourceFields: string[]; // Property or column names found in the file
+  suggested: FieldMapping;
+  samples: Record<string, unknown>[]; // A few source rows to preview values
 }
 
 // Upload and processing states
@@ -100,6 +374,7 @@ export interface UploadState {
   error?: string;
   fileName?: string;
   fileSize?: number;
+  importerName?: string; // Name of the importer that recognized the file
 }
 
 // Enhanced trip data with API enrichment
@@ -108,9 +383,12 @@ export interface EnhancedTrip {
   type: 'STAY' | 'JOURNEY';
   startTime: Date;
   endTime: Date;
+  startUtcOffsetMinutes?: number;
+  endUtcOffsetMinutes?: number;
   location: LatLng;
   endLocation?: LatLng;
   placeName?: string;
+  placeCategory?: string;
   address?: string;
   city?: string;
   country?: string;
@@ -123,6 +401,8 @@ export interface EnhancedTrip {
     description: string;
     icon: string;
   };
+  photos?: TripPhoto[]; // Collected from the segments
+  labels?: string[];
   segments: ProcessedTrip[]; // Original segments that make up this trip
 }
 
@@ -171,6 +451,8 @@ export interface EnhancedTravelStats extends TravelStats {
     tripsCount: number;
     countriesVisited: number;
     totalDistance: number;
+    crossesDataGap?: boolean; // The streak spans days without location data, so trips may be missing
+    dataGapDays?: number;
   };
   timezonesCrossed?: number;
   timezoneTransitions?: Array<{
@@ -188,12 +470,86 @@ export interface EnhancedTravelStats extends TravelStats {
   }>;
 }
 
+// One file read during an import (e.g. a file inside a Takeout archive)
+export interface ImportSource {
+  fileName: string;
+  format?: string; // Name of the importer used
+  status: 'imported' | 'skipped' | 'failed';
+  tripCount: number;
+  note?: string;
+}
+
+export type SegmentSkipReason = 'noLocation' | 'tooShort' | 'badTimestamp' | 'invalid';
+
+// What the entries of a Google Timeline export were turned into
+export interface SegmentCounts {
+  visit: number;
+  activity: number;
+  path: number;
+  skipped: number;
+  skipReasons: Record<SegmentSkipReason, number>;
+}
+
+// Trips produced by an importer, before statistics are calculated
+export interface ImportResult {
+  trips: ProcessedTrip[];
+  totalSegments: number;
+  processedSegments: number;
+  errors: string[];
+  sources?: ImportSource[];
+  segmentCounts?: SegmentCounts;
+  calendarEvents?: CalendarEvent[]; // Applied to the trips once all files are combined
+}
+
+// GPS noise removed by TrackCleaner before trips are built
+export interface CleaningReport {
+  pointsChecked: number;
+  pointsRemoved: number;
+  removedByAccuracy: number;
+  removedBySpeed: number;
+  removedByAngle: number;
+  tripsRemoved: number; // Movements that were only noise, or implausibly fast
+  distanceRemovedKm: number;
+}
+
+// A stretch of time without any recorded trips
+export interface TimeGap {
+  start: Date;
+  end: Date;
+  hours: number;
+}
+
+// Share of a day or month accounted for by trips, from 0 to 1
+export interface CoveragePeriod {
+  period: string; // yyyy-MM-dd or yyyy-MM, in local trip time
+  coverage: number;
+}
+
+export interface Coverage {
+  overall: number;
+  days: CoveragePeriod[];
+  months: CoveragePeriod[];
+}
+
+// Diagnostics shown with the results, to explain numbers that look off
+export interface ImportReport {
+  segments?: SegmentCounts; // Only Google Timeline exports have segments
+  coverage?: Coverage;
+  timeGaps: TimeGap[]; // Longest first
+  lowConfidenceCount: number;
+  lowConfidenceTrips: Array<{ id: string; startTime: Date; activityType?: string; confidence: number }>; // A sample, least confident first
+  cleaning: CleaningReport;
+}
+
 export interface ProcessingResult {
   trips: ProcessedTrip[];
   stats: TravelStats;
   totalSegments: number;
   processedSegments: number;
   errors: string[];
+  sources?: ImportSource[];
+  importReport?: ImportReport;
+  homeWork?: HomeWorkLocations;
 }
 
 export interface EnhancedProcessingResult {
@@ -205,4 +561,7 @@ export interface EnhancedProcessingResult {
   processedSegments: number;
   apiEnrichmentProgress: number;
   errors: string[];
+  sources?: ImportSource[];
+  importReport?: ImportReport;
+  homeWork?: HomeWorkLocations;
 }
\ No newline at end of file
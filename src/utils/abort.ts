@@ -0,0 +1,49 @@
+import type { EnhancedProcessingResult } from '../types/travel';
+
+/**
+ * Thrown when the user cancels processing. Carries whatever was enriched
+ * before the cancel so it can still be shown.
+ */
+export class ProcessingCancelledError extends Error {
+  public partialResult?: EnhancedProcessingResult;
+  constructor(partialResult?: EnhancedProcessingResult) {
+    super('Processing was cancelled');
+    this.name = 'ProcessingCancelledError';
+    this.partialResult = partialResult;
+  }
+}
+
+/**
+ * Whether an error comes from an aborted signal (fetch, delays) or a cancelled pipeline
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof ProcessingCancelledError ||
+  ((error instanceof Error || error instanceof DOMException) && error.name === 'AbortError');
+
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new ProcessingCancelledError();
+  }
+};
+
+/**
+ * setTimeout as a promise that rejects as soon as the signal aborts
+ */
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ProcessingCancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ProcessingCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -0,0 +1,46 @@
+// Keywords found in activity labels written by GPS apps and trackers (Strava, Garmin, Overland, Arc, ...),
+// matched against whole words so that "business" isn't a bus and "training" isn't a train
+const ACTIVITY_KEYWORDS: Array<[RegExp, string]> = [
+  [/^(run|jog)/, 'RUNNING'],
+  [/^(walk|hik|trek)/, 'WALKING'],
+  [/^(motorcycl|motorbike)/, 'MOTORCYCLING'],
+  [/bik|cycl/, 'CYCLING'],
+  [/^(driv|automotive|vehicle)|^(cars?|road|roadtrip)$/, 'IN_PASSENGER_VEHICLE'],
+  [/^bus(es)?$/, 'IN_BUS'],
+  [/^(trains?|trams?|rail|railway|metro|subway)$/, 'IN_TRAIN'],
+  [/^(fly|flying|flights?|planes?|airplanes?)$/, 'FLYING'],
+  [/^(ferry|ferries|boats?|sail)/, 'IN_FERRY'],
+  [/^ski(s|ing)?$/, 'SKIING'],
+  // Strava's "Ride" is a bike ride, but "Train ride" is a train: vehicles are checked first
+  [/^rides?$/, 'CYCLING']
+];
+
+/**
+ * Map a free-form activity label (e.g. "road_biking", "MountainBikeRide",
+ * "Bus ride") to the activity types used by Google Timeline. "Train ride" is
+ * IN_TRAIN, "Ride" is CYCLING, and "business trip", "cardio" and "training"
+ * have no activity.
+ */
+export function activityFromLabel(label: string): string | undefined {
+  const words = label
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(Boolean);
+
+  return ACTIVITY_KEYWORDS.find(([pattern]) => words.some(word => pattern.test(word)))?.[1];
+}
+
+/**
+ * Guess how a movement was made from its average speed, for sources that
+ * don't record an activity type
+ */
+export function estimateActivityFromSpeed(distanceKm: number, durationHours: number): string {
+  if (durationHours <= 0) return 'UNKNOWN';
+
+  const speedKmh = distanceKm / durationHours;
+  if (speedKmh <= 7) return 'WALKING';
+  if (speedKmh <= 30) return 'CYCLING';
+  if (speedKmh <= 200) return 'IN_PASSENGER_VEHICLE';
+  return 'FLYING';
+}
@@ -0,0 +1,20 @@
+import Papa from 'papaparse';
+
+/**
+ * Parse CSV text with a header row into one record per row, keyed by the trimmed header
+ */
+export function parseCsv(text: string): Papa.ParseResult<Record<string, string>> {
+  return Papa.parse<Record<string, string>>(text, {
+    header: true,
+    skipEmptyLines: 'greedy',
+    transformHeader: header => header.trim()
+  });
+}
+
+/**
+ * The trimmed column names of a CSV header row
+ */
+export function parseCsvHeader(text: string): string[] {
+  const { data } = Papa.parse<string[]>(text, { preview: 1 });
+  return (data[0] || []).map(column => column.trim());
+}
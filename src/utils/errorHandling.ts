@@ -1,3 +1,5 @@
+import { isAbortError } from './abort';
+
 export interface AppError {
   code: string;
   message: string;
@@ -44,8 +46,8 @@ export type ErrorCode = typeof ErrorCode[keyof typeof ErrorCode];
 export class AppErrorHandler {
   private static getUserFriendlyMessage(code: ErrorCode, originalMessage?: string): string {
     const errorMessages: Record<ErrorCode, string> = {
-      [ErrorCode.FILE_TOO_LARGE]: 'The file is too large. Please select a file smaller than 50MB.',
-      [ErrorCode.INVALID_FILE_TYPE]: 'Please select a valid JSON file from your Google Timeline export.',
+      [ErrorCode.FILE_TOO_LARGE]: 'The file is too large. Please check the size limit for this file type and try a smaller export.',
+      [ErrorCode.INVALID_FILE_TYPE]: 'This file type is not supported. Please select a Google Timeline export or another supported travel data file.',
       [ErrorCode.FILE_READ_ERROR]: 'Unable to read the file. Please try selecting the file again.',
       
       [ErrorCode.INVALID_JSON]: 'The file format is invalid. Please ensure you\'ve selected a Google Timeline JSON export.',
@@ -120,7 +122,7 @@ export class AppErrorHandler {
   static handleFileError(file: File, error: Error): AppError {
     const message = error.message.toLowerCase();
     
-    if (message.includes('size') || file.size > 50 * 1024 * 1024) {
+    if (message.includes('size')) {
       return this.createError(ErrorCode.FILE_TOO_LARGE, error.message, { fileSize: file.size });
     }
     
@@ -233,7 +235,10 @@ export class ApiCircuitBreaker {
       return result;
       
     } catch (error) {
-      this.recordFailure();
+      // A cancelled request says nothing about the health of the service
+      if (!isAbortError(error)) {
+        this.recordFailure();
+      }
       throw error;
     }
   }
@@ -280,6 +285,10 @@ export class ApiFallbackManager {
     try {
       return await primaryOperation();
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+
       console.warn(`${apiName} failed, attempting fallback:`, error);
       
       // Try custom fallback first
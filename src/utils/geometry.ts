@@ -17,6 +17,32 @@ export function calculateDistance(point1: LatLng, point2: LatLng): number {
   return EARTH_RADIUS_KM * c;
 }
 
+/**
+ * Parse a coordinate string from a Timeline export. Supports both the
+ * "-0.065945°, 34.7739183°" notation and the on-device "geo:-0.065945,34.7739183" URI.
+ */
+export function parseLatLngString(latLngStr: string): LatLng {
+  const [latStr, lngStr] = latLngStr
+    .replace(/^geo:/, '')
+    .replace(/°/g, '')
+    .split(',');
+
+  return {
+    latitude: parseFloat(latStr),
+    longitude: parseFloat(lngStr)
+  };
+}
+
+/**
+ * Convert E7 integer coordinates (degrees * 10^7) used by Location History exports
+ */
+export function e7ToLatLng(latitudeE7: number, longitudeE7: number): LatLng {
+  return {
+    latitude: latitudeE7 / 1e7,
+    longitude: longitudeE7 / 1e7
+  };
+}
+
 /**
  * Calculate total distance for a sequence of points
  */
@@ -0,0 +1,10 @@
+/**
+ * Parse a JSON document (GeoJSON, check-ins, ...), throwing on malformed input
+ */
+export function parseJsonDocument(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error('Invalid JSON format: the file appears to be corrupted');
+  }
+}
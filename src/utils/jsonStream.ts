@@ -0,0 +1,213 @@
+import { ProcessingCancelledError } from './abort';
+
+/** Bytes that can be read as a stream: a File, or an entry inflated from a zip archive */
+export interface ByteSource {
+  size: number;
+  stream: () => ReadableStream<Uint8Array>;
+}
+
+export interface JsonArrayStreamOptions {
+  /** Top-level object keys whose array elements are emitted. A root array is always emitted. */
+  keys: string[];
+  /** Called when an emitted array opens; key is null for a root array */
+  onArrayStart?: (key: string | null) => void;
+  /** Called for every element of an emitted array. Return false to stop reading. */
+  onItem: (item: unknown, key: string | null, index: number) => boolean | void;
+  onBytesRead?: (bytesRead: number, totalBytes: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Incremental scanner that finds the elements of the arrays we care about in a
+ * JSON document and parses them one at a time. Everything else is skipped
+ * without being kept in memory.
+ */
+class JsonArrayScanner {
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private rootType: 'object' | 'array' | null = null;
+  private expectingKey = false;
+  private keyParts: string[] | null = null;
+  private lastKey: string | null = null;
+  // Depth of the array being emitted, 0 when none is open
+  private arrayDepth = 0;
+  private arrayKey: string | null = null;
+  private itemParts: string[] | null = null;
+  private itemIndex = 0;
+  private readonly options: JsonArrayStreamOptions;
+  stopped = false;
+
+  constructor(options: JsonArrayStreamOptions) {
+    this.options = options;
+  }
+
+  write(chunk: string): void {
+    let itemStart = this.itemParts ? 0 : -1;
+    let keyStart = this.keyParts ? 0 : -1;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          if (this.keyParts) {
+            this.keyParts.push(chunk.slice(keyStart, i));
+            this.lastKey = this.keyParts.join('');
+            this.keyParts = null;
+            keyStart = -1;
+          }
+        }
+        continue;
+      }
+
+      if (char === ' ' || char === '\n' || char === '\r' || char === '\t') continue;
+
+      if (this.arrayDepth > 0 && this.depth === this.arrayDepth && !this.itemParts && char !== ',' && char !== ']') {
+        this.itemParts = [];
+        itemStart = i;
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          if (this.rootType === 'object' && this.depth === 1 && this.expectingKey) {
+            this.keyParts = [];
+            keyStart = i + 1;
+          }
+          break;
+
+        case ':':
+          if (this.rootType === 'object' && this.depth === 1) this.expectingKey = false;
+          break;
+
+        case ',':
+          if (this.rootType === 'object' && this.depth === 1) this.expectingKey = true;
+          // Primitive elements end at the next separator
+          if (this.itemParts && this.depth === this.arrayDepth) {
+            this.itemParts.push(chunk.slice(itemStart, i));
+            itemStart = -1;
+            this.emitItem();
+          }
+          break;
+
+        case '{':
+        case '[':
+          if (this.depth === 0) {
+            if (this.rootType) throw new Error('Invalid JSON: unexpected content after the document');
+            this.rootType = char === '{' ? 'object' : 'array';
+            this.expectingKey = this.rootType === 'object';
+            if (this.rootType === 'array') this.openArray(null, 1);
+          } else if (
+            char === '[' && this.depth === 1 && this.rootType === 'object' &&
+            this.lastKey !== null && this.options.keys.includes(this.lastKey)
+          ) {
+            this.openArray(this.lastKey, 2);
+          }
+          this.depth++;
+          break;
+
+        case '}':
+        case ']':
+          if (this.depth === 0) throw new Error('Invalid JSON: unbalanced brackets');
+          if (char === ']' && this.depth === this.arrayDepth) {
+            if (this.itemParts) {
+              this.itemParts.push(chunk.slice(itemStart, i));
+              itemStart = -1;
+              this.emitItem();
+            }
+            this.arrayDepth = 0;
+          }
+          this.depth--;
+          // Object and array elements end when their closing bracket is reached
+          if (this.itemParts && this.depth === this.arrayDepth) {
+            this.itemParts.push(chunk.slice(itemStart, i + 1));
+            itemStart = -1;
+            this.emitItem();
+          }
+          break;
+
+        default:
+          if (this.depth === 0) throw new Error('Invalid JSON: unexpected content outside the document');
+      }
+
+      if (this.stopped) return;
+    }
+
+    // Keep partial elements and keys for the next chunk
+    if (this.itemParts && itemStart >= 0) this.itemParts.push(chunk.slice(itemStart));
+    if (this.keyParts && keyStart >= 0) this.keyParts.push(chunk.slice(keyStart));
+  }
+
+  end(): void {
+    if (!this.stopped && (this.depth !== 0 || this.inString || !this.rootType)) {
+      throw new Error('Invalid JSON: the file ended unexpectedly');
+    }
+  }
+
+  private openArray(key: string | null, depth: number): void {
+    this.arrayDepth = depth;
+    this.arrayKey = key;
+    this.itemIndex = 0;
+    this.options.onArrayStart?.(key);
+  }
+
+  private emitItem(): void {
+    const text = this.itemParts!.join('');
+    this.itemParts = null;
+
+    let item: unknown;
+    try {
+      item = JSON.parse(text);
+    } catch {
+      throw new Error(`Invalid JSON: element ${this.itemIndex} could not be parsed`);
+    }
+
+    if (this.options.onItem(item, this.arrayKey, this.itemIndex++) === false) {
+      this.stopped = true;
+    }
+  }
+}
+
+/**
+ * Read a JSON file with File.stream() and emit the elements of its top-level
+ * arrays one at a time, so peak memory stays close to the size of one element
+ * rather than the whole document.
+ */
+export async function streamJsonArrays(file: ByteSource, options: JsonArrayStreamOptions): Promise<void> {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  const scanner = new JsonArrayScanner(options);
+  let bytesRead = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      if (options.signal?.aborted) {
+        await reader.cancel();
+        throw new ProcessingCancelledError();
+      }
+
+      bytesRead += value.byteLength;
+      scanner.write(decoder.decode(value, { stream: true }));
+      options.onBytesRead?.(bytesRead, file.size);
+
+      if (scanner.stopped) {
+        await reader.cancel();
+        return;
+      }
+    }
+
+    scanner.write(decoder.decode());
+    scanner.end();
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Parse a timestamp that may be an ISO string, epoch seconds or epoch milliseconds
+ */
+export function parseTimestamp(value: unknown): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  const numeric = typeof value === 'number' ? value : typeof value === 'string' && /^\d+(\.\d+)?$/.test(value.trim()) ? Number(value) : NaN;
+  if (!isNaN(numeric)) {
+    // Values below 10^12 are seconds (10^12 ms is in 2001, 10^12 s is far in the future)
+    const date = new Date(numeric < 1e12 ? numeric * 1000 : numeric);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse the UTC offset of an ISO timestamp ("+02:00", "-0530" or "Z") in minutes
+ */
+export function parseUtcOffsetMinutes(timestamp: string): number | undefined {
+  const match = timestamp.match(/([+-])(\d{2}):?(\d{2})$/);
+  if (!match) return timestamp.endsWith('Z') ? 0 : undefined;
+
+  const minutes = parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+/**
+ * The wall-clock time at a UTC offset, as a Date whose local fields (getMonth,
+ * getHours, date-fns format) read that wall-clock time. Without an offset the
+ * date is returned as is, so it reads in the viewer's timezone.
+ */
+export function toLocalTime(date: Date, utcOffsetMinutes?: number): Date {
+  if (utcOffsetMinutes === undefined) return date;
+
+  const wallClock = new Date(date.getTime() + utcOffsetMinutes * 60000);
+  return new Date(
+    wallClock.getUTCFullYear(),
+    wallClock.getUTCMonth(),
+    wallClock.getUTCDate(),
+    wallClock.getUTCHours(),
+    wallClock.getUTCMinutes(),
+    wallClock.getUTCSeconds(),
+    wallClock.getUTCMilliseconds()
+  );
+}
+
+/**
+ * Start of a trip in the traveller's local time. Use for calendar statistics and display, not for durations.
+ */
+export function getLocalStartTime(trip: { startTime: Date; startUtcOffsetMinutes?: number }): Date {
+  return toLocalTime(trip.startTime, trip.startUtcOffsetMinutes);
+}
+
+/**
+ * End of a trip in the traveller's local time
+ */
+export function getLocalEndTime(trip: { endTime: Date; endUtcOffsetMinutes?: number }): Date {
+  return toLocalTime(trip.endTime, trip.endUtcOffsetMinutes);
+}
+
+const timeZoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * UTC offset of an IANA time zone (e.g. "Europe/Paris") at an instant, in
+ * minutes. Undefined when the browser doesn't know the zone.
+ */
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number | undefined {
+  try {
+    let formatter = timeZoneFormatters.get(timeZone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric'
+      });
+      timeZoneFormatters.set(timeZone, formatter);
+    }
+
+    const parts = formatter.formatToParts(date);
+    const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+    const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+    return Math.round((wallClock - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The instant a wall-clock time (given as milliseconds whose UTC fields hold
+ * the local time) happened in an IANA time zone
+ */
+export function fromTimeZoneWallClock(wallClock: number, timeZone: string): { time: Date; utcOffsetMinutes: number } | undefined {
+  const guess = getTimeZoneOffsetMinutes(new Date(wallClock), timeZone);
+  if (guess === undefined) return undefined;
+
+  // The offset at the first guess can differ around DST changes, so check it once more
+  const utcOffsetMinutes = getTimeZoneOffsetMinutes(new Date(wallClock - guess * 60000), timeZone) ?? guess;
+  return { time: new Date(wallClock - utcOffsetMinutes * 60000), utcOffsetMinutes };
+}
@@ -0,0 +1,24 @@
+import type { TimelineFormat } from '../types/travel';
+
+/**
+ * Determine which Google location export a parsed JSON document comes from
+ */
+export function detectTimelineFormat(data: unknown): TimelineFormat {
+  if (!data || typeof data !== 'object') return 'unknown';
+
+  // The on-device export is the only one with an array at the root
+  if (Array.isArray(data)) {
+    const first = data.find(entry => entry && typeof entry === 'object') as Record<string, unknown> | undefined;
+    const isTimelineEntry = first && 'startTime' in first &&
+      ('visit' in first || 'activity' in first || 'timelinePath' in first || 'timelineMemory' in first);
+    return isTimelineEntry ? 'onDevice' : 'unknown';
+  }
+
+  const record = data as Record<string, unknown>;
+
+  if (Array.isArray(record.semanticSegments)) return 'semanticSegments';
+  if (Array.isArray(record.locations)) return 'records';
+  if (Array.isArray(record.timelineObjects)) return 'semanticHistory';
+
+  return 'unknown';
+}
@@ -1,4 +1,13 @@
-import type { ManualTrip, GoogleTimelineData, LatLng } from '../types/travel';
+import { detectTimelineFormat } from './timelineFormat';
+import { streamJsonArrays } from './jsonStream';
+import type { 
+  ManualTrip, 
+  GoogleTimelineData, 
+  GoogleLocationRecordsData, 
+  SemanticLocationHistoryData, 
+  OnDeviceTimelineData,
+  LatLng 
+} from '../types/travel';
 
 export class ValidationError extends Error {
   public field?: string;
@@ -66,25 +75,51 @@ export const validateManualTrip = (trip: ManualTrip): string[] => {
   return errors;
 };
 
-export const validateTimelineJson = (jsonContent: string): { 
-  isValid: boolean; 
-  errors: string[]; 
-  data?: GoogleTimelineData 
-} => {
-  const errors: string[] = [];
+/**
+ * Validate a Timeline export without loading it: only the first few entries of
+ * its timeline array are read, which is all the structure checks look at.
+ */
+export const validateTimelineStream = async (file: Blob): Promise<ReturnType<typeof validateTimelineData>> => {
+  const sampleSize = 5;
+  let sample: unknown = {};
+  let sampleKey: string | null | undefined;
+  const items: unknown[] = [];
 
   try {
-    // Parse JSON
-    let data: unknown;
-    try {
-      data = JSON.parse(jsonContent);
-    } catch {
+    await streamJsonArrays(file, {
+      keys: ['semanticSegments', 'locations', 'timelineObjects'],
+      onArrayStart: (key) => {
+        if (sampleKey !== undefined) return;
+        sampleKey = key;
+        sample = key === null ? items : { [key]: items };
+      },
+      onItem: (item, key) => {
+        if (key !== sampleKey) return;
+        items.push(item);
+        return items.length < sampleSize;
+      }
+    });
+  } catch {
+    // Entries after a parse error are not needed when the first ones were already read
+    if (items.length === 0) {
       return { 
         isValid: false, 
         errors: ['Invalid JSON format. Please ensure the file is a valid Timeline export.'] 
       };
     }
+  }
+
+  return validateTimelineData(sample);
+};
 
+export const validateTimelineData = (data: unknown): { 
+  isValid: boolean; 
+  errors: string[]; 
+  data?: GoogleTimelineData | GoogleLocationRecordsData | SemanticLocationHistoryData | OnDeviceTimelineData 
+} => {
+  const errors: string[] = [];
+
+  try {
     // Check basic structure
     if (!data || typeof data !== 'object') {
       errors.push('Timeline data must be an object');
@@ -92,10 +127,30 @@ export const validateTimelineJson = (jsonContent: string): {
     }
 
     const timelineData = data as Record<string, unknown>;
+    const format = detectTimelineFormat(data);
+
+    // Legacy Location History export (Records.json)
+    if (format === 'records') {
+      return validateLocationRecords(timelineData.locations as unknown[]);
+    }
+
+    // Monthly Semantic Location History export
+    if (format === 'semanticHistory') {
+      return validateTimelineObjects(timelineData.timelineObjects as unknown[]);
+    }
+
+    // On-device (iOS/Android) export with an array root
+    if (format === 'onDevice') {
+      return validateOnDeviceEntries(data as unknown[]);
+    }
 
     // Check for semanticSegments array
     if (!timelineData.semanticSegments) {
-      errors.push('Missing semanticSegments array. This may not be a Google Timeline export.');
+      if (Array.isArray(data)) {
+        errors.push('Unrecognized timeline array. Entries must have startTime and visit, activity or timelinePath data.');
+        return { isValid: false, errors };
+      }
+      errors.push('Missing semanticSegments, timelineObjects or locations array. This may not be a Google Timeline export.');
       return { isValid: false, errors };
     }
 
@@ -139,6 +194,181 @@ export const validateTimelineJson = (jsonContent: string): {
   }
 };
 
+const validateLocationRecords = (locations: unknown[]): { 
+  isValid: boolean; 
+  errors: string[]; 
+  data?: GoogleLocationRecordsData 
+} => {
+  const errors: string[] = [];
+
+  if (locations.length === 0) {
+    errors.push('No location records found. The file appears to be empty.');
+    return { isValid: false, errors };
+  }
+
+  // Validate a few records to ensure proper structure
+  const sampleSize = Math.min(5, locations.length);
+  for (let i = 0; i < sampleSize; i++) {
+    const recordErrors = validateLocationRecord(locations[i]);
+    if (recordErrors.length > 0) {
+      errors.push(...recordErrors.map(err => `Record ${i}: ${err}`));
+    }
+  }
+
+  if (errors.length > sampleSize) {
+    errors.unshift('File structure does not match Location History Records format');
+    return { isValid: false, errors };
+  }
+
+  return { 
+    isValid: errors.length === 0, 
+    errors, 
+    data: { locations } as GoogleLocationRecordsData 
+  };
+};
+
+const validateLocationRecord = (record: unknown): string[] => {
+  const errors: string[] = [];
+
+  if (!record || typeof record !== 'object') {
+    errors.push('must be an object');
+    return errors;
+  }
+
+  const rec = record as Record<string, unknown>;
+
+  if (typeof rec.latitudeE7 !== 'number' || typeof rec.longitudeE7 !== 'number') {
+    errors.push('missing latitudeE7/longitudeE7');
+  }
+
+  if (!rec.timestamp && !rec.timestampMs) {
+    errors.push('missing timestamp');
+  } else if (rec.timestamp && (typeof rec.timestamp !== 'string' || isNaN(Date.parse(rec.timestamp)))) {
+    errors.push('timestamp is not a valid date');
+  } else if (!rec.timestamp && isNaN(Number(rec.timestampMs))) {
+    errors.push('timestampMs is not a valid number');
+  }
+
+  return errors;
+};
+
+const validateTimelineObjects = (timelineObjects: unknown[]): { 
+  isValid: boolean; 
+  errors: string[]; 
+  data?: SemanticLocationHistoryData 
+} => {
+  const errors: string[] = [];
+
+  if (timelineObjects.length === 0) {
+    errors.push('No timeline data found. The file appears to be empty.');
+    return { isValid: false, errors };
+  }
+
+  // Validate a few objects to ensure proper structure
+  const sampleSize = Math.min(5, timelineObjects.length);
+  for (let i = 0; i < sampleSize; i++) {
+    const objectErrors = validateTimelineObject(timelineObjects[i]);
+    if (objectErrors.length > 0) {
+      errors.push(...objectErrors.map(err => `Timeline object ${i}: ${err}`));
+    }
+  }
+
+  if (errors.length > sampleSize) {
+    errors.unshift('File structure does not match Semantic Location History format');
+    return { isValid: false, errors };
+  }
+
+  return { 
+    isValid: errors.length === 0, 
+    errors, 
+    data: { timelineObjects } as SemanticLocationHistoryData 
+  };
+};
+
+const validateTimelineObject = (timelineObject: unknown): string[] => {
+  const errors: string[] = [];
+
+  if (!timelineObject || typeof timelineObject !== 'object') {
+    errors.push('must be an object');
+    return errors;
+  }
+
+  const obj = timelineObject as Record<string, unknown>;
+  const entry = (obj.placeVisit || obj.activitySegment) as Record<string, unknown> | undefined;
+
+  if (!entry || typeof entry !== 'object') {
+    errors.push('must have placeVisit or activitySegment data');
+    return errors;
+  }
+
+  const duration = entry.duration as Record<string, unknown> | undefined;
+  if (!duration || typeof duration !== 'object') {
+    errors.push('missing duration');
+  } else {
+    if (!duration.startTimestamp && !duration.startTimestampMs) {
+      errors.push('missing start timestamp');
+    }
+    if (!duration.endTimestamp && !duration.endTimestampMs) {
+      errors.push('missing end timestamp');
+    }
+  }
+
+  return errors;
+};
+
+const validateOnDeviceEntries = (entries: unknown[]): { 
+  isValid: boolean; 
+  errors: string[]; 
+  data?: OnDeviceTimelineData 
+} => {
+  const errors: string[] = [];
+
+  // Validate a few entries to ensure proper structure
+  const sampleSize = Math.min(5, entries.length);
+  for (let i = 0; i < sampleSize; i++) {
+    const entryErrors = validateOnDeviceEntry(entries[i]);
+    if (entryErrors.length > 0) {
+      errors.push(...entryErrors.map(err => `Entry ${i}: ${err}`));
+    }
+  }
+
+  if (errors.length > sampleSize) {
+    errors.unshift('File structure does not match the on-device Timeline format');
+    return { isValid: false, errors };
+  }
+
+  return { 
+    isValid: errors.length === 0, 
+    errors, 
+    data: entries as OnDeviceTimelineData 
+  };
+};
+
+const validateOnDeviceEntry = (entry: unknown): string[] => {
+  const errors: string[] = [];
+
+  if (!entry || typeof entry !== 'object') {
+    errors.push('must be an object');
+    return errors;
+  }
+
+  const item = entry as Record<string, unknown>;
+
+  if (typeof item.startTime !== 'string' || isNaN(Date.parse(item.startTime))) {
+    errors.push('missing or invalid startTime');
+  }
+
+  if (typeof item.endTime !== 'string' || isNaN(Date.parse(item.endTime))) {
+    errors.push('missing or invalid endTime');
+  }
+
+  if (!item.visit && !item.activity && !item.timelinePath && !item.timelineMemory) {
+    errors.push('must have visit, activity, timelinePath or timelineMemory data');
+  }
+
+  return errors;
+};
+
 const validateSemanticSegment = (segment: unknown): string[] => {
   const errors: string[] = [];
 
@@ -228,7 +458,7 @@ export const validateFileType = (file: File, allowedTypes: string[] = ['.json'])
   }
 
   // Additional MIME type check for JSON
-  if (allowedTypes.includes('.json') && file.type && !file.type.includes('json')) {
+  if (fileName.endsWith('.json') && file.type && !file.type.includes('json')) {
     errors.push('File does not appear to be a JSON file');
   }
 
@@ -0,0 +1,13 @@
+/**
+ * Parse an XML document (GPX, KML, ...) in the browser, throwing on malformed input
+ */
+export function parseXmlDocument(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const parserError = doc.getElementsByTagName('parsererror')[0];
+
+  if (parserError) {
+    throw new Error('Invalid XML format: the file appears to be corrupted');
+  }
+
+  return doc;
+}
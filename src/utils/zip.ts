@@ -0,0 +1,173 @@
+import { Inflate, unzip, strFromU8 } from 'fflate';
+import type { ByteSource } from './jsonStream';
+
+// An entry listed in the central directory of a zip archive
+export interface ZipEntry {
+  name: string;
+  size: number; // Uncompressed
+  compressedSize: number;
+  method: number; // 0 stored, 8 deflated
+  localHeaderOffset: number;
+}
+
+const CORRUPT_ARCHIVE = 'Invalid zip archive: the file appears to be corrupted';
+const MAX_COMMENT_LENGTH = 0xffff;
+
+/**
+ * Extract entries of a zip archive (KMZ, Takeout) in the browser.
+ * Only entries accepted by the filter are decompressed.
+ */
+export function readZipEntries(
+  file: File,
+  filter: (fileName: string) => boolean
+): Promise<Record<string, Uint8Array>> {
+  return file.arrayBuffer().then(buffer => new Promise((resolve, reject) => {
+    unzip(new Uint8Array(buffer), { filter: entry => filter(entry.name) }, (error, entries) => {
+      if (error) {
+        reject(new Error(CORRUPT_ARCHIVE));
+        return;
+      }
+      resolve(entries);
+    });
+  }));
+}
+
+/**
+ * Extract the text files of a zip archive accepted by the filter
+ */
+export async function readZipTextEntries(
+  file: File,
+  filter: (fileName: string) => boolean
+): Promise<Record<string, string>> {
+  const entries = await readZipEntries(file, filter);
+  const texts: Record<string, string> = {};
+
+  Object.entries(entries).forEach(([name, data]) => {
+    texts[name] = strFromU8(data);
+  });
+  return texts;
+}
+
+/**
+ * List the file names in a zip archive without decompressing anything
+ */
+export async function listZipEntries(file: Blob): Promise<string[]> {
+  return (await readZipDirectory(file)).map(entry => entry.name);
+}
+
+/**
+ * Read the central directory at the end of a zip archive, without reading the
+ * entries themselves. Supports ZIP64 archives.
+ */
+export async function readZipDirectory(file: Blob): Promise<ZipEntry[]> {
+  // The end of central directory record is followed by a comment of up to 64 KB
+  const tailStart = Math.max(0, file.size - 22 - MAX_COMMENT_LENGTH);
+  const tail = await readView(file, tailStart, file.size);
+
+  let end = -1;
+  for (let i = tail.byteLength - 22; i >= 0 && end < 0; i--) {
+    if (tail.getUint32(i, true) === 0x06054b50) end = i;
+  }
+  if (end < 0) throw new Error(CORRUPT_ARCHIVE);
+
+  let count = tail.getUint16(end + 10, true);
+  let directorySize = tail.getUint32(end + 12, true);
+  let directoryOffset = tail.getUint32(end + 16, true);
+
+  // ZIP64 archives keep the real values in a record found through a locator just before
+  if (count === 0xffff || directorySize === 0xffffffff || directoryOffset === 0xffffffff) {
+    if (end < 20 || tail.getUint32(end - 20, true) !== 0x07064b50) throw new Error(CORRUPT_ARCHIVE);
+    const recordOffset = Number(tail.getBigUint64(end - 12, true));
+    const record = await readView(file, recordOffset, recordOffset + 56);
+    if (record.getUint32(0, true) !== 0x06064b50) throw new Error(CORRUPT_ARCHIVE);
+    count = Number(record.getBigUint64(32, true));
+    directorySize = Number(record.getBigUint64(40, true));
+    directoryOffset = Number(record.getBigUint64(48, true));
+  }
+
+  const directory = await readView(file, directoryOffset, directoryOffset + directorySize);
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > directory.byteLength || directory.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error(CORRUPT_ARCHIVE);
+    }
+
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    const isUtf8 = (directory.getUint16(offset + 8, true) & 0x800) !== 0;
+    const name = strFromU8(new Uint8Array(directory.buffer, directory.byteOffset + offset + 46, nameLength), !isUtf8);
+
+    const entry: ZipEntry = {
+      name,
+      method: directory.getUint16(offset + 10, true),
+      compressedSize: directory.getUint32(offset + 20, true),
+      size: directory.getUint32(offset + 24, true),
+      localHeaderOffset: directory.getUint32(offset + 42, true)
+    };
+    readZip64Extra(directory, offset + 46 + nameLength, extraLength, entry);
+
+    if (!name.endsWith('/')) entries.push(entry);
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Read one entry of a zip archive as a stream, inflated while it is read
+ */
+export async function openZipEntry(file: Blob, entry: ZipEntry): Promise<ByteSource> {
+  const header = await readView(file, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+  if (header.getUint32(0, true) !== 0x04034b50) throw new Error(CORRUPT_ARCHIVE);
+  if (entry.method !== 0 && entry.method !== 8) {
+    throw new Error(`Unsupported zip compression method ${entry.method} for ${entry.name}`);
+  }
+
+  const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const data = file.slice(dataStart, dataStart + entry.compressedSize);
+
+  return {
+    size: entry.size,
+    stream: () => entry.method === 0 ? data.stream() : data.stream().pipeThrough(createInflateStream())
+  };
+}
+
+function createInflateStream(): TransformStream<Uint8Array, Uint8Array> {
+  const inflate = new Inflate();
+  return new TransformStream({
+    start: (controller) => {
+      inflate.ondata = (chunk) => controller.enqueue(chunk);
+    },
+    transform: (chunk) => inflate.push(chunk),
+    flush: () => inflate.push(new Uint8Array(0), true)
+  });
+}
+
+// Sizes and offsets that don't fit in 32 bits are moved to the ZIP64 extra field, in this order
+function readZip64Extra(view: DataView, start: number, length: number, entry: ZipEntry): void {
+  for (let offset = start; offset + 4 <= start + length;) {
+    const id = view.getUint16(offset, true);
+    const size = view.getUint16(offset + 2, true);
+
+    if (id === 0x0001) {
+      let field = offset + 4;
+      const next = () => {
+        const value = Number(view.getBigUint64(field, true));
+        field += 8;
+        return value;
+      };
+      if (entry.size === 0xffffffff) entry.size = next();
+      if (entry.compressedSize === 0xffffffff) entry.compressedSize = next();
+      if (entry.localHeaderOffset === 0xffffffff) entry.localHeaderOffset = next();
+      return;
+    }
+    offset += 4 + size;
+  }
+}
+
+async function readView(file: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await file.slice(start, end).arrayBuffer());
+}
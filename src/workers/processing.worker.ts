@@ -0,0 +1,75 @@
+import { ImporterRegistry } from '../services/importers';
+import { EnrichmentJobService } from '../services/enrichmentJobs';
+import { isAbortError, ProcessingCancelledError } from '../utils/abort';
+import type { ProcessingWorkerRequest, ProcessingWorkerResponse } from './protocol';
+
+/**
+ * Runs importers and API enrichment off the main thread so large files
+ * don't freeze the UI
+ */
+const post = (message: ProcessingWorkerResponse) => self.postMessage(message);
+
+// Requests in progress, so a cancel message can stop them
+const controllers = new Map<number, AbortController>();
+
+const handleImport = async (requestId: number, importerId: string, files: File[], signal: AbortSignal) => {
+  const importer = ImporterRegistry.getImporter(importerId);
+  if (!importer) {
+    throw new Error(`Unknown importer "${importerId}"`);
+  }
+
+  const context = {
+    onProgress: (progress: number) => post({ type: 'progress', requestId, progress }),
+    signal
+  };
+  const result = importer.convertBatch && files.length > 1
+    ? await importer.convertBatch(files, context)
+    : await importer.convert(files[0], context);
+  post({ type: 'imported', requestId, result });
+};
+
+const handleEnhance = async (requestId: number, jobId: string, signal: AbortSignal) => {
+  const result = await EnrichmentJobService.runJob(
+    jobId,
+    (progress, stage) => post({ type: 'progress', requestId, progress, stage }),
+    (trips) => post({ type: 'partial', requestId, trips }),
+    signal
+  );
+  post({ type: 'enhanced', requestId, result });
+};
+
+self.onmessage = async (event: MessageEvent<ProcessingWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    controllers.get(request.requestId)?.abort();
+    return;
+  }
+
+  const controller = new AbortController();
+  controllers.set(request.requestId, controller);
+
+  try {
+    if (request.type === 'import') {
+      await handleImport(request.requestId, request.importerId, request.files, controller.signal);
+    } else {
+      await handleEnhance(request.requestId, request.jobId, controller.signal);
+    }
+  } catch (error) {
+    if (isAbortError(error)) {
+      post({
+        type: 'cancelled',
+        requestId: request.requestId,
+        partialResult: error instanceof ProcessingCancelledError ? error.partialResult : undefined
+      });
+    } else {
+      post({
+        type: 'error',
+        requestId: request.requestId,
+        message: error instanceof Error ? error.message : 'Unknown processing error'
+      });
+    }
+  } finally {
+    controllers.delete(request.requestId);
+  }
+};
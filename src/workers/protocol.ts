@@ -0,0 +1,22 @@
+import type {
+  EnhancedProcessingResult,
+  EnhancedTrip,
+  ImportResult
+} from '../types/travel';
+
+/**
+ * Messages exchanged with the processing worker. Every request carries an id
+ * that the worker echoes on each response for it; a cancel names the request to stop.
+ */
+export type ProcessingWorkerRequest =
+  | { type: 'import'; requestId: number; importerId: string; files: File[] } // Several files only for importers with convertBatch
+  | { type: 'enhance'; requestId: number; jobId: string }
+  | { type: 'cancel'; requestId: number };
+
+export type ProcessingWorkerResponse =
+  | { type: 'progress'; requestId: number; progress: number; stage?: string }
+  | { type: 'partial'; requestId: number; trips: EnhancedTrip[] }
+  | { type: 'imported'; requestId: number; result: ImportResult }
+  | { type: 'enhanced'; requestId: number; result: EnhancedProcessingResult }
+  | { type: 'cancelled'; requestId: number; partialResult?: EnhancedProcessingResult }
+  | { type: 'error'; requestId: number; message: string };
@@ -4,6 +4,10 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // The processing worker is started as a module worker and loads datasets (e.g. airports) on demand
+  worker: {
+    format: 'es'
+  },
   server: {
     allowedHosts: ['localhost', '127.0.0.1', 'bentlee-flawed-sunshine.ngrok-free.dev']
   }